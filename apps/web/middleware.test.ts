@@ -0,0 +1,193 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Middleware Tests
+ *
+ * Sessions are refreshed with @supabase/ssr and verified from the signed access token,
+ * route handlers receive the verified user and business as request headers, and users
+ * without a business are sent to create one
+ */
+
+import { NextRequest } from 'next/server';
+import { createServerClient } from '@supabase/ssr';
+import { middleware } from './middleware';
+
+jest.mock('@supabase/ssr', () => ({
+  createServerClient: jest.fn(),
+}));
+
+jest.mock('@/lib/env', () => ({
+  env: {
+    supabase: {
+      url: 'http://localhost:54321',
+      anonKey: 'anon-key',
+      jwtSecret: 'super-secret-jwt-token-with-at-least-32-characters',
+    },
+  },
+}));
+
+const SECRET = 'super-secret-jwt-token-with-at-least-32-characters';
+const USER_ID = '987fcdeb-51a2-43d1-9f12-345678901234';
+const CENTRO_ID = '123e4567-e89b-12d3-a456-426614174000';
+const NORTE_ID = '456e7890-e89b-12d3-a456-426614174111';
+const FOREIGN_ID = '789e0123-e89b-12d3-a456-426614174222';
+
+const base64Url = (bytes: Uint8Array) =>
+  Buffer.from(bytes).toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const encodeJson = (value: unknown) => base64Url(new TextEncoder().encode(JSON.stringify(value)));
+
+async function sessionCookieValue(exp = Math.floor(Date.now() / 1000) + 3600): Promise<string> {
+  const signingInput = `${encodeJson({ alg: 'HS256', typ: 'JWT' })}.${encodeJson({ sub: USER_ID, exp })}`;
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(SECRET),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(signingInput));
+  const accessToken = `${signingInput}.${base64Url(new Uint8Array(signature))}`;
+  return `base64-${encodeJson({ access_token: accessToken, refresh_token: 'refresh' })}`;
+}
+
+async function sessionCookie(exp?: number): Promise<string> {
+  return `sb-localhost-auth-token=${await sessionCookieValue(exp)}`;
+}
+
+const request = (path: string, cookie?: string, headers: Record<string, string> = {}) =>
+  new NextRequest(`http://localhost:3000${path}`, {
+    headers: cookie ? { ...headers, cookie } : headers,
+  });
+
+// Headers NextResponse.next({ request: { headers } }) forwards to the route handler
+const forwardedHeader = (response: Response, name: string) =>
+  response.headers.get(`x-middleware-request-${name}`);
+
+type CookieMethods = { setAll: (cookies: Array<{ name: string; value: string; options: object }>) => void };
+
+const fetchMock = jest.fn();
+const getUserMock = jest.fn();
+let visibleBusinesses: Array<{ id: string }> = [];
+let cookieMethods: CookieMethods;
+
+describe('middleware', () => {
+  beforeEach(() => {
+    visibleBusinesses = [{ id: CENTRO_ID }, { id: NORTE_ID }];
+    getUserMock.mockReset();
+    getUserMock.mockResolvedValue({ data: { user: null }, error: null });
+    (createServerClient as jest.Mock).mockImplementation((_url, _key, options: { cookies: CookieMethods }) => {
+      cookieMethods = options.cookies;
+      return { auth: { getUser: getUserMock } };
+    });
+    fetchMock.mockReset();
+    fetchMock.mockImplementation(async () => Response.json(visibleBusinesses));
+    global.fetch = fetchMock;
+  });
+
+  it('redirects business routes to login without a session', async () => {
+    const response = await middleware(request('/calendar'));
+
+    expect(response.status).toBe(307);
+    expect(response.headers.get('location')).toBe('http://localhost:3000/login?returnUrl=%252Fcalendar');
+  });
+
+  it('does not accept a cookie just because of its name', async () => {
+    const response = await middleware(request('/services', 'sb-localhost-auth-token=yes; sb-refresh-token=yes'));
+
+    expect(response.headers.get('location')).toContain('/login');
+  });
+
+  it('rejects expired sessions', async () => {
+    const cookie = await sessionCookie(Math.floor(Date.now() / 1000) - 60);
+
+    const response = await middleware(request('/specialists', cookie));
+
+    expect(response.headers.get('location')).toContain('/login');
+  });
+
+  it('refreshes an expiring session before verifying it and returns the new cookies', async () => {
+    const refreshed = await sessionCookieValue();
+    getUserMock.mockImplementation(async () => {
+      cookieMethods.setAll([{ name: 'sb-localhost-auth-token', value: refreshed, options: { path: '/' } }]);
+      return { data: { user: { id: USER_ID } }, error: null };
+    });
+    const expired = await sessionCookie(Math.floor(Date.now() / 1000) - 60);
+
+    const response = await middleware(request('/calendar', expired));
+
+    expect(response.headers.get('location')).toBeNull();
+    expect(forwardedHeader(response, 'x-user-id')).toBe(USER_ID);
+    expect(response.cookies.get('sb-localhost-auth-token')?.value).toBe(refreshed);
+  });
+
+  it('attaches the verified user and selected business for business pages', async () => {
+    const cookie = `${await sessionCookie()}; current_business_id=${NORTE_ID}`;
+
+    const response = await middleware(request('/calendar', cookie));
+
+    expect(forwardedHeader(response, 'x-user-id')).toBe(USER_ID);
+    expect(forwardedHeader(response, 'x-business-id')).toBe(NORTE_ID);
+    expect(fetchMock).toHaveBeenCalledWith(
+      'http://localhost:54321/rest/v1/businesses?select=id&order=created_at.asc',
+      { headers: { apikey: 'anon-key', Authorization: expect.stringMatching(/^Bearer /) } }
+    );
+  });
+
+  it('leaves resolving the business of API requests to the route handlers', async () => {
+    const cookie = `${await sessionCookie()}; current_business_id=${NORTE_ID}`;
+
+    const response = await middleware(request('/api/services', cookie));
+
+    expect(forwardedHeader(response, 'x-user-id')).toBe(USER_ID);
+    expect(forwardedHeader(response, 'x-business-id')).toBeNull();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('falls back to the oldest business when the selection is not one of the user\'s', async () => {
+    const cookie = `${await sessionCookie()}; current_business_id=${FOREIGN_ID}`;
+
+    const response = await middleware(request('/dashboard', cookie));
+
+    expect(response.headers.get('location')).toBeNull();
+    expect(forwardedHeader(response, 'x-business-id')).toBe(CENTRO_ID);
+  });
+
+  it('never forwards identity headers sent by the client', async () => {
+    const response = await middleware(request('/api/services', undefined, {
+      'x-user-id': USER_ID,
+      'x-business-id': FOREIGN_ID,
+    }));
+
+    expect(forwardedHeader(response, 'x-user-id')).toBeNull();
+    expect(forwardedHeader(response, 'x-business-id')).toBeNull();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('sends users without a business to register one', async () => {
+    visibleBusinesses = [];
+
+    const response = await middleware(request('/dashboard', await sessionCookie()));
+
+    expect(response.headers.get('location')).toBe('http://localhost:3000/register/business?reason=no-business');
+  });
+
+  it('lets signed-in users without a business register one or accept an invitation', async () => {
+    visibleBusinesses = [];
+    const cookie = await sessionCookie();
+
+    const register = await middleware(request('/register/business', cookie));
+    const invitation = await middleware(request('/invitations/9b2f7c1e-4d3a-4b5c-8e6f-0a1b2c3d4e5f', cookie));
+
+    expect(register.headers.get('location')).toBeNull();
+    expect(invitation.headers.get('location')).toBeNull();
+  });
+
+  it('redirects signed-in users away from login', async () => {
+    const response = await middleware(request('/login', await sessionCookie()));
+
+    expect(response.headers.get('location')).toBe('http://localhost:3000/dashboard');
+  });
+});
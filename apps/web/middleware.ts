@@ -1,88 +1,165 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import { createServerClient, type CookieOptions } from '@supabase/ssr';
+import { env } from '@/lib/env';
+import { BUSINESS_SELECTION_COOKIE, parseBusinessSelection } from '@/lib/business-selection';
+import {
+  SESSION_BUSINESS_HEADER,
+  SESSION_USER_HEADER,
+  getAccessToken,
+  verifyAccessToken
+} from '@/lib/session-verification';
 
-// Routes that require authentication
+// Business routes: require a verified session and a business to work on
 const protectedRoutes = [
   '/dashboard',
+  '/calendar',
+  '/services',
+  '/specialists',
+  '/clients',
+  '/appointments',
   '/settings',
   '/profile',
-  '/appointments',
-  '/clients',
   '/reports'
 ];
 
+// Require a verified session but not a business yet (creating one, joining a team)
+const businessSetupRoutes = [
+  '/register/business',
+  '/invitations'
+];
+
 // Routes that should redirect authenticated users away (login, register)
 const authRoutes = [
   '/login',
   '/register'
 ];
 
-// Public routes that don't require authentication
-const publicRoutes = [
-  '/',
-  '/about',
-  '/contact',
-  '/api/health',
-  '/design-system'
-];
+const matchesRoute = (pathname: string, routes: string[]) =>
+  routes.some(route => pathname === route || pathname.startsWith(`${route}/`));
+
+type SessionCookie = { name: string; value: string; options: CookieOptions };
+
+/**
+ * Refresh the Supabase session when its access token is about to expire (the @supabase/ssr
+ * middleware pattern). getUser() rotates the tokens through setAll, which writes them to the
+ * request, so the checks below and the route handlers see the new session; the returned
+ * cookies must also be set on the response so the browser keeps it
+ */
+async function refreshSession(request: NextRequest): Promise<SessionCookie[]> {
+  const refreshedCookies: SessionCookie[] = [];
+
+  const supabase = createServerClient(env.supabase.url, env.supabase.anonKey, {
+    cookies: {
+      getAll() {
+        return request.cookies.getAll();
+      },
+      setAll(cookiesToSet) {
+        cookiesToSet.forEach(({ name, value }) => request.cookies.set(name, value));
+        refreshedCookies.push(...cookiesToSet);
+      },
+    },
+  });
+
+  try {
+    await supabase.auth.getUser();
+  } catch (error) {
+    console.error('Middleware - session refresh failed:', error);
+  }
+
+  return refreshedCookies;
+}
+
+/**
+ * Businesses the user can work on, oldest first. RLS on businesses limits the rows
+ * to those the user owns or is an active member of; null when the lookup fails
+ */
+async function fetchBusinessIds(accessToken: string): Promise<string[] | null> {
+  try {
+    const response = await fetch(
+      `${env.supabase.url}/rest/v1/businesses?select=id&order=created_at.asc`,
+      {
+        headers: {
+          apikey: env.supabase.anonKey,
+          Authorization: `Bearer ${accessToken}`
+        }
+      }
+    );
+
+    if (!response.ok) {
+      console.error('Middleware - business lookup failed with status', response.status);
+      return null;
+    }
 
-export function middleware(request: NextRequest) {
+    const businesses: Array<{ id: string }> = await response.json();
+    return businesses.map(business => business.id);
+  } catch (error) {
+    console.error('Middleware - business lookup failed:', error);
+    return null;
+  }
+}
+
+export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
-  
-  // Check if the route is protected
-  const isProtectedRoute = protectedRoutes.some(route => 
-    pathname.startsWith(route)
-  );
-  
-  // Check if the route is an auth route (login/register)
-  const isAuthRoute = authRoutes.some(route => 
-    pathname.startsWith(route)
-  );
-  
-  // Check if the route is public
-  const isPublicRoute = publicRoutes.includes(pathname) || 
-                       pathname.startsWith('/api/') || 
-                       pathname.startsWith('/_next/') ||
-                       pathname.includes('.') ||
-                       pathname === '/favicon.ico';
-  
-  // Get authentication token from cookies
-  // Check for any Supabase-related cookies (dynamic detection)
-  const allCookies = request.cookies.getAll();
-  const supabaseCookies = allCookies.filter(cookie => 
-    cookie.name.includes('sb-') && 
-    (cookie.name.includes('auth') || cookie.name.includes('token'))
-  );
-  
-  // Log for debugging
-  console.log('🛡️ Middleware - Total cookies:', allCookies.length);
-  console.log('🛡️ Middleware - Supabase cookies found:', supabaseCookies.map(c => c.name));
-  
-  const isAuthenticated = supabaseCookies.length > 0 && supabaseCookies.some(c => c.value);
-  
-  // Fallback to legacy cookie names for backward compatibility
-  const legacyAuthToken = request.cookies.get('sb-access-token');
-  const legacyRefreshToken = request.cookies.get('sb-refresh-token');
-  const hasLegacyCookies = !!(legacyAuthToken && legacyRefreshToken);
-  
-  const finalIsAuthenticated = isAuthenticated || hasLegacyCookies;
-  
-  // If accessing a protected route without authentication
-  if (isProtectedRoute && !finalIsAuthenticated) {
-    console.log('🛡️ Middleware - Redirecting to login, no auth found');
+
+  const isProtectedRoute = matchesRoute(pathname, protectedRoutes);
+  const isSetupRoute = matchesRoute(pathname, businessSetupRoutes);
+  const isAuthRoute = !isSetupRoute && matchesRoute(pathname, authRoutes);
+
+  const refreshedCookies = await refreshSession(request);
+  const withSessionCookies = (response: NextResponse) => {
+    refreshedCookies.forEach(({ name, value, options }) => response.cookies.set(name, value, options));
+    return response;
+  };
+
+  // Route handlers trust these headers, so they only ever come from this middleware
+  const requestHeaders = new Headers(request.headers);
+  requestHeaders.delete(SESSION_USER_HEADER);
+  requestHeaders.delete(SESSION_BUSINESS_HEADER);
+
+  // The signature and expiry are still verified locally, whatever the refresh returned
+  const accessToken = getAccessToken(request.cookies.getAll());
+  const session = accessToken
+    ? await verifyAccessToken(accessToken, { secret: env.supabase.jwtSecret, jwks: env.supabase.jwks })
+    : null;
+
+  // Missing, forged or expired session on a route that needs one
+  if (!session && (isProtectedRoute || isSetupRoute)) {
     const loginUrl = new URL('/login', request.url);
     loginUrl.searchParams.set('returnUrl', encodeURIComponent(pathname));
-    return NextResponse.redirect(loginUrl);
+    return withSessionCookies(NextResponse.redirect(loginUrl));
   }
-  
+
   // If authenticated user tries to access auth routes, redirect to dashboard
-  if (isAuthRoute && finalIsAuthenticated) {
-    console.log('🛡️ Middleware - Redirecting to dashboard, user already auth');
-    return NextResponse.redirect(new URL('/dashboard', request.url));
+  if (session && isAuthRoute) {
+    return withSessionCookies(NextResponse.redirect(new URL('/dashboard', request.url)));
+  }
+
+  if (session && accessToken) {
+    requestHeaders.set(SESSION_USER_HEADER, session.userId);
+
+    // Only business pages need the lookup, to send users without a business to register one;
+    // API handlers resolve the selected business themselves through RLS (server-business-context)
+    if (isProtectedRoute) {
+      const businessIds = await fetchBusinessIds(accessToken);
+
+      if (businessIds) {
+        // The location chosen with the business switcher, when the user still belongs to it
+        const selectedBusinessId = parseBusinessSelection(request.cookies.get(BUSINESS_SELECTION_COOKIE)?.value);
+        const businessId = selectedBusinessId && businessIds.includes(selectedBusinessId)
+          ? selectedBusinessId
+          : businessIds[0];
+
+        if (!businessId) {
+          return withSessionCookies(NextResponse.redirect(new URL('/register/business?reason=no-business', request.url)));
+        }
+
+        requestHeaders.set(SESSION_BUSINESS_HEADER, businessId);
+      }
+    }
   }
-  
-  // For all other routes, continue normally
-  return NextResponse.next();
+
+  return withSessionCookies(NextResponse.next({ request: { headers: requestHeaders } }));
 }
 
 // Configure which routes should be processed by this middleware
@@ -4,7 +4,9 @@ import React, { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { ColombianBusinessForm } from '@/components/business/registration-form';
 import { BusinessRegistrationData } from '@/components/forms/validation-schemas';
+import { apiClient, type ApiError, type BusinessRegistrationResponse } from '@/lib/api-client';
 import { useAuth } from '@/lib/auth-provider';
+import { storeBusinessSelection } from '@/lib/business-selection';
 
 interface RegistrationState {
   isLoading: boolean;
@@ -13,30 +15,7 @@ interface RegistrationState {
   isSuccess: boolean;
 }
 
-interface RegistrationResponse {
-  success: boolean;
-  data?: {
-    business: {
-      id: string;
-      name: string;
-      email: string;
-      phone: string;
-      whatsapp_number: string;
-      address: {
-        street: string;
-        city: string;
-        department: string;
-      };
-    };
-  };
-  error?: {
-    type: 'validation_error' | 'email_exists' | 'server_error';
-    message: string;
-    details?: Record<string, string>;
-    field?: string;
-  };
-  message?: string;
-}
+type RegisteredBusiness = BusinessRegistrationResponse['data']['business'];
 
 /**
  * Colombian Business Registration Page
@@ -69,39 +48,21 @@ export default function BusinessRegistrationPage() {
       generalError: ''
     }));
 
-    try {
-      const response = await fetch('/api/business/register', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(data),
-      });
-
-      const result: RegistrationResponse = await response.json();
+    const result = await apiClient.business.register(data);
 
-      if (response.ok && result.success && result.data) {
-        // Handle successful registration
-        await handleSuccessfulRegistration(result.data.business);
-      } else {
-        // Handle API errors
-        handleRegistrationError(result.error);
-      }
-    } catch (error) {
-      // Handle network errors
-      console.error('Registration network error:', error);
-      setState(prev => ({
-        ...prev,
-        isLoading: false,
-        generalError: 'Error de conexión. Por favor, verifica tu internet e intenta nuevamente.'
-      }));
+    if (result.success) {
+      // Handle successful registration
+      await handleSuccessfulRegistration(result.data.data.business);
+    } else {
+      // Handle API and network errors
+      handleRegistrationError(result.error);
     }
   };
 
   /**
    * Handle successful business registration
    */
-  const handleSuccessfulRegistration = async (business: NonNullable<RegistrationResponse['data']>['business']) => {
+  const handleSuccessfulRegistration = async (business: RegisteredBusiness) => {
     try {
       // Set business context in localStorage for multi-tenant isolation
       setBusinessContext(business);
@@ -131,27 +92,20 @@ export default function BusinessRegistrationPage() {
   /**
    * Handle registration errors from API
    */
-  const handleRegistrationError = (error: RegistrationResponse['error']) => {
-    if (!error) {
-      setState(prev => ({
-        ...prev,
-        isLoading: false,
-        generalError: 'Error desconocido. Por favor, intenta nuevamente.'
-      }));
-      return;
-    }
-
-    switch (error.type) {
-      case 'validation_error':
+  const handleRegistrationError = (error: ApiError) => {
+    switch (error.code) {
+      case 'VALIDATION_ERROR': {
+        const details = error.details && !Array.isArray(error.details) ? error.details : undefined;
         setState(prev => ({
           ...prev,
           isLoading: false,
-          errors: error.details || {},
-          generalError: error.details ? '' : error.message
+          errors: details || {},
+          generalError: details ? '' : error.message
         }));
         break;
+      }
 
-      case 'email_exists':
+      case 'CONFLICT':
         setState(prev => ({
           ...prev,
           isLoading: false,
@@ -160,7 +114,16 @@ export default function BusinessRegistrationPage() {
         }));
         break;
 
-      case 'server_error':
+      case 'TIMEOUT':
+      case 'NETWORK_ERROR':
+        console.error('Registration network error:', error.message);
+        setState(prev => ({
+          ...prev,
+          isLoading: false,
+          generalError: 'Error de conexión. Por favor, verifica tu internet e intenta nuevamente.'
+        }));
+        break;
+
       default:
         setState(prev => ({
           ...prev,
@@ -173,11 +136,13 @@ export default function BusinessRegistrationPage() {
 
   /**
    * Set business context for multi-tenant isolation
+   * Owners registering another location switch to it right away
    */
-  const setBusinessContext = (business: NonNullable<RegistrationResponse['data']>['business']) => {
+  const setBusinessContext = (business: RegisteredBusiness) => {
     if (typeof window !== 'undefined') {
       // Store business ID for API authentication
       localStorage.setItem('current_business_id', business.id);
+      storeBusinessSelection(business.id);
       
       // Store business context for immediate access
       const businessContext = {
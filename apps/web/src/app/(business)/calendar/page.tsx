@@ -0,0 +1,229 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { Appointment, BusinessHours, DateOverride, Specialist } from '@appointments-demo/types';
+import { getColombianHolidays } from '@appointments-demo/utils';
+import {
+  AppointmentCalendar,
+  getCalendarDays,
+  getTodayKey,
+  shiftAnchor,
+  startOfDateKey,
+  type CalendarView,
+  type RescheduleTarget
+} from '@/components/business/appointment-calendar';
+import { apiClient, getApiErrorMessage } from '@/lib/api-client';
+
+// Disable static optimization for this page since it requires client-side auth
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_TIME_ZONE = 'America/Bogota';
+
+const VIEW_LABELS: Record<CalendarView, string> = {
+  day: 'Día',
+  week: 'Semana',
+  month: 'Mes'
+};
+
+// Title for the visible range, e.g. "marzo de 2025"
+function formatRangeTitle(view: CalendarView, days: string[]): string {
+  const toDate = (key: string) => new Date(`${key}T12:00:00Z`);
+  const options: Intl.DateTimeFormatOptions = view === 'month'
+    ? { month: 'long', year: 'numeric', timeZone: 'UTC' }
+    : { day: 'numeric', month: 'long', year: 'numeric', timeZone: 'UTC' };
+
+  if (view === 'month') {
+    return toDate(days[Math.floor(days.length / 2)]).toLocaleDateString('es-CO', options);
+  }
+  if (view === 'day') {
+    return toDate(days[0]).toLocaleDateString('es-CO', { weekday: 'long', ...options });
+  }
+  return `${toDate(days[0]).toLocaleDateString('es-CO', options)} – ${toDate(days[days.length - 1]).toLocaleDateString('es-CO', options)}`;
+}
+
+export default function CalendarPage() {
+  const [view, setView] = useState<CalendarView>('week');
+  const [anchor, setAnchor] = useState(() => getTodayKey(DEFAULT_TIME_ZONE));
+  const [timeZone, setTimeZone] = useState(DEFAULT_TIME_ZONE);
+  const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const [specialists, setSpecialists] = useState<Specialist[]>([]);
+  const [businessHours, setBusinessHours] = useState<BusinessHours[]>([]);
+  const [dateOverrides, setDateOverrides] = useState<DateOverride[]>([]);
+  const [specialistFilter, setSpecialistFilter] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const days = getCalendarDays(view, anchor);
+  const firstDay = days[0];
+  const lastDay = days[days.length - 1];
+
+  const fetchData = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const [appointmentsResult, specialistsResult, profileResult] = await Promise.all([
+        apiClient.appointments.list({
+          from: startOfDateKey(firstDay, timeZone),
+          to: startOfDateKey(shiftAnchor('day', lastDay, 1), timeZone)
+        }),
+        apiClient.specialists.list(),
+        apiClient.business.getProfile()
+      ]);
+
+      if (!appointmentsResult.success || !specialistsResult.success || !profileResult.success) {
+        throw new Error('Failed to fetch calendar');
+      }
+
+      const { settings } = profileResult.data.business;
+      setAppointments(appointmentsResult.data.appointments);
+      setSpecialists(specialistsResult.data.specialists);
+      setBusinessHours(settings?.businessHours || []);
+      setDateOverrides(settings?.dateOverrides || []);
+      setTimeZone(settings?.timezone || DEFAULT_TIME_ZONE);
+    } catch (err) {
+      console.error('Error fetching calendar:', err);
+      setError('Error al cargar el calendario');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [firstDay, lastDay, timeZone]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const handleReschedule = async (appointment: Appointment, target: RescheduleTarget) => {
+    let failure: string | null = null;
+
+    try {
+      const result = await apiClient.appointments.update(appointment.id, {
+        scheduledAt: target.scheduledAt,
+        ...(target.specialistId && { specialistId: target.specialistId })
+      });
+
+      if (!result.success) {
+        failure = result.error.code === 'CONFLICT'
+          ? 'No se pudo mover la cita: se cruza con otra cita del mismo especialista'
+          : getApiErrorMessage(result.error, 'Error al mover la cita');
+      }
+    } catch (err) {
+      console.error('Error rescheduling appointment:', err);
+      failure = 'Error al mover la cita';
+    }
+
+    // Reload either way so the calendar shows where the appointment really is
+    await fetchData();
+    if (failure) {
+      setError(failure);
+    }
+  };
+
+  const years = Array.from(new Set(days.map(key => Number(key.slice(0, 4)))));
+  const holidays = years.flatMap(year => getColombianHolidays(year));
+
+  const visibleSpecialists = specialistFilter
+    ? specialists.filter(specialist => specialist.id === specialistFilter)
+    : specialists.filter(specialist => specialist.isActive || appointments.some(a => a.specialistId === specialist.id));
+  const visibleAppointments = specialistFilter
+    ? appointments.filter(appointment => appointment.specialistId === specialistFilter)
+    : appointments;
+
+  return (
+    <div className="py-6">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Page header */}
+        <div className="md:flex md:items-center md:justify-between mb-8">
+          <div className="flex-1 min-w-0">
+            <h2 className="text-2xl font-bold leading-7 text-gray-900 sm:text-3xl sm:truncate">
+              Calendario
+            </h2>
+            <p className="mt-1 text-sm text-gray-500 first-letter:uppercase">
+              {formatRangeTitle(view, days)}
+            </p>
+          </div>
+          <div className="mt-4 md:mt-0 flex flex-wrap items-center gap-3">
+            <div className="inline-flex rounded-md shadow-sm">
+              {(Object.keys(VIEW_LABELS) as CalendarView[]).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setView(option)}
+                  className={`px-3 py-2 text-sm font-medium border border-gray-300 first:rounded-l-md last:rounded-r-md -ml-px first:ml-0 ${
+                    view === option ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {VIEW_LABELS[option]}
+                </button>
+              ))}
+            </div>
+            <div className="inline-flex items-center space-x-1">
+              <button
+                onClick={() => setAnchor(prev => shiftAnchor(view, prev, -1))}
+                aria-label="Anterior"
+                className="px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                ‹
+              </button>
+              <button
+                onClick={() => setAnchor(getTodayKey(timeZone))}
+                className="px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                Hoy
+              </button>
+              <button
+                onClick={() => setAnchor(prev => shiftAnchor(view, prev, 1))}
+                aria-label="Siguiente"
+                className="px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                ›
+              </button>
+            </div>
+            <label htmlFor="specialist-filter" className="sr-only">Especialista</label>
+            <select
+              id="specialist-filter"
+              value={specialistFilter}
+              onChange={(e) => setSpecialistFilter(e.target.value)}
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">Todos los especialistas</option>
+              {specialists.map(specialist => (
+                <option key={specialist.id} value={specialist.id}>{specialist.name}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4">
+            <p className="text-red-600">{error}</p>
+            <button
+              onClick={fetchData}
+              className="mt-2 text-sm font-medium text-red-700 underline"
+            >
+              Intentar de nuevo
+            </button>
+          </div>
+        )}
+
+        {isLoading && appointments.length === 0 && specialists.length === 0 ? (
+          <div className="animate-pulse bg-white shadow rounded-lg p-6">
+            <div className="h-6 bg-gray-200 rounded w-1/3 mb-4"></div>
+            <div className="h-4 bg-gray-200 rounded w-2/3"></div>
+          </div>
+        ) : (
+          <AppointmentCalendar
+            view={view}
+            days={days}
+            appointments={visibleAppointments}
+            specialists={visibleSpecialists}
+            businessHours={businessHours}
+            dateOverrides={dateOverrides}
+            holidays={holidays}
+            timeZone={timeZone}
+            onReschedule={handleReschedule}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
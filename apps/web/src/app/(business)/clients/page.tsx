@@ -0,0 +1,232 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { Appointment } from '@appointments-demo/types';
+import { ClientDetail, type ClientWithStats } from '@/components/business/client-detail';
+import { apiClient } from '@/lib/api-client';
+
+// Disable static optimization for this page since it requires client-side auth
+export const dynamic = 'force-dynamic';
+
+// Wait for the user to stop typing before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
+interface SelectedClient {
+  client: ClientWithStats;
+  appointments: Appointment[];
+}
+
+export default function ClientsPage() {
+  const [clients, setClients] = useState<ClientWithStats[]>([]);
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState<SelectedClient | null>(null);
+  const [mergeIds, setMergeIds] = useState<string[]>([]);
+  const [mergeTargetId, setMergeTargetId] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchClients = useCallback(async (search: string) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const result = await apiClient.clients.list(search);
+      if (!result.success) {
+        throw new Error(result.error.message);
+      }
+
+      setClients(result.data.clients);
+    } catch (err) {
+      console.error('Error fetching clients:', err);
+      setError('Error al cargar los clientes');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => fetchClients(query), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [query, fetchClients]);
+
+  const handleSelect = async (client: ClientWithStats) => {
+    try {
+      const result = await apiClient.clients.get(client.id);
+      if (!result.success) {
+        throw new Error(result.error.message);
+      }
+
+      setSelected({ client: result.data.client, appointments: result.data.appointments });
+    } catch (err) {
+      console.error('Error fetching client:', err);
+      setError('Error al cargar el historial del cliente');
+    }
+  };
+
+  const handleToggleMerge = (clientId: string, checked: boolean) => {
+    setMergeIds(prev => (checked ? [...prev, clientId] : prev.filter(id => id !== clientId)));
+    if (!checked && mergeTargetId === clientId) {
+      setMergeTargetId('');
+    }
+  };
+
+  const handleMerge = async () => {
+    const targetId = mergeTargetId || mergeIds[0];
+    const target = clients.find(c => c.id === targetId);
+    if (!target || !window.confirm(`¿Fusionar ${mergeIds.length} clientes en "${target.name}"? Las citas se moverán a este cliente.`)) {
+      return;
+    }
+
+    try {
+      const result = await apiClient.clients.merge({ targetId, sourceIds: mergeIds.filter(id => id !== targetId) });
+      if (!result.success) {
+        throw new Error(result.error.message);
+      }
+
+      setMergeIds([]);
+      setMergeTargetId('');
+      setSelected(null);
+      await fetchClients(query);
+    } catch (err) {
+      console.error('Error merging clients:', err);
+      setError('Error al fusionar los clientes');
+    }
+  };
+
+  return (
+    <div className="py-6">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Page header */}
+        <div className="md:flex md:items-center md:justify-between mb-8">
+          <div className="flex-1 min-w-0">
+            <h2 className="text-2xl font-bold leading-7 text-gray-900 sm:text-3xl sm:truncate">
+              Clientes
+            </h2>
+            <p className="mt-1 text-sm text-gray-500">
+              Directorio de clientes con su historial de citas
+            </p>
+          </div>
+          <div className="mt-4 md:mt-0 md:w-80">
+            <label htmlFor="client-search" className="sr-only">Buscar clientes</label>
+            <input
+              type="search"
+              id="client-search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              className="block w-full border border-gray-300 rounded-md px-3 py-2 shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              placeholder="Buscar por nombre, teléfono o email"
+            />
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4">
+            <p className="text-red-600">{error}</p>
+            <button
+              onClick={() => fetchClients(query)}
+              className="mt-2 text-sm font-medium text-red-700 underline"
+            >
+              Intentar de nuevo
+            </button>
+          </div>
+        )}
+
+        {mergeIds.length >= 2 && (
+          <div className="mb-6 bg-blue-50 border border-blue-200 rounded-lg p-4 md:flex md:items-center md:justify-between">
+            <div className="flex items-center space-x-2 text-sm text-blue-900">
+              <label htmlFor="merge-target">Conservar a</label>
+              <select
+                id="merge-target"
+                value={mergeTargetId || mergeIds[0]}
+                onChange={(e) => setMergeTargetId(e.target.value)}
+                className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+              >
+                {mergeIds.map(id => {
+                  const client = clients.find(c => c.id === id);
+                  return client ? (
+                    <option key={id} value={id}>{client.name} ({client.phone})</option>
+                  ) : null;
+                })}
+              </select>
+            </div>
+            <button
+              onClick={handleMerge}
+              className="mt-3 md:mt-0 px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+            >
+              Fusionar {mergeIds.length} clientes
+            </button>
+          </div>
+        )}
+
+        {selected && (
+          <div className="mb-6">
+            <ClientDetail
+              client={selected.client}
+              appointments={selected.appointments}
+              onClose={() => setSelected(null)}
+            />
+          </div>
+        )}
+
+        {isLoading && clients.length === 0 ? (
+          <div className="animate-pulse bg-white shadow rounded-lg p-6">
+            <div className="h-6 bg-gray-200 rounded w-1/3 mb-4"></div>
+            <div className="h-4 bg-gray-200 rounded w-2/3"></div>
+          </div>
+        ) : clients.length === 0 ? (
+          <div className="bg-white shadow rounded-lg p-6 text-center text-gray-600">
+            {query.trim()
+              ? 'No se encontraron clientes con esa búsqueda.'
+              : 'Aún no tienes clientes. Se agregan automáticamente al agendar citas.'}
+          </div>
+        ) : (
+          <div className="bg-white shadow rounded-lg overflow-hidden">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3"><span className="sr-only">Fusionar</span></th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Cliente</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Teléfono</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Citas</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Inasistencias</th>
+                  <th className="px-6 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {clients.map(client => (
+                  <tr key={client.id}>
+                    <td className="px-6 py-4">
+                      <input
+                        type="checkbox"
+                        aria-label={`Seleccionar ${client.name} para fusionar`}
+                        checked={mergeIds.includes(client.id)}
+                        onChange={(e) => handleToggleMerge(client.id, e.target.checked)}
+                        className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                      />
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="text-sm font-medium text-gray-900">{client.name}</div>
+                      {client.email && <div className="text-sm text-gray-500">{client.email}</div>}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-700 whitespace-nowrap">{client.phone}</td>
+                    <td className="px-6 py-4 text-sm text-gray-700">{client.stats.appointmentCount}</td>
+                    <td className="px-6 py-4 text-sm">
+                      <span className={client.stats.noShowCount > 0 ? 'font-medium text-red-600' : 'text-gray-700'}>
+                        {client.stats.noShowCount}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-right text-sm whitespace-nowrap">
+                      <button onClick={() => handleSelect(client)} className="text-blue-600 hover:text-blue-800">
+                        Ver historial
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
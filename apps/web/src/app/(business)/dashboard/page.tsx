@@ -2,11 +2,27 @@
 
 import { Suspense, useState, useEffect } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
-import { useBusinessContext } from '@/lib/auth-provider';
+import { useBusinessContext, usePermission } from '@/lib/auth-provider';
+import { apiClient, getApiErrorMessage } from '@/lib/api-client';
 import { BusinessProfileCard } from '@/components/business/business-profile-card';
 import { BusinessProfileEditForm } from '@/components/business/business-profile-edit-form';
 import { BusinessSettingsPanel } from '@/components/business/business-settings-panel';
-import type { Business, BusinessSettings } from '@appointments-demo/types';
+import { ExchangeRatesPanel } from '@/components/business/exchange-rates-panel';
+import { MembersPanel, type MemberInviteResult } from '@/components/business/members-panel';
+import type { MemberInviteData } from '@/components/forms/validation-schemas';
+import type {
+  Business,
+  BusinessMember,
+  BusinessSettings,
+  BusinessSettingsVersion,
+  ExchangeRate
+} from '@appointments-demo/types';
+import {
+  CURRENCY_INFO,
+  DEFAULT_CURRENCY,
+  type BusinessOpenState,
+  type ExchangeRateQuote
+} from '@appointments-demo/utils';
 
 // Disable static optimization for this page since it requires client-side auth
 export const dynamic = 'force-dynamic';
@@ -18,8 +34,16 @@ function DashboardContent() {
   
   // Use new async business context hook with auto-selection
   const { businessId, isLoading: isBusinessLoading, error: businessError } = useBusinessContext({ autoSelect: true });
+
+  // Receptionists and specialists see the business but cannot change it
+  const { allowed: canManageSettings } = usePermission('settings:manage', businessId);
+  const { allowed: canManageMembers } = usePermission('members:manage', businessId);
   
   const [business, setBusiness] = useState<Business | null>(null);
+  const [openState, setOpenState] = useState<BusinessOpenState | null>(null);
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
+  const [members, setMembers] = useState<BusinessMember[]>([]);
+  const [settingsVersions, setSettingsVersions] = useState<BusinessSettingsVersion[]>([]);
   const [isEditingProfile, setIsEditingProfile] = useState(false);
   const [isEditingSettings, setIsEditingSettings] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
@@ -70,19 +94,13 @@ function DashboardContent() {
       setIsLoading(true);
       setError(null);
 
-      const response = await fetch('/api/business/profile', {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to fetch business profile');
+      const result = await apiClient.business.getProfile();
+      if (!result.success) {
+        throw new Error(result.error.message);
       }
 
-      const data = await response.json();
-      setBusiness(data.business);
+      setBusiness(result.data.business);
+      await Promise.all([fetchExchangeRates(), fetchOpenState()]);
     } catch (err) {
       console.error('Error fetching business profile:', err);
       setError('Error al cargar el perfil del negocio');
@@ -91,22 +109,117 @@ function DashboardContent() {
     }
   };
 
+  // Rates only matter for services priced in another currency, so a failure is not fatal
+  const fetchExchangeRates = async () => {
+    try {
+      const result = await apiClient.exchangeRates.list();
+      if (!result.success) {
+        throw new Error(result.error.message);
+      }
+
+      setExchangeRates(result.data.exchangeRates);
+    } catch (err) {
+      console.error('Error fetching exchange rates:', err);
+    }
+  };
+
+  // The open badge is informative, so a failure only hides it
+  const fetchOpenState = async () => {
+    try {
+      const result = await apiClient.business.getStatus();
+      if (!result.success) {
+        throw new Error(result.error.message);
+      }
+
+      setOpenState(result.data.status);
+    } catch (err) {
+      console.error('Error fetching business status:', err);
+      setOpenState(null);
+    }
+  };
+
+  // Load the team once the business is known and the user may manage it
+  const loadedBusinessId = business?.id;
+  useEffect(() => {
+    if (loadedBusinessId && canManageMembers) {
+      fetchMembers();
+    }
+  }, [loadedBusinessId, canManageMembers]);
+
+  // The team list is secondary to the dashboard, so a failure is not fatal
+  const fetchMembers = async () => {
+    try {
+      const result = await apiClient.business.members.list();
+      if (!result.success) {
+        throw new Error(result.error.message);
+      }
+
+      setMembers(result.data.members);
+    } catch (err) {
+      console.error('Error fetching members:', err);
+    }
+  };
+
+  // Load the settings history whenever the settings editor opens
+  useEffect(() => {
+    if (isEditingSettings) {
+      fetchSettingsVersions();
+    }
+  }, [isEditingSettings]);
+
+  // The history is secondary to editing the settings, so a failure is not fatal
+  const fetchSettingsVersions = async () => {
+    try {
+      const result = await apiClient.business.settingsVersions.list();
+      if (!result.success) {
+        throw new Error(result.error.message);
+      }
+
+      setSettingsVersions(result.data.versions);
+    } catch (err) {
+      console.error('Error fetching settings versions:', err);
+    }
+  };
+
+  const handleSettingsRestore = async (version: number) => {
+    const result = await apiClient.business.settingsVersions.restore(version);
+    if (!result.success) {
+      throw new Error(result.error.message);
+    }
+
+    const { settings, version: restoredVersion } = result.data;
+    setBusiness(prev => prev && { ...prev, settings });
+    setSettingsVersions(prev => [restoredVersion, ...prev.filter(v => v.version !== restoredVersion.version)]);
+  };
+
+  const handleMemberInvite = async (invitation: MemberInviteData): Promise<MemberInviteResult> => {
+    const result = await apiClient.business.members.invite(invitation);
+    if (!result.success) {
+      throw new Error(getApiErrorMessage(result.error, 'Error al enviar la invitación'));
+    }
+
+    const { member, invitationUrl, emailSent } = result.data;
+    setMembers(prev => [...prev, member]);
+    return { invitationUrl, emailSent };
+  };
+
+  const handleMemberRemove = async (memberId: string) => {
+    const result = await apiClient.business.members.remove(memberId);
+    if (!result.success) {
+      throw new Error(result.error.message);
+    }
+
+    setMembers(prev => prev.filter(member => member.id !== memberId));
+  };
+
   const handleProfileSave = async (updatedBusiness: Business) => {
     try {
-      const response = await fetch('/api/business/profile', {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(updatedBusiness),
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to update business profile');
+      const result = await apiClient.business.updateProfile(updatedBusiness);
+      if (!result.success) {
+        throw new Error(result.error.message);
       }
 
-      const data = await response.json();
-      setBusiness(data.business);
+      setBusiness(result.data.business);
       setIsEditingProfile(false);
     } catch (err) {
       console.error('Error updating business profile:', err);
@@ -116,24 +229,16 @@ function DashboardContent() {
 
   const handleSettingsSave = async (updatedSettings: BusinessSettings) => {
     try {
-      const response = await fetch('/api/business/settings', {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(updatedSettings),
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to update business settings');
+      const result = await apiClient.business.updateSettings(updatedSettings);
+      if (!result.success) {
+        throw new Error(result.error.message);
       }
 
-      const data = await response.json();
-      
       // Update the business object with new settings
       if (business) {
-        setBusiness({ ...business, settings: data.settings });
+        setBusiness({ ...business, settings: result.data.settings });
       }
+      await fetchOpenState();
       
       setIsEditingSettings(false);
     } catch (err) {
@@ -142,6 +247,18 @@ function DashboardContent() {
     }
   };
 
+  const handleExchangeRateSave = async (quote: ExchangeRateQuote) => {
+    const result = await apiClient.exchangeRates.save(quote);
+    if (!result.success) {
+      throw new Error(result.error.message);
+    }
+
+    setExchangeRates(prev => [
+      ...prev.filter(rate => rate.fromCurrency !== quote.fromCurrency || rate.toCurrency !== quote.toCurrency),
+      result.data.exchangeRate
+    ]);
+  };
+
   if (isBusinessLoading || isLoading) {
     return (
       <div className="py-6">
@@ -232,7 +349,8 @@ function DashboardContent() {
             ) : (
               <BusinessProfileCard
                 business={business}
-                onEdit={() => setIsEditingProfile(true)}
+                openState={openState ?? undefined}
+                onEdit={canManageSettings ? () => setIsEditingProfile(true) : undefined}
               />
             )}
           </div>
@@ -248,8 +366,12 @@ function DashboardContent() {
             
             {isEditingSettings ? (
               <BusinessSettingsPanel
+                // Remount after a rollback so the form shows the restored settings
+                key={settingsVersions[0]?.id}
                 settings={business.settings}
                 onSave={handleSettingsSave}
+                versions={settingsVersions}
+                onRestore={handleSettingsRestore}
               />
             ) : (
               <div className="bg-white shadow rounded-lg p-6">
@@ -257,15 +379,17 @@ function DashboardContent() {
                   <div>
                     <h4 className="text-md font-medium text-gray-900">Configuración Actual</h4>
                     <p className="text-sm text-gray-600">
-                      Zona horaria: {business.settings.timezone} | Moneda: {business.settings.currency}
+                      Zona horaria: {business.settings.timezone} | Moneda: {CURRENCY_INFO[business.settings.currency || DEFAULT_CURRENCY].name}
                     </p>
                   </div>
-                  <button
-                    onClick={() => setIsEditingSettings(true)}
-                    className="px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
-                  >
-                    Editar Configuración
-                  </button>
+                  {canManageSettings && (
+                    <button
+                      onClick={() => setIsEditingSettings(true)}
+                      className="px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                    >
+                      Editar Configuración
+                    </button>
+                  )}
                 </div>
                 
                 {/* Quick settings overview */}
@@ -293,6 +417,29 @@ function DashboardContent() {
             )}
           </div>
 
+          {/* Exchange Rates Section */}
+          {canManageSettings && (
+            <div>
+              <ExchangeRatesPanel
+                key={business.settings.currency}
+                baseCurrency={business.settings.currency || DEFAULT_CURRENCY}
+                rates={exchangeRates}
+                onSave={handleExchangeRateSave}
+              />
+            </div>
+          )}
+
+          {/* Team Section */}
+          {canManageMembers && (
+            <div>
+              <MembersPanel
+                members={members}
+                onInvite={handleMemberInvite}
+                onRemove={handleMemberRemove}
+              />
+            </div>
+          )}
+
           {/* Quick Actions */}
           <div>
             <div className="mb-4">
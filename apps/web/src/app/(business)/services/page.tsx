@@ -0,0 +1,196 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { Service } from '@appointments-demo/types';
+import { formatMoney } from '@appointments-demo/utils';
+import { ServiceForm, type ServiceFormValues } from '@/components/business/service-form';
+import { apiClient, getApiErrorMessage } from '@/lib/api-client';
+
+// Disable static optimization for this page since it requires client-side auth
+export const dynamic = 'force-dynamic';
+
+// Editing state: null = list only, 'new' = create form, Service = edit form
+type EditingState = Service | 'new' | null;
+
+export default function ServicesPage() {
+  const [services, setServices] = useState<Service[]>([]);
+  const [editing, setEditing] = useState<EditingState>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchServices = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const result = await apiClient.services.list();
+      if (!result.success) {
+        throw new Error(result.error.message);
+      }
+
+      setServices(result.data.services);
+    } catch (err) {
+      console.error('Error fetching services:', err);
+      setError('Error al cargar los servicios');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchServices();
+  }, [fetchServices]);
+
+  const handleSave = async (values: ServiceFormValues) => {
+    const result = editing === 'new'
+      ? await apiClient.services.create(values)
+      : await apiClient.services.update((editing as Service).id, values);
+
+    if (!result.success) {
+      // Surface the field-level validation message when there is one
+      throw new Error(getApiErrorMessage(result.error, 'Error al guardar el servicio'));
+    }
+
+    setEditing(null);
+    await fetchServices();
+  };
+
+  const handleToggleActive = async (service: Service) => {
+    try {
+      const result = await apiClient.services.update(service.id, { isActive: !service.isActive });
+      if (!result.success) {
+        throw new Error(result.error.message);
+      }
+
+      const updated = result.data.service;
+      setServices(prev => prev.map(s => (s.id === service.id ? updated : s)));
+    } catch (err) {
+      console.error('Error updating service:', err);
+      setError('Error al actualizar el servicio');
+    }
+  };
+
+  const handleDelete = async (service: Service) => {
+    if (!window.confirm(`¿Eliminar el servicio "${service.name}"? Las citas pasadas conservarán el nombre.`)) {
+      return;
+    }
+
+    try {
+      const result = await apiClient.services.remove(service.id);
+      if (!result.success) {
+        throw new Error(result.error.message);
+      }
+
+      setServices(prev => prev.filter(s => s.id !== service.id));
+    } catch (err) {
+      console.error('Error deleting service:', err);
+      setError('Error al eliminar el servicio');
+    }
+  };
+
+  return (
+    <div className="py-6">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Page header */}
+        <div className="md:flex md:items-center md:justify-between mb-8">
+          <div className="flex-1 min-w-0">
+            <h2 className="text-2xl font-bold leading-7 text-gray-900 sm:text-3xl sm:truncate">
+              Servicios
+            </h2>
+            <p className="mt-1 text-sm text-gray-500">
+              Catálogo de servicios con duración y precio
+            </p>
+          </div>
+          {editing === null && (
+            <button
+              onClick={() => setEditing('new')}
+              className="mt-4 md:mt-0 px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+            >
+              Nuevo Servicio
+            </button>
+          )}
+        </div>
+
+        {error && (
+          <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4">
+            <p className="text-red-600">{error}</p>
+            <button
+              onClick={fetchServices}
+              className="mt-2 text-sm font-medium text-red-700 underline"
+            >
+              Intentar de nuevo
+            </button>
+          </div>
+        )}
+
+        {editing !== null ? (
+          <ServiceForm
+            service={editing === 'new' ? undefined : editing}
+            onSave={handleSave}
+            onCancel={() => setEditing(null)}
+          />
+        ) : isLoading ? (
+          <div className="animate-pulse bg-white shadow rounded-lg p-6">
+            <div className="h-6 bg-gray-200 rounded w-1/3 mb-4"></div>
+            <div className="h-4 bg-gray-200 rounded w-2/3"></div>
+          </div>
+        ) : services.length === 0 ? (
+          <div className="bg-white shadow rounded-lg p-6 text-center text-gray-600">
+            Aún no tienes servicios. Crea el primero para empezar a recibir reservas.
+          </div>
+        ) : (
+          <div className="bg-white shadow rounded-lg overflow-hidden">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Servicio</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Duración</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Precio</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Estado</th>
+                  <th className="px-6 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {services.map(service => (
+                  <tr key={service.id}>
+                    <td className="px-6 py-4">
+                      <div className="text-sm font-medium text-gray-900">{service.name}</div>
+                      {service.description && (
+                        <div className="text-sm text-gray-500">{service.description}</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-700">
+                      {service.duration} min
+                      {service.bufferMinutes > 0 && (
+                        <span className="text-gray-500"> + {service.bufferMinutes} min preparación</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">{formatMoney(service.price, service.currency)}</td>
+                    <td className="px-6 py-4">
+                      <span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${
+                        service.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
+                      }`}>
+                        {service.isActive ? 'Activo' : 'Inactivo'}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-right text-sm space-x-3 whitespace-nowrap">
+                      <button onClick={() => setEditing(service)} className="text-blue-600 hover:text-blue-800">
+                        Editar
+                      </button>
+                      <button onClick={() => handleToggleActive(service)} className="text-gray-600 hover:text-gray-800">
+                        {service.isActive ? 'Desactivar' : 'Activar'}
+                      </button>
+                      <button onClick={() => handleDelete(service)} className="text-red-600 hover:text-red-800">
+                        Eliminar
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
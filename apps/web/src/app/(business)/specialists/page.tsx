@@ -0,0 +1,223 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { BusinessHours, Service, Specialist } from '@appointments-demo/types';
+import { formatTimeRanges } from '@appointments-demo/utils';
+import { SpecialistForm, type SpecialistFormValues } from '@/components/business/specialist-form';
+import { apiClient, getApiErrorMessage } from '@/lib/api-client';
+
+// Disable static optimization for this page since it requires client-side auth
+export const dynamic = 'force-dynamic';
+
+// Editing state: null = list only, 'new' = create form, Specialist = edit form
+type EditingState = Specialist | 'new' | null;
+
+const DAY_ABBREVIATIONS = ['Dom', 'Lun', 'Mar', 'Mié', 'Jue', 'Vie', 'Sáb'];
+
+// Compact weekly summary, e.g. "Lun 08:00 - 12:00, 14:00 - 18:00 · Mar 14:00 - 18:00"
+function formatSchedule(schedule: BusinessHours[]): string {
+  const workingDays = schedule
+    .filter(day => day.isOpen)
+    .sort((a, b) => a.dayOfWeek - b.dayOfWeek)
+    .map(day => `${DAY_ABBREVIATIONS[day.dayOfWeek]} ${formatTimeRanges(day.intervals)}`);
+
+  return workingDays.length > 0 ? workingDays.join(' · ') : 'Sin horario';
+}
+
+export default function SpecialistsPage() {
+  const [specialists, setSpecialists] = useState<Specialist[]>([]);
+  const [services, setServices] = useState<Service[]>([]);
+  const [businessHours, setBusinessHours] = useState<BusinessHours[]>([]);
+  const [editing, setEditing] = useState<EditingState>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchData = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const [specialistsResult, servicesResult, profileResult] = await Promise.all([
+        apiClient.specialists.list(),
+        apiClient.services.list(),
+        apiClient.business.getProfile()
+      ]);
+
+      if (!specialistsResult.success || !servicesResult.success || !profileResult.success) {
+        throw new Error('Failed to fetch specialists');
+      }
+
+      setSpecialists(specialistsResult.data.specialists);
+      setServices(servicesResult.data.services);
+      setBusinessHours(profileResult.data.business.settings?.businessHours || []);
+    } catch (err) {
+      console.error('Error fetching specialists:', err);
+      setError('Error al cargar los especialistas');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const handleSave = async (values: SpecialistFormValues) => {
+    const result = editing === 'new'
+      ? await apiClient.specialists.create(values)
+      : await apiClient.specialists.update((editing as Specialist).id, values);
+
+    if (!result.success) {
+      // Surface the field-level validation message when there is one
+      throw new Error(getApiErrorMessage(result.error, 'Error al guardar el especialista'));
+    }
+
+    setEditing(null);
+    await fetchData();
+  };
+
+  const handleToggleActive = async (specialist: Specialist) => {
+    try {
+      const result = await apiClient.specialists.update(specialist.id, { isActive: !specialist.isActive });
+      if (!result.success) {
+        throw new Error(result.error.message);
+      }
+
+      const updated = result.data.specialist;
+      setSpecialists(prev => prev.map(s => (s.id === specialist.id ? updated : s)));
+    } catch (err) {
+      console.error('Error updating specialist:', err);
+      setError('Error al actualizar el especialista');
+    }
+  };
+
+  const handleDelete = async (specialist: Specialist) => {
+    if (!window.confirm(`¿Eliminar a "${specialist.name}"? Sus citas quedarán sin especialista asignado.`)) {
+      return;
+    }
+
+    try {
+      const result = await apiClient.specialists.remove(specialist.id);
+      if (!result.success) {
+        throw new Error(result.error.message);
+      }
+
+      setSpecialists(prev => prev.filter(s => s.id !== specialist.id));
+    } catch (err) {
+      console.error('Error deleting specialist:', err);
+      setError('Error al eliminar el especialista');
+    }
+  };
+
+  const serviceNames = (specialist: Specialist): string => {
+    const names = services
+      .filter(service => specialist.serviceIds.includes(service.id))
+      .map(service => service.name);
+    return names.length > 0 ? names.join(', ') : 'Sin servicios';
+  };
+
+  return (
+    <div className="py-6">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Page header */}
+        <div className="md:flex md:items-center md:justify-between mb-8">
+          <div className="flex-1 min-w-0">
+            <h2 className="text-2xl font-bold leading-7 text-gray-900 sm:text-3xl sm:truncate">
+              Especialistas
+            </h2>
+            <p className="mt-1 text-sm text-gray-500">
+              Personal del negocio con su horario y los servicios que realiza
+            </p>
+          </div>
+          {editing === null && (
+            <button
+              onClick={() => setEditing('new')}
+              className="mt-4 md:mt-0 px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+            >
+              Nuevo Especialista
+            </button>
+          )}
+        </div>
+
+        {error && (
+          <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4">
+            <p className="text-red-600">{error}</p>
+            <button
+              onClick={fetchData}
+              className="mt-2 text-sm font-medium text-red-700 underline"
+            >
+              Intentar de nuevo
+            </button>
+          </div>
+        )}
+
+        {editing !== null ? (
+          <SpecialistForm
+            specialist={editing === 'new' ? undefined : editing}
+            businessHours={businessHours}
+            services={services}
+            onSave={handleSave}
+            onCancel={() => setEditing(null)}
+          />
+        ) : isLoading ? (
+          <div className="animate-pulse bg-white shadow rounded-lg p-6">
+            <div className="h-6 bg-gray-200 rounded w-1/3 mb-4"></div>
+            <div className="h-4 bg-gray-200 rounded w-2/3"></div>
+          </div>
+        ) : specialists.length === 0 ? (
+          <div className="bg-white shadow rounded-lg p-6 text-center text-gray-600">
+            Aún no tienes especialistas. Agrega el primero para asignarle citas.
+          </div>
+        ) : (
+          <div className="bg-white shadow rounded-lg overflow-hidden">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Especialista</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Horario</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Servicios</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Estado</th>
+                  <th className="px-6 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {specialists.map(specialist => (
+                  <tr key={specialist.id}>
+                    <td className="px-6 py-4">
+                      <div className="text-sm font-medium text-gray-900">{specialist.name}</div>
+                      {(specialist.phone || specialist.email) && (
+                        <div className="text-sm text-gray-500">
+                          {[specialist.phone, specialist.email].filter(Boolean).join(' · ')}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-700">{formatSchedule(specialist.schedule)}</td>
+                    <td className="px-6 py-4 text-sm text-gray-700">{serviceNames(specialist)}</td>
+                    <td className="px-6 py-4">
+                      <span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${
+                        specialist.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
+                      }`}>
+                        {specialist.isActive ? 'Activo' : 'Inactivo'}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-right text-sm space-x-3 whitespace-nowrap">
+                      <button onClick={() => setEditing(specialist)} className="text-blue-600 hover:text-blue-800">
+                        Editar
+                      </button>
+                      <button onClick={() => handleToggleActive(specialist)} className="text-gray-600 hover:text-gray-800">
+                        {specialist.isActive ? 'Desactivar' : 'Activar'}
+                      </button>
+                      <button onClick={() => handleDelete(specialist)} className="text-red-600 hover:text-red-800">
+                        Eliminar
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestBusinessContext } from '@/lib/server-business-context';
+import { getStatusHistory } from '@/lib/appointment-status-history';
+import { toDomainStatusChange } from '@/lib/database.types';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Get the status history of an appointment of the current business
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const contextResult = await getRequestBusinessContext();
+    if (!contextResult.success) {
+      return NextResponse.json({ error: contextResult.error }, { status: contextResult.status });
+    }
+    const { supabase, businessId } = contextResult.context;
+
+    const result = await getStatusHistory(id, { businessId, client: supabase });
+
+    if (!result.success) {
+      console.error('Error fetching appointment status history:', result.error);
+      return NextResponse.json({ error: 'Failed to fetch status history' }, { status: 500 });
+    }
+
+    return NextResponse.json({ history: (result.data || []).map(toDomainStatusChange) });
+  } catch (error) {
+    console.error('Error fetching appointment status history:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestBusinessContext } from '@/lib/server-business-context';
+import { getAppointmentReminders } from '@/lib/reminder-scheduler';
+import { toDomainReminderJob } from '@/lib/database.types';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Get the queued, sent and skipped reminders of an appointment of the current business
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const contextResult = await getRequestBusinessContext();
+    if (!contextResult.success) {
+      return NextResponse.json({ error: contextResult.error }, { status: contextResult.status });
+    }
+    const { supabase, businessId } = contextResult.context;
+
+    const result = await getAppointmentReminders(id, { businessId, client: supabase });
+
+    if (!result.success) {
+      console.error('Error fetching appointment reminders:', result.error);
+      return NextResponse.json({ error: 'Failed to fetch reminders' }, { status: 500 });
+    }
+
+    return NextResponse.json({ reminders: (result.data || []).map(toDomainReminderJob) });
+  } catch (error) {
+    console.error('Error fetching appointment reminders:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
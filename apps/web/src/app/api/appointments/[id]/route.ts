@@ -0,0 +1,390 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BusinessContextDatabase } from '@/lib/database-operations';
+import { getRequestBusinessContext, getRequestBusinessSettings } from '@/lib/server-business-context';
+import { hasPermission } from '@/lib/business-permissions';
+import { scheduleAppointmentReminders } from '@/lib/reminder-scheduler';
+import { getBookableService, SERVICE_INACTIVE_ERROR, SERVICE_NOT_FOUND_ERROR } from '@/lib/service-catalog';
+import {
+  getBookableSpecialist,
+  getSpecialist,
+  SPECIALIST_INACTIVE_ERROR,
+  SPECIALIST_NOT_FOUND_ERROR
+} from '@/lib/specialists';
+import { matchClient } from '@/lib/clients';
+import {
+  APPOINTMENT_NOT_FOUND_ERROR,
+  APPOINTMENT_STATUS_CHANGED_CODE,
+  APPOINTMENT_STATUS_CHANGED_ERROR,
+  updateAppointment
+} from '@/lib/appointments';
+import { buildPriceSnapshot } from '@/lib/exchange-rates';
+import {
+  appointmentConflictResponse,
+  findAppointmentConflict,
+  isAppointmentOverlapError
+} from '@/lib/appointment-conflicts';
+import {
+  toDomainAppointment,
+  toPriceSnapshotRecord,
+  type AppointmentRecord,
+  type SpecialistWithServicesRecord
+} from '@/lib/database.types';
+import {
+  AppointmentUpdateSchema,
+  extractValidationErrors,
+  type AppointmentUpdateData
+} from '@/components/forms/validation-schemas';
+import { DEFAULT_CURRENCY, validateStatusTransition } from '@appointments-demo/utils';
+import { AppointmentStatus } from '@appointments-demo/types';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Map validated update fields to appointments table columns
+function toAppointmentUpdateRecord(updates: AppointmentUpdateData): Record<string, unknown> {
+  const record: Record<string, unknown> = {};
+
+  if (updates.customerName !== undefined) record.customer_name = updates.customerName;
+  if (updates.customerPhone !== undefined) record.customer_phone = updates.customerPhone;
+  if (updates.customerEmail !== undefined) record.customer_email = updates.customerEmail || null;
+  if (updates.serviceId !== undefined) record.service_id = updates.serviceId;
+  if (updates.specialistId !== undefined) record.specialist_id = updates.specialistId;
+  if (updates.serviceType !== undefined) record.service_type = updates.serviceType;
+  if (updates.scheduledAt !== undefined) record.scheduled_at = updates.scheduledAt.toISOString();
+  if (updates.duration !== undefined) record.duration_minutes = updates.duration;
+  // The status history trigger copies the reason; a change without one must not keep the last
+  if (updates.status !== undefined) {
+    record.status = updates.status;
+    record.status_reason = updates.statusReason || null;
+  }
+  if (updates.notes !== undefined) record.notes = updates.notes || null;
+
+  return record;
+}
+
+/**
+ * Get a single appointment of the current business
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const contextResult = await getRequestBusinessContext();
+    if (!contextResult.success) {
+      return NextResponse.json({ error: contextResult.error }, { status: contextResult.status });
+    }
+    const { supabase, businessId } = contextResult.context;
+
+    const result = await BusinessContextDatabase.select<AppointmentRecord>(
+      'appointments',
+      '*',
+      { id },
+      { businessId, client: supabase }
+    );
+
+    if (!result.success) {
+      console.error('Error fetching appointment:', result.error);
+      return NextResponse.json({ error: 'Failed to fetch appointment' }, { status: 500 });
+    }
+
+    const record = result.data?.[0];
+    if (!record) {
+      return NextResponse.json({ error: 'Appointment not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ appointment: toDomainAppointment(record) });
+  } catch (error) {
+    console.error('Error fetching appointment:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Update an appointment of the current business
+ * Status changes must follow the appointment state machine; the database records them in the status history
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const contextResult = await getRequestBusinessContext();
+    if (!contextResult.success) {
+      return NextResponse.json({ error: contextResult.error }, { status: contextResult.status });
+    }
+    const { supabase, businessId, role } = contextResult.context;
+    if (!hasPermission(role, 'appointments:manage')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const validationResult = AppointmentUpdateSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: extractValidationErrors(validationResult.error) },
+        { status: 400 }
+      );
+    }
+
+    const updates = { ...validationResult.data };
+
+    let priceRecord: ReturnType<typeof toPriceSnapshotRecord> | undefined;
+
+    // Switching to a catalog service also updates the stored service name and price
+    if (updates.serviceId !== undefined) {
+      const serviceResult = await getBookableService(updates.serviceId, { businessId, client: supabase });
+
+      if (!serviceResult.success || !serviceResult.data) {
+        if (serviceResult.error === SERVICE_NOT_FOUND_ERROR || serviceResult.error === SERVICE_INACTIVE_ERROR) {
+          return NextResponse.json(
+            { error: 'Validation failed', details: { serviceId: 'El servicio no está disponible' } },
+            { status: 400 }
+          );
+        }
+        console.error('Error fetching service:', serviceResult.error);
+        return NextResponse.json({ error: 'Failed to update appointment' }, { status: 500 });
+      }
+
+      updates.serviceType = serviceResult.data.name;
+
+      const settingsResult = await getRequestBusinessSettings(contextResult.context);
+      if (!settingsResult.success) {
+        return NextResponse.json({ error: 'Failed to update appointment' }, { status: 500 });
+      }
+      const priceResult = await buildPriceSnapshot(
+        serviceResult.data,
+        settingsResult.settings.currency || DEFAULT_CURRENCY,
+        { businessId, client: supabase }
+      );
+      if (!priceResult.success || !priceResult.data) {
+        console.error('Error snapshotting appointment price:', priceResult.error);
+        return NextResponse.json({ error: 'Failed to update appointment' }, { status: 500 });
+      }
+      priceRecord = toPriceSnapshotRecord(priceResult.data);
+    }
+
+    // A newly assigned specialist must be active
+    let specialist: SpecialistWithServicesRecord | undefined;
+    if (updates.specialistId) {
+      const specialistResult = await getBookableSpecialist(updates.specialistId, { businessId, client: supabase });
+
+      if (!specialistResult.success || !specialistResult.data) {
+        if (specialistResult.error === SPECIALIST_NOT_FOUND_ERROR || specialistResult.error === SPECIALIST_INACTIVE_ERROR) {
+          return NextResponse.json(
+            { error: 'Validation failed', details: { specialistId: 'El especialista no está disponible' } },
+            { status: 400 }
+          );
+        }
+        console.error('Error fetching specialist:', specialistResult.error);
+        return NextResponse.json({ error: 'Failed to update appointment' }, { status: 500 });
+      }
+
+      specialist = specialistResult.data;
+    }
+
+    // Status changes, rescheduling, new services and new phone numbers are checked against the stored appointment
+    const reschedules =
+      updates.scheduledAt !== undefined || updates.duration !== undefined || updates.specialistId !== undefined;
+    let current: AppointmentRecord | undefined;
+    if (updates.status !== undefined || reschedules || updates.serviceId !== undefined || updates.customerPhone !== undefined) {
+      const existing = await BusinessContextDatabase.select<AppointmentRecord>(
+        'appointments',
+        '*',
+        { id },
+        { businessId, client: supabase }
+      );
+
+      if (!existing.success) {
+        console.error('Error fetching appointment:', existing.error);
+        return NextResponse.json({ error: 'Failed to update appointment' }, { status: 500 });
+      }
+
+      current = existing.data?.[0];
+      if (!current) {
+        return NextResponse.json({ error: 'Appointment not found' }, { status: 404 });
+      }
+    }
+
+    // The specialist must perform the catalog service, whichever of the two the update changes
+    const mergedServiceId = updates.serviceId ?? current?.service_id;
+    const mergedSpecialistId = updates.specialistId ?? current?.specialist_id;
+    if (current && mergedServiceId && mergedSpecialistId && (updates.serviceId !== undefined || updates.specialistId !== undefined)) {
+      if (!specialist) {
+        const specialistResult = await getSpecialist(mergedSpecialistId, { businessId, client: supabase });
+        if (!specialistResult.success || !specialistResult.data) {
+          console.error('Error fetching specialist:', specialistResult.error);
+          return NextResponse.json({ error: 'Failed to update appointment' }, { status: 500 });
+        }
+        specialist = specialistResult.data;
+      }
+
+      const performedServiceIds = (specialist.specialist_services || []).map(link => link.service_id);
+      if (!performedServiceIds.includes(mergedServiceId)) {
+        return NextResponse.json(
+          { error: 'Validation failed', details: { specialistId: 'El especialista no realiza este servicio' } },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Validate the status transition against the current status
+    let previousStatus: AppointmentStatus | undefined;
+    if (current && updates.status !== undefined) {
+      const transition = validateStatusTransition(current.status, updates.status as AppointmentStatus);
+      if (!transition.valid) {
+        const { code, message, from, to, allowed } = transition.error;
+        return NextResponse.json(
+          { error: message, code, details: { from, to, allowed } },
+          { status: 409 }
+        );
+      }
+
+      previousStatus = current.status;
+    }
+
+    // A moved appointment must not overlap another one of the same specialist
+    const candidate = current && {
+      id,
+      scheduledAt: updates.scheduledAt ?? new Date(current.scheduled_at),
+      duration: updates.duration ?? current.duration_minutes,
+      specialistId: updates.specialistId ?? current.specialist_id ?? undefined
+    };
+    if (current && candidate && reschedules && (updates.status ?? current.status) !== AppointmentStatus.CANCELLED) {
+      const conflictResult = await findAppointmentConflict(candidate, { businessId, client: supabase });
+
+      if (!conflictResult.success) {
+        console.error('Error checking appointment conflicts:', conflictResult.error);
+        return NextResponse.json({ error: 'Failed to update appointment' }, { status: 500 });
+      }
+      if (conflictResult.data) {
+        return appointmentConflictResponse(conflictResult.data.id);
+      }
+    }
+
+    // A new phone number may belong to a different client
+    let clientId: string | undefined;
+    if (current && updates.customerPhone !== undefined) {
+      const clientResult = await matchClient(
+        {
+          name: updates.customerName ?? current.customer_name,
+          phone: updates.customerPhone,
+          email: updates.customerEmail
+        },
+        { businessId, client: supabase }
+      );
+      if (clientResult.success) {
+        clientId = clientResult.data?.id;
+      } else {
+        console.error('Error matching appointment client:', clientResult.error);
+      }
+    }
+
+    // A status change is only written while the appointment still has the status it was validated against
+    const result = await updateAppointment(
+      id,
+      { ...toAppointmentUpdateRecord(updates), ...priceRecord, ...(clientId && { client_id: clientId }) },
+      { expectedStatus: previousStatus },
+      { businessId, client: supabase }
+    );
+
+    // A concurrent booking took the time after our check; the database constraint rejected the move
+    if (!result.success && candidate && isAppointmentOverlapError(result.error)) {
+      const racedResult = await findAppointmentConflict(candidate, { businessId, client: supabase });
+      return appointmentConflictResponse(racedResult.data?.id ?? null);
+    }
+
+    if (!result.success || !result.data) {
+      if (result.error === APPOINTMENT_NOT_FOUND_ERROR) {
+        return NextResponse.json({ error: 'Appointment not found' }, { status: 404 });
+      }
+      if (result.error === APPOINTMENT_STATUS_CHANGED_ERROR) {
+        return NextResponse.json(
+          { error: 'Appointment status changed, reload it and try again', code: APPOINTMENT_STATUS_CHANGED_CODE },
+          { status: 409 }
+        );
+      }
+      console.error('Error updating appointment:', result.error);
+      return NextResponse.json({ error: 'Failed to update appointment' }, { status: 500 });
+    }
+
+    // A new time or status replans the reminders; cancelling clears the pending ones
+    const appointment = toDomainAppointment(result.data);
+    if (previousStatus !== undefined || updates.scheduledAt !== undefined) {
+      const remindersResult = await scheduleAppointmentReminders(appointment, { businessId, client: supabase });
+      if (!remindersResult.success) {
+        console.error('Error scheduling appointment reminders:', remindersResult.error);
+      }
+    }
+
+    return NextResponse.json({ appointment });
+  } catch (error) {
+    console.error('Error updating appointment:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Delete an appointment of the current business
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const contextResult = await getRequestBusinessContext();
+    if (!contextResult.success) {
+      return NextResponse.json({ error: contextResult.error }, { status: contextResult.status });
+    }
+    const { supabase, businessId, role } = contextResult.context;
+    if (!hasPermission(role, 'appointments:manage')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    // Confirm the appointment exists in this business before deleting
+    const existing = await BusinessContextDatabase.select<AppointmentRecord>(
+      'appointments',
+      'id',
+      { id },
+      { businessId, client: supabase }
+    );
+
+    if (!existing.success) {
+      console.error('Error fetching appointment:', existing.error);
+      return NextResponse.json({ error: 'Failed to delete appointment' }, { status: 500 });
+    }
+
+    if (!existing.data || existing.data.length === 0) {
+      return NextResponse.json({ error: 'Appointment not found' }, { status: 404 });
+    }
+
+    const result = await BusinessContextDatabase.delete(
+      'appointments',
+      id,
+      { businessId, client: supabase }
+    );
+
+    if (!result.success) {
+      console.error('Error deleting appointment:', result.error);
+      return NextResponse.json({ error: 'Failed to delete appointment' }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting appointment:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
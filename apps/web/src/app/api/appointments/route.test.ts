@@ -0,0 +1,745 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Appointments API Tests
+ *
+ * Tests the /api/appointments collection and /api/appointments/[id] handlers
+ * with the business context resolver and BusinessContextDatabase mocked
+ */
+
+import { NextRequest } from 'next/server';
+import { GET, POST } from './route';
+import { PATCH, DELETE } from './[id]/route';
+import { BusinessContextDatabase } from '@/lib/database-operations';
+import { getRequestBusinessContext, getRequestBusinessSettings } from '@/lib/server-business-context';
+import { APPOINTMENT_NOT_FOUND_ERROR, APPOINTMENT_STATUS_CHANGED_ERROR, listAppointments, updateAppointment } from '@/lib/appointments';
+import { scheduleAppointmentReminders } from '@/lib/reminder-scheduler';
+import { matchClient } from '@/lib/clients';
+import { findAppointmentConflict } from '@/lib/appointment-conflicts';
+import type { AppointmentRecord } from '@/lib/database.types';
+import { AppointmentStatus } from '@appointments-demo/types';
+
+jest.mock('@/lib/server-business-context', () => ({
+  getRequestBusinessContext: jest.fn(),
+  getRequestBusinessSettings: jest.fn(),
+}));
+
+jest.mock('@/lib/appointments', () => ({
+  ...jest.requireActual('@/lib/appointments'),
+  listAppointments: jest.fn(),
+  updateAppointment: jest.fn(),
+}));
+
+jest.mock('@/lib/reminder-scheduler', () => ({
+  scheduleAppointmentReminders: jest.fn(),
+}));
+
+jest.mock('@/lib/clients', () => ({
+  matchClient: jest.fn(),
+}));
+
+jest.mock('@/lib/appointment-conflicts', () => ({
+  ...jest.requireActual('@/lib/appointment-conflicts'),
+  findAppointmentConflict: jest.fn(),
+}));
+
+jest.mock('@/lib/database-operations', () => ({
+  BusinessContextDatabase: {
+    select: jest.fn(),
+    insert: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+  },
+}));
+
+const BUSINESS_ID = '12345678-1234-5678-9abc-123456789012';
+const mockClient = { from: jest.fn() };
+
+const mockRecord: AppointmentRecord = {
+  id: 'appt-1',
+  business_id: BUSINESS_ID,
+  customer_name: 'Laura Gómez',
+  customer_phone: '+57 301 234 5678',
+  customer_email: null,
+  service_id: null,
+  specialist_id: null,
+  client_id: null,
+  service_type: 'Corte',
+  scheduled_at: '2025-03-10T14:00:00.000Z',
+  duration_minutes: 45,
+  status: AppointmentStatus.PENDING,
+  notes: null,
+  price_amount: null,
+  price_currency: null,
+  base_currency: null,
+  exchange_rate: null,
+  status_reason: null,
+  created_at: '2025-03-01T10:00:00.000Z',
+  updated_at: '2025-03-01T10:00:00.000Z',
+};
+
+const jsonRequest = (url: string, method: string, body?: unknown) =>
+  new NextRequest(url, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+const routeParams = (id: string) => ({ params: Promise.resolve({ id }) });
+
+describe('Appointments API', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getRequestBusinessContext as jest.Mock).mockResolvedValue({
+      success: true,
+      context: { supabase: mockClient, userId: 'user-123', businessId: BUSINESS_ID, role: 'owner' },
+    });
+    (getRequestBusinessSettings as jest.Mock).mockResolvedValue({
+      success: true,
+      settings: { timezone: 'America/Bogota', currency: 'COP', businessHours: [] },
+    });
+    (scheduleAppointmentReminders as jest.Mock).mockResolvedValue({ success: true, data: [] });
+    (matchClient as jest.Mock).mockResolvedValue({ success: true, data: { id: 'client-1' } });
+    (findAppointmentConflict as jest.Mock).mockResolvedValue({ success: true, data: null });
+  });
+
+  describe('GET /api/appointments', () => {
+    it('returns 401 when there is no authenticated user', async () => {
+      (getRequestBusinessContext as jest.Mock).mockResolvedValue({
+        success: false,
+        status: 401,
+        error: 'Unauthorized',
+      });
+
+      const response = await GET(jsonRequest('http://localhost/api/appointments', 'GET'));
+
+      expect(response.status).toBe(401);
+      expect(listAppointments).not.toHaveBeenCalled();
+    });
+
+    it('lists appointments scoped to the business in the order of the query', async () => {
+      const later = { ...mockRecord, id: 'appt-2', scheduled_at: '2025-03-11T14:00:00.000Z' };
+      (listAppointments as jest.Mock).mockResolvedValue({
+        success: true,
+        data: [mockRecord, later],
+      });
+
+      const response = await GET(jsonRequest('http://localhost/api/appointments', 'GET'));
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(listAppointments).toHaveBeenCalledWith({}, { businessId: BUSINESS_ID, client: mockClient });
+      expect(body.appointments.map((a: { id: string }) => a.id)).toEqual(['appt-1', 'appt-2']);
+      expect(body.appointments[0].customerPhone).toBe('+57 301 234 5678');
+      expect(body.appointments[0].duration).toBe(45);
+    });
+
+    it('passes the status and date range to the query', async () => {
+      (listAppointments as jest.Mock).mockResolvedValue({ success: true, data: [mockRecord] });
+
+      const response = await GET(jsonRequest(
+        'http://localhost/api/appointments?status=pending&from=2025-03-01&to=2025-03-31',
+        'GET'
+      ));
+      const body = await response.json();
+
+      expect(listAppointments).toHaveBeenCalledWith(
+        {
+          status: 'pending',
+          from: new Date('2025-03-01T00:00:00.000Z'),
+          to: new Date('2025-03-31T00:00:00.000Z'),
+        },
+        expect.any(Object)
+      );
+      expect(body.appointments).toHaveLength(1);
+    });
+
+    it('rejects invalid dates', async () => {
+      const response = await GET(jsonRequest('http://localhost/api/appointments?from=mañana', 'GET'));
+
+      expect(response.status).toBe(400);
+      expect(listAppointments).not.toHaveBeenCalled();
+    });
+
+    it('rejects unknown status filters', async () => {
+      const response = await GET(jsonRequest('http://localhost/api/appointments?status=archived', 'GET'));
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('POST /api/appointments', () => {
+    const validAppointment = {
+      customerName: 'Laura Gómez',
+      customerPhone: '+57 301 234 5678',
+      serviceType: 'Corte',
+      scheduledAt: '2025-03-10T14:00:00.000Z',
+      duration: 45,
+    };
+
+    it('creates a pending appointment for the current business', async () => {
+      (BusinessContextDatabase.insert as jest.Mock).mockResolvedValue({
+        success: true,
+        data: mockRecord,
+      });
+
+      const response = await POST(jsonRequest('http://localhost/api/appointments', 'POST', validAppointment));
+      const body = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(BusinessContextDatabase.insert).toHaveBeenCalledWith(
+        'appointments',
+        expect.objectContaining({
+          customer_name: 'Laura Gómez',
+          customer_phone: '+57 301 234 5678',
+          scheduled_at: '2025-03-10T14:00:00.000Z',
+          duration_minutes: 45,
+          status: 'pending',
+          client_id: 'client-1',
+        }),
+        { businessId: BUSINESS_ID, client: mockClient }
+      );
+      expect(body.appointment.id).toBe('appt-1');
+      expect(BusinessContextDatabase.insert).toHaveBeenCalledTimes(1);
+      expect(scheduleAppointmentReminders).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'appt-1', scheduledAt: new Date('2025-03-10T14:00:00.000Z'), status: 'pending' }),
+        { businessId: BUSINESS_ID, client: mockClient }
+      );
+    });
+
+    it('still books the appointment when its reminders cannot be queued', async () => {
+      (BusinessContextDatabase.insert as jest.Mock).mockResolvedValue({ success: true, data: mockRecord });
+      (scheduleAppointmentReminders as jest.Mock).mockResolvedValue({
+        success: false,
+        error: 'Database insert error: timeout',
+      });
+
+      const response = await POST(jsonRequest('http://localhost/api/appointments', 'POST', validAppointment));
+
+      expect(response.status).toBe(201);
+    });
+
+    it('lets receptionists book appointments', async () => {
+      (getRequestBusinessContext as jest.Mock).mockResolvedValue({
+        success: true,
+        context: { supabase: mockClient, userId: 'user-456', businessId: BUSINESS_ID, role: 'receptionist' },
+      });
+      (BusinessContextDatabase.insert as jest.Mock).mockResolvedValue({ success: true, data: mockRecord });
+
+      const response = await POST(jsonRequest('http://localhost/api/appointments', 'POST', validAppointment));
+
+      expect(response.status).toBe(201);
+    });
+
+    it('returns 403 when a specialist tries to book', async () => {
+      (getRequestBusinessContext as jest.Mock).mockResolvedValue({
+        success: true,
+        context: { supabase: mockClient, userId: 'user-789', businessId: BUSINESS_ID, role: 'specialist' },
+      });
+
+      const response = await POST(jsonRequest('http://localhost/api/appointments', 'POST', validAppointment));
+
+      expect(response.status).toBe(403);
+      expect(BusinessContextDatabase.insert).not.toHaveBeenCalled();
+    });
+
+    it('matches the appointment to a client by phone', async () => {
+      (BusinessContextDatabase.insert as jest.Mock).mockResolvedValue({ success: true, data: mockRecord });
+
+      await POST(jsonRequest('http://localhost/api/appointments', 'POST', validAppointment));
+
+      expect(matchClient).toHaveBeenCalledWith(
+        { name: 'Laura Gómez', phone: '+57 301 234 5678', email: undefined },
+        { businessId: BUSINESS_ID, client: mockClient }
+      );
+    });
+
+    it('still books the appointment when client matching fails', async () => {
+      (matchClient as jest.Mock).mockResolvedValue({ success: false, error: 'Database select error: timeout' });
+      (BusinessContextDatabase.insert as jest.Mock).mockResolvedValue({ success: true, data: mockRecord });
+
+      const response = await POST(jsonRequest('http://localhost/api/appointments', 'POST', validAppointment));
+
+      expect(response.status).toBe(201);
+      expect(BusinessContextDatabase.insert).toHaveBeenCalledWith(
+        'appointments',
+        expect.objectContaining({ client_id: null }),
+        expect.any(Object)
+      );
+    });
+
+    it('returns 409 with the conflicting appointment when the time is taken', async () => {
+      (findAppointmentConflict as jest.Mock).mockResolvedValue({ success: true, data: { ...mockRecord, id: 'appt-9' } });
+
+      const response = await POST(jsonRequest('http://localhost/api/appointments', 'POST', validAppointment));
+      const body = await response.json();
+
+      expect(response.status).toBe(409);
+      expect(body.code).toBe('APPOINTMENT_CONFLICT');
+      expect(body.details.conflictingAppointmentId).toBe('appt-9');
+      expect(findAppointmentConflict).toHaveBeenCalledWith(
+        { scheduledAt: new Date('2025-03-10T14:00:00.000Z'), duration: 45, specialistId: undefined },
+        { businessId: BUSINESS_ID, client: mockClient }
+      );
+      expect(BusinessContextDatabase.insert).not.toHaveBeenCalled();
+    });
+
+    it('answers 409 to the loser of two concurrent bookings for the same specialist', async () => {
+      const specialistId = '22222222-2222-4222-8222-222222222222';
+      const stored: AppointmentRecord[] = [];
+      const overlapsStored = (scheduledAt: string) =>
+        stored.find(record => record.specialist_id === specialistId && record.scheduled_at === scheduledAt) ?? null;
+
+      (BusinessContextDatabase.select as jest.Mock).mockResolvedValue({
+        success: true,
+        data: [{ id: specialistId, name: 'Andrea', is_active: true, specialist_services: [] }],
+      });
+      (findAppointmentConflict as jest.Mock).mockImplementation(async (candidate: { scheduledAt: Date }) => ({
+        success: true,
+        data: overlapsStored(candidate.scheduledAt.toISOString()),
+      }));
+
+      // Both requests pass the conflict pre-check before either insert lands, as in a real race;
+      // the exclusion constraint then rejects whichever insert commits second
+      let pendingInserts = 0;
+      let releaseInserts!: () => void;
+      const bothChecked = new Promise<void>(resolve => { releaseInserts = resolve; });
+      (BusinessContextDatabase.insert as jest.Mock).mockImplementation(async (_table: string, data: Partial<AppointmentRecord>) => {
+        pendingInserts += 1;
+        if (pendingInserts === 2) releaseInserts();
+        await bothChecked;
+
+        if (overlapsStored(data.scheduled_at!)) {
+          return {
+            success: false,
+            error: 'Database insert error: conflicting key value violates exclusion constraint "appointments_no_specialist_overlap"',
+          };
+        }
+        const record = { ...mockRecord, ...data, id: `appt-${stored.length + 10}` } as AppointmentRecord;
+        stored.push(record);
+        return { success: true, data: record };
+      });
+
+      const booking = { ...validAppointment, specialistId };
+      const responses = await Promise.all([
+        POST(jsonRequest('http://localhost/api/appointments', 'POST', booking)),
+        POST(jsonRequest('http://localhost/api/appointments', 'POST', { ...booking, customerName: 'Camilo Restrepo' })),
+      ]);
+
+      expect(responses.map(response => response.status).sort()).toEqual([201, 409]);
+      const loser = responses.find(response => response.status === 409)!;
+      const body = await loser.json();
+      expect(body.code).toBe('APPOINTMENT_CONFLICT');
+      expect(body.details.conflictingAppointmentId).toBe('appt-10');
+      expect(stored).toHaveLength(1);
+    });
+
+    it('returns 409 without an id when the overlapping appointment cannot be found again', async () => {
+      (findAppointmentConflict as jest.Mock).mockResolvedValue({ success: true, data: null });
+      (BusinessContextDatabase.insert as jest.Mock).mockResolvedValue({
+        success: false,
+        error: 'Database insert error: conflicting key value violates exclusion constraint "appointments_no_specialist_overlap"',
+      });
+
+      const response = await POST(jsonRequest('http://localhost/api/appointments', 'POST', validAppointment));
+      const body = await response.json();
+
+      expect(response.status).toBe(409);
+      expect(body.details.conflictingAppointmentId).toBeNull();
+      expect(findAppointmentConflict).toHaveBeenCalledTimes(2);
+    });
+
+    it('fills service name and duration from the services catalog', async () => {
+      const serviceId = '0b7a6c1e-8f7d-4c1a-9d35-2f6f3b1a7e10';
+      (BusinessContextDatabase.select as jest.Mock).mockResolvedValue({
+        success: true,
+        data: [{ id: serviceId, name: 'Tinte', duration_minutes: 90, buffer_minutes: 0, is_active: true }],
+      });
+      (BusinessContextDatabase.insert as jest.Mock).mockResolvedValue({ success: true, data: mockRecord });
+
+      const response = await POST(jsonRequest('http://localhost/api/appointments', 'POST', {
+        customerName: validAppointment.customerName,
+        customerPhone: validAppointment.customerPhone,
+        scheduledAt: validAppointment.scheduledAt,
+        serviceId,
+      }));
+
+      expect(response.status).toBe(201);
+      expect(BusinessContextDatabase.insert).toHaveBeenCalledWith(
+        'appointments',
+        expect.objectContaining({ service_id: serviceId, service_type: 'Tinte', duration_minutes: 90 }),
+        expect.any(Object)
+      );
+    });
+
+    it('snapshots the service price with the exchange rate to the business currency', async () => {
+      const serviceId = '0b7a6c1e-8f7d-4c1a-9d35-2f6f3b1a7e10';
+      (BusinessContextDatabase.select as jest.Mock).mockImplementation((table: string) =>
+        Promise.resolve({
+          success: true,
+          data: table === 'services'
+            ? [{ id: serviceId, name: 'Masaje', duration_minutes: 60, buffer_minutes: 0, is_active: true, price: 40, currency: 'USD' }]
+            : [{ from_currency: 'COP', to_currency: 'USD', rate: 0.00025 }],
+        })
+      );
+      (BusinessContextDatabase.insert as jest.Mock).mockResolvedValue({ success: true, data: mockRecord });
+
+      const response = await POST(jsonRequest('http://localhost/api/appointments', 'POST', {
+        customerName: validAppointment.customerName,
+        customerPhone: validAppointment.customerPhone,
+        scheduledAt: validAppointment.scheduledAt,
+        serviceId,
+      }));
+
+      expect(response.status).toBe(201);
+      expect(BusinessContextDatabase.insert).toHaveBeenCalledWith(
+        'appointments',
+        expect.objectContaining({
+          price_amount: 40,
+          price_currency: 'USD',
+          base_currency: 'COP',
+          exchange_rate: 4000,
+        }),
+        expect.any(Object)
+      );
+    });
+
+    it('rejects inactive catalog services', async () => {
+      (BusinessContextDatabase.select as jest.Mock).mockResolvedValue({
+        success: true,
+        data: [{ id: 'svc', name: 'Tinte', duration_minutes: 90, buffer_minutes: 0, is_active: false }],
+      });
+
+      const response = await POST(jsonRequest('http://localhost/api/appointments', 'POST', {
+        ...validAppointment,
+        serviceId: '0b7a6c1e-8f7d-4c1a-9d35-2f6f3b1a7e10',
+      }));
+      const body = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(body.details.serviceId).toBeDefined();
+      expect(BusinessContextDatabase.insert).not.toHaveBeenCalled();
+    });
+
+    it('rejects specialists who do not perform the booked service', async () => {
+      const serviceId = '0b7a6c1e-8f7d-4c1a-9d35-2f6f3b1a7e10';
+      (BusinessContextDatabase.select as jest.Mock).mockImplementation(async (table: string) => ({
+        success: true,
+        data: table === 'services'
+          ? [{ id: serviceId, name: 'Tinte', duration_minutes: 90, buffer_minutes: 0, is_active: true }]
+          : [{ id: 'specialist-1', name: 'Andrea', is_active: true, specialist_services: [] }],
+      }));
+
+      const response = await POST(jsonRequest('http://localhost/api/appointments', 'POST', {
+        ...validAppointment,
+        serviceId,
+        specialistId: '22222222-2222-4222-8222-222222222222',
+      }));
+      const body = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(body.details.specialistId).toBe('El especialista no realiza este servicio');
+      expect(BusinessContextDatabase.insert).not.toHaveBeenCalled();
+    });
+
+    it('requires a service when no catalog service is given', async () => {
+      const response = await POST(jsonRequest('http://localhost/api/appointments', 'POST', {
+        ...validAppointment,
+        serviceType: undefined,
+      }));
+      const body = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(body.details.serviceType).toBeDefined();
+    });
+
+    it('rejects creating appointments in a final status', async () => {
+      const response = await POST(jsonRequest('http://localhost/api/appointments', 'POST', {
+        ...validAppointment,
+        status: 'completed',
+      }));
+      const body = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(body.details.status).toBeDefined();
+      expect(BusinessContextDatabase.insert).not.toHaveBeenCalled();
+    });
+
+    it('rejects invalid Colombian phone numbers', async () => {
+      const response = await POST(jsonRequest('http://localhost/api/appointments', 'POST', {
+        ...validAppointment,
+        customerPhone: '3012345678',
+      }));
+      const body = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(body.details.customerPhone).toBeDefined();
+      expect(BusinessContextDatabase.insert).not.toHaveBeenCalled();
+    });
+
+    it('rejects malformed JSON', async () => {
+      const request = new NextRequest('http://localhost/api/appointments', {
+        method: 'POST',
+        body: '{not json',
+      });
+
+      const response = await POST(request);
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('PATCH /api/appointments/[id]', () => {
+    it('maps updated fields to table columns', async () => {
+      (BusinessContextDatabase.select as jest.Mock).mockResolvedValue({ success: true, data: [mockRecord] });
+      (updateAppointment as jest.Mock).mockResolvedValue({
+        success: true,
+        data: { ...mockRecord, duration_minutes: 60, notes: 'Llegará tarde' },
+      });
+
+      const response = await PATCH(
+        jsonRequest('http://localhost/api/appointments/appt-1', 'PATCH', { duration: 60, notes: 'Llegará tarde' }),
+        routeParams('appt-1')
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(updateAppointment).toHaveBeenCalledWith(
+        'appt-1',
+        { duration_minutes: 60, notes: 'Llegará tarde' },
+        { expectedStatus: undefined },
+        { businessId: BUSINESS_ID, client: mockClient }
+      );
+      expect(body.appointment.duration).toBe(60);
+      expect(scheduleAppointmentReminders).not.toHaveBeenCalled();
+    });
+
+    it('returns 404 when the appointment belongs to another business', async () => {
+      (updateAppointment as jest.Mock).mockResolvedValue({
+        success: false,
+        error: APPOINTMENT_NOT_FOUND_ERROR,
+      });
+
+      const response = await PATCH(
+        jsonRequest('http://localhost/api/appointments/other', 'PATCH', { notes: 'Llegará tarde' }),
+        routeParams('other')
+      );
+
+      expect(response.status).toBe(404);
+    });
+
+    it('checks conflicts for rescheduled appointments using the stored values', async () => {
+      (BusinessContextDatabase.select as jest.Mock).mockResolvedValue({
+        success: true,
+        data: [{ ...mockRecord, specialist_id: 'specialist-1' }],
+      });
+      (findAppointmentConflict as jest.Mock).mockResolvedValue({ success: true, data: { ...mockRecord, id: 'appt-2' } });
+
+      const response = await PATCH(
+        jsonRequest('http://localhost/api/appointments/appt-1', 'PATCH', { scheduledAt: '2025-03-11T15:00:00.000Z' }),
+        routeParams('appt-1')
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(409);
+      expect(body.details.conflictingAppointmentId).toBe('appt-2');
+      expect(findAppointmentConflict).toHaveBeenCalledWith(
+        {
+          id: 'appt-1',
+          scheduledAt: new Date('2025-03-11T15:00:00.000Z'),
+          duration: 45,
+          specialistId: 'specialist-1',
+        },
+        { businessId: BUSINESS_ID, client: mockClient }
+      );
+      expect(updateAppointment).not.toHaveBeenCalled();
+    });
+
+    it('rejects a new specialist who does not perform the stored service', async () => {
+      const serviceId = '0b7a6c1e-8f7d-4c1a-9d35-2f6f3b1a7e10';
+      (BusinessContextDatabase.select as jest.Mock).mockImplementation(async (table: string) => ({
+        success: true,
+        data: table === 'appointments'
+          ? [{ ...mockRecord, service_id: serviceId }]
+          : [{ id: 'specialist-2', name: 'Andrea', is_active: true, specialist_services: [] }],
+      }));
+
+      const response = await PATCH(
+        jsonRequest('http://localhost/api/appointments/appt-1', 'PATCH', {
+          specialistId: '22222222-2222-4222-8222-222222222222',
+        }),
+        routeParams('appt-1')
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(body.details.specialistId).toBe('El especialista no realiza este servicio');
+      expect(updateAppointment).not.toHaveBeenCalled();
+    });
+
+    it('rejects a new service the stored specialist does not perform', async () => {
+      const serviceId = '0b7a6c1e-8f7d-4c1a-9d35-2f6f3b1a7e10';
+      (BusinessContextDatabase.select as jest.Mock).mockImplementation(async (table: string) => ({
+        success: true,
+        data: {
+          appointments: [{ ...mockRecord, specialist_id: 'specialist-1' }],
+          services: [{ id: serviceId, name: 'Tinte', duration_minutes: 90, buffer_minutes: 0, price: 80000, currency: 'COP', is_active: true }],
+          specialists: [{ id: 'specialist-1', name: 'Valentina', is_active: false, specialist_services: [{ service_id: 'other-service' }] }],
+        }[table],
+      }));
+
+      const response = await PATCH(
+        jsonRequest('http://localhost/api/appointments/appt-1', 'PATCH', { serviceId }),
+        routeParams('appt-1')
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(body.details.specialistId).toBe('El especialista no realiza este servicio');
+      expect(updateAppointment).not.toHaveBeenCalled();
+    });
+
+    it('translates an overlap caught by the database on reschedule into a 409', async () => {
+      (BusinessContextDatabase.select as jest.Mock).mockResolvedValue({
+        success: true,
+        data: [{ ...mockRecord, specialist_id: 'specialist-1' }],
+      });
+      (findAppointmentConflict as jest.Mock)
+        .mockResolvedValueOnce({ success: true, data: null })
+        .mockResolvedValueOnce({ success: true, data: { ...mockRecord, id: 'appt-3' } });
+      (updateAppointment as jest.Mock).mockResolvedValue({
+        success: false,
+        error: 'Database update error: conflicting key value violates exclusion constraint "appointments_no_specialist_overlap"',
+      });
+
+      const response = await PATCH(
+        jsonRequest('http://localhost/api/appointments/appt-1', 'PATCH', { scheduledAt: '2025-03-11T15:00:00.000Z' }),
+        routeParams('appt-1')
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(409);
+      expect(body.code).toBe('APPOINTMENT_CONFLICT');
+      expect(body.details.conflictingAppointmentId).toBe('appt-3');
+    });
+
+    it('rejects illegal status transitions with a structured error', async () => {
+      (BusinessContextDatabase.select as jest.Mock).mockResolvedValue({
+        success: true,
+        data: [{ id: 'appt-1', status: AppointmentStatus.COMPLETED }],
+      });
+
+      const response = await PATCH(
+        jsonRequest('http://localhost/api/appointments/appt-1', 'PATCH', { status: 'pending' }),
+        routeParams('appt-1')
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(409);
+      expect(body.code).toBe('INVALID_STATUS_TRANSITION');
+      expect(body.details).toEqual({ from: 'completed', to: 'pending', allowed: [] });
+      expect(updateAppointment).not.toHaveBeenCalled();
+    });
+
+    it('writes legal status transitions with their reason for the history trigger', async () => {
+      (BusinessContextDatabase.select as jest.Mock).mockResolvedValue({
+        success: true,
+        data: [{ id: 'appt-1', status: AppointmentStatus.CONFIRMED }],
+      });
+      (updateAppointment as jest.Mock).mockResolvedValue({
+        success: true,
+        data: { ...mockRecord, status: AppointmentStatus.CANCELLED },
+      });
+
+      const response = await PATCH(
+        jsonRequest('http://localhost/api/appointments/appt-1', 'PATCH', {
+          status: 'cancelled',
+          statusReason: 'El cliente viajó',
+        }),
+        routeParams('appt-1')
+      );
+
+      expect(response.status).toBe(200);
+      // Only written while the appointment is still confirmed
+      expect(updateAppointment).toHaveBeenCalledWith(
+        'appt-1',
+        { status: 'cancelled', status_reason: 'El cliente viajó' },
+        { expectedStatus: 'confirmed' },
+        expect.any(Object)
+      );
+      expect(scheduleAppointmentReminders).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'appt-1', status: 'cancelled' }),
+        { businessId: BUSINESS_ID, client: mockClient }
+      );
+    });
+
+    it('answers 409 when a concurrent request changed the status after the transition check', async () => {
+      (BusinessContextDatabase.select as jest.Mock).mockResolvedValue({
+        success: true,
+        data: [{ id: 'appt-1', status: AppointmentStatus.CONFIRMED }],
+      });
+      (updateAppointment as jest.Mock).mockResolvedValue({ success: false, error: APPOINTMENT_STATUS_CHANGED_ERROR });
+
+      const response = await PATCH(
+        jsonRequest('http://localhost/api/appointments/appt-1', 'PATCH', { status: 'cancelled' }),
+        routeParams('appt-1')
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(409);
+      expect(body.code).toBe('APPOINTMENT_STATUS_CHANGED');
+      expect(scheduleAppointmentReminders).not.toHaveBeenCalled();
+    });
+
+    it('rejects a status reason without a status change', async () => {
+      const response = await PATCH(
+        jsonRequest('http://localhost/api/appointments/appt-1', 'PATCH', { statusReason: 'Sin motivo' }),
+        routeParams('appt-1')
+      );
+
+      expect(response.status).toBe(400);
+    });
+
+    it('rejects empty updates', async () => {
+      const response = await PATCH(
+        jsonRequest('http://localhost/api/appointments/appt-1', 'PATCH', {}),
+        routeParams('appt-1')
+      );
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('DELETE /api/appointments/[id]', () => {
+    it('deletes an existing appointment', async () => {
+      (BusinessContextDatabase.select as jest.Mock).mockResolvedValue({ success: true, data: [{ id: 'appt-1' }] });
+      (BusinessContextDatabase.delete as jest.Mock).mockResolvedValue({ success: true, data: true });
+
+      const response = await DELETE(
+        jsonRequest('http://localhost/api/appointments/appt-1', 'DELETE'),
+        routeParams('appt-1')
+      );
+
+      expect(response.status).toBe(200);
+      expect(BusinessContextDatabase.delete).toHaveBeenCalledWith(
+        'appointments',
+        'appt-1',
+        { businessId: BUSINESS_ID, client: mockClient }
+      );
+    });
+
+    it('returns 404 for unknown appointments', async () => {
+      (BusinessContextDatabase.select as jest.Mock).mockResolvedValue({ success: true, data: [] });
+
+      const response = await DELETE(
+        jsonRequest('http://localhost/api/appointments/missing', 'DELETE'),
+        routeParams('missing')
+      );
+
+      expect(response.status).toBe(404);
+      expect(BusinessContextDatabase.delete).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,233 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BusinessContextDatabase } from '@/lib/database-operations';
+import { getRequestBusinessContext, getRequestBusinessSettings } from '@/lib/server-business-context';
+import { hasPermission } from '@/lib/business-permissions';
+import { listAppointments, type AppointmentListFilters } from '@/lib/appointments';
+import { scheduleAppointmentReminders } from '@/lib/reminder-scheduler';
+import { getBookableService, SERVICE_INACTIVE_ERROR, SERVICE_NOT_FOUND_ERROR } from '@/lib/service-catalog';
+import { getBookableSpecialist, SPECIALIST_INACTIVE_ERROR, SPECIALIST_NOT_FOUND_ERROR } from '@/lib/specialists';
+import { matchClient } from '@/lib/clients';
+import { buildPriceSnapshot } from '@/lib/exchange-rates';
+import {
+  appointmentConflictResponse,
+  findAppointmentConflict,
+  isAppointmentOverlapError
+} from '@/lib/appointment-conflicts';
+import { toAppointmentRecord, toDomainAppointment, type AppointmentRecord } from '@/lib/database.types';
+import {
+  AppointmentCreateSchema,
+  AppointmentStatusSchema,
+  extractValidationErrors
+} from '@/components/forms/validation-schemas';
+import type { AppointmentStatus, PriceSnapshot } from '@appointments-demo/types';
+import { DEFAULT_CURRENCY } from '@appointments-demo/utils';
+
+/**
+ * List appointments for the current business
+ * Optional query params: status, from (ISO date), to (ISO date)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const contextResult = await getRequestBusinessContext();
+    if (!contextResult.success) {
+      return NextResponse.json({ error: contextResult.error }, { status: contextResult.status });
+    }
+    const { supabase, businessId } = contextResult.context;
+
+    const { searchParams } = request.nextUrl;
+    const filters: AppointmentListFilters = {};
+
+    const status = searchParams.get('status');
+    if (status) {
+      const statusResult = AppointmentStatusSchema.safeParse(status);
+      if (!statusResult.success) {
+        return NextResponse.json({ error: 'Invalid appointment status' }, { status: 400 });
+      }
+      filters.status = statusResult.data as AppointmentStatus;
+    }
+
+    const from = searchParams.get('from') ? new Date(searchParams.get('from')!) : null;
+    const to = searchParams.get('to') ? new Date(searchParams.get('to')!) : null;
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      return NextResponse.json({ error: 'Invalid date range' }, { status: 400 });
+    }
+    if (from) filters.from = from;
+    if (to) filters.to = to;
+
+    const result = await listAppointments(filters, { businessId, client: supabase });
+
+    if (!result.success) {
+      console.error('Error fetching appointments:', result.error);
+      return NextResponse.json({ error: 'Failed to fetch appointments' }, { status: 500 });
+    }
+
+    const appointments = (result.data || []).map(toDomainAppointment);
+
+    return NextResponse.json({ appointments });
+  } catch (error) {
+    console.error('Error listing appointments:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Book a new appointment for the current business
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const contextResult = await getRequestBusinessContext();
+    if (!contextResult.success) {
+      return NextResponse.json({ error: contextResult.error }, { status: contextResult.status });
+    }
+    const { supabase, businessId, role } = contextResult.context;
+    if (!hasPermission(role, 'appointments:manage')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const validationResult = AppointmentCreateSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: extractValidationErrors(validationResult.error) },
+        { status: 400 }
+      );
+    }
+
+    const appointmentData = validationResult.data;
+    let serviceType = appointmentData.serviceType;
+    let duration = appointmentData.duration;
+    let price: PriceSnapshot | undefined;
+
+    // Catalog services supply the service name, default duration and price
+    if (appointmentData.serviceId) {
+      const serviceResult = await getBookableService(appointmentData.serviceId, { businessId, client: supabase });
+
+      if (!serviceResult.success || !serviceResult.data) {
+        if (serviceResult.error === SERVICE_NOT_FOUND_ERROR || serviceResult.error === SERVICE_INACTIVE_ERROR) {
+          return NextResponse.json(
+            { error: 'Validation failed', details: { serviceId: 'El servicio no está disponible' } },
+            { status: 400 }
+          );
+        }
+        console.error('Error fetching service:', serviceResult.error);
+        return NextResponse.json({ error: 'Failed to create appointment' }, { status: 500 });
+      }
+
+      serviceType = serviceResult.data.name;
+      duration = duration ?? serviceResult.data.duration_minutes;
+
+      const settingsResult = await getRequestBusinessSettings(contextResult.context);
+      if (!settingsResult.success) {
+        return NextResponse.json({ error: 'Failed to create appointment' }, { status: 500 });
+      }
+      const priceResult = await buildPriceSnapshot(
+        serviceResult.data,
+        settingsResult.settings.currency || DEFAULT_CURRENCY,
+        { businessId, client: supabase }
+      );
+      if (!priceResult.success || !priceResult.data) {
+        console.error('Error snapshotting appointment price:', priceResult.error);
+        return NextResponse.json({ error: 'Failed to create appointment' }, { status: 500 });
+      }
+      price = priceResult.data;
+    }
+
+    // A specialist must be active and, when a catalog service is booked, able to perform it
+    if (appointmentData.specialistId) {
+      const specialistResult = await getBookableSpecialist(appointmentData.specialistId, { businessId, client: supabase });
+
+      if (!specialistResult.success || !specialistResult.data) {
+        if (specialistResult.error === SPECIALIST_NOT_FOUND_ERROR || specialistResult.error === SPECIALIST_INACTIVE_ERROR) {
+          return NextResponse.json(
+            { error: 'Validation failed', details: { specialistId: 'El especialista no está disponible' } },
+            { status: 400 }
+          );
+        }
+        console.error('Error fetching specialist:', specialistResult.error);
+        return NextResponse.json({ error: 'Failed to create appointment' }, { status: 500 });
+      }
+
+      const performedServiceIds = (specialistResult.data.specialist_services || []).map(link => link.service_id);
+      if (appointmentData.serviceId && !performedServiceIds.includes(appointmentData.serviceId)) {
+        return NextResponse.json(
+          { error: 'Validation failed', details: { specialistId: 'El especialista no realiza este servicio' } },
+          { status: 400 }
+        );
+      }
+    }
+
+    // The specialist (or the business, when unassigned) must be free for the whole appointment
+    const candidate = { scheduledAt: appointmentData.scheduledAt, duration: duration!, specialistId: appointmentData.specialistId };
+    const conflictResult = await findAppointmentConflict(candidate, { businessId, client: supabase });
+    if (!conflictResult.success) {
+      console.error('Error checking appointment conflicts:', conflictResult.error);
+      return NextResponse.json({ error: 'Failed to create appointment' }, { status: 500 });
+    }
+    if (conflictResult.data) {
+      return appointmentConflictResponse(conflictResult.data.id);
+    }
+
+    // Link the booking to the client directory; an unmatched appointment is still valid
+    const clientResult = await matchClient(
+      {
+        name: appointmentData.customerName,
+        phone: appointmentData.customerPhone,
+        email: appointmentData.customerEmail
+      },
+      { businessId, client: supabase }
+    );
+    if (!clientResult.success) {
+      console.error('Error matching appointment client:', clientResult.error);
+    }
+
+    const result = await BusinessContextDatabase.insert<AppointmentRecord>(
+      'appointments',
+      {
+        ...toAppointmentRecord({
+          ...appointmentData,
+          clientId: clientResult.data?.id,
+          serviceType: serviceType!,
+          duration: duration!,
+          status: appointmentData.status as AppointmentStatus,
+          price
+        })
+      },
+      { businessId, client: supabase }
+    );
+
+    // A concurrent booking won the race; the database constraint rejected this one
+    if (!result.success && isAppointmentOverlapError(result.error)) {
+      const racedResult = await findAppointmentConflict(candidate, { businessId, client: supabase });
+      return appointmentConflictResponse(racedResult.data?.id ?? null);
+    }
+
+    if (!result.success || !result.data) {
+      console.error('Error creating appointment:', result.error);
+      return NextResponse.json({ error: 'Failed to create appointment' }, { status: 500 });
+    }
+
+    // Queue the reminders; the booking stands even when the queue cannot be written
+    const appointment = toDomainAppointment(result.data);
+    const remindersResult = await scheduleAppointmentReminders(appointment, { businessId, client: supabase });
+    if (!remindersResult.success) {
+      console.error('Error scheduling appointment reminders:', remindersResult.error);
+    }
+
+    return NextResponse.json({ appointment }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating appointment:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,224 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Availability API Tests
+ *
+ * Tests the /api/availability handler with the business context resolver,
+ * the appointments query and BusinessContextDatabase mocked
+ */
+
+import { NextRequest } from 'next/server';
+import { GET } from './route';
+import { BusinessContextDatabase } from '@/lib/database-operations';
+import { listAppointmentsAround } from '@/lib/appointments';
+import { getRequestBusinessContext, getRequestBusinessSettings } from '@/lib/server-business-context';
+
+jest.mock('@/lib/server-business-context', () => ({
+  getRequestBusinessContext: jest.fn(),
+  getRequestBusinessSettings: jest.fn(),
+}));
+
+jest.mock('@/lib/appointments', () => ({
+  listAppointmentsAround: jest.fn(),
+}));
+
+jest.mock('@/lib/database-operations', () => ({
+  BusinessContextDatabase: {
+    select: jest.fn(),
+  },
+}));
+
+const BUSINESS_ID = '12345678-1234-5678-9abc-123456789012';
+
+const settings = {
+  timezone: 'America/Bogota',
+  currency: 'COP',
+  businessHours: [0, 1, 2, 3, 4, 5, 6].map(dayOfWeek => ({
+    dayOfWeek,
+    intervals: [{ openTime: '09:00', closeTime: '11:00' }],
+    isOpen: dayOfWeek >= 1 && dayOfWeek <= 5,
+  })),
+};
+
+const mockClient = { from: jest.fn() };
+
+const availabilityRequest = (query: string) =>
+  new NextRequest(`http://localhost/api/availability?${query}`);
+
+describe('Availability API', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: new Date('2025-03-01T00:00:00.000Z'), doNotFake: ['nextTick', 'setImmediate'] });
+    (getRequestBusinessContext as jest.Mock).mockResolvedValue({
+      success: true,
+      context: { supabase: mockClient, userId: 'user-123', businessId: BUSINESS_ID, role: 'owner' },
+    });
+    (getRequestBusinessSettings as jest.Mock).mockResolvedValue({ success: true, settings });
+    (BusinessContextDatabase.select as jest.Mock).mockResolvedValue({ success: true, data: [] });
+    (listAppointmentsAround as jest.Mock).mockResolvedValue({ success: true, data: [] });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('returns free slots excluding booked appointments', async () => {
+    (listAppointmentsAround as jest.Mock).mockResolvedValue({
+      success: true,
+      data: [{
+        id: 'appt-1',
+        business_id: BUSINESS_ID,
+        customer_name: 'Laura Gómez',
+        customer_phone: '+57 301 234 5678',
+        customer_email: null,
+        service_type: 'Corte',
+        scheduled_at: '2025-03-10T14:00:00.000Z',
+        duration_minutes: 60,
+        status: 'confirmed',
+        notes: null,
+        created_at: '2025-03-01T10:00:00.000Z',
+        updated_at: '2025-03-01T10:00:00.000Z',
+      }],
+    });
+
+    const response = await GET(availabilityRequest(
+      'from=2025-03-10T05:00:00.000Z&to=2025-03-11T05:00:00.000Z&duration=60&interval=30'
+    ));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    // Bounded by the range, reaching back the longest buffer and ahead the service
+    expect(listAppointmentsAround).toHaveBeenCalledWith(
+      new Date('2025-03-10T01:00:00.000Z'),
+      new Date('2025-03-11T06:00:00.000Z'),
+      {},
+      { businessId: BUSINESS_ID, client: mockClient }
+    );
+    expect(body.slots).toEqual([
+      { start: '2025-03-10T15:00:00.000Z', end: '2025-03-10T16:00:00.000Z' },
+    ]);
+  });
+
+  it('keeps the buffer of the service of existing appointments free', async () => {
+    (listAppointmentsAround as jest.Mock).mockResolvedValue({
+      success: true,
+      data: [{
+        id: 'appt-1',
+        business_id: BUSINESS_ID,
+        service_id: 'service-1',
+        scheduled_at: '2025-03-10T14:00:00.000Z',
+        duration_minutes: 30,
+        status: 'confirmed',
+        created_at: '2025-03-01T10:00:00.000Z',
+        updated_at: '2025-03-01T10:00:00.000Z',
+      }],
+    });
+    (BusinessContextDatabase.select as jest.Mock).mockResolvedValue({
+      success: true,
+      data: [{ id: 'service-1', buffer_minutes: 30 }],
+    });
+
+    const response = await GET(availabilityRequest(
+      'from=2025-03-10T05:00:00.000Z&to=2025-03-11T05:00:00.000Z&duration=30&interval=30'
+    ));
+    const body = await response.json();
+
+    expect(BusinessContextDatabase.select).toHaveBeenCalledWith(
+      'services',
+      'id, buffer_minutes',
+      {},
+      { businessId: BUSINESS_ID, client: mockClient }
+    );
+    expect(body.slots).toEqual([
+      { start: '2025-03-10T15:00:00.000Z', end: '2025-03-10T15:30:00.000Z' },
+      { start: '2025-03-10T15:30:00.000Z', end: '2025-03-10T16:00:00.000Z' },
+    ]);
+  });
+
+  it('uses the specialist schedule and only their appointments when specialistId is given', async () => {
+    const specialistId = '22222222-2222-4222-8222-222222222222';
+    (BusinessContextDatabase.select as jest.Mock).mockImplementation(async (table: string) => {
+      if (table === 'specialists') {
+        return {
+          success: true,
+          data: [{
+            id: specialistId,
+            business_id: BUSINESS_ID,
+            name: 'Andrea',
+            email: null,
+            phone: null,
+            schedule: [{ dayOfWeek: 1, intervals: [{ openTime: '10:00', closeTime: '11:00' }], isOpen: true }],
+            is_active: true,
+            specialist_services: [],
+            created_at: '2025-03-01T10:00:00.000Z',
+            updated_at: '2025-03-01T10:00:00.000Z',
+          }],
+        };
+      }
+      return { success: true, data: [] };
+    });
+
+    const response = await GET(availabilityRequest(
+      `from=2025-03-10T05:00:00.000Z&to=2025-03-11T05:00:00.000Z&duration=30&interval=30&specialistId=${specialistId}`
+    ));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(listAppointmentsAround).toHaveBeenCalledWith(
+      expect.any(Date),
+      expect.any(Date),
+      { specialistId },
+      { businessId: BUSINESS_ID, client: mockClient }
+    );
+    expect(body.slots).toEqual([
+      { start: '2025-03-10T15:00:00.000Z', end: '2025-03-10T15:30:00.000Z' },
+      { start: '2025-03-10T15:30:00.000Z', end: '2025-03-10T16:00:00.000Z' },
+    ]);
+  });
+
+  it('returns 401 when there is no authenticated user', async () => {
+    (getRequestBusinessContext as jest.Mock).mockResolvedValue({
+      success: false,
+      status: 401,
+      error: 'Unauthorized',
+    });
+
+    const response = await GET(availabilityRequest('from=2025-03-10&to=2025-03-11&duration=60'));
+
+    expect(response.status).toBe(401);
+  });
+
+  it('rejects missing or inverted date ranges', async () => {
+    const missing = await GET(availabilityRequest('duration=60'));
+    const inverted = await GET(availabilityRequest('from=2025-03-11&to=2025-03-10&duration=60'));
+
+    expect(missing.status).toBe(400);
+    expect(inverted.status).toBe(400);
+  });
+
+  it('rejects ranges longer than 31 days', async () => {
+    const response = await GET(availabilityRequest('from=2025-03-01&to=2025-05-01&duration=60'));
+
+    expect(response.status).toBe(400);
+    expect(listAppointmentsAround).not.toHaveBeenCalled();
+  });
+
+  it('rejects invalid durations', async () => {
+    const response = await GET(availabilityRequest('from=2025-03-10&to=2025-03-11&duration=abc'));
+
+    expect(response.status).toBe(400);
+  });
+
+  it('returns 500 when the business settings cannot be loaded', async () => {
+    (getRequestBusinessSettings as jest.Mock).mockResolvedValue({
+      success: false,
+      error: 'Failed to fetch business data',
+    });
+
+    const response = await GET(availabilityRequest('from=2025-03-10&to=2025-03-11&duration=60'));
+
+    expect(response.status).toBe(500);
+  });
+});
@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listAppointmentsAround } from '@/lib/appointments';
+import { getRequestBusinessContext, getRequestBusinessSettings } from '@/lib/server-business-context';
+import { toDomainAppointment } from '@/lib/database.types';
+import {
+  MAX_SERVICE_BUFFER_MINUTES,
+  SERVICE_INACTIVE_ERROR,
+  SERVICE_NOT_FOUND_ERROR,
+  getBookableService,
+  getServiceBuffers
+} from '@/lib/service-catalog';
+import { getBookableSpecialist, SPECIALIST_INACTIVE_ERROR, SPECIALIST_NOT_FOUND_ERROR } from '@/lib/specialists';
+import { computeAvailableSlots } from '@appointments-demo/utils';
+
+// Longest range a single availability request may cover
+const MAX_RANGE_DAYS = 31;
+
+/**
+ * Compute bookable slots for the current business
+ * Query params: from, to (ISO dates), serviceId or duration (minutes), interval (optional, minutes),
+ * specialistId (optional, uses the specialist's schedule and only their appointments)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const contextResult = await getRequestBusinessContext();
+    if (!contextResult.success) {
+      return NextResponse.json({ error: contextResult.error }, { status: contextResult.status });
+    }
+    const { supabase, businessId } = contextResult.context;
+
+    const { searchParams } = request.nextUrl;
+
+    const from = new Date(searchParams.get('from') ?? '');
+    const to = new Date(searchParams.get('to') ?? '');
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+      return NextResponse.json({ error: 'Invalid date range' }, { status: 400 });
+    }
+    if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+      return NextResponse.json(
+        { error: `Date range cannot exceed ${MAX_RANGE_DAYS} days` },
+        { status: 400 }
+      );
+    }
+
+    // Catalog services supply duration and buffer; otherwise an explicit duration is required
+    let duration: number;
+    let bufferMinutes = 0;
+    const serviceId = searchParams.get('serviceId');
+    if (serviceId) {
+      const serviceResult = await getBookableService(serviceId, { businessId, client: supabase });
+
+      if (!serviceResult.success || !serviceResult.data) {
+        if (serviceResult.error === SERVICE_NOT_FOUND_ERROR || serviceResult.error === SERVICE_INACTIVE_ERROR) {
+          return NextResponse.json({ error: 'Service not available' }, { status: 400 });
+        }
+        console.error('Error fetching service:', serviceResult.error);
+        return NextResponse.json({ error: 'Failed to fetch service' }, { status: 500 });
+      }
+
+      duration = serviceResult.data.duration_minutes;
+      bufferMinutes = serviceResult.data.buffer_minutes;
+    } else {
+      duration = Number(searchParams.get('duration'));
+      if (!Number.isInteger(duration) || duration < 5 || duration > 720) {
+        return NextResponse.json({ error: 'Invalid service duration' }, { status: 400 });
+      }
+    }
+
+    const intervalParam = searchParams.get('interval');
+    const slotInterval = intervalParam === null ? undefined : Number(intervalParam);
+    if (slotInterval !== undefined && (!Number.isInteger(slotInterval) || slotInterval < 5 || slotInterval > 240)) {
+      return NextResponse.json({ error: 'Invalid slot interval' }, { status: 400 });
+    }
+
+    const settingsResult = await getRequestBusinessSettings(contextResult.context);
+    if (!settingsResult.success) {
+      return NextResponse.json({ error: settingsResult.error }, { status: 500 });
+    }
+    let settings = settingsResult.settings;
+
+    // A specialist's schedule replaces the business hours; holidays still apply
+    const specialistId = searchParams.get('specialistId');
+    if (specialistId) {
+      const specialistResult = await getBookableSpecialist(specialistId, { businessId, client: supabase });
+
+      if (!specialistResult.success || !specialistResult.data) {
+        if (specialistResult.error === SPECIALIST_NOT_FOUND_ERROR || specialistResult.error === SPECIALIST_INACTIVE_ERROR) {
+          return NextResponse.json({ error: 'Specialist not available' }, { status: 400 });
+        }
+        console.error('Error fetching specialist:', specialistResult.error);
+        return NextResponse.json({ error: 'Failed to fetch specialist' }, { status: 500 });
+      }
+
+      const performedServiceIds = (specialistResult.data.specialist_services || []).map(link => link.service_id);
+      if (serviceId && !performedServiceIds.includes(serviceId)) {
+        return NextResponse.json({ error: 'Specialist does not perform this service' }, { status: 400 });
+      }
+
+      settings = { ...settings, businessHours: specialistResult.data.schedule || [] };
+    }
+
+    // Appointments (and their buffers) that run into the range, and those the last
+    // slot's service and buffer reach after it
+    const appointmentsResult = await listAppointmentsAround(
+      new Date(from.getTime() - MAX_SERVICE_BUFFER_MINUTES * 60 * 1000),
+      new Date(to.getTime() + (duration + bufferMinutes) * 60 * 1000),
+      specialistId ? { specialistId } : {},
+      { businessId, client: supabase }
+    );
+
+    if (!appointmentsResult.success) {
+      console.error('Error fetching appointments:', appointmentsResult.error);
+      return NextResponse.json({ error: 'Failed to fetch appointments' }, { status: 500 });
+    }
+
+    const buffersResult = await getServiceBuffers({ businessId, client: supabase });
+    if (!buffersResult.success || !buffersResult.data) {
+      console.error('Error fetching service buffers:', buffersResult.error);
+      return NextResponse.json({ error: 'Failed to fetch appointments' }, { status: 500 });
+    }
+    const buffers = buffersResult.data;
+
+    const slots = computeAvailableSlots({
+      business: { settings },
+      serviceDuration: duration,
+      bufferMinutes,
+      from,
+      to,
+      appointments: (appointmentsResult.data || []).map(record => ({
+        ...toDomainAppointment(record),
+        bufferMinutes: record.service_id ? buffers[record.service_id] ?? 0 : 0
+      })),
+      slotInterval,
+      now: new Date()
+    });
+
+    return NextResponse.json({ slots });
+  } catch (error) {
+    console.error('Error computing availability:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
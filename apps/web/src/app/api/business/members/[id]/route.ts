@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { BusinessRole } from '@appointments-demo/types';
+import { getRequestBusinessContext } from '@/lib/server-business-context';
+import { hasPermission } from '@/lib/business-permissions';
+import {
+  MEMBER_NOT_FOUND_ERROR,
+  OWNER_MEMBER_ERROR,
+  removeMember,
+  updateMemberRole
+} from '@/lib/business-members';
+import { toDomainBusinessMember } from '@/lib/database.types';
+import { MemberUpdateSchema, extractValidationErrors } from '@/components/forms/validation-schemas';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Change the role of a member of the current business (not the owner)
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const contextResult = await getRequestBusinessContext();
+    if (!contextResult.success) {
+      return NextResponse.json({ error: contextResult.error }, { status: contextResult.status });
+    }
+    const { supabase, businessId, role } = contextResult.context;
+    if (!hasPermission(role, 'members:manage')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const validationResult = MemberUpdateSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: extractValidationErrors(validationResult.error) },
+        { status: 400 }
+      );
+    }
+
+    const result = await updateMemberRole(
+      id,
+      validationResult.data.role as BusinessRole,
+      { businessId, client: supabase }
+    );
+
+    if (!result.success || !result.data) {
+      if (result.error === MEMBER_NOT_FOUND_ERROR) {
+        return NextResponse.json({ error: 'Member not found' }, { status: 404 });
+      }
+      if (result.error === OWNER_MEMBER_ERROR) {
+        return NextResponse.json({ error: OWNER_MEMBER_ERROR }, { status: 403 });
+      }
+      console.error('Error updating member:', result.error);
+      return NextResponse.json({ error: 'Failed to update member' }, { status: 500 });
+    }
+
+    return NextResponse.json({ member: toDomainBusinessMember(result.data) });
+  } catch (error) {
+    console.error('Error updating member:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Remove a member of the current business or withdraw their invitation
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const contextResult = await getRequestBusinessContext();
+    if (!contextResult.success) {
+      return NextResponse.json({ error: contextResult.error }, { status: contextResult.status });
+    }
+    const { supabase, businessId, role } = contextResult.context;
+    if (!hasPermission(role, 'members:manage')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const result = await removeMember(id, { businessId, client: supabase });
+
+    if (!result.success) {
+      if (result.error === MEMBER_NOT_FOUND_ERROR) {
+        return NextResponse.json({ error: 'Member not found' }, { status: 404 });
+      }
+      if (result.error === OWNER_MEMBER_ERROR) {
+        return NextResponse.json({ error: OWNER_MEMBER_ERROR }, { status: 403 });
+      }
+      console.error('Error removing member:', result.error);
+      return NextResponse.json({ error: 'Failed to remove member' }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error removing member:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
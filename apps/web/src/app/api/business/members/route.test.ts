@@ -0,0 +1,254 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Business Members API Tests
+ *
+ * Tests the /api/business/members collection and /api/business/members/[id] handlers
+ * with the business context resolver, BusinessContextDatabase and Supabase Auth mocked
+ */
+
+import { NextRequest } from 'next/server';
+import { GET, POST } from './route';
+import { PATCH, DELETE } from './[id]/route';
+import { BusinessContextDatabase } from '@/lib/database-operations';
+import { getRequestBusinessContext } from '@/lib/server-business-context';
+import { createServerSupabaseClient } from '@/lib/supabase';
+import { BusinessRole } from '@appointments-demo/types';
+import type { BusinessMemberRecord } from '@/lib/database.types';
+
+jest.mock('@/lib/server-business-context', () => ({
+  getRequestBusinessContext: jest.fn(),
+}));
+
+jest.mock('@/lib/database-operations', () => ({
+  BusinessContextDatabase: {
+    select: jest.fn(),
+    insert: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/supabase', () => ({
+  createServerSupabaseClient: jest.fn(),
+}));
+
+const BUSINESS_ID = '12345678-1234-5678-9abc-123456789012';
+const INVITATION_TOKEN = '9b2f7c1e-4d3a-4b5c-8e6f-0a1b2c3d4e5f';
+const mockClient = { from: jest.fn() };
+const inviteUserByEmail = jest.fn();
+
+const ownerRecord: BusinessMemberRecord = {
+  id: 'member-owner',
+  business_id: BUSINESS_ID,
+  user_id: 'user-123',
+  email: 'duena@salon.co',
+  role: BusinessRole.OWNER,
+  status: 'active',
+  invitation_token: null,
+  invited_by: null,
+  accepted_at: '2025-03-01T10:00:00.000Z',
+  created_at: '2025-03-01T10:00:00.000Z',
+  updated_at: '2025-03-01T10:00:00.000Z',
+};
+
+const invitedRecord: BusinessMemberRecord = {
+  ...ownerRecord,
+  id: 'member-reception',
+  user_id: null,
+  email: 'recepcion@salon.co',
+  role: BusinessRole.RECEPTIONIST,
+  status: 'invited',
+  invitation_token: INVITATION_TOKEN,
+  invited_by: 'user-123',
+  accepted_at: null,
+  created_at: '2025-03-02T10:00:00.000Z',
+};
+
+const jsonRequest = (url: string, method: string, body?: unknown) =>
+  new NextRequest(url, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+const routeParams = (id: string) => ({ params: Promise.resolve({ id }) });
+
+const withRole = (role: string) =>
+  (getRequestBusinessContext as jest.Mock).mockResolvedValue({
+    success: true,
+    context: { supabase: mockClient, userId: 'user-123', businessId: BUSINESS_ID, role },
+  });
+
+describe('Business Members API', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    withRole('owner');
+    inviteUserByEmail.mockResolvedValue({ data: {}, error: null });
+    (createServerSupabaseClient as jest.Mock).mockReturnValue({ auth: { admin: { inviteUserByEmail } } });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('GET /api/business/members', () => {
+    it('lists the team oldest first without invitation tokens', async () => {
+      (BusinessContextDatabase.select as jest.Mock).mockResolvedValue({
+        success: true,
+        data: [invitedRecord, ownerRecord],
+      });
+
+      const response = await GET();
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.members.map((m: { email: string }) => m.email)).toEqual(['duena@salon.co', 'recepcion@salon.co']);
+      expect(body.members[1]).toMatchObject({ role: 'receptionist', status: 'invited' });
+      expect(JSON.stringify(body)).not.toContain(INVITATION_TOKEN);
+    });
+  });
+
+  describe('POST /api/business/members', () => {
+    it('stores the invitation and emails the link', async () => {
+      (BusinessContextDatabase.insert as jest.Mock).mockResolvedValue({ success: true, data: invitedRecord });
+
+      const response = await POST(jsonRequest('http://localhost/api/business/members', 'POST', {
+        email: 'Recepcion@Salon.co',
+        role: 'receptionist',
+      }));
+      const body = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(BusinessContextDatabase.insert).toHaveBeenCalledWith(
+        'business_members',
+        {
+          email: 'recepcion@salon.co',
+          role: 'receptionist',
+          status: 'invited',
+          user_id: null,
+          invited_by: 'user-123',
+        },
+        { businessId: BUSINESS_ID, client: mockClient }
+      );
+      expect(inviteUserByEmail).toHaveBeenCalledWith('recepcion@salon.co', {
+        redirectTo: `http://localhost:3000/invitations/${INVITATION_TOKEN}`,
+      });
+      expect(body).toMatchObject({
+        member: { email: 'recepcion@salon.co', role: 'receptionist' },
+        invitationUrl: `http://localhost:3000/invitations/${INVITATION_TOKEN}`,
+        emailSent: true,
+      });
+    });
+
+    it('returns the link when the person already has an account', async () => {
+      (BusinessContextDatabase.insert as jest.Mock).mockResolvedValue({ success: true, data: invitedRecord });
+      inviteUserByEmail.mockResolvedValue({
+        data: null,
+        error: { message: 'A user with this email address has already been registered' },
+      });
+
+      const response = await POST(jsonRequest('http://localhost/api/business/members', 'POST', {
+        email: 'recepcion@salon.co',
+        role: 'receptionist',
+      }));
+      const body = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(body.emailSent).toBe(false);
+      expect(body.invitationUrl).toContain(INVITATION_TOKEN);
+    });
+
+    it('never grants the owner role by invitation', async () => {
+      const response = await POST(jsonRequest('http://localhost/api/business/members', 'POST', {
+        email: 'otra@salon.co',
+        role: 'owner',
+      }));
+      const body = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(body.details.role).toBe('Rol inválido');
+      expect(BusinessContextDatabase.insert).not.toHaveBeenCalled();
+    });
+
+    it('returns 409 when the email is already in the team', async () => {
+      (BusinessContextDatabase.insert as jest.Mock).mockResolvedValue({
+        success: false,
+        error: 'Database insert error: duplicate key value violates unique constraint "idx_business_members_business_email"',
+      });
+
+      const response = await POST(jsonRequest('http://localhost/api/business/members', 'POST', {
+        email: 'recepcion@salon.co',
+        role: 'admin',
+      }));
+
+      expect(response.status).toBe(409);
+      expect(inviteUserByEmail).not.toHaveBeenCalled();
+    });
+
+    it('returns 403 when a receptionist tries to invite', async () => {
+      withRole('receptionist');
+
+      const response = await POST(jsonRequest('http://localhost/api/business/members', 'POST', {
+        email: 'otra@salon.co',
+        role: 'receptionist',
+      }));
+
+      expect(response.status).toBe(403);
+      expect(BusinessContextDatabase.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PATCH /api/business/members/[id]', () => {
+    it('changes the role of a member', async () => {
+      (BusinessContextDatabase.select as jest.Mock).mockResolvedValue({ success: true, data: [invitedRecord] });
+      (BusinessContextDatabase.update as jest.Mock).mockResolvedValue({
+        success: true,
+        data: { ...invitedRecord, role: 'admin' },
+      });
+
+      const response = await PATCH(
+        jsonRequest('http://localhost/api/business/members/member-reception', 'PATCH', { role: 'admin' }),
+        routeParams('member-reception')
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(BusinessContextDatabase.update).toHaveBeenCalledWith(
+        'business_members',
+        'member-reception',
+        { role: 'admin' },
+        { businessId: BUSINESS_ID, client: mockClient }
+      );
+      expect(body.member.role).toBe('admin');
+    });
+  });
+
+  describe('DELETE /api/business/members/[id]', () => {
+    it('never removes the owner', async () => {
+      (BusinessContextDatabase.select as jest.Mock).mockResolvedValue({ success: true, data: [ownerRecord] });
+
+      const response = await DELETE(
+        jsonRequest('http://localhost/api/business/members/member-owner', 'DELETE'),
+        routeParams('member-owner')
+      );
+
+      expect(response.status).toBe(403);
+      expect(BusinessContextDatabase.delete).not.toHaveBeenCalled();
+    });
+
+    it('returns 404 for members of another business', async () => {
+      (BusinessContextDatabase.select as jest.Mock).mockResolvedValue({ success: true, data: [] });
+
+      const response = await DELETE(
+        jsonRequest('http://localhost/api/business/members/missing', 'DELETE'),
+        routeParams('missing')
+      );
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
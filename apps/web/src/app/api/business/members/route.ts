@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { BusinessRole } from '@appointments-demo/types';
+import { getRequestBusinessContext } from '@/lib/server-business-context';
+import { hasPermission } from '@/lib/business-permissions';
+import { inviteMember, listMembers, MEMBER_ALREADY_EXISTS_ERROR } from '@/lib/business-members';
+import { toDomainBusinessMember } from '@/lib/database.types';
+import { MemberInviteSchema, extractValidationErrors } from '@/components/forms/validation-schemas';
+
+/**
+ * List the team of the current business, including pending invitations
+ */
+export async function GET() {
+  try {
+    const contextResult = await getRequestBusinessContext();
+    if (!contextResult.success) {
+      return NextResponse.json({ error: contextResult.error }, { status: contextResult.status });
+    }
+    const { supabase, businessId } = contextResult.context;
+
+    const result = await listMembers({ businessId, client: supabase });
+
+    if (!result.success) {
+      console.error('Error fetching members:', result.error);
+      return NextResponse.json({ error: 'Failed to fetch members' }, { status: 500 });
+    }
+
+    return NextResponse.json({ members: (result.data || []).map(toDomainBusinessMember) });
+  } catch (error) {
+    console.error('Error listing members:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Invite someone to the current business by email with a role
+ * Only owners and admins manage the team
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const contextResult = await getRequestBusinessContext();
+    if (!contextResult.success) {
+      return NextResponse.json({ error: contextResult.error }, { status: contextResult.status });
+    }
+    const { supabase, userId, businessId, role } = contextResult.context;
+    if (!hasPermission(role, 'members:manage')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const validationResult = MemberInviteSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: extractValidationErrors(validationResult.error) },
+        { status: 400 }
+      );
+    }
+
+    const result = await inviteMember(
+      { email: validationResult.data.email, role: validationResult.data.role as BusinessRole },
+      userId,
+      { businessId, client: supabase }
+    );
+
+    if (!result.success || !result.data) {
+      if (result.error === MEMBER_ALREADY_EXISTS_ERROR) {
+        return NextResponse.json(
+          { error: 'Validation failed', details: { email: 'Esta persona ya pertenece al equipo o tiene una invitación pendiente' } },
+          { status: 409 }
+        );
+      }
+      console.error('Error inviting member:', result.error);
+      return NextResponse.json({ error: 'Failed to invite member' }, { status: 500 });
+    }
+
+    return NextResponse.json(
+      {
+        member: toDomainBusinessMember(result.data.member),
+        invitationUrl: result.data.invitationUrl,
+        emailSent: result.data.emailSent
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error inviting member:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
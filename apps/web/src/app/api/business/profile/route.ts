@@ -1,72 +1,27 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createServerClient } from '@supabase/ssr';
-import { cookies } from 'next/headers';
-import { env } from '@/lib/env';
-import type { Database } from '@/lib/database.types';
+import { getRequestBusinessContext } from '@/lib/server-business-context';
+import { hasPermission } from '@/lib/business-permissions';
 import type { Business } from '@appointments-demo/types';
-import { validateColombianPhone, isValidColombianDepartment } from '@appointments-demo/utils';
-
-// Create server client for authenticated requests (reads user session from cookies)
-const createServerClientFromRequest = async () => {
-  const cookieStore = await cookies();
-  
-  return createServerClient<Database>(
-    env.supabase.url,
-    env.supabase.anonKey,
-    {
-      cookies: {
-        getAll() {
-          return cookieStore.getAll();
-        },
-        setAll(cookiesToSet: Array<{ name: string; value: string; options?: Record<string, unknown> }>) {
-          try {
-            cookiesToSet.forEach(({ name, value, options }) =>
-              cookieStore.set(name, value, options)
-            );
-          } catch {
-            // The `setAll` method was called from a Server Component.
-            // This can be ignored if you have middleware refreshing
-            // user sessions.
-          }
-        },
-      },
-    }
-  );
-};
+import { BusinessProfileUpdateSchema, extractValidationErrors } from '@/components/forms/validation-schemas';
 
 export async function GET() {
   try {
-    const supabase = await createServerClientFromRequest();
-    
-    // Get current user session
-    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
-    
-    if (sessionError || !session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    // The location selected with the business switcher (RLS limits it to the user's own)
+    const contextResult = await getRequestBusinessContext();
+    if (!contextResult.success) {
+      return NextResponse.json({ error: contextResult.error }, { status: contextResult.status });
     }
+    const { supabase, businessId } = contextResult.context;
 
-    // Get user's businesses - use RLS policies which filter by auth.uid()
-    console.log('🔍 Fetching businesses for user:', session.user.id);
-    const { data: businesses, error: businessError } = await supabase
+    const { data: businessData, error: businessError } = await supabase
       .from('businesses')
-      .select('*');
-    
-    console.log('🔍 Business query result:', { businesses, businessError });
-    
-    if (businessError) {
-      console.error('Error fetching user businesses:', businessError);
-      return NextResponse.json({ error: 'Failed to fetch business data', details: businessError }, { status: 500 });
-    }
-
-    if (!businesses || businesses.length === 0) {
-      return NextResponse.json({ error: 'No business found for user' }, { status: 404 });
-    }
+      .select('*')
+      .eq('id', businessId)
+      .single();
 
-    // For now, return the first business (in the future, handle multiple businesses)
-    const businessData = businesses[0];
-    
-    if (!businessData) {
-      return NextResponse.json({ error: 'Business not found' }, { status: 404 });
+    if (businessError || !businessData) {
+      console.error('Error fetching business profile:', businessError);
+      return NextResponse.json({ error: 'Failed to fetch business data' }, { status: 500 });
     }
 
     // Transform the flat database structure to match the TypeScript interface
@@ -78,7 +33,8 @@ export async function GET() {
         street: businessData.street,
         city: businessData.city,
         department: businessData.department,
-        postalCode: businessData.postal_code
+        postalCode: businessData.postal_code,
+        municipalityCode: businessData.municipality_code ?? undefined
       },
       phone: businessData.phone,
       whatsappNumber: businessData.whatsapp_number,
@@ -100,79 +56,40 @@ export async function GET() {
 
 export async function PUT(request: NextRequest) {
   try {
-    const supabase = await createServerClientFromRequest();
-    
-    // Get current user session
-    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
-    
-    if (sessionError || !session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    // Get user's businesses - use RLS policies which filter by auth.uid()
-    const { data: businesses, error: businessError } = await supabase
-      .from('businesses')
-      .select('*');
-    
-    if (businessError) {
-      console.error('Error fetching user businesses:', businessError);
-      return NextResponse.json({ error: 'Failed to fetch business data' }, { status: 500 });
+    // The location selected with the business switcher (RLS limits it to the user's own)
+    const contextResult = await getRequestBusinessContext();
+    if (!contextResult.success) {
+      return NextResponse.json({ error: contextResult.error }, { status: contextResult.status });
     }
-
-    if (!businesses || businesses.length === 0) {
-      return NextResponse.json({ error: 'No business found for user' }, { status: 404 });
+    const { supabase, businessId, role } = contextResult.context;
+    if (!hasPermission(role, 'settings:manage')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
-    // For now, use the first business (in the future, handle multiple businesses)
-    const existingBusiness = businesses[0];
-    const businessId = existingBusiness.id;
-
-    // Parse request body
+    // Parse and validate request body; only the editable profile fields are kept
     const body = await request.json();
-    const businessUpdates: Partial<Business> = body;
-
-    // Validate required fields
-    const validationErrors: string[] = [];
-
-    if (businessUpdates.name !== undefined && !businessUpdates.name.trim()) {
-      validationErrors.push('Business name is required');
-    }
+    const validationResult = BusinessProfileUpdateSchema.safeParse(body);
 
-    if (businessUpdates.phone !== undefined && !validateColombianPhone(businessUpdates.phone)) {
-      validationErrors.push('Invalid Colombian phone number format');
-    }
-
-    if (businessUpdates.whatsappNumber !== undefined && businessUpdates.whatsappNumber && !validateColombianPhone(businessUpdates.whatsappNumber)) {
-      validationErrors.push('Invalid Colombian WhatsApp number format');
-    }
-
-    if (businessUpdates.email !== undefined && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(businessUpdates.email)) {
-      validationErrors.push('Invalid email format');
-    }
-
-    if (businessUpdates.address?.department !== undefined && !isValidColombianDepartment(businessUpdates.address.department)) {
-      validationErrors.push('Invalid Colombian department');
-    }
-
-    if (validationErrors.length > 0) {
+    if (!validationResult.success) {
       return NextResponse.json(
-        { error: 'Validation failed', details: validationErrors },
+        { error: 'Validation failed', details: extractValidationErrors(validationResult.error) },
         { status: 400 }
       );
     }
 
+    const { address, whatsappNumber, ...businessUpdates } = validationResult.data;
+
     // Transform the nested address structure to flat database structure
     const dbUpdates: Record<string, unknown> = { ...businessUpdates };
-    if (businessUpdates.address) {
-      delete dbUpdates.address;
-      dbUpdates.street = businessUpdates.address.street;
-      dbUpdates.city = businessUpdates.address.city;
-      dbUpdates.department = businessUpdates.address.department;
-      dbUpdates.postal_code = businessUpdates.address.postalCode;
+    if (address) {
+      dbUpdates.street = address.street;
+      dbUpdates.city = address.city;
+      dbUpdates.department = address.department;
+      dbUpdates.postal_code = address.postalCode ?? null;
+      dbUpdates.municipality_code = address.municipalityCode ?? null;
     }
-    if (businessUpdates.whatsappNumber !== undefined) {
-      dbUpdates.whatsapp_number = businessUpdates.whatsappNumber;
-      delete dbUpdates.whatsappNumber;
+    if (whatsappNumber !== undefined) {
+      dbUpdates.whatsapp_number = whatsappNumber || null;
     }
 
     // Update business using direct Supabase call (RLS will ensure user can only update their own business)
@@ -197,7 +114,8 @@ export async function PUT(request: NextRequest) {
         street: updatedBusinessData.street,
         city: updatedBusinessData.city,
         department: updatedBusinessData.department,
-        postalCode: updatedBusinessData.postal_code
+        postalCode: updatedBusinessData.postal_code,
+        municipalityCode: updatedBusinessData.municipality_code ?? undefined
       },
       phone: updatedBusinessData.phone,
       whatsappNumber: updatedBusinessData.whatsapp_number,
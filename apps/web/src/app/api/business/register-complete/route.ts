@@ -1,73 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { createServerSupabaseClient } from '@/lib/supabase';
-import { 
-  COLOMBIAN_DEPARTMENTS 
-} from '@appointments-demo/utils';
-
-// Validation Schemas
-const UserRegistrationSchema = z.object({
-  email: z.string()
-    .email('Email inválido')
-    .min(1, 'El email es requerido')
-    .max(255, 'El email es demasiado largo')
-    .toLowerCase()
-    .trim(),
-  password: z.string()
-    .min(8, 'La contraseña debe tener al menos 8 caracteres')
-    .max(128, 'La contraseña es demasiado larga')
-    .regex(/[A-Z]/, 'La contraseña debe contener al menos una letra mayúscula')
-    .regex(/[a-z]/, 'La contraseña debe contener al menos una letra minúscula')
-    .regex(/[0-9]/, 'La contraseña debe contener al menos un número'),
-  confirmPassword: z.string(),
-  name: z.string()
-    .min(1, 'El nombre es requerido')
-    .max(100, 'El nombre es demasiado largo')
-    .trim()
-}).refine((data) => data.password === data.confirmPassword, {
-  message: 'Las contraseñas no coinciden',
-  path: ['confirmPassword']
-});
-
-const BusinessRegistrationSchema = z.object({
-  name: z.string()
-    .min(1, 'El nombre del negocio es requerido')
-    .max(200, 'El nombre del negocio es demasiado largo')
-    .trim(),
-  email: z.string()
-    .email('Email del negocio inválido')
-    .min(1, 'El email del negocio es requerido')
-    .max(255, 'El email del negocio es demasiado largo')
-    .toLowerCase()
-    .trim(),
-  phone: z.string()
-    .regex(/^\+57 \d{3} \d{3} \d{4}$/, 'Formato de teléfono colombiano inválido (+57 XXX XXX XXXX)')
-    .transform((phone) => phone.trim()),
-  whatsapp_number: z.string()
-    .regex(/^\+57 \d{3} \d{3} \d{4}$/, 'Formato de WhatsApp colombiano inválido (+57 XXX XXX XXXX)')
-    .transform((phone) => phone.trim()),
-  address: z.object({
-    street: z.string()
-      .min(1, 'La dirección es requerida')
-      .max(200, 'La dirección es demasiado larga')
-      .trim(),
-    city: z.string()
-      .min(1, 'La ciudad es requerida')
-      .max(100, 'La ciudad es demasiado larga')
-      .trim(),
-    department: z.enum([...COLOMBIAN_DEPARTMENTS] as [string, ...string[]], {
-      message: 'Departamento colombiano inválido'
-    })
-  })
-});
-
-const UnifiedRegistrationSchema = z.object({
-  user: UserRegistrationSchema,
-  business: BusinessRegistrationSchema
-});
+import { CompleteRegistrationSchema } from '@/components/forms/validation-schemas';
 
 // TypeScript Types
-export type UnifiedRegistrationRequest = z.infer<typeof UnifiedRegistrationSchema>;
+export type UnifiedRegistrationRequest = z.infer<typeof CompleteRegistrationSchema>;
 
 export interface UnifiedRegistrationResponse {
   success: boolean;
@@ -132,7 +69,7 @@ async function checkEmailUniqueness(email: string, type: 'user' | 'business') {
   }
 }
 
-async function createUserAccount(userData: z.infer<typeof UserRegistrationSchema>) {
+async function createUserAccount(userData: UnifiedRegistrationRequest['user']) {
   const supabase = createServerSupabaseClient();
   
   const { data, error } = await supabase.auth.signUp({
@@ -156,7 +93,7 @@ async function createUserAccount(userData: z.infer<typeof UserRegistrationSchema
   return data.user;
 }
 
-async function createBusinessRecord(businessData: z.infer<typeof BusinessRegistrationSchema>, userId: string) {
+async function createBusinessRecord(businessData: UnifiedRegistrationRequest['business'], userId: string) {
   const supabase = createServerSupabaseClient();
   const businessId = crypto.randomUUID();
   
@@ -171,6 +108,7 @@ async function createBusinessRecord(businessData: z.infer<typeof BusinessRegistr
       street: businessData.address.street,
       city: businessData.address.city,
       department: businessData.address.department,
+      municipality_code: businessData.address.municipalityCode ?? null,
       owner_id: userId,
       settings: {
         timezone: 'America/Bogota',
@@ -267,7 +205,7 @@ export async function POST(request: NextRequest): Promise<NextResponse<UnifiedRe
     }
     
     // Validate request data
-    const validationResult = UnifiedRegistrationSchema.safeParse(requestBody);
+    const validationResult = CompleteRegistrationSchema.safeParse(requestBody);
     
     if (!validationResult.success) {
       return NextResponse.json({
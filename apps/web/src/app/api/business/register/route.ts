@@ -22,6 +22,7 @@ interface SuccessResponse {
         street: string;
         city: string;
         department: string;
+        municipalityCode?: string;
       };
     };
   };
@@ -225,6 +226,7 @@ export async function POST(request: NextRequest): Promise<NextResponse<ApiRespon
       street: businessData.address.street,
       city: businessData.address.city,
       department: businessData.address.department,
+      municipality_code: businessData.address.municipalityCode ?? null,
       settings: {
         timezone: 'America/Bogota',
         currency: 'COP'
@@ -290,7 +292,8 @@ export async function POST(request: NextRequest): Promise<NextResponse<ApiRespon
           address: {
             street: createdBusiness.street,
             city: createdBusiness.city,
-            department: createdBusiness.department
+            department: createdBusiness.department,
+            municipalityCode: createdBusiness.municipality_code ?? undefined
           }
         }
       },
@@ -0,0 +1,275 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Business Settings API Tests
+ *
+ * Tests the /api/business/settings handler and its version history and rollback
+ * routes with the business context resolver and BusinessContextDatabase mocked
+ */
+
+import { NextRequest } from 'next/server';
+import { PUT } from './route';
+import { GET as listVersions } from './versions/route';
+import { POST as restoreVersion } from './versions/[version]/restore/route';
+import { BusinessContextDatabase } from '@/lib/database-operations';
+import { getRequestBusinessContext } from '@/lib/server-business-context';
+import type { BusinessSettings } from '@appointments-demo/types';
+import type { BusinessSettingsVersionRecord } from '@/lib/database.types';
+
+jest.mock('@/lib/server-business-context', () => ({
+  getRequestBusinessContext: jest.fn(),
+}));
+
+jest.mock('@/lib/database-operations', () => ({
+  BusinessContextDatabase: {
+    select: jest.fn(),
+  },
+}));
+
+const BUSINESS_ID = '12345678-1234-5678-9abc-123456789012';
+
+const weekdays = [1, 2, 3, 4, 5].map(dayOfWeek => ({ dayOfWeek, intervals: [{ openTime: '08:00', closeTime: '18:00' }], isOpen: true }));
+
+const openSaturdays: BusinessSettings = {
+  timezone: 'America/Bogota',
+  currency: 'COP',
+  businessHours: [...weekdays, { dayOfWeek: 6, intervals: [{ openTime: '08:00', closeTime: '14:00' }], isOpen: true }],
+};
+
+const closedSaturdays: BusinessSettings = {
+  ...openSaturdays,
+  businessHours: [...weekdays, { dayOfWeek: 6, intervals: [{ openTime: '08:00', closeTime: '14:00' }], isOpen: false }],
+};
+
+const versionRecord = (
+  version: number,
+  settings: BusinessSettings,
+  overrides: Partial<BusinessSettingsVersionRecord> = {}
+): BusinessSettingsVersionRecord => ({
+  id: `version-${version}`,
+  business_id: BUSINESS_ID,
+  version,
+  settings,
+  changed_by: 'user-123',
+  changed_by_email: 'recepcion@salon.co',
+  restored_from_version: null,
+  created_at: `2025-03-0${version}T10:00:00.000Z`,
+  ...overrides,
+});
+
+// Supabase query builder: select().eq().single() and update().eq().select().single()
+const readSingle = jest.fn();
+const updateSingle = jest.fn();
+const update = jest.fn(() => ({ eq: () => ({ select: () => ({ single: updateSingle }) }) }));
+const mockClient = {
+  from: jest.fn(() => ({
+    select: () => ({ eq: () => ({ single: readSingle }) }),
+    update,
+  })),
+  rpc: jest.fn(),
+};
+
+const withRole = (role: string) =>
+  (getRequestBusinessContext as jest.Mock).mockResolvedValue({
+    success: true,
+    context: { supabase: mockClient, userId: 'user-123', businessId: BUSINESS_ID, role },
+  });
+
+const putSettings = (body: unknown) =>
+  PUT(new NextRequest('http://localhost:3000/api/business/settings', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  }));
+
+const restore = (version: string) =>
+  restoreVersion(
+    new NextRequest(`http://localhost:3000/api/business/settings/versions/${version}/restore`, { method: 'POST' }),
+    { params: Promise.resolve({ version }) }
+  );
+
+describe('Business Settings API', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    withRole('admin');
+  });
+
+  describe('PUT /api/business/settings', () => {
+    it('merges the changes and saves them with the user\'s session', async () => {
+      readSingle.mockResolvedValue({ data: { settings: openSaturdays }, error: null });
+      updateSingle.mockResolvedValue({ data: { settings: { ...openSaturdays, currency: 'USD' } }, error: null });
+
+      const response = await putSettings({ currency: 'USD' });
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ settings: { ...openSaturdays, currency: 'USD' } });
+      expect(update).toHaveBeenCalledWith({ settings: { ...openSaturdays, currency: 'USD' } });
+    });
+
+    it('rejects members without the settings permission', async () => {
+      withRole('receptionist');
+
+      const response = await putSettings({ businessHours: closedSaturdays.businessHours });
+
+      expect(response.status).toBe(403);
+      expect(mockClient.from).not.toHaveBeenCalled();
+    });
+
+    it('saves split shifts with several intervals per day', async () => {
+      const splitShifts = [
+        { dayOfWeek: 1, intervals: [{ openTime: '08:00', closeTime: '12:00' }, { openTime: '14:00', closeTime: '18:00' }], isOpen: true },
+      ];
+      readSingle.mockResolvedValue({ data: { settings: openSaturdays }, error: null });
+      updateSingle.mockResolvedValue({ data: { settings: { ...openSaturdays, businessHours: splitShifts } }, error: null });
+
+      const response = await putSettings({ businessHours: splitShifts });
+
+      expect(response.status).toBe(200);
+      expect(update).toHaveBeenCalledWith({ settings: { ...openSaturdays, businessHours: splitShifts } });
+    });
+
+    it('rejects overlapping intervals of a day with a message per day', async () => {
+      const response = await putSettings({
+        businessHours: [
+          { dayOfWeek: 1, intervals: [{ openTime: '08:00', closeTime: '13:00' }, { openTime: '12:00', closeTime: '18:00' }], isOpen: true },
+          { dayOfWeek: 2, intervals: [{ openTime: '18:00', closeTime: '08:00' }], isOpen: true },
+        ],
+      });
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({
+        error: 'Business hours validation failed',
+        details: {
+          'businessHours.1': 'Los horarios del día se cruzan',
+          'businessHours.2': 'La hora de cierre debe ser posterior a la de apertura',
+        },
+      });
+      expect(mockClient.from).not.toHaveBeenCalled();
+    });
+
+    it('saves date overrides and rejects holiday openings on regular dates', async () => {
+      const dateOverrides = [
+        { date: '2025-12-24', type: 'closed', note: 'Nochebuena' },
+        { date: '2025-03-24', type: 'custom_hours', intervals: [{ openTime: '09:00', closeTime: '13:00' }] },
+      ];
+      readSingle.mockResolvedValue({ data: { settings: openSaturdays }, error: null });
+      updateSingle.mockResolvedValue({ data: { settings: { ...openSaturdays, dateOverrides } }, error: null });
+
+      const saved = await putSettings({ dateOverrides });
+      const rejected = await putSettings({ dateOverrides: [{ date: '2025-12-26', type: 'holiday_open' }] });
+
+      expect(saved.status).toBe(200);
+      expect(update).toHaveBeenCalledWith({ settings: { ...openSaturdays, dateOverrides } });
+      expect(rejected.status).toBe(400);
+      expect(await rejected.json()).toEqual({
+        error: 'Date overrides validation failed',
+        details: { 'dateOverrides.2025-12-26': 'Esta fecha no es festivo' },
+      });
+    });
+
+    it('rejects reminder settings with repeated offsets', async () => {
+      const response = await putSettings({
+        reminders: { enabled: true, offsetsMinutes: [120, 120], channels: ['whatsapp'] },
+      });
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({
+        error: 'Reminder settings validation failed',
+        details: { 'reminders.offsetsMinutes': 'Hay recordatorios repetidos' },
+      });
+      expect(mockClient.from).not.toHaveBeenCalled();
+    });
+
+    it('answers 403 when row level security blocks the update', async () => {
+      readSingle.mockResolvedValue({ data: { settings: openSaturdays }, error: null });
+      updateSingle.mockResolvedValue({ data: null, error: { code: 'PGRST116', message: 'No rows' } });
+
+      const response = await putSettings({ timezone: 'UTC' });
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('GET /api/business/settings/versions', () => {
+    it('lists versions newest first with their author', async () => {
+      (BusinessContextDatabase.select as jest.Mock).mockResolvedValue({
+        success: true,
+        data: [versionRecord(1, openSaturdays, { changed_by: null, changed_by_email: null }), versionRecord(2, closedSaturdays)],
+      });
+
+      const response = await listVersions();
+      const { versions } = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(BusinessContextDatabase.select).toHaveBeenCalledWith(
+        'business_settings_versions',
+        '*',
+        {},
+        { businessId: BUSINESS_ID, client: mockClient }
+      );
+      expect(versions.map((v: { version: number }) => v.version)).toEqual([2, 1]);
+      expect(versions[0]).toMatchObject({
+        businessId: BUSINESS_ID,
+        changedBy: 'user-123',
+        changedByEmail: 'recepcion@salon.co',
+        settings: closedSaturdays,
+      });
+      expect(versions[1].changedByEmail).toBeUndefined();
+    });
+
+    it('is limited to members who manage the settings', async () => {
+      withRole('specialist');
+
+      const response = await listVersions();
+
+      expect(response.status).toBe(403);
+      expect(BusinessContextDatabase.select).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/business/settings/versions/[version]/restore', () => {
+    it('rolls back to the version and returns it as the newest one', async () => {
+      mockClient.rpc.mockResolvedValue({
+        data: [versionRecord(3, openSaturdays, { restored_from_version: 1 })],
+        error: null,
+      });
+
+      const response = await restore('1');
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(mockClient.rpc).toHaveBeenCalledWith('restore_business_settings_version', {
+        p_business_id: BUSINESS_ID,
+        p_version: 1,
+      });
+      expect(body.settings).toEqual(openSaturdays);
+      expect(body.version).toMatchObject({ version: 3, restoredFromVersion: 1 });
+    });
+
+    it('answers 404 for a version the business does not have', async () => {
+      mockClient.rpc.mockResolvedValue({ data: null, error: { code: 'P0002', message: 'Settings version 9 not found' } });
+
+      const response = await restore('9');
+
+      expect(response.status).toBe(404);
+    });
+
+    it('answers 403 when the database refuses the rollback', async () => {
+      mockClient.rpc.mockResolvedValue({ data: null, error: { code: '42501', message: 'User cannot change the settings' } });
+
+      const response = await restore('1');
+
+      expect(response.status).toBe(403);
+    });
+
+    it('rejects version numbers that are not positive integers', async () => {
+      const response = await restore('latest');
+
+      expect(response.status).toBe(400);
+      expect(mockClient.rpc).not.toHaveBeenCalled();
+    });
+  });
+});
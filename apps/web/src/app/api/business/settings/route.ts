@@ -1,63 +1,76 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { businessDb } from '@/lib/database';
-import { createServerSupabaseClient } from '@/lib/supabase';
+import { getRequestBusinessContext } from '@/lib/server-business-context';
+import { hasPermission } from '@/lib/business-permissions';
+import {
+  BUSINESS_NOT_FOUND_ERROR,
+  SETTINGS_CHANGE_FORBIDDEN_ERROR,
+  updateBusinessSettings
+} from '@/lib/business-settings';
 import type { BusinessSettings } from '@appointments-demo/types';
+import { SUPPORTED_TIMEZONES } from '@/components/forms/validation-schemas';
+import {
+  isSupportedCurrency,
+  validateBusinessHours,
+  validateDateOverrides,
+  validateReminderSettings
+} from '@appointments-demo/utils';
 
 export async function PUT(request: NextRequest) {
   try {
-    const supabase = createServerSupabaseClient();
-    
-    // Get current user session
-    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
-    
-    if (sessionError || !session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    // The location selected with the business switcher (RLS limits it to the user's own)
+    const contextResult = await getRequestBusinessContext();
+    if (!contextResult.success) {
+      return NextResponse.json({ error: contextResult.error }, { status: contextResult.status });
     }
-
-    // Get user's business ID from business context
-    const { data: businessId, error: contextError } = await supabase.rpc('get_current_business_id');
-    
-    if (contextError || !businessId) {
-      return NextResponse.json({ error: 'Business context not found' }, { status: 404 });
+    const { supabase, businessId, role } = contextResult.context;
+    if (!hasPermission(role, 'settings:manage')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
     // Parse request body
     const body = await request.json();
     const settingsUpdates: Partial<BusinessSettings> = body;
 
-    // Validate business hours if provided
+    // Validate business hours if provided (intervals of a day must not overlap)
     if (settingsUpdates.businessHours) {
-      const validationErrors: string[] = [];
-      
-      settingsUpdates.businessHours.forEach((hour, index) => {
-        // Validate day of week
-        if (hour.dayOfWeek < 0 || hour.dayOfWeek > 6) {
-          validationErrors.push(`Invalid day of week for hour ${index}`);
-        }
-
-        // Validate time format
-        const timeRegex = /^([01]?[0-9]|2[0-3]):[0-5][0-9]$/;
-        if (!timeRegex.test(hour.openTime)) {
-          validationErrors.push(`Invalid open time format for day ${hour.dayOfWeek}`);
-        }
-        if (!timeRegex.test(hour.closeTime)) {
-          validationErrors.push(`Invalid close time format for day ${hour.dayOfWeek}`);
-        }
+      const hoursErrors = validateBusinessHours(settingsUpdates.businessHours);
+      if (hoursErrors.length > 0) {
+        const details: Record<string, string> = {};
+        hoursErrors.forEach(error => {
+          details[`businessHours.${error.dayOfWeek}`] = error.message;
+        });
+        return NextResponse.json(
+          { error: 'Business hours validation failed', details },
+          { status: 400 }
+        );
+      }
+    }
 
-        // Validate that open time is before close time
-        if (hour.isOpen && timeRegex.test(hour.openTime) && timeRegex.test(hour.closeTime)) {
-          const openMinutes = parseInt(hour.openTime.split(':')[0]) * 60 + parseInt(hour.openTime.split(':')[1]);
-          const closeMinutes = parseInt(hour.closeTime.split(':')[0]) * 60 + parseInt(hour.closeTime.split(':')[1]);
-          
-          if (openMinutes >= closeMinutes) {
-            validationErrors.push(`Close time must be after open time for day ${hour.dayOfWeek}`);
-          }
-        }
-      });
+    // Validate date overrides (closures, custom hours, holiday openings) if provided
+    if (settingsUpdates.dateOverrides) {
+      const overrideErrors = validateDateOverrides(settingsUpdates.dateOverrides);
+      if (overrideErrors.length > 0) {
+        const details: Record<string, string> = {};
+        overrideErrors.forEach(error => {
+          details[`dateOverrides.${error.date}`] = error.message;
+        });
+        return NextResponse.json(
+          { error: 'Date overrides validation failed', details },
+          { status: 400 }
+        );
+      }
+    }
 
-      if (validationErrors.length > 0) {
+    // Validate reminder offsets, channels and quiet hours if provided
+    if (settingsUpdates.reminders) {
+      const reminderErrors = validateReminderSettings(settingsUpdates.reminders);
+      if (reminderErrors.length > 0) {
+        const details: Record<string, string> = {};
+        reminderErrors.forEach(error => {
+          details[`reminders.${error.field}`] = error.message;
+        });
         return NextResponse.json(
-          { error: 'Business hours validation failed', details: validationErrors },
+          { error: 'Reminder settings validation failed', details },
           { status: 400 }
         );
       }
@@ -65,15 +78,7 @@ export async function PUT(request: NextRequest) {
 
     // Validate timezone if provided
     if (settingsUpdates.timezone) {
-      const validTimezones = [
-        'America/Bogota',
-        'America/New_York', 
-        'America/Los_Angeles',
-        'Europe/Madrid',
-        'UTC'
-      ];
-      
-      if (!validTimezones.includes(settingsUpdates.timezone)) {
+      if (!SUPPORTED_TIMEZONES.includes(settingsUpdates.timezone)) {
         return NextResponse.json(
           { error: 'Invalid timezone' },
           { status: 400 }
@@ -81,35 +86,31 @@ export async function PUT(request: NextRequest) {
       }
     }
 
-    // Validate currency (should be COP for Colombian businesses)
-    if (settingsUpdates.currency && settingsUpdates.currency !== 'COP') {
+    // Validate currency (COP, USD or EUR)
+    if (settingsUpdates.currency && !isSupportedCurrency(settingsUpdates.currency)) {
       return NextResponse.json(
-        { error: 'Only COP currency is supported for Colombian businesses' },
+        { error: 'Unsupported currency' },
         { status: 400 }
       );
     }
 
-    // Set business context for RLS
-    await businessDb.setBusinessContext(businessId);
+    // Saved with the user's session so the new settings version records its author
+    const result = await updateBusinessSettings(settingsUpdates, { businessId, client: supabase });
 
-    // Update business settings
-    await businessDb.updateSettings(businessId, settingsUpdates);
-
-    // Get updated business to return complete settings
-    const business = await businessDb.getById(businessId);
-    
-    if (!business) {
-      return NextResponse.json({ error: 'Business not found' }, { status: 404 });
+    if (!result.success || !result.data) {
+      if (result.error === BUSINESS_NOT_FOUND_ERROR) {
+        return NextResponse.json({ error: 'Business not found' }, { status: 404 });
+      }
+      if (result.error === SETTINGS_CHANGE_FORBIDDEN_ERROR) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+      }
+      console.error('Error updating business settings:', result.error);
+      return NextResponse.json({ error: 'Failed to update business settings' }, { status: 500 });
     }
 
-    return NextResponse.json({ settings: business.settings });
+    return NextResponse.json({ settings: result.data });
   } catch (error) {
     console.error('Error updating business settings:', error);
-    
-    if (error instanceof Error && error.message.includes('not found')) {
-      return NextResponse.json({ error: 'Business not found' }, { status: 404 });
-    }
-    
     return NextResponse.json(
       { error: 'Internal server error' },
       { status: 500 }
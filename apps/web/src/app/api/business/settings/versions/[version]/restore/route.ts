@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestBusinessContext } from '@/lib/server-business-context';
+import { hasPermission } from '@/lib/business-permissions';
+import {
+  SETTINGS_CHANGE_FORBIDDEN_ERROR,
+  SETTINGS_VERSION_NOT_FOUND_ERROR,
+  restoreSettingsVersion
+} from '@/lib/business-settings';
+import { toDomainSettingsVersion } from '@/lib/database.types';
+
+interface RouteParams {
+  params: Promise<{ version: string }>;
+}
+
+/**
+ * Roll the settings of the current business back to an earlier version.
+ * The rollback is saved as a new version: { settings, version }
+ */
+export async function POST(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const version = Number((await params).version);
+    if (!Number.isInteger(version) || version < 1) {
+      return NextResponse.json({ error: 'Invalid settings version' }, { status: 400 });
+    }
+
+    const contextResult = await getRequestBusinessContext();
+    if (!contextResult.success) {
+      return NextResponse.json({ error: contextResult.error }, { status: contextResult.status });
+    }
+    const { supabase, businessId, role } = contextResult.context;
+    if (!hasPermission(role, 'settings:manage')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const result = await restoreSettingsVersion(version, { businessId, client: supabase });
+
+    if (!result.success || !result.data) {
+      if (result.error === SETTINGS_VERSION_NOT_FOUND_ERROR) {
+        return NextResponse.json({ error: SETTINGS_VERSION_NOT_FOUND_ERROR }, { status: 404 });
+      }
+      if (result.error === SETTINGS_CHANGE_FORBIDDEN_ERROR) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+      }
+      console.error('Error restoring settings version:', result.error);
+      return NextResponse.json({ error: 'Failed to restore settings version' }, { status: 500 });
+    }
+
+    const restored = toDomainSettingsVersion(result.data);
+    return NextResponse.json({ settings: restored.settings, version: restored });
+  } catch (error) {
+    console.error('Error restoring settings version:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
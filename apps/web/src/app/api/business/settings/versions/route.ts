@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { getRequestBusinessContext } from '@/lib/server-business-context';
+import { hasPermission } from '@/lib/business-permissions';
+import { listSettingsVersions } from '@/lib/business-settings';
+import { toDomainSettingsVersion } from '@/lib/database.types';
+
+/**
+ * List the settings versions of the current business, newest first
+ */
+export async function GET() {
+  try {
+    const contextResult = await getRequestBusinessContext();
+    if (!contextResult.success) {
+      return NextResponse.json({ error: contextResult.error }, { status: contextResult.status });
+    }
+    const { supabase, businessId, role } = contextResult.context;
+    if (!hasPermission(role, 'settings:manage')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const result = await listSettingsVersions({ businessId, client: supabase });
+
+    if (!result.success) {
+      console.error('Error fetching settings versions:', result.error);
+      return NextResponse.json({ error: 'Failed to fetch settings versions' }, { status: 500 });
+    }
+
+    return NextResponse.json({ versions: (result.data || []).map(toDomainSettingsVersion) });
+  } catch (error) {
+    console.error('Error fetching settings versions:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
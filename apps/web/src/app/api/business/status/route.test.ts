@@ -0,0 +1,87 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Business Status API Tests
+ *
+ * Tests the /api/business/status handler with the business context resolver mocked
+ */
+
+import { NextRequest } from 'next/server';
+import { GET } from './route';
+import { getRequestBusinessContext, getRequestBusinessSettings } from '@/lib/server-business-context';
+import type { BusinessSettings } from '@appointments-demo/types';
+
+jest.mock('@/lib/server-business-context', () => ({
+  getRequestBusinessContext: jest.fn(),
+  getRequestBusinessSettings: jest.fn(),
+}));
+
+const BUSINESS_ID = '12345678-1234-5678-9abc-123456789012';
+
+const settings: BusinessSettings = {
+  timezone: 'America/Bogota',
+  currency: 'COP',
+  businessHours: [1, 2, 3, 4, 5].map(dayOfWeek => ({
+    dayOfWeek,
+    intervals: [{ openTime: '08:00', closeTime: '18:00' }],
+    isOpen: true,
+  })),
+  dateOverrides: [{ date: '2025-12-24', type: 'closed', note: 'Nochebuena' }],
+};
+
+const statusRequest = (query = '') =>
+  new NextRequest(`http://localhost:3000/api/business/status${query ? `?${query}` : ''}`);
+
+describe('Business Status API', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getRequestBusinessContext as jest.Mock).mockResolvedValue({
+      success: true,
+      context: { supabase: {}, userId: 'user-123', businessId: BUSINESS_ID, role: 'receptionist' },
+    });
+    (getRequestBusinessSettings as jest.Mock).mockResolvedValue({ success: true, settings });
+  });
+
+  it('reports the business open with its current interval', async () => {
+    // Tuesday 2025-12-23 10:00 in Bogotá
+    const response = await GET(statusRequest('at=2025-12-23T15:00:00Z'));
+    const { status } = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(status).toMatchObject({
+      isOpen: true,
+      reason: 'open',
+      currentInterval: { start: '2025-12-23T13:00:00.000Z', end: '2025-12-23T23:00:00.000Z' },
+    });
+  });
+
+  it('explains closures and when the business opens next', async () => {
+    // Christmas Eve is closed by an override and Christmas is a holiday
+    const response = await GET(statusRequest('at=2025-12-24T15:00:00Z'));
+    const { status } = await response.json();
+
+    expect(status).toMatchObject({
+      isOpen: false,
+      reason: 'override',
+      nextOpening: '2025-12-26T13:00:00.000Z',
+      day: { override: { note: 'Nochebuena' } },
+    });
+  });
+
+  it('rejects an invalid instant', async () => {
+    const response = await GET(statusRequest('at=tomorrow'));
+
+    expect(response.status).toBe(400);
+    expect(getRequestBusinessSettings).not.toHaveBeenCalled();
+  });
+
+  it('passes through the business context error', async () => {
+    (getRequestBusinessContext as jest.Mock).mockResolvedValue({ success: false, error: 'Unauthorized', status: 401 });
+
+    const response = await GET(statusRequest());
+
+    expect(response.status).toBe(401);
+  });
+});
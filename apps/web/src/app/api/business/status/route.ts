@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestBusinessContext, getRequestBusinessSettings } from '@/lib/server-business-context';
+import { getBusinessOpenState } from '@appointments-demo/utils';
+
+/**
+ * Whether the current business is open, using its own hours, date overrides and time zone
+ * Query params: at (optional ISO instant, defaults to now)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const contextResult = await getRequestBusinessContext();
+    if (!contextResult.success) {
+      return NextResponse.json({ error: contextResult.error }, { status: contextResult.status });
+    }
+
+    const atParam = request.nextUrl.searchParams.get('at');
+    const at = atParam === null ? new Date() : new Date(atParam);
+    if (isNaN(at.getTime())) {
+      return NextResponse.json({ error: 'Invalid date' }, { status: 400 });
+    }
+
+    const settingsResult = await getRequestBusinessSettings(contextResult.context);
+    if (!settingsResult.success) {
+      return NextResponse.json({ error: settingsResult.error }, { status: 500 });
+    }
+
+    const status = getBusinessOpenState({ settings: settingsResult.settings }, at);
+
+    return NextResponse.json({ status });
+  } catch (error) {
+    console.error('Error computing business status:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,209 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BusinessContextDatabase } from '@/lib/database-operations';
+import { getRequestBusinessContext } from '@/lib/server-business-context';
+import { hasPermission } from '@/lib/business-permissions';
+import {
+  toDomainAppointment,
+  toDomainClient,
+  type AppointmentRecord,
+  type ClientRecord
+} from '@/lib/database.types';
+import { summarizeClientAppointments } from '@/lib/clients';
+import {
+  ClientUpdateSchema,
+  extractValidationErrors,
+  type ClientUpdateData
+} from '@/components/forms/validation-schemas';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Map validated update fields to clients table columns
+function toClientUpdateRecord(updates: ClientUpdateData): Record<string, unknown> {
+  const record: Record<string, unknown> = {};
+
+  if (updates.name !== undefined) record.name = updates.name;
+  if (updates.phone !== undefined) record.phone = updates.phone;
+  if (updates.email !== undefined) record.email = updates.email || null;
+  if (updates.notes !== undefined) record.notes = updates.notes || null;
+
+  return record;
+}
+
+/**
+ * Get a client of the current business with their appointment history, newest first
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const contextResult = await getRequestBusinessContext();
+    if (!contextResult.success) {
+      return NextResponse.json({ error: contextResult.error }, { status: contextResult.status });
+    }
+    const { supabase, businessId } = contextResult.context;
+
+    const result = await BusinessContextDatabase.select<ClientRecord>(
+      'clients',
+      '*',
+      { id },
+      { businessId, client: supabase }
+    );
+
+    if (!result.success) {
+      console.error('Error fetching client:', result.error);
+      return NextResponse.json({ error: 'Failed to fetch client' }, { status: 500 });
+    }
+
+    const record = result.data?.[0];
+    if (!record) {
+      return NextResponse.json({ error: 'Client not found' }, { status: 404 });
+    }
+
+    const appointmentsResult = await BusinessContextDatabase.select<AppointmentRecord>(
+      'appointments',
+      '*',
+      { client_id: id },
+      { businessId, client: supabase }
+    );
+
+    if (!appointmentsResult.success) {
+      console.error('Error fetching client appointments:', appointmentsResult.error);
+      return NextResponse.json({ error: 'Failed to fetch client' }, { status: 500 });
+    }
+
+    const appointments = (appointmentsResult.data || [])
+      .map(toDomainAppointment)
+      .sort((a, b) => b.scheduledAt.getTime() - a.scheduledAt.getTime());
+
+    return NextResponse.json({
+      client: { ...toDomainClient(record), stats: summarizeClientAppointments(appointments) },
+      appointments
+    });
+  } catch (error) {
+    console.error('Error fetching client:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Update a client of the current business
+ * Past appointments keep the contact data they were booked with
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const contextResult = await getRequestBusinessContext();
+    if (!contextResult.success) {
+      return NextResponse.json({ error: contextResult.error }, { status: contextResult.status });
+    }
+    const { supabase, businessId, role } = contextResult.context;
+    if (!hasPermission(role, 'clients:manage')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const validationResult = ClientUpdateSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: extractValidationErrors(validationResult.error) },
+        { status: 400 }
+      );
+    }
+
+    const result = await BusinessContextDatabase.update<ClientRecord>(
+      'clients',
+      id,
+      toClientUpdateRecord(validationResult.data),
+      { businessId, client: supabase }
+    );
+
+    if (!result.success || !result.data) {
+      if (result.error?.includes('not found')) {
+        return NextResponse.json({ error: 'Client not found' }, { status: 404 });
+      }
+      if (result.error?.includes('duplicate key')) {
+        return NextResponse.json(
+          { error: 'Validation failed', details: { phone: 'Ya existe un cliente con este teléfono' } },
+          { status: 409 }
+        );
+      }
+      console.error('Error updating client:', result.error);
+      return NextResponse.json({ error: 'Failed to update client' }, { status: 500 });
+    }
+
+    return NextResponse.json({ client: toDomainClient(result.data) });
+  } catch (error) {
+    console.error('Error updating client:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Delete a client of the current business
+ * Their appointments are kept and become unmatched
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const contextResult = await getRequestBusinessContext();
+    if (!contextResult.success) {
+      return NextResponse.json({ error: contextResult.error }, { status: contextResult.status });
+    }
+    const { supabase, businessId, role } = contextResult.context;
+    if (!hasPermission(role, 'clients:manage')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    // Confirm the client exists in this business before deleting
+    const existing = await BusinessContextDatabase.select<ClientRecord>(
+      'clients',
+      'id',
+      { id },
+      { businessId, client: supabase }
+    );
+
+    if (!existing.success) {
+      console.error('Error fetching client:', existing.error);
+      return NextResponse.json({ error: 'Failed to delete client' }, { status: 500 });
+    }
+
+    if (!existing.data || existing.data.length === 0) {
+      return NextResponse.json({ error: 'Client not found' }, { status: 404 });
+    }
+
+    const result = await BusinessContextDatabase.delete(
+      'clients',
+      id,
+      { businessId, client: supabase }
+    );
+
+    if (!result.success) {
+      console.error('Error deleting client:', result.error);
+      return NextResponse.json({ error: 'Failed to delete client' }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting client:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
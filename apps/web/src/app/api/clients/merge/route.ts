@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestBusinessContext } from '@/lib/server-business-context';
+import { hasPermission } from '@/lib/business-permissions';
+import { toDomainClient } from '@/lib/database.types';
+import { CLIENT_NOT_FOUND_ERROR, mergeClients } from '@/lib/clients';
+import { ClientMergeSchema, extractValidationErrors } from '@/components/forms/validation-schemas';
+
+/**
+ * Merge duplicate clients of the current business into a target client
+ * Body: { targetId, sourceIds } - source clients are deleted after their appointments move
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const contextResult = await getRequestBusinessContext();
+    if (!contextResult.success) {
+      return NextResponse.json({ error: contextResult.error }, { status: contextResult.status });
+    }
+    const { supabase, businessId, role } = contextResult.context;
+    if (!hasPermission(role, 'clients:manage')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const validationResult = ClientMergeSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: extractValidationErrors(validationResult.error) },
+        { status: 400 }
+      );
+    }
+
+    const { targetId, sourceIds } = validationResult.data;
+    const result = await mergeClients(targetId, sourceIds, { businessId, client: supabase });
+
+    if (!result.success || !result.data) {
+      if (result.error === CLIENT_NOT_FOUND_ERROR) {
+        return NextResponse.json({ error: 'Client not found' }, { status: 404 });
+      }
+      console.error('Error merging clients:', result.error);
+      return NextResponse.json({ error: 'Failed to merge clients' }, { status: 500 });
+    }
+
+    return NextResponse.json({ client: toDomainClient(result.data) });
+  } catch (error) {
+    console.error('Error merging clients:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
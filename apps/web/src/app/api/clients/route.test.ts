@@ -0,0 +1,225 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Clients API Tests
+ *
+ * Tests the /api/clients collection, /api/clients/[id] and /api/clients/merge handlers
+ * with the business context resolver, BusinessContextDatabase and merge helper mocked
+ */
+
+import { NextRequest } from 'next/server';
+import { GET, POST } from './route';
+import { GET as GET_CLIENT } from './[id]/route';
+import { POST as MERGE } from './merge/route';
+import { BusinessContextDatabase } from '@/lib/database-operations';
+import { getRequestBusinessContext } from '@/lib/server-business-context';
+import { mergeClients, CLIENT_NOT_FOUND_ERROR } from '@/lib/clients';
+import type { ClientRecord } from '@/lib/database.types';
+
+jest.mock('@/lib/server-business-context', () => ({
+  getRequestBusinessContext: jest.fn(),
+}));
+
+jest.mock('@/lib/database-operations', () => ({
+  BusinessContextDatabase: {
+    select: jest.fn(),
+    insert: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/clients', () => ({
+  ...jest.requireActual('@/lib/clients'),
+  mergeClients: jest.fn(),
+}));
+
+const BUSINESS_ID = '12345678-1234-5678-9abc-123456789012';
+const TARGET_ID = '44444444-4444-4444-8444-444444444444';
+const SOURCE_ID = '55555555-5555-4555-8555-555555555555';
+const mockClient = { from: jest.fn() };
+
+const mockRecord: ClientRecord = {
+  id: TARGET_ID,
+  business_id: BUSINESS_ID,
+  name: 'María Fernanda López',
+  phone: '+57 301 234 5678',
+  email: null,
+  notes: null,
+  created_at: '2025-03-01T10:00:00.000Z',
+  updated_at: '2025-03-01T10:00:00.000Z',
+};
+
+const jsonRequest = (url: string, method: string, body?: unknown) =>
+  new NextRequest(url, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+const routeParams = (id: string) => ({ params: Promise.resolve({ id }) });
+
+describe('Clients API', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getRequestBusinessContext as jest.Mock).mockResolvedValue({
+      success: true,
+      context: { supabase: mockClient, userId: 'user-123', businessId: BUSINESS_ID, role: 'owner' },
+    });
+  });
+
+  describe('GET /api/clients', () => {
+    it('searches without accents and counts no-shows per client', async () => {
+      const other = { ...mockRecord, id: SOURCE_ID, name: 'Jorge Ramírez', phone: '+57 310 555 0000' };
+      (BusinessContextDatabase.select as jest.Mock).mockImplementation(async (table: string) => ({
+        success: true,
+        data: table === 'clients'
+          ? [mockRecord, other]
+          : [
+              { client_id: TARGET_ID, status: 'no_show', scheduled_at: '2025-03-10T14:00:00.000Z' },
+              { client_id: TARGET_ID, status: 'completed', scheduled_at: '2025-04-10T14:00:00.000Z' },
+              { client_id: null, status: 'completed', scheduled_at: '2025-04-11T14:00:00.000Z' },
+            ],
+      }));
+
+      const response = await GET(jsonRequest('http://localhost/api/clients?q=maria', 'GET'));
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.clients).toHaveLength(1);
+      expect(body.clients[0].name).toBe('María Fernanda López');
+      expect(body.clients[0].stats).toEqual({
+        appointmentCount: 2,
+        noShowCount: 1,
+        lastAppointmentAt: '2025-04-10T14:00:00.000Z',
+      });
+    });
+
+    it('finds clients by phone digits', async () => {
+      (BusinessContextDatabase.select as jest.Mock).mockImplementation(async (table: string) => ({
+        success: true,
+        data: table === 'clients' ? [mockRecord] : [],
+      }));
+
+      const response = await GET(jsonRequest('http://localhost/api/clients?q=301-234', 'GET'));
+      const body = await response.json();
+
+      expect(body.clients).toHaveLength(1);
+    });
+  });
+
+  describe('POST /api/clients', () => {
+    it('normalizes the phone before saving', async () => {
+      (BusinessContextDatabase.insert as jest.Mock).mockResolvedValue({ success: true, data: mockRecord });
+
+      const response = await POST(jsonRequest('http://localhost/api/clients', 'POST', {
+        name: 'María Fernanda López',
+        phone: '301 234 5678',
+      }));
+
+      expect(response.status).toBe(201);
+      expect(BusinessContextDatabase.insert).toHaveBeenCalledWith(
+        'clients',
+        expect.objectContaining({ phone: '+57 301 234 5678' }),
+        { businessId: BUSINESS_ID, client: mockClient }
+      );
+    });
+
+    it('returns 409 when the phone is already in the directory', async () => {
+      (BusinessContextDatabase.insert as jest.Mock).mockResolvedValue({
+        success: false,
+        error: 'Database insert error: duplicate key value violates unique constraint "idx_clients_business_phone"',
+      });
+
+      const response = await POST(jsonRequest('http://localhost/api/clients', 'POST', {
+        name: 'Mafe López',
+        phone: '+57 301 234 5678',
+      }));
+      const body = await response.json();
+
+      expect(response.status).toBe(409);
+      expect(body.details.phone).toBeDefined();
+    });
+  });
+
+  describe('GET /api/clients/[id]', () => {
+    it('returns the appointment history newest first', async () => {
+      (BusinessContextDatabase.select as jest.Mock).mockImplementation(async (table: string) => ({
+        success: true,
+        data: table === 'clients'
+          ? [mockRecord]
+          : ['2025-03-10T14:00:00.000Z', '2025-04-10T14:00:00.000Z'].map((scheduledAt, index) => ({
+              id: `appt-${index}`,
+              business_id: BUSINESS_ID,
+              customer_name: mockRecord.name,
+              customer_phone: mockRecord.phone,
+              customer_email: null,
+              client_id: TARGET_ID,
+              service_id: null,
+              service_type: 'Corte',
+              specialist_id: null,
+              scheduled_at: scheduledAt,
+              duration_minutes: 45,
+              status: 'completed',
+              notes: null,
+              created_at: '2025-03-01T10:00:00.000Z',
+              updated_at: '2025-03-01T10:00:00.000Z',
+            })),
+      }));
+
+      const response = await GET_CLIENT(jsonRequest(`http://localhost/api/clients/${TARGET_ID}`, 'GET'), routeParams(TARGET_ID));
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(BusinessContextDatabase.select).toHaveBeenCalledWith(
+        'appointments',
+        '*',
+        { client_id: TARGET_ID },
+        { businessId: BUSINESS_ID, client: mockClient }
+      );
+      expect(body.appointments.map((a: { id: string }) => a.id)).toEqual(['appt-1', 'appt-0']);
+      expect(body.client.stats.appointmentCount).toBe(2);
+    });
+  });
+
+  describe('POST /api/clients/merge', () => {
+    it('merges duplicates into the target client', async () => {
+      (mergeClients as jest.Mock).mockResolvedValue({ success: true, data: mockRecord });
+
+      const response = await MERGE(jsonRequest('http://localhost/api/clients/merge', 'POST', {
+        targetId: TARGET_ID,
+        sourceIds: [SOURCE_ID],
+      }));
+
+      expect(response.status).toBe(200);
+      expect(mergeClients).toHaveBeenCalledWith(
+        TARGET_ID,
+        [SOURCE_ID],
+        { businessId: BUSINESS_ID, client: mockClient }
+      );
+    });
+
+    it('rejects merging a client into itself', async () => {
+      const response = await MERGE(jsonRequest('http://localhost/api/clients/merge', 'POST', {
+        targetId: TARGET_ID,
+        sourceIds: [TARGET_ID],
+      }));
+
+      expect(response.status).toBe(400);
+      expect(mergeClients).not.toHaveBeenCalled();
+    });
+
+    it('returns 404 when a client belongs to another business', async () => {
+      (mergeClients as jest.Mock).mockResolvedValue({ success: false, error: CLIENT_NOT_FOUND_ERROR });
+
+      const response = await MERGE(jsonRequest('http://localhost/api/clients/merge', 'POST', {
+        targetId: TARGET_ID,
+        sourceIds: [SOURCE_ID],
+      }));
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
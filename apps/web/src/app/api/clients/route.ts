@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BusinessContextDatabase } from '@/lib/database-operations';
+import { getRequestBusinessContext } from '@/lib/server-business-context';
+import { hasPermission } from '@/lib/business-permissions';
+import { toClientRecord, toDomainClient, type AppointmentRecord, type ClientRecord } from '@/lib/database.types';
+import { matchesClientSearch, summarizeClientAppointments } from '@/lib/clients';
+import { ClientCreateSchema, extractValidationErrors } from '@/components/forms/validation-schemas';
+
+type ClientAppointmentRecord = Pick<AppointmentRecord, 'client_id' | 'status' | 'scheduled_at'>;
+
+/**
+ * List the client directory of the current business with appointment totals
+ * Optional query param: q to search by name, email or phone (accent-insensitive)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const contextResult = await getRequestBusinessContext();
+    if (!contextResult.success) {
+      return NextResponse.json({ error: contextResult.error }, { status: contextResult.status });
+    }
+    const { supabase, businessId } = contextResult.context;
+
+    const [clientsResult, appointmentsResult] = await Promise.all([
+      BusinessContextDatabase.select<ClientRecord>('clients', '*', {}, { businessId, client: supabase }),
+      BusinessContextDatabase.select<ClientAppointmentRecord>(
+        'appointments',
+        'client_id, status, scheduled_at',
+        {},
+        { businessId, client: supabase }
+      )
+    ]);
+
+    if (!clientsResult.success || !appointmentsResult.success) {
+      console.error('Error fetching clients:', clientsResult.error || appointmentsResult.error);
+      return NextResponse.json({ error: 'Failed to fetch clients' }, { status: 500 });
+    }
+
+    const appointmentsByClient = new Map<string, ClientAppointmentRecord[]>();
+    (appointmentsResult.data || []).forEach(appointment => {
+      if (!appointment.client_id) return;
+      const list = appointmentsByClient.get(appointment.client_id) || [];
+      list.push(appointment);
+      appointmentsByClient.set(appointment.client_id, list);
+    });
+
+    const query = request.nextUrl.searchParams.get('q') || '';
+    const clients = (clientsResult.data || [])
+      .filter(record => matchesClientSearch(record, query))
+      .map(record => ({
+        ...toDomainClient(record),
+        stats: summarizeClientAppointments(
+          (appointmentsByClient.get(record.id) || []).map(appointment => ({
+            status: appointment.status,
+            scheduledAt: new Date(appointment.scheduled_at)
+          }))
+        )
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name, 'es'));
+
+    return NextResponse.json({ clients });
+  } catch (error) {
+    console.error('Error listing clients:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Add a client to the directory of the current business
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const contextResult = await getRequestBusinessContext();
+    if (!contextResult.success) {
+      return NextResponse.json({ error: contextResult.error }, { status: contextResult.status });
+    }
+    const { supabase, businessId, role } = contextResult.context;
+    if (!hasPermission(role, 'clients:manage')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const validationResult = ClientCreateSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: extractValidationErrors(validationResult.error) },
+        { status: 400 }
+      );
+    }
+
+    const result = await BusinessContextDatabase.insert<ClientRecord>(
+      'clients',
+      { ...toClientRecord(validationResult.data) },
+      { businessId, client: supabase }
+    );
+
+    if (!result.success || !result.data) {
+      // Unique index on (business_id, phone)
+      if (result.error?.includes('duplicate key')) {
+        return NextResponse.json(
+          { error: 'Validation failed', details: { phone: 'Ya existe un cliente con este teléfono' } },
+          { status: 409 }
+        );
+      }
+      console.error('Error creating client:', result.error);
+      return NextResponse.json({ error: 'Failed to create client' }, { status: 500 });
+    }
+
+    return NextResponse.json({ client: toDomainClient(result.data) }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating client:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
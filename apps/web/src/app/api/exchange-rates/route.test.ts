@@ -0,0 +1,122 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Exchange Rates API Tests
+ *
+ * Tests the /api/exchange-rates handlers with the business context
+ * resolver and BusinessContextDatabase mocked
+ */
+
+import { NextRequest } from 'next/server';
+import { GET, PUT } from './route';
+import { BusinessContextDatabase } from '@/lib/database-operations';
+import { getRequestBusinessContext } from '@/lib/server-business-context';
+import type { ExchangeRateRecord } from '@/lib/database.types';
+
+jest.mock('@/lib/server-business-context', () => ({
+  getRequestBusinessContext: jest.fn(),
+}));
+
+jest.mock('@/lib/database-operations', () => ({
+  BusinessContextDatabase: {
+    select: jest.fn(),
+    insert: jest.fn(),
+    update: jest.fn(),
+  },
+}));
+
+const BUSINESS_ID = '12345678-1234-5678-9abc-123456789012';
+const mockClient = { from: jest.fn() };
+
+const mockRecord: ExchangeRateRecord = {
+  id: 'rate-1',
+  business_id: BUSINESS_ID,
+  from_currency: 'USD',
+  to_currency: 'COP',
+  rate: 4100.5,
+  created_at: '2025-03-01T10:00:00.000Z',
+  updated_at: '2025-03-01T10:00:00.000Z',
+};
+
+const jsonRequest = (body: unknown) =>
+  new NextRequest('http://localhost/api/exchange-rates', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+describe('Exchange Rates API', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getRequestBusinessContext as jest.Mock).mockResolvedValue({
+      success: true,
+      context: { supabase: mockClient, userId: 'user-123', businessId: BUSINESS_ID, role: 'owner' },
+    });
+  });
+
+  describe('GET /api/exchange-rates', () => {
+    it('lists the rates of the business as numbers', async () => {
+      (BusinessContextDatabase.select as jest.Mock).mockResolvedValue({ success: true, data: [mockRecord] });
+
+      const response = await GET();
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(BusinessContextDatabase.select).toHaveBeenCalledWith(
+        'exchange_rates',
+        '*',
+        {},
+        { businessId: BUSINESS_ID, client: mockClient }
+      );
+      expect(body.exchangeRates[0]).toMatchObject({ fromCurrency: 'USD', toCurrency: 'COP', rate: 4100.5 });
+    });
+  });
+
+  describe('PUT /api/exchange-rates', () => {
+    it('inserts a rate for a new currency pair', async () => {
+      (BusinessContextDatabase.select as jest.Mock).mockResolvedValue({ success: true, data: [] });
+      (BusinessContextDatabase.insert as jest.Mock).mockResolvedValue({ success: true, data: mockRecord });
+
+      const response = await PUT(jsonRequest({ fromCurrency: 'USD', toCurrency: 'COP', rate: 4100.5 }));
+
+      expect(response.status).toBe(200);
+      expect(BusinessContextDatabase.insert).toHaveBeenCalledWith(
+        'exchange_rates',
+        { from_currency: 'USD', to_currency: 'COP', rate: 4100.5 },
+        { businessId: BUSINESS_ID, client: mockClient }
+      );
+    });
+
+    it('replaces the rate of an existing pair', async () => {
+      (BusinessContextDatabase.select as jest.Mock).mockResolvedValue({ success: true, data: [{ id: 'rate-1' }] });
+      (BusinessContextDatabase.update as jest.Mock).mockResolvedValue({
+        success: true,
+        data: { ...mockRecord, rate: 4200 },
+      });
+
+      const response = await PUT(jsonRequest({ fromCurrency: 'USD', toCurrency: 'COP', rate: 4200 }));
+      const body = await response.json();
+
+      expect(BusinessContextDatabase.update).toHaveBeenCalledWith(
+        'exchange_rates',
+        'rate-1',
+        { rate: 4200 },
+        { businessId: BUSINESS_ID, client: mockClient }
+      );
+      expect(BusinessContextDatabase.insert).not.toHaveBeenCalled();
+      expect(body.exchangeRate.rate).toBe(4200);
+    });
+
+    it('rejects same-currency pairs and non-positive rates', async () => {
+      const samePair = await PUT(jsonRequest({ fromCurrency: 'USD', toCurrency: 'USD', rate: 1 }));
+      const zeroRate = await PUT(jsonRequest({ fromCurrency: 'EUR', toCurrency: 'COP', rate: 0 }));
+
+      expect(samePair.status).toBe(400);
+      expect((await samePair.json()).details.toCurrency).toBe('Las monedas deben ser diferentes');
+      expect(zeroRate.status).toBe(400);
+      expect(BusinessContextDatabase.select).not.toHaveBeenCalled();
+    });
+  });
+});
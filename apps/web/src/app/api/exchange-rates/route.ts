@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestBusinessContext } from '@/lib/server-business-context';
+import { hasPermission } from '@/lib/business-permissions';
+import { toDomainExchangeRate } from '@/lib/database.types';
+import { listExchangeRates, saveExchangeRate } from '@/lib/exchange-rates';
+import { ExchangeRateSchema, extractValidationErrors } from '@/components/forms/validation-schemas';
+
+/**
+ * List the exchange rates configured by the current business
+ */
+export async function GET() {
+  try {
+    const contextResult = await getRequestBusinessContext();
+    if (!contextResult.success) {
+      return NextResponse.json({ error: contextResult.error }, { status: contextResult.status });
+    }
+    const { supabase, businessId } = contextResult.context;
+
+    const result = await listExchangeRates({ businessId, client: supabase });
+
+    if (!result.success) {
+      console.error('Error fetching exchange rates:', result.error);
+      return NextResponse.json({ error: 'Failed to fetch exchange rates' }, { status: 500 });
+    }
+
+    return NextResponse.json({ exchangeRates: (result.data || []).map(toDomainExchangeRate) });
+  } catch (error) {
+    console.error('Error listing exchange rates:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Set the rate of a currency pair for the current business
+ * Body: { fromCurrency, toCurrency, rate } - replaces the previous rate of the pair
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const contextResult = await getRequestBusinessContext();
+    if (!contextResult.success) {
+      return NextResponse.json({ error: contextResult.error }, { status: contextResult.status });
+    }
+    const { supabase, businessId, role } = contextResult.context;
+    if (!hasPermission(role, 'settings:manage')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const validationResult = ExchangeRateSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: extractValidationErrors(validationResult.error) },
+        { status: 400 }
+      );
+    }
+
+    const result = await saveExchangeRate(validationResult.data, { businessId, client: supabase });
+
+    if (!result.success || !result.data) {
+      console.error('Error saving exchange rate:', result.error);
+      return NextResponse.json({ error: 'Failed to save exchange rate' }, { status: 500 });
+    }
+
+    return NextResponse.json({ exchangeRate: toDomainExchangeRate(result.data) });
+  } catch (error) {
+    console.error('Error saving exchange rate:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
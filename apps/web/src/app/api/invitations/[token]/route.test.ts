@@ -0,0 +1,120 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Invitation Acceptance API Tests
+ *
+ * The invitee becomes an active member only when signed in with the invited email
+ */
+
+import { NextRequest } from 'next/server';
+import { POST } from './route';
+import { createServerClientFromRequest } from '@/lib/server-business-context';
+import { createServerSupabaseClient } from '@/lib/supabase';
+
+jest.mock('@/lib/server-business-context', () => ({
+  createServerClientFromRequest: jest.fn(),
+}));
+
+jest.mock('@/lib/supabase', () => ({
+  createServerSupabaseClient: jest.fn(),
+}));
+
+const BUSINESS_ID = '12345678-1234-5678-9abc-123456789012';
+const TOKEN = '9b2f7c1e-4d3a-4b5c-8e6f-0a1b2c3d4e5f';
+
+const invitation = {
+  id: 'member-reception',
+  business_id: BUSINESS_ID,
+  user_id: null,
+  email: 'recepcion@salon.co',
+  role: 'receptionist',
+  status: 'invited',
+  invitation_token: TOKEN,
+  invited_by: 'owner-id',
+  accepted_at: null,
+  created_at: '2025-03-02T10:00:00.000Z',
+  updated_at: '2025-03-02T10:00:00.000Z',
+};
+
+const getUser = jest.fn();
+const update = jest.fn();
+let pendingInvitations: typeof invitation[] = [];
+
+// business_members as seen with the service role: lookup by token, update by id
+const serviceClient = {
+  from: () => ({
+    select: () => ({
+      eq: () => ({
+        eq: () => ({
+          limit: () => Promise.resolve({ data: pendingInvitations, error: null }),
+        }),
+      }),
+    }),
+    update: (values: Record<string, unknown>) => {
+      update(values);
+      return {
+        eq: () => ({
+          select: () => ({
+            single: () => Promise.resolve({ data: { ...invitation, ...values }, error: null }),
+          }),
+        }),
+      };
+    },
+  }),
+};
+
+const acceptRequest = (token: string) => [
+  new NextRequest(`http://localhost/api/invitations/${token}`, { method: 'POST' }),
+  { params: Promise.resolve({ token }) },
+] as const;
+
+describe('POST /api/invitations/[token]', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    pendingInvitations = [invitation];
+    (createServerClientFromRequest as jest.Mock).mockResolvedValue({ auth: { getUser } });
+    (createServerSupabaseClient as jest.Mock).mockReturnValue(serviceClient);
+    getUser.mockResolvedValue({ data: { user: { id: 'reception-user', email: 'Recepcion@salon.co' } }, error: null });
+  });
+
+  it('activates the membership for the invited user', async () => {
+    const response = await POST(...acceptRequest(TOKEN));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(update).toHaveBeenCalledWith(expect.objectContaining({
+      user_id: 'reception-user',
+      status: 'active',
+      invitation_token: null,
+    }));
+    expect(body.member).toMatchObject({ businessId: BUSINESS_ID, role: 'receptionist', status: 'active' });
+  });
+
+  it('returns 403 when signed in with another email', async () => {
+    getUser.mockResolvedValue({ data: { user: { id: 'other-user', email: 'otra@salon.co' } }, error: null });
+
+    const response = await POST(...acceptRequest(TOKEN));
+
+    expect(response.status).toBe(403);
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 for unknown or already accepted invitations', async () => {
+    pendingInvitations = [];
+
+    const response = await POST(...acceptRequest(TOKEN));
+
+    expect(response.status).toBe(404);
+  });
+
+  it('returns 401 without an authenticated user', async () => {
+    getUser.mockResolvedValue({ data: { user: null }, error: null });
+
+    const response = await POST(...acceptRequest(TOKEN));
+
+    expect(response.status).toBe(401);
+    expect(createServerSupabaseClient).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClientFromRequest } from '@/lib/server-business-context';
+import {
+  acceptInvitation,
+  INVITATION_EMAIL_MISMATCH_ERROR,
+  INVITATION_NOT_FOUND_ERROR
+} from '@/lib/business-members';
+import { toDomainBusinessMember } from '@/lib/database.types';
+
+interface RouteParams {
+  params: Promise<{ token: string }>;
+}
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Accept an invitation for the signed-in user, who becomes an active member
+ * The invitee may not belong to any business yet, so no business context is required
+ */
+export async function POST(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { token } = await params;
+
+    const supabase = await createServerClientFromRequest();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!UUID_REGEX.test(token)) {
+      return NextResponse.json({ error: 'Invitation not found' }, { status: 404 });
+    }
+
+    const result = await acceptInvitation(token, { id: user.id, email: user.email ?? '' });
+
+    if (!result.success || !result.data) {
+      if (result.error === INVITATION_NOT_FOUND_ERROR) {
+        return NextResponse.json({ error: 'Invitation not found' }, { status: 404 });
+      }
+      if (result.error === INVITATION_EMAIL_MISMATCH_ERROR) {
+        return NextResponse.json({ error: INVITATION_EMAIL_MISMATCH_ERROR }, { status: 403 });
+      }
+      console.error('Error accepting invitation:', result.error);
+      return NextResponse.json({ error: 'Failed to accept invitation' }, { status: 500 });
+    }
+
+    return NextResponse.json({ member: toDomainBusinessMember(result.data) });
+  } catch (error) {
+    console.error('Error accepting invitation:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
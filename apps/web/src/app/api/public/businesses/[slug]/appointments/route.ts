@@ -0,0 +1,191 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createPublicSupabaseClient, createServerSupabaseClient } from '@/lib/supabase';
+import {
+  PUBLIC_BUSINESS_NOT_FOUND_ERROR,
+  PUBLIC_SLOT_UNAVAILABLE_CODE,
+  bookPublicAppointment,
+  getPublicAvailability,
+  getPublicBusiness,
+  getPublicSpecialist
+} from '@/lib/public-booking';
+import { getBookableService, SERVICE_INACTIVE_ERROR, SERVICE_NOT_FOUND_ERROR } from '@/lib/service-catalog';
+import { SPECIALIST_NOT_FOUND_ERROR } from '@/lib/specialists';
+import { scheduleAppointmentReminders } from '@/lib/reminder-scheduler';
+import { isAppointmentOverlapError } from '@/lib/appointment-conflicts';
+import { createRateLimiter, getClientIp, tooManyRequestsResponse } from '@/lib/rate-limit';
+import { toDomainAppointment } from '@/lib/database.types';
+import { PublicBookingSchema, extractValidationErrors } from '@/components/forms/validation-schemas';
+
+interface RouteParams {
+  params: Promise<{ slug: string }>;
+}
+
+// A visitor books a handful of appointments at most; anything beyond is spam
+const bookingRateLimiter = createRateLimiter({ name: 'public-booking', limit: 5, windowMs: 10 * 60 * 1000 });
+
+/**
+ * Book a PENDING appointment on a business's public page (no authentication).
+ * The time must be one of the slots the availability computation offers.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const rateLimit = await bookingRateLimiter.check(getClientIp(request));
+    if (!rateLimit.allowed) {
+      return tooManyRequestsResponse(rateLimit);
+    }
+
+    const { slug } = await params;
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const validationResult = PublicBookingSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: extractValidationErrors(validationResult.error) },
+        { status: 400 }
+      );
+    }
+    const bookingData = validationResult.data;
+
+    // Visitor reads go through RLS with the anon client
+    const supabase = createPublicSupabaseClient();
+
+    const businessResult = await getPublicBusiness(slug, supabase);
+    if (!businessResult.success || !businessResult.data) {
+      if (businessResult.error === PUBLIC_BUSINESS_NOT_FOUND_ERROR) {
+        return NextResponse.json({ error: 'Business not found' }, { status: 404 });
+      }
+      console.error('Error fetching public business:', businessResult.error);
+      return NextResponse.json({ error: 'Failed to create appointment' }, { status: 500 });
+    }
+    const business = businessResult.data;
+    const options = { businessId: business.id, client: supabase };
+
+    const serviceResult = await getBookableService(bookingData.serviceId, options);
+    if (!serviceResult.success || !serviceResult.data) {
+      if (serviceResult.error === SERVICE_NOT_FOUND_ERROR || serviceResult.error === SERVICE_INACTIVE_ERROR) {
+        return NextResponse.json(
+          { error: 'Validation failed', details: { serviceId: 'El servicio no está disponible' } },
+          { status: 400 }
+        );
+      }
+      console.error('Error fetching service:', serviceResult.error);
+      return NextResponse.json({ error: 'Failed to create appointment' }, { status: 500 });
+    }
+    const service = serviceResult.data;
+
+    let specialist;
+    if (bookingData.specialistId) {
+      const specialistResult = await getPublicSpecialist(business.id, bookingData.specialistId, supabase);
+      if (!specialistResult.success || !specialistResult.data) {
+        if (specialistResult.error === SPECIALIST_NOT_FOUND_ERROR) {
+          return NextResponse.json(
+            { error: 'Validation failed', details: { specialistId: 'El especialista no está disponible' } },
+            { status: 400 }
+          );
+        }
+        console.error('Error fetching specialist:', specialistResult.error);
+        return NextResponse.json({ error: 'Failed to create appointment' }, { status: 500 });
+      }
+
+      specialist = specialistResult.data;
+      if (!(specialist.specialist_services || []).some(link => link.service_id === service.id)) {
+        return NextResponse.json(
+          { error: 'Validation failed', details: { specialistId: 'El especialista no realiza este servicio' } },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Booked times, the booking, the client directory and the reminder queue are only
+    // reached by the service role, after the visitor's input has been validated
+    const backOffice = { businessId: business.id, client: createServerSupabaseClient() };
+
+    // Business hours, holidays and existing appointments all come from the availability computation
+    const scheduledAt = bookingData.scheduledAt;
+    const slotsResult = await getPublicAvailability(
+      {
+        business,
+        service,
+        specialist,
+        from: scheduledAt,
+        to: new Date(scheduledAt.getTime() + service.duration_minutes * 60 * 1000)
+      },
+      backOffice.client
+    );
+    if (!slotsResult.success) {
+      console.error('Error computing public availability:', slotsResult.error);
+      return NextResponse.json({ error: 'Failed to create appointment' }, { status: 500 });
+    }
+    if (!(slotsResult.data || []).some(slot => slot.start.getTime() === scheduledAt.getTime())) {
+      return NextResponse.json(
+        { error: 'Selected time is not available', code: PUBLIC_SLOT_UNAVAILABLE_CODE },
+        { status: 409 }
+      );
+    }
+
+    // The booking function links the appointment to the client directory by phone,
+    // in the same transaction, so a rejected booking leaves no client behind
+    const result = await bookPublicAppointment(
+      {
+        businessId: business.id,
+        serviceId: service.id,
+        specialistId: specialist?.id,
+        customerName: bookingData.customerName,
+        customerPhone: bookingData.customerPhone,
+        customerEmail: bookingData.customerEmail,
+        scheduledAt,
+        notes: bookingData.notes
+      },
+      backOffice.client
+    );
+
+    // Someone else booked the same specialist and time since the slot check
+    if (!result.success && isAppointmentOverlapError(result.error)) {
+      return NextResponse.json(
+        { error: 'Selected time is not available', code: PUBLIC_SLOT_UNAVAILABLE_CODE },
+        { status: 409 }
+      );
+    }
+
+    if (!result.success || !result.data) {
+      console.error('Error creating public appointment:', result.error);
+      return NextResponse.json({ error: 'Failed to create appointment' }, { status: 500 });
+    }
+
+    // Queue the reminders; the booking stands even when the queue cannot be written
+    const remindersResult = await scheduleAppointmentReminders(
+      toDomainAppointment(result.data),
+      { ...backOffice, settings: business.settings }
+    );
+    if (!remindersResult.success) {
+      console.error('Error scheduling appointment reminders:', remindersResult.error);
+    }
+
+    // Only echo back what the visitor entered or chose
+    return NextResponse.json(
+      {
+        appointment: {
+          id: result.data.id,
+          serviceType: result.data.service_type,
+          scheduledAt: new Date(result.data.scheduled_at),
+          duration: result.data.duration_minutes,
+          status: result.data.status,
+          specialistName: specialist?.name
+        }
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating public appointment:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
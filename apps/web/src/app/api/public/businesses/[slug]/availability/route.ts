@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createPublicSupabaseClient, createServerSupabaseClient } from '@/lib/supabase';
+import {
+  PUBLIC_BUSINESS_NOT_FOUND_ERROR,
+  getPublicAvailability,
+  getPublicBusiness,
+  getPublicSpecialist
+} from '@/lib/public-booking';
+import { getBookableService, SERVICE_INACTIVE_ERROR, SERVICE_NOT_FOUND_ERROR } from '@/lib/service-catalog';
+import { SPECIALIST_NOT_FOUND_ERROR } from '@/lib/specialists';
+import { createRateLimiter, getClientIp, tooManyRequestsResponse } from '@/lib/rate-limit';
+
+interface RouteParams {
+  params: Promise<{ slug: string }>;
+}
+
+// Visitors only browse a few days at a time
+const MAX_RANGE_DAYS = 14;
+
+const availabilityRateLimiter = createRateLimiter({ name: 'public-availability', limit: 60, windowMs: 60 * 1000 });
+
+const IdSchema = z.uuid();
+
+/**
+ * Bookable slots of a public business for one of its services
+ * Query params: serviceId, from, to (ISO dates), specialistId (optional)
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const rateLimit = await availabilityRateLimiter.check(getClientIp(request));
+    if (!rateLimit.allowed) {
+      return tooManyRequestsResponse(rateLimit);
+    }
+
+    const { slug } = await params;
+    const { searchParams } = request.nextUrl;
+
+    const from = new Date(searchParams.get('from') ?? '');
+    const to = new Date(searchParams.get('to') ?? '');
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+      return NextResponse.json({ error: 'Invalid date range' }, { status: 400 });
+    }
+    if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+      return NextResponse.json(
+        { error: `Date range cannot exceed ${MAX_RANGE_DAYS} days` },
+        { status: 400 }
+      );
+    }
+
+    const serviceId = searchParams.get('serviceId') ?? '';
+    const specialistId = searchParams.get('specialistId');
+    if (!IdSchema.safeParse(serviceId).success || (specialistId && !IdSchema.safeParse(specialistId).success)) {
+      return NextResponse.json({ error: 'Service not available' }, { status: 400 });
+    }
+
+    const supabase = createPublicSupabaseClient();
+
+    const businessResult = await getPublicBusiness(slug, supabase);
+    if (!businessResult.success || !businessResult.data) {
+      if (businessResult.error === PUBLIC_BUSINESS_NOT_FOUND_ERROR) {
+        return NextResponse.json({ error: 'Business not found' }, { status: 404 });
+      }
+      console.error('Error fetching public business:', businessResult.error);
+      return NextResponse.json({ error: 'Failed to fetch availability' }, { status: 500 });
+    }
+    const business = businessResult.data;
+    const options = { businessId: business.id, client: supabase };
+
+    const serviceResult = await getBookableService(serviceId, options);
+    if (!serviceResult.success || !serviceResult.data) {
+      if (serviceResult.error === SERVICE_NOT_FOUND_ERROR || serviceResult.error === SERVICE_INACTIVE_ERROR) {
+        return NextResponse.json({ error: 'Service not available' }, { status: 400 });
+      }
+      console.error('Error fetching service:', serviceResult.error);
+      return NextResponse.json({ error: 'Failed to fetch availability' }, { status: 500 });
+    }
+
+    let specialist;
+    if (specialistId) {
+      const specialistResult = await getPublicSpecialist(business.id, specialistId, supabase);
+      if (!specialistResult.success || !specialistResult.data) {
+        if (specialistResult.error === SPECIALIST_NOT_FOUND_ERROR) {
+          return NextResponse.json({ error: 'Specialist not available' }, { status: 400 });
+        }
+        console.error('Error fetching specialist:', specialistResult.error);
+        return NextResponse.json({ error: 'Failed to fetch availability' }, { status: 500 });
+      }
+
+      specialist = specialistResult.data;
+      if (!(specialist.specialist_services || []).some(link => link.service_id === serviceId)) {
+        return NextResponse.json({ error: 'Specialist does not perform this service' }, { status: 400 });
+      }
+    }
+
+    // Booked times are only readable by the service role, once the request passed the checks above
+    const slotsResult = await getPublicAvailability(
+      { business, service: serviceResult.data, specialist, from, to },
+      createServerSupabaseClient()
+    );
+    if (!slotsResult.success) {
+      console.error('Error computing public availability:', slotsResult.error);
+      return NextResponse.json({ error: 'Failed to fetch availability' }, { status: 500 });
+    }
+
+    return NextResponse.json({ slots: slotsResult.data });
+  } catch (error) {
+    console.error('Error computing public availability:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
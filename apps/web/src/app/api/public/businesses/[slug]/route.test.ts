@@ -0,0 +1,363 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Public Booking API Tests
+ *
+ * Tests the unauthenticated /api/public/businesses/[slug] handlers (profile,
+ * availability and booking) with the anon and service-role clients and BusinessContextDatabase mocked.
+ * Rate limit counters are kept in memory by the consume_rate_limit mock
+ */
+
+import { NextRequest } from 'next/server';
+import { GET } from './route';
+import { GET as GET_AVAILABILITY } from './availability/route';
+import { POST } from './appointments/route';
+import { BusinessContextDatabase } from '@/lib/database-operations';
+import { createPublicSupabaseClient, createServerSupabaseClient } from '@/lib/supabase';
+import { scheduleAppointmentReminders } from '@/lib/reminder-scheduler';
+import type { ServiceRecord, SpecialistWithServicesRecord } from '@/lib/database.types';
+
+jest.mock('@/lib/supabase', () => ({
+  createPublicSupabaseClient: jest.fn(),
+  createServerSupabaseClient: jest.fn(),
+}));
+
+jest.mock('@/lib/database-operations', () => ({
+  BusinessContextDatabase: {
+    select: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/reminder-scheduler', () => ({
+  scheduleAppointmentReminders: jest.fn(),
+}));
+
+const BUSINESS_ID = '12345678-1234-5678-9abc-123456789012';
+const SERVICE_ID = '33333333-3333-4333-8333-333333333333';
+const SPECIALIST_ID = '44444444-4444-4444-8444-444444444444';
+
+const businessRecord = {
+  id: BUSINESS_ID,
+  slug: 'peluqueria-la-70',
+  name: 'Peluquería La 70',
+  description: null,
+  city: 'Medellín',
+  department: 'Antioquia',
+  phone: '+57 301 234 5678',
+  settings: {
+    timezone: 'America/Bogota',
+    currency: 'COP',
+    businessHours: [0, 1, 2, 3, 4, 5, 6].map(dayOfWeek => ({
+      dayOfWeek,
+      intervals: [{ openTime: '08:00', closeTime: '18:00' }],
+      isOpen: dayOfWeek !== 0,
+    })),
+  },
+};
+
+const serviceRecord: ServiceRecord = {
+  id: SERVICE_ID,
+  business_id: BUSINESS_ID,
+  name: 'Corte de cabello',
+  description: null,
+  duration_minutes: 60,
+  price: 45000,
+  currency: 'COP',
+  buffer_minutes: 0,
+  is_active: true,
+  created_at: '2025-03-01T10:00:00.000Z',
+  updated_at: '2025-03-01T10:00:00.000Z',
+};
+
+const specialistRecord: SpecialistWithServicesRecord = {
+  id: SPECIALIST_ID,
+  business_id: BUSINESS_ID,
+  name: 'Valentina Ríos',
+  email: 'valentina@correo.co',
+  phone: null,
+  schedule: businessRecord.settings.businessHours,
+  is_active: true,
+  created_at: '2025-03-01T10:00:00.000Z',
+  updated_at: '2025-03-01T10:00:00.000Z',
+  specialist_services: [{ service_id: SERVICE_ID }],
+};
+
+// Monday 2030-03-11, 09:00 in Bogotá
+const SLOT_START = '2030-03-11T14:00:00.000Z';
+
+// businesses lookup by slug goes straight through the anon client, appointments through
+// the functions only the service role may call
+const maybeSingle = jest.fn();
+const bookedTimes = jest.fn();
+const bookAppointment = jest.fn();
+const rateLimitCounts = new Map<string, number>();
+const consumeRateLimit = jest.fn(async ({ p_key, p_limit }: Record<string, unknown>) => {
+  const count = (rateLimitCounts.get(p_key as string) ?? 0) + 1;
+  rateLimitCounts.set(p_key as string, count);
+  return {
+    data: [{ allowed: count <= (p_limit as number), remaining: Math.max((p_limit as number) - count, 0), retry_after_seconds: 60 }],
+    error: null,
+  };
+});
+const publicClient = {
+  from: jest.fn(() => ({
+    select: jest.fn(() => ({
+      eq: jest.fn(() => ({ maybeSingle })),
+    })),
+  })),
+  rpc: jest.fn(),
+};
+const serverFunctions: Record<string, jest.Mock> = {
+  get_public_booked_times: bookedTimes,
+  book_public_appointment: bookAppointment,
+  consume_rate_limit: consumeRateLimit,
+};
+const serverClient = {
+  from: jest.fn(),
+  rpc: jest.fn((name: string, params: Record<string, unknown>) => serverFunctions[name](params)),
+};
+
+let ipCounter = 0;
+const request = (url: string, method = 'GET', body?: unknown, ip = `10.0.0.${++ipCounter}`) =>
+  new NextRequest(url, {
+    method,
+    headers: { 'Content-Type': 'application/json', 'x-forwarded-for': ip },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+const routeParams = (slug: string) => ({ params: Promise.resolve({ slug }) });
+
+const mockTables = (tables: Record<string, unknown[]>) => {
+  (BusinessContextDatabase.select as jest.Mock).mockImplementation((table: string) =>
+    Promise.resolve({ success: true, data: tables[table] ?? [], businessId: BUSINESS_ID })
+  );
+};
+
+const booking = {
+  serviceId: SERVICE_ID,
+  specialistId: SPECIALIST_ID,
+  scheduledAt: SLOT_START,
+  customerName: 'María Fernanda López',
+  customerPhone: '+57 301 234 5678',
+};
+
+describe('Public Booking API', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    rateLimitCounts.clear();
+    (createPublicSupabaseClient as jest.Mock).mockReturnValue(publicClient);
+    (createServerSupabaseClient as jest.Mock).mockReturnValue(serverClient);
+    maybeSingle.mockResolvedValue({ data: businessRecord, error: null });
+    bookedTimes.mockResolvedValue({ data: [], error: null });
+    bookAppointment.mockImplementation(async (params: Record<string, unknown>) => ({
+      data: {
+        id: 'appt-1',
+        service_type: 'Corte de cabello',
+        scheduled_at: params.p_scheduled_at,
+        duration_minutes: 60,
+        status: 'pending',
+      },
+      error: null,
+    }));
+    (scheduleAppointmentReminders as jest.Mock).mockResolvedValue({ success: true, data: [] });
+    mockTables({ services: [serviceRecord], specialists: [specialistRecord] });
+  });
+
+  describe('GET /api/public/businesses/[slug]', () => {
+    it('returns the public profile with active services and specialists only', async () => {
+      const response = await GET(request('http://localhost/api/public/businesses/peluqueria-la-70'), routeParams('peluqueria-la-70'));
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.business).toEqual(expect.objectContaining({ slug: 'peluqueria-la-70', name: 'Peluquería La 70', timezone: 'America/Bogota' }));
+      expect(body.business).not.toHaveProperty('id');
+      expect(body.services).toEqual([
+        { id: SERVICE_ID, name: 'Corte de cabello', duration: 60, price: 45000, currency: 'COP' },
+      ]);
+      expect(body.specialists).toEqual([{ id: SPECIALIST_ID, name: 'Valentina Ríos', serviceIds: [SERVICE_ID] }]);
+      expect(BusinessContextDatabase.select).toHaveBeenCalledWith(
+        'services',
+        '*',
+        { is_active: true },
+        { businessId: BUSINESS_ID, client: publicClient }
+      );
+      expect(BusinessContextDatabase.select).toHaveBeenCalledWith(
+        'specialists',
+        expect.not.stringMatching(/\*|email|phone/),
+        { is_active: true },
+        { businessId: BUSINESS_ID, client: publicClient }
+      );
+    });
+
+    it('returns 404 for an unknown slug', async () => {
+      maybeSingle.mockResolvedValue({ data: null, error: null });
+
+      const response = await GET(request('http://localhost/api/public/businesses/no-existe'), routeParams('no-existe'));
+
+      expect(response.status).toBe(404);
+      expect(BusinessContextDatabase.select).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/public/businesses/[slug]/availability', () => {
+    it('returns the specialist slots from the booked times around the window', async () => {
+      const params = new URLSearchParams({
+        serviceId: SERVICE_ID,
+        specialistId: SPECIALIST_ID,
+        from: '2030-03-11T05:00:00.000Z',
+        to: '2030-03-12T05:00:00.000Z',
+      });
+      bookedTimes.mockResolvedValue({
+        data: [{ scheduled_at: SLOT_START, duration_minutes: 60, status: 'confirmed', buffer_minutes: 30 }],
+        error: null,
+      });
+
+      const response = await GET_AVAILABILITY(
+        request(`http://localhost/api/public/businesses/peluqueria-la-70/availability?${params}`),
+        routeParams('peluqueria-la-70')
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.slots[0].start).toBe('2030-03-11T13:00:00.000Z');
+      // The booking and the buffer of its service stay free
+      const starts = body.slots.map((slot: { start: string }) => slot.start);
+      expect(starts).not.toContain(SLOT_START);
+      expect(starts).not.toContain('2030-03-11T15:00:00.000Z');
+      expect(starts).toContain('2030-03-11T15:30:00.000Z');
+      expect(serverClient.rpc).toHaveBeenCalledWith('get_public_booked_times', {
+        p_business_id: BUSINESS_ID,
+        p_from: '2030-03-10T13:00:00.000Z',
+        p_to: '2030-03-12T06:00:00.000Z',
+        p_specialist_id: SPECIALIST_ID,
+      });
+    });
+
+    it('rejects a specialist who does not perform the service', async () => {
+      mockTables({ services: [serviceRecord], specialists: [{ ...specialistRecord, specialist_services: [] }] });
+      const params = new URLSearchParams({
+        serviceId: SERVICE_ID,
+        specialistId: SPECIALIST_ID,
+        from: '2030-03-11T05:00:00.000Z',
+        to: '2030-03-12T05:00:00.000Z',
+      });
+
+      const response = await GET_AVAILABILITY(
+        request(`http://localhost/api/public/businesses/peluqueria-la-70/availability?${params}`),
+        routeParams('peluqueria-la-70')
+      );
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('POST /api/public/businesses/[slug]/appointments', () => {
+    it('books a pending appointment for a free slot', async () => {
+      const response = await POST(
+        request('http://localhost/api/public/businesses/peluqueria-la-70/appointments', 'POST', {
+          ...booking,
+          status: 'confirmed',
+        }),
+        routeParams('peluqueria-la-70')
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(body.appointment).toEqual({
+        id: 'appt-1',
+        serviceType: 'Corte de cabello',
+        scheduledAt: SLOT_START,
+        duration: 60,
+        status: 'pending',
+        specialistName: 'Valentina Ríos',
+      });
+      expect(serverClient.rpc).toHaveBeenCalledWith('book_public_appointment', {
+        p_business_id: BUSINESS_ID,
+        p_service_id: SERVICE_ID,
+        p_specialist_id: SPECIALIST_ID,
+        p_client_phone: '+57 301 234 5678',
+        p_customer_name: 'María Fernanda López',
+        p_customer_phone: '+57 301 234 5678',
+        p_customer_email: null,
+        p_scheduled_at: SLOT_START,
+        p_notes: null,
+      });
+      // The anon client cannot call the booking functions
+      expect(publicClient.rpc).not.toHaveBeenCalled();
+      expect(scheduleAppointmentReminders).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'appt-1', status: 'pending' }),
+        { businessId: BUSINESS_ID, client: serverClient, settings: businessRecord.settings }
+      );
+    });
+
+    it('returns 409 when the time is no longer offered', async () => {
+      bookedTimes.mockResolvedValue({
+        data: [{ scheduled_at: SLOT_START, duration_minutes: 30, status: 'pending' }],
+        error: null,
+      });
+
+      const response = await POST(
+        request('http://localhost/api/public/businesses/peluqueria-la-70/appointments', 'POST', booking),
+        routeParams('peluqueria-la-70')
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(409);
+      expect(body.code).toBe('SLOT_UNAVAILABLE');
+      expect(bookAppointment).not.toHaveBeenCalled();
+      // The client directory is only written by the booking function
+      expect(serverClient.from).not.toHaveBeenCalled();
+    });
+
+    it('returns 409 when a concurrent booking takes the slot first', async () => {
+      bookAppointment.mockResolvedValue({
+        data: null,
+        error: { message: 'conflicting key value violates exclusion constraint "appointments_no_specialist_overlap"' },
+      });
+
+      const response = await POST(
+        request('http://localhost/api/public/businesses/peluqueria-la-70/appointments', 'POST', booking),
+        routeParams('peluqueria-la-70')
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(409);
+      expect(body.code).toBe('SLOT_UNAVAILABLE');
+    });
+
+    it('requires a valid Colombian phone', async () => {
+      const response = await POST(
+        request('http://localhost/api/public/businesses/peluqueria-la-70/appointments', 'POST', {
+          ...booking,
+          customerPhone: '12345',
+        }),
+        routeParams('peluqueria-la-70')
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(body.details).toHaveProperty('customerPhone');
+    });
+
+    it('rate limits repeated bookings from the same address', async () => {
+      const statuses: number[] = [];
+      for (let attempt = 0; attempt < 6; attempt++) {
+        const response = await POST(
+          request('http://localhost/api/public/businesses/peluqueria-la-70/appointments', 'POST', {}, '192.168.1.50'),
+          routeParams('peluqueria-la-70')
+        );
+        statuses.push(response.status);
+      }
+
+      expect(statuses.slice(0, 5)).toEqual([400, 400, 400, 400, 400]);
+      expect(statuses[5]).toBe(429);
+      expect(consumeRateLimit).toHaveBeenLastCalledWith({
+        p_key: 'public-booking:192.168.1.50',
+        p_limit: 5,
+        p_window_seconds: 600,
+      });
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createPublicSupabaseClient } from '@/lib/supabase';
+import {
+  PUBLIC_BUSINESS_NOT_FOUND_ERROR,
+  getPublicBusiness,
+  getPublicCatalog,
+  toPublicBusinessProfile
+} from '@/lib/public-booking';
+import { createRateLimiter, getClientIp, tooManyRequestsResponse } from '@/lib/rate-limit';
+
+interface RouteParams {
+  params: Promise<{ slug: string }>;
+}
+
+// Page loads per visitor; generous, only meant to stop scraping
+const profileRateLimiter = createRateLimiter({ name: 'public-profile', limit: 60, windowMs: 60 * 1000 });
+
+/**
+ * Public profile of a business with the services and specialists that can be booked
+ * (no authentication; used by /b/<slug>)
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const rateLimit = await profileRateLimiter.check(getClientIp(request));
+    if (!rateLimit.allowed) {
+      return tooManyRequestsResponse(rateLimit);
+    }
+
+    const { slug } = await params;
+    const supabase = createPublicSupabaseClient();
+
+    const businessResult = await getPublicBusiness(slug, supabase);
+    if (!businessResult.success || !businessResult.data) {
+      if (businessResult.error === PUBLIC_BUSINESS_NOT_FOUND_ERROR) {
+        return NextResponse.json({ error: 'Business not found' }, { status: 404 });
+      }
+      console.error('Error fetching public business:', businessResult.error);
+      return NextResponse.json({ error: 'Failed to fetch business' }, { status: 500 });
+    }
+
+    const catalogResult = await getPublicCatalog(businessResult.data.id, supabase);
+    if (!catalogResult.success || !catalogResult.data) {
+      console.error('Error fetching public catalog:', catalogResult.error);
+      return NextResponse.json({ error: 'Failed to fetch business' }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      business: toPublicBusinessProfile(businessResult.data),
+      services: catalogResult.data.services,
+      specialists: catalogResult.data.specialists
+    });
+  } catch (error) {
+    console.error('Error fetching public business:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Reminder Dispatch API Tests
+ *
+ * Tests the /api/reminders/dispatch handler with the environment, the service-role
+ * client and the reminder scheduler mocked
+ */
+
+import { NextRequest } from 'next/server';
+import { GET, POST } from './route';
+import { env } from '@/lib/env';
+import { createServerSupabaseClient } from '@/lib/supabase';
+import { getReminderTransports } from '@/lib/reminder-channels';
+import { dispatchDueReminders } from '@/lib/reminder-scheduler';
+
+jest.mock('@/lib/env', () => ({
+  env: { reminders: { cronSecret: 'cron-secret' } },
+}));
+
+jest.mock('@/lib/supabase', () => ({
+  createServerSupabaseClient: jest.fn(),
+}));
+
+jest.mock('@/lib/reminder-channels', () => ({
+  getReminderTransports: jest.fn(() => ({})),
+}));
+
+jest.mock('@/lib/reminder-scheduler', () => ({
+  dispatchDueReminders: jest.fn(),
+}));
+
+const mockClient = { from: jest.fn() };
+
+const dispatchRequest = (token?: string, method = 'POST') =>
+  new NextRequest('http://localhost:3000/api/reminders/dispatch', {
+    method,
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
+
+describe('Reminder Dispatch API', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (env.reminders as { cronSecret?: string }).cronSecret = 'cron-secret';
+    (createServerSupabaseClient as jest.Mock).mockReturnValue(mockClient);
+    (dispatchDueReminders as jest.Mock).mockResolvedValue({
+      success: true,
+      data: { sent: 2, skipped: 1, deferred: 0, retrying: 0, failed: 0 },
+    });
+  });
+
+  it('dispatches the due reminders with the service-role client', async () => {
+    const response = await POST(dispatchRequest('cron-secret'));
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.summary).toEqual({ sent: 2, skipped: 1, deferred: 0, retrying: 0, failed: 0 });
+    expect(dispatchDueReminders).toHaveBeenCalledWith({ client: mockClient, transports: {} });
+  });
+
+  it('dispatches on the GET requests of Vercel Cron', async () => {
+    const response = await GET(dispatchRequest('cron-secret', 'GET'));
+
+    expect(response.status).toBe(200);
+    expect(dispatchDueReminders).toHaveBeenCalledTimes(1);
+    expect((await GET(dispatchRequest(undefined, 'GET'))).status).toBe(401);
+  });
+
+  it('warns when no channel has a transport, and not once one does', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const unconfigured = await (await POST(dispatchRequest('cron-secret'))).json();
+    expect(unconfigured.warning).toMatch(/No reminder transport is configured/);
+    expect(warn).toHaveBeenCalledTimes(1);
+
+    (getReminderTransports as jest.Mock).mockReturnValueOnce({ sms: { send: jest.fn() } });
+    const configured = await (await POST(dispatchRequest('cron-secret'))).json();
+    expect(configured.warning).toBeUndefined();
+    expect(warn).toHaveBeenCalledTimes(1);
+
+    warn.mockRestore();
+  });
+
+  it('rejects callers without the cron secret', async () => {
+    expect((await POST(dispatchRequest())).status).toBe(401);
+    expect((await POST(dispatchRequest('wrong-secret'))).status).toBe(401);
+    expect(dispatchDueReminders).not.toHaveBeenCalled();
+  });
+
+  it('is unavailable until a cron secret is configured', async () => {
+    (env.reminders as { cronSecret?: string }).cronSecret = undefined;
+
+    const response = await POST(dispatchRequest('cron-secret'));
+
+    expect(response.status).toBe(503);
+    expect(dispatchDueReminders).not.toHaveBeenCalled();
+  });
+
+  it('returns 500 when the queue cannot be read', async () => {
+    (dispatchDueReminders as jest.Mock).mockResolvedValue({ success: false, error: 'Database select error: timeout' });
+
+    const response = await POST(dispatchRequest('cron-secret'));
+
+    expect(response.status).toBe(500);
+  });
+});
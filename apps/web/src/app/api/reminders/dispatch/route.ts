@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { env } from '@/lib/env';
+import { createServerSupabaseClient } from '@/lib/supabase';
+import { getReminderTransports } from '@/lib/reminder-channels';
+import { dispatchDueReminders } from '@/lib/reminder-scheduler';
+
+const NO_TRANSPORT_WARNING = 'No reminder transport is configured; due reminders stay queued';
+
+/**
+ * Send the reminders that are due, every five minutes (crons in vercel.json; needs a
+ * Vercel plan with crons more often than daily, see README).
+ * Authenticated with the REMINDERS_CRON_SECRET bearer token instead of a user session,
+ * and runs with the service role across every business.
+ */
+async function dispatch(request: NextRequest) {
+  try {
+    const secret = env.reminders.cronSecret;
+    if (!secret) {
+      return NextResponse.json({ error: 'Reminder dispatch is not configured' }, { status: 503 });
+    }
+    if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const transports = getReminderTransports();
+    const hasTransport = Object.keys(transports).length > 0;
+    if (!hasTransport) {
+      console.warn(NO_TRANSPORT_WARNING);
+    }
+
+    const result = await dispatchDueReminders({
+      client: createServerSupabaseClient(),
+      transports
+    });
+
+    if (!result.success || !result.data) {
+      console.error('Error dispatching reminders:', result.error);
+      return NextResponse.json({ error: 'Failed to dispatch reminders' }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      summary: result.data,
+      ...(!hasTransport && { warning: NO_TRANSPORT_WARNING })
+    });
+  } catch (error) {
+    console.error('Error dispatching reminders:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Vercel Cron calls with GET and `Authorization: Bearer $CRON_SECRET`,
+ * so CRON_SECRET is set to the same value as REMINDERS_CRON_SECRET
+ */
+export async function GET(request: NextRequest) {
+  return dispatch(request);
+}
+
+/**
+ * Other schedulers call with POST and the same bearer token
+ */
+export async function POST(request: NextRequest) {
+  return dispatch(request);
+}
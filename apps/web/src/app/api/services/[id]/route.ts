@@ -0,0 +1,186 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BusinessContextDatabase } from '@/lib/database-operations';
+import { getRequestBusinessContext } from '@/lib/server-business-context';
+import { hasPermission } from '@/lib/business-permissions';
+import { toDomainService, type ServiceRecord } from '@/lib/database.types';
+import {
+  ServiceUpdateSchema,
+  extractValidationErrors,
+  type ServiceUpdateData
+} from '@/components/forms/validation-schemas';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Map validated update fields to services table columns
+function toServiceUpdateRecord(updates: ServiceUpdateData): Record<string, unknown> {
+  const record: Record<string, unknown> = {};
+
+  if (updates.name !== undefined) record.name = updates.name;
+  if (updates.description !== undefined) record.description = updates.description || null;
+  if (updates.duration !== undefined) record.duration_minutes = updates.duration;
+  if (updates.price !== undefined) record.price = updates.price;
+  if (updates.currency !== undefined) record.currency = updates.currency;
+  if (updates.bufferMinutes !== undefined) record.buffer_minutes = updates.bufferMinutes;
+  if (updates.isActive !== undefined) record.is_active = updates.isActive;
+
+  return record;
+}
+
+/**
+ * Get a single service of the current business
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const contextResult = await getRequestBusinessContext();
+    if (!contextResult.success) {
+      return NextResponse.json({ error: contextResult.error }, { status: contextResult.status });
+    }
+    const { supabase, businessId } = contextResult.context;
+
+    const result = await BusinessContextDatabase.select<ServiceRecord>(
+      'services',
+      '*',
+      { id },
+      { businessId, client: supabase }
+    );
+
+    if (!result.success) {
+      console.error('Error fetching service:', result.error);
+      return NextResponse.json({ error: 'Failed to fetch service' }, { status: 500 });
+    }
+
+    const record = result.data?.[0];
+    if (!record) {
+      return NextResponse.json({ error: 'Service not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ service: toDomainService(record) });
+  } catch (error) {
+    console.error('Error fetching service:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Update a service of the current business
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const contextResult = await getRequestBusinessContext();
+    if (!contextResult.success) {
+      return NextResponse.json({ error: contextResult.error }, { status: contextResult.status });
+    }
+    const { supabase, businessId, role } = contextResult.context;
+    if (!hasPermission(role, 'catalog:manage')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const validationResult = ServiceUpdateSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: extractValidationErrors(validationResult.error) },
+        { status: 400 }
+      );
+    }
+
+    const result = await BusinessContextDatabase.update<ServiceRecord>(
+      'services',
+      id,
+      toServiceUpdateRecord(validationResult.data),
+      { businessId, client: supabase }
+    );
+
+    if (!result.success || !result.data) {
+      if (result.error?.includes('not found')) {
+        return NextResponse.json({ error: 'Service not found' }, { status: 404 });
+      }
+      if (result.error?.includes('duplicate key')) {
+        return NextResponse.json(
+          { error: 'Validation failed', details: { name: 'Ya existe un servicio con este nombre' } },
+          { status: 409 }
+        );
+      }
+      console.error('Error updating service:', result.error);
+      return NextResponse.json({ error: 'Failed to update service' }, { status: 500 });
+    }
+
+    return NextResponse.json({ service: toDomainService(result.data) });
+  } catch (error) {
+    console.error('Error updating service:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Delete a service of the current business
+ * Past appointments keep their service name; deactivate instead to hide it from booking
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const contextResult = await getRequestBusinessContext();
+    if (!contextResult.success) {
+      return NextResponse.json({ error: contextResult.error }, { status: contextResult.status });
+    }
+    const { supabase, businessId, role } = contextResult.context;
+    if (!hasPermission(role, 'catalog:manage')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    // Confirm the service exists in this business before deleting
+    const existing = await BusinessContextDatabase.select<ServiceRecord>(
+      'services',
+      'id',
+      { id },
+      { businessId, client: supabase }
+    );
+
+    if (!existing.success) {
+      console.error('Error fetching service:', existing.error);
+      return NextResponse.json({ error: 'Failed to delete service' }, { status: 500 });
+    }
+
+    if (!existing.data || existing.data.length === 0) {
+      return NextResponse.json({ error: 'Service not found' }, { status: 404 });
+    }
+
+    const result = await BusinessContextDatabase.delete(
+      'services',
+      id,
+      { businessId, client: supabase }
+    );
+
+    if (!result.success) {
+      console.error('Error deleting service:', result.error);
+      return NextResponse.json({ error: 'Failed to delete service' }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting service:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
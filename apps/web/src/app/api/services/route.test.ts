@@ -0,0 +1,284 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Services API Tests
+ *
+ * Tests the /api/services collection and /api/services/[id] handlers
+ * with the business context resolver and BusinessContextDatabase mocked
+ */
+
+import { NextRequest } from 'next/server';
+import { GET, POST } from './route';
+import { PATCH, DELETE } from './[id]/route';
+import { BusinessContextDatabase } from '@/lib/database-operations';
+import { getRequestBusinessContext, getRequestBusinessSettings } from '@/lib/server-business-context';
+import type { ServiceRecord } from '@/lib/database.types';
+
+jest.mock('@/lib/server-business-context', () => ({
+  getRequestBusinessContext: jest.fn(),
+  getRequestBusinessSettings: jest.fn(),
+}));
+
+jest.mock('@/lib/database-operations', () => ({
+  BusinessContextDatabase: {
+    select: jest.fn(),
+    insert: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+  },
+}));
+
+const BUSINESS_ID = '12345678-1234-5678-9abc-123456789012';
+const mockClient = { from: jest.fn() };
+
+const mockRecord: ServiceRecord = {
+  id: 'service-1',
+  business_id: BUSINESS_ID,
+  name: 'Tinte',
+  description: null,
+  duration_minutes: 90,
+  price: 120000,
+  currency: 'COP',
+  buffer_minutes: 15,
+  is_active: true,
+  created_at: '2025-03-01T10:00:00.000Z',
+  updated_at: '2025-03-01T10:00:00.000Z',
+};
+
+const jsonRequest = (url: string, method: string, body?: unknown) =>
+  new NextRequest(url, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+const routeParams = (id: string) => ({ params: Promise.resolve({ id }) });
+
+describe('Services API', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getRequestBusinessContext as jest.Mock).mockResolvedValue({
+      success: true,
+      context: { supabase: mockClient, userId: 'user-123', businessId: BUSINESS_ID, role: 'owner' },
+    });
+    (getRequestBusinessSettings as jest.Mock).mockResolvedValue({
+      success: true,
+      settings: { timezone: 'America/Bogota', currency: 'COP', businessHours: [] },
+    });
+  });
+
+  describe('GET /api/services', () => {
+    it('lists services sorted by name', async () => {
+      const corte = { ...mockRecord, id: 'service-2', name: 'Corte' };
+      (BusinessContextDatabase.select as jest.Mock).mockResolvedValue({
+        success: true,
+        data: [mockRecord, corte],
+      });
+
+      const response = await GET(jsonRequest('http://localhost/api/services', 'GET'));
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(BusinessContextDatabase.select).toHaveBeenCalledWith(
+        'services',
+        '*',
+        {},
+        { businessId: BUSINESS_ID, client: mockClient }
+      );
+      expect(body.services.map((s: { name: string }) => s.name)).toEqual(['Corte', 'Tinte']);
+      expect(body.services[1]).toMatchObject({ duration: 90, price: 120000, bufferMinutes: 15, isActive: true });
+    });
+
+    it('filters to active services when requested', async () => {
+      (BusinessContextDatabase.select as jest.Mock).mockResolvedValue({ success: true, data: [] });
+
+      await GET(jsonRequest('http://localhost/api/services?active=true', 'GET'));
+
+      expect(BusinessContextDatabase.select).toHaveBeenCalledWith(
+        'services',
+        '*',
+        { is_active: true },
+        expect.any(Object)
+      );
+    });
+  });
+
+  describe('POST /api/services', () => {
+    it('creates a service with defaults for buffer and active flag', async () => {
+      (BusinessContextDatabase.insert as jest.Mock).mockResolvedValue({ success: true, data: mockRecord });
+
+      const response = await POST(jsonRequest('http://localhost/api/services', 'POST', {
+        name: 'Tinte',
+        duration: 90,
+        price: 120000,
+      }));
+
+      expect(response.status).toBe(201);
+      expect(BusinessContextDatabase.insert).toHaveBeenCalledWith(
+        'services',
+        {
+          name: 'Tinte',
+          description: null,
+          duration_minutes: 90,
+          price: 120000,
+          currency: 'COP',
+          buffer_minutes: 0,
+          is_active: true,
+        },
+        { businessId: BUSINESS_ID, client: mockClient }
+      );
+    });
+
+    it('prices the service in the business currency by default', async () => {
+      (getRequestBusinessSettings as jest.Mock).mockResolvedValue({
+        success: true,
+        settings: { timezone: 'America/Bogota', currency: 'USD', businessHours: [] },
+      });
+      (BusinessContextDatabase.insert as jest.Mock).mockResolvedValue({
+        success: true,
+        data: { ...mockRecord, price: 35.5, currency: 'USD' },
+      });
+
+      const response = await POST(jsonRequest('http://localhost/api/services', 'POST', {
+        name: 'Masaje', duration: 60, price: 35.5,
+      }));
+      const body = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(BusinessContextDatabase.insert).toHaveBeenCalledWith(
+        'services',
+        expect.objectContaining({ price: 35.5, currency: 'USD' }),
+        expect.any(Object)
+      );
+      expect(body.service).toMatchObject({ price: 35.5, currency: 'USD' });
+    });
+
+    it('accepts an explicit currency without reading the settings', async () => {
+      (BusinessContextDatabase.insert as jest.Mock).mockResolvedValue({ success: true, data: mockRecord });
+
+      const response = await POST(jsonRequest('http://localhost/api/services', 'POST', {
+        name: 'Masaje', duration: 60, price: 40, currency: 'EUR',
+      }));
+
+      expect(response.status).toBe(201);
+      expect(getRequestBusinessSettings).not.toHaveBeenCalled();
+      expect(BusinessContextDatabase.insert).toHaveBeenCalledWith(
+        'services',
+        expect.objectContaining({ currency: 'EUR' }),
+        expect.any(Object)
+      );
+    });
+
+    it('rejects unsupported currencies and sub-cent prices', async () => {
+      const unsupported = await POST(jsonRequest('http://localhost/api/services', 'POST', {
+        name: 'Masaje', duration: 60, price: 40, currency: 'MXN',
+      }));
+      const subCent = await POST(jsonRequest('http://localhost/api/services', 'POST', {
+        name: 'Masaje', duration: 60, price: 40.555, currency: 'USD',
+      }));
+
+      expect(unsupported.status).toBe(400);
+      expect((await unsupported.json()).details.currency).toBe('Moneda no soportada');
+      expect(subCent.status).toBe(400);
+      expect((await subCent.json()).details.price).toBe('El precio tiene más decimales de los que admite la moneda');
+      expect(BusinessContextDatabase.insert).not.toHaveBeenCalled();
+    });
+
+    it('rejects fractional or negative prices', async () => {
+      const fractional = await POST(jsonRequest('http://localhost/api/services', 'POST', {
+        name: 'Tinte', duration: 90, price: 1200.5,
+      }));
+      const negative = await POST(jsonRequest('http://localhost/api/services', 'POST', {
+        name: 'Tinte', duration: 90, price: -1,
+      }));
+
+      expect(fractional.status).toBe(400);
+      expect(negative.status).toBe(400);
+      expect(BusinessContextDatabase.insert).not.toHaveBeenCalled();
+    });
+
+    it('returns 403 when a receptionist tries to change the catalog', async () => {
+      (getRequestBusinessContext as jest.Mock).mockResolvedValue({
+        success: true,
+        context: { supabase: mockClient, userId: 'user-456', businessId: BUSINESS_ID, role: 'receptionist' },
+      });
+
+      const response = await POST(jsonRequest('http://localhost/api/services', 'POST', {
+        name: 'Manicure',
+        durationMinutes: 30,
+        price: 25000,
+      }));
+
+      expect(response.status).toBe(403);
+      expect(BusinessContextDatabase.insert).not.toHaveBeenCalled();
+    });
+
+    it('returns 409 for duplicate service names', async () => {
+      (BusinessContextDatabase.insert as jest.Mock).mockResolvedValue({
+        success: false,
+        error: 'Database insert error: duplicate key value violates unique constraint "idx_services_business_name"',
+      });
+
+      const response = await POST(jsonRequest('http://localhost/api/services', 'POST', {
+        name: 'Tinte', duration: 90, price: 120000,
+      }));
+      const body = await response.json();
+
+      expect(response.status).toBe(409);
+      expect(body.details.name).toBe('Ya existe un servicio con este nombre');
+    });
+  });
+
+  describe('PATCH /api/services/[id]', () => {
+    it('only updates the fields that were sent', async () => {
+      (BusinessContextDatabase.update as jest.Mock).mockResolvedValue({
+        success: true,
+        data: { ...mockRecord, is_active: false },
+      });
+
+      const response = await PATCH(
+        jsonRequest('http://localhost/api/services/service-1', 'PATCH', { isActive: false }),
+        routeParams('service-1')
+      );
+      const body = await response.json();
+
+      expect(BusinessContextDatabase.update).toHaveBeenCalledWith(
+        'services',
+        'service-1',
+        { is_active: false },
+        { businessId: BUSINESS_ID, client: mockClient }
+      );
+      expect(body.service.isActive).toBe(false);
+    });
+
+    it('returns 404 for services of another business', async () => {
+      (BusinessContextDatabase.update as jest.Mock).mockResolvedValue({
+        success: false,
+        error: 'Record not found or user does not have access to this record',
+      });
+
+      const response = await PATCH(
+        jsonRequest('http://localhost/api/services/other', 'PATCH', { price: 1000 }),
+        routeParams('other')
+      );
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('DELETE /api/services/[id]', () => {
+    it('returns 404 for unknown services', async () => {
+      (BusinessContextDatabase.select as jest.Mock).mockResolvedValue({ success: true, data: [] });
+
+      const response = await DELETE(
+        jsonRequest('http://localhost/api/services/missing', 'DELETE'),
+        routeParams('missing')
+      );
+
+      expect(response.status).toBe(404);
+      expect(BusinessContextDatabase.delete).not.toHaveBeenCalled();
+    });
+  });
+});
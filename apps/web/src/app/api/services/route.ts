@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DEFAULT_CURRENCY, hasValidPrecision } from '@appointments-demo/utils';
+import { BusinessContextDatabase } from '@/lib/database-operations';
+import { getRequestBusinessContext, getRequestBusinessSettings } from '@/lib/server-business-context';
+import { hasPermission } from '@/lib/business-permissions';
+import { toDomainService, toServiceRecord, type ServiceRecord } from '@/lib/database.types';
+import { ServiceCreateSchema, extractValidationErrors } from '@/components/forms/validation-schemas';
+
+/**
+ * List the services catalog of the current business
+ * Optional query param: active=true to only return bookable services
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const contextResult = await getRequestBusinessContext();
+    if (!contextResult.success) {
+      return NextResponse.json({ error: contextResult.error }, { status: contextResult.status });
+    }
+    const { supabase, businessId } = contextResult.context;
+
+    const filters: Record<string, boolean> = {};
+    if (request.nextUrl.searchParams.get('active') === 'true') {
+      filters.is_active = true;
+    }
+
+    const result = await BusinessContextDatabase.select<ServiceRecord>(
+      'services',
+      '*',
+      filters,
+      { businessId, client: supabase }
+    );
+
+    if (!result.success) {
+      console.error('Error fetching services:', result.error);
+      return NextResponse.json({ error: 'Failed to fetch services' }, { status: 500 });
+    }
+
+    const services = (result.data || [])
+      .map(toDomainService)
+      .sort((a, b) => a.name.localeCompare(b.name, 'es'));
+
+    return NextResponse.json({ services });
+  } catch (error) {
+    console.error('Error listing services:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Add a service to the catalog of the current business
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const contextResult = await getRequestBusinessContext();
+    if (!contextResult.success) {
+      return NextResponse.json({ error: contextResult.error }, { status: contextResult.status });
+    }
+    const { supabase, businessId, role } = contextResult.context;
+    if (!hasPermission(role, 'catalog:manage')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const validationResult = ServiceCreateSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: extractValidationErrors(validationResult.error) },
+        { status: 400 }
+      );
+    }
+
+    // Services are priced in the business currency unless another one is given
+    let currency = validationResult.data.currency;
+    if (!currency) {
+      const settingsResult = await getRequestBusinessSettings(contextResult.context);
+      if (!settingsResult.success) {
+        return NextResponse.json({ error: settingsResult.error }, { status: 500 });
+      }
+      currency = settingsResult.settings.currency || DEFAULT_CURRENCY;
+    }
+    if (!hasValidPrecision(validationResult.data.price, currency)) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: { price: 'El precio tiene más decimales de los que admite la moneda' } },
+        { status: 400 }
+      );
+    }
+
+    const result = await BusinessContextDatabase.insert<ServiceRecord>(
+      'services',
+      { ...toServiceRecord({ ...validationResult.data, currency }) },
+      { businessId, client: supabase }
+    );
+
+    if (!result.success || !result.data) {
+      // Unique index on (business_id, lower(name))
+      if (result.error?.includes('duplicate key')) {
+        return NextResponse.json(
+          { error: 'Validation failed', details: { name: 'Ya existe un servicio con este nombre' } },
+          { status: 409 }
+        );
+      }
+      console.error('Error creating service:', result.error);
+      return NextResponse.json({ error: 'Failed to create service' }, { status: 500 });
+    }
+
+    return NextResponse.json({ service: toDomainService(result.data) }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating service:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,232 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BusinessContextDatabase } from '@/lib/database-operations';
+import { getRequestBusinessContext, getRequestBusinessSettings } from '@/lib/server-business-context';
+import { hasPermission } from '@/lib/business-permissions';
+import { toDomainSpecialist, type SpecialistRecord } from '@/lib/database.types';
+import {
+  SPECIALIST_NOT_FOUND_ERROR,
+  SERVICE_BUSINESS_MISMATCH_ERROR,
+  getSpecialist,
+  replaceSpecialistServices,
+  toScheduleErrorDetails
+} from '@/lib/specialists';
+import {
+  SpecialistUpdateSchema,
+  extractValidationErrors,
+  type SpecialistUpdateData
+} from '@/components/forms/validation-schemas';
+import { validateScheduleWithinBusinessHours } from '@appointments-demo/utils';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Map validated update fields to specialists table columns (service links are stored separately)
+function toSpecialistUpdateRecord(updates: SpecialistUpdateData): Record<string, unknown> {
+  const record: Record<string, unknown> = {};
+
+  if (updates.name !== undefined) record.name = updates.name;
+  if (updates.email !== undefined) record.email = updates.email || null;
+  if (updates.phone !== undefined) record.phone = updates.phone || null;
+  if (updates.schedule !== undefined) record.schedule = updates.schedule;
+  if (updates.isActive !== undefined) record.is_active = updates.isActive;
+
+  return record;
+}
+
+/**
+ * Get a single specialist of the current business
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const contextResult = await getRequestBusinessContext();
+    if (!contextResult.success) {
+      return NextResponse.json({ error: contextResult.error }, { status: contextResult.status });
+    }
+    const { supabase, businessId } = contextResult.context;
+
+    const result = await getSpecialist(id, { businessId, client: supabase });
+
+    if (!result.success || !result.data) {
+      if (result.error === SPECIALIST_NOT_FOUND_ERROR) {
+        return NextResponse.json({ error: 'Specialist not found' }, { status: 404 });
+      }
+      console.error('Error fetching specialist:', result.error);
+      return NextResponse.json({ error: 'Failed to fetch specialist' }, { status: 500 });
+    }
+
+    return NextResponse.json({ specialist: toDomainSpecialist(result.data) });
+  } catch (error) {
+    console.error('Error fetching specialist:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Update a specialist of the current business
+ * serviceIds, when sent, replaces the full list of services the specialist performs
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const contextResult = await getRequestBusinessContext();
+    if (!contextResult.success) {
+      return NextResponse.json({ error: contextResult.error }, { status: contextResult.status });
+    }
+    const { supabase, businessId, role } = contextResult.context;
+    if (!hasPermission(role, 'catalog:manage')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const validationResult = SpecialistUpdateSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: extractValidationErrors(validationResult.error) },
+        { status: 400 }
+      );
+    }
+    const updates = validationResult.data;
+
+    if (updates.schedule !== undefined) {
+      const settingsResult = await getRequestBusinessSettings(contextResult.context);
+      if (!settingsResult.success) {
+        return NextResponse.json({ error: settingsResult.error }, { status: 500 });
+      }
+
+      const scheduleErrors = validateScheduleWithinBusinessHours(
+        updates.schedule,
+        settingsResult.settings.businessHours || []
+      );
+      if (scheduleErrors.length > 0) {
+        return NextResponse.json(
+          { error: 'Validation failed', details: toScheduleErrorDetails(scheduleErrors) },
+          { status: 400 }
+        );
+      }
+    }
+
+    const updateRecord = toSpecialistUpdateRecord(updates);
+    if (Object.keys(updateRecord).length > 0) {
+      const result = await BusinessContextDatabase.update<SpecialistRecord>(
+        'specialists',
+        id,
+        updateRecord,
+        { businessId, client: supabase }
+      );
+
+      if (!result.success || !result.data) {
+        if (result.error?.includes('not found')) {
+          return NextResponse.json({ error: 'Specialist not found' }, { status: 404 });
+        }
+        console.error('Error updating specialist:', result.error);
+        return NextResponse.json({ error: 'Failed to update specialist' }, { status: 500 });
+      }
+    } else {
+      // Only the services change; confirm the specialist exists in this business first
+      const existing = await getSpecialist(id, { businessId, client: supabase });
+      if (!existing.success) {
+        if (existing.error === SPECIALIST_NOT_FOUND_ERROR) {
+          return NextResponse.json({ error: 'Specialist not found' }, { status: 404 });
+        }
+        console.error('Error fetching specialist:', existing.error);
+        return NextResponse.json({ error: 'Failed to update specialist' }, { status: 500 });
+      }
+    }
+
+    if (updates.serviceIds !== undefined) {
+      const linksResult = await replaceSpecialistServices(id, updates.serviceIds, { businessId, client: supabase });
+      if (!linksResult.success) {
+        if (linksResult.error === SERVICE_BUSINESS_MISMATCH_ERROR) {
+          return NextResponse.json(
+            { error: 'Validation failed', details: { serviceIds: 'Uno o más servicios no existen en este negocio' } },
+            { status: 400 }
+          );
+        }
+        console.error('Error linking specialist services:', linksResult.error);
+        return NextResponse.json({ error: 'Failed to update specialist' }, { status: 500 });
+      }
+    }
+
+    const result = await getSpecialist(id, { businessId, client: supabase });
+    if (!result.success || !result.data) {
+      console.error('Error fetching specialist:', result.error);
+      return NextResponse.json({ error: 'Failed to fetch specialist' }, { status: 500 });
+    }
+
+    return NextResponse.json({ specialist: toDomainSpecialist(result.data) });
+  } catch (error) {
+    console.error('Error updating specialist:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Delete a specialist of the current business
+ * Their appointments stay booked but become unassigned; deactivate instead to keep them
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const contextResult = await getRequestBusinessContext();
+    if (!contextResult.success) {
+      return NextResponse.json({ error: contextResult.error }, { status: contextResult.status });
+    }
+    const { supabase, businessId, role } = contextResult.context;
+    if (!hasPermission(role, 'catalog:manage')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    // Confirm the specialist exists in this business before deleting
+    const existing = await BusinessContextDatabase.select<SpecialistRecord>(
+      'specialists',
+      'id',
+      { id },
+      { businessId, client: supabase }
+    );
+
+    if (!existing.success) {
+      console.error('Error fetching specialist:', existing.error);
+      return NextResponse.json({ error: 'Failed to delete specialist' }, { status: 500 });
+    }
+
+    if (!existing.data || existing.data.length === 0) {
+      return NextResponse.json({ error: 'Specialist not found' }, { status: 404 });
+    }
+
+    const result = await BusinessContextDatabase.delete(
+      'specialists',
+      id,
+      { businessId, client: supabase }
+    );
+
+    if (!result.success) {
+      console.error('Error deleting specialist:', result.error);
+      return NextResponse.json({ error: 'Failed to delete specialist' }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting specialist:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,231 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Specialists API Tests
+ *
+ * Tests the /api/specialists collection and /api/specialists/[id] handlers
+ * with the business context resolver, BusinessContextDatabase and service links mocked
+ */
+
+import { NextRequest } from 'next/server';
+import { GET, POST } from './route';
+import { PATCH, DELETE } from './[id]/route';
+import { BusinessContextDatabase } from '@/lib/database-operations';
+import { getRequestBusinessContext, getRequestBusinessSettings } from '@/lib/server-business-context';
+import { replaceSpecialistServices, SERVICE_BUSINESS_MISMATCH_ERROR } from '@/lib/specialists';
+import type { SpecialistRecord, SpecialistWithServicesRecord } from '@/lib/database.types';
+
+jest.mock('@/lib/server-business-context', () => ({
+  getRequestBusinessContext: jest.fn(),
+  getRequestBusinessSettings: jest.fn(),
+}));
+
+jest.mock('@/lib/database-operations', () => ({
+  BusinessContextDatabase: {
+    select: jest.fn(),
+    insert: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/specialists', () => ({
+  ...jest.requireActual('@/lib/specialists'),
+  replaceSpecialistServices: jest.fn(),
+}));
+
+const BUSINESS_ID = '12345678-1234-5678-9abc-123456789012';
+const SERVICE_ID = '33333333-3333-4333-8333-333333333333';
+const mockClient = { from: jest.fn() };
+
+const settings = {
+  timezone: 'America/Bogota',
+  currency: 'COP',
+  businessHours: [0, 1, 2, 3, 4, 5, 6].map(dayOfWeek => ({
+    dayOfWeek,
+    intervals: [{ openTime: '08:00', closeTime: '18:00' }],
+    isOpen: dayOfWeek !== 0,
+  })),
+};
+
+const insertedRecord: SpecialistRecord = {
+  id: 'specialist-1',
+  business_id: BUSINESS_ID,
+  name: 'Valentina Ríos',
+  email: null,
+  phone: '+57 301 234 5678',
+  schedule: [{ dayOfWeek: 1, intervals: [{ openTime: '09:00', closeTime: '13:00' }], isOpen: true }],
+  is_active: true,
+  created_at: '2025-03-01T10:00:00.000Z',
+  updated_at: '2025-03-01T10:00:00.000Z',
+};
+
+const mockRecord: SpecialistWithServicesRecord = {
+  ...insertedRecord,
+  specialist_services: [{ service_id: SERVICE_ID }],
+};
+
+const jsonRequest = (url: string, method: string, body?: unknown) =>
+  new NextRequest(url, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+const routeParams = (id: string) => ({ params: Promise.resolve({ id }) });
+
+describe('Specialists API', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getRequestBusinessContext as jest.Mock).mockResolvedValue({
+      success: true,
+      context: { supabase: mockClient, userId: 'user-123', businessId: BUSINESS_ID, role: 'owner' },
+    });
+    (getRequestBusinessSettings as jest.Mock).mockResolvedValue({ success: true, settings });
+    (replaceSpecialistServices as jest.Mock).mockImplementation(async (_id: string, serviceIds: string[]) => ({
+      success: true,
+      data: serviceIds,
+      businessId: BUSINESS_ID,
+    }));
+  });
+
+  describe('GET /api/specialists', () => {
+    it('lists specialists with their service ids sorted by name', async () => {
+      const andres = { ...mockRecord, id: 'specialist-2', name: 'Andrés Mejía', specialist_services: [] };
+      (BusinessContextDatabase.select as jest.Mock).mockResolvedValue({
+        success: true,
+        data: [mockRecord, andres],
+      });
+
+      const response = await GET(jsonRequest('http://localhost/api/specialists?active=true', 'GET'));
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(BusinessContextDatabase.select).toHaveBeenCalledWith(
+        'specialists',
+        '*, specialist_services(service_id)',
+        { is_active: true },
+        { businessId: BUSINESS_ID, client: mockClient }
+      );
+      expect(body.specialists.map((s: { name: string }) => s.name)).toEqual(['Andrés Mejía', 'Valentina Ríos']);
+      expect(body.specialists[1].serviceIds).toEqual([SERVICE_ID]);
+    });
+  });
+
+  describe('POST /api/specialists', () => {
+    it('creates a specialist and links their services', async () => {
+      (BusinessContextDatabase.insert as jest.Mock).mockResolvedValue({ success: true, data: insertedRecord });
+
+      const response = await POST(jsonRequest('http://localhost/api/specialists', 'POST', {
+        name: 'Valentina Ríos',
+        phone: '+57 301 234 5678',
+        schedule: mockRecord.schedule,
+        serviceIds: [SERVICE_ID],
+      }));
+      const body = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(BusinessContextDatabase.insert).toHaveBeenCalledWith(
+        'specialists',
+        expect.objectContaining({ name: 'Valentina Ríos', phone: '+57 301 234 5678', is_active: true }),
+        { businessId: BUSINESS_ID, client: mockClient }
+      );
+      expect(replaceSpecialistServices).toHaveBeenCalledWith(
+        'specialist-1',
+        [SERVICE_ID],
+        { businessId: BUSINESS_ID, client: mockClient }
+      );
+      expect(body.specialist.serviceIds).toEqual([SERVICE_ID]);
+    });
+
+    it('rejects schedules outside the business hours', async () => {
+      const response = await POST(jsonRequest('http://localhost/api/specialists', 'POST', {
+        name: 'Valentina Ríos',
+        schedule: [
+          { dayOfWeek: 0, intervals: [{ openTime: '09:00', closeTime: '12:00' }], isOpen: true },
+          { dayOfWeek: 1, intervals: [{ openTime: '07:00', closeTime: '12:00' }], isOpen: true },
+        ],
+      }));
+      const body = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(body.details).toEqual({
+        'schedule.0': 'El negocio está cerrado este día',
+        'schedule.1': 'El horario debe estar entre 08:00 y 18:00',
+      });
+      expect(BusinessContextDatabase.insert).not.toHaveBeenCalled();
+    });
+
+    it('rolls back the specialist when a service belongs to another business', async () => {
+      (BusinessContextDatabase.insert as jest.Mock).mockResolvedValue({ success: true, data: insertedRecord });
+      (BusinessContextDatabase.delete as jest.Mock).mockResolvedValue({ success: true });
+      (replaceSpecialistServices as jest.Mock).mockResolvedValue({
+        success: false,
+        error: SERVICE_BUSINESS_MISMATCH_ERROR,
+        businessId: BUSINESS_ID,
+      });
+
+      const response = await POST(jsonRequest('http://localhost/api/specialists', 'POST', {
+        name: 'Valentina Ríos',
+        serviceIds: [SERVICE_ID],
+      }));
+
+      expect(response.status).toBe(400);
+      expect(BusinessContextDatabase.delete).toHaveBeenCalledWith(
+        'specialists',
+        'specialist-1',
+        { businessId: BUSINESS_ID, client: mockClient }
+      );
+    });
+  });
+
+  describe('PATCH /api/specialists/[id]', () => {
+    it('replaces only the services when no other field is sent', async () => {
+      (BusinessContextDatabase.select as jest.Mock).mockResolvedValue({ success: true, data: [mockRecord] });
+
+      const response = await PATCH(
+        jsonRequest('http://localhost/api/specialists/specialist-1', 'PATCH', { serviceIds: [] }),
+        routeParams('specialist-1')
+      );
+
+      expect(response.status).toBe(200);
+      expect(BusinessContextDatabase.update).not.toHaveBeenCalled();
+      expect(replaceSpecialistServices).toHaveBeenCalledWith(
+        'specialist-1',
+        [],
+        { businessId: BUSINESS_ID, client: mockClient }
+      );
+    });
+
+    it('returns 404 for specialists of another business', async () => {
+      (BusinessContextDatabase.update as jest.Mock).mockResolvedValue({
+        success: false,
+        error: 'Record not found or user does not have access to this record',
+      });
+
+      const response = await PATCH(
+        jsonRequest('http://localhost/api/specialists/other', 'PATCH', { isActive: false }),
+        routeParams('other')
+      );
+
+      expect(response.status).toBe(404);
+      expect(replaceSpecialistServices).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE /api/specialists/[id]', () => {
+    it('returns 404 for unknown specialists', async () => {
+      (BusinessContextDatabase.select as jest.Mock).mockResolvedValue({ success: true, data: [] });
+
+      const response = await DELETE(
+        jsonRequest('http://localhost/api/specialists/missing', 'DELETE'),
+        routeParams('missing')
+      );
+
+      expect(response.status).toBe(404);
+      expect(BusinessContextDatabase.delete).not.toHaveBeenCalled();
+    });
+  });
+});
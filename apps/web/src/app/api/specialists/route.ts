@@ -0,0 +1,149 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BusinessContextDatabase } from '@/lib/database-operations';
+import { getRequestBusinessContext, getRequestBusinessSettings } from '@/lib/server-business-context';
+import { hasPermission } from '@/lib/business-permissions';
+import {
+  toDomainSpecialist,
+  toSpecialistRecord,
+  type SpecialistRecord,
+  type SpecialistWithServicesRecord
+} from '@/lib/database.types';
+import {
+  SPECIALIST_COLUMNS,
+  SERVICE_BUSINESS_MISMATCH_ERROR,
+  replaceSpecialistServices,
+  toScheduleErrorDetails
+} from '@/lib/specialists';
+import { SpecialistCreateSchema, extractValidationErrors } from '@/components/forms/validation-schemas';
+import { validateScheduleWithinBusinessHours } from '@appointments-demo/utils';
+
+/**
+ * List the specialists of the current business with the services they perform
+ * Optional query param: active=true to only return bookable specialists
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const contextResult = await getRequestBusinessContext();
+    if (!contextResult.success) {
+      return NextResponse.json({ error: contextResult.error }, { status: contextResult.status });
+    }
+    const { supabase, businessId } = contextResult.context;
+
+    const filters: Record<string, boolean> = {};
+    if (request.nextUrl.searchParams.get('active') === 'true') {
+      filters.is_active = true;
+    }
+
+    const result = await BusinessContextDatabase.select<SpecialistWithServicesRecord>(
+      'specialists',
+      SPECIALIST_COLUMNS,
+      filters,
+      { businessId, client: supabase }
+    );
+
+    if (!result.success) {
+      console.error('Error fetching specialists:', result.error);
+      return NextResponse.json({ error: 'Failed to fetch specialists' }, { status: 500 });
+    }
+
+    const specialists = (result.data || [])
+      .map(toDomainSpecialist)
+      .sort((a, b) => a.name.localeCompare(b.name, 'es'));
+
+    return NextResponse.json({ specialists });
+  } catch (error) {
+    console.error('Error listing specialists:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Add a specialist to the current business
+ * The schedule must fit within the business hours and services must belong to the business
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const contextResult = await getRequestBusinessContext();
+    if (!contextResult.success) {
+      return NextResponse.json({ error: contextResult.error }, { status: contextResult.status });
+    }
+    const { supabase, businessId, role } = contextResult.context;
+    if (!hasPermission(role, 'catalog:manage')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const validationResult = SpecialistCreateSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: extractValidationErrors(validationResult.error) },
+        { status: 400 }
+      );
+    }
+    const { serviceIds, ...specialistData } = validationResult.data;
+
+    const settingsResult = await getRequestBusinessSettings(contextResult.context);
+    if (!settingsResult.success) {
+      return NextResponse.json({ error: settingsResult.error }, { status: 500 });
+    }
+
+    const scheduleErrors = validateScheduleWithinBusinessHours(
+      specialistData.schedule,
+      settingsResult.settings.businessHours || []
+    );
+    if (scheduleErrors.length > 0) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: toScheduleErrorDetails(scheduleErrors) },
+        { status: 400 }
+      );
+    }
+
+    const result = await BusinessContextDatabase.insert<SpecialistRecord>(
+      'specialists',
+      { ...toSpecialistRecord(specialistData) },
+      { businessId, client: supabase }
+    );
+
+    if (!result.success || !result.data) {
+      console.error('Error creating specialist:', result.error);
+      return NextResponse.json({ error: 'Failed to create specialist' }, { status: 500 });
+    }
+
+    const linksResult = await replaceSpecialistServices(result.data.id, serviceIds, { businessId, client: supabase });
+    if (!linksResult.success || !linksResult.data) {
+      // Do not leave a specialist behind without the services that were asked for
+      await BusinessContextDatabase.delete('specialists', result.data.id, { businessId, client: supabase });
+
+      if (linksResult.error === SERVICE_BUSINESS_MISMATCH_ERROR) {
+        return NextResponse.json(
+          { error: 'Validation failed', details: { serviceIds: 'Uno o más servicios no existen en este negocio' } },
+          { status: 400 }
+        );
+      }
+      console.error('Error linking specialist services:', linksResult.error);
+      return NextResponse.json({ error: 'Failed to create specialist' }, { status: 500 });
+    }
+
+    const specialist = toDomainSpecialist({
+      ...result.data,
+      specialist_services: linksResult.data.map(serviceId => ({ service_id: serviceId }))
+    });
+
+    return NextResponse.json({ specialist }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating specialist:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
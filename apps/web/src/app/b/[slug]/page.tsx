@@ -0,0 +1,102 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useParams } from 'next/navigation';
+import type { PublicBusinessProfile, PublicService, PublicSpecialist } from '@appointments-demo/types';
+import { PublicBookingForm } from '@/components/booking/public-booking-form';
+
+// Public page: no login, data comes from /api/public/businesses/[slug]
+export const dynamic = 'force-dynamic';
+
+interface BookingPageData {
+  business: PublicBusinessProfile;
+  services: PublicService[];
+  specialists: PublicSpecialist[];
+}
+
+export default function PublicBookingPage() {
+  const { slug } = useParams<{ slug: string }>();
+  const [data, setData] = useState<BookingPageData | null>(null);
+  const [notFound, setNotFound] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchBusiness = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await fetch(`/api/public/businesses/${encodeURIComponent(slug)}`);
+
+      if (response.status === 404) {
+        setNotFound(true);
+        return;
+      }
+      if (!response.ok) {
+        throw new Error('Failed to fetch business');
+      }
+
+      setData(await response.json());
+    } catch (err) {
+      console.error('Error fetching business:', err);
+      setError('Error al cargar el negocio');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [slug]);
+
+  useEffect(() => {
+    fetchBusiness();
+  }, [fetchBusiness]);
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-10">
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
+        {error && (
+          <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4">
+            <p className="text-red-600">{error}</p>
+            <button
+              onClick={fetchBusiness}
+              className="mt-2 text-sm font-medium text-red-700 underline"
+            >
+              Intentar de nuevo
+            </button>
+          </div>
+        )}
+
+        {notFound ? (
+          <div className="bg-white shadow rounded-lg p-6 text-center text-gray-600">
+            No encontramos este negocio. Revisa el enlace que te compartieron.
+          </div>
+        ) : isLoading || !data ? (
+          !error && (
+            <div className="animate-pulse bg-white shadow rounded-lg p-6">
+              <div className="h-6 bg-gray-200 rounded w-1/3 mb-4"></div>
+              <div className="h-4 bg-gray-200 rounded w-2/3"></div>
+            </div>
+          )
+        ) : (
+          <>
+            <div className="mb-8">
+              <h1 className="text-2xl font-bold leading-7 text-gray-900 sm:text-3xl">
+                {data.business.name}
+              </h1>
+              <p className="mt-1 text-sm text-gray-500">
+                {data.business.city}, {data.business.department} · {data.business.phone}
+              </p>
+              {data.business.description && (
+                <p className="mt-3 text-sm text-gray-700">{data.business.description}</p>
+              )}
+            </div>
+
+            <PublicBookingForm
+              business={data.business}
+              services={data.services}
+              specialists={data.specialists}
+            />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { useAuth } from '@/lib/auth-provider';
+
+// Invitation pages are per-user, never statically rendered
+export const dynamic = 'force-dynamic';
+
+const INVITATION_ERRORS: Record<number, string> = {
+  403: 'Esta invitación fue enviada a otro email. Inicia sesión con la cuenta invitada.',
+  404: 'La invitación no existe o ya fue aceptada.',
+};
+
+export default function InvitationPage() {
+  const { token } = useParams<{ token: string }>();
+  const router = useRouter();
+  const { user, isInitialized, setBusinessContext } = useAuth();
+  const [error, setError] = useState<string | null>(null);
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!isInitialized) {
+      return;
+    }
+
+    if (!userId) {
+      router.push(`/login?returnUrl=${encodeURIComponent(`/invitations/${token}`)}`);
+      return;
+    }
+
+    let cancelled = false;
+
+    const accept = async () => {
+      try {
+        const response = await fetch(`/api/invitations/${token}`, { method: 'POST' });
+
+        if (!response.ok) {
+          if (!cancelled) {
+            setError(INVITATION_ERRORS[response.status] ?? 'No se pudo aceptar la invitación. Intenta de nuevo.');
+          }
+          return;
+        }
+
+        const data = await response.json();
+
+        // Work in the business that sent the invitation from now on
+        const result = await setBusinessContext(data.member.businessId);
+        if (result.error) {
+          console.error('Error setting business context after invitation:', result.error);
+        }
+
+        if (!cancelled) {
+          router.push('/dashboard');
+        }
+      } catch (err) {
+        console.error('Error accepting invitation:', err);
+        if (!cancelled) {
+          setError('No se pudo aceptar la invitación. Intenta de nuevo.');
+        }
+      }
+    };
+
+    accept();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isInitialized, userId, token, router, setBusinessContext]);
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col justify-center py-12 sm:px-6 lg:px-8">
+      <div className="sm:mx-auto sm:w-full sm:max-w-md">
+        <div className="bg-white py-8 px-4 shadow sm:rounded-lg sm:px-10 text-center">
+          <h2 className="text-lg font-medium text-gray-900 mb-2">
+            Invitación al equipo
+          </h2>
+          {error ? (
+            <>
+              <p className="text-sm text-red-600 mb-6">{error}</p>
+              <a
+                href="/dashboard"
+                className="w-full flex justify-center py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+              >
+                Ir al panel
+              </a>
+            </>
+          ) : (
+            <p className="text-sm text-gray-600">Aceptando invitación...</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { PublicBookingForm } from './public-booking-form';
+import type { PublicBusinessProfile, PublicService, PublicSpecialist } from '@appointments-demo/types';
+
+global.fetch = jest.fn();
+
+describe('PublicBookingForm', () => {
+  const mockFetch = global.fetch as jest.MockedFunction<typeof fetch>;
+
+  const business: PublicBusinessProfile = {
+    slug: 'peluqueria-la-70',
+    name: 'Peluquería La 70',
+    city: 'Medellín',
+    department: 'Antioquia',
+    phone: '+57 301 234 5678',
+    timezone: 'America/Bogota',
+    businessHours: []
+  };
+
+  const services: PublicService[] = [
+    { id: 'service-1', name: 'Corte de cabello', duration: 45, price: 45000, currency: 'COP' }
+  ];
+
+  const specialists: PublicSpecialist[] = [
+    { id: 'specialist-1', name: 'Valentina Ríos', serviceIds: ['service-1'] }
+  ];
+
+  // 09:00 and 09:45 in Bogotá
+  const slots = [
+    { start: '2030-03-11T14:00:00.000Z', end: '2030-03-11T14:45:00.000Z' },
+    { start: '2030-03-11T14:45:00.000Z', end: '2030-03-11T15:30:00.000Z' }
+  ];
+
+  const jsonResponse = (status: number, body: unknown) =>
+    ({ ok: status < 400, status, json: async () => body }) as Response;
+
+  const fillContact = async (user: ReturnType<typeof userEvent.setup>) => {
+    await user.type(screen.getByLabelText('Nombre *'), 'María Fernanda López');
+    await user.type(screen.getByLabelText('Celular *'), '3012345678');
+  };
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+    mockFetch.mockResolvedValue(jsonResponse(200, { slots }));
+  });
+
+  it('loads the open slots of the selected service', async () => {
+    render(<PublicBookingForm business={business} services={services} specialists={specialists} />);
+
+    expect(await screen.findByRole('button', { name: '09:00' })).toBeInTheDocument();
+    expect(mockFetch.mock.calls[0][0]).toContain('/api/public/businesses/peluqueria-la-70/availability?serviceId=service-1');
+  });
+
+  it('books the chosen slot and shows the confirmation', async () => {
+    const user = userEvent.setup();
+    render(<PublicBookingForm business={business} services={services} specialists={specialists} />);
+
+    await user.click(await screen.findByRole('button', { name: '09:45' }));
+    await fillContact(user);
+
+    mockFetch.mockResolvedValueOnce(jsonResponse(201, {
+      appointment: { id: 'appt-1', serviceType: 'Corte de cabello', scheduledAt: slots[1].start, duration: 45, status: 'pending' }
+    }));
+    await user.click(screen.getByText('Agendar cita'));
+
+    expect(await screen.findByText('¡Solicitud enviada!')).toBeInTheDocument();
+    const [url, init] = mockFetch.mock.calls[mockFetch.mock.calls.length - 1];
+    expect(url).toBe('/api/public/businesses/peluqueria-la-70/appointments');
+    expect(JSON.parse(init!.body as string)).toEqual({
+      serviceId: 'service-1',
+      scheduledAt: slots[1].start,
+      customerName: 'María Fernanda López',
+      customerPhone: '+57 301 234 5678'
+    });
+  });
+
+  it('asks for another time when the slot was taken meanwhile', async () => {
+    const user = userEvent.setup();
+    render(<PublicBookingForm business={business} services={services} specialists={specialists} />);
+
+    await user.click(await screen.findByRole('button', { name: '09:00' }));
+    await fillContact(user);
+
+    mockFetch.mockResolvedValueOnce(jsonResponse(409, { error: 'Selected time is not available' }));
+    await user.click(screen.getByText('Agendar cita'));
+
+    expect(await screen.findByText('Ese horario acaba de ocuparse. Elige otro.')).toBeInTheDocument();
+    await waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(3));
+  });
+
+  it('validates the contact data before submitting', async () => {
+    const user = userEvent.setup();
+    render(<PublicBookingForm business={business} services={services} specialists={specialists} />);
+
+    await screen.findByRole('button', { name: '09:00' });
+    await user.click(screen.getByText('Agendar cita'));
+
+    expect(screen.getByText('Elige un horario')).toBeInTheDocument();
+    expect(screen.getByText('El nombre es requerido')).toBeInTheDocument();
+    expect(screen.getByText('Ingresa un celular válido: +57 XXX XXX XXXX')).toBeInTheDocument();
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+});
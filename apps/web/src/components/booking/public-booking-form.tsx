@@ -0,0 +1,362 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { PublicBusinessProfile, PublicService, PublicSpecialist } from '@appointments-demo/types';
+import { formatMoney } from '@appointments-demo/utils';
+import { ColombianPhoneInput } from '@/components/colombian/phone-input';
+import { getTodayKey, shiftAnchor, startOfDateKey } from '@/components/business/appointment-calendar';
+
+interface PublicBookingFormProps {
+  business: PublicBusinessProfile;
+  services: PublicService[];
+  specialists: PublicSpecialist[];
+}
+
+interface Slot {
+  start: string;
+  end: string;
+}
+
+interface FormData {
+  customerName: string;
+  customerPhone: string;
+  customerEmail: string;
+}
+
+interface FormErrors {
+  slot?: string;
+  customerName?: string;
+  customerPhone?: string;
+  customerEmail?: string;
+  general?: string;
+}
+
+interface Confirmation {
+  serviceType: string;
+  scheduledAt: string;
+  specialistName?: string;
+}
+
+const PHONE_PATTERN = /^\+57 (3\d{2}|60[124-8]) \d{3} \d{4}$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function PublicBookingForm({ business, services, specialists }: PublicBookingFormProps) {
+  const [serviceId, setServiceId] = useState(services[0]?.id ?? '');
+  const [specialistId, setSpecialistId] = useState('');
+  const [date, setDate] = useState(() => getTodayKey(business.timezone));
+  const [slots, setSlots] = useState<Slot[]>([]);
+  const [selectedSlot, setSelectedSlot] = useState<string | null>(null);
+  const [isLoadingSlots, setIsLoadingSlots] = useState(false);
+  const [formData, setFormData] = useState<FormData>({ customerName: '', customerPhone: '', customerEmail: '' });
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [confirmation, setConfirmation] = useState<Confirmation | null>(null);
+
+  const serviceSpecialists = specialists.filter(specialist => specialist.serviceIds.includes(serviceId));
+
+  const formatTime = (iso: string): string =>
+    new Date(iso).toLocaleTimeString('es-CO', { timeZone: business.timezone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' });
+
+  const fetchSlots = useCallback(async () => {
+    if (!serviceId || !date) {
+      setSlots([]);
+      return;
+    }
+
+    try {
+      setIsLoadingSlots(true);
+      setSelectedSlot(null);
+
+      const params = new URLSearchParams({
+        serviceId,
+        from: startOfDateKey(date, business.timezone).toISOString(),
+        to: startOfDateKey(shiftAnchor('day', date, 1), business.timezone).toISOString()
+      });
+      if (specialistId) {
+        params.set('specialistId', specialistId);
+      }
+
+      const response = await fetch(`/api/public/businesses/${business.slug}/availability?${params}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch availability');
+      }
+
+      const data = await response.json();
+      setSlots(data.slots);
+    } catch (err) {
+      console.error('Error fetching availability:', err);
+      setSlots([]);
+      setErrors(prev => ({ ...prev, general: 'No pudimos cargar los horarios disponibles' }));
+    } finally {
+      setIsLoadingSlots(false);
+    }
+  }, [business.slug, business.timezone, serviceId, specialistId, date]);
+
+  useEffect(() => {
+    fetchSlots();
+  }, [fetchSlots]);
+
+  const handleInputChange = (field: keyof FormData, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: undefined }));
+    }
+  };
+
+  const handleServiceChange = (value: string) => {
+    setServiceId(value);
+    // Keep the chosen specialist only if they also perform the new service
+    if (specialistId && !specialists.find(s => s.id === specialistId)?.serviceIds.includes(value)) {
+      setSpecialistId('');
+    }
+  };
+
+  const validateForm = (): boolean => {
+    const newErrors: FormErrors = {};
+
+    if (!selectedSlot) {
+      newErrors.slot = 'Elige un horario';
+    }
+    if (!formData.customerName.trim()) {
+      newErrors.customerName = 'El nombre es requerido';
+    }
+    if (!PHONE_PATTERN.test(formData.customerPhone)) {
+      newErrors.customerPhone = 'Ingresa un celular válido: +57 XXX XXX XXXX';
+    }
+    if (formData.customerEmail.trim() && !EMAIL_PATTERN.test(formData.customerEmail.trim())) {
+      newErrors.customerEmail = 'Email inválido';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(`/api/public/businesses/${business.slug}/appointments`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          serviceId,
+          ...(specialistId && { specialistId }),
+          scheduledAt: selectedSlot,
+          customerName: formData.customerName.trim(),
+          customerPhone: formData.customerPhone,
+          ...(formData.customerEmail.trim() && { customerEmail: formData.customerEmail.trim() })
+        }),
+      });
+
+      if (response.status === 201) {
+        const data = await response.json();
+        setConfirmation(data.appointment);
+        return;
+      }
+
+      if (response.status === 409) {
+        setErrors({ slot: 'Ese horario acaba de ocuparse. Elige otro.' });
+        await fetchSlots();
+      } else if (response.status === 429) {
+        setErrors({ general: 'Demasiados intentos. Espera unos minutos e inténtalo de nuevo.' });
+      } else {
+        const data = await response.json().catch(() => ({}));
+        const details = data.details as Record<string, string> | undefined;
+        setErrors({ ...details, general: details ? undefined : 'No pudimos agendar tu cita. Inténtalo de nuevo.' });
+      }
+    } catch (err) {
+      console.error('Error booking appointment:', err);
+      setErrors({ general: 'No pudimos agendar tu cita. Inténtalo de nuevo.' });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (confirmation) {
+    return (
+      <div className="bg-white shadow rounded-lg p-6 text-center space-y-2">
+        <h3 className="text-lg font-medium text-gray-900">¡Solicitud enviada!</h3>
+        <p className="text-sm text-gray-700">
+          {confirmation.serviceType} el{' '}
+          {new Date(confirmation.scheduledAt).toLocaleString('es-CO', {
+            timeZone: business.timezone,
+            weekday: 'long',
+            day: 'numeric',
+            month: 'long',
+            hour: '2-digit',
+            minute: '2-digit'
+          })}
+          {confirmation.specialistName && ` con ${confirmation.specialistName}`}
+        </p>
+        <p className="text-sm text-gray-500">
+          Tu cita queda pendiente hasta que {business.name} la confirme.
+        </p>
+      </div>
+    );
+  }
+
+  if (services.length === 0) {
+    return (
+      <div className="bg-white shadow rounded-lg p-6 text-center text-gray-600">
+        Este negocio aún no tiene servicios disponibles para reservar en línea.
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white shadow rounded-lg p-6 space-y-6">
+      {errors.general && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-3">
+          <p className="text-sm text-red-600">{errors.general}</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="booking-service" className="block text-sm font-medium text-gray-700 mb-1">
+            Servicio
+          </label>
+          <select
+            id="booking-service"
+            value={serviceId}
+            onChange={(e) => handleServiceChange(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            {services.map(service => (
+              <option key={service.id} value={service.id}>
+                {service.name} · {service.duration} min · {formatMoney(service.price, service.currency)}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {serviceSpecialists.length > 0 && (
+          <div>
+            <label htmlFor="booking-specialist" className="block text-sm font-medium text-gray-700 mb-1">
+              Especialista
+            </label>
+            <select
+              id="booking-specialist"
+              value={specialistId}
+              onChange={(e) => setSpecialistId(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">Cualquiera</option>
+              {serviceSpecialists.map(specialist => (
+                <option key={specialist.id} value={specialist.id}>{specialist.name}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        <div>
+          <label htmlFor="booking-date" className="block text-sm font-medium text-gray-700 mb-1">
+            Fecha
+          </label>
+          <input
+            type="date"
+            id="booking-date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+      </div>
+
+      <fieldset>
+        <legend className="block text-sm font-medium text-gray-700 mb-2">Horario</legend>
+        {isLoadingSlots ? (
+          <p className="text-sm text-gray-500">Buscando horarios…</p>
+        ) : slots.length === 0 ? (
+          <p className="text-sm text-gray-500">No hay horarios disponibles este día. Prueba otra fecha.</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {slots.map(slot => (
+              <button
+                key={slot.start}
+                type="button"
+                aria-pressed={selectedSlot === slot.start}
+                onClick={() => {
+                  setSelectedSlot(slot.start);
+                  setErrors(prev => ({ ...prev, slot: undefined }));
+                }}
+                className={`px-3 py-2 text-sm rounded-md border ${
+                  selectedSlot === slot.start
+                    ? 'bg-blue-600 border-blue-600 text-white'
+                    : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {formatTime(slot.start)}
+              </button>
+            ))}
+          </div>
+        )}
+        {errors.slot && <p className="mt-1 text-sm text-red-600">{errors.slot}</p>}
+      </fieldset>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="booking-name" className="block text-sm font-medium text-gray-700 mb-1">
+            Nombre *
+          </label>
+          <input
+            type="text"
+            id="booking-name"
+            value={formData.customerName}
+            onChange={(e) => handleInputChange('customerName', e.target.value)}
+            className={`w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
+              errors.customerName ? 'border-red-500' : 'border-gray-300'
+            }`}
+          />
+          {errors.customerName && <p className="mt-1 text-sm text-red-600">{errors.customerName}</p>}
+        </div>
+
+        <div>
+          <label htmlFor="booking-phone" className="block text-sm font-medium text-gray-700 mb-1">
+            Celular *
+          </label>
+          <ColombianPhoneInput
+            id="booking-phone"
+            value={formData.customerPhone}
+            onChange={(value) => handleInputChange('customerPhone', value)}
+            error={errors.customerPhone}
+          />
+          {errors.customerPhone && <p className="mt-1 text-sm text-red-600">{errors.customerPhone}</p>}
+        </div>
+
+        <div>
+          <label htmlFor="booking-email" className="block text-sm font-medium text-gray-700 mb-1">
+            Email
+          </label>
+          <input
+            type="email"
+            id="booking-email"
+            value={formData.customerEmail}
+            onChange={(e) => handleInputChange('customerEmail', e.target.value)}
+            className={`w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
+              errors.customerEmail ? 'border-red-500' : 'border-gray-300'
+            }`}
+          />
+          {errors.customerEmail && <p className="mt-1 text-sm text-red-600">{errors.customerEmail}</p>}
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isSubmitting ? 'Agendando...' : 'Agendar cita'}
+        </button>
+      </div>
+    </form>
+  );
+}
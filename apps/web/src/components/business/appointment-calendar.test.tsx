@@ -0,0 +1,154 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { AppointmentCalendar, getCalendarDays } from './appointment-calendar';
+import {
+  AppointmentStatus,
+  type Appointment,
+  type BusinessHours,
+  type Specialist
+} from '@appointments-demo/types';
+import { getColombianHolidays } from '@appointments-demo/utils';
+
+describe('AppointmentCalendar', () => {
+  const businessId = '123e4567-e89b-12d3-a456-426614174000';
+  const timeZone = 'America/Bogota';
+
+  const businessHours: BusinessHours[] = Array.from({ length: 7 }, (_, dayOfWeek) => ({
+    dayOfWeek,
+    intervals: [{ openTime: '08:00', closeTime: '18:00' }],
+    isOpen: dayOfWeek !== 0
+  }));
+
+  const specialist = (id: string, name: string): Specialist => ({
+    id,
+    businessId,
+    name,
+    schedule: [],
+    serviceIds: [],
+    isActive: true,
+    createdAt: new Date('2024-01-15T10:00:00Z'),
+    updatedAt: new Date('2024-01-15T10:00:00Z')
+  });
+
+  const specialists = [specialist('specialist-1', 'Valentina Ríos'), specialist('specialist-2', 'Andrés Gómez')];
+
+  // 2025-03-11 09:00 in Bogotá (UTC-5)
+  const mockAppointment: Appointment = {
+    id: 'appt-1',
+    businessId,
+    customerName: 'María Fernanda López',
+    customerPhone: '+57 301 234 5678',
+    serviceType: 'Corte de cabello',
+    specialistId: 'specialist-1',
+    scheduledAt: new Date('2025-03-11T14:00:00Z'),
+    duration: 45,
+    status: AppointmentStatus.CONFIRMED,
+    createdAt: new Date('2024-01-15T10:00:00Z'),
+    updatedAt: new Date('2024-01-15T10:00:00Z')
+  };
+
+  const renderCalendar = (props: Partial<Parameters<typeof AppointmentCalendar>[0]> = {}) =>
+    render(
+      <AppointmentCalendar
+        view="day"
+        days={['2025-03-11']}
+        appointments={[mockAppointment]}
+        specialists={specialists}
+        businessHours={businessHours}
+        holidays={getColombianHolidays(2025)}
+        timeZone={timeZone}
+        onReschedule={jest.fn()}
+        {...props}
+      />
+    );
+
+  const slot = (container: HTMLElement, selector: string): HTMLElement =>
+    container.querySelector(selector) as HTMLElement;
+
+  it('shows a column per specialist with closed hours shaded', () => {
+    const { container } = renderCalendar();
+
+    expect(screen.getByText('Valentina Ríos')).toBeInTheDocument();
+    expect(screen.getByText('Andrés Gómez')).toBeInTheDocument();
+    expect(screen.getByText('09:00 María Fernanda López')).toBeInTheDocument();
+    expect(slot(container, '[data-column="specialist-1"][data-time="09:00"]')).toHaveAttribute('data-closed', 'false');
+    expect(slot(container, '[data-column="specialist-1"][data-time="17:30"]')).toHaveAttribute('data-closed', 'false');
+    expect(container.querySelector('[data-time="18:00"]')).toBeNull();
+  });
+
+  it('shades the lunch break of a split shift as closed', () => {
+    const splitShifts = businessHours.map(day => ({
+      ...day,
+      intervals: [{ openTime: '08:00', closeTime: '12:00' }, { openTime: '14:00', closeTime: '18:00' }]
+    }));
+    const { container } = renderCalendar({ businessHours: splitShifts });
+
+    expect(slot(container, '[data-column="specialist-1"][data-time="11:30"]')).toHaveAttribute('data-closed', 'false');
+    expect(slot(container, '[data-column="specialist-1"][data-time="12:00"]')).toHaveAttribute('data-closed', 'true');
+    expect(slot(container, '[data-column="specialist-1"][data-time="13:30"]')).toHaveAttribute('data-closed', 'true');
+    expect(slot(container, '[data-column="specialist-1"][data-time="14:00"]')).toHaveAttribute('data-closed', 'false');
+  });
+
+  it('marks Colombian holidays as closed', () => {
+    // San José 2025 is observed on Monday, March 24
+    const { container } = renderCalendar({ view: 'week', days: getCalendarDays('week', '2025-03-24'), appointments: [] });
+
+    expect(screen.getByText('Día de San José')).toBeInTheDocument();
+    expect(slot(container, '[data-date="2025-03-24"][data-time="09:00"]')).toHaveAttribute('data-closed', 'true');
+    expect(slot(container, '[data-date="2025-03-25"][data-time="09:00"]')).toHaveAttribute('data-closed', 'false');
+  });
+
+  it('reschedules to the dropped slot and specialist in the business time zone', () => {
+    const onReschedule = jest.fn();
+    const { container } = renderCalendar({ onReschedule });
+
+    fireEvent.dragStart(screen.getByText('09:00 María Fernanda López'));
+    fireEvent.drop(slot(container, '[data-column="specialist-2"][data-time="15:30"]'));
+
+    expect(onReschedule).toHaveBeenCalledWith(mockAppointment, {
+      scheduledAt: new Date('2025-03-11T20:30:00Z'),
+      specialistId: 'specialist-2'
+    });
+  });
+
+  it('keeps the time of day when dropping on another day of the month', () => {
+    const onReschedule = jest.fn();
+    const { container } = renderCalendar({
+      view: 'month',
+      days: getCalendarDays('month', '2025-03-11'),
+      onReschedule
+    });
+
+    fireEvent.dragStart(screen.getByText('09:00 María Fernanda López'));
+    fireEvent.drop(slot(container, '[data-date="2025-03-13"]'));
+
+    expect(onReschedule).toHaveBeenCalledWith(mockAppointment, {
+      scheduledAt: new Date('2025-03-13T14:00:00Z')
+    });
+  });
+
+  it('closes and opens dates with date overrides', () => {
+    const { container } = renderCalendar({
+      view: 'week',
+      days: getCalendarDays('week', '2025-03-24'),
+      appointments: [],
+      dateOverrides: [
+        { date: '2025-03-24', type: 'custom_hours', intervals: [{ openTime: '09:00', closeTime: '13:00' }] },
+        { date: '2025-03-25', type: 'closed', note: 'Fumigación' }
+      ]
+    });
+
+    expect(slot(container, '[data-date="2025-03-24"][data-time="09:00"]')).toHaveAttribute('data-closed', 'false');
+    expect(slot(container, '[data-date="2025-03-24"][data-time="13:00"]')).toHaveAttribute('data-closed', 'true');
+    expect(slot(container, '[data-date="2025-03-25"][data-time="09:00"]')).toHaveAttribute('data-closed', 'true');
+    expect(screen.getByText('Horario especial')).toBeInTheDocument();
+    expect(screen.getByText('Fumigación')).toBeInTheDocument();
+  });
+
+  it('builds Monday-first weeks covering the whole month', () => {
+    const days = getCalendarDays('month', '2025-03-11');
+
+    expect(days[0]).toBe('2025-02-24');
+    expect(days[days.length - 1]).toBe('2025-04-06');
+    expect(days).toHaveLength(42);
+  });
+});
@@ -0,0 +1,436 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  AppointmentStatus,
+  type Appointment,
+  type BusinessHours,
+  type DateOverride,
+  type Specialist
+} from '@appointments-demo/types';
+import {
+  addDays as addPlainDays,
+  createPlainDate,
+  formatPlainDate,
+  getDayOfWeek,
+  getHoursForDate,
+  getOpenMinuteRanges,
+  getZonedDateParts,
+  toPlainDate,
+  zonedTimeToUtc,
+  type ColombianHoliday,
+  type PlainDate
+} from '@appointments-demo/utils';
+
+export type CalendarView = 'day' | 'week' | 'month';
+
+export interface RescheduleTarget {
+  scheduledAt: Date;
+  specialistId?: string;
+}
+
+interface AppointmentCalendarProps {
+  view: CalendarView;
+  days: string[]; // YYYY-MM-DD in the business time zone, see getCalendarDays
+  appointments: Appointment[];
+  specialists: Specialist[];
+  businessHours: BusinessHours[];
+  dateOverrides?: DateOverride[]; // Closures and special hours on specific dates
+  holidays: ColombianHoliday[];
+  timeZone: string;
+  onReschedule: (appointment: Appointment, target: RescheduleTarget) => void;
+}
+
+// Minutes covered by each row of the day and week grids
+const SLOT_MINUTES = 30;
+const SLOT_HEIGHT_REM = 2.5;
+
+// Grid bounds when the business has no open days configured
+const DEFAULT_START_MINUTES = 8 * 60;
+const DEFAULT_END_MINUTES = 18 * 60;
+
+const UNASSIGNED_COLUMN = 'unassigned';
+
+const OVERRIDE_LABELS: Record<DateOverride['type'], string> = {
+  closed: 'Cerrado',
+  custom_hours: 'Horario especial',
+  holiday_open: 'Abierto'
+};
+
+const DAY_ABBREVIATIONS = ['Dom', 'Lun', 'Mar', 'Mié', 'Jue', 'Vie', 'Sáb'];
+
+const SPECIALIST_CLASSES = [
+  'bg-blue-100 border-blue-400 text-blue-900',
+  'bg-green-100 border-green-400 text-green-900',
+  'bg-purple-100 border-purple-400 text-purple-900',
+  'bg-yellow-100 border-yellow-400 text-yellow-900',
+  'bg-pink-100 border-pink-400 text-pink-900',
+  'bg-indigo-100 border-indigo-400 text-indigo-900'
+];
+const UNASSIGNED_CLASSES = 'bg-gray-100 border-gray-400 text-gray-900';
+
+// Completed, cancelled and no-show appointments stay where they happened
+const RESCHEDULABLE_STATUSES: AppointmentStatus[] = [AppointmentStatus.PENDING, AppointmentStatus.CONFIRMED];
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+const toDateKey = (year: number, month: number, day: number): string =>
+  formatPlainDate({ year, month, day });
+
+const parseDateKey = (key: string): PlainDate => {
+  const [year, month, day] = key.split('-').map(Number);
+  return { year, month, day };
+};
+
+const addDays = (key: string, amount: number): string => formatPlainDate(addPlainDays(parseDateKey(key), amount));
+
+const dayOfWeekOf = (key: string): number => getDayOfWeek(parseDateKey(key));
+
+const formatMinutes = (minutes: number): string => `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+
+/**
+ * Today's date key in a time zone
+ */
+export function getTodayKey(timeZone: string, now: Date = new Date()): string {
+  return formatPlainDate(toPlainDate(now, timeZone));
+}
+
+/**
+ * Date keys shown by a view around an anchor date: the day itself, its Monday-first
+ * week, or the full weeks covering its month
+ */
+export function getCalendarDays(view: CalendarView, anchor: string): string[] {
+  if (view === 'day') return [anchor];
+
+  const mondayOffset = (key: string) => (dayOfWeekOf(key) + 6) % 7;
+
+  if (view === 'week') {
+    const monday = addDays(anchor, -mondayOffset(anchor));
+    return Array.from({ length: 7 }, (_, i) => addDays(monday, i));
+  }
+
+  const { year, month } = parseDateKey(anchor);
+  const first = toDateKey(year, month, 1);
+  const lastDay = createPlainDate(year, month + 1, 0).day;
+  const last = toDateKey(year, month, lastDay);
+  const start = addDays(first, -mondayOffset(first));
+  const end = addDays(last, 6 - mondayOffset(last));
+
+  const days: string[] = [];
+  for (let key = start; key <= end; key = addDays(key, 1)) {
+    days.push(key);
+  }
+  return days;
+}
+
+/**
+ * Move a date key by one step of the view (a day, a week or a month)
+ */
+export function shiftAnchor(view: CalendarView, anchor: string, direction: 1 | -1): string {
+  if (view === 'day') return addDays(anchor, direction);
+  if (view === 'week') return addDays(anchor, 7 * direction);
+
+  const { year, month } = parseDateKey(anchor);
+  return formatPlainDate(createPlainDate(year, month + direction, 1));
+}
+
+/**
+ * Instant where a date key starts in the business time zone, for API ranges
+ */
+export function startOfDateKey(key: string, timeZone: string): Date {
+  const { year, month, day } = parseDateKey(key);
+  return zonedTimeToUtc(year, month, day, 0, 0, timeZone);
+}
+
+interface PlacedAppointment {
+  appointment: Appointment;
+  dateKey: string;
+  startMinutes: number;
+}
+
+export function AppointmentCalendar({
+  view,
+  days,
+  appointments,
+  specialists,
+  businessHours,
+  dateOverrides = [],
+  holidays,
+  timeZone,
+  onReschedule
+}: AppointmentCalendarProps) {
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const holidayByDate = new Map(holidays.map(holiday => [formatPlainDate(holiday.plainDate), holiday]));
+
+  const placed: PlacedAppointment[] = appointments
+    .filter(appointment => appointment.status !== AppointmentStatus.CANCELLED)
+    .map(appointment => {
+      const parts = getZonedDateParts(new Date(appointment.scheduledAt), timeZone);
+      return {
+        appointment,
+        dateKey: toDateKey(parts.year, parts.month, parts.day),
+        startMinutes: parts.hour * 60 + parts.minute
+      };
+    })
+    .filter(item => days.includes(item.dateKey));
+
+  const specialistIndex = new Map(specialists.map((specialist, index) => [specialist.id, index]));
+  const colorClasses = (appointment: Appointment): string => {
+    const index = appointment.specialistId ? specialistIndex.get(appointment.specialistId) : undefined;
+    return index === undefined ? UNASSIGNED_CLASSES : SPECIALIST_CLASSES[index % SPECIALIST_CLASSES.length];
+  };
+  const specialistName = (appointment: Appointment): string =>
+    specialists.find(s => s.id === appointment.specialistId)?.name ?? 'Sin asignar';
+
+  // Hours of a visible day: date overrides first, then holidays, then the weekly hours
+  const hoursOf = (dateKey: string) => {
+    const { year, month, day } = parseDateKey(dateKey);
+    return getHoursForDate({ businessHours, dateOverrides }, year, month, day);
+  };
+
+  const isClosed = (dateKey: string, minutes?: number): boolean => {
+    // Split shifts leave the break between intervals closed
+    const ranges = getOpenMinuteRanges(hoursOf(dateKey));
+    if (ranges.length === 0) return true;
+    if (minutes === undefined) return false;
+
+    return !ranges.some(range => minutes >= range.start && minutes < range.end);
+  };
+
+  const handleDrop = (dateKey: string, minutes: number | null, columnId: string | null) => {
+    const item = placed.find(p => p.appointment.id === draggedId);
+    setDraggedId(null);
+    setDropTarget(null);
+    if (!item) return;
+
+    const { appointment } = item;
+    const startMinutes = minutes ?? item.startMinutes;
+    const { year, month, day } = parseDateKey(dateKey);
+    const target: RescheduleTarget = {
+      scheduledAt: zonedTimeToUtc(year, month, day, Math.floor(startMinutes / 60), startMinutes % 60, timeZone)
+    };
+
+    if (columnId && columnId !== UNASSIGNED_COLUMN && columnId !== appointment.specialistId) {
+      target.specialistId = columnId;
+    } else if (columnId === UNASSIGNED_COLUMN && appointment.specialistId) {
+      // Appointments can move between specialists but not back to the unassigned column
+      return;
+    }
+
+    if (
+      target.scheduledAt.getTime() === new Date(appointment.scheduledAt).getTime() &&
+      !target.specialistId
+    ) {
+      return;
+    }
+
+    onReschedule(appointment, target);
+  };
+
+  const dropProps = (targetKey: string, dateKey: string, minutes: number | null, columnId: string | null) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!draggedId) return;
+      e.preventDefault();
+      if (dropTarget !== targetKey) setDropTarget(targetKey);
+    },
+    onDragLeave: () => setDropTarget(prev => (prev === targetKey ? null : prev)),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      handleDrop(dateKey, minutes, columnId);
+    }
+  });
+
+  const renderAppointment = (item: PlacedAppointment, style?: React.CSSProperties) => {
+    const { appointment } = item;
+    const canMove = RESCHEDULABLE_STATUSES.includes(appointment.status);
+
+    return (
+      <div
+        key={appointment.id}
+        draggable={canMove}
+        onDragStart={(e) => {
+          e.dataTransfer?.setData('text/plain', appointment.id);
+          setDraggedId(appointment.id);
+        }}
+        onDragEnd={() => {
+          setDraggedId(null);
+          setDropTarget(null);
+        }}
+        style={style}
+        title={`${appointment.customerName} · ${appointment.serviceType} · ${specialistName(appointment)}`}
+        className={`border-l-4 rounded px-2 py-1 text-xs overflow-hidden ${colorClasses(appointment)} ${
+          canMove ? 'cursor-move' : 'opacity-70'
+        } ${draggedId === appointment.id ? 'opacity-50' : ''}`}
+      >
+        <p className="font-medium truncate">
+          {formatMinutes(item.startMinutes)} {appointment.customerName}
+        </p>
+        <p className="truncate">{appointment.serviceType}</p>
+      </div>
+    );
+  };
+
+  const renderOverrideNote = (dateKey: string) => {
+    const { override } = hoursOf(dateKey);
+    if (!override) return null;
+
+    return (
+      <p className="text-xs font-medium text-amber-700 truncate">
+        {override.note || OVERRIDE_LABELS[override.type]}
+      </p>
+    );
+  };
+
+  const renderDayHeader = (dateKey: string) => {
+    const { day } = parseDateKey(dateKey);
+    const holiday = holidayByDate.get(dateKey);
+
+    return (
+      <div className="text-center">
+        <p className="text-xs font-medium text-gray-500 uppercase">
+          {DAY_ABBREVIATIONS[dayOfWeekOf(dateKey)]} {day}
+        </p>
+        {holiday && <p className="text-xs font-medium text-red-600 truncate">{holiday.name}</p>}
+        {renderOverrideNote(dateKey)}
+      </div>
+    );
+  };
+
+  if (view === 'month') {
+    return (
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <div className="grid grid-cols-7 bg-gray-50 border-b border-gray-200">
+          {DAY_ABBREVIATIONS.slice(1).concat(DAY_ABBREVIATIONS[0]).map(name => (
+            <div key={name} className="px-2 py-2 text-center text-xs font-medium text-gray-500 uppercase">
+              {name}
+            </div>
+          ))}
+        </div>
+        <div className="grid grid-cols-7">
+          {days.map(dateKey => {
+            const holiday = holidayByDate.get(dateKey);
+            const dayAppointments = placed
+              .filter(item => item.dateKey === dateKey)
+              .sort((a, b) => a.startMinutes - b.startMinutes);
+
+            return (
+              <div
+                key={dateKey}
+                data-date={dateKey}
+                data-closed={isClosed(dateKey)}
+                {...dropProps(dateKey, dateKey, null, null)}
+                className={`min-h-[7rem] border-b border-r border-gray-200 p-1 space-y-1 ${
+                  isClosed(dateKey) ? 'bg-gray-100' : ''
+                } ${dropTarget === dateKey ? 'ring-2 ring-inset ring-blue-400' : ''}`}
+              >
+                <p className="text-xs font-medium text-gray-700">{parseDateKey(dateKey).day}</p>
+                {holiday && <p className="text-xs font-medium text-red-600 truncate">{holiday.name}</p>}
+                {renderOverrideNote(dateKey)}
+                {dayAppointments.map(item => renderAppointment(item))}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    );
+  }
+
+  // Day view splits the day by specialist; week view shows one column per day
+  const columns = view === 'day'
+    ? [
+        ...specialists.map(specialist => ({ id: specialist.id, dateKey: days[0], label: specialist.name })),
+        ...(specialists.length === 0 || placed.some(item => !item.appointment.specialistId)
+          ? [{ id: UNASSIGNED_COLUMN, dateKey: days[0], label: 'Sin asignar' }]
+          : [])
+      ]
+    : days.map(dateKey => ({ id: null, dateKey, label: null }));
+
+  const inColumn = (item: PlacedAppointment, column: (typeof columns)[number]): boolean => {
+    if (item.dateKey !== column.dateKey) return false;
+    if (column.id === null) return true;
+    return column.id === UNASSIGNED_COLUMN
+      ? !item.appointment.specialistId || !specialistIndex.has(item.appointment.specialistId)
+      : item.appointment.specialistId === column.id;
+  };
+
+  // Cover the business hours of the visible days plus any appointment booked outside them
+  const bounds = [
+    ...days.flatMap(key => getOpenMinuteRanges(hoursOf(key)).flatMap(range => [range.start, range.end])),
+    ...placed.flatMap(item => [item.startMinutes, item.startMinutes + item.appointment.duration])
+  ];
+  const startMinutes = bounds.length > 0
+    ? Math.floor(Math.min(...bounds) / 60) * 60
+    : DEFAULT_START_MINUTES;
+  const endMinutes = bounds.length > 0
+    ? Math.min(Math.ceil(Math.max(...bounds) / 60) * 60, 24 * 60)
+    : DEFAULT_END_MINUTES;
+  const slots = Array.from(
+    { length: Math.max((endMinutes - startMinutes) / SLOT_MINUTES, 1) },
+    (_, i) => startMinutes + i * SLOT_MINUTES
+  );
+
+  const gridTemplate = { gridTemplateColumns: `4rem repeat(${columns.length}, minmax(8rem, 1fr))` };
+
+  return (
+    <div className="bg-white shadow rounded-lg overflow-x-auto">
+      <div className="grid bg-gray-50 border-b border-gray-200" style={gridTemplate}>
+        <div />
+        {columns.map(column => (
+          <div key={`${column.dateKey}-${column.id}`} className="px-2 py-2 border-l border-gray-200">
+            {column.label ? (
+              <p className="text-center text-sm font-medium text-gray-900 truncate">{column.label}</p>
+            ) : (
+              renderDayHeader(column.dateKey)
+            )}
+          </div>
+        ))}
+      </div>
+      {view === 'day' && holidayByDate.has(days[0]) && (
+        <p className="px-4 py-2 text-sm font-medium text-red-600 bg-red-50 border-b border-red-200">
+          Festivo: {holidayByDate.get(days[0])!.name}
+        </p>
+      )}
+      {slots.map(slot => (
+        <div key={slot} className="grid" style={gridTemplate}>
+          <div className="pr-2 text-right text-xs text-gray-500" style={{ height: `${SLOT_HEIGHT_REM}rem` }}>
+            {slot % 60 === 0 ? formatMinutes(slot) : ''}
+          </div>
+          {columns.map(column => {
+            const targetKey = `${column.dateKey}-${column.id}-${slot}`;
+            const closed = isClosed(column.dateKey, slot);
+            const starting = placed.filter(
+              item => inColumn(item, column) && item.startMinutes >= slot && item.startMinutes < slot + SLOT_MINUTES
+            );
+
+            return (
+              <div
+                key={targetKey}
+                data-date={column.dateKey}
+                data-time={formatMinutes(slot)}
+                data-column={column.id ?? undefined}
+                data-closed={closed}
+                {...dropProps(targetKey, column.dateKey, slot, column.id)}
+                className={`relative border-l border-t border-gray-100 ${closed ? 'bg-gray-100' : ''} ${
+                  dropTarget === targetKey ? 'bg-blue-50' : ''
+                }`}
+              >
+                {starting.map((item, index) =>
+                  renderAppointment(item, {
+                    position: 'absolute',
+                    zIndex: 10,
+                    top: `${((item.startMinutes - slot) / SLOT_MINUTES) * SLOT_HEIGHT_REM}rem`,
+                    height: `${(item.appointment.duration / SLOT_MINUTES) * SLOT_HEIGHT_REM}rem`,
+                    left: `${(index * 100) / starting.length}%`,
+                    width: `${100 / starting.length}%`
+                  })
+                )}
+              </div>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+}
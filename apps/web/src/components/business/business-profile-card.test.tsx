@@ -3,6 +3,7 @@ import { render, screen } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { BusinessProfileCard } from './business-profile-card';
 import type { Business } from '@appointments-demo/types';
+import type { BusinessOpenState } from '@appointments-demo/utils';
 
 // Mock Heroicons
 jest.mock('@heroicons/react/24/outline', () => {
@@ -21,6 +22,8 @@ jest.mock('@heroicons/react/24/outline', () => {
 // Mock Colombian utilities
 jest.mock('@appointments-demo/utils', () => ({
   formatColombianPhone: jest.fn((phone: string) => phone),
+  CURRENCY_INFO: jest.requireActual('@appointments-demo/utils').CURRENCY_INFO,
+  DEFAULT_CURRENCY: 'COP',
   isValidColombianDepartment: jest.fn(() => true),
 }));
 
@@ -84,7 +87,14 @@ describe('BusinessProfileCard', () => {
   it('displays currency information', () => {
     render(<BusinessProfileCard business={mockBusiness} />);
     
-    expect(screen.getByText('COP - Peso Colombiano')).toBeInTheDocument();
+    expect(screen.getByText('COP - Peso colombiano')).toBeInTheDocument();
+  });
+
+  it('displays the name of non-peso currencies', () => {
+    const dollarBusiness = { ...mockBusiness, settings: { ...mockBusiness.settings, currency: 'USD' as const } };
+    render(<BusinessProfileCard business={dollarBusiness} />);
+
+    expect(screen.getByText('USD - Dólar estadounidense')).toBeInTheDocument();
   });
 
   it('handles business without description', () => {
@@ -137,6 +147,53 @@ describe('BusinessProfileCard', () => {
     expect(screen.getByText(/zona horaria/i)).toBeInTheDocument();
   });
 
+  it('shows an "Abierto ahora" badge with the closing time', () => {
+    const openState: BusinessOpenState = {
+      isOpen: true,
+      reason: 'open',
+      currentInterval: { start: new Date('2025-08-12T13:00:00Z'), end: new Date('2025-08-12T23:00:00Z') },
+      day: { date: '2025-08-12', dayOfWeek: 2, isOpen: true, intervals: [], source: 'weekly' }
+    };
+
+    render(<BusinessProfileCard business={mockBusiness} openState={openState} />);
+
+    expect(screen.getByText('Abierto ahora')).toBeInTheDocument();
+    expect(screen.getByText('Hasta las 18:00')).toBeInTheDocument();
+  });
+
+  it('explains a holiday closure and when the business opens next', () => {
+    const openState: BusinessOpenState = {
+      isOpen: false,
+      reason: 'holiday',
+      nextOpening: new Date('2025-08-19T13:00:00Z'),
+      day: {
+        date: '2025-08-18',
+        dayOfWeek: 1,
+        isOpen: false,
+        intervals: [],
+        source: 'holiday',
+        holiday: {
+          name: 'Asunción de la Virgen',
+          date: new Date(2025, 7, 18),
+          plainDate: { year: 2025, month: 8, day: 18 },
+          type: 'religious',
+          isFixed: false
+        }
+      }
+    };
+
+    render(<BusinessProfileCard business={mockBusiness} openState={openState} />);
+
+    expect(screen.getByText('Cerrado')).toBeInTheDocument();
+    expect(screen.getByText(/festivo: asunción de la virgen · abre el martes 08:00/i)).toBeInTheDocument();
+  });
+
+  it('does not show the open badge without a status', () => {
+    render(<BusinessProfileCard business={mockBusiness} />);
+
+    expect(screen.queryByText('Abierto ahora')).not.toBeInTheDocument();
+  });
+
   it('applies correct styling classes for mobile responsiveness', () => {
     const { container } = render(<BusinessProfileCard business={mockBusiness} />);
     
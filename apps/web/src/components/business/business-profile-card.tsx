@@ -2,14 +2,67 @@
 
 import { PencilIcon, MapPinIcon, PhoneIcon, EnvelopeIcon, ClockIcon } from '@heroicons/react/24/outline';
 import type { Business } from '@appointments-demo/types';
-import { formatColombianPhone } from '@appointments-demo/utils';
+import {
+  CURRENCY_INFO,
+  DEFAULT_CURRENCY,
+  formatColombianPhone,
+  formatTimeRanges,
+  type BusinessOpenState
+} from '@appointments-demo/utils';
 
 interface BusinessProfileCardProps {
   business: Business;
+  openState?: BusinessOpenState; // from /api/business/status, dates arrive as ISO strings
   onEdit?: () => void;
 }
 
-export function BusinessProfileCard({ business, onEdit }: BusinessProfileCardProps) {
+// Why the business is closed, shown next to the badge
+function getClosedReasonLabel(state: BusinessOpenState): string {
+  switch (state.reason) {
+    case 'holiday':
+      return state.day.holiday ? `Festivo: ${state.day.holiday.name}` : 'Festivo';
+    case 'override':
+      return state.day.override?.note || 'Fecha especial';
+    case 'closed_day':
+      return 'Hoy no hay atención';
+    default:
+      return 'Fuera de horario';
+  }
+}
+
+function OpenStateBadge({ state, timeZone }: { state: BusinessOpenState; timeZone: string }) {
+  const formatTime = (date: Date | string) =>
+    new Date(date).toLocaleTimeString('es-CO', { hour: '2-digit', minute: '2-digit', hour12: false, timeZone });
+  const formatOpening = (date: Date | string) =>
+    `${new Date(date).toLocaleDateString('es-CO', { weekday: 'long', timeZone })} ${formatTime(date)}`;
+
+  if (state.isOpen) {
+    return (
+      <div className="flex items-center space-x-2 mt-2">
+        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+          Abierto ahora
+        </span>
+        {state.currentInterval && (
+          <span className="text-xs text-gray-500">Hasta las {formatTime(state.currentInterval.end)}</span>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center space-x-2 mt-2">
+      <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+        Cerrado
+      </span>
+      <span className="text-xs text-gray-500">
+        {getClosedReasonLabel(state)}
+        {state.nextOpening && ` · Abre el ${formatOpening(state.nextOpening)}`}
+      </span>
+    </div>
+  );
+}
+
+export function BusinessProfileCard({ business, openState, onEdit }: BusinessProfileCardProps) {
   return (
     <div className="bg-white shadow rounded-lg p-6">
       {/* Header with name and edit button */}
@@ -23,6 +76,7 @@ export function BusinessProfileCard({ business, onEdit }: BusinessProfileCardPro
               {business.description}
             </p>
           )}
+          {openState && <OpenStateBadge state={openState} timeZone={business.settings.timezone} />}
         </div>
         {onEdit && (
           <button
@@ -106,7 +160,7 @@ export function BusinessProfileCard({ business, onEdit }: BusinessProfileCardPro
             <div className="min-w-0 flex-1">
               <p className="text-sm font-medium text-gray-900">Moneda</p>
               <p className="text-sm text-gray-600">
-                {business.settings.currency} - Peso Colombiano
+                {business.settings.currency} - {CURRENCY_INFO[business.settings.currency || DEFAULT_CURRENCY].name}
               </p>
               <p className="text-xs text-gray-500 mt-1">
                 Moneda para precios de servicios
@@ -128,7 +182,7 @@ export function BusinessProfileCard({ business, onEdit }: BusinessProfileCardPro
                       return (
                         <div key={hour.dayOfWeek} className="flex justify-between">
                           <span>{dayNames[hour.dayOfWeek]}</span>
-                          <span>{hour.openTime} - {hour.closeTime}</span>
+                          <span>{formatTimeRanges(hour.intervals)}</span>
                         </div>
                       );
                     })}
@@ -1,20 +1,20 @@
-import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor, within } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { BusinessSettingsPanel } from './business-settings-panel';
-import type { BusinessSettings } from '@appointments-demo/types';
+import type { BusinessSettings, BusinessSettingsVersion } from '@appointments-demo/types';
 
 describe('BusinessSettingsPanel', () => {
   const mockSettings: BusinessSettings = {
     timezone: 'America/Bogota',
     currency: 'COP',
     businessHours: [
-      { dayOfWeek: 1, openTime: '08:00', closeTime: '18:00', isOpen: true },
-      { dayOfWeek: 2, openTime: '08:00', closeTime: '18:00', isOpen: true },
-      { dayOfWeek: 3, openTime: '08:00', closeTime: '18:00', isOpen: true },
-      { dayOfWeek: 4, openTime: '08:00', closeTime: '18:00', isOpen: true },
-      { dayOfWeek: 5, openTime: '08:00', closeTime: '18:00', isOpen: true },
-      { dayOfWeek: 6, openTime: '08:00', closeTime: '14:00', isOpen: true },
-      { dayOfWeek: 0, openTime: '10:00', closeTime: '14:00', isOpen: false }
+      { dayOfWeek: 1, intervals: [{ openTime: '08:00', closeTime: '18:00' }], isOpen: true },
+      { dayOfWeek: 2, intervals: [{ openTime: '08:00', closeTime: '18:00' }], isOpen: true },
+      { dayOfWeek: 3, intervals: [{ openTime: '08:00', closeTime: '18:00' }], isOpen: true },
+      { dayOfWeek: 4, intervals: [{ openTime: '08:00', closeTime: '18:00' }], isOpen: true },
+      { dayOfWeek: 5, intervals: [{ openTime: '08:00', closeTime: '18:00' }], isOpen: true },
+      { dayOfWeek: 6, intervals: [{ openTime: '08:00', closeTime: '14:00' }], isOpen: true },
+      { dayOfWeek: 0, intervals: [{ openTime: '10:00', closeTime: '14:00' }], isOpen: false }
     ]
   };
 
@@ -46,15 +46,27 @@ describe('BusinessSettingsPanel', () => {
     expect(screen.getByRole('option', { name: /bogotá \(colombia\)/i })).toBeInTheDocument();
   });
 
-  it('shows currency fixed as Colombian Peso', () => {
+  it('offers COP, USD and EUR as business currency', () => {
     render(<BusinessSettingsPanel settings={mockSettings} onSave={mockOnSave} />);
 
     const currencySelect = screen.getByRole('combobox', { name: /moneda/i });
     expect(currencySelect).toHaveValue('COP');
-    expect(currencySelect).toBeDisabled();
-    
-    // Should show COP as selected and potentially disabled for Colombian system
+    expect(currencySelect).toBeEnabled();
+
     expect(screen.getByRole('option', { name: /cop - peso colombiano/i })).toBeInTheDocument();
+    expect(screen.getByRole('option', { name: /usd - dólar estadounidense/i })).toBeInTheDocument();
+    expect(screen.getByRole('option', { name: /eur - euro/i })).toBeInTheDocument();
+  });
+
+  it('saves a new business currency', async () => {
+    render(<BusinessSettingsPanel settings={mockSettings} onSave={mockOnSave} />);
+
+    fireEvent.change(screen.getByRole('combobox', { name: /moneda/i }), { target: { value: 'USD' } });
+    fireEvent.click(screen.getByRole('button', { name: /guardar/i }));
+
+    await waitFor(() => {
+      expect(mockOnSave).toHaveBeenCalledWith(expect.objectContaining({ currency: 'USD' }));
+    });
   });
 
   it('displays business hours for all days of the week', () => {
@@ -131,6 +143,94 @@ describe('BusinessSettingsPanel', () => {
     expect(mockOnSave).not.toHaveBeenCalled();
   });
 
+  it('saves a split shift with a lunch break', async () => {
+    render(<BusinessSettingsPanel settings={mockSettings} onSave={mockOnSave} />);
+
+    await userEvent.click(screen.getByRole('button', { name: /agregar horario al lunes/i }));
+    fireEvent.change(screen.getAllByDisplayValue('18:00')[0], { target: { value: '12:00' } });
+    fireEvent.click(screen.getByRole('button', { name: /guardar/i }));
+
+    await waitFor(() => {
+      expect(mockOnSave).toHaveBeenCalled();
+    });
+    const monday = mockOnSave.mock.calls[0][0].businessHours.find((h: { dayOfWeek: number }) => h.dayOfWeek === 1);
+    expect(monday.intervals).toEqual([
+      { openTime: '08:00', closeTime: '12:00' },
+      { openTime: '14:00', closeTime: '18:00' }
+    ]);
+  });
+
+  it('rejects intervals of a day that overlap', async () => {
+    render(<BusinessSettingsPanel settings={mockSettings} onSave={mockOnSave} />);
+
+    await userEvent.click(screen.getByRole('button', { name: /agregar horario al martes/i }));
+    fireEvent.click(screen.getByRole('button', { name: /guardar/i }));
+
+    expect(await screen.findByText(/los horarios del día se cruzan/i)).toBeInTheDocument();
+    expect(mockOnSave).not.toHaveBeenCalled();
+
+    await userEvent.click(screen.getByRole('button', { name: /quitar horario 2 del martes/i }));
+    expect(screen.queryByText(/los horarios del día se cruzan/i)).not.toBeInTheDocument();
+  });
+
+  it('saves special dates with the rest of the settings', async () => {
+    render(<BusinessSettingsPanel settings={mockSettings} onSave={mockOnSave} />);
+
+    fireEvent.change(screen.getByLabelText('Fecha'), { target: { value: '2030-12-24' } });
+    fireEvent.change(screen.getByLabelText('Nota'), { target: { value: 'Nochebuena' } });
+    await userEvent.click(screen.getByRole('button', { name: /agregar fecha/i }));
+    fireEvent.click(screen.getByRole('button', { name: /guardar/i }));
+
+    await waitFor(() => {
+      expect(mockOnSave).toHaveBeenCalledWith(expect.objectContaining({
+        dateOverrides: [{ date: '2030-12-24', type: 'closed', note: 'Nochebuena' }]
+      }));
+    });
+  });
+
+  it('blocks saving invalid special dates loaded from the settings', async () => {
+    const settings = { ...mockSettings, dateOverrides: [{ date: '2030-12-26', type: 'holiday_open' as const }] };
+    render(<BusinessSettingsPanel settings={settings} onSave={mockOnSave} />);
+
+    fireEvent.click(screen.getByRole('button', { name: /guardar/i }));
+
+    expect(await screen.findByText('Esta fecha no es festivo')).toBeInTheDocument();
+    expect(mockOnSave).not.toHaveBeenCalled();
+  });
+
+  it('switches on appointment reminders and saves them with the settings', async () => {
+    render(<BusinessSettingsPanel settings={mockSettings} onSave={mockOnSave} />);
+
+    await userEvent.click(screen.getByRole('checkbox', { name: /enviar recordatorios de citas/i }));
+    await userEvent.click(screen.getByRole('checkbox', { name: 'SMS' }));
+    fireEvent.click(screen.getByRole('button', { name: /guardar/i }));
+
+    await waitFor(() => {
+      expect(mockOnSave).toHaveBeenCalledWith(expect.objectContaining({
+        reminders: {
+          enabled: true,
+          offsetsMinutes: [1440, 120],
+          channels: ['whatsapp', 'sms'],
+          quietHours: { start: '21:00', end: '07:00' }
+        }
+      }));
+    });
+  });
+
+  it('blocks saving reminders without a channel', async () => {
+    const settings = {
+      ...mockSettings,
+      reminders: { enabled: true, offsetsMinutes: [120], channels: ['whatsapp' as const] }
+    };
+    render(<BusinessSettingsPanel settings={settings} onSave={mockOnSave} />);
+
+    await userEvent.click(screen.getByRole('checkbox', { name: 'WhatsApp' }));
+    fireEvent.click(screen.getByRole('button', { name: /guardar/i }));
+
+    expect(await screen.findByText('Selecciona al menos un canal')).toBeInTheDocument();
+    expect(mockOnSave).not.toHaveBeenCalled();
+  });
+
   it('calls onSave with updated settings', async () => {
     render(<BusinessSettingsPanel settings={mockSettings} onSave={mockOnSave} />);
 
@@ -145,7 +245,8 @@ describe('BusinessSettingsPanel', () => {
       expect(mockOnSave).toHaveBeenCalledWith({
         ...mockSettings,
         timezone: 'America/New_York',
-        businessHours: expect.any(Array)
+        businessHours: expect.any(Array),
+        dateOverrides: []
       });
     });
   });
@@ -194,11 +295,10 @@ describe('BusinessSettingsPanel', () => {
     expect(screen.getByText(/recomendado: bogotá para negocios colombianos/i)).toBeInTheDocument();
   });
 
-  it('shows Colombian peso currency information', () => {
+  it('explains what the business currency is used for', () => {
     render(<BusinessSettingsPanel settings={mockSettings} onSave={mockOnSave} />);
 
-    // Should show peso context
-    expect(screen.getByText(/peso colombiano para tu negocio local/i)).toBeInTheDocument();
+    expect(screen.getByText(/se usa en los nuevos servicios y en los reportes de ingresos/i)).toBeInTheDocument();
   });
 
   it('applies correct responsive styling', () => {
@@ -206,4 +306,60 @@ describe('BusinessSettingsPanel', () => {
 
     expect(container.firstChild).toHaveClass('bg-white', 'shadow', 'rounded-lg');
   });
-});
\ No newline at end of file
+});
+describe('BusinessSettingsPanel history', () => {
+  const hours = (saturdayOpen: boolean) => [
+    { dayOfWeek: 1, intervals: [{ openTime: '08:00', closeTime: '18:00' }], isOpen: true },
+    { dayOfWeek: 6, intervals: [{ openTime: '08:00', closeTime: '14:00' }], isOpen: saturdayOpen }
+  ];
+
+  const version = (number: number, settings: BusinessSettings, extra: Partial<BusinessSettingsVersion> = {}): BusinessSettingsVersion => ({
+    id: `version-${number}`,
+    businessId: 'business-1',
+    version: number,
+    settings,
+    changedBy: 'user-1',
+    changedByEmail: 'recepcion@salon.co',
+    createdAt: new Date(`2025-03-0${number}T15:00:00.000Z`),
+    ...extra
+  });
+
+  const initial: BusinessSettings = { timezone: 'America/Bogota', currency: 'COP', businessHours: hours(true) };
+  const closedSaturday: BusinessSettings = { ...initial, businessHours: hours(false) };
+
+  const versions = [
+    version(2, closedSaturday),
+    version(1, initial, { changedBy: undefined, changedByEmail: undefined })
+  ];
+
+  it('shows who changed what in each version', () => {
+    render(<BusinessSettingsPanel settings={closedSaturday} onSave={jest.fn()} versions={versions} />);
+
+    const history = within(screen.getByRole('heading', { name: /historial de cambios/i }).parentElement!);
+    expect(history.getByText(/versión 2/i)).toBeInTheDocument();
+    expect(history.getByText(/recepcion@salon\.co/)).toBeInTheDocument();
+    expect(history.getByText(/sábado:/i)).toHaveTextContent('Sábado: 08:00 - 14:00 → Cerrado');
+    expect(history.getByText(/configuración inicial/i)).toBeInTheDocument();
+    expect(history.getByText(/sistema/i)).toBeInTheDocument();
+  });
+
+  it('restores an earlier version with one click', async () => {
+    const onRestore = jest.fn().mockResolvedValue(undefined);
+    render(<BusinessSettingsPanel settings={closedSaturday} onSave={jest.fn()} versions={versions} onRestore={onRestore} />);
+
+    expect(screen.queryByRole('button', { name: /restaurar versión 2/i })).not.toBeInTheDocument();
+    await userEvent.click(screen.getByRole('button', { name: /restaurar versión 1/i }));
+
+    expect(onRestore).toHaveBeenCalledWith(1);
+  });
+
+  it('shows an error when the rollback fails', async () => {
+    const onRestore = jest.fn().mockRejectedValue(new Error('Forbidden'));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    render(<BusinessSettingsPanel settings={closedSaturday} onSave={jest.fn()} versions={versions} onRestore={onRestore} />);
+
+    await userEvent.click(screen.getByRole('button', { name: /restaurar versión 1/i }));
+
+    expect(await screen.findByText(/error al restaurar la versión/i)).toBeInTheDocument();
+  });
+});
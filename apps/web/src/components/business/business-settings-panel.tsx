@@ -1,11 +1,38 @@
 'use client';
 
 import { useState, useCallback } from 'react';
-import type { BusinessSettings, BusinessHours } from '@appointments-demo/types';
+import type {
+  BusinessSettings,
+  BusinessSettingsVersion,
+  BusinessHours,
+  CurrencyCode,
+  DateOverride,
+  ReminderSettings,
+  TimeRange
+} from '@appointments-demo/types';
+import {
+  CURRENCY_INFO,
+  DEFAULT_REMINDER_SETTINGS,
+  SUPPORTED_CURRENCIES,
+  formatTimeRanges,
+  validateBusinessHours,
+  validateDateOverrides,
+  validateReminderSettings
+} from '@appointments-demo/utils';
+import { DateOverridesEditor, describeDateOverride } from './date-overrides-editor';
+import { ReminderSettingsEditor, describeReminderSettings } from './reminder-settings-editor';
 
 interface BusinessSettingsPanelProps {
   settings: BusinessSettings;
   onSave: (updatedSettings: BusinessSettings) => Promise<void>;
+  versions?: BusinessSettingsVersion[]; // Newest first; the first one is the current settings
+  onRestore?: (version: number) => Promise<void>;
+}
+
+interface SettingsChange {
+  label: string;
+  before: string;
+  after: string;
 }
 
 interface FormErrors {
@@ -22,7 +49,64 @@ const TIMEZONE_OPTIONS = [
 
 const DAY_NAMES = ['Domingo', 'Lunes', 'Martes', 'Miércoles', 'Jueves', 'Viernes', 'Sábado'];
 
-export function BusinessSettingsPanel({ settings, onSave }: BusinessSettingsPanelProps) {
+// Typical afternoon shift offered when a day gets a second interval
+const NEW_INTERVAL: TimeRange = { openTime: '14:00', closeTime: '18:00' };
+
+const formatHours = (hours?: BusinessHours): string =>
+  hours?.isOpen ? formatTimeRanges(hours.intervals) : 'Cerrado';
+
+const formatDateOverrides = (overrides?: DateOverride[]): string =>
+  overrides && overrides.length > 0
+    ? [...overrides]
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .map(override => `${override.date} ${describeDateOverride(override)}`)
+      .join(', ')
+    : 'Ninguna';
+
+const formatVersionDate = (date: Date | string): string =>
+  new Date(date).toLocaleDateString('es-CO', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+// What a version changed compared to the one before it
+function diffSettings(before: BusinessSettings, after: BusinessSettings): SettingsChange[] {
+  const changes: SettingsChange[] = [];
+
+  if (before.timezone !== after.timezone) {
+    changes.push({ label: 'Zona horaria', before: before.timezone, after: after.timezone });
+  }
+  if (before.currency !== after.currency) {
+    changes.push({ label: 'Moneda', before: before.currency, after: after.currency });
+  }
+
+  DAY_NAMES.forEach((dayName, dayOfWeek) => {
+    const previous = formatHours(before.businessHours?.find(h => h.dayOfWeek === dayOfWeek));
+    const current = formatHours(after.businessHours?.find(h => h.dayOfWeek === dayOfWeek));
+    if (previous !== current) {
+      changes.push({ label: dayName, before: previous, after: current });
+    }
+  });
+
+  const previousOverrides = formatDateOverrides(before.dateOverrides);
+  const currentOverrides = formatDateOverrides(after.dateOverrides);
+  if (previousOverrides !== currentOverrides) {
+    changes.push({ label: 'Fechas especiales', before: previousOverrides, after: currentOverrides });
+  }
+
+  const previousReminders = describeReminderSettings(before.reminders);
+  const currentReminders = describeReminderSettings(after.reminders);
+  if (previousReminders !== currentReminders) {
+    changes.push({ label: 'Recordatorios', before: previousReminders, after: currentReminders });
+  }
+
+  return changes;
+}
+
+export function BusinessSettingsPanel({ settings, onSave, versions = [], onRestore }: BusinessSettingsPanelProps) {
   const [formData, setFormData] = useState({
     timezone: settings.timezone,
     currency: settings.currency,
@@ -31,6 +115,7 @@ export function BusinessSettingsPanel({ settings, onSave }: BusinessSettingsPane
 
   const [errors, setErrors] = useState<FormErrors>({});
   const [isLoading, setIsLoading] = useState(false);
+  const [restoringVersion, setRestoringVersion] = useState<number | null>(null);
 
   // Initialize business hours if empty
   const initializeBusinessHours = useCallback((): BusinessHours[] => {
@@ -42,70 +127,87 @@ export function BusinessSettingsPanel({ settings, onSave }: BusinessSettingsPane
       const existing = formData.businessHours.find(h => h.dayOfWeek === index);
       return existing || {
         dayOfWeek: index,
-        openTime: index === 0 ? '10:00' : '08:00', // Sunday starts later
-        closeTime: index === 6 ? '14:00' : '18:00', // Saturday closes early
+        intervals: [{
+          openTime: index === 0 ? '10:00' : '08:00', // Sunday starts later
+          closeTime: index === 6 ? '14:00' : '18:00' // Saturday closes early
+        }],
         isOpen: index !== 0 // Sunday closed by default
       };
     });
   }, [formData.businessHours]);
 
   const [businessHours, setBusinessHours] = useState<BusinessHours[]>(initializeBusinessHours);
+  const [dateOverrides, setDateOverrides] = useState<DateOverride[]>(settings.dateOverrides || []);
+  // Businesses without reminder settings start from the defaults, switched off
+  const [reminders, setReminders] = useState<ReminderSettings>(
+    settings.reminders || { ...DEFAULT_REMINDER_SETTINGS, enabled: false }
+  );
 
-  const validateTimeFormat = (time: string): boolean => {
-    const timeRegex = /^([01]?[0-9]|2[0-3]):[0-5][0-9]$/;
-    return timeRegex.test(time);
-  };
-
-  const validateBusinessHours = (): boolean => {
+  const validateHours = (): boolean => {
     const newErrors: FormErrors = {};
 
-    businessHours.forEach((hour, index) => {
-      if (hour.isOpen) {
-        if (!validateTimeFormat(hour.openTime)) {
-          newErrors[`openTime_${index}`] = 'Formato de hora inválido (HH:MM)';
-        }
-        if (!validateTimeFormat(hour.closeTime)) {
-          newErrors[`closeTime_${index}`] = 'Formato de hora inválido (HH:MM)';
-        }
-        
-        // Check if open time is before close time
-        if (validateTimeFormat(hour.openTime) && validateTimeFormat(hour.closeTime)) {
-          const openMinutes = parseInt(hour.openTime.split(':')[0]) * 60 + parseInt(hour.openTime.split(':')[1]);
-          const closeMinutes = parseInt(hour.closeTime.split(':')[0]) * 60 + parseInt(hour.closeTime.split(':')[1]);
-          
-          if (openMinutes >= closeMinutes) {
-            newErrors[`timeRange_${index}`] = 'La hora de cierre debe ser posterior a la de apertura';
-          }
-        }
-      }
+    validateBusinessHours(businessHours).forEach(error => {
+      newErrors[`hours_${error.dayOfWeek}`] = error.message;
+    });
+    validateDateOverrides(dateOverrides).forEach(error => {
+      newErrors[`override_${error.date}`] = error.message;
+    });
+    validateReminderSettings(reminders).forEach(error => {
+      newErrors[`reminders_${error.field}`] = error.message;
     });
 
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
 
-  const handleBusinessHourChange = (dayIndex: number, field: keyof BusinessHours, value: string | boolean) => {
-    setBusinessHours(prev => 
-      prev.map((hour, index) => 
-        index === dayIndex ? { ...hour, [field]: value } : hour
-      )
-    );
-
-    // Clear errors for this day when user makes changes
-    const dayErrors = Object.keys(errors).filter(key => key.includes(`_${dayIndex}`));
-    if (dayErrors.length > 0) {
+  // Clear the error of a day when the user changes its hours
+  const clearDayError = (dayOfWeek: number) => {
+    if (errors[`hours_${dayOfWeek}`]) {
       setErrors(prev => {
         const newErrors = { ...prev };
-        dayErrors.forEach(key => delete newErrors[key]);
+        delete newErrors[`hours_${dayOfWeek}`];
         return newErrors;
       });
     }
   };
 
+  const updateDay = (dayOfWeek: number, update: (hour: BusinessHours) => BusinessHours) => {
+    setBusinessHours(prev => prev.map(hour => (hour.dayOfWeek === dayOfWeek ? update(hour) : hour)));
+    clearDayError(dayOfWeek);
+  };
+
+  const handleDayToggle = (dayOfWeek: number, isOpen: boolean) => {
+    updateDay(dayOfWeek, hour => ({
+      ...hour,
+      isOpen,
+      intervals: isOpen && hour.intervals.length === 0 ? [NEW_INTERVAL] : hour.intervals
+    }));
+  };
+
+  const handleIntervalChange = (dayOfWeek: number, intervalIndex: number, field: keyof TimeRange, value: string) => {
+    updateDay(dayOfWeek, hour => ({
+      ...hour,
+      intervals: hour.intervals.map((interval, index) =>
+        index === intervalIndex ? { ...interval, [field]: value } : interval
+      )
+    }));
+  };
+
+  const handleAddInterval = (dayOfWeek: number) => {
+    updateDay(dayOfWeek, hour => ({ ...hour, intervals: [...hour.intervals, NEW_INTERVAL] }));
+  };
+
+  const handleRemoveInterval = (dayOfWeek: number, intervalIndex: number) => {
+    updateDay(dayOfWeek, hour => ({
+      ...hour,
+      intervals: hour.intervals.filter((_, index) => index !== intervalIndex)
+    }));
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!validateBusinessHours()) {
+    if (!validateHours()) {
       return;
     }
 
@@ -115,7 +217,10 @@ export function BusinessSettingsPanel({ settings, onSave }: BusinessSettingsPane
         ...settings,
         timezone: formData.timezone,
         currency: formData.currency,
-        businessHours: businessHours
+        businessHours: businessHours,
+        dateOverrides,
+        // Left out until reminders are switched on for the first time
+        ...((settings.reminders || reminders.enabled) && { reminders })
       };
 
       await onSave(updatedSettings);
@@ -127,6 +232,27 @@ export function BusinessSettingsPanel({ settings, onSave }: BusinessSettingsPane
     }
   };
 
+  const handleRestore = async (version: number) => {
+    if (!onRestore) {
+      return;
+    }
+
+    setRestoringVersion(version);
+    setErrors(prev => {
+      const newErrors = { ...prev };
+      delete newErrors.restore;
+      return newErrors;
+    });
+    try {
+      await onRestore(version);
+    } catch (error) {
+      console.error('Error restoring business settings:', error);
+      setErrors(prev => ({ ...prev, restore: 'Error al restaurar la versión. Inténtalo de nuevo.' }));
+    } finally {
+      setRestoringVersion(null);
+    }
+  };
+
   return (
     <form onSubmit={handleSubmit} className="bg-white shadow rounded-lg p-6 space-y-6">
       <div className="border-b border-gray-200 pb-4">
@@ -168,14 +294,17 @@ export function BusinessSettingsPanel({ settings, onSave }: BusinessSettingsPane
           <select
             id="currency"
             value={formData.currency}
-            onChange={(e) => setFormData(prev => ({ ...prev, currency: e.target.value }))}
+            onChange={(e) => setFormData(prev => ({ ...prev, currency: e.target.value as CurrencyCode }))}
             className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-            disabled // Fixed to COP for Colombian businesses
           >
-            <option value="COP">COP - Peso Colombiano</option>
+            {SUPPORTED_CURRENCIES.map(currency => (
+              <option key={currency} value={currency}>
+                {currency} - {CURRENCY_INFO[currency].name}
+              </option>
+            ))}
           </select>
           <p className="mt-1 text-xs text-gray-500">
-            Peso colombiano para tu negocio local
+            Se usa en los nuevos servicios y en los reportes de ingresos
           </p>
         </div>
       </div>
@@ -184,61 +313,85 @@ export function BusinessSettingsPanel({ settings, onSave }: BusinessSettingsPane
       <div className="border-t border-gray-200 pt-6">
         <h4 className="text-md font-medium text-gray-900 mb-4">Horarios de Atención</h4>
         <div className="space-y-4">
-          {businessHours.map((hour, index) => (
-            <div key={hour.dayOfWeek} className="grid grid-cols-12 gap-4 items-center">
+          {businessHours.map(hour => (
+            <div key={hour.dayOfWeek} className="grid grid-cols-12 gap-4 items-start">
               {/* Day checkbox and name */}
-              <div className="col-span-3 flex items-center space-x-2">
+              <div className="col-span-3 flex items-center space-x-2 py-2">
                 <input
                   type="checkbox"
-                  id={`day_${index}`}
+                  id={`day_${hour.dayOfWeek}`}
                   checked={hour.isOpen}
-                  onChange={(e) => handleBusinessHourChange(index, 'isOpen', e.target.checked)}
+                  onChange={(e) => handleDayToggle(hour.dayOfWeek, e.target.checked)}
                   className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
                 />
-                <label htmlFor={`day_${index}`} className="text-sm font-medium text-gray-700">
+                <label htmlFor={`day_${hour.dayOfWeek}`} className="text-sm font-medium text-gray-700">
                   {DAY_NAMES[hour.dayOfWeek]}
                 </label>
               </div>
 
-              {/* Hours inputs */}
+              {/* Time ranges, several for split shifts */}
               {hour.isOpen ? (
-                <>
-                  <div className="col-span-4">
-                    <label className="sr-only">Hora de apertura para el día {index}</label>
-                    <input
-                      type="time"
-                      value={hour.openTime}
-                      onChange={(e) => handleBusinessHourChange(index, 'openTime', e.target.value)}
-                      className={`block w-full border rounded-md px-3 py-2 text-sm shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 ${
-                        errors[`openTime_${index}`] || errors[`timeRange_${index}`] ? 'border-red-300' : 'border-gray-300'
-                      }`}
-                    />
-                  </div>
-                  <div className="col-span-1 text-center text-sm text-gray-500">
-                    a
-                  </div>
-                  <div className="col-span-4">
-                    <label className="sr-only">Hora de cierre para el día {index}</label>
-                    <input
-                      type="time"
-                      value={hour.closeTime}
-                      onChange={(e) => handleBusinessHourChange(index, 'closeTime', e.target.value)}
-                      className={`block w-full border rounded-md px-3 py-2 text-sm shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 ${
-                        errors[`closeTime_${index}`] || errors[`timeRange_${index}`] ? 'border-red-300' : 'border-gray-300'
-                      }`}
-                    />
-                  </div>
-                </>
+                <div className="col-span-9 space-y-2">
+                  {hour.intervals.map((interval, intervalIndex) => (
+                    <div key={intervalIndex} className="grid grid-cols-9 gap-4 items-center">
+                      <div className="col-span-3">
+                        <input
+                          type="time"
+                          aria-label={`Hora de apertura ${intervalIndex + 1} del ${DAY_NAMES[hour.dayOfWeek]}`}
+                          value={interval.openTime}
+                          onChange={(e) => handleIntervalChange(hour.dayOfWeek, intervalIndex, 'openTime', e.target.value)}
+                          className={`block w-full border rounded-md px-3 py-2 text-sm shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 ${
+                            errors[`hours_${hour.dayOfWeek}`] ? 'border-red-300' : 'border-gray-300'
+                          }`}
+                        />
+                      </div>
+                      <div className="col-span-1 text-center text-sm text-gray-500">
+                        a
+                      </div>
+                      <div className="col-span-3">
+                        <input
+                          type="time"
+                          aria-label={`Hora de cierre ${intervalIndex + 1} del ${DAY_NAMES[hour.dayOfWeek]}`}
+                          value={interval.closeTime}
+                          onChange={(e) => handleIntervalChange(hour.dayOfWeek, intervalIndex, 'closeTime', e.target.value)}
+                          className={`block w-full border rounded-md px-3 py-2 text-sm shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 ${
+                            errors[`hours_${hour.dayOfWeek}`] ? 'border-red-300' : 'border-gray-300'
+                          }`}
+                        />
+                      </div>
+                      <div className="col-span-2">
+                        {hour.intervals.length > 1 && (
+                          <button
+                            type="button"
+                            onClick={() => handleRemoveInterval(hour.dayOfWeek, intervalIndex)}
+                            aria-label={`Quitar horario ${intervalIndex + 1} del ${DAY_NAMES[hour.dayOfWeek]}`}
+                            className="text-sm text-red-600 hover:text-red-800"
+                          >
+                            Quitar
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                  <button
+                    type="button"
+                    onClick={() => handleAddInterval(hour.dayOfWeek)}
+                    aria-label={`Agregar horario al ${DAY_NAMES[hour.dayOfWeek]}`}
+                    className="text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    + Agregar horario
+                  </button>
+                </div>
               ) : (
-                <div className="col-span-9 text-sm text-gray-500 italic">
+                <div className="col-span-9 py-2 text-sm text-gray-500 italic">
                   Cerrado
                 </div>
               )}
 
               {/* Error messages */}
-              {(errors[`openTime_${index}`] || errors[`closeTime_${index}`] || errors[`timeRange_${index}`]) && (
+              {errors[`hours_${hour.dayOfWeek}`] && (
                 <div className="col-span-12 text-sm text-red-600">
-                  {errors[`openTime_${index}`] || errors[`closeTime_${index}`] || errors[`timeRange_${index}`]}
+                  {errors[`hours_${hour.dayOfWeek}`]}
                 </div>
               )}
             </div>
@@ -249,6 +402,41 @@ export function BusinessSettingsPanel({ settings, onSave }: BusinessSettingsPane
         </p>
       </div>
 
+      {/* Special dates */}
+      <div className="border-t border-gray-200 pt-6">
+        <h4 className="text-md font-medium text-gray-900 mb-1">Fechas Especiales</h4>
+        <p className="mb-4 text-sm text-gray-600">
+          Cierres, horarios especiales y festivos en los que sí abres. Los festivos colombianos están cerrados por defecto
+        </p>
+        <DateOverridesEditor
+          overrides={dateOverrides}
+          onChange={setDateOverrides}
+          timeZone={formData.timezone}
+          errors={Object.fromEntries(
+            Object.entries(errors)
+              .filter(([key]) => key.startsWith('override_'))
+              .map(([key, message]) => [key.slice('override_'.length), message])
+          )}
+        />
+      </div>
+
+      {/* Appointment reminders */}
+      <div className="border-t border-gray-200 pt-6">
+        <h4 className="text-md font-medium text-gray-900 mb-1">Recordatorios</h4>
+        <p className="mb-4 text-sm text-gray-600">
+          Mensajes automáticos a tus clientes antes de cada cita. Las citas canceladas no reciben recordatorios
+        </p>
+        <ReminderSettingsEditor
+          reminders={reminders}
+          onChange={setReminders}
+          errors={Object.fromEntries(
+            Object.entries(errors)
+              .filter(([key]) => key.startsWith('reminders_'))
+              .map(([key, message]) => [key.slice('reminders_'.length), message])
+          )}
+        />
+      </div>
+
       {/* Form Actions */}
       <div className="border-t border-gray-200 pt-6 flex justify-between items-center">
         {errors.submit && (
@@ -264,6 +452,64 @@ export function BusinessSettingsPanel({ settings, onSave }: BusinessSettingsPane
           </button>
         </div>
       </div>
+
+      {/* Settings History */}
+      {versions.length > 0 && (
+        <div className="border-t border-gray-200 pt-6">
+          <h4 className="text-md font-medium text-gray-900 mb-4">Historial de Cambios</h4>
+          {errors.restore && (
+            <p className="mb-4 text-sm text-red-600">{errors.restore}</p>
+          )}
+          <ul className="space-y-4">
+            {versions.map((version, index) => {
+              const previous = versions[index + 1];
+              const changes = previous ? diffSettings(previous.settings, version.settings) : [];
+
+              return (
+                <li key={version.id} className="border border-gray-200 rounded-md p-4">
+                  <div className="flex justify-between items-start">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">
+                        Versión {version.version}
+                        {index === 0 && <span className="ml-2 text-xs text-green-700">(actual)</span>}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {formatVersionDate(version.createdAt)} · {version.changedByEmail || 'Sistema'}
+                        {version.restoredFromVersion && ` · Restaurada desde la versión ${version.restoredFromVersion}`}
+                      </p>
+                    </div>
+                    {index > 0 && onRestore && (
+                      <button
+                        type="button"
+                        onClick={() => handleRestore(version.version)}
+                        disabled={restoringVersion !== null}
+                        className="px-3 py-1 border border-gray-300 rounded-md text-xs font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {restoringVersion === version.version ? 'Restaurando...' : `Restaurar versión ${version.version}`}
+                      </button>
+                    )}
+                  </div>
+                  {previous ? (
+                    changes.length > 0 ? (
+                      <ul className="mt-2 space-y-1 text-sm text-gray-700">
+                        {changes.map(change => (
+                          <li key={change.label}>
+                            {change.label}: <span className="line-through text-gray-500">{change.before}</span> → {change.after}
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <p className="mt-2 text-sm text-gray-500">Sin cambios en zona horaria, moneda ni horarios</p>
+                    )
+                  ) : (
+                    <p className="mt-2 text-sm text-gray-500">Configuración inicial</p>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
     </form>
   );
 }
\ No newline at end of file
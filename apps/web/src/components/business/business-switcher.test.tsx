@@ -0,0 +1,81 @@
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { BusinessSwitcher } from './business-switcher';
+import {
+  getAvailableBusinesses,
+  getCurrentBusinessSession,
+  switchToBusiness
+} from '@/lib/business-session-manager';
+
+jest.mock('@/lib/business-session-manager', () => ({
+  getAvailableBusinesses: jest.fn(),
+  getCurrentBusinessSession: jest.fn(),
+  switchToBusiness: jest.fn(),
+}));
+
+jest.mock('@/lib/rls-context-management', () => ({
+  getBusinessContext: jest.fn(() => null),
+}));
+
+describe('BusinessSwitcher', () => {
+  const centro = { id: 'business-centro', name: 'Spa Centro', status: 'active' as const, owner_id: 'user-123' };
+  const norte = { id: 'business-norte', name: 'Spa Norte', status: 'active' as const, owner_id: 'user-123' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    (getCurrentBusinessSession as jest.Mock).mockReturnValue({ currentBusinessId: centro.id });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('lets owners with several locations pick one', async () => {
+    (getAvailableBusinesses as jest.Mock).mockResolvedValue([centro, norte]);
+
+    render(<BusinessSwitcher />);
+
+    const select = await screen.findByRole('combobox', { name: 'Sede' });
+    expect(select).toHaveValue(centro.id);
+    expect(screen.getByRole('option', { name: 'Spa Norte' })).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: 'Agregar sede' })).toHaveAttribute('href', '/register/business');
+  });
+
+  it('shows the business name when there is a single location', async () => {
+    (getAvailableBusinesses as jest.Mock).mockResolvedValue([centro]);
+
+    render(<BusinessSwitcher />);
+
+    expect(await screen.findByText('Spa Centro')).toBeInTheDocument();
+    expect(screen.queryByRole('combobox')).not.toBeInTheDocument();
+  });
+
+  it('switches the business context when another location is chosen', async () => {
+    const user = userEvent.setup();
+    (getAvailableBusinesses as jest.Mock).mockResolvedValue([centro, norte]);
+    (switchToBusiness as jest.Mock).mockResolvedValue({ success: true, previousBusinessId: centro.id, newBusinessId: norte.id });
+
+    render(<BusinessSwitcher />);
+
+    await user.selectOptions(await screen.findByRole('combobox', { name: 'Sede' }), norte.id);
+
+    await waitFor(() => {
+      expect(switchToBusiness).toHaveBeenCalledWith(norte.id);
+    });
+  });
+
+  it('keeps the current location when the switch fails', async () => {
+    const user = userEvent.setup();
+    (getAvailableBusinesses as jest.Mock).mockResolvedValue([centro, norte]);
+    (switchToBusiness as jest.Mock).mockResolvedValue({ success: false, previousBusinessId: centro.id, newBusinessId: norte.id, error: 'User does not own this business' });
+
+    render(<BusinessSwitcher />);
+
+    const select = await screen.findByRole('combobox', { name: 'Sede' });
+    await user.selectOptions(select, norte.id);
+
+    expect(await screen.findByText('No se pudo cambiar de sede')).toBeInTheDocument();
+    expect(select).toHaveValue(centro.id);
+  });
+});
@@ -0,0 +1,82 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import {
+  getAvailableBusinesses,
+  getCurrentBusinessSession,
+  switchToBusiness,
+  type BusinessInfo
+} from '@/lib/business-session-manager';
+import { getBusinessContext } from '@/lib/rls-context-management';
+
+export function BusinessSwitcher() {
+  const [businesses, setBusinesses] = useState<BusinessInfo[]>([]);
+  const [currentBusinessId, setCurrentBusinessId] = useState<string | null>(null);
+  const [isSwitching, setIsSwitching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+
+    getAvailableBusinesses().then(available => {
+      if (!mounted) return;
+      setBusinesses(available);
+      setCurrentBusinessId(getCurrentBusinessSession().currentBusinessId ?? getBusinessContext() ?? available[0]?.id ?? null);
+    });
+
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  const handleSwitch = async (businessId: string) => {
+    if (businessId === currentBusinessId) {
+      return;
+    }
+
+    setIsSwitching(true);
+    setError(null);
+
+    const result = await switchToBusiness(businessId);
+    if (!result.success) {
+      console.error('Error switching business:', result.error);
+      setError('No se pudo cambiar de sede');
+      setIsSwitching(false);
+      return;
+    }
+
+    // Full reload so no page keeps data loaded for the previous location
+    window.location.href = '/dashboard';
+  };
+
+  if (businesses.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center gap-3">
+      {businesses.length > 1 ? (
+        <select
+          aria-label="Sede"
+          value={currentBusinessId ?? ''}
+          onChange={(e) => handleSwitch(e.target.value)}
+          disabled={isSwitching}
+          className="block w-56 border border-gray-300 rounded-md px-3 py-1.5 text-sm shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 disabled:opacity-50"
+        >
+          {businesses.map(business => (
+            <option key={business.id} value={business.id}>
+              {business.name}
+            </option>
+          ))}
+        </select>
+      ) : (
+        <span className="text-sm font-medium text-gray-700">{businesses[0].name}</span>
+      )}
+      <Link href="/register/business" className="text-sm text-blue-600 hover:text-blue-500">
+        Agregar sede
+      </Link>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
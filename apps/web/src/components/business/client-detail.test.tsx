@@ -0,0 +1,71 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { ClientDetail, type ClientWithStats } from './client-detail';
+import { AppointmentStatus, type Appointment } from '@appointments-demo/types';
+
+describe('ClientDetail', () => {
+  const mockClient: ClientWithStats = {
+    id: 'client-1',
+    businessId: '123e4567-e89b-12d3-a456-426614174000',
+    name: 'María Fernanda López',
+    phone: '+57 301 234 5678',
+    email: 'mafe@correo.co',
+    createdAt: new Date('2024-01-15T10:00:00Z'),
+    updatedAt: new Date('2024-01-15T10:00:00Z'),
+    stats: {
+      appointmentCount: 2,
+      noShowCount: 1,
+      lastAppointmentAt: new Date('2024-03-10T15:00:00Z')
+    }
+  };
+
+  const appointment = (id: string, status: AppointmentStatus, serviceType: string): Appointment => ({
+    id,
+    businessId: mockClient.businessId,
+    customerName: mockClient.name,
+    customerPhone: mockClient.phone,
+    clientId: mockClient.id,
+    serviceType,
+    scheduledAt: new Date('2024-03-10T15:00:00Z'),
+    duration: 45,
+    status,
+    createdAt: new Date('2024-01-15T10:00:00Z'),
+    updatedAt: new Date('2024-01-15T10:00:00Z')
+  });
+
+  it('shows the appointment totals and no-show count', () => {
+    render(<ClientDetail client={mockClient} appointments={[]} onClose={jest.fn()} />);
+
+    expect(screen.getByText('María Fernanda López')).toBeInTheDocument();
+    expect(screen.getByText('+57 301 234 5678 · mafe@correo.co')).toBeInTheDocument();
+    expect(screen.getByText('Inasistencias').nextElementSibling).toHaveTextContent('1');
+    expect(screen.getByText('Este cliente aún no tiene citas')).toBeInTheDocument();
+  });
+
+  it('lists the history with status labels in Spanish', () => {
+    render(
+      <ClientDetail
+        client={mockClient}
+        appointments={[
+          appointment('appt-1', AppointmentStatus.NO_SHOW, 'Tinte'),
+          appointment('appt-2', AppointmentStatus.COMPLETED, 'Corte')
+        ]}
+        onClose={jest.fn()}
+      />
+    );
+
+    expect(screen.getByText('Tinte')).toBeInTheDocument();
+    expect(screen.getByText('No asistió')).toBeInTheDocument();
+    expect(screen.getByText('Completada')).toBeInTheDocument();
+  });
+
+  it('calls onClose when closing the panel', async () => {
+    const user = userEvent.setup();
+    const onClose = jest.fn();
+
+    render(<ClientDetail client={mockClient} appointments={[]} onClose={onClose} />);
+    await user.click(screen.getByText('Cerrar'));
+
+    expect(onClose).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,95 @@
+'use client';
+
+import { AppointmentStatus, type Appointment, type Client, type ClientStats } from '@appointments-demo/types';
+
+export type ClientWithStats = Client & { stats: ClientStats };
+
+interface ClientDetailProps {
+  client: ClientWithStats;
+  appointments: Appointment[];
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<AppointmentStatus, string> = {
+  [AppointmentStatus.PENDING]: 'Pendiente',
+  [AppointmentStatus.CONFIRMED]: 'Confirmada',
+  [AppointmentStatus.CANCELLED]: 'Cancelada',
+  [AppointmentStatus.COMPLETED]: 'Completada',
+  [AppointmentStatus.NO_SHOW]: 'No asistió'
+};
+
+const STATUS_CLASSES: Record<AppointmentStatus, string> = {
+  [AppointmentStatus.PENDING]: 'bg-yellow-100 text-yellow-800',
+  [AppointmentStatus.CONFIRMED]: 'bg-blue-100 text-blue-800',
+  [AppointmentStatus.CANCELLED]: 'bg-gray-100 text-gray-600',
+  [AppointmentStatus.COMPLETED]: 'bg-green-100 text-green-800',
+  [AppointmentStatus.NO_SHOW]: 'bg-red-100 text-red-800'
+};
+
+const formatAppointmentDate = (date: Date | string): string =>
+  new Date(date).toLocaleDateString('es-CO', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+export function ClientDetail({ client, appointments, onClose }: ClientDetailProps) {
+  return (
+    <div className="bg-white shadow rounded-lg p-6 space-y-6">
+      <div className="flex items-start justify-between border-b border-gray-200 pb-4">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">{client.name}</h3>
+          <p className="mt-1 text-sm text-gray-600">
+            {[client.phone, client.email].filter(Boolean).join(' · ')}
+          </p>
+          {client.notes && <p className="mt-2 text-sm text-gray-500 whitespace-pre-line">{client.notes}</p>}
+        </div>
+        <button onClick={onClose} className="text-sm text-gray-600 hover:text-gray-800">
+          Cerrar
+        </button>
+      </div>
+
+      <dl className="grid grid-cols-3 gap-4">
+        <div>
+          <dt className="text-xs font-medium text-gray-500 uppercase">Citas</dt>
+          <dd className="mt-1 text-2xl font-semibold text-gray-900">{client.stats.appointmentCount}</dd>
+        </div>
+        <div>
+          <dt className="text-xs font-medium text-gray-500 uppercase">Inasistencias</dt>
+          <dd className={`mt-1 text-2xl font-semibold ${client.stats.noShowCount > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+            {client.stats.noShowCount}
+          </dd>
+        </div>
+        <div>
+          <dt className="text-xs font-medium text-gray-500 uppercase">Última cita</dt>
+          <dd className="mt-1 text-sm text-gray-900">
+            {client.stats.lastAppointmentAt ? formatAppointmentDate(client.stats.lastAppointmentAt) : '—'}
+          </dd>
+        </div>
+      </dl>
+
+      <div className="border-t border-gray-200 pt-6">
+        <h4 className="text-md font-medium text-gray-900 mb-4">Historial de Citas</h4>
+        {appointments.length === 0 ? (
+          <p className="text-sm text-gray-500">Este cliente aún no tiene citas</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {appointments.map(appointment => (
+              <li key={appointment.id} className="py-3 flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">{appointment.serviceType}</p>
+                  <p className="text-sm text-gray-500">{formatAppointmentDate(appointment.scheduledAt)}</p>
+                </div>
+                <span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${STATUS_CLASSES[appointment.status]}`}>
+                  {STATUS_LABELS[appointment.status]}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { DateOverridesEditor } from './date-overrides-editor';
+import type { DateOverride } from '@appointments-demo/types';
+
+describe('DateOverridesEditor', () => {
+  const renderEditor = (overrides: DateOverride[] = [], onChange = jest.fn()) =>
+    render(
+      <DateOverridesEditor
+        overrides={overrides}
+        onChange={onChange}
+        timeZone="America/Bogota"
+        today="2025-03-01"
+      />
+    );
+
+  it('adds custom hours for a holiday picked in the calendar', async () => {
+    const onChange = jest.fn();
+    renderEditor([], onChange);
+
+    fireEvent.change(screen.getByLabelText('Fecha'), { target: { value: '2025-03-24' } });
+    expect(screen.getByText(/festivo: día de san josé/i)).toBeInTheDocument();
+
+    await userEvent.selectOptions(screen.getByLabelText('Tipo'), 'custom_hours');
+    await userEvent.click(screen.getByRole('button', { name: /agregar fecha/i }));
+
+    expect(onChange).toHaveBeenCalledWith([
+      { date: '2025-03-24', type: 'custom_hours', intervals: [{ openTime: '09:00', closeTime: '13:00' }] }
+    ]);
+  });
+
+  it('lists upcoming holidays as closed and opens them with one click', async () => {
+    const onChange = jest.fn();
+    renderEditor([], onChange);
+
+    await userEvent.click(screen.getByRole('button', { name: /abrir día de san josé/i }));
+
+    expect(onChange).toHaveBeenCalledWith([{ date: '2025-03-24', type: 'holiday_open' }]);
+  });
+
+  it('refuses to open a date that is not a holiday', async () => {
+    const onChange = jest.fn();
+    renderEditor([], onChange);
+
+    fireEvent.change(screen.getByLabelText('Fecha'), { target: { value: '2025-03-25' } });
+    await userEvent.selectOptions(screen.getByLabelText('Tipo'), 'holiday_open');
+    await userEvent.click(screen.getByRole('button', { name: /agregar fecha/i }));
+
+    expect(screen.getByText('Esta fecha no es festivo')).toBeInTheDocument();
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('removes a saved override', async () => {
+    const onChange = jest.fn();
+    renderEditor([{ date: '2025-12-24', type: 'closed', note: 'Nochebuena' }], onChange);
+
+    expect(screen.getByText(/nochebuena/i)).toBeInTheDocument();
+    await userEvent.click(screen.getByRole('button', { name: 'Quitar 2025-12-24' }));
+
+    expect(onChange).toHaveBeenCalledWith([]);
+  });
+});
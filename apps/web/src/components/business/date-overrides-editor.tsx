@@ -0,0 +1,260 @@
+'use client';
+
+import { useState } from 'react';
+import type { DateOverride, DateOverrideType } from '@appointments-demo/types';
+import {
+  findColombianHoliday,
+  formatPlainDate,
+  formatTimeRanges,
+  getColombianHolidays,
+  parsePlainDate,
+  toPlainDate,
+  validateDateOverrides
+} from '@appointments-demo/utils';
+
+interface DateOverridesEditorProps {
+  overrides: DateOverride[];
+  onChange: (overrides: DateOverride[]) => void;
+  timeZone: string;
+  errors?: Record<string, string>; // Keyed by date
+  today?: string; // YYYY-MM-DD, defaults to today in the business time zone
+}
+
+const OVERRIDE_TYPE_OPTIONS: { value: DateOverrideType; label: string }[] = [
+  { value: 'closed', label: 'Cerrado' },
+  { value: 'custom_hours', label: 'Horario especial' },
+  { value: 'holiday_open', label: 'Abrir el festivo con el horario normal' }
+];
+
+// Upcoming holidays listed so they can be opened with one click
+const UPCOMING_HOLIDAYS = 5;
+
+const holidayOn = (date: string) => {
+  const calendarDate = parsePlainDate(date);
+  return calendarDate ? findColombianHoliday(calendarDate) : undefined;
+};
+
+const formatOverrideDate = (date: string): string =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('es-CO', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'UTC'
+  });
+
+export const describeDateOverride = (override: DateOverride): string => {
+  if (override.type === 'closed') return 'Cerrado';
+  if (override.type === 'holiday_open') return 'Abierto con el horario normal';
+  return `Horario especial: ${formatTimeRanges(override.intervals || [])}`;
+};
+
+export function DateOverridesEditor({ overrides, onChange, timeZone, errors = {}, today }: DateOverridesEditorProps) {
+  const [date, setDate] = useState('');
+  const [type, setType] = useState<DateOverrideType>('closed');
+  const [openTime, setOpenTime] = useState('09:00');
+  const [closeTime, setCloseTime] = useState('13:00');
+  const [note, setNote] = useState('');
+  const [addError, setAddError] = useState<string | null>(null);
+
+  const todayKey = today || formatPlainDate(toPlainDate(new Date(), timeZone));
+  const currentYear = Number(todayKey.slice(0, 4));
+  const upcomingHolidays = [...getColombianHolidays(currentYear), ...getColombianHolidays(currentYear + 1)]
+    .map(holiday => ({ ...holiday, dateKey: formatPlainDate(holiday.plainDate) }))
+    .filter(holiday => holiday.dateKey >= todayKey)
+    .slice(0, UPCOMING_HOLIDAYS);
+
+  const selectedHoliday = date ? holidayOn(date) : undefined;
+  const sortedOverrides = [...overrides].sort((a, b) => a.date.localeCompare(b.date));
+
+  const addOverride = (override: DateOverride): boolean => {
+    const error = validateDateOverrides([...overrides, override]).find(e => e.date === override.date);
+    if (error) {
+      setAddError(error.message);
+      return false;
+    }
+
+    setAddError(null);
+    onChange([...overrides, override]);
+    return true;
+  };
+
+  const handleAdd = () => {
+    if (!date) {
+      setAddError('Selecciona una fecha');
+      return;
+    }
+
+    const added = addOverride({
+      date,
+      type,
+      ...(type === 'custom_hours' && { intervals: [{ openTime, closeTime }] }),
+      ...(note.trim() && { note: note.trim() })
+    });
+    if (added) {
+      setDate('');
+      setNote('');
+    }
+  };
+
+  const handleRemove = (overrideDate: string) => {
+    onChange(overrides.filter(override => override.date !== overrideDate));
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* New override */}
+      <div className="grid grid-cols-1 md:grid-cols-12 gap-4 items-end">
+        <div className="md:col-span-3">
+          <label htmlFor="override-date" className="block text-sm font-medium text-gray-700">
+            Fecha
+          </label>
+          <input
+            type="date"
+            id="override-date"
+            value={date}
+            min={todayKey}
+            onChange={(e) => {
+              setDate(e.target.value);
+              setAddError(null);
+            }}
+            className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <div className="md:col-span-4">
+          <label htmlFor="override-type" className="block text-sm font-medium text-gray-700">
+            Tipo
+          </label>
+          <select
+            id="override-type"
+            value={type}
+            onChange={(e) => setType(e.target.value as DateOverrideType)}
+            className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          >
+            {OVERRIDE_TYPE_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="md:col-span-3">
+          <label htmlFor="override-note" className="block text-sm font-medium text-gray-700">
+            Nota
+          </label>
+          <input
+            type="text"
+            id="override-note"
+            value={note}
+            placeholder="Ej: Nochebuena"
+            onChange={(e) => setNote(e.target.value)}
+            className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 text-sm shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <div className="md:col-span-2">
+          <button
+            type="button"
+            onClick={handleAdd}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Agregar fecha
+          </button>
+        </div>
+
+        {type === 'custom_hours' && (
+          <div className="md:col-span-12 flex items-center space-x-2">
+            <input
+              type="time"
+              aria-label="Hora de apertura de la fecha especial"
+              value={openTime}
+              onChange={(e) => setOpenTime(e.target.value)}
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+            <span className="text-sm text-gray-500">a</span>
+            <input
+              type="time"
+              aria-label="Hora de cierre de la fecha especial"
+              value={closeTime}
+              onChange={(e) => setCloseTime(e.target.value)}
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+        )}
+
+        {selectedHoliday && (
+          <p className="md:col-span-12 text-sm text-red-600">
+            Festivo: {selectedHoliday.name}. Sin una excepción el negocio permanece cerrado
+          </p>
+        )}
+        {addError && (
+          <p className="md:col-span-12 text-sm text-red-600">{addError}</p>
+        )}
+      </div>
+
+      {/* Saved overrides */}
+      {sortedOverrides.length > 0 ? (
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+          {sortedOverrides.map(override => (
+            <li key={override.date} className="px-4 py-2">
+              <div className="flex justify-between items-center">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">
+                    {formatOverrideDate(override.date)}
+                    {override.note && <span className="ml-2 text-gray-500">· {override.note}</span>}
+                  </p>
+                  <p className="text-sm text-gray-600">{describeDateOverride(override)}</p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleRemove(override.date)}
+                  aria-label={`Quitar ${override.date}`}
+                  className="text-sm text-red-600 hover:text-red-800"
+                >
+                  Quitar
+                </button>
+              </div>
+              {errors[override.date] && (
+                <p className="mt-1 text-sm text-red-600">{errors[override.date]}</p>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500">No hay fechas especiales</p>
+      )}
+
+      {/* Upcoming holidays, closed unless opened */}
+      <div>
+        <h5 className="text-sm font-medium text-gray-900 mb-2">Próximos festivos</h5>
+        <ul className="space-y-1">
+          {upcomingHolidays.map(holiday => {
+            const override = overrides.find(o => o.date === holiday.dateKey);
+
+            return (
+              <li key={holiday.dateKey} className="flex justify-between items-center text-sm">
+                <span className="text-gray-700">
+                  {formatOverrideDate(holiday.dateKey)} · {holiday.name}
+                </span>
+                {override ? (
+                  <span className="text-gray-500">{describeDateOverride(override)}</span>
+                ) : (
+                  <span className="flex items-center space-x-3">
+                    <span className="text-gray-500">Cerrado</span>
+                    <button
+                      type="button"
+                      onClick={() => addOverride({ date: holiday.dateKey, type: 'holiday_open' })}
+                      aria-label={`Abrir ${holiday.name}`}
+                      className="text-blue-600 hover:text-blue-800"
+                    >
+                      Abrir
+                    </button>
+                  </span>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+}
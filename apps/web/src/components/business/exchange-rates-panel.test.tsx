@@ -0,0 +1,48 @@
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { ExchangeRatesPanel } from './exchange-rates-panel';
+import type { ExchangeRate } from '@appointments-demo/types';
+
+describe('ExchangeRatesPanel', () => {
+  const rate = (fromCurrency: ExchangeRate['fromCurrency'], toCurrency: ExchangeRate['toCurrency'], value: number): ExchangeRate => ({
+    id: `${fromCurrency}-${toCurrency}`,
+    businessId: '123e4567-e89b-12d3-a456-426614174000',
+    fromCurrency,
+    toCurrency,
+    rate: value,
+    createdAt: new Date('2024-01-15T10:00:00Z'),
+    updatedAt: new Date('2024-01-15T10:00:00Z')
+  });
+
+  it('lists every other currency against the business currency', () => {
+    render(<ExchangeRatesPanel baseCurrency="COP" rates={[rate('USD', 'COP', 4100)]} onSave={jest.fn()} />);
+
+    expect(screen.getByLabelText('Tasa USD a COP')).toHaveValue('4100');
+    expect(screen.getByLabelText('Tasa EUR a COP')).toHaveValue('');
+    expect(screen.queryByLabelText('Tasa COP a COP')).not.toBeInTheDocument();
+  });
+
+  it('saves the edited rate of a currency pair', async () => {
+    const user = userEvent.setup();
+    const onSave = jest.fn().mockResolvedValue(undefined);
+    render(<ExchangeRatesPanel baseCurrency="COP" rates={[]} onSave={onSave} />);
+
+    await user.type(screen.getByLabelText('Tasa EUR a COP'), '4450,5');
+    await user.click(screen.getByRole('button', { name: 'Guardar EUR' }));
+
+    await waitFor(() => {
+      expect(onSave).toHaveBeenCalledWith({ fromCurrency: 'EUR', toCurrency: 'COP', rate: 4450.5 });
+    });
+  });
+
+  it('rejects empty or non-positive rates', async () => {
+    const user = userEvent.setup();
+    const onSave = jest.fn();
+    render(<ExchangeRatesPanel baseCurrency="USD" rates={[]} onSave={onSave} />);
+
+    await user.click(screen.getByRole('button', { name: 'Guardar COP' }));
+
+    expect(screen.getByText('La tasa de cambio debe ser mayor que cero')).toBeInTheDocument();
+    expect(onSave).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,91 @@
+'use client';
+
+import { useState } from 'react';
+import type { CurrencyCode, ExchangeRate } from '@appointments-demo/types';
+import { CURRENCY_INFO, SUPPORTED_CURRENCIES, findExchangeRate, type ExchangeRateQuote } from '@appointments-demo/utils';
+
+interface ExchangeRatesPanelProps {
+  baseCurrency: CurrencyCode;
+  rates: ExchangeRate[];
+  onSave: (quote: ExchangeRateQuote) => Promise<void>;
+}
+
+// Rates are edited as "1 foreign currency = N business currency", the way admins quote them
+const initialValues = (baseCurrency: CurrencyCode, rates: ExchangeRate[]): Record<string, string> =>
+  Object.fromEntries(
+    SUPPORTED_CURRENCIES
+      .filter(currency => currency !== baseCurrency)
+      .map(currency => {
+        const rate = findExchangeRate(rates, currency, baseCurrency);
+        return [currency, rate === null ? '' : String(rate)];
+      })
+  );
+
+export function ExchangeRatesPanel({ baseCurrency, rates, onSave }: ExchangeRatesPanelProps) {
+  const [values, setValues] = useState(() => initialValues(baseCurrency, rates));
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [savingCurrency, setSavingCurrency] = useState<CurrencyCode | null>(null);
+
+  const foreignCurrencies = SUPPORTED_CURRENCIES.filter(currency => currency !== baseCurrency);
+
+  const handleSave = async (currency: CurrencyCode) => {
+    const rate = Number(values[currency].replace(',', '.'));
+    if (!values[currency].trim() || !Number.isFinite(rate) || rate <= 0) {
+      setErrors(prev => ({ ...prev, [currency]: 'La tasa de cambio debe ser mayor que cero' }));
+      return;
+    }
+
+    setErrors(prev => ({ ...prev, [currency]: '' }));
+    setSavingCurrency(currency);
+    try {
+      await onSave({ fromCurrency: currency, toCurrency: baseCurrency, rate });
+    } catch (error) {
+      console.error('Error saving exchange rate:', error);
+      setErrors(prev => ({ ...prev, [currency]: 'Error al guardar la tasa de cambio' }));
+    } finally {
+      setSavingCurrency(null);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6 space-y-4">
+      <div>
+        <h4 className="text-md font-medium text-gray-900">Tasas de Cambio</h4>
+        <p className="text-sm text-gray-600">
+          Se usan para reportar en {CURRENCY_INFO[baseCurrency].name.toLowerCase()} los servicios cobrados en otra moneda
+        </p>
+      </div>
+
+      <ul className="divide-y divide-gray-200">
+        {foreignCurrencies.map(currency => (
+          <li key={currency} className="py-3">
+            <div className="flex items-center gap-3">
+              <label htmlFor={`exchange-rate-${currency}`} className="w-24 text-sm font-medium text-gray-700">
+                1 {currency} =
+              </label>
+              <input
+                id={`exchange-rate-${currency}`}
+                type="text"
+                inputMode="decimal"
+                value={values[currency]}
+                onChange={(e) => setValues(prev => ({ ...prev, [currency]: e.target.value }))}
+                aria-label={`Tasa ${currency} a ${baseCurrency}`}
+                className="block w-40 border border-gray-300 rounded-md px-3 py-2 shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+              <span className="text-sm text-gray-600">{baseCurrency}</span>
+              <button
+                type="button"
+                onClick={() => handleSave(currency)}
+                disabled={savingCurrency !== null}
+                className="ml-auto px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+              >
+                {savingCurrency === currency ? 'Guardando...' : `Guardar ${currency}`}
+              </button>
+            </div>
+            {errors[currency] && <p className="mt-1 text-sm text-red-600">{errors[currency]}</p>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
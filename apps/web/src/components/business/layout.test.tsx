@@ -54,6 +54,11 @@ jest.mock('./sidebar', () => ({
   },
 }));
 
+// Mock BusinessSwitcher component
+jest.mock('./business-switcher', () => ({
+  BusinessSwitcher: () => <div data-testid="business-switcher" />,
+}));
+
 // Mock auth context
 jest.mock('@/lib/auth-provider', () => ({
   useAuth: jest.fn(),
@@ -123,6 +128,16 @@ describe('BusinessLayout', () => {
     expect(screen.getByText('Test Content')).toBeInTheDocument();
   });
 
+  it('shows the location switcher above the page content', () => {
+    render(
+      <BusinessLayout>
+        <div>Test Content</div>
+      </BusinessLayout>
+    );
+
+    expect(screen.getByTestId('business-switcher')).toBeInTheDocument();
+  });
+
   it('shows mobile hamburger menu button', () => {
     mockGetCurrentBusinessId.mockReturnValue('business-123');
 
@@ -4,6 +4,7 @@ import { useState } from 'react';
 import { useSearchParams } from 'next/navigation';
 import { ProtectedRoute } from '@/components/auth/ProtectedRoute';
 import { BusinessSidebar } from './sidebar';
+import { BusinessSwitcher } from './business-switcher';
 import { Bars3Icon } from '@heroicons/react/24/outline';
 
 interface BusinessLayoutProps {
@@ -44,6 +45,11 @@ export function BusinessLayout({ children }: BusinessLayoutProps) {
             <div className="w-10" /> {/* Spacer for centering */}
           </div>
 
+          {/* Location switcher for owners with several businesses */}
+          <div className="flex items-center justify-end h-12 bg-white border-b border-gray-200 px-4 sm:px-6 lg:px-8">
+            <BusinessSwitcher />
+          </div>
+
           {/* Page content */}
           <main className="flex-1">
             {children}
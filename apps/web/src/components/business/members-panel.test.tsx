@@ -0,0 +1,74 @@
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MembersPanel } from './members-panel';
+import { BusinessRole, type BusinessMember } from '@appointments-demo/types';
+
+describe('MembersPanel', () => {
+  const member = (id: string, email: string, role: BusinessRole, status: BusinessMember['status'] = 'active'): BusinessMember => ({
+    id,
+    businessId: '123e4567-e89b-12d3-a456-426614174000',
+    email,
+    role,
+    status,
+    createdAt: new Date('2024-01-15T10:00:00Z'),
+    updatedAt: new Date('2024-01-15T10:00:00Z')
+  });
+
+  const members = [
+    member('member-owner', 'duena@salon.co', BusinessRole.OWNER),
+    member('member-reception', 'recepcion@salon.co', BusinessRole.RECEPTIONIST, 'invited')
+  ];
+
+  it('lists the team with roles and pending invitations, without removing the owner', () => {
+    render(<MembersPanel members={members} onInvite={jest.fn()} onRemove={jest.fn()} />);
+
+    expect(screen.getByText('duena@salon.co')).toBeInTheDocument();
+    expect(screen.getByText('Propietario')).toBeInTheDocument();
+    expect(screen.getByText('Recepcionista · Invitación pendiente')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Eliminar duena@salon.co' })).not.toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Eliminar recepcion@salon.co' })).toBeInTheDocument();
+  });
+
+  it('invites a member by email with the chosen role and shows the link', async () => {
+    const user = userEvent.setup();
+    const onInvite = jest.fn().mockResolvedValue({
+      invitationUrl: 'http://localhost:3000/invitations/abc',
+      emailSent: true
+    });
+    render(<MembersPanel members={members} onInvite={onInvite} onRemove={jest.fn()} />);
+
+    await user.type(screen.getByLabelText('Email'), 'Admin@Salon.co');
+    await user.selectOptions(screen.getByLabelText('Rol'), 'admin');
+    await user.click(screen.getByRole('button', { name: 'Invitar' }));
+
+    await waitFor(() => {
+      expect(onInvite).toHaveBeenCalledWith({ email: 'admin@salon.co', role: 'admin' });
+    });
+    expect(await screen.findByText('http://localhost:3000/invitations/abc')).toBeInTheDocument();
+    expect(screen.queryByRole('option', { name: 'Propietario' })).not.toBeInTheDocument();
+  });
+
+  it('rejects invalid emails without calling the API', async () => {
+    const user = userEvent.setup();
+    const onInvite = jest.fn();
+    render(<MembersPanel members={members} onInvite={onInvite} onRemove={jest.fn()} />);
+
+    await user.type(screen.getByLabelText('Email'), 'no-es-email');
+    await user.click(screen.getByRole('button', { name: 'Invitar' }));
+
+    expect(await screen.findByText('Email inválido')).toBeInTheDocument();
+    expect(onInvite).not.toHaveBeenCalled();
+  });
+
+  it('removes a member', async () => {
+    const user = userEvent.setup();
+    const onRemove = jest.fn().mockResolvedValue(undefined);
+    render(<MembersPanel members={members} onInvite={jest.fn()} onRemove={onRemove} />);
+
+    await user.click(screen.getByRole('button', { name: 'Eliminar recepcion@salon.co' }));
+
+    await waitFor(() => {
+      expect(onRemove).toHaveBeenCalledWith('member-reception');
+    });
+  });
+});
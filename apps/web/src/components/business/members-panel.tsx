@@ -0,0 +1,147 @@
+'use client';
+
+import { useState } from 'react';
+import { BusinessRole, type BusinessMember } from '@appointments-demo/types';
+import { BUSINESS_ROLE_LABELS } from '@/lib/business-permissions';
+import { InvitableRoleSchema, MemberInviteSchema, type MemberInviteData } from '@/components/forms/validation-schemas';
+
+export interface MemberInviteResult {
+  invitationUrl: string;
+  emailSent: boolean;
+}
+
+interface MembersPanelProps {
+  members: BusinessMember[];
+  onInvite: (invitation: MemberInviteData) => Promise<MemberInviteResult>;
+  onRemove: (memberId: string) => Promise<void>;
+}
+
+export function MembersPanel({ members, onInvite, onRemove }: MembersPanelProps) {
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<MemberInviteData['role']>(BusinessRole.RECEPTIONIST);
+  const [error, setError] = useState<string | null>(null);
+  const [invitation, setInvitation] = useState<MemberInviteResult | null>(null);
+  const [isInviting, setIsInviting] = useState(false);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validation = MemberInviteSchema.safeParse({ email, role });
+    if (!validation.success) {
+      setError(validation.error.issues[0]?.message ?? 'Invitación inválida');
+      return;
+    }
+
+    setError(null);
+    setInvitation(null);
+    setIsInviting(true);
+    try {
+      setInvitation(await onInvite(validation.data));
+      setEmail('');
+    } catch (err) {
+      console.error('Error inviting member:', err);
+      setError(err instanceof Error ? err.message : 'Error al enviar la invitación');
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleRemove = async (memberId: string) => {
+    setError(null);
+    setRemovingId(memberId);
+    try {
+      await onRemove(memberId);
+    } catch (err) {
+      console.error('Error removing member:', err);
+      setError('Error al eliminar el miembro');
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6 space-y-4">
+      <div>
+        <h4 className="text-md font-medium text-gray-900">Equipo</h4>
+        <p className="text-sm text-gray-600">
+          Los recepcionistas agendan citas; solo propietarios y administradores cambian la configuración
+        </p>
+      </div>
+
+      <ul className="divide-y divide-gray-200">
+        {members.map(member => (
+          <li key={member.id} className="py-3 flex items-center gap-3">
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-gray-900 truncate">{member.email}</p>
+              <p className="text-sm text-gray-600">
+                {BUSINESS_ROLE_LABELS[member.role]}
+                {member.status === 'invited' && ' · Invitación pendiente'}
+              </p>
+            </div>
+            {member.role !== BusinessRole.OWNER && (
+              <button
+                type="button"
+                onClick={() => handleRemove(member.id)}
+                disabled={removingId !== null}
+                aria-label={`Eliminar ${member.email}`}
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+              >
+                {removingId === member.id ? 'Eliminando...' : 'Eliminar'}
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <form onSubmit={handleInvite} className="flex flex-wrap items-end gap-3" noValidate>
+        <div>
+          <label htmlFor="member-email" className="block text-sm font-medium text-gray-700">
+            Email
+          </label>
+          <input
+            id="member-email"
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className="mt-1 block w-64 border border-gray-300 rounded-md px-3 py-2 shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <div>
+          <label htmlFor="member-role" className="block text-sm font-medium text-gray-700">
+            Rol
+          </label>
+          <select
+            id="member-role"
+            value={role}
+            onChange={(e) => setRole(e.target.value as MemberInviteData['role'])}
+            className="mt-1 block w-48 border border-gray-300 rounded-md px-3 py-2 shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          >
+            {InvitableRoleSchema.options.map(option => (
+              <option key={option} value={option}>
+                {BUSINESS_ROLE_LABELS[option as BusinessRole]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <button
+          type="submit"
+          disabled={isInviting}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isInviting ? 'Enviando...' : 'Invitar'}
+        </button>
+      </form>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {invitation && (
+        <p className="text-sm text-green-700">
+          {invitation.emailSent
+            ? 'Invitación enviada por email.'
+            : 'Esta persona ya tiene cuenta; compártele el enlace de invitación:'}{' '}
+          <span className="break-all font-mono">{invitation.invitationUrl}</span>
+        </p>
+      )}
+    </div>
+  );
+}
@@ -22,7 +22,10 @@ describe('Business Registration Validation', () => {
       const validPhones = [
         '+57 300 123 4567',
         '+57 310 987 6543',
-        '+57 320 555 1234'
+        '+57 320 555 1234',
+        '+57 333 555 1234',     // Newer mobile block
+        '+57 601 234 5678',     // Bogotá landline
+        '+57 604 444 5566'      // Medellín landline
       ];
 
       validPhones.forEach(phone => {
@@ -38,6 +41,8 @@ describe('Business Registration Validation', () => {
         '+57 300 123 45678',    // Too long
         '+58 300 123 4567',     // Wrong country code
         '+57300123456',         // Missing spaces
+        '+57 603 123 4567',     // Unassigned landline indicative
+        '+57 200 123 4567',     // Not a mobile or landline prefix
         'invalid'               // Not a number
       ];
 
@@ -123,6 +128,54 @@ describe('Business Registration Validation', () => {
       expect(colombianDepartments).toHaveLength(32);
     });
 
+    it('accepts Bogotá D.C. as a department', () => {
+      expect(() => ColombianAddressSchema.parse({
+        street: 'Carrera 7 #72-41',
+        city: 'Bogotá',
+        department: 'Bogotá D.C.'
+      })).not.toThrow();
+    });
+
+    it('accepts a DANE municipality code that belongs to the department', () => {
+      const address = {
+        street: 'Calle 10 #5-20',
+        city: 'Jardín',
+        department: 'Antioquia',
+        municipalityCode: '05364'
+      };
+
+      expect(ColombianAddressSchema.parse(address)).toEqual({ ...address, street: 'Calle 10 # 5-20' });
+    });
+
+    it('stores equivalent street spellings in the same canonical form', () => {
+      ['Cra 15 #93-47', 'KR 15 N 93 47', 'Carrera 15 # 93-47'].forEach(street => {
+        expect(ColombianAddressSchema.parse({ street, city: 'Bogotá', department: 'Bogotá D.C.' }).street)
+          .toBe('Carrera 15 # 93-47');
+      });
+    });
+
+    it('keeps streets outside the urban nomenclature as typed', () => {
+      expect(ColombianAddressSchema.parse({
+        street: '  Vereda El Rosal, Finca La Esperanza ',
+        city: 'Guasca',
+        department: 'Cundinamarca'
+      }).street).toBe('Vereda El Rosal, Finca La Esperanza');
+    });
+
+    it('rejects a DANE municipality code from another department', () => {
+      const result = ColombianAddressSchema.safeParse({
+        street: 'Calle 10 #5-20',
+        city: 'Cali',
+        department: 'Antioquia',
+        municipalityCode: '76001'
+      });
+
+      expect(result.success).toBe(false);
+      expect(extractValidationErrors(result.error!).municipalityCode).toBe(
+        'El municipio no pertenece al departamento seleccionado'
+      );
+    });
+
     it('provides Spanish error messages for address validation', () => {
       try {
         ColombianAddressSchema.parse({
@@ -74,7 +74,7 @@ export function ColombianBusinessForm({ onSubmit, isLoading = false }: Colombian
     }
   };
 
-  const handleAddressChange = (address: { street: string; city: string; department: string }) => {
+  const handleAddressChange = (address: BusinessRegistrationData['address']) => {
     const newFormData = { ...formData, address };
     setFormData(newFormData);
     
@@ -0,0 +1,57 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { ReminderSettingsEditor, describeReminderSettings } from './reminder-settings-editor';
+import type { ReminderSettings } from '@appointments-demo/types';
+
+describe('ReminderSettingsEditor', () => {
+  const reminders: ReminderSettings = {
+    enabled: true,
+    offsetsMinutes: [1440, 120],
+    channels: ['whatsapp'],
+    quietHours: { start: '21:00', end: '07:00' }
+  };
+
+  it('adds and removes reminder offsets', async () => {
+    const onChange = jest.fn();
+    render(<ReminderSettingsEditor reminders={reminders} onChange={onChange} />);
+
+    await userEvent.click(screen.getByRole('checkbox', { name: '30 min antes' }));
+    expect(onChange).toHaveBeenLastCalledWith({ ...reminders, offsetsMinutes: [1440, 120, 30] });
+
+    await userEvent.click(screen.getByRole('checkbox', { name: '2 h antes' }));
+    expect(onChange).toHaveBeenLastCalledWith({ ...reminders, offsetsMinutes: [1440] });
+  });
+
+  it('edits and turns off the quiet hours', async () => {
+    const onChange = jest.fn();
+    render(<ReminderSettingsEditor reminders={reminders} onChange={onChange} />);
+
+    fireEvent.change(screen.getByLabelText('Inicio del horario de silencio'), { target: { value: '20:00' } });
+    expect(onChange).toHaveBeenLastCalledWith({ ...reminders, quietHours: { start: '20:00', end: '07:00' } });
+
+    await userEvent.click(screen.getByRole('checkbox', { name: /horario de silencio/i }));
+    expect(onChange).toHaveBeenLastCalledWith({ ...reminders, quietHours: undefined });
+  });
+
+  it('hides the options while reminders are off and shows field errors', () => {
+    const { rerender } = render(
+      <ReminderSettingsEditor reminders={{ ...reminders, enabled: false }} onChange={jest.fn()} />
+    );
+    expect(screen.queryByText('Canales')).not.toBeInTheDocument();
+
+    rerender(
+      <ReminderSettingsEditor
+        reminders={{ ...reminders, channels: [] }}
+        onChange={jest.fn()}
+        errors={{ channels: 'Selecciona al menos un canal' }}
+      />
+    );
+    expect(screen.getByText('Selecciona al menos un canal')).toBeInTheDocument();
+  });
+
+  it('summarizes the settings for the change history', () => {
+    expect(describeReminderSettings(undefined)).toBe('Desactivados');
+    expect(describeReminderSettings({ ...reminders, channels: ['whatsapp', 'email'] }))
+      .toBe('24 h y 2 h antes por WhatsApp, Correo electrónico, sin envíos de 21:00 a 07:00');
+  });
+});
@@ -0,0 +1,138 @@
+'use client';
+
+import type { QuietHours, ReminderChannel, ReminderSettings } from '@appointments-demo/types';
+import { DEFAULT_REMINDER_SETTINGS } from '@appointments-demo/utils';
+
+interface ReminderSettingsEditorProps {
+  reminders: ReminderSettings;
+  onChange: (reminders: ReminderSettings) => void;
+  errors?: Record<string, string>; // Keyed by field (offsetsMinutes, channels, quietHours)
+}
+
+const CHANNEL_OPTIONS: { value: ReminderChannel; label: string }[] = [
+  { value: 'whatsapp', label: 'WhatsApp' },
+  { value: 'sms', label: 'SMS' },
+  { value: 'email', label: 'Correo electrónico' }
+];
+
+// Offsets offered as checkboxes, in minutes before the appointment
+const OFFSET_OPTIONS = [2880, 1440, 720, 240, 120, 60, 30];
+
+export const formatReminderOffset = (minutes: number): string =>
+  minutes % 60 === 0 ? `${minutes / 60} h` : `${minutes} min`;
+
+export const describeReminderSettings = (reminders?: ReminderSettings): string => {
+  if (!reminders?.enabled) return 'Desactivados';
+
+  const offsets = [...reminders.offsetsMinutes].sort((a, b) => b - a).map(formatReminderOffset).join(' y ');
+  const channels = CHANNEL_OPTIONS
+    .filter(option => reminders.channels.includes(option.value))
+    .map(option => option.label)
+    .join(', ');
+  const quiet = reminders.quietHours ? `, sin envíos de ${reminders.quietHours.start} a ${reminders.quietHours.end}` : '';
+
+  return `${offsets} antes por ${channels}${quiet}`;
+};
+
+const toggle = <T,>(values: T[], value: T, checked: boolean): T[] =>
+  checked ? [...values.filter(v => v !== value), value] : values.filter(v => v !== value);
+
+export function ReminderSettingsEditor({ reminders, onChange, errors = {} }: ReminderSettingsEditorProps) {
+  // Offsets saved through the API that are not presets are still listed
+  const offsetOptions = Array.from(new Set([...OFFSET_OPTIONS, ...reminders.offsetsMinutes])).sort((a, b) => b - a);
+  const quietHours: QuietHours = reminders.quietHours || DEFAULT_REMINDER_SETTINGS.quietHours!;
+
+  const update = (changes: Partial<ReminderSettings>) => onChange({ ...reminders, ...changes });
+
+  return (
+    <div className="space-y-4">
+      <label className="flex items-center space-x-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={reminders.enabled}
+          onChange={(e) => update({ enabled: e.target.checked })}
+          className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+        />
+        <span>Enviar recordatorios de citas</span>
+      </label>
+
+      {reminders.enabled && (
+        <>
+          <fieldset>
+            <legend className="text-sm font-medium text-gray-700">Enviar antes de la cita</legend>
+            <div className="mt-2 flex flex-wrap gap-4">
+              {offsetOptions.map(offset => (
+                <label key={offset} className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={reminders.offsetsMinutes.includes(offset)}
+                    onChange={(e) => update({ offsetsMinutes: toggle(reminders.offsetsMinutes, offset, e.target.checked) })}
+                    className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                  />
+                  <span>{formatReminderOffset(offset)} antes</span>
+                </label>
+              ))}
+            </div>
+            {errors.offsetsMinutes && (
+              <p className="mt-1 text-sm text-red-600">{errors.offsetsMinutes}</p>
+            )}
+          </fieldset>
+
+          <fieldset>
+            <legend className="text-sm font-medium text-gray-700">Canales</legend>
+            <div className="mt-2 flex flex-wrap gap-4">
+              {CHANNEL_OPTIONS.map(option => (
+                <label key={option.value} className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={reminders.channels.includes(option.value)}
+                    onChange={(e) => update({ channels: toggle(reminders.channels, option.value, e.target.checked) })}
+                    className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                  />
+                  <span>{option.label}</span>
+                </label>
+              ))}
+            </div>
+            {errors.channels && (
+              <p className="mt-1 text-sm text-red-600">{errors.channels}</p>
+            )}
+          </fieldset>
+
+          <fieldset>
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={!!reminders.quietHours}
+                onChange={(e) => update({ quietHours: e.target.checked ? quietHours : undefined })}
+                className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+              />
+              <span>Horario de silencio</span>
+            </label>
+            {reminders.quietHours && (
+              <div className="mt-2 flex items-center space-x-2">
+                <input
+                  type="time"
+                  aria-label="Inicio del horario de silencio"
+                  value={quietHours.start}
+                  onChange={(e) => update({ quietHours: { ...quietHours, start: e.target.value } })}
+                  className="border border-gray-300 rounded-md px-3 py-2 text-sm shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+                <span className="text-sm text-gray-500">a</span>
+                <input
+                  type="time"
+                  aria-label="Fin del horario de silencio"
+                  value={quietHours.end}
+                  onChange={(e) => update({ quietHours: { ...quietHours, end: e.target.value } })}
+                  className="border border-gray-300 rounded-md px-3 py-2 text-sm shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+            )}
+            {errors.quietHours && (
+              <p className="mt-1 text-sm text-red-600">{errors.quietHours}</p>
+            )}
+          </fieldset>
+        </>
+      )}
+    </div>
+  );
+}
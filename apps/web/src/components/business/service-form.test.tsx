@@ -0,0 +1,159 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { ServiceForm } from './service-form';
+import type { Service } from '@appointments-demo/types';
+
+describe('ServiceForm', () => {
+  const mockService: Service = {
+    id: 'service-1',
+    businessId: '123e4567-e89b-12d3-a456-426614174000',
+    name: 'Corte de cabello',
+    description: 'Incluye lavado',
+    duration: 45,
+    price: 45000,
+    currency: 'COP',
+    bufferMinutes: 10,
+    isActive: true,
+    createdAt: new Date('2024-01-15T10:00:00Z'),
+    updatedAt: new Date('2024-01-15T10:00:00Z')
+  };
+
+  const mockOnSave = jest.fn();
+  const mockOnCancel = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // Suppress console.error during tests
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('renders the current service with the price in Colombian format', () => {
+    render(<ServiceForm service={mockService} onSave={mockOnSave} onCancel={mockOnCancel} />);
+
+    expect(screen.getByText('Editar Servicio')).toBeInTheDocument();
+    expect(screen.getByDisplayValue('Corte de cabello')).toBeInTheDocument();
+    expect(screen.getByLabelText('Precio *')).toHaveValue('45.000');
+    expect(screen.getByLabelText('Duración (minutos) *')).toHaveValue(45);
+  });
+
+  it('parses peso amounts when saving a new service', async () => {
+    const user = userEvent.setup();
+    mockOnSave.mockResolvedValue(undefined);
+
+    render(<ServiceForm onSave={mockOnSave} onCancel={mockOnCancel} />);
+
+    await user.type(screen.getByLabelText('Nombre del Servicio *'), 'Tinte');
+    await user.type(screen.getByLabelText('Precio *'), '$ 120.000');
+    await user.click(screen.getByText('Guardar Servicio'));
+
+    await waitFor(() => {
+      expect(mockOnSave).toHaveBeenCalledWith({
+        name: 'Tinte',
+        description: undefined,
+        duration: 30,
+        price: 120000,
+        bufferMinutes: 0,
+        isActive: true
+      });
+    });
+  });
+
+  it('saves dollar prices with cents in the chosen currency', async () => {
+    const user = userEvent.setup();
+    mockOnSave.mockResolvedValue(undefined);
+
+    render(<ServiceForm onSave={mockOnSave} onCancel={mockOnCancel} />);
+
+    await user.type(screen.getByLabelText('Nombre del Servicio *'), 'Masaje relajante');
+    await user.selectOptions(screen.getByLabelText('Moneda'), 'USD');
+    await user.type(screen.getByLabelText('Precio *'), '35,5');
+    fireEvent.blur(screen.getByLabelText('Precio *'));
+    await user.click(screen.getByText('Guardar Servicio'));
+
+    expect(screen.getByLabelText('Precio *')).toHaveValue('35,50');
+    await waitFor(() => {
+      expect(mockOnSave).toHaveBeenCalledWith(expect.objectContaining({ price: 35.5, currency: 'USD' }));
+    });
+  });
+
+  it('rejects cents for peso prices', async () => {
+    const user = userEvent.setup();
+
+    render(<ServiceForm service={mockService} onSave={mockOnSave} onCancel={mockOnCancel} />);
+
+    const priceInput = screen.getByLabelText('Precio *');
+    await user.clear(priceInput);
+    await user.type(priceInput, '45000,5');
+    await user.click(screen.getByText('Guardar Servicio'));
+
+    expect(screen.getByText('Precio inválido (ej. 45.000)')).toBeInTheDocument();
+    expect(mockOnSave).not.toHaveBeenCalled();
+  });
+
+  it('reformats the price when leaving the field', async () => {
+    const user = userEvent.setup();
+
+    render(<ServiceForm onSave={mockOnSave} onCancel={mockOnCancel} />);
+
+    const priceInput = screen.getByLabelText('Precio *');
+    await user.type(priceInput, '85000');
+    fireEvent.blur(priceInput);
+
+    expect(priceInput).toHaveValue('85.000');
+  });
+
+  it('accepts free services', async () => {
+    const user = userEvent.setup();
+    mockOnSave.mockResolvedValue(undefined);
+
+    render(<ServiceForm onSave={mockOnSave} onCancel={mockOnCancel} />);
+
+    await user.type(screen.getByLabelText('Nombre del Servicio *'), 'Valoración');
+    await user.type(screen.getByLabelText('Precio *'), '0');
+    await user.click(screen.getByText('Guardar Servicio'));
+
+    await waitFor(() => {
+      expect(mockOnSave).toHaveBeenCalledWith(expect.objectContaining({ price: 0 }));
+    });
+  });
+
+  it('validates required fields and price format', async () => {
+    const user = userEvent.setup();
+
+    render(<ServiceForm onSave={mockOnSave} onCancel={mockOnCancel} />);
+
+    await user.type(screen.getByLabelText('Precio *'), 'gratis');
+    await user.click(screen.getByText('Guardar Servicio'));
+
+    expect(screen.getByText('El nombre del servicio es requerido')).toBeInTheDocument();
+    expect(screen.getByText('Precio inválido (ej. 45.000)')).toBeInTheDocument();
+    expect(mockOnSave).not.toHaveBeenCalled();
+  });
+
+  it('shows the save error message', async () => {
+    const user = userEvent.setup();
+    mockOnSave.mockRejectedValue(new Error('Ya existe un servicio con este nombre'));
+
+    render(<ServiceForm service={mockService} onSave={mockOnSave} onCancel={mockOnCancel} />);
+
+    await user.click(screen.getByText('Guardar Servicio'));
+
+    await waitFor(() => {
+      expect(screen.getByText('Ya existe un servicio con este nombre')).toBeInTheDocument();
+    });
+  });
+
+  it('calls onCancel when cancel is clicked', async () => {
+    const user = userEvent.setup();
+
+    render(<ServiceForm onSave={mockOnSave} onCancel={mockOnCancel} />);
+
+    await user.click(screen.getByText('Cancelar'));
+
+    expect(mockOnCancel).toHaveBeenCalled();
+  });
+});
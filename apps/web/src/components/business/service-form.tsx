@@ -0,0 +1,291 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import type { CurrencyCode, Service } from '@appointments-demo/types';
+import {
+  CURRENCY_INFO,
+  SUPPORTED_CURRENCIES,
+  formatMoney,
+  hasValidPrecision,
+  parsePesoString
+} from '@appointments-demo/utils';
+
+// Without a currency the API prices the service in the business currency
+export type ServiceFormValues = Omit<Service, 'id' | 'businessId' | 'currency' | 'createdAt' | 'updatedAt'> & {
+  currency?: CurrencyCode;
+};
+
+interface ServiceFormProps {
+  service?: Service;
+  onSave: (values: ServiceFormValues) => Promise<void>;
+  onCancel: () => void;
+}
+
+interface FormData {
+  name: string;
+  description: string;
+  duration: string;
+  price: string;
+  currency: CurrencyCode | '';
+  bufferMinutes: string;
+  isActive: boolean;
+}
+
+interface FormErrors {
+  [key: string]: string;
+}
+
+// Colombian format ("45.000", "45,50"). parsePesoString treats "0" as invalid, but free
+// services are allowed, and a dot followed by one or two digits can only be decimals ("45.5")
+const parsePrice = (value: string): number | null => {
+  if (/^\s*\$?\s*0\s*$/.test(value)) return 0;
+  const decimalDot = /^\s*\$?\s*(\d+)\.(\d{1,2})\s*$/.exec(value);
+  if (decimalDot) return Number(`${decimalDot[1]}.${decimalDot[2]}`);
+  return parsePesoString(value);
+};
+
+// Cents are only checked for an explicit currency; the API checks the business currency
+const isValidPrice = (price: number | null, currency: CurrencyCode | ''): price is number =>
+  price !== null && price >= 0 && hasValidPrecision(price, currency || 'USD');
+
+const formatPriceForInput = (price: number, currency: CurrencyCode | '') =>
+  formatMoney(price, currency || (Number.isInteger(price) ? 'COP' : 'USD'), { showSymbol: false });
+
+export function ServiceForm({ service, onSave, onCancel }: ServiceFormProps) {
+  const [formData, setFormData] = useState<FormData>({
+    name: service?.name || '',
+    description: service?.description || '',
+    duration: service ? String(service.duration) : '30',
+    price: service ? formatPriceForInput(service.price, service.currency) : '',
+    currency: service?.currency ?? '',
+    bufferMinutes: service ? String(service.bufferMinutes) : '0',
+    isActive: service?.isActive ?? true
+  });
+
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [isLoading, setIsLoading] = useState(false);
+
+  const validateForm = useCallback((): boolean => {
+    const newErrors: FormErrors = {};
+
+    if (!formData.name.trim()) {
+      newErrors.name = 'El nombre del servicio es requerido';
+    }
+
+    const duration = Number(formData.duration);
+    if (!Number.isInteger(duration) || duration < 5 || duration > 720) {
+      newErrors.duration = 'La duración debe estar entre 5 y 720 minutos';
+    }
+
+    if (!isValidPrice(parsePrice(formData.price), formData.currency)) {
+      newErrors.price = formData.currency && formData.currency !== 'COP'
+        ? 'Precio inválido (ej. 45,50)'
+        : 'Precio inválido (ej. 45.000)';
+    }
+
+    const bufferMinutes = Number(formData.bufferMinutes);
+    if (!Number.isInteger(bufferMinutes) || bufferMinutes < 0 || bufferMinutes > 240) {
+      newErrors.bufferMinutes = 'El tiempo de preparación debe estar entre 0 y 240 minutos';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  }, [formData]);
+
+  const handleInputChange = useCallback((field: keyof FormData, value: string | boolean) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+
+    // Clear error for this field when user starts typing
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: '' }));
+    }
+  }, [errors]);
+
+  // Normalize the price to Colombian thousands format when leaving the field
+  const handlePriceBlur = useCallback(() => {
+    const price = parsePrice(formData.price);
+    if (isValidPrice(price, formData.currency)) {
+      setFormData(prev => ({ ...prev, price: formatPriceForInput(price, formData.currency) }));
+    }
+  }, [formData.price, formData.currency]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await onSave({
+        name: formData.name.trim(),
+        description: formData.description.trim() || undefined,
+        duration: Number(formData.duration),
+        price: parsePrice(formData.price) ?? 0,
+        ...(formData.currency && { currency: formData.currency }),
+        bufferMinutes: Number(formData.bufferMinutes),
+        isActive: formData.isActive
+      });
+    } catch (error) {
+      console.error('Error saving service:', error);
+      setErrors({ submit: error instanceof Error ? error.message : 'Error al guardar el servicio. Inténtalo de nuevo.' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white shadow rounded-lg p-6 space-y-6">
+      <div className="border-b border-gray-200 pb-4">
+        <h3 className="text-lg font-medium text-gray-900">
+          {service ? 'Editar Servicio' : 'Nuevo Servicio'}
+        </h3>
+        <p className="mt-1 text-sm text-gray-600">
+          Define la duración y el precio del servicio
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="md:col-span-2">
+          <label htmlFor="service-name" className="block text-sm font-medium text-gray-700">
+            Nombre del Servicio *
+          </label>
+          <input
+            type="text"
+            id="service-name"
+            value={formData.name}
+            onChange={(e) => handleInputChange('name', e.target.value)}
+            className={`mt-1 block w-full border rounded-md px-3 py-2 shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 ${
+              errors.name ? 'border-red-300' : 'border-gray-300'
+            }`}
+            placeholder="Ej. Corte de cabello"
+          />
+          {errors.name && <p className="mt-1 text-sm text-red-600">{errors.name}</p>}
+        </div>
+
+        <div className="md:col-span-2">
+          <label htmlFor="service-description" className="block text-sm font-medium text-gray-700">
+            Descripción
+          </label>
+          <textarea
+            id="service-description"
+            rows={2}
+            value={formData.description}
+            onChange={(e) => handleInputChange('description', e.target.value)}
+            className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            placeholder="Describe el servicio..."
+          />
+        </div>
+
+        <div>
+          <label htmlFor="service-price" className="block text-sm font-medium text-gray-700">
+            Precio *
+          </label>
+          <div className="mt-1 flex">
+            <select
+              id="service-currency"
+              aria-label="Moneda"
+              value={formData.currency}
+              onChange={(e) => handleInputChange('currency', e.target.value)}
+              className="border border-gray-300 rounded-l-md px-2 py-2 bg-gray-50 text-sm text-gray-700 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            >
+              {!service && <option value="">Moneda del negocio</option>}
+              {SUPPORTED_CURRENCIES.map(currency => (
+                <option key={currency} value={currency}>
+                  {currency} - {CURRENCY_INFO[currency].name}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              inputMode="decimal"
+              id="service-price"
+              value={formData.price}
+              onChange={(e) => handleInputChange('price', e.target.value)}
+              onBlur={handlePriceBlur}
+              className={`block w-full border border-l-0 rounded-r-md px-3 py-2 shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 ${
+                errors.price ? 'border-red-300' : 'border-gray-300'
+              }`}
+              placeholder="45.000"
+            />
+          </div>
+          {errors.price && <p className="mt-1 text-sm text-red-600">{errors.price}</p>}
+        </div>
+
+        <div>
+          <label htmlFor="service-duration" className="block text-sm font-medium text-gray-700">
+            Duración (minutos) *
+          </label>
+          <input
+            type="number"
+            id="service-duration"
+            min={5}
+            max={720}
+            step={5}
+            value={formData.duration}
+            onChange={(e) => handleInputChange('duration', e.target.value)}
+            className={`mt-1 block w-full border rounded-md px-3 py-2 shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 ${
+              errors.duration ? 'border-red-300' : 'border-gray-300'
+            }`}
+          />
+          {errors.duration && <p className="mt-1 text-sm text-red-600">{errors.duration}</p>}
+        </div>
+
+        <div>
+          <label htmlFor="service-buffer" className="block text-sm font-medium text-gray-700">
+            Tiempo de preparación (minutos)
+          </label>
+          <input
+            type="number"
+            id="service-buffer"
+            min={0}
+            max={240}
+            step={5}
+            value={formData.bufferMinutes}
+            onChange={(e) => handleInputChange('bufferMinutes', e.target.value)}
+            className={`mt-1 block w-full border rounded-md px-3 py-2 shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 ${
+              errors.bufferMinutes ? 'border-red-300' : 'border-gray-300'
+            }`}
+          />
+          {errors.bufferMinutes && <p className="mt-1 text-sm text-red-600">{errors.bufferMinutes}</p>}
+        </div>
+
+        <div className="flex items-center">
+          <input
+            type="checkbox"
+            id="service-active"
+            checked={formData.isActive}
+            onChange={(e) => handleInputChange('isActive', e.target.checked)}
+            className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+          />
+          <label htmlFor="service-active" className="ml-2 block text-sm text-gray-700">
+            Disponible para reservas
+          </label>
+        </div>
+      </div>
+
+      {/* Form Actions */}
+      <div className="border-t border-gray-200 pt-6 flex justify-end space-x-3">
+        {errors.submit && (
+          <p className="flex-1 text-sm text-red-600">{errors.submit}</p>
+        )}
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={isLoading}
+          className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Cancelar
+        </button>
+        <button
+          type="submit"
+          disabled={isLoading}
+          className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isLoading ? 'Guardando...' : 'Guardar Servicio'}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,186 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { SpecialistForm } from './specialist-form';
+import type { BusinessHours, Service, Specialist } from '@appointments-demo/types';
+
+describe('SpecialistForm', () => {
+  const businessHours: BusinessHours[] = Array.from({ length: 7 }, (_, dayOfWeek) => ({
+    dayOfWeek,
+    intervals: [{ openTime: '08:00', closeTime: '18:00' }],
+    isOpen: dayOfWeek !== 0
+  }));
+
+  const mockService: Service = {
+    id: 'service-1',
+    businessId: '123e4567-e89b-12d3-a456-426614174000',
+    name: 'Corte de cabello',
+    duration: 45,
+    price: 45000,
+    currency: 'COP',
+    bufferMinutes: 0,
+    isActive: true,
+    createdAt: new Date('2024-01-15T10:00:00Z'),
+    updatedAt: new Date('2024-01-15T10:00:00Z')
+  };
+
+  const mockSpecialist: Specialist = {
+    id: 'specialist-1',
+    businessId: '123e4567-e89b-12d3-a456-426614174000',
+    name: 'Valentina Ríos',
+    phone: '+57 301 234 5678',
+    schedule: [{ dayOfWeek: 1, intervals: [{ openTime: '09:00', closeTime: '13:00' }], isOpen: true }],
+    serviceIds: ['service-1'],
+    isActive: true,
+    createdAt: new Date('2024-01-15T10:00:00Z'),
+    updatedAt: new Date('2024-01-15T10:00:00Z')
+  };
+
+  const mockOnSave = jest.fn();
+  const mockOnCancel = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // Suppress console.error during tests
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('renders the current specialist with their schedule and services', () => {
+    render(
+      <SpecialistForm
+        specialist={mockSpecialist}
+        businessHours={businessHours}
+        services={[mockService]}
+        onSave={mockOnSave}
+        onCancel={mockOnCancel}
+      />
+    );
+
+    expect(screen.getByText('Editar Especialista')).toBeInTheDocument();
+    expect(screen.getByLabelText('Lunes')).toBeChecked();
+    expect(screen.getByLabelText('Hora de entrada Lunes')).toHaveValue('09:00');
+    expect(screen.getByLabelText('Martes')).not.toBeChecked();
+    expect(screen.getByLabelText('Domingo')).toBeDisabled();
+    expect(screen.getByLabelText('Corte de cabello')).toBeChecked();
+  });
+
+  it('formats the phone and saves the full weekly schedule', async () => {
+    const user = userEvent.setup();
+    mockOnSave.mockResolvedValue(undefined);
+
+    render(
+      <SpecialistForm
+        businessHours={businessHours}
+        services={[mockService]}
+        onSave={mockOnSave}
+        onCancel={mockOnCancel}
+      />
+    );
+
+    await user.type(screen.getByLabelText('Nombre *'), 'Andrés Mejía');
+    const phoneInput = screen.getByLabelText('Teléfono');
+    await user.type(phoneInput, '3011234567');
+    fireEvent.blur(phoneInput);
+    expect(phoneInput).toHaveValue('+57 301 123 4567');
+
+    await user.click(screen.getByLabelText('Martes'));
+    await user.click(screen.getByLabelText('Corte de cabello'));
+    await user.click(screen.getByText('Guardar Especialista'));
+
+    await waitFor(() => {
+      expect(mockOnSave).toHaveBeenCalledWith(expect.objectContaining({
+        name: 'Andrés Mejía',
+        phone: '+57 301 123 4567',
+        serviceIds: ['service-1'],
+        isActive: true
+      }));
+    });
+
+    const { schedule } = mockOnSave.mock.calls[0][0];
+    expect(schedule).toHaveLength(7);
+    expect(schedule.filter((day: BusinessHours) => day.isOpen)).toEqual([
+      { dayOfWeek: 2, intervals: [{ openTime: '08:00', closeTime: '18:00' }], isOpen: true }
+    ]);
+  });
+
+  it('rejects hours outside the business hours', async () => {
+    const user = userEvent.setup();
+
+    render(
+      <SpecialistForm
+        specialist={mockSpecialist}
+        businessHours={businessHours}
+        services={[]}
+        onSave={mockOnSave}
+        onCancel={mockOnCancel}
+      />
+    );
+
+    fireEvent.change(screen.getByLabelText('Hora de salida Lunes'), { target: { value: '19:00' } });
+    await user.click(screen.getByText('Guardar Especialista'));
+
+    expect(screen.getByText('El horario debe estar entre 08:00 y 18:00')).toBeInTheDocument();
+    expect(mockOnSave).not.toHaveBeenCalled();
+  });
+
+  it('starts new working days with the business split shift and keeps the break free', async () => {
+    const user = userEvent.setup();
+    const splitShifts = businessHours.map(day => ({
+      ...day,
+      intervals: [{ openTime: '08:00', closeTime: '12:00' }, { openTime: '14:00', closeTime: '18:00' }]
+    }));
+
+    render(
+      <SpecialistForm
+        specialist={mockSpecialist}
+        businessHours={splitShifts}
+        services={[]}
+        onSave={mockOnSave}
+        onCancel={mockOnCancel}
+      />
+    );
+
+    await user.click(screen.getByLabelText('Martes'));
+    expect(screen.getByLabelText('Hora de entrada Martes')).toHaveValue('08:00');
+    expect(screen.getByLabelText('Hora de salida Martes (2)')).toHaveValue('18:00');
+
+    // Monday 09:00-13:00 runs into the lunch break
+    await user.click(screen.getByText('Guardar Especialista'));
+    expect(screen.getByText('El horario debe estar entre 08:00 y 12:00 o entre 14:00 y 18:00')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Hora de salida Lunes'), { target: { value: '12:00' } });
+    await user.click(screen.getByRole('button', { name: 'Agregar horario Lunes' }));
+    await user.click(screen.getByText('Guardar Especialista'));
+
+    await waitFor(() => {
+      expect(mockOnSave).toHaveBeenCalled();
+    });
+    const { schedule } = mockOnSave.mock.calls[0][0];
+    expect(schedule.filter((day: BusinessHours) => day.isOpen).map((day: BusinessHours) => day.intervals)).toEqual([
+      [{ openTime: '09:00', closeTime: '12:00' }, { openTime: '14:00', closeTime: '18:00' }],
+      splitShifts[2].intervals
+    ]);
+  });
+
+  it('shows the API error when saving fails', async () => {
+    const user = userEvent.setup();
+    mockOnSave.mockRejectedValue(new Error('Uno o más servicios no existen en este negocio'));
+
+    render(
+      <SpecialistForm
+        specialist={mockSpecialist}
+        businessHours={businessHours}
+        services={[mockService]}
+        onSave={mockOnSave}
+        onCancel={mockOnCancel}
+      />
+    );
+
+    await user.click(screen.getByText('Guardar Especialista'));
+
+    expect(await screen.findByText('Uno o más servicios no existen en este negocio')).toBeInTheDocument();
+  });
+});
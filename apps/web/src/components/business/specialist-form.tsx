@@ -0,0 +1,405 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import type { BusinessHours, Service, Specialist, TimeRange } from '@appointments-demo/types';
+import { formatColombianPhone, validateScheduleWithinBusinessHours } from '@appointments-demo/utils';
+
+export type SpecialistFormValues = Omit<Specialist, 'id' | 'businessId' | 'createdAt' | 'updatedAt'>;
+
+interface SpecialistFormProps {
+  specialist?: Specialist;
+  businessHours: BusinessHours[];
+  services: Service[];
+  onSave: (values: SpecialistFormValues) => Promise<void>;
+  onCancel: () => void;
+}
+
+interface FormData {
+  name: string;
+  email: string;
+  phone: string;
+  isActive: boolean;
+}
+
+interface FormErrors {
+  [key: string]: string;
+}
+
+const DAY_NAMES = ['Domingo', 'Lunes', 'Martes', 'Miércoles', 'Jueves', 'Viernes', 'Sábado'];
+
+const DEFAULT_INTERVALS: TimeRange[] = [{ openTime: '08:00', closeTime: '18:00' }];
+
+// Typical afternoon shift offered when a day gets a second interval
+const NEW_INTERVAL: TimeRange = { openTime: '14:00', closeTime: '18:00' };
+
+// Intervals a day starts with: the business's own, so split shifts keep their break
+const businessIntervals = (businessHours: BusinessHours[], dayOfWeek: number): TimeRange[] => {
+  const businessDay = businessHours.find(h => h.dayOfWeek === dayOfWeek);
+  return businessDay?.intervals.length ? businessDay.intervals : DEFAULT_INTERVALS;
+};
+
+// One entry per day; days without a saved schedule start from the business hours
+const buildWeeklySchedule = (schedule: BusinessHours[], businessHours: BusinessHours[]): BusinessHours[] =>
+  Array.from({ length: 7 }, (_, dayOfWeek) => {
+    const existing = schedule.find(h => h.dayOfWeek === dayOfWeek);
+    if (existing) return existing;
+
+    return {
+      dayOfWeek,
+      intervals: businessIntervals(businessHours, dayOfWeek),
+      isOpen: false
+    };
+  });
+
+export function SpecialistForm({ specialist, businessHours, services, onSave, onCancel }: SpecialistFormProps) {
+  const [formData, setFormData] = useState<FormData>({
+    name: specialist?.name || '',
+    email: specialist?.email || '',
+    phone: specialist?.phone || '',
+    isActive: specialist?.isActive ?? true
+  });
+
+  const [schedule, setSchedule] = useState<BusinessHours[]>(() =>
+    buildWeeklySchedule(specialist?.schedule || [], businessHours)
+  );
+  const [serviceIds, setServiceIds] = useState<string[]>(specialist?.serviceIds || []);
+
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [isLoading, setIsLoading] = useState(false);
+
+  const validateForm = useCallback((): boolean => {
+    const newErrors: FormErrors = {};
+
+    if (!formData.name.trim()) {
+      newErrors.name = 'El nombre del especialista es requerido';
+    }
+
+    if (formData.email.trim() && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.email.trim())) {
+      newErrors.email = 'Email inválido';
+    }
+
+    if (formData.phone.trim() && !formatColombianPhone(formData.phone)) {
+      newErrors.phone = 'Formato de teléfono colombiano inválido';
+    }
+
+    validateScheduleWithinBusinessHours(schedule, businessHours).forEach(error => {
+      newErrors[`schedule.${error.dayOfWeek}`] = error.message;
+    });
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  }, [formData, schedule, businessHours]);
+
+  const handleInputChange = useCallback((field: keyof FormData, value: string | boolean) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+
+    // Clear error for this field when user starts typing
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: '' }));
+    }
+  }, [errors]);
+
+  // Normalize the phone to +57 XXX XXX XXXX when leaving the field
+  const handlePhoneBlur = useCallback(() => {
+    const formatted = formatColombianPhone(formData.phone);
+    if (formatted) {
+      setFormData(prev => ({ ...prev, phone: formatted }));
+    }
+  }, [formData.phone]);
+
+  const updateScheduleDay = (dayOfWeek: number, update: (day: BusinessHours) => BusinessHours) => {
+    setSchedule(prev => prev.map(day => (day.dayOfWeek === dayOfWeek ? update(day) : day)));
+
+    if (errors[`schedule.${dayOfWeek}`]) {
+      setErrors(prev => ({ ...prev, [`schedule.${dayOfWeek}`]: '' }));
+    }
+  };
+
+  const handleDayToggle = (dayOfWeek: number, isOpen: boolean) => {
+    updateScheduleDay(dayOfWeek, day => ({
+      ...day,
+      isOpen,
+      intervals: isOpen && day.intervals.length === 0 ? businessIntervals(businessHours, dayOfWeek) : day.intervals
+    }));
+  };
+
+  const handleIntervalChange = (dayOfWeek: number, intervalIndex: number, field: keyof TimeRange, value: string) => {
+    updateScheduleDay(dayOfWeek, day => ({
+      ...day,
+      intervals: day.intervals.map((interval, index) => (index === intervalIndex ? { ...interval, [field]: value } : interval))
+    }));
+  };
+
+  const handleAddInterval = (dayOfWeek: number) => {
+    updateScheduleDay(dayOfWeek, day => ({ ...day, intervals: [...day.intervals, NEW_INTERVAL] }));
+  };
+
+  const handleRemoveInterval = (dayOfWeek: number, intervalIndex: number) => {
+    updateScheduleDay(dayOfWeek, day => ({
+      ...day,
+      intervals: day.intervals.filter((_, index) => index !== intervalIndex)
+    }));
+  };
+
+  const handleServiceToggle = (serviceId: string, checked: boolean) => {
+    setServiceIds(prev => (checked ? [...prev, serviceId] : prev.filter(id => id !== serviceId)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await onSave({
+        name: formData.name.trim(),
+        email: formData.email.trim() || undefined,
+        phone: formData.phone.trim() ? formatColombianPhone(formData.phone) ?? undefined : undefined,
+        schedule,
+        serviceIds,
+        isActive: formData.isActive
+      });
+    } catch (error) {
+      console.error('Error saving specialist:', error);
+      setErrors({ submit: error instanceof Error ? error.message : 'Error al guardar el especialista. Inténtalo de nuevo.' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white shadow rounded-lg p-6 space-y-6">
+      <div className="border-b border-gray-200 pb-4">
+        <h3 className="text-lg font-medium text-gray-900">
+          {specialist ? 'Editar Especialista' : 'Nuevo Especialista'}
+        </h3>
+        <p className="mt-1 text-sm text-gray-600">
+          Define su horario dentro del horario de atención y los servicios que realiza
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="md:col-span-2">
+          <label htmlFor="specialist-name" className="block text-sm font-medium text-gray-700">
+            Nombre *
+          </label>
+          <input
+            type="text"
+            id="specialist-name"
+            value={formData.name}
+            onChange={(e) => handleInputChange('name', e.target.value)}
+            className={`mt-1 block w-full border rounded-md px-3 py-2 shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 ${
+              errors.name ? 'border-red-300' : 'border-gray-300'
+            }`}
+            placeholder="Ej. Valentina Ríos"
+          />
+          {errors.name && <p className="mt-1 text-sm text-red-600">{errors.name}</p>}
+        </div>
+
+        <div>
+          <label htmlFor="specialist-phone" className="block text-sm font-medium text-gray-700">
+            Teléfono
+          </label>
+          <input
+            type="tel"
+            id="specialist-phone"
+            value={formData.phone}
+            onChange={(e) => handleInputChange('phone', e.target.value)}
+            onBlur={handlePhoneBlur}
+            className={`mt-1 block w-full border rounded-md px-3 py-2 shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 ${
+              errors.phone ? 'border-red-300' : 'border-gray-300'
+            }`}
+            placeholder="+57 300 123 4567"
+          />
+          {errors.phone && <p className="mt-1 text-sm text-red-600">{errors.phone}</p>}
+        </div>
+
+        <div>
+          <label htmlFor="specialist-email" className="block text-sm font-medium text-gray-700">
+            Email
+          </label>
+          <input
+            type="email"
+            id="specialist-email"
+            value={formData.email}
+            onChange={(e) => handleInputChange('email', e.target.value)}
+            className={`mt-1 block w-full border rounded-md px-3 py-2 shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 ${
+              errors.email ? 'border-red-300' : 'border-gray-300'
+            }`}
+            placeholder="especialista@negocio.com"
+          />
+          {errors.email && <p className="mt-1 text-sm text-red-600">{errors.email}</p>}
+        </div>
+
+        <div className="flex items-center">
+          <input
+            type="checkbox"
+            id="specialist-active"
+            checked={formData.isActive}
+            onChange={(e) => handleInputChange('isActive', e.target.checked)}
+            className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+          />
+          <label htmlFor="specialist-active" className="ml-2 block text-sm text-gray-700">
+            Disponible para reservas
+          </label>
+        </div>
+      </div>
+
+      {/* Weekly schedule */}
+      <div className="border-t border-gray-200 pt-6">
+        <h4 className="text-md font-medium text-gray-900 mb-4">Horario de Trabajo</h4>
+        <div className="space-y-4">
+          {schedule.map(day => {
+            const businessDay = businessHours.find(h => h.dayOfWeek === day.dayOfWeek);
+            const businessOpen = businessDay?.isOpen ?? false;
+            const error = errors[`schedule.${day.dayOfWeek}`];
+
+            return (
+              <div key={day.dayOfWeek} className="grid grid-cols-12 gap-4 items-start">
+                <div className="col-span-3 flex items-center space-x-2 py-2">
+                  <input
+                    type="checkbox"
+                    id={`specialist-day-${day.dayOfWeek}`}
+                    checked={day.isOpen}
+                    disabled={!businessOpen && !day.isOpen}
+                    onChange={(e) => handleDayToggle(day.dayOfWeek, e.target.checked)}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                  <label htmlFor={`specialist-day-${day.dayOfWeek}`} className="text-sm font-medium text-gray-700">
+                    {DAY_NAMES[day.dayOfWeek]}
+                  </label>
+                </div>
+
+                {day.isOpen ? (
+                  <div className="col-span-9 space-y-2">
+                    {day.intervals.map((interval, intervalIndex) => {
+                      // "Lunes", then "Lunes (2)" for the second interval of a split shift
+                      const intervalName = intervalIndex === 0
+                        ? DAY_NAMES[day.dayOfWeek]
+                        : `${DAY_NAMES[day.dayOfWeek]} (${intervalIndex + 1})`;
+
+                      return (
+                        <div key={intervalIndex} className="grid grid-cols-9 gap-4 items-center">
+                          <div className="col-span-3">
+                            <label htmlFor={`specialist-open-${day.dayOfWeek}-${intervalIndex}`} className="sr-only">
+                              Hora de entrada {intervalName}
+                            </label>
+                            <input
+                              type="time"
+                              id={`specialist-open-${day.dayOfWeek}-${intervalIndex}`}
+                              value={interval.openTime}
+                              onChange={(e) => handleIntervalChange(day.dayOfWeek, intervalIndex, 'openTime', e.target.value)}
+                              className={`block w-full border rounded-md px-3 py-2 text-sm shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 ${
+                                error ? 'border-red-300' : 'border-gray-300'
+                              }`}
+                            />
+                          </div>
+                          <div className="col-span-1 text-center text-sm text-gray-500">
+                            a
+                          </div>
+                          <div className="col-span-3">
+                            <label htmlFor={`specialist-close-${day.dayOfWeek}-${intervalIndex}`} className="sr-only">
+                              Hora de salida {intervalName}
+                            </label>
+                            <input
+                              type="time"
+                              id={`specialist-close-${day.dayOfWeek}-${intervalIndex}`}
+                              value={interval.closeTime}
+                              onChange={(e) => handleIntervalChange(day.dayOfWeek, intervalIndex, 'closeTime', e.target.value)}
+                              className={`block w-full border rounded-md px-3 py-2 text-sm shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 ${
+                                error ? 'border-red-300' : 'border-gray-300'
+                              }`}
+                            />
+                          </div>
+                          <div className="col-span-2">
+                            {day.intervals.length > 1 && (
+                              <button
+                                type="button"
+                                onClick={() => handleRemoveInterval(day.dayOfWeek, intervalIndex)}
+                                aria-label={`Quitar horario ${intervalName}`}
+                                className="text-sm text-red-600 hover:text-red-800"
+                              >
+                                Quitar
+                              </button>
+                            )}
+                          </div>
+                        </div>
+                      );
+                    })}
+                    <button
+                      type="button"
+                      onClick={() => handleAddInterval(day.dayOfWeek)}
+                      aria-label={`Agregar horario ${DAY_NAMES[day.dayOfWeek]}`}
+                      className="text-sm text-blue-600 hover:text-blue-800"
+                    >
+                      + Agregar horario
+                    </button>
+                  </div>
+                ) : (
+                  <div className="col-span-9 py-2 text-sm text-gray-500 italic">
+                    {businessOpen ? 'No trabaja' : 'Negocio cerrado'}
+                  </div>
+                )}
+
+                {error && (
+                  <div className="col-span-12 text-sm text-red-600">{error}</div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Services */}
+      <div className="border-t border-gray-200 pt-6">
+        <h4 className="text-md font-medium text-gray-900 mb-4">Servicios que realiza</h4>
+        {services.length === 0 ? (
+          <p className="text-sm text-gray-500">Aún no hay servicios en el catálogo</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {services.map(service => (
+              <div key={service.id} className="flex items-center">
+                <input
+                  type="checkbox"
+                  id={`specialist-service-${service.id}`}
+                  checked={serviceIds.includes(service.id)}
+                  onChange={(e) => handleServiceToggle(service.id, e.target.checked)}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                <label htmlFor={`specialist-service-${service.id}`} className="ml-2 block text-sm text-gray-700">
+                  {service.name}
+                  {!service.isActive && <span className="text-gray-400"> (inactivo)</span>}
+                </label>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Form Actions */}
+      <div className="border-t border-gray-200 pt-6 flex justify-end space-x-3">
+        {errors.submit && (
+          <p className="flex-1 text-sm text-red-600">{errors.submit}</p>
+        )}
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={isLoading}
+          className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Cancelar
+        </button>
+        <button
+          type="submit"
+          disabled={isLoading}
+          className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isLoading ? 'Guardando...' : 'Guardar Especialista'}
+        </button>
+      </div>
+    </form>
+  );
+}
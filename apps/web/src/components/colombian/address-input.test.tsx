@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { ColombianAddressInput, type ColombianAddress } from './address-input';
+
+describe('ColombianAddressInput', () => {
+  const emptyAddress: ColombianAddress = { street: '', city: '', department: '' };
+
+  // Keeps the address in state like the registration form does
+  function renderControlled(initial: ColombianAddress = emptyAddress) {
+    const onChange = jest.fn();
+
+    function Harness() {
+      const [address, setAddress] = useState(initial);
+      return (
+        <ColombianAddressInput
+          value={address}
+          onChange={(next) => {
+            onChange(next);
+            setAddress(next);
+          }}
+        />
+      );
+    }
+
+    render(<Harness />);
+    return onChange;
+  }
+
+  it('suggests municipalities from the DANE catalog ignoring accents', async () => {
+    const user = userEvent.setup();
+    renderControlled();
+
+    await user.type(screen.getByLabelText('Ciudad *'), 'jardin');
+
+    const options = screen.getAllByRole('option');
+    expect(options[0]).toHaveTextContent('Jardín');
+    expect(options[0]).toHaveTextContent('Antioquia');
+  });
+
+  it('fills city, department and DANE code when a municipality is picked', async () => {
+    const user = userEvent.setup();
+    const onChange = renderControlled();
+
+    await user.type(screen.getByLabelText('Ciudad *'), 'Villa de Ley');
+    await user.click(screen.getByRole('option', { name: /Villa de Leyva/ }));
+
+    expect(onChange).toHaveBeenLastCalledWith({
+      street: '',
+      city: 'Villa de Leyva',
+      department: 'Boyacá',
+      municipalityCode: '15407'
+    });
+    expect(screen.getByLabelText('Departamento *')).toHaveValue('Boyacá');
+    expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+  });
+
+  it('picks the highlighted suggestion with the keyboard', async () => {
+    const user = userEvent.setup();
+    const onChange = renderControlled({ street: '', city: '', department: 'Sucre' });
+
+    await user.type(screen.getByLabelText('Ciudad *'), 'buenavista{Enter}');
+
+    expect(onChange).toHaveBeenLastCalledWith(
+      expect.objectContaining({ city: 'Buenavista', department: 'Sucre', municipalityCode: '70110' })
+    );
+  });
+
+  it('drops the DANE code when the city is edited by hand', async () => {
+    const user = userEvent.setup();
+    const onChange = renderControlled({ street: '', city: 'Cali', department: 'Valle del Cauca', municipalityCode: '76001' });
+
+    await user.type(screen.getByLabelText('Ciudad *'), 'x');
+
+    expect(onChange).toHaveBeenLastCalledWith(
+      expect.objectContaining({ city: 'Calix', municipalityCode: undefined })
+    );
+  });
+
+  it('clears a picked city that does not belong to the new department', async () => {
+    const user = userEvent.setup();
+    const onChange = renderControlled({ street: '', city: 'Cali', department: 'Valle del Cauca', municipalityCode: '76001' });
+
+    await user.selectOptions(screen.getByLabelText('Departamento *'), 'Bogotá D.C.');
+
+    expect(onChange).toHaveBeenLastCalledWith({
+      street: '',
+      city: '',
+      department: 'Bogotá D.C.',
+      municipalityCode: undefined
+    });
+  });
+
+  it('rewrites the street in canonical form on blur', async () => {
+    const user = userEvent.setup();
+    const onChange = renderControlled();
+
+    await user.type(screen.getByLabelText('Dirección *'), 'KR 15 N 93 47 apto 301');
+    await user.tab();
+
+    expect(onChange).toHaveBeenLastCalledWith(
+      expect.objectContaining({ street: 'Carrera 15 # 93-47, Apto 301' })
+    );
+    expect(screen.getByLabelText('Dirección *')).toHaveValue('Carrera 15 # 93-47, Apto 301');
+  });
+
+  it('leaves addresses it cannot parse as typed', async () => {
+    const user = userEvent.setup();
+    const onChange = renderControlled();
+
+    await user.type(screen.getByLabelText('Dirección *'), 'Vereda El Rosal, Finca La Esperanza');
+    await user.tab();
+
+    expect(onChange).toHaveBeenLastCalledWith(
+      expect.objectContaining({ street: 'Vereda El Rosal, Finca La Esperanza' })
+    );
+  });
+});
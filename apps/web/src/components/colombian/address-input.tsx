@@ -1,47 +1,23 @@
 'use client';
 
-import React from 'react';
-
-// All 32 Colombian departments according to administrative divisions
-const COLOMBIAN_DEPARTMENTS = [
-  'Amazonas',
-  'Antioquia',
-  'Arauca',
-  'Atlántico',
-  'Bolívar',
-  'Boyacá',
-  'Caldas',
-  'Caquetá',
-  'Casanare',
-  'Cauca',
-  'Cesar',
-  'Chocó',
-  'Córdoba',
-  'Cundinamarca',
-  'Guainía',
-  'Guaviare',
-  'Huila',
-  'La Guajira',
-  'Magdalena',
-  'Meta',
-  'Nariño',
-  'Norte de Santander',
-  'Putumayo',
-  'Quindío',
-  'Risaralda',
-  'San Andrés y Providencia',
-  'Santander',
-  'Sucre',
-  'Tolima',
-  'Valle del Cauca',
-  'Vaupés',
-  'Vichada'
-];
+import React, { useMemo, useState } from 'react';
+import {
+  COLOMBIAN_DEPARTMENTS,
+  getMunicipalityByCode,
+  isValidColombianDepartment,
+  normalizeColombianAddress,
+  searchMunicipalities,
+  type ColombianMunicipality
+} from '@appointments-demo/utils';
+
+// Suggestions shown under the city field
+const MAX_CITY_SUGGESTIONS = 8;
 
 export interface ColombianAddress {
   street: string;
   city: string;
   department: string;
+  municipalityCode?: string; // DANE code, set when the city is picked from the catalog
 }
 
 export interface ColombianAddressInputProps {
@@ -64,6 +40,19 @@ export function ColombianAddressInput({
   disabled = false 
 }: ColombianAddressInputProps) {
   
+  const [isCityListOpen, setIsCityListOpen] = useState(false);
+  const [highlightedIndex, setHighlightedIndex] = useState(0);
+
+  // Narrow the search to the chosen department, if any
+  const citySuggestions = useMemo(
+    () => searchMunicipalities(value.city, {
+      department: isValidColombianDepartment(value.department) ? value.department : undefined,
+      limit: MAX_CITY_SUGGESTIONS
+    }),
+    [value.city, value.department]
+  );
+  const showCityList = isCityListOpen && citySuggestions.length > 0;
+
   const handleInputChange = (field: keyof ColombianAddress, inputValue: string) => {
     onChange({
       ...value,
@@ -71,6 +60,64 @@ export function ColombianAddressInput({
     });
   };
 
+  // Typed text no longer identifies a catalog municipality until one is picked again
+  const handleCityChange = (inputValue: string) => {
+    onChange({ ...value, city: inputValue, municipalityCode: undefined });
+    setIsCityListOpen(true);
+    setHighlightedIndex(0);
+  };
+
+  const selectMunicipality = (municipality: ColombianMunicipality) => {
+    onChange({
+      ...value,
+      city: municipality.name,
+      department: municipality.department,
+      municipalityCode: municipality.code
+    });
+    setIsCityListOpen(false);
+  };
+
+  // A picked city that is not in the new department is cleared
+  const handleDepartmentChange = (department: string) => {
+    const municipality = value.municipalityCode ? getMunicipalityByCode(value.municipalityCode) : null;
+    if (municipality && municipality.department !== department) {
+      onChange({ ...value, department, city: '', municipalityCode: undefined });
+    } else {
+      handleInputChange('department', department);
+    }
+  };
+
+  const handleCityKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!showCityList) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlightedIndex((highlightedIndex + 1) % citySuggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlightedIndex((highlightedIndex - 1 + citySuggestions.length) % citySuggestions.length);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      selectMunicipality(citySuggestions[Math.min(highlightedIndex, citySuggestions.length - 1)]);
+    } else if (e.key === 'Escape') {
+      setIsCityListOpen(false);
+    }
+  };
+
+  // Rewrites recognized addresses in canonical form ("Cra 15 #93-47" -> "Carrera 15 # 93-47")
+  const handleStreetBlur = () => {
+    const normalized = normalizeColombianAddress(value.street);
+    if (normalized && normalized !== value.street) {
+      handleInputChange('street', normalized);
+    }
+    onBlur?.();
+  };
+
+  const handleCityBlur = () => {
+    setIsCityListOpen(false);
+    onBlur?.();
+  };
+
   const getFieldId = (field: string) => `address-${field}`;
   const getErrorId = (field: string) => `address-${field}-error`;
 
@@ -94,8 +141,8 @@ export function ColombianAddressInput({
             type="text"
             value={value.street}
             onChange={(e) => handleInputChange('street', e.target.value)}
-            onBlur={onBlur}
-            placeholder="Calle 123 #45-67"
+            onBlur={handleStreetBlur}
+            placeholder="Carrera 15 # 93-47, Apto 301"
             className={`w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
               errors.street ? 'border-red-500' : 'border-gray-300'
             }`}
@@ -117,19 +164,56 @@ export function ColombianAddressInput({
           >
             Ciudad *
           </label>
-          <input
-            id={getFieldId('city')}
-            type="text"
-            value={value.city}
-            onChange={(e) => handleInputChange('city', e.target.value)}
-            onBlur={onBlur}
-            placeholder="Bogotá"
-            className={`w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
-              errors.city ? 'border-red-500' : 'border-gray-300'
-            }`}
-            aria-describedby={errors.city ? getErrorId('city') : undefined}
-            disabled={disabled}
-          />
+          <div className="relative">
+            <input
+              id={getFieldId('city')}
+              type="text"
+              role="combobox"
+              aria-autocomplete="list"
+              aria-expanded={showCityList}
+              aria-controls={getFieldId('city-options')}
+              aria-activedescendant={showCityList ? getFieldId(`city-option-${highlightedIndex}`) : undefined}
+              autoComplete="off"
+              value={value.city}
+              onChange={(e) => handleCityChange(e.target.value)}
+              onFocus={() => setIsCityListOpen(true)}
+              onKeyDown={handleCityKeyDown}
+              onBlur={handleCityBlur}
+              placeholder="Escriba para buscar: Bogotá, Jardín..."
+              className={`w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
+                errors.city ? 'border-red-500' : 'border-gray-300'
+              }`}
+              aria-describedby={errors.city ? getErrorId('city') : undefined}
+              disabled={disabled}
+            />
+            {showCityList && (
+              <ul
+                id={getFieldId('city-options')}
+                role="listbox"
+                className="absolute z-10 mt-1 w-full max-h-60 overflow-auto bg-white border border-gray-200 rounded-md shadow-lg"
+              >
+                {citySuggestions.map((municipality, index) => (
+                  <li
+                    key={municipality.code}
+                    id={getFieldId(`city-option-${index}`)}
+                    role="option"
+                    aria-selected={index === highlightedIndex}
+                    // mousedown keeps the input from blurring (and closing the list) before the click lands
+                    onMouseDown={(e) => {
+                      e.preventDefault();
+                      selectMunicipality(municipality);
+                    }}
+                    className={`px-3 py-2 text-sm cursor-pointer ${
+                      index === highlightedIndex ? 'bg-blue-50 text-blue-900' : 'text-gray-900'
+                    }`}
+                  >
+                    {municipality.name}
+                    <span className="ml-1 text-gray-500">· {municipality.department}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
           {errors.city && (
             <p id={getErrorId('city')} className="mt-1 text-sm text-red-600" role="alert">
               {errors.city}
@@ -148,7 +232,7 @@ export function ColombianAddressInput({
           <select
             id={getFieldId('department')}
             value={value.department}
-            onChange={(e) => handleInputChange('department', e.target.value)}
+            onChange={(e) => handleDepartmentChange(e.target.value)}
             onBlur={onBlur}
             className={`w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
               errors.department ? 'border-red-500' : 'border-gray-300'
@@ -2,6 +2,7 @@ import {
   UserRegistrationSchema, 
   LoginSchema, 
   PasswordSchema, 
+  CompleteRegistrationSchema,
   EmailSchema,
   validateEmail,
   validatePassword,
@@ -110,6 +111,44 @@ describe('Authentication Validation Schemas', () => {
     });
   });
 
+  describe('CompleteRegistrationSchema', () => {
+    const registration = (business: { phone: string; whatsapp_number: string }) => ({
+      user: {
+        email: 'duena@salonbella.co',
+        password: 'ValidPass123',
+        confirmPassword: 'ValidPass123',
+        name: 'Laura Gómez'
+      },
+      business: {
+        name: 'Salón Bella',
+        email: 'hola@salonbella.co',
+        address: { street: 'Calle 10 # 5-20', city: 'Bogotá', department: 'Bogotá D.C.' },
+        ...business
+      }
+    });
+
+    it('should accept a landline phone with a mobile WhatsApp', () => {
+      const result = CompleteRegistrationSchema.safeParse(
+        registration({ phone: '+57 601 234 5678', whatsapp_number: '+57 300 123 4567' })
+      );
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject a landline WhatsApp, which cannot receive messages', () => {
+      const result = CompleteRegistrationSchema.safeParse(
+        registration({ phone: '+57 601 234 5678', whatsapp_number: '+57 601 234 5678' })
+      );
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(extractValidationErrors(result.error)).toEqual({
+          'business.whatsapp_number': 'El WhatsApp debe ser un número celular (3XX)'
+        });
+      }
+    });
+  });
+
   describe('LoginSchema', () => {
     it('should validate login data', () => {
       const validData = {
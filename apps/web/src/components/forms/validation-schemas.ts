@@ -1,20 +1,43 @@
 import { z } from 'zod';
+import type { DateOverride, ReminderSettings } from '@appointments-demo/types';
+import {
+  COLOMBIAN_DEPARTMENTS,
+  classifyColombianPhone,
+  formatColombianPhone,
+  getMunicipalityByCode,
+  hasValidPrecision,
+  isValidColombianDepartment,
+  normalizeColombianAddress,
+  validateBusinessHours,
+  validateDateOverrides,
+  validateReminderSettings
+} from '@appointments-demo/utils';
 
 // Colombian phone number validation schema
+// Mobiles (3XX) and unified-dialing landlines (601, 602, 604-608), same rule as the check_*phone_format constraints
 export const ColombianPhoneSchema = z
   .string()
   .min(1, 'El teléfono es requerido')
   .regex(
-    /^\+57 \d{3} \d{3} \d{4}$/,
+    /^\+57 (3\d{2}|60[124-8]) \d{3} \d{4}$/,
     'Formato de teléfono colombiano inválido'
   );
 
+// WhatsApp only runs on mobiles: landlines (60X) pass ColombianPhoneSchema but cannot receive messages
+// (malformed numbers only get the format error of ColombianPhoneSchema)
+export const ColombianWhatsAppSchema = ColombianPhoneSchema.refine(
+  (phone) => classifyColombianPhone(phone)?.type !== 'landline',
+  'El WhatsApp debe ser un número celular (3XX)'
+);
+
 // Colombian address validation schema
 export const ColombianAddressSchema = z.object({
   street: z
     .string()
     .min(1, 'La dirección es requerida')
-    .max(255, 'La dirección es muy larga'),
+    .max(255, 'La dirección es muy larga')
+    // "Cra 15 #93-47" and "KR 15 N 93 47" are stored the same way; rural addresses stay as typed
+    .transform((street) => normalizeColombianAddress(street) ?? street.trim()),
   city: z
     .string()
     .min(1, 'La ciudad es requerida')
@@ -23,17 +46,18 @@ export const ColombianAddressSchema = z.object({
     .string()
     .min(1, 'Seleccione un departamento')
     .refine(
-      (dept) => [
-        'Amazonas', 'Antioquia', 'Arauca', 'Atlántico', 'Bolívar', 'Boyacá',
-        'Caldas', 'Caquetá', 'Casanare', 'Cauca', 'Cesar', 'Chocó', 'Córdoba',
-        'Cundinamarca', 'Guainía', 'Guaviare', 'Huila', 'La Guajira', 'Magdalena',
-        'Meta', 'Nariño', 'Norte de Santander', 'Putumayo', 'Quindío', 'Risaralda',
-        'San Andrés y Providencia', 'Santander', 'Sucre', 'Tolima', 'Valle del Cauca',
-        'Vaupés', 'Vichada'
-      ].includes(dept),
+      (dept) => isValidColombianDepartment(dept),
       'Seleccione un departamento'
-    )
-});
+    ),
+  // DANE code of the municipality picked from the catalog
+  municipalityCode: z
+    .string()
+    .regex(/^\d{5}$/, 'Código de municipio inválido')
+    .optional()
+}).refine(
+  (address) => !address.municipalityCode || getMunicipalityByCode(address.municipalityCode)?.department === address.department,
+  { message: 'El municipio no pertenece al departamento seleccionado', path: ['municipalityCode'] }
+);
 
 // Password validation schema
 export const PasswordSchema = z
@@ -81,16 +105,397 @@ export const BusinessRegistrationSchema = z.object({
     .trim(),
   email: EmailSchema,
   phone: ColombianPhoneSchema,
-  whatsapp_number: ColombianPhoneSchema,
+  whatsapp_number: ColombianWhatsAppSchema,
   address: ColombianAddressSchema
 });
 
+// Account and business created in one request (POST /api/business/register-complete)
+const CompleteRegistrationUserSchema = z.object({
+  email: z.string()
+    .email('Email inválido')
+    .min(1, 'El email es requerido')
+    .max(255, 'El email es demasiado largo')
+    .toLowerCase()
+    .trim(),
+  password: z.string()
+    .min(8, 'La contraseña debe tener al menos 8 caracteres')
+    .max(128, 'La contraseña es demasiado larga')
+    .regex(/[A-Z]/, 'La contraseña debe contener al menos una letra mayúscula')
+    .regex(/[a-z]/, 'La contraseña debe contener al menos una letra minúscula')
+    .regex(/[0-9]/, 'La contraseña debe contener al menos un número'),
+  confirmPassword: z.string(),
+  name: z.string()
+    .min(1, 'El nombre es requerido')
+    .max(100, 'El nombre es demasiado largo')
+    .trim()
+}).refine((data) => data.password === data.confirmPassword, {
+  message: 'Las contraseñas no coinciden',
+  path: ['confirmPassword']
+});
+
+const CompleteRegistrationBusinessSchema = z.object({
+  name: z.string()
+    .min(1, 'El nombre del negocio es requerido')
+    .max(200, 'El nombre del negocio es demasiado largo')
+    .trim(),
+  email: z.string()
+    .email('Email del negocio inválido')
+    .min(1, 'El email del negocio es requerido')
+    .max(255, 'El email del negocio es demasiado largo')
+    .toLowerCase()
+    .trim(),
+  phone: ColombianPhoneSchema,
+  whatsapp_number: ColombianWhatsAppSchema,
+  address: z.object({
+    street: z.string()
+      .min(1, 'La dirección es requerida')
+      .max(200, 'La dirección es demasiado larga')
+      .trim(),
+    city: z.string()
+      .min(1, 'La ciudad es requerida')
+      .max(100, 'La ciudad es demasiado larga')
+      .trim(),
+    department: z.enum([...COLOMBIAN_DEPARTMENTS] as [string, ...string[]], {
+      message: 'Departamento colombiano inválido'
+    }),
+    municipalityCode: z.string()
+      .regex(/^\d{5}$/, 'Código de municipio inválido')
+      .optional()
+  })
+});
+
+export const CompleteRegistrationSchema = z.object({
+  user: CompleteRegistrationUserSchema,
+  business: CompleteRegistrationBusinessSchema
+});
+
+// Editable business profile fields (PUT /api/business/profile); id, slug, settings and
+// timestamps sent along with a full Business are dropped
+export const BusinessProfileUpdateSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'El nombre del negocio es requerido')
+    .max(255, 'El nombre del negocio es muy largo')
+    .optional(),
+  description: z.string().trim().max(1000, 'La descripción es muy larga').nullable().optional(),
+  phone: ColombianPhoneSchema.optional(),
+  whatsappNumber: z.union([ColombianWhatsAppSchema, z.literal('')]).nullable().optional(),
+  email: EmailSchema.optional(),
+  address: z.intersection(
+    ColombianAddressSchema,
+    z.object({ postalCode: z.string().trim().max(20, 'El código postal es muy largo').optional() })
+  ).optional()
+});
+
+// Appointment status values (mirrors AppointmentStatus in @appointments-demo/types)
+export const AppointmentStatusSchema = z.enum(
+  ['pending', 'confirmed', 'cancelled', 'completed', 'no_show'],
+  { message: 'Estado de cita inválido' }
+);
+
+// Appointment fields shared by the create and update schemas
+const AppointmentFieldsSchema = z.object({
+  customerName: z
+    .string()
+    .trim()
+    .min(1, 'El nombre del cliente es requerido')
+    .max(255, 'El nombre del cliente es muy largo'),
+  customerPhone: ColombianPhoneSchema,
+  customerEmail: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .email('Email inválido')
+    .max(255, 'El email es muy largo')
+    .optional(),
+  serviceId: z.uuid('Servicio inválido').optional(),
+  specialistId: z.uuid('Especialista inválido').optional(),
+  serviceType: z
+    .string()
+    .trim()
+    .min(1, 'El servicio es requerido')
+    .max(255, 'El nombre del servicio es muy largo')
+    .optional(),
+  scheduledAt: z.coerce.date({ message: 'Fecha de la cita inválida' }),
+  duration: z
+    .number({ message: 'La duración es requerida' })
+    .int('La duración debe ser un número entero de minutos')
+    .min(5, 'La duración mínima es 5 minutos')
+    .max(720, 'La duración máxima es 12 horas')
+    .optional(),
+  status: z
+    .enum(['pending', 'confirmed'], { message: 'Una cita nueva solo puede estar pendiente o confirmada' })
+    .default('pending'),
+  notes: z.string().max(2000, 'Las notas son muy largas').optional()
+});
+
+// Appointment creation schema (a catalog service, or a free-form service name and duration)
+export const AppointmentCreateSchema = AppointmentFieldsSchema
+  .refine((data) => data.serviceId !== undefined || data.serviceType !== undefined, {
+    message: 'El servicio es requerido',
+    path: ['serviceType']
+  })
+  .refine((data) => data.serviceId !== undefined || data.duration !== undefined, {
+    message: 'La duración es requerida',
+    path: ['duration']
+  });
+
+// Public booking schema (/b/<slug>): a catalog service is required and the
+// status is always pending, so visitors cannot pick it
+export const PublicBookingSchema = AppointmentFieldsSchema
+  .pick({
+    customerName: true,
+    customerPhone: true,
+    customerEmail: true,
+    specialistId: true,
+    scheduledAt: true,
+    notes: true
+  })
+  .extend({
+    serviceId: z.uuid('Servicio inválido')
+  });
+
+// Appointment update schema (all fields optional, at least one required)
+export const AppointmentUpdateSchema = AppointmentFieldsSchema
+  .omit({ status: true })
+  .partial()
+  .extend({
+    status: AppointmentStatusSchema.optional(),
+    statusReason: z.string().trim().max(500, 'El motivo es muy largo').optional()
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'Debe enviar al menos un campo para actualizar'
+  })
+  .refine((data) => data.statusReason === undefined || data.status !== undefined, {
+    message: 'El motivo solo aplica a un cambio de estado',
+    path: ['statusReason']
+  });
+
+// Currencies businesses can quote in (mirrors CurrencyCode in @appointments-demo/types)
+export const CurrencySchema = z.enum(['COP', 'USD', 'EUR'], { message: 'Moneda no soportada' });
+
+// Service catalog fields (price in the service currency)
+const ServiceFieldsSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'El nombre del servicio es requerido')
+    .max(255, 'El nombre del servicio es muy largo'),
+  description: z.string().trim().max(1000, 'La descripción es muy larga').optional(),
+  duration: z
+    .number({ message: 'La duración es requerida' })
+    .int('La duración debe ser un número entero de minutos')
+    .min(5, 'La duración mínima es 5 minutos')
+    .max(720, 'La duración máxima es 12 horas'),
+  price: z
+    .number({ message: 'El precio es requerido' })
+    .min(0, 'El precio no puede ser negativo'),
+  currency: CurrencySchema,
+  bufferMinutes: z
+    .number({ message: 'El tiempo de preparación es inválido' })
+    .int('El tiempo de preparación debe ser un número entero de minutos')
+    .min(0, 'El tiempo de preparación no puede ser negativo')
+    .max(240, 'El tiempo de preparación máximo es 4 horas'),
+  isActive: z.boolean()
+});
+
+// Pesos are whole; dollars and euros allow cents. Without a currency (partial
+// updates) only the finest precision can be checked here.
+const hasValidServicePrice = (data: { price?: number; currency?: z.infer<typeof CurrencySchema> }) =>
+  data.price === undefined || hasValidPrecision(data.price, data.currency ?? 'USD');
+
+const SERVICE_PRICE_PRECISION_ERROR = {
+  message: 'El precio tiene más decimales de los que admite la moneda',
+  path: ['price']
+};
+
+// Service creation schema (currency defaults to the business currency in the API)
+export const ServiceCreateSchema = ServiceFieldsSchema.extend({
+  currency: CurrencySchema.optional(),
+  bufferMinutes: ServiceFieldsSchema.shape.bufferMinutes.default(0),
+  isActive: ServiceFieldsSchema.shape.isActive.default(true)
+}).refine(hasValidServicePrice, SERVICE_PRICE_PRECISION_ERROR);
+
+// Service update schema (all fields optional, at least one required)
+export const ServiceUpdateSchema = ServiceFieldsSchema
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'Debe enviar al menos un campo para actualizar'
+  })
+  .refine(hasValidServicePrice, SERVICE_PRICE_PRECISION_ERROR);
+
+// Exchange rate set by the business admin: 1 fromCurrency = rate toCurrency
+export const ExchangeRateSchema = z
+  .object({
+    fromCurrency: CurrencySchema,
+    toCurrency: CurrencySchema,
+    rate: z
+      .number({ message: 'La tasa de cambio es requerida' })
+      .positive('La tasa de cambio debe ser mayor que cero')
+  })
+  .refine((data) => data.fromCurrency !== data.toCurrency, {
+    message: 'Las monedas deben ser diferentes',
+    path: ['toCurrency']
+  });
+
+// Opening and closing time of one interval of a day
+export const TimeRangeSchema = z.object({
+  openTime: z.string().regex(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Formato de hora inválido (HH:MM)'),
+  closeTime: z.string().regex(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Formato de hora inválido (HH:MM)')
+});
+
+// Weekly hours entry (same shape as BusinessHours in @appointments-demo/types)
+export const BusinessHoursSchema = z.object({
+  dayOfWeek: z.number().int().min(0, 'Día de la semana inválido').max(6, 'Día de la semana inválido'),
+  intervals: z.array(TimeRangeSchema),
+  isOpen: z.boolean()
+});
+
+// Time zones a business can operate in
+export const SUPPORTED_TIMEZONES = [
+  'America/Bogota',
+  'America/New_York',
+  'America/Los_Angeles',
+  'Europe/Madrid',
+  'UTC'
+];
+
+// Settings changes (PUT /api/business/settings). Hours, date overrides and reminders are
+// checked with the same validators as the API, reported under the same detail keys;
+// other settings pass through
+export const BusinessSettingsUpdateSchema = z.looseObject({
+  timezone: z
+    .string()
+    .refine((timezone) => SUPPORTED_TIMEZONES.includes(timezone), 'Zona horaria no soportada')
+    .optional(),
+  currency: CurrencySchema.optional(),
+  businessHours: z.array(BusinessHoursSchema).optional(),
+  dateOverrides: z.array(z.custom<DateOverride>()).optional(),
+  reminders: z.custom<ReminderSettings>().optional()
+}).superRefine((settings, ctx) => {
+  validateBusinessHours(settings.businessHours ?? []).forEach(error => {
+    ctx.addIssue({ code: 'custom', message: error.message, path: ['businessHours', error.dayOfWeek] });
+  });
+  validateDateOverrides(settings.dateOverrides ?? []).forEach(error => {
+    ctx.addIssue({ code: 'custom', message: error.message, path: ['dateOverrides', error.date] });
+  });
+  if (settings.reminders) {
+    validateReminderSettings(settings.reminders).forEach(error => {
+      ctx.addIssue({ code: 'custom', message: error.message, path: ['reminders', error.field] });
+    });
+  }
+});
+
+// Specialist fields (schedule is checked against the business hours by the API)
+const SpecialistFieldsSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'El nombre del especialista es requerido')
+    .max(255, 'El nombre del especialista es muy largo'),
+  email: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .email('Email inválido')
+    .max(255, 'El email es muy largo')
+    .optional(),
+  phone: ColombianPhoneSchema.optional(),
+  schedule: z.array(BusinessHoursSchema).max(7, 'El horario tiene más de 7 días'),
+  serviceIds: z.array(z.uuid('Servicio inválido')),
+  isActive: z.boolean()
+});
+
+// Specialist creation schema
+export const SpecialistCreateSchema = SpecialistFieldsSchema.extend({
+  schedule: SpecialistFieldsSchema.shape.schedule.default([]),
+  serviceIds: SpecialistFieldsSchema.shape.serviceIds.default([]),
+  isActive: SpecialistFieldsSchema.shape.isActive.default(true)
+});
+
+// Specialist update schema (all fields optional, at least one required)
+export const SpecialistUpdateSchema = SpecialistFieldsSchema
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'Debe enviar al menos un campo para actualizar'
+  });
+
+// Client fields (phone is normalized to +57 XXX XXX XXXX before validation)
+const ClientFieldsSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'El nombre del cliente es requerido')
+    .max(255, 'El nombre del cliente es muy largo'),
+  phone: z.preprocess(
+    (value) => (typeof value === 'string' ? formatColombianPhone(value) ?? value : value),
+    ColombianPhoneSchema
+  ),
+  email: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .email('Email inválido')
+    .max(255, 'El email es muy largo')
+    .optional(),
+  notes: z.string().max(2000, 'Las notas son muy largas').optional()
+});
+
+// Client creation schema
+export const ClientCreateSchema = ClientFieldsSchema;
+
+// Client update schema (all fields optional, at least one required)
+export const ClientUpdateSchema = ClientFieldsSchema
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'Debe enviar al menos un campo para actualizar'
+  });
+
+// Merge duplicate clients into the target client
+export const ClientMergeSchema = z
+  .object({
+    targetId: z.uuid('Cliente inválido'),
+    sourceIds: z.array(z.uuid('Cliente inválido')).min(1, 'Selecciona al menos un cliente para fusionar')
+  })
+  .refine((data) => !data.sourceIds.includes(data.targetId), {
+    message: 'El cliente destino no puede fusionarse consigo mismo',
+    path: ['sourceIds']
+  });
+
+// Team member invitation; the owner role cannot be granted by invitation
+export const InvitableRoleSchema = z.enum(['admin', 'receptionist', 'specialist'], { message: 'Rol inválido' });
+
+export const MemberInviteSchema = z.object({
+  email: EmailSchema,
+  role: InvitableRoleSchema
+});
+
+export const MemberUpdateSchema = z.object({
+  role: InvitableRoleSchema
+});
+
 // Type definitions
 export type UserRegistrationData = z.infer<typeof UserRegistrationSchema>;
 export type LoginData = z.infer<typeof LoginSchema>;
 export type BusinessRegistrationData = z.infer<typeof BusinessRegistrationSchema>;
 export type ColombianAddress = z.infer<typeof ColombianAddressSchema>;
 export type ColombianPhone = z.infer<typeof ColombianPhoneSchema>;
+export type ColombianWhatsApp = z.infer<typeof ColombianWhatsAppSchema>;
+export type AppointmentCreateData = z.infer<typeof AppointmentCreateSchema>;
+export type AppointmentUpdateData = z.infer<typeof AppointmentUpdateSchema>;
+export type PublicBookingData = z.infer<typeof PublicBookingSchema>;
+export type ServiceCreateData = z.infer<typeof ServiceCreateSchema>;
+export type ServiceUpdateData = z.infer<typeof ServiceUpdateSchema>;
+export type ExchangeRateData = z.infer<typeof ExchangeRateSchema>;
+export type SpecialistCreateData = z.infer<typeof SpecialistCreateSchema>;
+export type SpecialistUpdateData = z.infer<typeof SpecialistUpdateSchema>;
+export type ClientCreateData = z.infer<typeof ClientCreateSchema>;
+export type ClientUpdateData = z.infer<typeof ClientUpdateSchema>;
+export type MemberInviteData = z.infer<typeof MemberInviteSchema>;
+export type CompleteRegistrationData = z.infer<typeof CompleteRegistrationSchema>;
+export type BusinessProfileUpdateData = z.infer<typeof BusinessProfileUpdateSchema>;
+export type BusinessSettingsUpdateData = z.infer<typeof BusinessSettingsUpdateSchema>;
 
 // Additional validation helpers
 export const validateEmail = (email: string): boolean => {
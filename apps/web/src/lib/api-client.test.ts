@@ -0,0 +1,256 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * API Client Tests
+ *
+ * Calls return typed results instead of raw responses, invalid bodies never reach
+ * the network, rejected tokens are refreshed once, identical reads share a request
+ * and slow requests are aborted
+ */
+
+import { apiClient, getApiErrorMessage } from './api-client';
+
+jest.mock('./env', () => ({
+  env: { app: { apiTimeout: 50 } },
+}));
+
+jest.mock('./supabase', () => ({
+  supabase: {
+    auth: {
+      getSession: jest.fn(),
+      refreshSession: jest.fn(),
+      signOut: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('./auth', () => ({
+  businessContext: {
+    getCurrentBusinessId: jest.fn(() => null),
+    clearBusinessContext: jest.fn(),
+    validateBusinessContext: jest.fn(),
+  },
+  auth: {
+    signOut: jest.fn(),
+  },
+}));
+
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const mockSupabase = require('./supabase').supabase;
+
+const USER_ID = '987fcdeb-51a2-43d1-9f12-345678901234';
+const APPOINTMENT_ID = '4c1d2e3f-8a9b-4c7d-9e1f-2a3b4c5d6e7f';
+
+const token = (label: string) => {
+  const payload = Buffer.from(JSON.stringify({
+    sub: USER_ID,
+    exp: Math.floor(Date.now() / 1000) + 3600,
+    label,
+  })).toString('base64url');
+  return `header.${payload}.signature`;
+};
+
+const session = (accessToken: string) => ({
+  access_token: accessToken,
+  refresh_token: 'refresh',
+  user: { id: USER_ID, email: 'duena@salon.co' },
+});
+
+const fetchMock = jest.fn();
+
+// Like fetch, settles only by rejecting once the request's signal aborts
+const hangUntilAborted = (_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+  const abort = () => reject(new DOMException('Aborted', 'AbortError'));
+  if (init.signal?.aborted) {
+    abort();
+  }
+  init.signal?.addEventListener('abort', abort);
+});
+
+const authorizationOf = (call: unknown[]) =>
+  new Headers((call[1] as RequestInit).headers).get('Authorization');
+
+describe('apiClient', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    fetchMock.mockReset();
+    global.fetch = fetchMock;
+    mockSupabase.auth.getSession.mockResolvedValue({
+      data: { session: session(token('current')) },
+      error: null,
+    });
+  });
+
+  it('returns the parsed body of a successful request', async () => {
+    fetchMock.mockResolvedValue(Response.json({ members: [{ id: 'member-1', role: 'admin' }] }));
+
+    const result = await apiClient.business.members.list();
+
+    expect(result).toEqual({ success: true, data: { members: [{ id: 'member-1', role: 'admin' }] } });
+    expect(fetchMock).toHaveBeenCalledWith('/api/business/members', expect.objectContaining({ method: 'GET' }));
+    expect(authorizationOf(fetchMock.mock.calls[0])).toBe(`Bearer ${token('current')}`);
+  });
+
+  it('rejects an invalid body with the schema messages before calling the API', async () => {
+    const result = await apiClient.business.members.invite({ email: 'no-es-un-correo', role: 'receptionist' });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toMatchObject({ code: 'VALIDATION_ERROR', status: null });
+      expect(getApiErrorMessage(result.error, 'Error al enviar la invitación')).toMatch(/email|correo/i);
+    }
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('sends the body parsed by the shared schema as JSON', async () => {
+    fetchMock.mockResolvedValue(Response.json({ appointment: { id: APPOINTMENT_ID } }));
+    const scheduledAt = new Date('2025-03-11T14:00:00.000Z');
+
+    await apiClient.appointments.update(APPOINTMENT_ID, { scheduledAt });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe(`/api/appointments/${APPOINTMENT_ID}`);
+    expect(init.method).toBe('PATCH');
+    expect(new Headers(init.headers).get('Content-Type')).toBe('application/json');
+    expect(JSON.parse(init.body)).toEqual({ scheduledAt: scheduledAt.toISOString() });
+  });
+
+  it('maps error responses to typed errors with their details', async () => {
+    fetchMock.mockResolvedValue(Response.json(
+      { error: 'Member already exists', details: { email: 'Esta persona ya pertenece al negocio' } },
+      { status: 409 }
+    ));
+
+    const result = await apiClient.business.members.invite({ email: 'estilista@salon.co', role: 'receptionist' });
+
+    expect(result).toEqual({
+      success: false,
+      error: {
+        code: 'CONFLICT',
+        status: 409,
+        message: 'Member already exists',
+        details: { email: 'Esta persona ya pertenece al negocio' },
+      },
+    });
+    if (!result.success) {
+      expect(getApiErrorMessage(result.error, 'fallback')).toBe('Esta persona ya pertenece al negocio');
+    }
+  });
+
+  it('checks settings updates against the shared rules before calling the API', async () => {
+    const result = await apiClient.business.updateSettings({
+      timezone: 'Mars/Olympus',
+      reminders: { enabled: true, offsetsMinutes: [], channels: ['email'] },
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.code).toBe('VALIDATION_ERROR');
+      expect(result.error.details).toMatchObject({
+        timezone: 'Zona horaria no soportada',
+        'reminders.offsetsMinutes': 'Agrega al menos un recordatorio',
+      });
+    }
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('sends only the editable profile fields', async () => {
+    fetchMock.mockResolvedValue(Response.json({ business: { id: 'business-1' } }));
+    // The dashboard sends the whole business it loaded
+    const business = {
+      name: 'Salón Bella',
+      phone: '+57 300 123 4567',
+      whatsappNumber: '',
+      settings: { timezone: 'America/Bogota' },
+    };
+
+    await apiClient.business.updateProfile(business);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('/api/business/profile');
+    expect(init.method).toBe('PUT');
+    expect(JSON.parse(init.body)).toEqual({ name: 'Salón Bella', phone: '+57 300 123 4567', whatsappNumber: '' });
+  });
+
+  it('reads the details of registration errors', async () => {
+    fetchMock.mockResolvedValue(Response.json(
+      { success: false, error: { type: 'email_exists', message: 'Este email ya está registrado', field: 'email' } },
+      { status: 409 }
+    ));
+
+    const result = await apiClient.business.register({
+      name: 'Salón Bella',
+      email: 'hola@salonbella.co',
+      phone: '+57 300 123 4567',
+      whatsapp_number: '+57 300 123 4567',
+      address: { street: 'Calle 10 # 5-20', city: 'Bogotá', department: 'Bogotá D.C.' },
+    });
+
+    expect(result).toEqual({
+      success: false,
+      error: { code: 'CONFLICT', status: 409, message: 'Este email ya está registrado' },
+    });
+  });
+
+  it('passes the client search as the q parameter', async () => {
+    fetchMock.mockResolvedValue(Response.json({ clients: [] }));
+
+    await apiClient.clients.list('  Ana Pérez ');
+
+    expect(fetchMock).toHaveBeenCalledWith('/api/clients?q=Ana%20P%C3%A9rez', expect.objectContaining({ method: 'GET' }));
+  });
+
+  it('refreshes the session and retries once when the API rejects the token', async () => {
+    mockSupabase.auth.refreshSession.mockResolvedValue({
+      data: { session: session(token('refreshed')) },
+      error: null,
+    });
+    fetchMock
+      .mockResolvedValueOnce(Response.json({ error: 'Unauthorized' }, { status: 401 }))
+      .mockResolvedValueOnce(Response.json({ history: [] }));
+
+    const result = await apiClient.appointments.history(APPOINTMENT_ID);
+
+    expect(result).toEqual({ success: true, data: { history: [] } });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(authorizationOf(fetchMock.mock.calls[1])).toBe(`Bearer ${token('refreshed')}`);
+    expect(mockSupabase.auth.signOut).not.toHaveBeenCalled();
+  });
+
+  it('shares one request between identical reads in flight', async () => {
+    fetchMock.mockImplementation(async () => Response.json({ exchangeRates: [] }));
+
+    const [first, second] = await Promise.all([
+      apiClient.exchangeRates.list(),
+      apiClient.exchangeRates.list(),
+    ]);
+    await apiClient.exchangeRates.list();
+
+    expect(first).toBe(second);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('aborts requests that exceed the configured timeout', async () => {
+    fetchMock.mockImplementation(hangUntilAborted);
+
+    const result = await apiClient.appointments.list({ from: new Date('2025-03-10T05:00:00.000Z') });
+
+    expect(result).toEqual({
+      success: false,
+      error: { code: 'TIMEOUT', status: null, message: 'Request timed out after 50ms' },
+    });
+    expect(fetchMock.mock.calls[0][0]).toBe('/api/appointments?from=2025-03-10T05%3A00%3A00.000Z');
+  });
+
+  it('reports requests cancelled by the caller as aborted', async () => {
+    fetchMock.mockImplementation(hangUntilAborted);
+    const controller = new AbortController();
+
+    const pending = apiClient.business.getProfile({ signal: controller.signal });
+    controller.abort();
+
+    expect(await pending).toMatchObject({ success: false, error: { code: 'ABORTED' } });
+  });
+});
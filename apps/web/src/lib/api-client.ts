@@ -0,0 +1,405 @@
+/**
+ * Typed API Client
+ * One function per API route, so components stop building URLs and parsing JSON by hand.
+ * Requests go through fetchInterceptor (auth headers, session refresh and retry on 401),
+ * bodies are checked with the same zod schemas as the route handlers before anything is
+ * sent, identical GETs in flight share one request, and requests are aborted after
+ * env.app.apiTimeout
+ */
+
+import type { z } from 'zod';
+import type {
+  Appointment,
+  AppointmentStatus,
+  AppointmentStatusChange,
+  Business,
+  BusinessMember,
+  BusinessSettings,
+  BusinessSettingsVersion,
+  Client,
+  ExchangeRate,
+  Service,
+  Specialist
+} from '@appointments-demo/types';
+import type { BusinessOpenState } from '@appointments-demo/utils';
+import {
+  AppointmentCreateSchema,
+  AppointmentUpdateSchema,
+  BusinessProfileUpdateSchema,
+  BusinessRegistrationSchema,
+  BusinessSettingsUpdateSchema,
+  ClientMergeSchema,
+  CompleteRegistrationSchema,
+  ExchangeRateSchema,
+  MemberInviteSchema,
+  MemberUpdateSchema,
+  ServiceCreateSchema,
+  ServiceUpdateSchema,
+  SpecialistCreateSchema,
+  SpecialistUpdateSchema,
+  extractValidationErrors
+} from '@/components/forms/validation-schemas';
+import type { ClientWithStats } from '@/components/business/client-detail';
+import { env } from './env';
+import { fetchInterceptor } from './jwt-token-management';
+
+// Type definitions
+export type ApiErrorCode =
+  | 'VALIDATION_ERROR'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'SERVER_ERROR'
+  | 'TIMEOUT'
+  | 'ABORTED'
+  | 'NETWORK_ERROR';
+
+export interface ApiError {
+  code: ApiErrorCode;
+  // HTTP status, null when no response was received (or the body never left the client)
+  status: number | null;
+  message: string;
+  // Field messages (Spanish) from zod, or the list some routes return
+  details?: Record<string, string> | string[];
+}
+
+export type ApiResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: ApiError };
+
+export interface ApiRequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface AppointmentListQuery {
+  from?: Date;
+  to?: Date;
+  status?: AppointmentStatus;
+}
+
+export interface MemberInvitationResponse {
+  member: BusinessMember;
+  invitationUrl: string;
+  emailSent: boolean;
+}
+
+export interface BusinessRegistrationResponse {
+  success: true;
+  data: {
+    business: {
+      id: string;
+      name: string;
+      email: string;
+      phone: string;
+      whatsapp_number: string;
+      address: { street: string; city: string; department: string; municipalityCode?: string };
+    };
+  };
+  message: string;
+}
+
+export interface CompleteRegistrationResponse {
+  success: true;
+  data: {
+    user_id: string;
+    business_id: string;
+    email_verification_sent: boolean;
+    user: { id: string; email: string; name: string };
+    business: { id: string; name: string; email: string; phone: string };
+  };
+  message: string;
+}
+
+export interface ClientDetailResponse {
+  client: ClientWithStats;
+  appointments: Appointment[];
+}
+
+type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+interface RequestOptions extends ApiRequestOptions {
+  body?: unknown;
+}
+
+const STATUS_ERROR_CODES: Record<number, ApiErrorCode> = {
+  400: 'VALIDATION_ERROR',
+  401: 'UNAUTHORIZED',
+  403: 'FORBIDDEN',
+  404: 'NOT_FOUND',
+  409: 'CONFLICT',
+  422: 'VALIDATION_ERROR',
+};
+
+// GETs currently in flight by path; callers passing their own signal never share one
+const inFlightRequests = new Map<string, Promise<ApiResult<unknown>>>();
+
+async function readJson(response: Response): Promise<unknown> {
+  try {
+    return await response.json();
+  } catch {
+    return null;
+  }
+}
+
+// Routes answer { error: string, details? }; registration uses { error: { message, details? } }
+function toApiError(response: Response, body: unknown): ApiError {
+  const payload = (body && typeof body === 'object' ? body : {}) as {
+    error?: string | { message?: string; details?: ApiError['details'] };
+    details?: ApiError['details'];
+  };
+  const message = typeof payload.error === 'string'
+    ? payload.error
+    : payload.error?.message || response.statusText || 'Request failed';
+  const details = typeof payload.error === 'object' ? payload.error.details : payload.details;
+
+  return {
+    code: STATUS_ERROR_CODES[response.status] ?? 'SERVER_ERROR',
+    status: response.status,
+    message,
+    ...(details && typeof details === 'object' && { details }),
+  };
+}
+
+async function send<T>(method: HttpMethod, path: string, { body, signal }: RequestOptions): Promise<ApiResult<T>> {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timeout = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, env.app.apiTimeout);
+
+  const abortFromCaller = () => controller.abort();
+  if (signal?.aborted) {
+    controller.abort();
+  }
+  signal?.addEventListener('abort', abortFromCaller);
+
+  try {
+    const response = await fetchInterceptor.fetchWithAuth(path, {
+      method,
+      ...(body !== undefined && {
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      }),
+      signal: controller.signal,
+    });
+    const data = await readJson(response);
+
+    if (!response.ok) {
+      return { success: false, error: toApiError(response, data) };
+    }
+
+    return { success: true, data: data as T };
+  } catch (error) {
+    if (controller.signal.aborted) {
+      return {
+        success: false,
+        error: timedOut
+          ? { code: 'TIMEOUT', status: null, message: `Request timed out after ${env.app.apiTimeout}ms` }
+          : { code: 'ABORTED', status: null, message: 'Request aborted' },
+      };
+    }
+
+    return {
+      success: false,
+      error: { code: 'NETWORK_ERROR', status: null, message: error instanceof Error ? error.message : 'Network error' },
+    };
+  } finally {
+    clearTimeout(timeout);
+    signal?.removeEventListener('abort', abortFromCaller);
+  }
+}
+
+function request<T>(method: HttpMethod, path: string, options: RequestOptions = {}): Promise<ApiResult<T>> {
+  if (method !== 'GET' || options.signal) {
+    return send<T>(method, path, options);
+  }
+
+  const pending = inFlightRequests.get(path);
+  if (pending) {
+    return pending as Promise<ApiResult<T>>;
+  }
+
+  const promise = send<T>(method, path, options).finally(() => inFlightRequests.delete(path));
+  inFlightRequests.set(path, promise);
+  return promise;
+}
+
+/**
+ * Validate a body with the route's zod schema and send the parsed value;
+ * invalid input fails with the same Spanish field messages the API would return
+ */
+function withBody<S extends z.ZodType, T>(
+  schema: S,
+  input: z.input<S>,
+  sendBody: (body: z.output<S>) => Promise<ApiResult<T>>
+): Promise<ApiResult<T>> {
+  const validation = schema.safeParse(input);
+  if (!validation.success) {
+    return Promise.resolve({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        status: null,
+        message: 'Validation failed',
+        details: extractValidationErrors(validation.error),
+      },
+    });
+  }
+
+  return sendBody(validation.data);
+}
+
+/**
+ * First field message of a failed request (what forms show), or the fallback
+ */
+export function getApiErrorMessage(error: ApiError, fallback: string): string {
+  const details = error.details ? Object.values(error.details) : [];
+  return details.find((detail): detail is string => typeof detail === 'string') || fallback;
+}
+
+const encodeId = (id: string) => encodeURIComponent(id);
+
+export const apiClient = {
+  business: {
+    getProfile: (options?: ApiRequestOptions) =>
+      request<{ business: Business }>('GET', '/api/business/profile', options),
+
+    getStatus: (options?: ApiRequestOptions) =>
+      request<{ status: BusinessOpenState }>('GET', '/api/business/status', options),
+
+    updateProfile: (updates: z.input<typeof BusinessProfileUpdateSchema>) =>
+      withBody(BusinessProfileUpdateSchema, updates, body =>
+        request<{ business: Business }>('PUT', '/api/business/profile', { body })),
+
+    updateSettings: (settings: z.input<typeof BusinessSettingsUpdateSchema>) =>
+      withBody(BusinessSettingsUpdateSchema, settings, body =>
+        request<{ settings: BusinessSettings }>('PUT', '/api/business/settings', { body })),
+
+    settingsVersions: {
+      list: (options?: ApiRequestOptions) =>
+        request<{ versions: BusinessSettingsVersion[] }>('GET', '/api/business/settings/versions', options),
+
+      restore: (version: number) =>
+        request<{ settings: BusinessSettings; version: BusinessSettingsVersion }>(
+          'POST',
+          `/api/business/settings/versions/${version}/restore`
+        ),
+    },
+
+    register: (registration: z.input<typeof BusinessRegistrationSchema>) =>
+      withBody(BusinessRegistrationSchema, registration, body =>
+        request<BusinessRegistrationResponse>('POST', '/api/business/register', { body })),
+
+    // New account and its first business in one request
+    registerComplete: (registration: z.input<typeof CompleteRegistrationSchema>) =>
+      withBody(CompleteRegistrationSchema, registration, body =>
+        request<CompleteRegistrationResponse>('POST', '/api/business/register-complete', { body })),
+
+    members: {
+      list: (options?: ApiRequestOptions) =>
+        request<{ members: BusinessMember[] }>('GET', '/api/business/members', options),
+
+      invite: (invitation: z.input<typeof MemberInviteSchema>) =>
+        withBody(MemberInviteSchema, invitation, body =>
+          request<MemberInvitationResponse>('POST', '/api/business/members', { body })),
+
+      updateRole: (memberId: string, update: z.input<typeof MemberUpdateSchema>) =>
+        withBody(MemberUpdateSchema, update, body =>
+          request<{ member: BusinessMember }>('PATCH', `/api/business/members/${encodeId(memberId)}`, { body })),
+
+      remove: (memberId: string) =>
+        request<{ success: true }>('DELETE', `/api/business/members/${encodeId(memberId)}`),
+    },
+  },
+
+  services: {
+    list: (options?: ApiRequestOptions) =>
+      request<{ services: Service[] }>('GET', '/api/services', options),
+
+    create: (service: z.input<typeof ServiceCreateSchema>) =>
+      withBody(ServiceCreateSchema, service, body =>
+        request<{ service: Service }>('POST', '/api/services', { body })),
+
+    update: (serviceId: string, update: z.input<typeof ServiceUpdateSchema>) =>
+      withBody(ServiceUpdateSchema, update, body =>
+        request<{ service: Service }>('PATCH', `/api/services/${encodeId(serviceId)}`, { body })),
+
+    remove: (serviceId: string) =>
+      request<{ success: true }>('DELETE', `/api/services/${encodeId(serviceId)}`),
+  },
+
+  specialists: {
+    list: (options?: ApiRequestOptions) =>
+      request<{ specialists: Specialist[] }>('GET', '/api/specialists', options),
+
+    create: (specialist: z.input<typeof SpecialistCreateSchema>) =>
+      withBody(SpecialistCreateSchema, specialist, body =>
+        request<{ specialist: Specialist }>('POST', '/api/specialists', { body })),
+
+    update: (specialistId: string, update: z.input<typeof SpecialistUpdateSchema>) =>
+      withBody(SpecialistUpdateSchema, update, body =>
+        request<{ specialist: Specialist }>('PATCH', `/api/specialists/${encodeId(specialistId)}`, { body })),
+
+    remove: (specialistId: string) =>
+      request<{ success: true }>('DELETE', `/api/specialists/${encodeId(specialistId)}`),
+  },
+
+  clients: {
+    // Name, phone or email search
+    list: (search = '', options?: ApiRequestOptions) => {
+      const query = search.trim();
+      return request<{ clients: ClientWithStats[] }>(
+        'GET',
+        `/api/clients${query ? `?q=${encodeURIComponent(query)}` : ''}`,
+        options
+      );
+    },
+
+    get: (clientId: string, options?: ApiRequestOptions) =>
+      request<ClientDetailResponse>('GET', `/api/clients/${encodeId(clientId)}`, options),
+
+    merge: (merge: z.input<typeof ClientMergeSchema>) =>
+      withBody(ClientMergeSchema, merge, body =>
+        request<{ client: Client }>('POST', '/api/clients/merge', { body })),
+  },
+
+  exchangeRates: {
+    list: (options?: ApiRequestOptions) =>
+      request<{ exchangeRates: ExchangeRate[] }>('GET', '/api/exchange-rates', options),
+
+    save: (quote: z.input<typeof ExchangeRateSchema>) =>
+      withBody(ExchangeRateSchema, quote, body =>
+        request<{ exchangeRate: ExchangeRate }>('PUT', '/api/exchange-rates', { body })),
+  },
+
+  appointments: {
+    list: (query: AppointmentListQuery = {}, options?: ApiRequestOptions) => {
+      const params = new URLSearchParams({
+        ...(query.from && { from: query.from.toISOString() }),
+        ...(query.to && { to: query.to.toISOString() }),
+        ...(query.status && { status: query.status }),
+      });
+      const search = params.toString();
+      return request<{ appointments: Appointment[] }>('GET', `/api/appointments${search ? `?${search}` : ''}`, options);
+    },
+
+    get: (appointmentId: string, options?: ApiRequestOptions) =>
+      request<{ appointment: Appointment }>('GET', `/api/appointments/${encodeId(appointmentId)}`, options),
+
+    create: (appointment: z.input<typeof AppointmentCreateSchema>) =>
+      withBody(AppointmentCreateSchema, appointment, body =>
+        request<{ appointment: Appointment }>('POST', '/api/appointments', { body })),
+
+    update: (appointmentId: string, update: z.input<typeof AppointmentUpdateSchema>) =>
+      withBody(AppointmentUpdateSchema, update, body =>
+        request<{ appointment: Appointment }>('PATCH', `/api/appointments/${encodeId(appointmentId)}`, { body })),
+
+    remove: (appointmentId: string) =>
+      request<{ success: true }>('DELETE', `/api/appointments/${encodeId(appointmentId)}`),
+
+    history: (appointmentId: string, options?: ApiRequestOptions) =>
+      request<{ history: AppointmentStatusChange[] }>('GET', `/api/appointments/${encodeId(appointmentId)}/history`, options),
+  },
+};
@@ -0,0 +1,70 @@
+/**
+ * Appointment Conflicts
+ * Checks a booking against the existing appointments of the current business
+ */
+
+import { NextResponse } from 'next/server';
+import { findConflictingAppointment, type AppointmentCandidate } from '@appointments-demo/utils';
+import type { DatabaseOperationResult } from './database-operations';
+import { listAppointmentsAround, type AppointmentQueryOptions } from './appointments';
+import { toDomainAppointment, type AppointmentRecord } from './database.types';
+
+// Stable code clients can use to tell a double booking from other errors
+export const APPOINTMENT_CONFLICT_CODE = 'APPOINTMENT_CONFLICT';
+
+// Exclusion constraint (migration 014) that rejects overlapping appointments of a specialist
+export const APPOINTMENT_OVERLAP_CONSTRAINT = 'appointments_no_specialist_overlap';
+
+/**
+ * Find an appointment that overlaps the candidate for the same specialist
+ * Resolves with null data when the time is free
+ */
+export async function findAppointmentConflict(
+  candidate: AppointmentCandidate,
+  options: AppointmentQueryOptions
+): Promise<DatabaseOperationResult<AppointmentRecord | null>> {
+  const start = new Date(candidate.scheduledAt);
+  const end = new Date(start.getTime() + candidate.duration * 60 * 1000);
+
+  // Narrow the query to the specialist when there is one; unassigned bookings need them all
+  const result = await listAppointmentsAround(
+    start,
+    end,
+    candidate.specialistId ? { specialistId: candidate.specialistId } : {},
+    options
+  );
+  if (!result.success) {
+    return { success: false, error: result.error, businessId: result.businessId };
+  }
+
+  const records = result.data || [];
+  const conflict = findConflictingAppointment(candidate, records.map(toDomainAppointment));
+
+  return {
+    success: true,
+    data: conflict ? records.find(record => record.id === conflict.id) ?? null : null,
+    businessId: result.businessId
+  };
+}
+
+/**
+ * Whether a failed write was rejected by the specialist overlap constraint, i.e. a
+ * concurrent request booked the time between our conflict check and the write
+ */
+export function isAppointmentOverlapError(error?: string): boolean {
+  return !!error && error.includes(APPOINTMENT_OVERLAP_CONSTRAINT);
+}
+
+/**
+ * 409 response for a booking or reschedule that would double-book
+ */
+export function appointmentConflictResponse(conflictingAppointmentId: string | null): NextResponse {
+  return NextResponse.json(
+    {
+      error: 'Appointment conflicts with another appointment',
+      code: APPOINTMENT_CONFLICT_CODE,
+      details: { conflictingAppointmentId }
+    },
+    { status: 409 }
+  );
+}
@@ -0,0 +1,38 @@
+/**
+ * Appointment Status History
+ * Reads the audit trail of appointment status transitions, written by the
+ * record_appointment_status_change trigger (migration 023)
+ */
+
+import {
+  BusinessContextDatabase,
+  type DatabaseOperationResult,
+  type QueryOptions
+} from './database-operations';
+import type { AppointmentStatusHistoryRecord } from './database.types';
+
+/**
+ * Get the status history of an appointment, oldest first
+ */
+export async function getStatusHistory(
+  appointmentId: string,
+  options: QueryOptions = {}
+): Promise<DatabaseOperationResult<AppointmentStatusHistoryRecord[]>> {
+  const result = await BusinessContextDatabase.select<AppointmentStatusHistoryRecord>(
+    'appointment_status_history',
+    '*',
+    { appointment_id: appointmentId },
+    options
+  );
+
+  if (!result.success || !result.data) {
+    return result;
+  }
+
+  return {
+    ...result,
+    data: [...result.data].sort(
+      (a, b) => new Date(a.changed_at).getTime() - new Date(b.changed_at).getTime()
+    )
+  };
+}
@@ -0,0 +1,110 @@
+/**
+ * Appointments Tests
+ *
+ * Tests that appointment filters, time windows and ordering are pushed into the
+ * Supabase query, with the query builder mocked
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { AppointmentStatus } from '@appointments-demo/types';
+import {
+  APPOINTMENT_NOT_FOUND_ERROR,
+  APPOINTMENT_STATUS_CHANGED_ERROR,
+  listAppointments,
+  listAppointmentsAround,
+  updateAppointment
+} from './appointments';
+
+const BUSINESS_ID = '12345678-1234-5678-9abc-123456789012';
+
+// Chainable query builder that records calls and resolves to the given result
+function createQueryBuilder(result: { data?: unknown; error: { message: string } | null }) {
+  const builder: Record<string, jest.Mock> & { then?: unknown } = {
+    select: jest.fn(() => builder),
+    eq: jest.fn(() => builder),
+    gte: jest.fn(() => builder),
+    lt: jest.fn(() => builder),
+    order: jest.fn(() => builder),
+    update: jest.fn(() => builder),
+    maybeSingle: jest.fn(() => builder),
+  };
+  builder.then = (resolve: (value: unknown) => unknown) => Promise.resolve(result).then(resolve);
+  return builder;
+}
+
+const clientWith = (builder: ReturnType<typeof createQueryBuilder>) =>
+  ({ from: jest.fn(() => builder) } as unknown as SupabaseClient);
+
+describe('Appointments', () => {
+  it('filters by business, status and start time and orders in the query', async () => {
+    const builder = createQueryBuilder({ data: [{ id: 'appt-1' }], error: null });
+
+    const result = await listAppointments(
+      {
+        status: AppointmentStatus.PENDING,
+        from: new Date('2025-03-01T05:00:00.000Z'),
+        to: new Date('2025-04-01T05:00:00.000Z'),
+      },
+      { businessId: BUSINESS_ID, client: clientWith(builder) }
+    );
+
+    expect(result).toEqual({ success: true, data: [{ id: 'appt-1' }], businessId: BUSINESS_ID });
+    expect(builder.eq).toHaveBeenCalledWith('business_id', BUSINESS_ID);
+    expect(builder.eq).toHaveBeenCalledWith('status', 'pending');
+    expect(builder.gte).toHaveBeenCalledWith('scheduled_at', '2025-03-01T05:00:00.000Z');
+    expect(builder.lt).toHaveBeenCalledWith('scheduled_at', '2025-04-01T05:00:00.000Z');
+    expect(builder.order).toHaveBeenCalledWith('scheduled_at', { ascending: true });
+  });
+
+  it('reaches back the longest appointment duration to find overlaps', async () => {
+    const builder = createQueryBuilder({ data: [], error: null });
+
+    await listAppointmentsAround(
+      new Date('2025-03-10T14:00:00.000Z'),
+      new Date('2025-03-10T15:00:00.000Z'),
+      { specialistId: 'spec-1' },
+      { businessId: BUSINESS_ID, client: clientWith(builder) }
+    );
+
+    expect(builder.eq).toHaveBeenCalledWith('specialist_id', 'spec-1');
+    expect(builder.gte).toHaveBeenCalledWith('scheduled_at', '2025-03-10T02:00:00.000Z');
+    expect(builder.lt).toHaveBeenCalledWith('scheduled_at', '2025-03-10T15:00:00.000Z');
+  });
+
+  it('reports query errors', async () => {
+    const builder = createQueryBuilder({ data: null, error: { message: 'timeout' } });
+
+    const result = await listAppointments({}, { businessId: BUSINESS_ID, client: clientWith(builder) });
+
+    expect(result).toEqual({ success: false, error: 'Database select error: timeout', businessId: BUSINESS_ID });
+    expect(builder.gte).not.toHaveBeenCalled();
+  });
+
+  it('only writes a status change while the appointment keeps the status it was read with', async () => {
+    const builder = createQueryBuilder({ data: null, error: null });
+
+    const result = await updateAppointment(
+      'appt-1',
+      { status: 'cancelled' },
+      { expectedStatus: AppointmentStatus.CONFIRMED },
+      { businessId: BUSINESS_ID, client: clientWith(builder) }
+    );
+
+    expect(builder.update).toHaveBeenCalledWith({ status: 'cancelled' });
+    expect(builder.eq).toHaveBeenCalledWith('business_id', BUSINESS_ID);
+    expect(builder.eq).toHaveBeenCalledWith('status', 'confirmed');
+    expect(result).toEqual({ success: false, error: APPOINTMENT_STATUS_CHANGED_ERROR, businessId: BUSINESS_ID });
+  });
+
+  it('reports an update that matched no appointment as not found', async () => {
+    const builder = createQueryBuilder({ data: null, error: null });
+
+    const result = await updateAppointment('other', { notes: 'Llegará tarde' }, {}, {
+      businessId: BUSINESS_ID,
+      client: clientWith(builder),
+    });
+
+    expect(builder.eq).not.toHaveBeenCalledWith('status', expect.anything());
+    expect(result).toEqual({ success: false, error: APPOINTMENT_NOT_FOUND_ERROR, businessId: BUSINESS_ID });
+  });
+});
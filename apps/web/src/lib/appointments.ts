@@ -0,0 +1,134 @@
+/**
+ * Appointments
+ * Reads the appointments of a business within a time window, filtered and ordered by the database,
+ * and updates them conditionally on the status they were read with
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { AppointmentStatus } from '@appointments-demo/types';
+import type { DatabaseOperationResult } from './database-operations';
+import type { AppointmentRecord } from './database.types';
+
+// Longest appointment allowed by the duration check of migration 008, in minutes
+export const MAX_APPOINTMENT_DURATION_MINUTES = 720;
+
+// Error messages callers can map to HTTP responses
+export const APPOINTMENT_NOT_FOUND_ERROR = 'Appointment not found';
+export const APPOINTMENT_STATUS_CHANGED_ERROR = 'Appointment status changed since it was read';
+
+// Stable code clients can use to reload an appointment a concurrent request changed
+export const APPOINTMENT_STATUS_CHANGED_CODE = 'APPOINTMENT_STATUS_CHANGED';
+
+// Type definitions
+export interface AppointmentListFilters {
+  status?: AppointmentStatus;
+  specialistId?: string;
+  from?: Date; // Appointments starting at or after this instant
+  to?: Date; // Appointments starting before this instant
+}
+
+export interface AppointmentUpdateConditions {
+  expectedStatus?: AppointmentStatus; // Only write while the appointment still has this status
+}
+
+export interface AppointmentQueryOptions {
+  businessId: string;
+  client: SupabaseClient;
+}
+
+/**
+ * List the appointments of a business that start within the filtered window,
+ * ordered by start time
+ */
+export async function listAppointments(
+  filters: AppointmentListFilters,
+  options: AppointmentQueryOptions
+): Promise<DatabaseOperationResult<AppointmentRecord[]>> {
+  const { businessId, client } = options;
+
+  let query = client
+    .from('appointments')
+    .select('*')
+    .eq('business_id', businessId);
+
+  if (filters.status) {
+    query = query.eq('status', filters.status);
+  }
+  if (filters.specialistId) {
+    query = query.eq('specialist_id', filters.specialistId);
+  }
+  if (filters.from) {
+    query = query.gte('scheduled_at', filters.from.toISOString());
+  }
+  if (filters.to) {
+    query = query.lt('scheduled_at', filters.to.toISOString());
+  }
+
+  const { data, error } = await query.order('scheduled_at', { ascending: true });
+
+  if (error) {
+    return { success: false, error: `Database select error: ${error.message}`, businessId };
+  }
+
+  return { success: true, data: (data as AppointmentRecord[]) || [], businessId };
+}
+
+/**
+ * List the appointments that may overlap [start, end): those starting before the end
+ * and no more than the longest appointment duration before the start
+ */
+export async function listAppointmentsAround(
+  start: Date,
+  end: Date,
+  filters: Pick<AppointmentListFilters, 'specialistId'>,
+  options: AppointmentQueryOptions
+): Promise<DatabaseOperationResult<AppointmentRecord[]>> {
+  return await listAppointments(
+    {
+      ...filters,
+      from: new Date(start.getTime() - MAX_APPOINTMENT_DURATION_MINUTES * 60 * 1000),
+      to: end
+    },
+    options
+  );
+}
+
+/**
+ * Update an appointment of a business. With an expected status the write only applies
+ * while the appointment still has it, so a transition validated against an earlier read
+ * cannot be written after a concurrent request changed the status
+ */
+export async function updateAppointment(
+  id: string,
+  data: Record<string, unknown>,
+  { expectedStatus }: AppointmentUpdateConditions,
+  options: AppointmentQueryOptions
+): Promise<DatabaseOperationResult<AppointmentRecord>> {
+  const { businessId, client } = options;
+
+  let query = client
+    .from('appointments')
+    .update(data)
+    .eq('id', id)
+    .eq('business_id', businessId);
+
+  if (expectedStatus) {
+    query = query.eq('status', expectedStatus);
+  }
+
+  const { data: updated, error } = await query.select().maybeSingle();
+
+  if (error) {
+    return { success: false, error: `Database update error: ${error.message}`, businessId };
+  }
+
+  if (!updated) {
+    return {
+      success: false,
+      error: expectedStatus ? APPOINTMENT_STATUS_CHANGED_ERROR : APPOINTMENT_NOT_FOUND_ERROR,
+      businessId
+    };
+  }
+
+  return { success: true, data: updated as AppointmentRecord, businessId };
+}
@@ -39,5 +39,6 @@ export {
   useIsInitialized,
   useRequireAuth,
   useRequireBusinessContext,
+  usePermission,
   useBusinessContext
 } from './auth-store';
\ No newline at end of file
@@ -10,6 +10,8 @@ import { create } from 'zustand';
 import { devtools } from 'zustand/middleware';
 import { auth, type AuthUser, type AuthError } from './auth';
 import { businessContext } from './business-context';
+import { hasPermission, type BusinessPermission } from './business-permissions';
+import type { BusinessRole } from '@appointments-demo/types';
 import type { SessionTimeoutConfig } from './logout-session-management';
 
 // State Machine Definition
@@ -545,6 +547,40 @@ export const useRequireBusinessContext = () => {
   return { user, isInitialized, businessId, hasBusinessContext: !!businessId };
 };
 
+// Hook for role-based permissions within the current business (e.g. receptionists
+// can book appointments but not change BusinessSettings)
+export const usePermission = (permission: BusinessPermission, businessIdOverride?: string | null) => {
+  const user = useAuthUser();
+  const storeBusinessId = useAuthBusinessId();
+  const businessId = businessIdOverride ?? storeBusinessId;
+  const [role, setRole] = React.useState<BusinessRole | null>(null);
+  const [isLoading, setIsLoading] = React.useState(true);
+
+  React.useEffect(() => {
+    let mounted = true;
+
+    if (!user || !businessId) {
+      setRole(null);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    businessContext.getUserRole(businessId).then((userRole) => {
+      if (mounted) {
+        setRole(userRole);
+        setIsLoading(false);
+      }
+    });
+
+    return () => {
+      mounted = false;
+    };
+  }, [user, businessId]);
+
+  return { allowed: hasPermission(role, permission), role, isLoading };
+};
+
 // Hook for async business context with auto-selection
 export const useBusinessContext = (options?: { autoSelect?: boolean; skipCache?: boolean }) => {
   const user = useAuthUser();
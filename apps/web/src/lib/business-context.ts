@@ -4,7 +4,10 @@
  * Consolidates localStorage, RLS context, and validation logic
  */
 
+import type { BusinessRole } from '@appointments-demo/types';
 import { supabase } from './supabase';
+import { clearBusinessSelection, storeBusinessSelection } from './business-selection';
+import { isBusinessRole } from './business-permissions';
 
 // UUID validation regex
 const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
@@ -140,6 +143,7 @@ export const businessContext = {
         // Cache the selection in localStorage
         if (typeof window !== 'undefined') {
           localStorage.setItem(STORAGE_KEY, selectedBusinessId);
+          storeBusinessSelection(selectedBusinessId);
         }
         
         console.log('🏢 Auto-selected business:', { 
@@ -242,6 +246,32 @@ export const businessContext = {
     }
   },
 
+  /**
+   * Get the role of the authenticated user in a business (owner or team member role),
+   * as resolved by the database for the RLS policies
+   */
+  async getUserRole(businessId: string): Promise<BusinessRole | null> {
+    try {
+      if (!UUID_REGEX.test(businessId)) {
+        return null;
+      }
+
+      const { data, error } = await supabase.rpc('get_business_role', {
+        p_business_id: businessId
+      });
+
+      if (error) {
+        console.error('Error fetching business role:', error);
+        return null;
+      }
+
+      return isBusinessRole(data) ? data : null;
+    } catch (error) {
+      console.error('Error fetching business role:', error);
+      return null;
+    }
+  },
+
   /**
    * Set user's default business (stores in localStorage and sets RLS context)
    */
@@ -285,9 +315,10 @@ export const businessContext = {
         };
       }
 
-      // 1. Set localStorage (client-side state)
+      // 1. Set localStorage (client-side state) and the API selection cookie
       if (typeof window !== 'undefined') {
         localStorage.setItem(STORAGE_KEY, businessId);
+        storeBusinessSelection(businessId);
       }
 
       // 2. Set database RLS context
@@ -299,6 +330,7 @@ export const businessContext = {
         // Rollback localStorage on RLS failure
         if (typeof window !== 'undefined') {
           localStorage.removeItem(STORAGE_KEY);
+          clearBusinessSelection();
         }
         
         return {
@@ -317,6 +349,7 @@ export const businessContext = {
       // Rollback localStorage on any failure
       if (typeof window !== 'undefined') {
         localStorage.removeItem(STORAGE_KEY);
+        clearBusinessSelection();
       }
 
       return {
@@ -335,9 +368,10 @@ export const businessContext = {
    */
   async clearBusinessContext(): Promise<BusinessContextResult> {
     try {
-      // 1. Clear localStorage
+      // 1. Clear localStorage and the API selection cookie
       if (typeof window !== 'undefined') {
         localStorage.removeItem(STORAGE_KEY);
+        clearBusinessSelection();
       }
 
       // 2. Clear database RLS context
@@ -0,0 +1,218 @@
+/**
+ * Business Members
+ * Team of a business: invitations by email, role changes and accepting an invitation
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { BusinessRole } from '@appointments-demo/types';
+import {
+  BusinessContextDatabase,
+  type DatabaseOperationResult
+} from './database-operations';
+import type { BusinessMemberRecord } from './database.types';
+import { env } from './env';
+import { createServerSupabaseClient } from './supabase';
+
+// Error messages callers can map to HTTP responses
+export const MEMBER_NOT_FOUND_ERROR = 'Member not found';
+export const MEMBER_ALREADY_EXISTS_ERROR = 'Member already invited';
+export const OWNER_MEMBER_ERROR = 'The business owner cannot be changed or removed';
+export const INVITATION_NOT_FOUND_ERROR = 'Invitation not found';
+export const INVITATION_EMAIL_MISMATCH_ERROR = 'Invitation was sent to another email';
+
+interface MemberQueryOptions {
+  businessId: string;
+  client: SupabaseClient;
+}
+
+export interface MemberInvitation {
+  member: BusinessMemberRecord;
+  invitationUrl: string;
+  emailSent: boolean;
+}
+
+/**
+ * Link the invited person opens to join the business
+ */
+export function getInvitationUrl(token: string): string {
+  return `${env.app.baseUrl}/invitations/${token}`;
+}
+
+/**
+ * List the members of the current business, oldest first
+ */
+export async function listMembers(
+  options: MemberQueryOptions
+): Promise<DatabaseOperationResult<BusinessMemberRecord[]>> {
+  const result = await BusinessContextDatabase.select<BusinessMemberRecord>('business_members', '*', {}, options);
+  if (!result.success) {
+    return result;
+  }
+
+  const members = [...(result.data || [])].sort((a, b) => a.created_at.localeCompare(b.created_at));
+  return { success: true, data: members, businessId: result.businessId };
+}
+
+/**
+ * Invite someone by email with a role. The invitation is stored first; the email goes
+ * out through Supabase Auth, and people who already have an account get the link
+ * returned so it can be shared with them directly.
+ */
+export async function inviteMember(
+  invitation: { email: string; role: BusinessRole },
+  invitedBy: string,
+  options: MemberQueryOptions
+): Promise<DatabaseOperationResult<MemberInvitation>> {
+  const created = await BusinessContextDatabase.insert<BusinessMemberRecord>(
+    'business_members',
+    {
+      email: invitation.email.toLowerCase(),
+      role: invitation.role,
+      status: 'invited',
+      user_id: null,
+      invited_by: invitedBy,
+    },
+    options
+  );
+
+  if (!created.success || !created.data) {
+    const error = created.error?.includes('duplicate key') ? MEMBER_ALREADY_EXISTS_ERROR : created.error;
+    return { success: false, error, businessId: created.businessId };
+  }
+
+  const member = created.data;
+  const invitationUrl = getInvitationUrl(member.invitation_token as string);
+
+  let emailSent = false;
+  try {
+    const { error } = await createServerSupabaseClient().auth.admin.inviteUserByEmail(member.email, {
+      redirectTo: invitationUrl,
+    });
+    if (error) {
+      // Existing accounts cannot be invited through Auth; they use the link instead
+      console.warn('Invitation email not sent:', error.message);
+    } else {
+      emailSent = true;
+    }
+  } catch (error) {
+    console.warn('Invitation email not sent:', error);
+  }
+
+  return {
+    success: true,
+    data: { member, invitationUrl, emailSent },
+    businessId: created.businessId,
+  };
+}
+
+/**
+ * Load a member of the current business, refusing to touch the owner
+ */
+async function findEditableMember(
+  memberId: string,
+  options: MemberQueryOptions
+): Promise<DatabaseOperationResult<BusinessMemberRecord>> {
+  const existing = await BusinessContextDatabase.select<BusinessMemberRecord>(
+    'business_members',
+    '*',
+    { id: memberId },
+    options
+  );
+  if (!existing.success) {
+    return { success: false, error: existing.error, businessId: existing.businessId };
+  }
+
+  const member = existing.data?.[0];
+  if (!member) {
+    return { success: false, error: MEMBER_NOT_FOUND_ERROR, businessId: existing.businessId };
+  }
+  if (member.role === BusinessRole.OWNER) {
+    return { success: false, error: OWNER_MEMBER_ERROR, businessId: existing.businessId };
+  }
+
+  return { success: true, data: member, businessId: existing.businessId };
+}
+
+/**
+ * Change the role of a member
+ */
+export async function updateMemberRole(
+  memberId: string,
+  role: BusinessRole,
+  options: MemberQueryOptions
+): Promise<DatabaseOperationResult<BusinessMemberRecord>> {
+  const existing = await findEditableMember(memberId, options);
+  if (!existing.success) {
+    return existing;
+  }
+
+  return BusinessContextDatabase.update<BusinessMemberRecord>('business_members', memberId, { role }, options);
+}
+
+/**
+ * Remove a member or withdraw a pending invitation
+ */
+export async function removeMember(
+  memberId: string,
+  options: MemberQueryOptions
+): Promise<DatabaseOperationResult<boolean>> {
+  const existing = await findEditableMember(memberId, options);
+  if (!existing.success) {
+    return { success: false, error: existing.error, businessId: existing.businessId };
+  }
+
+  return BusinessContextDatabase.delete('business_members', memberId, options);
+}
+
+/**
+ * Accept an invitation for the signed-in user. The invitee is not a member yet, so RLS
+ * hides the row from them: the lookup runs with the service role and only succeeds
+ * for the email the invitation was sent to.
+ */
+export async function acceptInvitation(
+  token: string,
+  user: { id: string; email: string }
+): Promise<DatabaseOperationResult<BusinessMemberRecord>> {
+  const supabase = createServerSupabaseClient();
+
+  const { data: invitations, error } = await supabase
+    .from('business_members')
+    .select('*')
+    .eq('invitation_token', token)
+    .eq('status', 'invited')
+    .limit(1);
+
+  if (error) {
+    return { success: false, error: `Database select error: ${error.message}` };
+  }
+
+  const invitation = invitations?.[0] as BusinessMemberRecord | undefined;
+  if (!invitation) {
+    return { success: false, error: INVITATION_NOT_FOUND_ERROR };
+  }
+  if (invitation.email.toLowerCase() !== user.email.toLowerCase()) {
+    return { success: false, error: INVITATION_EMAIL_MISMATCH_ERROR, businessId: invitation.business_id };
+  }
+
+  const { data: accepted, error: updateError } = await supabase
+    .from('business_members')
+    .update({
+      user_id: user.id,
+      status: 'active',
+      accepted_at: new Date().toISOString(),
+      invitation_token: null,
+    })
+    .eq('id', invitation.id)
+    .select('*')
+    .single();
+
+  if (updateError || !accepted) {
+    return {
+      success: false,
+      error: `Database update error: ${updateError?.message ?? 'no row updated'}`,
+      businessId: invitation.business_id,
+    };
+  }
+
+  return { success: true, data: accepted as BusinessMemberRecord, businessId: invitation.business_id };
+}
@@ -0,0 +1,45 @@
+/**
+ * Business Permissions Tests
+ * Receptionists can book but not change BusinessSettings; specialists only see the agenda
+ */
+
+import { BusinessRole } from '@appointments-demo/types';
+import { hasPermission, isBusinessRole } from './business-permissions';
+
+describe('hasPermission', () => {
+  it('lets owners and admins manage everything', () => {
+    for (const role of [BusinessRole.OWNER, BusinessRole.ADMIN]) {
+      expect(hasPermission(role, 'settings:manage')).toBe(true);
+      expect(hasPermission(role, 'catalog:manage')).toBe(true);
+      expect(hasPermission(role, 'members:manage')).toBe(true);
+      expect(hasPermission(role, 'appointments:manage')).toBe(true);
+    }
+  });
+
+  it('lets receptionists book but not change settings, catalog or team', () => {
+    expect(hasPermission(BusinessRole.RECEPTIONIST, 'appointments:manage')).toBe(true);
+    expect(hasPermission(BusinessRole.RECEPTIONIST, 'clients:manage')).toBe(true);
+    expect(hasPermission(BusinessRole.RECEPTIONIST, 'settings:manage')).toBe(false);
+    expect(hasPermission(BusinessRole.RECEPTIONIST, 'catalog:manage')).toBe(false);
+    expect(hasPermission(BusinessRole.RECEPTIONIST, 'members:manage')).toBe(false);
+  });
+
+  it('only lets specialists view appointments', () => {
+    expect(hasPermission(BusinessRole.SPECIALIST, 'appointments:view')).toBe(true);
+    expect(hasPermission(BusinessRole.SPECIALIST, 'appointments:manage')).toBe(false);
+    expect(hasPermission(BusinessRole.SPECIALIST, 'clients:manage')).toBe(false);
+  });
+
+  it('grants nothing without a role', () => {
+    expect(hasPermission(null, 'appointments:view')).toBe(false);
+    expect(hasPermission(undefined, 'appointments:view')).toBe(false);
+  });
+});
+
+describe('isBusinessRole', () => {
+  it('accepts known roles only', () => {
+    expect(isBusinessRole('receptionist')).toBe(true);
+    expect(isBusinessRole('superuser')).toBe(false);
+    expect(isBusinessRole(null)).toBe(false);
+  });
+});
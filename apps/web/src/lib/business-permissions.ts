@@ -0,0 +1,63 @@
+/**
+ * Business Permissions
+ * What each team member role may do within a business; mirrors the role-based
+ * RLS policies of migration 018 so the UI and API routes refuse early
+ */
+
+import { BusinessRole } from '@appointments-demo/types';
+
+export type BusinessPermission =
+  | 'appointments:view'
+  | 'appointments:manage'
+  | 'clients:manage'
+  | 'catalog:manage'
+  | 'settings:manage'
+  | 'members:manage';
+
+const ROLE_PERMISSIONS: Record<BusinessRole, readonly BusinessPermission[]> = {
+  [BusinessRole.OWNER]: [
+    'appointments:view',
+    'appointments:manage',
+    'clients:manage',
+    'catalog:manage',
+    'settings:manage',
+    'members:manage'
+  ],
+  [BusinessRole.ADMIN]: [
+    'appointments:view',
+    'appointments:manage',
+    'clients:manage',
+    'catalog:manage',
+    'settings:manage',
+    'members:manage'
+  ],
+  [BusinessRole.RECEPTIONIST]: [
+    'appointments:view',
+    'appointments:manage',
+    'clients:manage'
+  ],
+  [BusinessRole.SPECIALIST]: [
+    'appointments:view'
+  ],
+};
+
+export const BUSINESS_ROLE_LABELS: Record<BusinessRole, string> = {
+  [BusinessRole.OWNER]: 'Propietario',
+  [BusinessRole.ADMIN]: 'Administrador',
+  [BusinessRole.RECEPTIONIST]: 'Recepcionista',
+  [BusinessRole.SPECIALIST]: 'Especialista',
+};
+
+/**
+ * Check whether a role grants a permission (no role grants nothing)
+ */
+export function hasPermission(role: BusinessRole | null | undefined, permission: BusinessPermission): boolean {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * Narrow a database value to a known role
+ */
+export function isBusinessRole(value: unknown): value is BusinessRole {
+  return Object.values(BusinessRole).includes(value as BusinessRole);
+}
@@ -0,0 +1,42 @@
+/**
+ * Business Selection
+ * Remembers which of the owner's businesses (locations) is active, so API
+ * routes resolve the same business the client switched to
+ */
+
+// Same key as the localStorage entry used by the client-side business context
+export const BUSINESS_SELECTION_COOKIE = 'current_business_id';
+
+// One year; the selection is replaced on every switch and cleared on logout
+const SELECTION_MAX_AGE_SECONDS = 60 * 60 * 24 * 365;
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Parse a selection cookie value, ignoring anything that is not a business ID
+ */
+export function parseBusinessSelection(value: string | undefined | null): string | null {
+  return value && UUID_REGEX.test(value) ? value : null;
+}
+
+/**
+ * Store the active business for subsequent API requests
+ */
+export function storeBusinessSelection(businessId: string): void {
+  if (typeof document === 'undefined') {
+    return;
+  }
+
+  document.cookie = `${BUSINESS_SELECTION_COOKIE}=${encodeURIComponent(businessId)}; path=/; max-age=${SELECTION_MAX_AGE_SECONDS}; samesite=lax`;
+}
+
+/**
+ * Forget the active business (API requests fall back to the oldest one)
+ */
+export function clearBusinessSelection(): void {
+  if (typeof document === 'undefined') {
+    return;
+  }
+
+  document.cookie = `${BUSINESS_SELECTION_COOKIE}=; path=/; max-age=0; samesite=lax`;
+}
@@ -0,0 +1,189 @@
+/**
+ * Business Session Manager Tests
+ * Switching between the locations of an owner or team member resets the RLS context, the API
+ * selection cookie and any client-side data of the previous location
+ */
+
+jest.mock('@supabase/supabase-js', () => {
+  const mockSupabase = {
+    auth: {
+      getSession: jest.fn(),
+    },
+    rpc: jest.fn(),
+    from: jest.fn(),
+  }
+
+  return {
+    createClient: jest.fn(() => mockSupabase)
+  }
+})
+
+import { createClient } from '@supabase/supabase-js'
+import {
+  getAvailableBusinesses,
+  switchToBusiness,
+  addBusinessSwitchListener,
+  getCurrentBusinessSession
+} from './business-session-manager'
+import type { BusinessRecord } from './database.types'
+
+// Access mocked supabase instance
+const mockSupabase = (createClient as jest.Mock)()
+
+const OWNER_ID = '987fcdeb-51a2-43d1-9f12-345678901234'
+const CENTRO_ID = '123e4567-e89b-12d3-a456-426614174000'
+const NORTE_ID = '456e7890-e89b-12d3-a456-426614174111'
+const FOREIGN_ID = '789e0123-e89b-12d3-a456-426614174222'
+
+const MEMBER_ID = '321fedcb-51a2-43d1-9f12-345678901234'
+
+const businesses = [
+  { id: CENTRO_ID, name: 'Spa Centro', owner_id: OWNER_ID },
+  { id: NORTE_ID, name: 'Spa Norte', owner_id: OWNER_ID },
+  { id: FOREIGN_ID, name: 'Otro Spa', owner_id: 'someone-else' },
+]
+
+const memberships = [
+  { business_id: CENTRO_ID, user_id: OWNER_ID, role: 'owner', status: 'active' },
+  { business_id: NORTE_ID, user_id: OWNER_ID, role: 'owner', status: 'active' },
+  { business_id: FOREIGN_ID, user_id: 'someone-else', role: 'owner', status: 'active' },
+  { business_id: FOREIGN_ID, user_id: MEMBER_ID, role: 'receptionist', status: 'active' },
+  { business_id: NORTE_ID, user_id: MEMBER_ID, role: 'specialist', status: 'invited' },
+]
+
+// Columns of the businesses table (migrations 001-017); typed so it cannot drift from the record
+const BUSINESS_COLUMNS: Record<keyof BusinessRecord, true> = {
+  id: true, owner_id: true, name: true, slug: true, description: true, street: true, city: true,
+  department: true, postal_code: true, municipality_code: true, phone: true, whatsapp_number: true,
+  email: true, settings: true, created_at: true, updated_at: true,
+}
+
+// Selecting a column the table does not have fails like PostgREST does
+const unknownColumn = (columns: string) => columns
+  .split(',')
+  .map(column => column.trim())
+  .find(column => !column.startsWith('business_members!inner(') && !(column in BUSINESS_COLUMNS))
+
+// businesses table: business_members filters + order() lists, eq('id') + single() validates
+const businessesTable = () => ({
+  select: (columns: string) => {
+    const invalid = unknownColumn(columns)
+    const error = invalid ? { code: '42703', message: `column businesses.${invalid} does not exist` } : null
+    const filters: Record<string, string> = {}
+
+    const query = {
+      eq: (column: string, value: string) => {
+        filters[column] = value
+        return query
+      },
+      order: () => Promise.resolve(error ? { data: null, error } : {
+        data: businesses.flatMap(business => {
+          const member = memberships.find(m =>
+            m.business_id === business.id &&
+            m.user_id === filters['business_members.user_id'] &&
+            m.status === filters['business_members.status'])
+          return member ? [{ ...business, business_members: [{ role: member.role }] }] : []
+        }),
+        error: null
+      }),
+      single: () => {
+        const business = businesses.find(b => b.id === filters.id)
+        return Promise.resolve(error ? { data: null, error } : business
+          ? { data: business, error: null }
+          : { data: null, error: { code: 'PGRST116', message: 'No rows' } })
+      }
+    }
+    return query
+  }
+})
+
+const selectionCookie = () =>
+  document.cookie.split('; ').find(cookie => cookie.startsWith('current_business_id='))?.split('=')[1]
+
+describe('BusinessSessionManager', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockSupabase.auth.getSession.mockResolvedValue({
+      data: { session: { user: { id: OWNER_ID } } },
+      error: null
+    })
+    // The user is not a member of any business it does not own
+    mockSupabase.rpc.mockImplementation((fn: string) => Promise.resolve({
+      data: fn === 'validate_business_access' ? false : null,
+      error: null
+    }))
+    mockSupabase.from.mockImplementation(businessesTable)
+    localStorage.clear()
+    document.cookie = 'current_business_id=; path=/; max-age=0'
+  })
+
+  it('lists every location the user owns', async () => {
+    const available = await getAvailableBusinesses()
+
+    expect(available).toEqual([
+      { id: CENTRO_ID, name: 'Spa Centro', owner_id: OWNER_ID, role: 'owner' },
+      { id: NORTE_ID, name: 'Spa Norte', owner_id: OWNER_ID, role: 'owner' },
+    ])
+  })
+
+  it('lists the businesses where the user is an active team member', async () => {
+    mockSupabase.auth.getSession.mockResolvedValue({
+      data: { session: { user: { id: MEMBER_ID } } },
+      error: null
+    })
+
+    const available = await getAvailableBusinesses()
+
+    expect(available).toEqual([{ id: FOREIGN_ID, name: 'Otro Spa', owner_id: 'someone-else', role: 'receptionist' }])
+  })
+
+  it('resets the RLS context and the API selection when switching locations', async () => {
+    await switchToBusiness(CENTRO_ID)
+    localStorage.setItem('business_context', JSON.stringify({ business_id: CENTRO_ID, name: 'Spa Centro' }))
+
+    const result = await switchToBusiness(NORTE_ID)
+
+    expect(result).toMatchObject({ success: true, previousBusinessId: CENTRO_ID, newBusinessId: NORTE_ID })
+    expect(mockSupabase.rpc).toHaveBeenLastCalledWith('set_business_context', { business_id: NORTE_ID })
+    expect(localStorage.getItem('current_business_id')).toBe(NORTE_ID)
+    expect(selectionCookie()).toBe(NORTE_ID)
+    expect(localStorage.getItem('business_context')).toBeNull()
+    expect(getCurrentBusinessSession().currentBusinessId).toBe(NORTE_ID)
+  })
+
+  it('notifies listeners so pages reload their data for the new location', async () => {
+    await switchToBusiness(CENTRO_ID)
+    const listener = jest.fn()
+    const unsubscribe = addBusinessSwitchListener(listener)
+
+    await switchToBusiness(NORTE_ID)
+    unsubscribe()
+
+    expect(listener).toHaveBeenCalledWith(NORTE_ID)
+  })
+
+  it('never switches into a business owned by someone else', async () => {
+    await switchToBusiness(CENTRO_ID)
+    mockSupabase.rpc.mockClear()
+
+    const result = await switchToBusiness(FOREIGN_ID)
+
+    expect(result.success).toBe(false)
+    expect(mockSupabase.rpc).not.toHaveBeenCalledWith('set_business_context', expect.anything())
+    expect(localStorage.getItem('current_business_id')).toBe(CENTRO_ID)
+    expect(selectionCookie()).toBe(CENTRO_ID)
+    expect(getCurrentBusinessSession().currentBusinessId).toBe(CENTRO_ID)
+  })
+
+  it('switches into a business where the user is an active team member', async () => {
+    await switchToBusiness(CENTRO_ID)
+    mockSupabase.rpc.mockResolvedValue({ data: true, error: null })
+
+    const result = await switchToBusiness(FOREIGN_ID)
+
+    expect(result.success).toBe(true)
+    expect(mockSupabase.rpc).toHaveBeenCalledWith('validate_business_access', { business_uuid: FOREIGN_ID })
+    expect(mockSupabase.rpc).toHaveBeenLastCalledWith('set_business_context', { business_id: FOREIGN_ID })
+    expect(selectionCookie()).toBe(FOREIGN_ID)
+  })
+})
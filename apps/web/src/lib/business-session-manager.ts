@@ -7,15 +7,20 @@ import {
   switchBusinessContext,
   getBusinessContext,
   clearBusinessContext,
-  validateBusinessContext
+  validateBusinessContext,
+  discoverUserBusinesses
 } from './rls-context-management'
+import type { BusinessRole } from '@appointments-demo/types'
+
+// Client-side snapshot of the active business written at registration
+const BUSINESS_SNAPSHOT_KEY = 'business_context'
 
 // Type definitions
 export interface BusinessInfo {
   id: string
   name: string
-  status: 'active' | 'suspended' | 'pending'
   owner_id: string
+  role: BusinessRole // Role of the current user in this business
 }
 
 export interface SessionSwitchResult {
@@ -115,6 +120,11 @@ export class BusinessSessionManager {
         }
       }
 
+      // Nothing cached for the previous location may survive the switch
+      if (typeof window !== 'undefined') {
+        localStorage.removeItem(BUSINESS_SNAPSHOT_KEY)
+      }
+
       // Update session state
       this.sessionState.currentBusinessId = businessId
       this.sessionState.lastSwitchTime = Date.now()
@@ -165,35 +175,11 @@ export class BusinessSessionManager {
   }
 
   /**
-   * Refresh the list of available businesses
+   * Refresh the list of available businesses (every location the user owns or is an active member of, oldest first)
    */
   private async refreshBusinessList(): Promise<void> {
     try {
-      // Import supabase client here to avoid circular dependencies
-      const { createClient } = await import('@supabase/supabase-js')
-      const supabase = createClient(
-        process.env.NEXT_PUBLIC_SUPABASE_URL!,
-        process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-      )
-
-      const { data: { session } } = await supabase.auth.getSession()
-      if (!session?.user) {
-        this.sessionState.businesses = []
-        return
-      }
-
-      // Query businesses owned by the current user
-      const { data: businesses, error } = await supabase
-        .from('businesses')
-        .select('id, name, status, owner_id')
-        .eq('owner_id', session.user.id)
-
-      if (error) {
-        console.error('Failed to fetch businesses:', error)
-        return
-      }
-
-      this.sessionState.businesses = businesses || []
+      this.sessionState.businesses = await discoverUserBusinesses()
     } catch (error) {
       console.error('Error refreshing business list:', error)
     }
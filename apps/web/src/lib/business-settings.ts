@@ -0,0 +1,110 @@
+/**
+ * Business Settings
+ * Changes to a business's settings and their version history. Every change is
+ * snapshotted by a database trigger (migration 020) with the author taken from the
+ * session, so writes go through the request-scoped client, never the service role
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { BusinessSettings } from '@appointments-demo/types';
+import {
+  BusinessContextDatabase,
+  type DatabaseOperationResult
+} from './database-operations';
+import type { BusinessSettingsVersionRecord } from './database.types';
+
+// Error messages callers can map to HTTP responses
+export const BUSINESS_NOT_FOUND_ERROR = 'Business not found';
+export const SETTINGS_VERSION_NOT_FOUND_ERROR = 'Settings version not found';
+export const SETTINGS_CHANGE_FORBIDDEN_ERROR = 'User cannot change the settings of this business';
+
+// Postgres error codes raised by restore_business_settings_version
+const NO_DATA_FOUND = 'P0002';
+const INSUFFICIENT_PRIVILEGE = '42501';
+
+interface SettingsQueryOptions {
+  businessId: string;
+  client: SupabaseClient;
+}
+
+/**
+ * Merge changes into the current settings and save them as a new version
+ */
+export async function updateBusinessSettings(
+  updates: Partial<BusinessSettings>,
+  { businessId, client }: SettingsQueryOptions
+): Promise<DatabaseOperationResult<BusinessSettings>> {
+  const { data: current, error: readError } = await client
+    .from('businesses')
+    .select('settings')
+    .eq('id', businessId)
+    .single();
+
+  if (readError || !current) {
+    const error = readError?.code === 'PGRST116' ? BUSINESS_NOT_FOUND_ERROR : readError?.message;
+    return { success: false, error, businessId };
+  }
+
+  const { data, error: updateError } = await client
+    .from('businesses')
+    .update({ settings: { ...current.settings, ...updates } })
+    .eq('id', businessId)
+    .select('settings')
+    .single();
+
+  // RLS hides the row from members who may read but not update the business
+  if (updateError || !data) {
+    const error = updateError?.code === 'PGRST116' ? SETTINGS_CHANGE_FORBIDDEN_ERROR : updateError?.message;
+    return { success: false, error, businessId };
+  }
+
+  return { success: true, data: data.settings as BusinessSettings, businessId };
+}
+
+/**
+ * List the settings versions of the current business, newest first
+ */
+export async function listSettingsVersions(
+  options: SettingsQueryOptions
+): Promise<DatabaseOperationResult<BusinessSettingsVersionRecord[]>> {
+  const result = await BusinessContextDatabase.select<BusinessSettingsVersionRecord>(
+    'business_settings_versions',
+    '*',
+    {},
+    options
+  );
+  if (!result.success) {
+    return result;
+  }
+
+  const versions = [...(result.data || [])].sort((a, b) => b.version - a.version);
+  return { success: true, data: versions, businessId: result.businessId };
+}
+
+/**
+ * Roll the settings back to an earlier version. The rollback is itself recorded
+ * as the newest version, which is returned
+ */
+export async function restoreSettingsVersion(
+  version: number,
+  { businessId, client }: SettingsQueryOptions
+): Promise<DatabaseOperationResult<BusinessSettingsVersionRecord>> {
+  const { data, error } = await client.rpc('restore_business_settings_version', {
+    p_business_id: businessId,
+    p_version: version,
+  });
+
+  if (error) {
+    const message = error.code === NO_DATA_FOUND
+      ? SETTINGS_VERSION_NOT_FOUND_ERROR
+      : error.code === INSUFFICIENT_PRIVILEGE ? SETTINGS_CHANGE_FORBIDDEN_ERROR : error.message;
+    return { success: false, error: message, businessId };
+  }
+
+  const restored = (data as BusinessSettingsVersionRecord[] | null)?.[0];
+  if (!restored) {
+    return { success: false, error: SETTINGS_VERSION_NOT_FOUND_ERROR, businessId };
+  }
+
+  return { success: true, data: restored, businessId };
+}
@@ -0,0 +1,162 @@
+/**
+ * Clients Tests
+ *
+ * Tests phone matching and duplicate merging with BusinessContextDatabase
+ * and the Supabase query builder mocked
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { BusinessContextDatabase } from './database-operations';
+import { CLIENT_NOT_FOUND_ERROR, CLIENT_PHONE_INVALID_ERROR, matchClient, mergeClients } from './clients';
+import type { ClientRecord } from './database.types';
+
+jest.mock('./database-operations', () => ({
+  BusinessContextDatabase: {
+    select: jest.fn(),
+    insert: jest.fn(),
+    update: jest.fn(),
+  },
+}));
+
+const BUSINESS_ID = '12345678-1234-5678-9abc-123456789012';
+
+const clientRecord = (id: string, overrides: Partial<ClientRecord> = {}): ClientRecord => ({
+  id,
+  business_id: BUSINESS_ID,
+  name: 'Laura Gómez',
+  phone: '+57 301 234 5678',
+  email: null,
+  notes: null,
+  created_at: '2025-03-01T10:00:00.000Z',
+  updated_at: '2025-03-01T10:00:00.000Z',
+  ...overrides,
+});
+
+// Chainable query builder that records calls and resolves to the given result
+function createQueryBuilder(result: { data?: unknown; error: { message: string } | null }) {
+  const builder: Record<string, jest.Mock> & { then?: unknown } = {
+    select: jest.fn(() => builder),
+    update: jest.fn(() => builder),
+    delete: jest.fn(() => builder),
+    eq: jest.fn(() => builder),
+    in: jest.fn(() => builder),
+  };
+  builder.then = (resolve: (value: unknown) => unknown) => Promise.resolve(result).then(resolve);
+  return builder;
+}
+
+describe('Clients', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('matchClient', () => {
+    const options = { businessId: BUSINESS_ID, client: {} as SupabaseClient };
+
+    it('returns the existing client with the normalized phone', async () => {
+      (BusinessContextDatabase.select as jest.Mock).mockResolvedValue({
+        success: true,
+        data: [clientRecord('client-1')],
+      });
+
+      const result = await matchClient({ name: 'Laura', phone: '301-234-5678' }, options);
+
+      expect(result.data?.id).toBe('client-1');
+      expect(BusinessContextDatabase.select).toHaveBeenCalledWith(
+        'clients',
+        '*',
+        { phone: '+57 301 234 5678' },
+        options
+      );
+      expect(BusinessContextDatabase.insert).not.toHaveBeenCalled();
+    });
+
+    it('creates the client on first contact', async () => {
+      (BusinessContextDatabase.select as jest.Mock).mockResolvedValue({ success: true, data: [] });
+      (BusinessContextDatabase.insert as jest.Mock).mockResolvedValue({
+        success: true,
+        data: clientRecord('client-2'),
+      });
+
+      const result = await matchClient({ name: 'Laura Gómez', phone: '573012345678' }, options);
+
+      expect(result.data?.id).toBe('client-2');
+      expect(BusinessContextDatabase.insert).toHaveBeenCalledWith(
+        'clients',
+        { name: 'Laura Gómez', phone: '+57 301 234 5678', email: null, notes: null },
+        options
+      );
+    });
+
+    it('re-reads the client when a concurrent booking created it first', async () => {
+      (BusinessContextDatabase.select as jest.Mock)
+        .mockResolvedValueOnce({ success: true, data: [] })
+        .mockResolvedValueOnce({ success: true, data: [clientRecord('client-3')] });
+      (BusinessContextDatabase.insert as jest.Mock).mockResolvedValue({
+        success: false,
+        error: 'Database insert error: duplicate key value violates unique constraint',
+      });
+
+      const result = await matchClient({ name: 'Laura', phone: '+57 301 234 5678' }, options);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.id).toBe('client-3');
+    });
+
+    it('rejects phones that are not Colombian numbers', async () => {
+      const result = await matchClient({ name: 'Laura', phone: '12345' }, options);
+
+      expect(result).toEqual({ success: false, error: CLIENT_PHONE_INVALID_ERROR, businessId: BUSINESS_ID });
+      expect(BusinessContextDatabase.select).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('mergeClients', () => {
+    it('moves appointments to the target, fills missing data and deletes the duplicates', async () => {
+      const clientsSelect = createQueryBuilder({
+        data: [
+          clientRecord('target', { notes: 'Prefiere la tarde' }),
+          clientRecord('dup', { email: 'laura@correo.co', notes: 'Alérgica al tinte' }),
+        ],
+        error: null,
+      });
+      const appointmentsUpdate = createQueryBuilder({ error: null });
+      const clientsDelete = createQueryBuilder({ error: null });
+      const from = jest.fn()
+        .mockReturnValueOnce(clientsSelect)
+        .mockReturnValueOnce(appointmentsUpdate)
+        .mockReturnValueOnce(clientsDelete);
+      (BusinessContextDatabase.update as jest.Mock).mockResolvedValue({
+        success: true,
+        data: clientRecord('target'),
+      });
+
+      const options = { businessId: BUSINESS_ID, client: { from } as unknown as SupabaseClient };
+      const result = await mergeClients('target', ['dup'], options);
+
+      expect(result.success).toBe(true);
+      expect(appointmentsUpdate.update).toHaveBeenCalledWith({ client_id: 'target' });
+      expect(appointmentsUpdate.in).toHaveBeenCalledWith('client_id', ['dup']);
+      expect(BusinessContextDatabase.update).toHaveBeenCalledWith(
+        'clients',
+        'target',
+        { email: 'laura@correo.co', notes: 'Prefiere la tarde\nAlérgica al tinte' },
+        options
+      );
+      expect(clientsDelete.in).toHaveBeenCalledWith('id', ['dup']);
+    });
+
+    it('fails without changes when a client is not in the business', async () => {
+      const from = jest.fn().mockReturnValue(createQueryBuilder({ data: [clientRecord('target')], error: null }));
+
+      const result = await mergeClients('target', ['other-business'], {
+        businessId: BUSINESS_ID,
+        client: { from } as unknown as SupabaseClient,
+      });
+
+      expect(result.error).toBe(CLIENT_NOT_FOUND_ERROR);
+      expect(from).toHaveBeenCalledTimes(1);
+      expect(BusinessContextDatabase.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Clients
+ * Matches appointments to the business's client directory by phone and merges duplicates
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { AppointmentStatus, type Appointment, type ClientStats } from '@appointments-demo/types';
+import { formatColombianPhone } from '@appointments-demo/utils';
+import {
+  BusinessContextDatabase,
+  type DatabaseOperationResult
+} from './database-operations';
+import { toClientRecord, type ClientRecord } from './database.types';
+
+// Error messages callers can map to HTTP responses
+export const CLIENT_NOT_FOUND_ERROR = 'Client not found';
+export const CLIENT_PHONE_INVALID_ERROR = 'Client phone is not a valid Colombian number';
+
+interface ClientContactInput {
+  name: string;
+  phone: string;
+  email?: string;
+}
+
+interface ClientQueryOptions {
+  businessId: string;
+  client: SupabaseClient;
+}
+
+/**
+ * Normalize a phone the way it is stored in the clients table (+57 XXX XXX XXXX)
+ */
+export function normalizeClientPhone(phone: string): string | null {
+  return formatColombianPhone(phone);
+}
+
+/**
+ * Find the client with this phone in the current business, creating it on first contact
+ */
+export async function matchClient(
+  contact: ClientContactInput,
+  options: ClientQueryOptions
+): Promise<DatabaseOperationResult<ClientRecord>> {
+  const phone = normalizeClientPhone(contact.phone);
+  if (!phone) {
+    return { success: false, error: CLIENT_PHONE_INVALID_ERROR, businessId: options.businessId };
+  }
+
+  const existing = await BusinessContextDatabase.select<ClientRecord>('clients', '*', { phone }, options);
+  if (!existing.success) {
+    return { success: false, error: existing.error, businessId: existing.businessId };
+  }
+  if (existing.data && existing.data.length > 0) {
+    return { success: true, data: existing.data[0], businessId: existing.businessId };
+  }
+
+  const created = await BusinessContextDatabase.insert<ClientRecord>(
+    'clients',
+    { ...toClientRecord({ name: contact.name, phone, email: contact.email }) },
+    options
+  );
+
+  // Another booking created the same client first (unique business_id + phone)
+  if (!created.success && created.error?.includes('duplicate key')) {
+    const retry = await BusinessContextDatabase.select<ClientRecord>('clients', '*', { phone }, options);
+    if (retry.success && retry.data && retry.data.length > 0) {
+      return { success: true, data: retry.data[0], businessId: retry.businessId };
+    }
+  }
+
+  return created;
+}
+
+/**
+ * Merge duplicate clients into one: their appointments move to the target and the
+ * target keeps its own contact data, only filling in what it is missing
+ */
+export async function mergeClients(
+  targetId: string,
+  sourceIds: string[],
+  options: ClientQueryOptions
+): Promise<DatabaseOperationResult<ClientRecord>> {
+  const { businessId, client } = options;
+  const ids = Array.from(new Set([targetId, ...sourceIds]));
+
+  const { data: records, error: selectError } = await client
+    .from('clients')
+    .select('*')
+    .eq('business_id', businessId)
+    .in('id', ids);
+
+  if (selectError) {
+    return { success: false, error: `Database select error: ${selectError.message}`, businessId };
+  }
+
+  const clients = (records || []) as ClientRecord[];
+  const target = clients.find(c => c.id === targetId);
+  const sources = clients.filter(c => c.id !== targetId);
+  if (!target || sources.length !== ids.length - 1) {
+    return { success: false, error: CLIENT_NOT_FOUND_ERROR, businessId };
+  }
+  const mergedIds = sources.map(c => c.id);
+
+  const { error: moveError } = await client
+    .from('appointments')
+    .update({ client_id: targetId })
+    .eq('business_id', businessId)
+    .in('client_id', mergedIds);
+
+  if (moveError) {
+    return { success: false, error: `Database update error: ${moveError.message}`, businessId };
+  }
+
+  const notes = [target.notes, ...sources.map(c => c.notes)].filter(Boolean).join('\n');
+  const updated = await BusinessContextDatabase.update<ClientRecord>(
+    'clients',
+    targetId,
+    {
+      email: target.email ?? sources.find(c => c.email)?.email ?? null,
+      notes: notes || null
+    },
+    options
+  );
+
+  if (!updated.success) {
+    return updated;
+  }
+
+  const { error: deleteError } = await client
+    .from('clients')
+    .delete()
+    .eq('business_id', businessId)
+    .in('id', mergedIds);
+
+  if (deleteError) {
+    return { success: false, error: `Database delete error: ${deleteError.message}`, businessId };
+  }
+
+  return updated;
+}
+
+/**
+ * Totals for a client's appointment history
+ */
+export function summarizeClientAppointments(
+  appointments: Pick<Appointment, 'status' | 'scheduledAt'>[]
+): ClientStats {
+  const lastAppointment = appointments.reduce<Date | undefined>(
+    (latest, appointment) =>
+      !latest || appointment.scheduledAt > latest ? appointment.scheduledAt : latest,
+    undefined
+  );
+
+  return {
+    appointmentCount: appointments.length,
+    noShowCount: appointments.filter(a => a.status === AppointmentStatus.NO_SHOW).length,
+    lastAppointmentAt: lastAppointment
+  };
+}
+
+// Lowercase without accents so "maria" finds "María"
+const foldForSearch = (value: string): string =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+/**
+ * Whether a client matches a directory search by name, email or phone digits
+ */
+export function matchesClientSearch(
+  client: Pick<ClientRecord, 'name' | 'phone' | 'email'>,
+  query: string
+): boolean {
+  const text = foldForSearch(query.trim());
+  if (!text) return true;
+
+  if (foldForSearch(client.name).includes(text)) return true;
+  if (client.email && client.email.toLowerCase().includes(text)) return true;
+
+  const digits = query.replace(/\D/g, '');
+  return digits.length >= 3 && client.phone.replace(/\D/g, '').includes(digits);
+}
@@ -3,6 +3,15 @@
  * Provides Colombian market-specific environment defaults and configurations
  */
 
+import type { CurrencyCode } from '@appointments-demo/types';
+import {
+  CURRENCY_INFO,
+  DEFAULT_CURRENCY,
+  SUPPORTED_CURRENCIES,
+  getZonedDateTime,
+  isSupportedCurrency,
+  type ZonedDateTime
+} from '@appointments-demo/utils';
 import { env } from './env';
 
 /**
@@ -66,14 +75,33 @@ export function getColombianMarketConfig(): ColombianMarketConfig {
 }
 
 /**
- * Get current Colombian time
+ * Get current Colombian time: the current instant with its wall-clock date and
+ * time in the market time zone, whatever the server's time zone is
  */
-export function getCurrentColombianTime(): Date {
+export function getCurrentColombianTime(): ZonedDateTime {
   const config = getColombianMarketConfig();
-  const now = new Date();
-  
-  // Convert to Colombian timezone
-  return new Date(now.toLocaleString('en-US', { timeZone: config.timezone }));
+  return getZonedDateTime(config.timezone);
+}
+
+/**
+ * Whether an instant (default now) falls on a weekday within the market business hours,
+ * read on the Colombian wall clock
+ * @deprecated Use getBusinessOpenState from @appointments-demo/utils, which follows the business's
+ * own hours, date overrides and holidays; kept for callers written before it existed
+ */
+export function isColombianBusinessHours(date?: Date): boolean {
+  const config = getColombianMarketConfig();
+  const { dayOfWeek, hour, minute } = getZonedDateTime(config.timezone, date);
+
+  if (dayOfWeek === 0 || dayOfWeek === 6) {
+    return false;
+  }
+
+  const currentTime = hour * 100 + minute;
+  const [startHour, startMinute] = config.businessHours.start.split(':').map(Number);
+  const [endHour, endMinute] = config.businessHours.end.split(':').map(Number);
+
+  return currentTime >= startHour * 100 + startMinute && currentTime <= endHour * 100 + endMinute;
 }
 
 /**
@@ -122,54 +150,28 @@ export function formatColombianDateTime(date: Date): string {
   return `${formatColombianDate(date)} ${formatColombianTime(date)}`;
 }
 
-/**
- * Check if current time is within Colombian business hours
- */
-export function isColombianBusinessHours(date?: Date): boolean {
-  const config = getColombianMarketConfig();
-  const checkDate = date || getCurrentColombianTime();
-  
-  // Get day of week (0 = Sunday, 6 = Saturday)
-  const dayOfWeek = checkDate.getDay();
-  
-  // Check if it's a weekday (Monday-Friday)
-  if (dayOfWeek === 0 || dayOfWeek === 6) {
-    return false;
-  }
-  
-  // Get hour in 24h format
-  const hour = checkDate.getHours();
-  const minute = checkDate.getMinutes();
-  const currentTime = hour * 100 + minute;
-  
-  // Parse business hours
-  const [startHour, startMinute] = config.businessHours.start.split(':').map(Number);
-  const [endHour, endMinute] = config.businessHours.end.split(':').map(Number);
-  const startTime = startHour * 100 + startMinute;
-  const endTime = endHour * 100 + endMinute;
-  
-  return currentTime >= startTime && currentTime <= endTime;
-}
-
 /**
  * Get Colombian currency formatter
+ * Defaults to the configured market currency (COP unless overridden)
  */
-export function getColombianCurrencyFormatter(): Intl.NumberFormat {
+export function getColombianCurrencyFormatter(currency?: CurrencyCode): Intl.NumberFormat {
   const config = getColombianMarketConfig();
+  const code = currency ?? (isSupportedCurrency(config.currency) ? config.currency : DEFAULT_CURRENCY);
+  const { fractionDigits } = CURRENCY_INFO[code];
   
   return new Intl.NumberFormat('es-CO', {
     style: 'currency',
-    currency: config.currency,
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 0,
+    currency: code,
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
   });
 }
 
 /**
- * Format amount in Colombian pesos
+ * Format amount with Colombian conventions, in pesos unless another currency is given
  */
-export function formatColombianCurrency(amount: number): string {
-  const formatter = getColombianCurrencyFormatter();
+export function formatColombianCurrency(amount: number, currency?: CurrencyCode): string {
+  const formatter = getColombianCurrencyFormatter(currency);
   return formatter.format(amount);
 }
 
@@ -231,8 +233,8 @@ export function validateColombianEnvironment(): {
     }
     
     // Validate currency
-    if (!config.currency || config.currency !== 'COP') {
-      warnings.push(`Colombian currency should be 'COP', got '${config.currency}'`);
+    if (!config.currency || !isSupportedCurrency(config.currency)) {
+      warnings.push(`Currency should be one of ${SUPPORTED_CURRENCIES.join(', ')}, got '${config.currency}'`);
     }
     
     // Validate phone prefix
@@ -65,10 +65,10 @@ describe('Business Database Integration & RLS Tests', () => {
     email: 'info@centromedico.com',
     settings: {
       timezone: 'America/Bogota',
-      currency: 'COP',
+      currency: 'COP' as const,
       businessHours: [
-        { dayOfWeek: 1, openTime: "09:00", closeTime: "17:00", isOpen: true },
-        { dayOfWeek: 2, openTime: "09:00", closeTime: "17:00", isOpen: true }
+        { dayOfWeek: 1, intervals: [{ openTime: "09:00", closeTime: "17:00" }], isOpen: true },
+        { dayOfWeek: 2, intervals: [{ openTime: "09:00", closeTime: "17:00" }], isOpen: true }
       ]
     }
   };
@@ -144,9 +144,9 @@ describe('Business Database Integration & RLS Tests', () => {
           email: 'contacto@clinicasalud.com',
           settings: { 
             timezone: 'America/Bogota', 
-            currency: 'COP',
+            currency: 'COP' as const,
             businessHours: [
-              { dayOfWeek: 1, openTime: "08:00", closeTime: "18:00", isOpen: true }
+              { dayOfWeek: 1, intervals: [{ openTime: "08:00", closeTime: "18:00" }], isOpen: true }
             ]
           },
           created_at: '2025-01-01T00:00:00Z',
@@ -247,7 +247,7 @@ describe('Business Database Integration & RLS Tests', () => {
           phone: '+57 301 234 5678',
           whatsapp_number: '+57 301 234 5678',
           email: 'test@business.com',
-          settings: { timezone: 'America/Bogota', currency: 'COP', businessHours: [] },
+          settings: { timezone: 'America/Bogota', currency: 'COP' as const, businessHours: [] },
           created_at: '2025-01-01T00:00:00Z',
           updated_at: '2025-01-01T00:00:00Z'
         };
@@ -470,15 +470,15 @@ describe('Business Database Integration & RLS Tests', () => {
     it('should properly handle Colombian business settings', async () => {
       const colombianSettings = {
         timezone: 'America/Bogota',
-        currency: 'COP',
+        currency: 'COP' as const,
         businessHours: [
-          { dayOfWeek: 1, openTime: "08:00", closeTime: "18:00", isOpen: true },
-          { dayOfWeek: 2, openTime: "08:00", closeTime: "18:00", isOpen: true },
-          { dayOfWeek: 3, openTime: "08:00", closeTime: "18:00", isOpen: true },
-          { dayOfWeek: 4, openTime: "08:00", closeTime: "18:00", isOpen: true },
-          { dayOfWeek: 5, openTime: "08:00", closeTime: "18:00", isOpen: true },
-          { dayOfWeek: 6, openTime: "09:00", closeTime: "14:00", isOpen: true },
-          { dayOfWeek: 0, openTime: "10:00", closeTime: "14:00", isOpen: false }
+          { dayOfWeek: 1, intervals: [{ openTime: "08:00", closeTime: "18:00" }], isOpen: true },
+          { dayOfWeek: 2, intervals: [{ openTime: "08:00", closeTime: "18:00" }], isOpen: true },
+          { dayOfWeek: 3, intervals: [{ openTime: "08:00", closeTime: "18:00" }], isOpen: true },
+          { dayOfWeek: 4, intervals: [{ openTime: "08:00", closeTime: "18:00" }], isOpen: true },
+          { dayOfWeek: 5, intervals: [{ openTime: "08:00", closeTime: "18:00" }], isOpen: true },
+          { dayOfWeek: 6, intervals: [{ openTime: "09:00", closeTime: "14:00" }], isOpen: true },
+          { dayOfWeek: 0, intervals: [{ openTime: "10:00", closeTime: "14:00" }], isOpen: false }
         ]
       };
 
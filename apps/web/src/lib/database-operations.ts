@@ -3,7 +3,7 @@
  * Ensures all database operations are performed within the correct business context
  */
 
-import { createClient } from '@supabase/supabase-js'
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
 import { 
   getValidatedBusinessContext 
 } from './rls-context-management'
@@ -25,6 +25,7 @@ export interface DatabaseOperationResult<T> {
 export interface QueryOptions {
   validateBusinessContext?: boolean // Default: true
   businessId?: string // Override current business context
+  client?: SupabaseClient // Execute with a request-scoped client (e.g. cookie-authenticated API routes)
 }
 
 /**
@@ -50,7 +51,7 @@ export class BusinessContextDatabase {
       }
 
       // Build query with business context filter
-      let query = supabase
+      let query = (options.client ?? supabase)
         .from(table)
         .select(columns)
 
@@ -111,7 +112,7 @@ export class BusinessContextDatabase {
         data.business_id = businessId
       }
 
-      const { data: insertedData, error } = await supabase
+      const { data: insertedData, error } = await (options.client ?? supabase)
         .from(table)
         .insert(data)
         .select()
@@ -157,7 +158,7 @@ export class BusinessContextDatabase {
       }
 
       // Build update query with business context validation
-      let query = supabase
+      let query = (options.client ?? supabase)
         .from(table)
         .update(data)
         .eq('id', id)
@@ -218,7 +219,7 @@ export class BusinessContextDatabase {
       }
 
       // Build delete query with business context validation
-      let query = supabase
+      let query = (options.client ?? supabase)
         .from(table)
         .delete()
         .eq('id', id)
@@ -272,7 +273,7 @@ export class BusinessContextDatabase {
       // Add business_id to RPC parameters
       parameters.business_id = businessId
 
-      const { data, error } = await supabase.rpc(functionName, parameters)
+      const { data, error } = await (options.client ?? supabase).rpc(functionName, parameters)
 
       if (error) {
         return {
@@ -101,7 +101,7 @@ describe('Row Level Security (RLS) Policies Testing', () => {
           department: 'Bogotá D.C.',
           phone: '+57 301 234 5678',
           email: 'accessible@business.com',
-          settings: { timezone: 'America/Bogota', currency: 'COP' }
+          settings: { timezone: 'America/Bogota', currency: 'COP' as const }
         };
 
         // Mock successful context retrieval
@@ -144,7 +144,7 @@ describe('Row Level Security (RLS) Policies Testing', () => {
           },
           phone: '+57 301 234 5678' as const,
           email: 'new@business.com',
-          settings: { timezone: 'America/Bogota', currency: 'COP', businessHours: [] }
+          settings: { timezone: 'America/Bogota', currency: 'COP' as const, businessHours: [] }
         };
 
         const mockCreatedBusiness = {
@@ -167,7 +167,7 @@ describe('Row Level Security (RLS) Policies Testing', () => {
           address: { street: 'Test', city: 'Test', department: 'Bogotá D.C.', postalCode: '110111' },
           phone: '+57 301 234 5678' as const,
           email: 'unauthorized@business.com',
-          settings: { timezone: 'America/Bogota', currency: 'COP', businessHours: [] }
+          settings: { timezone: 'America/Bogota', currency: 'COP' as const, businessHours: [] }
         };
 
         mockSingle.mockResolvedValue({ 
@@ -194,7 +194,7 @@ describe('Row Level Security (RLS) Policies Testing', () => {
           department: 'Bogotá D.C.',
           phone: '+57 301 234 5678',
           email: 'accessible@business.com',
-          settings: { timezone: 'America/Bogota', currency: 'COP' }
+          settings: { timezone: 'America/Bogota', currency: 'COP' as const }
         };
 
         mockSingle.mockResolvedValue({ data: businessData, error: null });
@@ -373,7 +373,7 @@ describe('Row Level Security (RLS) Policies Testing', () => {
           phone: '+57 301 234 5678',
           whatsapp_number: '+57 301 234 5678',
           email: 'businessa@example.com',
-          settings: { timezone: 'America/Bogota', currency: 'COP' },
+          settings: { timezone: 'America/Bogota', currency: 'COP' as const },
           created_at: '2025-01-01T00:00:00Z',
           updated_at: '2025-01-01T00:00:00Z'
         };
@@ -474,7 +474,7 @@ describe('Row Level Security (RLS) Policies Testing', () => {
         address: { street: 'Test', city: 'Test', department: 'Bogotá D.C.', postalCode: '110111' },
         phone: '+57 301 234 5678' as const,
         email: 'test@test.com',
-        settings: { timezone: 'America/Bogota', currency: 'COP', businessHours: [] }
+        settings: { timezone: 'America/Bogota', currency: 'COP' as const, businessHours: [] }
       };
       
       await businessDb.create(testBusiness);
@@ -64,7 +64,7 @@ describe('Database Schema Validation', () => {
         email: 'test@business.com',
         settings: {
           timezone: 'America/Bogota',
-          currency: 'COP',
+          currency: 'COP' as const,
           businessHours: []
         }
       };
@@ -84,7 +84,7 @@ describe('Database Schema Validation', () => {
         email: 'test@business.com',
         settings: {
           timezone: 'America/Bogota',     // Colombian timezone
-          currency: 'COP',               // Colombian currency
+          currency: 'COP' as const,               // Colombian currency
           businessHours: []
         }
       }]);
@@ -162,15 +162,15 @@ describe('Database Schema Validation', () => {
     it('should validate Colombian business settings structure', () => {
       const colombianBusinessSettings = {
         timezone: 'America/Bogota',
-        currency: 'COP',
+        currency: 'COP' as const,
         businessHours: [
-          { dayOfWeek: 1, openTime: "08:00", closeTime: "18:00", isOpen: true },
-          { dayOfWeek: 2, openTime: "08:00", closeTime: "18:00", isOpen: true },
-          { dayOfWeek: 3, openTime: "08:00", closeTime: "18:00", isOpen: true },
-          { dayOfWeek: 4, openTime: "08:00", closeTime: "18:00", isOpen: true },
-          { dayOfWeek: 5, openTime: "08:00", closeTime: "18:00", isOpen: true },
-          { dayOfWeek: 6, openTime: "09:00", closeTime: "14:00", isOpen: true },
-          { dayOfWeek: 0, openTime: "10:00", closeTime: "14:00", isOpen: false } // Sunday closed
+          { dayOfWeek: 1, intervals: [{ openTime: "08:00", closeTime: "18:00" }], isOpen: true },
+          { dayOfWeek: 2, intervals: [{ openTime: "08:00", closeTime: "18:00" }], isOpen: true },
+          { dayOfWeek: 3, intervals: [{ openTime: "08:00", closeTime: "18:00" }], isOpen: true },
+          { dayOfWeek: 4, intervals: [{ openTime: "08:00", closeTime: "18:00" }], isOpen: true },
+          { dayOfWeek: 5, intervals: [{ openTime: "08:00", closeTime: "18:00" }], isOpen: true },
+          { dayOfWeek: 6, intervals: [{ openTime: "09:00", closeTime: "14:00" }], isOpen: true },
+          { dayOfWeek: 0, intervals: [{ openTime: "10:00", closeTime: "14:00" }], isOpen: false } // Sunday closed
         ]
       };
 
@@ -189,13 +189,14 @@ describe('Database Schema Validation', () => {
         expect(typeof day.dayOfWeek).toBe('number');
         expect(day.dayOfWeek).toBeGreaterThanOrEqual(0);
         expect(day.dayOfWeek).toBeLessThanOrEqual(6);
-        expect(typeof day.openTime).toBe('string');
-        expect(typeof day.closeTime).toBe('string');
+        expect(Array.isArray(day.intervals)).toBe(true);
         expect(typeof day.isOpen).toBe('boolean');
         
         // Validate time format (HH:MM)
-        expect(day.openTime).toMatch(/^[0-2][0-9]:[0-5][0-9]$/);
-        expect(day.closeTime).toMatch(/^[0-2][0-9]:[0-5][0-9]$/);
+        day.intervals.forEach(interval => {
+          expect(interval.openTime).toMatch(/^[0-2][0-9]:[0-5][0-9]$/);
+          expect(interval.closeTime).toMatch(/^[0-2][0-9]:[0-5][0-9]$/);
+        });
       });
     });
 
@@ -218,7 +219,7 @@ describe('Database Schema Validation', () => {
         email: 'test@colombian.com',
         settings: {
           timezone: 'America/Bogota',
-          currency: 'COP',
+          currency: 'COP' as const,
           businessHours: []
         }
       };
@@ -364,7 +365,7 @@ describe('Database Schema Validation', () => {
         phone: '+57 301 234 5678' as const,
         whatsappNumber: '+57 301 234 5678' as const,
         email: 'migration@test.com',
-        settings: { timezone: 'America/Bogota', currency: 'COP', businessHours: [] }
+        settings: { timezone: 'America/Bogota', currency: 'COP' as const, businessHours: [] }
       };
 
       await businessDb.create(businessData);
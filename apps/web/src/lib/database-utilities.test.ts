@@ -108,7 +108,7 @@ describe('Database Utility Functions', () => {
             phone: '+57 301 234 5678',
             whatsapp_number: '+57 301 234 5678',
             email: 'business1@example.com',
-            settings: { timezone: 'America/Bogota', currency: 'COP' },
+            settings: { timezone: 'America/Bogota', currency: 'COP' as const },
             created_at: '2025-01-01T00:00:00Z',
             updated_at: '2025-01-01T00:00:00Z'
           }
@@ -162,7 +162,7 @@ describe('Database Utility Functions', () => {
             phone: '+57 301 234 5678',
             whatsapp_number: '+57 301 234 5678',
             email: 'clinica@example.com',
-            settings: { timezone: 'America/Bogota', currency: 'COP' },
+            settings: { timezone: 'America/Bogota', currency: 'COP' as const },
             created_at: '2025-01-01T00:00:00Z',
             updated_at: '2025-01-01T00:00:00Z'
           }
@@ -203,13 +203,13 @@ describe('Database Utility Functions', () => {
       it('should merge new settings with existing settings', async () => {
         const currentSettings = {
           timezone: 'America/Bogota',
-          currency: 'COP',
+          currency: 'COP' as const,
           businessHours: []
         };
 
         const newSettings = {
           businessHours: [
-            { dayOfWeek: 1, openTime: "09:00", closeTime: "17:00", isOpen: true }
+            { dayOfWeek: 1, intervals: [{ openTime: "09:00", closeTime: "17:00" }], isOpen: true }
           ]
         };
 
@@ -338,13 +338,13 @@ describe('Database Utility Functions', () => {
         // Mock the create function call
         const mockCreate = jest.spyOn(businessDb, 'create');
         const defaultBusinessHours = [
-          { dayOfWeek: 1, openTime: "08:00", closeTime: "18:00", isOpen: true },
-          { dayOfWeek: 2, openTime: "08:00", closeTime: "18:00", isOpen: true },
-          { dayOfWeek: 3, openTime: "08:00", closeTime: "18:00", isOpen: true },
-          { dayOfWeek: 4, openTime: "08:00", closeTime: "18:00", isOpen: true },
-          { dayOfWeek: 5, openTime: "08:00", closeTime: "18:00", isOpen: true },
-          { dayOfWeek: 6, openTime: "08:00", closeTime: "14:00", isOpen: true },
-          { dayOfWeek: 0, openTime: "10:00", closeTime: "14:00", isOpen: false }
+          { dayOfWeek: 1, intervals: [{ openTime: "08:00", closeTime: "18:00" }], isOpen: true },
+          { dayOfWeek: 2, intervals: [{ openTime: "08:00", closeTime: "18:00" }], isOpen: true },
+          { dayOfWeek: 3, intervals: [{ openTime: "08:00", closeTime: "18:00" }], isOpen: true },
+          { dayOfWeek: 4, intervals: [{ openTime: "08:00", closeTime: "18:00" }], isOpen: true },
+          { dayOfWeek: 5, intervals: [{ openTime: "08:00", closeTime: "18:00" }], isOpen: true },
+          { dayOfWeek: 6, intervals: [{ openTime: "08:00", closeTime: "14:00" }], isOpen: true },
+          { dayOfWeek: 0, intervals: [{ openTime: "10:00", closeTime: "14:00" }], isOpen: false }
         ];
 
         mockCreate.mockResolvedValue({
@@ -352,7 +352,7 @@ describe('Database Utility Functions', () => {
           ...businessData,
           settings: {
             timezone: 'America/Bogota',
-            currency: 'COP',
+            currency: 'COP' as const,
             businessHours: defaultBusinessHours
           },
           createdAt: new Date(),
@@ -365,7 +365,7 @@ describe('Database Utility Functions', () => {
           ...businessData,
           settings: {
             timezone: 'America/Bogota',
-            currency: 'COP',
+            currency: 'COP' as const,
             businessHours: defaultBusinessHours
           }
         });
@@ -390,7 +390,7 @@ describe('Database Utility Functions', () => {
           email: 'custom@business.co',
           settings: {
             timezone: 'America/Bogota', // Keep default
-            currency: 'USD', // Override default
+            currency: 'USD' as const, // Override default
             customSetting: 'custom value'
           }
         };
@@ -429,7 +429,7 @@ describe('Database Utility Functions', () => {
         const updates = [
           { 
             id: 'business-1', 
-            settings: { businessHours: [{ dayOfWeek: 1, openTime: "09:00", closeTime: "17:00", isOpen: true }] } 
+            settings: { businessHours: [{ dayOfWeek: 1, intervals: [{ openTime: "09:00", closeTime: "17:00" }], isOpen: true }] } 
           },
           { 
             id: 'business-2', 
@@ -494,9 +494,9 @@ describe('Database Utility Functions', () => {
           email: 'healthy@business.co',
           settings: {
             timezone: 'America/Bogota',
-            currency: 'COP',
+            currency: 'COP' as const,
             businessHours: [
-              { dayOfWeek: 1, openTime: "08:00", closeTime: "18:00", isOpen: true }
+              { dayOfWeek: 1, intervals: [{ openTime: "08:00", closeTime: "18:00" }], isOpen: true }
             ]
           },
           createdAt: new Date(),
@@ -539,7 +539,7 @@ describe('Database Utility Functions', () => {
           email: 'warning@business.co',
           settings: {
             timezone: 'America/Bogota',
-            currency: 'COP',
+            currency: 'COP' as const,
             businessHours: [] // Missing
           },
           createdAt: new Date(),
@@ -52,6 +52,7 @@ export const businessDb = {
         city: businessData.address.city,
         department: businessData.address.department,
         postal_code: businessData.address.postalCode,
+        municipality_code: businessData.address.municipalityCode,
         phone: businessData.phone,
         whatsapp_number: businessData.whatsappNumber,
         email: businessData.email,
@@ -92,7 +93,8 @@ export const businessDb = {
         street: data.street,
         city: data.city,
         department: data.department,
-        postalCode: data.postal_code
+        postalCode: data.postal_code,
+        municipalityCode: data.municipality_code ?? undefined
       },
       phone: data.phone,
       whatsappNumber: data.whatsapp_number,
@@ -117,6 +119,7 @@ export const businessDb = {
       if (updates.address.city) updateData.city = updates.address.city;
       if (updates.address.department) updateData.department = updates.address.department;
       if (updates.address.postalCode) updateData.postal_code = updates.address.postalCode;
+      if (updates.address.municipalityCode) updateData.municipality_code = updates.address.municipalityCode;
     }
     if (updates.phone) updateData.phone = updates.phone;
     if (updates.whatsappNumber) updateData.whatsapp_number = updates.whatsappNumber;
@@ -213,7 +216,8 @@ export const businessDb = {
         street: business.street,
         city: business.city,
         department: business.department,
-        postalCode: business.postal_code
+        postalCode: business.postal_code,
+        municipalityCode: business.municipality_code ?? undefined
       },
       phone: business.phone,
       whatsappNumber: business.whatsapp_number,
@@ -246,7 +250,8 @@ export const businessDb = {
         street: business.street,
         city: business.city,
         department: business.department,
-        postalCode: business.postal_code
+        postalCode: business.postal_code,
+        municipalityCode: business.municipality_code ?? undefined
       },
       phone: business.phone,
       whatsappNumber: business.whatsapp_number,
@@ -315,17 +320,17 @@ export const businessDb = {
 
   // Create Colombian business with default settings
   createColombianBusiness: async (businessData: Omit<Business, 'id' | 'createdAt' | 'updatedAt' | 'settings'> & { settings?: Partial<Business['settings']> }) => {
-    const colombianDefaults = {
+    const colombianDefaults: Business['settings'] = {
       timezone: 'America/Bogota',
       currency: 'COP',
       businessHours: [
-        { dayOfWeek: 1, openTime: "08:00", closeTime: "18:00", isOpen: true },
-        { dayOfWeek: 2, openTime: "08:00", closeTime: "18:00", isOpen: true },
-        { dayOfWeek: 3, openTime: "08:00", closeTime: "18:00", isOpen: true },
-        { dayOfWeek: 4, openTime: "08:00", closeTime: "18:00", isOpen: true },
-        { dayOfWeek: 5, openTime: "08:00", closeTime: "18:00", isOpen: true },
-        { dayOfWeek: 6, openTime: "08:00", closeTime: "14:00", isOpen: true },
-        { dayOfWeek: 0, openTime: "10:00", closeTime: "14:00", isOpen: false }
+        { dayOfWeek: 1, intervals: [{ openTime: "08:00", closeTime: "18:00" }], isOpen: true },
+        { dayOfWeek: 2, intervals: [{ openTime: "08:00", closeTime: "18:00" }], isOpen: true },
+        { dayOfWeek: 3, intervals: [{ openTime: "08:00", closeTime: "18:00" }], isOpen: true },
+        { dayOfWeek: 4, intervals: [{ openTime: "08:00", closeTime: "18:00" }], isOpen: true },
+        { dayOfWeek: 5, intervals: [{ openTime: "08:00", closeTime: "18:00" }], isOpen: true },
+        { dayOfWeek: 6, intervals: [{ openTime: "08:00", closeTime: "14:00" }], isOpen: true },
+        { dayOfWeek: 0, intervals: [{ openTime: "10:00", closeTime: "14:00" }], isOpen: false }
       ]
     };
 
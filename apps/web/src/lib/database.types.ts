@@ -1,18 +1,40 @@
 // Database types generated from Supabase schema
 // This file provides type-safe access to database operations
 
-import type { Business, BusinessSettings } from '@appointments-demo/types';
+import type {
+  Appointment,
+  AppointmentStatus,
+  AppointmentStatusChange,
+  Business,
+  BusinessHours,
+  BusinessMember,
+  BusinessMemberStatus,
+  BusinessRole,
+  BusinessSettings,
+  BusinessSettingsVersion,
+  Client,
+  CurrencyCode,
+  ExchangeRate,
+  PriceSnapshot,
+  ReminderChannel,
+  ReminderJob,
+  ReminderJobStatus,
+  Service,
+  Specialist
+} from '@appointments-demo/types';
 
 // Raw database record type (matches actual database schema)
 export interface BusinessRecord {
   id: string;
   owner_id: string;
   name: string;
+  slug: string;
   description: string | null;
   street: string;
   city: string;
   department: string;
   postal_code: string | null;
+  municipality_code: string | null;
   phone: string;
   whatsapp_number: string | null;
   email: string;
@@ -21,15 +43,219 @@ export interface BusinessRecord {
   updated_at: string;
 }
 
+// Raw appointment record (matches appointments table from migration 008)
+export interface AppointmentRecord {
+  id: string;
+  business_id: string;
+  customer_name: string;
+  customer_phone: string;
+  customer_email: string | null;
+  client_id: string | null;
+  service_id: string | null;
+  service_type: string;
+  specialist_id: string | null;
+  scheduled_at: string;
+  duration_minutes: number;
+  status: AppointmentStatus;
+  notes: string | null;
+  // Price snapshot (migration 017); all NULL for appointments without a catalog service
+  price_amount: number | null;
+  price_currency: CurrencyCode | null;
+  base_currency: CurrencyCode | null;
+  exchange_rate: number | null;
+  // Reason for the latest status change, copied into the status history by a trigger (migration 023)
+  status_reason: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Raw service record (matches services table from migration 010)
+export interface ServiceRecord {
+  id: string;
+  business_id: string;
+  name: string;
+  description: string | null;
+  duration_minutes: number;
+  price: number;
+  currency: CurrencyCode; // migration 017
+  buffer_minutes: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// Raw specialist record (matches specialists table from migration 011)
+export interface SpecialistRecord {
+  id: string;
+  business_id: string;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  schedule: BusinessHours[];
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// Raw specialist/service link (matches specialist_services table from migration 011)
+export interface SpecialistServiceRecord {
+  specialist_id: string;
+  service_id: string;
+  business_id: string;
+  created_at: string;
+}
+
+// Specialist selected with its embedded service links
+export type SpecialistWithServicesRecord = SpecialistRecord & {
+  specialist_services?: Pick<SpecialistServiceRecord, 'service_id'>[];
+};
+
+// Raw client record (matches clients table from migration 012)
+export interface ClientRecord {
+  id: string;
+  business_id: string;
+  name: string;
+  phone: string;
+  email: string | null;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Raw exchange rate record (matches exchange_rates table from migration 017)
+export interface ExchangeRateRecord {
+  id: string;
+  business_id: string;
+  from_currency: CurrencyCode;
+  to_currency: CurrencyCode;
+  rate: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// Raw business member record (matches business_members table from migration 018)
+export interface BusinessMemberRecord {
+  id: string;
+  business_id: string;
+  user_id: string | null;
+  email: string;
+  role: BusinessRole;
+  status: BusinessMemberStatus;
+  invitation_token: string | null;
+  invited_by: string | null;
+  accepted_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Raw status history record (matches appointment_status_history table from migration 009)
+export interface AppointmentStatusHistoryRecord {
+  id: string;
+  appointment_id: string;
+  business_id: string;
+  from_status: AppointmentStatus | null;
+  to_status: AppointmentStatus;
+  changed_by: string | null;
+  reason: string | null;
+  changed_at: string;
+}
+
+// Raw settings version record (matches business_settings_versions table from migration 020)
+export interface BusinessSettingsVersionRecord {
+  id: string;
+  business_id: string;
+  version: number;
+  settings: BusinessSettings;
+  changed_by: string | null;
+  changed_by_email: string | null;
+  restored_from_version: number | null;
+  created_at: string;
+}
+
+// Raw reminder job record (matches reminder_jobs table from migration 022)
+export interface ReminderJobRecord {
+  id: string;
+  business_id: string;
+  appointment_id: string;
+  channel: ReminderChannel;
+  offset_minutes: number;
+  send_at: string;
+  status: ReminderJobStatus;
+  attempts: number;
+  last_error: string | null;
+  sent_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 // Database table definitions
 export interface Database {
   public: {
     Tables: {
       businesses: {
         Row: BusinessRecord;
-        Insert: Omit<BusinessRecord, 'id' | 'created_at' | 'updated_at'>;
+        // slug is generated from the name by a trigger when omitted (migration 013)
+        Insert: Omit<BusinessRecord, 'id' | 'slug' | 'municipality_code' | 'created_at' | 'updated_at'> & {
+          slug?: string;
+          municipality_code?: string | null;
+        };
         Update: Partial<Omit<BusinessRecord, 'id' | 'created_at' | 'updated_at'>>;
       };
+      appointments: {
+        Row: AppointmentRecord;
+        Insert: Omit<AppointmentRecord, 'id' | 'status_reason' | 'created_at' | 'updated_at'> &
+          Partial<Pick<AppointmentRecord, 'status_reason'>>;
+        Update: Partial<Omit<AppointmentRecord, 'id' | 'business_id' | 'created_at' | 'updated_at'>>;
+      };
+      services: {
+        Row: ServiceRecord;
+        Insert: Omit<ServiceRecord, 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Omit<ServiceRecord, 'id' | 'business_id' | 'created_at' | 'updated_at'>>;
+      };
+      specialists: {
+        Row: SpecialistRecord;
+        Insert: Omit<SpecialistRecord, 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Omit<SpecialistRecord, 'id' | 'business_id' | 'created_at' | 'updated_at'>>;
+      };
+      specialist_services: {
+        Row: SpecialistServiceRecord;
+        Insert: Omit<SpecialistServiceRecord, 'created_at'>;
+        Update: Record<string, never>;
+      };
+      clients: {
+        Row: ClientRecord;
+        Insert: Omit<ClientRecord, 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Omit<ClientRecord, 'id' | 'business_id' | 'created_at' | 'updated_at'>>;
+      };
+      exchange_rates: {
+        Row: ExchangeRateRecord;
+        Insert: Omit<ExchangeRateRecord, 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Omit<ExchangeRateRecord, 'id' | 'business_id' | 'created_at' | 'updated_at'>>;
+      };
+      business_members: {
+        Row: BusinessMemberRecord;
+        Insert: Omit<BusinessMemberRecord, 'id' | 'invitation_token' | 'accepted_at' | 'created_at' | 'updated_at'> & {
+          accepted_at?: string | null;
+        };
+        Update: Partial<Omit<BusinessMemberRecord, 'id' | 'business_id' | 'created_at' | 'updated_at'>>;
+      };
+      // Written only by the record_appointment_status_change trigger (migration 023)
+      appointment_status_history: {
+        Row: AppointmentStatusHistoryRecord;
+        Insert: Record<string, never>;
+        Update: Record<string, never>;
+      };
+      // Written only by the record_business_settings_version trigger
+      business_settings_versions: {
+        Row: BusinessSettingsVersionRecord;
+        Insert: Record<string, never>;
+        Update: Record<string, never>;
+      };
+      reminder_jobs: {
+        Row: ReminderJobRecord;
+        Insert: Omit<ReminderJobRecord, 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Omit<ReminderJobRecord, 'id' | 'business_id' | 'appointment_id' | 'created_at' | 'updated_at'>>;
+      };
     };
     Views: Record<string, never>;
     Functions: {
@@ -41,6 +267,22 @@ export interface Database {
         Args: Record<string, never>;
         Returns: string | null;
       };
+      get_business_role: {
+        Args: { p_business_id: string };
+        Returns: BusinessRole | null;
+      };
+      validate_business_access: {
+        Args: { business_uuid: string };
+        Returns: boolean;
+      };
+      set_business_context: {
+        Args: { business_id: string };
+        Returns: void;
+      };
+      restore_business_settings_version: {
+        Args: { p_business_id: string; p_version: number };
+        Returns: BusinessSettingsVersionRecord[];
+      };
     };
     Enums: Record<string, never>;
   };
@@ -55,12 +297,14 @@ export function toDomainBusiness(record: BusinessRecord): Business {
   return {
     id: record.id,
     name: record.name,
+    slug: record.slug,
     description: record.description ?? undefined,
     address: {
       street: record.street,
       city: record.city,
       department: record.department,
       postalCode: record.postal_code ?? undefined,
+      municipalityCode: record.municipality_code ?? undefined,
     },
     phone: record.phone,
     whatsappNumber: record.whatsapp_number ?? undefined,
@@ -84,9 +328,239 @@ export function toBusinessRecord(
     city: business.address.city,
     department: business.address.department,
     postal_code: business.address.postalCode || null,
+    municipality_code: business.address.municipalityCode || null,
     phone: business.phone,
     whatsapp_number: business.whatsappNumber || null,
     email: business.email,
     settings: business.settings,
   };
-}
\ No newline at end of file
+}
+
+// Helper to convert appointment record to domain object
+export function toDomainAppointment(record: AppointmentRecord): Appointment {
+  return {
+    id: record.id,
+    businessId: record.business_id,
+    customerName: record.customer_name,
+    customerPhone: record.customer_phone,
+    customerEmail: record.customer_email ?? undefined,
+    clientId: record.client_id ?? undefined,
+    serviceId: record.service_id ?? undefined,
+    serviceType: record.service_type,
+    specialistId: record.specialist_id ?? undefined,
+    scheduledAt: new Date(record.scheduled_at),
+    duration: record.duration_minutes,
+    status: record.status,
+    notes: record.notes ?? undefined,
+    price: toDomainPriceSnapshot(record),
+    createdAt: new Date(record.created_at),
+    updatedAt: new Date(record.updated_at),
+  };
+}
+
+// Helper to convert domain appointment to database record
+export function toAppointmentRecord(
+  appointment: Omit<Appointment, 'id' | 'businessId' | 'createdAt' | 'updatedAt'>
+): Omit<Database['public']['Tables']['appointments']['Insert'], 'business_id'> {
+  return {
+    customer_name: appointment.customerName,
+    customer_phone: appointment.customerPhone,
+    customer_email: appointment.customerEmail || null,
+    client_id: appointment.clientId || null,
+    service_id: appointment.serviceId || null,
+    service_type: appointment.serviceType,
+    specialist_id: appointment.specialistId || null,
+    scheduled_at: appointment.scheduledAt.toISOString(),
+    duration_minutes: appointment.duration,
+    status: appointment.status,
+    notes: appointment.notes || null,
+    ...toPriceSnapshotRecord(appointment.price),
+  };
+}
+
+// Helper to convert a price snapshot to the appointments price columns
+export function toPriceSnapshotRecord(
+  price: PriceSnapshot | undefined
+): Pick<AppointmentRecord, 'price_amount' | 'price_currency' | 'base_currency' | 'exchange_rate'> {
+  return {
+    price_amount: price?.amount ?? null,
+    price_currency: price?.currency ?? null,
+    base_currency: price?.baseCurrency ?? null,
+    exchange_rate: price?.exchangeRate ?? null,
+  };
+}
+
+// Snapshot columns are written together; a row without an amount has no snapshot
+function toDomainPriceSnapshot(record: AppointmentRecord): PriceSnapshot | undefined {
+  if (record.price_amount === null || record.price_amount === undefined || !record.price_currency) {
+    return undefined;
+  }
+  return {
+    amount: Number(record.price_amount),
+    currency: record.price_currency,
+    baseCurrency: record.base_currency ?? record.price_currency,
+    exchangeRate: record.exchange_rate === null ? null : Number(record.exchange_rate),
+  };
+}
+
+// Helper to convert status history record to domain object
+export function toDomainStatusChange(record: AppointmentStatusHistoryRecord): AppointmentStatusChange {
+  return {
+    id: record.id,
+    appointmentId: record.appointment_id,
+    businessId: record.business_id,
+    fromStatus: record.from_status,
+    toStatus: record.to_status,
+    changedBy: record.changed_by ?? undefined,
+    reason: record.reason ?? undefined,
+    changedAt: new Date(record.changed_at),
+  };
+}
+
+// Helper to convert settings version record to domain object
+export function toDomainSettingsVersion(record: BusinessSettingsVersionRecord): BusinessSettingsVersion {
+  return {
+    id: record.id,
+    businessId: record.business_id,
+    version: record.version,
+    settings: record.settings,
+    changedBy: record.changed_by ?? undefined,
+    changedByEmail: record.changed_by_email ?? undefined,
+    restoredFromVersion: record.restored_from_version ?? undefined,
+    createdAt: new Date(record.created_at),
+  };
+}
+
+// Helper to convert reminder job record to domain object
+export function toDomainReminderJob(record: ReminderJobRecord): ReminderJob {
+  return {
+    id: record.id,
+    businessId: record.business_id,
+    appointmentId: record.appointment_id,
+    channel: record.channel,
+    offsetMinutes: record.offset_minutes,
+    sendAt: new Date(record.send_at),
+    status: record.status,
+    attempts: record.attempts,
+    lastError: record.last_error ?? undefined,
+    sentAt: record.sent_at ? new Date(record.sent_at) : undefined,
+    createdAt: new Date(record.created_at),
+    updatedAt: new Date(record.updated_at),
+  };
+}
+
+// Helper to convert service record to domain object
+export function toDomainService(record: ServiceRecord): Service {
+  return {
+    id: record.id,
+    businessId: record.business_id,
+    name: record.name,
+    description: record.description ?? undefined,
+    duration: record.duration_minutes,
+    price: Number(record.price),
+    currency: record.currency,
+    bufferMinutes: record.buffer_minutes,
+    isActive: record.is_active,
+    createdAt: new Date(record.created_at),
+    updatedAt: new Date(record.updated_at),
+  };
+}
+
+// Helper to convert domain service to database record
+export function toServiceRecord(
+  service: Omit<Service, 'id' | 'businessId' | 'createdAt' | 'updatedAt'>
+): Omit<Database['public']['Tables']['services']['Insert'], 'business_id'> {
+  return {
+    name: service.name,
+    description: service.description || null,
+    duration_minutes: service.duration,
+    price: service.price,
+    currency: service.currency,
+    buffer_minutes: service.bufferMinutes,
+    is_active: service.isActive,
+  };
+}
+
+// Helper to convert specialist record to domain object
+export function toDomainSpecialist(record: SpecialistWithServicesRecord): Specialist {
+  return {
+    id: record.id,
+    businessId: record.business_id,
+    name: record.name,
+    email: record.email ?? undefined,
+    phone: record.phone ?? undefined,
+    schedule: record.schedule || [],
+    serviceIds: (record.specialist_services || []).map(link => link.service_id),
+    isActive: record.is_active,
+    createdAt: new Date(record.created_at),
+    updatedAt: new Date(record.updated_at),
+  };
+}
+
+// Helper to convert domain specialist to database record (service links are stored separately)
+export function toSpecialistRecord(
+  specialist: Omit<Specialist, 'id' | 'businessId' | 'serviceIds' | 'createdAt' | 'updatedAt'>
+): Omit<Database['public']['Tables']['specialists']['Insert'], 'business_id'> {
+  return {
+    name: specialist.name,
+    email: specialist.email || null,
+    phone: specialist.phone || null,
+    schedule: specialist.schedule,
+    is_active: specialist.isActive,
+  };
+}
+
+// Helper to convert client record to domain object
+export function toDomainClient(record: ClientRecord): Client {
+  return {
+    id: record.id,
+    businessId: record.business_id,
+    name: record.name,
+    phone: record.phone,
+    email: record.email ?? undefined,
+    notes: record.notes ?? undefined,
+    createdAt: new Date(record.created_at),
+    updatedAt: new Date(record.updated_at),
+  };
+}
+
+// Helper to convert domain client to database record
+export function toClientRecord(
+  client: Omit<Client, 'id' | 'businessId' | 'createdAt' | 'updatedAt'>
+): Omit<Database['public']['Tables']['clients']['Insert'], 'business_id'> {
+  return {
+    name: client.name,
+    phone: client.phone,
+    email: client.email || null,
+    notes: client.notes || null,
+  };
+}
+
+// Helper to convert exchange rate record to domain object
+export function toDomainExchangeRate(record: ExchangeRateRecord): ExchangeRate {
+  return {
+    id: record.id,
+    businessId: record.business_id,
+    fromCurrency: record.from_currency,
+    toCurrency: record.to_currency,
+    rate: Number(record.rate),
+    createdAt: new Date(record.created_at),
+    updatedAt: new Date(record.updated_at),
+  };
+}
+
+// Helper to convert business member record to domain object
+export function toDomainBusinessMember(record: BusinessMemberRecord): BusinessMember {
+  return {
+    id: record.id,
+    businessId: record.business_id,
+    userId: record.user_id ?? undefined,
+    email: record.email,
+    role: record.role,
+    status: record.status,
+    invitedBy: record.invited_by ?? undefined,
+    acceptedAt: record.accepted_at ? new Date(record.accepted_at) : undefined,
+    createdAt: new Date(record.created_at),
+    updatedAt: new Date(record.updated_at),
+  };
+}
@@ -35,6 +35,16 @@ const clientEnvSchema = z.object({
 const serverEnvSchema = clientEnvSchema.extend({
   // Supabase Server-side Configuration
   SUPABASE_SERVICE_ROLE_KEY: z.string().optional(),
+  // Verify session JWTs locally in the middleware: legacy HS256 secret and/or the
+  // project's signing keys as a JWKS JSON document
+  SUPABASE_JWT_SECRET: z.string().optional(),
+  SUPABASE_JWKS: z.string().optional(),
+  // Bearer token the scheduler sends to the reminder dispatch endpoint
+  REMINDERS_CRON_SECRET: z.string().optional(),
+  // Twilio account that delivers WhatsApp reminders, and SMS ones when a sender number is set
+  TWILIO_ACCOUNT_SID: z.string().optional(),
+  TWILIO_AUTH_TOKEN: z.string().optional(),
+  TWILIO_SMS_FROM: z.string().optional(),
   
   // Server-only Configuration
   API_TIMEOUT: z.coerce.number().default(10000),
@@ -43,6 +53,14 @@ const serverEnvSchema = clientEnvSchema.extend({
   LOG_LEVEL: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
 });
 
+/**
+ * Parsed environment: server-only variables are never parsed on the client, so they
+ * are optional on both sides
+ */
+type ClientEnv = z.infer<typeof clientEnvSchema>;
+type ServerEnv = z.infer<typeof serverEnvSchema>;
+type ParsedEnv = ClientEnv & Partial<Omit<ServerEnv, keyof ClientEnv>>;
+
 /**
  * Determine if we're on the server side
  */
@@ -68,7 +86,7 @@ const envToValidate = isServer ? process.env : {
   NEXT_PUBLIC_ENABLE_ANALYTICS: process.env.NEXT_PUBLIC_ENABLE_ANALYTICS,
 };
 
-const parsedEnv = schema.safeParse(envToValidate);
+const parsedEnv: z.ZodSafeParseResult<ParsedEnv> = schema.safeParse(envToValidate);
 
 // During Next.js build process, environment validation may fail due to missing vars
 // Skip strict validation during build time but still validate at runtime
@@ -94,6 +112,8 @@ const createBuildTimeFallback = () => ({
     url: 'https://placeholder.supabase.co',
     anonKey: 'placeholder-anon-key',
     serviceRoleKey: undefined,
+    jwtSecret: undefined,
+    jwks: undefined,
   },
   colombia: {
     timezone: 'America/Bogota',
@@ -115,6 +135,14 @@ const createBuildTimeFallback = () => ({
   logging: {
     level: 'info' as const,
   },
+  reminders: {
+    cronSecret: undefined,
+    twilio: {
+      accountSid: undefined,
+      authToken: undefined,
+      smsFrom: undefined,
+    },
+  },
 });
 
 /**
@@ -125,6 +153,8 @@ export const env = parsedEnv.success ? {
     url: parsedEnv.data.NEXT_PUBLIC_SUPABASE_URL,
     anonKey: parsedEnv.data.NEXT_PUBLIC_SUPABASE_ANON_KEY,
     serviceRoleKey: isServer && 'SUPABASE_SERVICE_ROLE_KEY' in parsedEnv.data ? parsedEnv.data.SUPABASE_SERVICE_ROLE_KEY : undefined,
+    jwtSecret: isServer ? parsedEnv.data.SUPABASE_JWT_SECRET : undefined,
+    jwks: isServer ? parsedEnv.data.SUPABASE_JWKS : undefined,
   },
   
   colombia: {
@@ -138,7 +168,7 @@ export const env = parsedEnv.success ? {
     nodeEnv: parsedEnv.data.NODE_ENV,
     version: parsedEnv.data.NEXT_PUBLIC_APP_VERSION,
     baseUrl: parsedEnv.data.NEXT_PUBLIC_API_BASE_URL,
-    apiTimeout: isServer && 'API_TIMEOUT' in parsedEnv.data ? parsedEnv.data.API_TIMEOUT : 10000,
+    apiTimeout: (isServer ? parsedEnv.data.API_TIMEOUT : undefined) ?? 10000,
   },
   
   features: {
@@ -154,6 +184,15 @@ export const env = parsedEnv.success ? {
   logging: {
     level: isServer && 'LOG_LEVEL' in parsedEnv.data ? parsedEnv.data.LOG_LEVEL : 'info' as const,
   },
+
+  reminders: {
+    cronSecret: isServer ? parsedEnv.data.REMINDERS_CRON_SECRET : undefined,
+    twilio: {
+      accountSid: isServer ? parsedEnv.data.TWILIO_ACCOUNT_SID : undefined,
+      authToken: isServer ? parsedEnv.data.TWILIO_AUTH_TOKEN : undefined,
+      smsFrom: isServer ? parsedEnv.data.TWILIO_SMS_FROM : undefined,
+    },
+  },
 } as const : createBuildTimeFallback();
 
 /**
@@ -0,0 +1,85 @@
+/**
+ * Exchange Rates
+ * Rates each business maintains for its currencies, and the price snapshot
+ * stored on appointments so historic revenue does not follow later changes
+ */
+
+import type { CurrencyCode, PriceSnapshot } from '@appointments-demo/types';
+import { findExchangeRate, type ExchangeRateQuote } from '@appointments-demo/utils';
+import {
+  BusinessContextDatabase,
+  type DatabaseOperationResult,
+  type QueryOptions
+} from './database-operations';
+import type { ExchangeRateRecord, ServiceRecord } from './database.types';
+
+/**
+ * Get every exchange rate configured by the current business
+ */
+export async function listExchangeRates(
+  options: QueryOptions = {}
+): Promise<DatabaseOperationResult<ExchangeRateRecord[]>> {
+  return BusinessContextDatabase.select<ExchangeRateRecord>('exchange_rates', '*', {}, options);
+}
+
+/**
+ * Set the rate of a currency pair, replacing the previous one
+ */
+export async function saveExchangeRate(
+  quote: ExchangeRateQuote,
+  options: QueryOptions = {}
+): Promise<DatabaseOperationResult<ExchangeRateRecord>> {
+  const existing = await BusinessContextDatabase.select<ExchangeRateRecord>(
+    'exchange_rates',
+    'id',
+    { from_currency: quote.fromCurrency, to_currency: quote.toCurrency },
+    options
+  );
+  if (!existing.success) {
+    return { success: false, error: existing.error, businessId: existing.businessId };
+  }
+
+  const current = existing.data?.[0];
+  if (current) {
+    return BusinessContextDatabase.update<ExchangeRateRecord>('exchange_rates', current.id, { rate: quote.rate }, options);
+  }
+
+  return BusinessContextDatabase.insert<ExchangeRateRecord>(
+    'exchange_rates',
+    { from_currency: quote.fromCurrency, to_currency: quote.toCurrency, rate: quote.rate },
+    options
+  );
+}
+
+/**
+ * Snapshot a service price with the rate to the business currency in force now.
+ * A missing rate does not block the booking; the snapshot keeps exchangeRate null.
+ */
+export async function buildPriceSnapshot(
+  service: Pick<ServiceRecord, 'price' | 'currency'>,
+  baseCurrency: CurrencyCode,
+  options: QueryOptions = {}
+): Promise<DatabaseOperationResult<PriceSnapshot>> {
+  const snapshot = { amount: Number(service.price), currency: service.currency, baseCurrency };
+
+  if (service.currency === baseCurrency) {
+    return { success: true, data: { ...snapshot, exchangeRate: 1 }, businessId: options.businessId };
+  }
+
+  const ratesResult = await listExchangeRates(options);
+  if (!ratesResult.success) {
+    return { success: false, error: ratesResult.error, businessId: ratesResult.businessId };
+  }
+
+  const rates = (ratesResult.data || []).map(record => ({
+    fromCurrency: record.from_currency,
+    toCurrency: record.to_currency,
+    rate: Number(record.rate)
+  }));
+
+  return {
+    success: true,
+    data: { ...snapshot, exchangeRate: findExchangeRate(rates, service.currency, baseCurrency) },
+    businessId: ratesResult.businessId
+  };
+}
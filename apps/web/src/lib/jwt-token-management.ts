@@ -299,11 +299,25 @@ export const fetchInterceptor = {
       }
 
       // Make authenticated request
-      const response = await fetch(url, {
+      let response = await fetch(url, {
         ...options,
         headers,
       });
 
+      // The server may reject a token that looked valid here (revoked, rotated keys):
+      // refresh the session once and retry before giving up on it
+      if (response.status === 401) {
+        const refreshResult = await jwtTokenManager.refreshTokenWithBusinessContext();
+
+        if (refreshResult.success && refreshResult.session) {
+          headers.set('Authorization', `Bearer ${refreshResult.session.access_token}`);
+          response = await fetch(url, {
+            ...options,
+            headers,
+          });
+        }
+      }
+
       // Handle authentication and business context errors
       if (response.status === 401) {
         console.warn('Authentication error detected, logging out user');
@@ -0,0 +1,263 @@
+/**
+ * Public Booking
+ * Business lookup, catalog, availability and booking for the unauthenticated booking page (/b/<slug>).
+ * Business, catalog and specialist reads use the anon client: the public policies and column
+ * grants of migration 024 limit what it can read. Appointments are only reached through the
+ * public functions, which only the service role may call (migration 028), once the API has
+ * rate limited and checked the request.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  PublicBusinessProfile,
+  PublicService,
+  PublicSpecialist
+} from '@appointments-demo/types';
+import { computeAvailableSlots, DEFAULT_TIMEZONE, type AvailableSlot } from '@appointments-demo/utils';
+import {
+  BusinessContextDatabase,
+  type DatabaseOperationResult
+} from './database-operations';
+import { MAX_APPOINTMENT_DURATION_MINUTES } from './appointments';
+import { MAX_SERVICE_BUFFER_MINUTES } from './service-catalog';
+import { normalizeClientPhone } from './clients';
+import { SPECIALIST_NOT_FOUND_ERROR } from './specialists';
+import type {
+  AppointmentRecord,
+  BusinessRecord,
+  ServiceRecord,
+  SpecialistWithServicesRecord
+} from './database.types';
+
+// Error messages callers can map to HTTP responses
+export const PUBLIC_BUSINESS_NOT_FOUND_ERROR = 'Business not found';
+
+// Error code for a requested time that is no longer among the offered slots
+export const PUBLIC_SLOT_UNAVAILABLE_CODE = 'SLOT_UNAVAILABLE';
+
+// Never select owner_id, email or address details for public visitors
+const PUBLIC_BUSINESS_COLUMNS = 'id, slug, name, description, city, department, phone, settings';
+
+// Specialist email and phone are not granted to anon
+const PUBLIC_SPECIALIST_COLUMNS = 'id, business_id, name, schedule, is_active, specialist_services(service_id)';
+
+export type PublicBusinessRecord = Pick<
+  BusinessRecord,
+  'id' | 'slug' | 'name' | 'description' | 'city' | 'department' | 'phone' | 'settings'
+>;
+
+export type PublicSpecialistRecord = Pick<
+  SpecialistWithServicesRecord,
+  'id' | 'business_id' | 'name' | 'schedule' | 'is_active' | 'specialist_services'
+>;
+
+type BookedTimeRecord = Pick<AppointmentRecord, 'scheduled_at' | 'duration_minutes' | 'status'> &
+  Pick<ServiceRecord, 'buffer_minutes'>;
+
+interface PublicAvailabilityRequest {
+  business: PublicBusinessRecord;
+  service: ServiceRecord;
+  specialist?: PublicSpecialistRecord;
+  from: Date;
+  to: Date;
+}
+
+export interface PublicBookingRequest {
+  businessId: string;
+  serviceId: string;
+  specialistId?: string;
+  customerName: string;
+  customerPhone: string;
+  customerEmail?: string;
+  scheduledAt: Date;
+  notes?: string;
+}
+
+/**
+ * Find a business by its public slug
+ */
+export async function getPublicBusiness(
+  slug: string,
+  client: SupabaseClient
+): Promise<DatabaseOperationResult<PublicBusinessRecord>> {
+  const { data, error } = await client
+    .from('businesses')
+    .select(PUBLIC_BUSINESS_COLUMNS)
+    .eq('slug', slug.toLowerCase())
+    .maybeSingle();
+
+  if (error) {
+    return { success: false, error: `Database select error: ${error.message}` };
+  }
+
+  if (!data) {
+    return { success: false, error: PUBLIC_BUSINESS_NOT_FOUND_ERROR };
+  }
+
+  const business = data as PublicBusinessRecord;
+  return { success: true, data: business, businessId: business.id };
+}
+
+/**
+ * Active services and specialists a visitor can choose from
+ */
+export async function getPublicCatalog(
+  businessId: string,
+  client: SupabaseClient
+): Promise<DatabaseOperationResult<{ services: PublicService[]; specialists: PublicSpecialist[] }>> {
+  const options = { businessId, client };
+
+  const [servicesResult, specialistsResult] = await Promise.all([
+    BusinessContextDatabase.select<ServiceRecord>('services', '*', { is_active: true }, options),
+    BusinessContextDatabase.select<PublicSpecialistRecord>('specialists', PUBLIC_SPECIALIST_COLUMNS, { is_active: true }, options)
+  ]);
+
+  if (!servicesResult.success) {
+    return { success: false, error: servicesResult.error, businessId };
+  }
+  if (!specialistsResult.success) {
+    return { success: false, error: specialistsResult.error, businessId };
+  }
+
+  const services = (servicesResult.data || [])
+    .map(toPublicService)
+    .sort((a, b) => a.name.localeCompare(b.name, 'es'));
+  const specialists = (specialistsResult.data || [])
+    .map(record => ({
+      id: record.id,
+      name: record.name,
+      serviceIds: (record.specialist_services || []).map(link => link.service_id)
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name, 'es'));
+
+  return { success: true, data: { services, specialists }, businessId };
+}
+
+/**
+ * An active specialist of the business; inactive ones are not visible to anon
+ */
+export async function getPublicSpecialist(
+  businessId: string,
+  specialistId: string,
+  client: SupabaseClient
+): Promise<DatabaseOperationResult<PublicSpecialistRecord>> {
+  const result = await BusinessContextDatabase.select<PublicSpecialistRecord>(
+    'specialists',
+    PUBLIC_SPECIALIST_COLUMNS,
+    { id: specialistId },
+    { businessId, client }
+  );
+
+  if (!result.success) {
+    return { success: false, error: result.error, businessId };
+  }
+
+  const specialist = result.data?.[0];
+  if (!specialist) {
+    return { success: false, error: SPECIALIST_NOT_FOUND_ERROR, businessId };
+  }
+
+  return { success: true, data: specialist, businessId };
+}
+
+/**
+ * Free slots for a service, optionally with a specific specialist.
+ * Mirrors /api/availability: a specialist's schedule replaces the business hours
+ * and only their own appointments block time.
+ */
+export async function getPublicAvailability(
+  { business, service, specialist, from, to }: PublicAvailabilityRequest,
+  client: SupabaseClient
+): Promise<DatabaseOperationResult<AvailableSlot[]>> {
+  // Appointments that started up to the longest duration and buffer earlier may still run
+  // into the window, and the last slot may end a service (and its buffer) after it
+  const windowStart = new Date(
+    from.getTime() - (MAX_APPOINTMENT_DURATION_MINUTES + MAX_SERVICE_BUFFER_MINUTES) * 60 * 1000
+  );
+  const windowEnd = new Date(to.getTime() + (service.duration_minutes + service.buffer_minutes) * 60 * 1000);
+
+  // Only the booked times are returned; customer data never leaves the database
+  const { data, error } = await client.rpc('get_public_booked_times', {
+    p_business_id: business.id,
+    p_from: windowStart.toISOString(),
+    p_to: windowEnd.toISOString(),
+    p_specialist_id: specialist?.id ?? null
+  });
+
+  if (error) {
+    return { success: false, error: `RPC error: ${error.message}`, businessId: business.id };
+  }
+
+  const settings = specialist
+    ? { ...business.settings, businessHours: specialist.schedule || [] }
+    : business.settings;
+
+  const slots = computeAvailableSlots({
+    business: { settings },
+    serviceDuration: service.duration_minutes,
+    bufferMinutes: service.buffer_minutes,
+    from,
+    to,
+    appointments: ((data as BookedTimeRecord[]) || []).map(record => ({
+      scheduledAt: new Date(record.scheduled_at),
+      duration: record.duration_minutes,
+      bufferMinutes: record.buffer_minutes,
+      status: record.status
+    })),
+    now: new Date()
+  });
+
+  return { success: true, data: slots, businessId: business.id };
+}
+
+/**
+ * Book a PENDING appointment through book_public_appointment, which takes the service
+ * name, duration and price from the catalog, re-checks the specialist and matches the
+ * client by phone (call with the service role client)
+ */
+export async function bookPublicAppointment(
+  booking: PublicBookingRequest,
+  client: SupabaseClient
+): Promise<DatabaseOperationResult<AppointmentRecord>> {
+  const { data, error } = await client.rpc('book_public_appointment', {
+    p_business_id: booking.businessId,
+    p_service_id: booking.serviceId,
+    p_specialist_id: booking.specialistId ?? null,
+    p_client_phone: normalizeClientPhone(booking.customerPhone),
+    p_customer_name: booking.customerName,
+    p_customer_phone: booking.customerPhone,
+    p_customer_email: booking.customerEmail ?? null,
+    p_scheduled_at: booking.scheduledAt.toISOString(),
+    p_notes: booking.notes ?? null
+  });
+
+  if (error) {
+    return { success: false, error: `RPC error: ${error.message}`, businessId: booking.businessId };
+  }
+
+  return { success: true, data: data as AppointmentRecord, businessId: booking.businessId };
+}
+
+export function toPublicBusinessProfile(record: PublicBusinessRecord): PublicBusinessProfile {
+  return {
+    slug: record.slug,
+    name: record.name,
+    description: record.description ?? undefined,
+    city: record.city,
+    department: record.department,
+    phone: record.phone,
+    timezone: record.settings.timezone || DEFAULT_TIMEZONE,
+    businessHours: record.settings.businessHours || []
+  };
+}
+
+export function toPublicService(record: ServiceRecord): PublicService {
+  return {
+    id: record.id,
+    name: record.name,
+    description: record.description ?? undefined,
+    duration: record.duration_minutes,
+    price: Number(record.price),
+    currency: record.currency
+  };
+}
@@ -0,0 +1,60 @@
+/**
+ * @jest-environment node
+ */
+
+import { NextRequest } from 'next/server';
+import { createRateLimiter, getClientIp } from './rate-limit';
+import { createServerSupabaseClient } from './supabase';
+
+jest.mock('./supabase', () => ({
+  createServerSupabaseClient: jest.fn(),
+}));
+
+describe('createRateLimiter', () => {
+  const rpc = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (createServerSupabaseClient as jest.Mock).mockReturnValue({ rpc });
+  });
+
+  it('counts requests in the shared table under the limiter name', async () => {
+    rpc.mockResolvedValue({ data: [{ allowed: false, remaining: 0, retry_after_seconds: 58 }], error: null });
+    const limiter = createRateLimiter({ name: 'public-booking', limit: 2, windowMs: 60_000 });
+
+    expect(await limiter.check('1.1.1.1')).toEqual({ allowed: false, remaining: 0, retryAfterSeconds: 58 });
+    expect(rpc).toHaveBeenCalledWith('consume_rate_limit', {
+      p_key: 'public-booking:1.1.1.1',
+      p_limit: 2,
+      p_window_seconds: 60,
+    });
+  });
+
+  it('lets requests through when the counters cannot be reached', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    rpc.mockResolvedValue({ data: null, error: { message: 'connection refused' } });
+    const limiter = createRateLimiter({ name: 'public-booking', limit: 2, windowMs: 60_000 });
+
+    expect(await limiter.check('1.1.1.1')).toEqual({ allowed: true, remaining: 2, retryAfterSeconds: 0 });
+    expect(consoleError).toHaveBeenCalledWith('Error checking rate limit:', 'connection refused');
+    consoleError.mockRestore();
+  });
+});
+
+describe('getClientIp', () => {
+  it('uses the last x-forwarded-for hop, which the client cannot forge', () => {
+    const request = new NextRequest('http://localhost/api', {
+      headers: { 'x-forwarded-for': '1.2.3.4, 181.49.10.2' },
+    });
+
+    expect(getClientIp(request)).toBe('181.49.10.2');
+  });
+
+  it('falls back to x-real-ip', () => {
+    const request = new NextRequest('http://localhost/api', {
+      headers: { 'x-real-ip': '181.49.10.2' },
+    });
+
+    expect(getClientIp(request)).toBe('181.49.10.2');
+  });
+});
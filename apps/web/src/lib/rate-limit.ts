@@ -0,0 +1,88 @@
+/**
+ * Rate Limiting
+ * Fixed-window request counters for unauthenticated API routes, shared through the database
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { NextResponse, type NextRequest } from 'next/server';
+import { createServerSupabaseClient } from './supabase';
+
+// Type definitions
+export interface RateLimitOptions {
+  name: string; // prefix that keeps the counters of each limiter apart
+  limit: number; // requests allowed per window
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number;
+}
+
+export interface RateLimiter {
+  check(key: string): Promise<RateLimitResult>;
+}
+
+interface ConsumeRateLimitRecord {
+  allowed: boolean;
+  remaining: number;
+  retry_after_seconds: number;
+}
+
+/**
+ * Create a limiter whose counters live in the rate_limits table (migration 028), so
+ * every server instance and cold start shares the same budget. Counting goes through
+ * consume_rate_limit with the service role. When the database cannot be reached the
+ * request is let through: the limiter protects the routes, it must not take them down.
+ */
+export function createRateLimiter({ name, limit, windowMs }: RateLimitOptions): RateLimiter {
+  return {
+    async check(key: string): Promise<RateLimitResult> {
+      const client: SupabaseClient = createServerSupabaseClient();
+      const { data, error } = await client.rpc('consume_rate_limit', {
+        p_key: `${name}:${key}`,
+        p_limit: limit,
+        p_window_seconds: Math.ceil(windowMs / 1000)
+      });
+
+      const record = (data as ConsumeRateLimitRecord[] | null)?.[0];
+      if (error || !record) {
+        console.error('Error checking rate limit:', error?.message ?? 'No counter returned');
+        return { allowed: true, remaining: limit, retryAfterSeconds: 0 };
+      }
+
+      return {
+        allowed: record.allowed,
+        remaining: record.remaining,
+        retryAfterSeconds: record.retry_after_seconds
+      };
+    }
+  };
+}
+
+/**
+ * Client address for rate limiting. The client can send any x-forwarded-for it
+ * likes and proxies append to it, so only the last hop (added by the proxy in
+ * front of the app) can be trusted; x-real-ip is set by that proxy alone.
+ */
+export function getClientIp(request: NextRequest): string {
+  const forwarded = request.headers.get('x-forwarded-for');
+  if (forwarded) {
+    const hops = forwarded.split(',').map(hop => hop.trim()).filter(Boolean);
+    if (hops.length > 0) {
+      return hops[hops.length - 1];
+    }
+  }
+  return request.headers.get('x-real-ip') ?? 'unknown';
+}
+
+/**
+ * 429 response telling the client when it may retry
+ */
+export function tooManyRequestsResponse(result: RateLimitResult): NextResponse {
+  return NextResponse.json(
+    { error: 'Too many requests' },
+    { status: 429, headers: { 'Retry-After': String(result.retryAfterSeconds) } }
+  );
+}
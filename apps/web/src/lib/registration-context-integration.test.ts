@@ -74,13 +74,13 @@ describe('Registration Multi-Tenant Context Integration', () => {
         email: 'contacto@clinicadental.com',
         settings: {
           timezone: 'America/Bogota',
-          currency: 'COP',
+          currency: 'COP' as const,
           businessHours: [
-            { dayOfWeek: 1, openTime: "08:00", closeTime: "18:00", isOpen: true },
-            { dayOfWeek: 2, openTime: "08:00", closeTime: "18:00", isOpen: true },
-            { dayOfWeek: 3, openTime: "08:00", closeTime: "18:00", isOpen: true },
-            { dayOfWeek: 4, openTime: "08:00", closeTime: "18:00", isOpen: true },
-            { dayOfWeek: 5, openTime: "08:00", closeTime: "18:00", isOpen: true }
+            { dayOfWeek: 1, intervals: [{ openTime: "08:00", closeTime: "18:00" }], isOpen: true },
+            { dayOfWeek: 2, intervals: [{ openTime: "08:00", closeTime: "18:00" }], isOpen: true },
+            { dayOfWeek: 3, intervals: [{ openTime: "08:00", closeTime: "18:00" }], isOpen: true },
+            { dayOfWeek: 4, intervals: [{ openTime: "08:00", closeTime: "18:00" }], isOpen: true },
+            { dayOfWeek: 5, intervals: [{ openTime: "08:00", closeTime: "18:00" }], isOpen: true }
           ]
         }
       };
@@ -124,7 +124,7 @@ describe('Registration Multi-Tenant Context Integration', () => {
         phone: '+57 301 234 5678',
         whatsapp_number: '+57 301 234 5678',
         email: 'context@test.com',
-        settings: { timezone: 'America/Bogota', currency: 'COP' },
+        settings: { timezone: 'America/Bogota', currency: 'COP' as const },
         created_at: '2025-01-01T00:00:00Z',
         updated_at: '2025-01-01T00:00:00Z'
       };
@@ -179,7 +179,7 @@ describe('Registration Multi-Tenant Context Integration', () => {
         email: 'contacto@centromedico.com',
         settings: {
           timezone: 'America/Bogota',
-          currency: 'COP',
+          currency: 'COP' as const,
           businessHours: []
         }
       };
@@ -306,7 +306,7 @@ describe('Registration Multi-Tenant Context Integration', () => {
         postal_code: '110111',
         phone: '+57 301 234 5678',
         email: 'recovery@business.com',
-        settings: { timezone: 'America/Bogota', currency: 'COP' },
+        settings: { timezone: 'America/Bogota', currency: 'COP' as const },
         created_at: '2025-01-01T00:00:00Z',
         updated_at: '2025-01-01T00:00:00Z'
       };
@@ -354,7 +354,7 @@ describe('Registration Multi-Tenant Context Integration', () => {
         },
         phone: 'invalid-phone' as string, // Invalid phone format
         email: 'invalid@email.com',
-        settings: { timezone: 'America/Bogota', currency: 'COP', businessHours: [] }
+        settings: { timezone: 'America/Bogota', currency: 'COP' as const, businessHours: [] }
       };
 
       // Mock database constraint violation
@@ -385,7 +385,7 @@ describe('Registration Multi-Tenant Context Integration', () => {
         },
         phone: '+57 301 234 5678' as const,
         email: 'contextfail@test.com',
-        settings: { timezone: 'America/Bogota', currency: 'COP', businessHours: [] }
+        settings: { timezone: 'America/Bogota', currency: 'COP' as const, businessHours: [] }
       };
 
       const createdBusinessId = 'context-fail-business-123';
@@ -427,15 +427,15 @@ describe('Registration Multi-Tenant Context Integration', () => {
           email: 'info@clinicaintegral.com',
           settings: {
             timezone: 'America/Bogota',
-            currency: 'COP',
+            currency: 'COP' as const,
             businessHours: [
-              { dayOfWeek: 1, openTime: "07:00", closeTime: "19:00", isOpen: true },
-              { dayOfWeek: 2, openTime: "07:00", closeTime: "19:00", isOpen: true },
-              { dayOfWeek: 3, openTime: "07:00", closeTime: "19:00", isOpen: true },
-              { dayOfWeek: 4, openTime: "07:00", closeTime: "19:00", isOpen: true },
-              { dayOfWeek: 5, openTime: "07:00", closeTime: "19:00", isOpen: true },
-              { dayOfWeek: 6, openTime: "08:00", closeTime: "16:00", isOpen: true },
-              { dayOfWeek: 0, openTime: "08:00", closeTime: "14:00", isOpen: false }
+              { dayOfWeek: 1, intervals: [{ openTime: "07:00", closeTime: "19:00" }], isOpen: true },
+              { dayOfWeek: 2, intervals: [{ openTime: "07:00", closeTime: "19:00" }], isOpen: true },
+              { dayOfWeek: 3, intervals: [{ openTime: "07:00", closeTime: "19:00" }], isOpen: true },
+              { dayOfWeek: 4, intervals: [{ openTime: "07:00", closeTime: "19:00" }], isOpen: true },
+              { dayOfWeek: 5, intervals: [{ openTime: "07:00", closeTime: "19:00" }], isOpen: true },
+              { dayOfWeek: 6, intervals: [{ openTime: "08:00", closeTime: "16:00" }], isOpen: true },
+              { dayOfWeek: 0, intervals: [{ openTime: "08:00", closeTime: "14:00" }], isOpen: false }
             ]
           }
         };
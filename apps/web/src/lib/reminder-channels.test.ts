@@ -0,0 +1,157 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Reminder Channels Tests
+ *
+ * Tests reminder message building per channel, the Twilio transport and the fake transport
+ */
+
+import { FakeReminderTransport } from '@/test-utils/fake-reminder-transport';
+import { env } from './env';
+import {
+  REMINDER_NO_RECIPIENT_ERROR,
+  REMINDER_NO_WHATSAPP_SENDER_ERROR,
+  TwilioReminderTransport,
+  buildReminderMessage,
+  formatReminderText,
+  getReminderTransports,
+  type TwilioTransportConfig
+} from './reminder-channels';
+
+jest.mock('./env', () => ({
+  env: { reminders: { twilio: {} } },
+}));
+
+const business = {
+  name: 'Salón Bella',
+  whatsappNumber: '+57 300 111 2233',
+  settings: { timezone: 'America/Bogota', currency: 'COP' as const, businessHours: [] },
+};
+
+// Monday 2025-03-10 09:00 in Bogotá (UTC-5)
+const appointment = {
+  customerName: 'Laura Gómez',
+  customerPhone: '+57 301 234 5678',
+  serviceType: 'Corte',
+  scheduledAt: new Date('2025-03-10T14:00:00.000Z'),
+};
+
+describe('Reminder Channels', () => {
+  it('writes the date and time in the business time zone', () => {
+    const text = formatReminderText(appointment, business);
+
+    expect(text).toContain('Hola Laura, te recordamos tu cita de Corte en Salón Bella');
+    expect(text).toContain('10 de marzo');
+    expect(text).toContain('a las 09:00.');
+  });
+
+  it('sends WhatsApp and SMS to the customer phone, WhatsApp from the business number', () => {
+    const whatsapp = buildReminderMessage({ id: 'job-1', channel: 'whatsapp' }, appointment, business);
+    const sms = buildReminderMessage({ id: 'job-2', channel: 'sms' }, appointment, business);
+
+    expect(whatsapp).toEqual({
+      success: true,
+      message: expect.objectContaining({ to: '+57 301 234 5678', from: '+57 300 111 2233' }),
+    });
+    expect(sms).toEqual({
+      success: true,
+      message: expect.not.objectContaining({ from: expect.anything() }),
+    });
+  });
+
+  it('cannot send WhatsApp reminders without a business WhatsApp number', () => {
+    const result = buildReminderMessage(
+      { id: 'job-1', channel: 'whatsapp' },
+      appointment,
+      { ...business, whatsappNumber: undefined }
+    );
+
+    expect(result).toEqual({ success: false, error: REMINDER_NO_WHATSAPP_SENDER_ERROR });
+  });
+
+  it('emails the customer address with a subject, and skips customers without one', () => {
+    const withEmail = buildReminderMessage(
+      { id: 'job-1', channel: 'email' },
+      { ...appointment, customerEmail: 'laura@correo.co' },
+      business
+    );
+
+    expect(withEmail).toEqual({
+      success: true,
+      message: expect.objectContaining({ to: 'laura@correo.co', subject: 'Recordatorio de tu cita en Salón Bella' }),
+    });
+    expect(buildReminderMessage({ id: 'job-2', channel: 'email' }, appointment, business))
+      .toEqual({ success: false, error: REMINDER_NO_RECIPIENT_ERROR });
+  });
+
+  it('records messages in the fake transport until told to fail', async () => {
+    const transport = new FakeReminderTransport();
+    const message = { jobId: 'job-1', channel: 'sms' as const, to: '+57 301 234 5678', body: 'Hola' };
+
+    await expect(transport.send(message)).resolves.toEqual({ success: true });
+    transport.failWith('Provider unavailable');
+    await expect(transport.send(message)).resolves.toEqual({ success: false, error: 'Provider unavailable' });
+
+    expect(transport.sent).toEqual([message]);
+  });
+
+  describe('Twilio transport', () => {
+    const twilio = env.reminders.twilio as Partial<TwilioTransportConfig> & { smsFrom?: string };
+    const fetchMock = jest.fn();
+    const message = {
+      jobId: 'job-1',
+      channel: 'whatsapp' as const,
+      from: '+57 300 111 2233',
+      to: '+57 301 234 5678',
+      body: 'Hola Laura',
+    };
+
+    beforeEach(() => {
+      fetchMock.mockReset();
+      global.fetch = fetchMock;
+      twilio.accountSid = undefined;
+      twilio.authToken = undefined;
+      twilio.smsFrom = undefined;
+    });
+
+    it('registers WhatsApp with the Twilio credentials and SMS once a sender is set', () => {
+      expect(getReminderTransports()).toEqual({});
+
+      twilio.accountSid = 'AC123';
+      twilio.authToken = 'token';
+      expect(Object.keys(getReminderTransports())).toEqual(['whatsapp']);
+
+      twilio.smsFrom = '+57 300 999 8877';
+      expect(Object.keys(getReminderTransports())).toEqual(['whatsapp', 'sms']);
+    });
+
+    it('sends WhatsApp messages from the business number in E.164', async () => {
+      fetchMock.mockResolvedValue(Response.json({ sid: 'SM1' }, { status: 201 }));
+      const transport = new TwilioReminderTransport({ accountSid: 'AC123', authToken: 'token' }, 'whatsapp');
+
+      await expect(transport.send(message)).resolves.toEqual({ success: true });
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('https://api.twilio.com/2010-04-01/Accounts/AC123/Messages.json');
+      expect(new Headers(init.headers).get('Authorization')).toBe(`Basic ${Buffer.from('AC123:token').toString('base64')}`);
+      expect(Object.fromEntries(init.body as URLSearchParams)).toEqual({
+        From: 'whatsapp:+573001112233',
+        To: 'whatsapp:+573012345678',
+        Body: 'Hola Laura',
+      });
+    });
+
+    it('reports rejected and failed requests so the job is retried', async () => {
+      const transport = new TwilioReminderTransport({ accountSid: 'AC123', authToken: 'token', from: '+57 300 999 8877' }, 'sms');
+      const sms = { ...message, channel: 'sms' as const, from: undefined };
+
+      fetchMock.mockResolvedValueOnce(Response.json({ message: 'Invalid To number' }, { status: 400 }));
+      await expect(transport.send(sms)).resolves.toEqual({ success: false, error: 'Twilio error 400: Invalid To number' });
+
+      fetchMock.mockRejectedValueOnce(new Error('socket hang up'));
+      await expect(transport.send(sms)).resolves.toEqual({ success: false, error: 'Twilio request failed: socket hang up' });
+    });
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Reminder Channels
+ * Builds reminder messages and delivers them through a transport per channel
+ * (WhatsApp, SMS, email). WhatsApp and SMS go through Twilio when it is configured
+ */
+
+import type { Appointment, Business, ReminderChannel } from '@appointments-demo/types';
+import { env } from './env';
+
+// Reasons a reminder is skipped instead of sent
+export const REMINDER_NO_RECIPIENT_ERROR = 'Appointment has no recipient for this channel';
+export const REMINDER_NO_WHATSAPP_SENDER_ERROR = 'Business has no WhatsApp number';
+
+const TWILIO_API_URL = 'https://api.twilio.com/2010-04-01';
+const TWILIO_TIMEOUT_MS = 10_000;
+
+// Type definitions
+export interface ReminderMessage {
+  jobId: string;
+  channel: ReminderChannel;
+  from?: string; // Business WhatsApp number for WhatsApp messages
+  to: string; // Phone for WhatsApp and SMS, address for email
+  subject?: string; // Email only
+  body: string;
+}
+
+export interface ReminderDeliveryResult {
+  success: boolean;
+  error?: string;
+}
+
+export interface ReminderTransport {
+  send(message: ReminderMessage): Promise<ReminderDeliveryResult>;
+}
+
+// Channels without a transport are not dispatched; their jobs wait in the queue
+export type ReminderTransports = Partial<Record<ReminderChannel, ReminderTransport>>;
+
+type ReminderAppointment = Pick<Appointment, 'customerName' | 'customerPhone' | 'customerEmail' | 'serviceType' | 'scheduledAt'>;
+type ReminderBusiness = Pick<Business, 'name' | 'whatsappNumber' | 'settings'>;
+
+/**
+ * Where a reminder goes on a channel, or null when the appointment has no contact for it
+ */
+export function getReminderRecipient(
+  appointment: Pick<Appointment, 'customerPhone' | 'customerEmail'>,
+  channel: ReminderChannel
+): string | null {
+  if (channel === 'email') return appointment.customerEmail || null;
+  return appointment.customerPhone || null;
+}
+
+/**
+ * Spanish reminder text with the date and time in the business time zone
+ */
+export function formatReminderText(appointment: ReminderAppointment, business: ReminderBusiness): string {
+  const timeZone = business.settings.timezone;
+  const [firstName] = appointment.customerName.trim().split(/\s+/);
+  const date = appointment.scheduledAt.toLocaleDateString('es-CO', {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    timeZone
+  });
+  const time = appointment.scheduledAt.toLocaleTimeString('es-CO', {
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+    timeZone
+  });
+
+  return `Hola ${firstName}, te recordamos tu cita de ${appointment.serviceType} en ${business.name} el ${date} a las ${time}.`;
+}
+
+/**
+ * Build the message of a reminder job
+ * Fails with the reason to skip the job when the channel cannot reach the customer
+ */
+export function buildReminderMessage(
+  job: { id: string; channel: ReminderChannel },
+  appointment: ReminderAppointment,
+  business: ReminderBusiness
+): { success: true; message: ReminderMessage } | { success: false; error: string } {
+  const to = getReminderRecipient(appointment, job.channel);
+  if (!to) {
+    return { success: false, error: REMINDER_NO_RECIPIENT_ERROR };
+  }
+
+  const message: ReminderMessage = {
+    jobId: job.id,
+    channel: job.channel,
+    to,
+    body: formatReminderText(appointment, business)
+  };
+
+  if (job.channel === 'whatsapp') {
+    if (!business.whatsappNumber) {
+      return { success: false, error: REMINDER_NO_WHATSAPP_SENDER_ERROR };
+    }
+    message.from = business.whatsappNumber;
+  }
+
+  if (job.channel === 'email') {
+    message.subject = `Recordatorio de tu cita en ${business.name}`;
+  }
+
+  return { success: true, message };
+}
+
+export interface TwilioTransportConfig {
+  accountSid: string;
+  authToken: string;
+  from?: string; // Sender for SMS; WhatsApp messages are sent from the business number
+}
+
+// Twilio wants E.164 numbers ("+57 300 123 4567" -> "+573001234567"), prefixed for WhatsApp
+const toTwilioAddress = (phone: string, channel: ReminderChannel): string => {
+  const number = phone.replace(/[^\d+]/g, '');
+  return channel === 'whatsapp' ? `whatsapp:${number}` : number;
+};
+
+/**
+ * Delivers WhatsApp or SMS reminders through the Twilio Messages API.
+ * WhatsApp senders must be registered in the Twilio account with the business number
+ */
+export class TwilioReminderTransport implements ReminderTransport {
+  constructor(
+    private readonly config: TwilioTransportConfig,
+    private readonly channel: Extract<ReminderChannel, 'whatsapp' | 'sms'>
+  ) {}
+
+  async send(message: ReminderMessage): Promise<ReminderDeliveryResult> {
+    const from = this.channel === 'whatsapp' ? message.from : this.config.from;
+    if (!from) {
+      return { success: false, error: `No ${this.channel} sender configured` };
+    }
+
+    const { accountSid, authToken } = this.config;
+    try {
+      const response = await fetch(`${TWILIO_API_URL}/Accounts/${accountSid}/Messages.json`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString('base64')}`,
+          'Content-Type': 'application/x-www-form-urlencoded'
+        },
+        body: new URLSearchParams({
+          From: toTwilioAddress(from, this.channel),
+          To: toTwilioAddress(message.to, this.channel),
+          Body: message.body
+        }),
+        signal: AbortSignal.timeout(TWILIO_TIMEOUT_MS)
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null) as { message?: string } | null;
+        return { success: false, error: `Twilio error ${response.status}: ${body?.message ?? response.statusText}` };
+      }
+
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: `Twilio request failed: ${error instanceof Error ? error.message : String(error)}` };
+    }
+  }
+}
+
+/**
+ * Transports the dispatcher delivers through, from the environment:
+ * WhatsApp with TWILIO_ACCOUNT_SID and TWILIO_AUTH_TOKEN, SMS when TWILIO_SMS_FROM is set too.
+ * No email provider is integrated yet, so email jobs stay queued
+ */
+export function getReminderTransports(): ReminderTransports {
+  const { accountSid, authToken, smsFrom } = env.reminders.twilio;
+  if (!accountSid || !authToken) {
+    return {};
+  }
+
+  const transports: ReminderTransports = {
+    whatsapp: new TwilioReminderTransport({ accountSid, authToken }, 'whatsapp')
+  };
+  if (smsFrom) {
+    transports.sms = new TwilioReminderTransport({ accountSid, authToken, from: smsFrom }, 'sms');
+  }
+
+  return transports;
+}
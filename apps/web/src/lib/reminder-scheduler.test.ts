@@ -0,0 +1,274 @@
+/**
+ * Reminder Scheduler Tests
+ *
+ * Tests queueing and dispatching appointment reminders with the Supabase query
+ * builder mocked and messages delivered through the fake transport
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { AppointmentStatus, type BusinessSettings } from '@appointments-demo/types';
+import { FakeReminderTransport } from '@/test-utils/fake-reminder-transport';
+import {
+  REMINDER_MAX_ATTEMPTS,
+  dispatchDueReminders,
+  scheduleAppointmentReminders,
+  type DueReminderJobRecord
+} from './reminder-scheduler';
+import type { AppointmentRecord } from './database.types';
+
+const BUSINESS_ID = '12345678-1234-5678-9abc-123456789012';
+
+const settings: BusinessSettings = {
+  timezone: 'America/Bogota',
+  currency: 'COP',
+  businessHours: [],
+  reminders: {
+    enabled: true,
+    offsetsMinutes: [1440, 120],
+    channels: ['whatsapp'],
+    quietHours: { start: '21:00', end: '07:00' },
+  },
+};
+
+// Monday 2025-03-10 09:00 in Bogotá (UTC-5)
+const appointmentRecord = (overrides: Partial<AppointmentRecord> = {}): AppointmentRecord => ({
+  id: 'appt-1',
+  business_id: BUSINESS_ID,
+  customer_name: 'Laura Gómez',
+  customer_phone: '+57 301 234 5678',
+  customer_email: null,
+  client_id: null,
+  service_id: null,
+  service_type: 'Corte',
+  specialist_id: null,
+  scheduled_at: '2025-03-10T14:00:00.000Z',
+  duration_minutes: 45,
+  status: AppointmentStatus.CONFIRMED,
+  notes: null,
+  price_amount: null,
+  price_currency: null,
+  base_currency: null,
+  exchange_rate: null,
+  status_reason: null,
+  created_at: '2025-03-01T10:00:00.000Z',
+  updated_at: '2025-03-01T10:00:00.000Z',
+  ...overrides,
+});
+
+const dueJob = (overrides: Partial<DueReminderJobRecord> = {}): DueReminderJobRecord => ({
+  id: 'job-1',
+  business_id: BUSINESS_ID,
+  appointment_id: 'appt-1',
+  channel: 'whatsapp',
+  offset_minutes: 1440,
+  send_at: '2025-03-09T14:00:00.000Z',
+  status: 'pending',
+  attempts: 0,
+  last_error: null,
+  sent_at: null,
+  created_at: '2025-03-01T10:00:00.000Z',
+  updated_at: '2025-03-01T10:00:00.000Z',
+  appointments: appointmentRecord(),
+  businesses: { name: 'Salón Bella', whatsapp_number: '+57 300 111 2233', settings },
+  ...overrides,
+});
+
+// Chainable query builder that records calls and resolves to the given result
+function createQueryBuilder(result: { data?: unknown; error: { message: string } | null }) {
+  const builder: Record<string, jest.Mock> & { then?: unknown } = {
+    select: jest.fn(() => builder),
+    update: jest.fn(() => builder),
+    delete: jest.fn(() => builder),
+    upsert: jest.fn(() => builder),
+    eq: jest.fn(() => builder),
+    neq: jest.fn(() => builder),
+    lte: jest.fn(() => builder),
+    in: jest.fn(() => builder),
+    order: jest.fn(() => builder),
+    limit: jest.fn(() => builder),
+    single: jest.fn(() => builder),
+  };
+  builder.then = (resolve: (value: unknown) => unknown) => Promise.resolve(result).then(resolve);
+  return builder;
+}
+
+const clientWith = (...builders: ReturnType<typeof createQueryBuilder>[]) => {
+  const from = jest.fn();
+  builders.forEach(builder => from.mockReturnValueOnce(builder));
+  return { from, client: { from } as unknown as SupabaseClient };
+};
+
+describe('Reminder Scheduler', () => {
+  describe('scheduleAppointmentReminders', () => {
+    const now = new Date('2025-03-01T12:00:00.000Z');
+
+    it('replaces the unsent jobs with the planned reminders', async () => {
+      const deleteJobs = createQueryBuilder({ error: null });
+      const upsertJobs = createQueryBuilder({ data: [{ id: 'job-1' }, { id: 'job-2' }], error: null });
+      const { client } = clientWith(deleteJobs, upsertJobs);
+
+      const result = await scheduleAppointmentReminders(
+        { id: 'appt-1', scheduledAt: new Date('2025-03-10T14:00:00.000Z'), status: AppointmentStatus.PENDING },
+        { businessId: BUSINESS_ID, client, settings, now }
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data).toHaveLength(2);
+      expect(deleteJobs.eq).toHaveBeenCalledWith('appointment_id', 'appt-1');
+      expect(deleteJobs.neq).toHaveBeenCalledWith('status', 'sent');
+      expect(upsertJobs.upsert).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({ channel: 'whatsapp', offset_minutes: 1440, send_at: '2025-03-09T14:00:00.000Z', status: 'pending' }),
+          expect.objectContaining({ channel: 'whatsapp', offset_minutes: 120, send_at: '2025-03-10T12:00:00.000Z', attempts: 0 }),
+        ],
+        { onConflict: 'appointment_id,channel,offset_minutes' }
+      );
+    });
+
+    it('loads the reminder settings of the business when not given', async () => {
+      const businessSelect = createQueryBuilder({ data: { settings }, error: null });
+      const { from, client } = clientWith(
+        businessSelect,
+        createQueryBuilder({ error: null }),
+        createQueryBuilder({ data: [], error: null })
+      );
+
+      await scheduleAppointmentReminders(
+        { id: 'appt-1', scheduledAt: new Date('2025-03-10T14:00:00.000Z'), status: AppointmentStatus.PENDING },
+        { businessId: BUSINESS_ID, client, now }
+      );
+
+      expect(from).toHaveBeenNthCalledWith(1, 'businesses');
+      expect(businessSelect.eq).toHaveBeenCalledWith('id', BUSINESS_ID);
+      expect(from).toHaveBeenCalledTimes(3);
+    });
+
+    it('only clears the pending jobs of a cancelled appointment', async () => {
+      const { from, client } = clientWith(createQueryBuilder({ error: null }));
+
+      const result = await scheduleAppointmentReminders(
+        { id: 'appt-1', scheduledAt: new Date('2025-03-10T14:00:00.000Z'), status: AppointmentStatus.CANCELLED },
+        { businessId: BUSINESS_ID, client, settings, now }
+      );
+
+      expect(result).toEqual({ success: true, data: [], businessId: BUSINESS_ID });
+      expect(from).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('dispatchDueReminders', () => {
+    // Sunday 2025-03-09 09:00 in Bogotá
+    const now = new Date('2025-03-09T14:00:00.000Z');
+
+    it('sends due reminders through the channel transport and marks them sent', async () => {
+      const dueSelect = createQueryBuilder({ data: [dueJob()], error: null });
+      const claim = createQueryBuilder({ data: [{ id: 'job-1' }], error: null });
+      const markSent = createQueryBuilder({ error: null });
+      const { client } = clientWith(dueSelect, claim, markSent);
+      const whatsapp = new FakeReminderTransport();
+
+      const result = await dispatchDueReminders({ client, transports: { whatsapp }, now });
+
+      expect(result.data).toEqual({ sent: 1, skipped: 0, deferred: 0, retrying: 0, failed: 0 });
+      expect(dueSelect.eq).toHaveBeenCalledWith('status', 'pending');
+      expect(dueSelect.lte).toHaveBeenCalledWith('send_at', now.toISOString());
+      expect(dueSelect.in).toHaveBeenCalledWith('channel', ['whatsapp']);
+      expect(claim.update).toHaveBeenCalledWith({ attempts: 1 });
+      expect(whatsapp.sent).toEqual([
+        expect.objectContaining({
+          jobId: 'job-1',
+          channel: 'whatsapp',
+          from: '+57 300 111 2233',
+          to: '+57 301 234 5678',
+          body: expect.stringContaining('Hola Laura, te recordamos tu cita de Corte en Salón Bella'),
+        }),
+      ]);
+      expect(markSent.update).toHaveBeenCalledWith({ status: 'sent', sent_at: now.toISOString(), last_error: null });
+    });
+
+    it('skips reminders of cancelled appointments without sending them', async () => {
+      const markSkipped = createQueryBuilder({ error: null });
+      const { from, client } = clientWith(
+        createQueryBuilder({
+          data: [dueJob({ appointments: appointmentRecord({ status: AppointmentStatus.CANCELLED }) })],
+          error: null,
+        }),
+        markSkipped
+      );
+      const whatsapp = new FakeReminderTransport();
+
+      const result = await dispatchDueReminders({ client, transports: { whatsapp }, now });
+
+      expect(result.data?.skipped).toBe(1);
+      expect(whatsapp.sent).toEqual([]);
+      expect(markSkipped.update).toHaveBeenCalledWith({ status: 'skipped', last_error: 'Appointment was cancelled' });
+      expect(from).toHaveBeenCalledTimes(2);
+    });
+
+    it('defers reminders due in the quiet hours until they end', async () => {
+      const defer = createQueryBuilder({ error: null });
+      const { client } = clientWith(createQueryBuilder({ data: [dueJob()], error: null }), defer);
+      const whatsapp = new FakeReminderTransport();
+
+      // Sunday 22:30 in Bogotá, quiet until Monday 07:00
+      const result = await dispatchDueReminders({
+        client,
+        transports: { whatsapp },
+        now: new Date('2025-03-10T03:30:00.000Z'),
+      });
+
+      expect(result.data?.deferred).toBe(1);
+      expect(whatsapp.sent).toEqual([]);
+      expect(defer.update).toHaveBeenCalledWith({ send_at: '2025-03-10T12:00:00.000Z' });
+    });
+
+    it('retries failed deliveries and gives up after the last attempt', async () => {
+      const retry = createQueryBuilder({ error: null });
+      const giveUp = createQueryBuilder({ error: null });
+      const { client } = clientWith(
+        createQueryBuilder({
+          data: [dueJob(), dueJob({ id: 'job-2', attempts: REMINDER_MAX_ATTEMPTS - 1 })],
+          error: null,
+        }),
+        createQueryBuilder({ data: [{ id: 'job-1' }], error: null }),
+        retry,
+        createQueryBuilder({ data: [{ id: 'job-2' }], error: null }),
+        giveUp
+      );
+      const whatsapp = new FakeReminderTransport();
+      whatsapp.failWith('Provider unavailable');
+
+      const result = await dispatchDueReminders({ client, transports: { whatsapp }, now });
+
+      expect(result.data).toEqual({ sent: 0, skipped: 0, deferred: 0, retrying: 1, failed: 1 });
+      expect(retry.update).toHaveBeenCalledWith({
+        send_at: '2025-03-09T14:05:00.000Z',
+        last_error: 'Provider unavailable',
+      });
+      expect(giveUp.update).toHaveBeenCalledWith({ status: 'failed', last_error: 'Provider unavailable' });
+    });
+
+    it('does not send a job another dispatcher claimed first', async () => {
+      const { from, client } = clientWith(
+        createQueryBuilder({ data: [dueJob()], error: null }),
+        createQueryBuilder({ data: [], error: null })
+      );
+      const whatsapp = new FakeReminderTransport();
+
+      const result = await dispatchDueReminders({ client, transports: { whatsapp }, now });
+
+      expect(result.data?.sent).toBe(0);
+      expect(whatsapp.sent).toEqual([]);
+      expect(from).toHaveBeenCalledTimes(2);
+    });
+
+    it('leaves the queue alone when no channel has a transport', async () => {
+      const { from, client } = clientWith();
+
+      const result = await dispatchDueReminders({ client, transports: {}, now });
+
+      expect(result.success).toBe(true);
+      expect(from).not.toHaveBeenCalled();
+    });
+  });
+});
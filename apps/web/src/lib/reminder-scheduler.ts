@@ -0,0 +1,302 @@
+/**
+ * Reminder Scheduler
+ * Queues appointment reminders in the reminder_jobs table and dispatches the due ones
+ * through the channel transports
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  AppointmentStatus,
+  type Appointment,
+  type BusinessSettings,
+  type ReminderChannel
+} from '@appointments-demo/types';
+import { getQuietHoursWindow, isRemindableStatus, planReminders } from '@appointments-demo/utils';
+import {
+  BusinessContextDatabase,
+  type DatabaseOperationResult,
+  type QueryOptions
+} from './database-operations';
+import {
+  toDomainAppointment,
+  type AppointmentRecord,
+  type BusinessRecord,
+  type ReminderJobRecord
+} from './database.types';
+import { buildReminderMessage, type ReminderMessage, type ReminderTransports } from './reminder-channels';
+
+// A job that keeps failing is given up after this many delivery attempts
+export const REMINDER_MAX_ATTEMPTS = 3;
+export const DEFAULT_DISPATCH_LIMIT = 50;
+
+// Wait before retrying a failed delivery, multiplied by the attempts made
+const RETRY_DELAY_MS = 5 * 60 * 1000;
+
+// Type definitions
+interface ReminderQueryOptions {
+  businessId: string;
+  client: SupabaseClient;
+  settings?: BusinessSettings; // Loaded from the business when omitted
+  now?: Date;
+}
+
+export interface ReminderDispatchOptions {
+  client: SupabaseClient; // Service-role client: the queue of every business is dispatched
+  transports: ReminderTransports;
+  now?: Date;
+  limit?: number;
+}
+
+export interface ReminderDispatchSummary {
+  sent: number;
+  skipped: number; // Cancelled appointments, disabled channels, no recipient
+  deferred: number; // Due inside the quiet hours, moved to their end
+  retrying: number; // Failed, to be retried
+  failed: number; // Failed for good after REMINDER_MAX_ATTEMPTS
+}
+
+// Due job with its appointment and business, embedded through the foreign keys
+export type DueReminderJobRecord = ReminderJobRecord & {
+  appointments: AppointmentRecord | null;
+  businesses: Pick<BusinessRecord, 'name' | 'whatsapp_number' | 'settings'> | null;
+};
+
+type DueJobReview =
+  | { outcome: 'skip'; reason: string }
+  | { outcome: 'defer'; sendAt: Date }
+  | { outcome: 'send'; message: ReminderMessage };
+
+/**
+ * Queue the reminders of an appointment after it is booked, rescheduled or changes status.
+ * Unsent jobs are replaced; a sent reminder is only queued again when the new schedule
+ * puts it back in the future, and a cancelled appointment is left with no pending jobs.
+ */
+export async function scheduleAppointmentReminders(
+  appointment: Pick<Appointment, 'id' | 'scheduledAt' | 'status'>,
+  options: ReminderQueryOptions
+): Promise<DatabaseOperationResult<ReminderJobRecord[]>> {
+  const { businessId, client, now = new Date() } = options;
+
+  let settings = options.settings;
+  if (!settings) {
+    const { data: business, error } = await client
+      .from('businesses')
+      .select('settings')
+      .eq('id', businessId)
+      .single();
+
+    if (error || !business) {
+      return { success: false, error: `Database select error: ${error?.message ?? 'Business not found'}`, businessId };
+    }
+    settings = business.settings as BusinessSettings;
+  }
+
+  const { error: deleteError } = await client
+    .from('reminder_jobs')
+    .delete()
+    .eq('business_id', businessId)
+    .eq('appointment_id', appointment.id)
+    .neq('status', 'sent');
+
+  if (deleteError) {
+    return { success: false, error: `Database delete error: ${deleteError.message}`, businessId };
+  }
+
+  const planned = settings.reminders
+    ? planReminders(appointment, settings.reminders, settings.timezone, now)
+    : [];
+  if (planned.length === 0) {
+    return { success: true, data: [], businessId };
+  }
+
+  const { data, error } = await client
+    .from('reminder_jobs')
+    .upsert(
+      planned.map(reminder => ({
+        business_id: businessId,
+        appointment_id: appointment.id,
+        channel: reminder.channel,
+        offset_minutes: reminder.offsetMinutes,
+        send_at: reminder.sendAt.toISOString(),
+        status: 'pending',
+        attempts: 0,
+        last_error: null,
+        sent_at: null
+      })),
+      { onConflict: 'appointment_id,channel,offset_minutes' }
+    )
+    .select();
+
+  if (error) {
+    return { success: false, error: `Database insert error: ${error.message}`, businessId };
+  }
+
+  return { success: true, data: (data || []) as ReminderJobRecord[], businessId };
+}
+
+/**
+ * Get the reminder jobs of an appointment, earliest first
+ */
+export async function getAppointmentReminders(
+  appointmentId: string,
+  options: QueryOptions = {}
+): Promise<DatabaseOperationResult<ReminderJobRecord[]>> {
+  const result = await BusinessContextDatabase.select<ReminderJobRecord>(
+    'reminder_jobs',
+    '*',
+    { appointment_id: appointmentId },
+    options
+  );
+
+  if (!result.success || !result.data) {
+    return result;
+  }
+
+  return {
+    ...result,
+    data: [...result.data].sort(
+      (a, b) => new Date(a.send_at).getTime() - new Date(b.send_at).getTime()
+    )
+  };
+}
+
+// Decides what to do with a due job against the current appointment and settings
+function reviewDueJob(job: DueReminderJobRecord, now: Date): DueJobReview {
+  const record = job.appointments;
+  const business = job.businesses;
+  if (!record || !business) {
+    return { outcome: 'skip', reason: 'Appointment not found' };
+  }
+
+  const appointment = toDomainAppointment(record);
+  if (appointment.status === AppointmentStatus.CANCELLED) {
+    return { outcome: 'skip', reason: 'Appointment was cancelled' };
+  }
+  if (!isRemindableStatus(appointment.status)) {
+    return { outcome: 'skip', reason: `Appointment is ${appointment.status}` };
+  }
+  if (appointment.scheduledAt <= now) {
+    return { outcome: 'skip', reason: 'Appointment has already started' };
+  }
+
+  // Settings may have changed since the job was queued
+  const { settings } = business;
+  const reminders = settings.reminders;
+  if (!reminders?.enabled || !reminders.channels.includes(job.channel)) {
+    return { outcome: 'skip', reason: 'Reminders are disabled for this channel' };
+  }
+
+  const quietWindow = reminders.quietHours && getQuietHoursWindow(now, reminders.quietHours, settings.timezone);
+  if (quietWindow) {
+    return quietWindow.end < appointment.scheduledAt
+      ? { outcome: 'defer', sendAt: quietWindow.end }
+      : { outcome: 'skip', reason: 'Quiet hours last until the appointment' };
+  }
+
+  const built = buildReminderMessage(
+    job,
+    appointment,
+    { name: business.name, whatsappNumber: business.whatsapp_number ?? undefined, settings }
+  );
+  return built.success ? { outcome: 'send', message: built.message } : { outcome: 'skip', reason: built.error };
+}
+
+// Records the outcome of a job; a failed write is logged and the job is picked up again
+async function updateJob(
+  client: SupabaseClient,
+  jobId: string,
+  changes: Partial<ReminderJobRecord>
+): Promise<void> {
+  const { error } = await client.from('reminder_jobs').update(changes).eq('id', jobId);
+  if (error) {
+    console.error('Error updating reminder job:', error.message);
+  }
+}
+
+// Counts the attempt before sending; the attempts check makes a concurrent dispatcher
+// that read the same job lose the claim instead of sending it twice
+async function claimJob(client: SupabaseClient, job: ReminderJobRecord): Promise<boolean> {
+  const { data, error } = await client
+    .from('reminder_jobs')
+    .update({ attempts: job.attempts + 1 })
+    .eq('id', job.id)
+    .eq('status', 'pending')
+    .eq('attempts', job.attempts)
+    .select('id');
+
+  if (error) {
+    console.error('Error claiming reminder job:', error.message);
+    return false;
+  }
+  return (data || []).length > 0;
+}
+
+/**
+ * Send the pending reminders that are due, oldest first.
+ * Only channels with a transport are dispatched. Cancelled appointments are skipped,
+ * jobs due inside the quiet hours wait until they end and failed deliveries are retried
+ * up to REMINDER_MAX_ATTEMPTS times.
+ */
+export async function dispatchDueReminders(
+  options: ReminderDispatchOptions
+): Promise<DatabaseOperationResult<ReminderDispatchSummary>> {
+  const { client, transports, now = new Date(), limit = DEFAULT_DISPATCH_LIMIT } = options;
+  const summary: ReminderDispatchSummary = { sent: 0, skipped: 0, deferred: 0, retrying: 0, failed: 0 };
+
+  const channels = (Object.keys(transports) as ReminderChannel[]).filter(channel => transports[channel]);
+  if (channels.length === 0) {
+    return { success: true, data: summary };
+  }
+
+  const { data, error } = await client
+    .from('reminder_jobs')
+    .select('*, appointments(*), businesses(name, whatsapp_number, settings)')
+    .eq('status', 'pending')
+    .lte('send_at', now.toISOString())
+    .in('channel', channels)
+    .order('send_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    return { success: false, error: `Database select error: ${error.message}` };
+  }
+
+  for (const job of (data || []) as DueReminderJobRecord[]) {
+    const review = reviewDueJob(job, now);
+
+    if (review.outcome === 'skip') {
+      await updateJob(client, job.id, { status: 'skipped', last_error: review.reason });
+      summary.skipped++;
+      continue;
+    }
+
+    if (review.outcome === 'defer') {
+      await updateJob(client, job.id, { send_at: review.sendAt.toISOString() });
+      summary.deferred++;
+      continue;
+    }
+
+    if (!(await claimJob(client, job))) {
+      continue;
+    }
+
+    const attempts = job.attempts + 1;
+    const delivery = await transports[job.channel]!.send(review.message);
+
+    if (delivery.success) {
+      await updateJob(client, job.id, { status: 'sent', sent_at: now.toISOString(), last_error: null });
+      summary.sent++;
+    } else if (attempts >= REMINDER_MAX_ATTEMPTS) {
+      await updateJob(client, job.id, { status: 'failed', last_error: delivery.error ?? 'Delivery failed' });
+      summary.failed++;
+    } else {
+      await updateJob(client, job.id, {
+        send_at: new Date(now.getTime() + RETRY_DELAY_MS * attempts).toISOString(),
+        last_error: delivery.error ?? 'Delivery failed'
+      });
+      summary.retrying++;
+    }
+  }
+
+  return { success: true, data: summary };
+}
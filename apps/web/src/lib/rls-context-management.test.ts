@@ -138,7 +138,7 @@ describe('RLS Context Management', () => {
       const result = await setBusinessContext(testBusinessId)
 
       expect(result.success).toBe(false)
-      expect(result.error).toBe('User does not own this business')
+      expect(result.error).toBe('User does not have access to this business')
     })
   })
 
@@ -213,7 +213,7 @@ describe('RLS Context Management', () => {
       const result = await validateBusinessContext(testBusinessId)
 
       expect(result.isValid).toBe(false)
-      expect(result.error).toBe('Business not found or user does not own this business')
+      expect(result.error).toBe('User does not have access to this business')
     })
 
     test('should handle database validation errors', async () => {
@@ -4,6 +4,8 @@
  */
 
 import { createClient } from '@supabase/supabase-js'
+import { clearBusinessSelection, storeBusinessSelection } from './business-selection'
+import type { BusinessInfo } from './business-session-manager'
 
 // Initialize Supabase client
 const supabase = createClient(
@@ -11,13 +13,29 @@ const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 )
 
+// Business columns listed by the switcher, with the user's membership (inner join: only
+// businesses that have one)
+const BUSINESS_INFO_COLUMNS = 'id, name, owner_id, business_members!inner(role)'
+
+type BusinessMembershipRow = Omit<BusinessInfo, 'role'> & {
+  business_members: Array<Pick<BusinessInfo, 'role'>>
+}
+
 // UUID validation regex
 const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
 
+// SQLSTATE raised by set_current_business_id for businesses the user cannot access
+const INSUFFICIENT_PRIVILEGE = '42501'
+
+export const BUSINESS_ACCESS_FORBIDDEN_ERROR = 'User does not have access to this business'
+
 // Type definitions
+export type BusinessAccessErrorCode = 'UNAUTHENTICATED' | 'FORBIDDEN' | 'DATABASE_ERROR'
+
 export interface BusinessContextResult {
   success: boolean
   error?: string
+  code?: BusinessAccessErrorCode
   businessId?: string
 }
 
@@ -25,6 +43,7 @@ export interface BusinessValidationResult {
   isValid: boolean
   businessData?: Record<string, unknown>
   error?: string
+  code?: BusinessAccessErrorCode
 }
 
 export interface BusinessIsolationResult {
@@ -60,34 +79,45 @@ export async function setBusinessContext(businessId: string): Promise<BusinessCo
     if (sessionError || !session?.user) {
       return {
         success: false,
-        error: 'No authenticated user session'
+        error: 'No authenticated user session',
+        code: 'UNAUTHENTICATED'
       }
     }
 
-    // Validate user owns this business before setting context
+    // Validate user owns or belongs to this business before setting context
     const validation = await validateBusinessContext(businessId)
     if (!validation.isValid) {
       return {
         success: false,
-        error: validation.error || 'User does not own this business'
+        error: validation.error || BUSINESS_ACCESS_FORBIDDEN_ERROR,
+        code: validation.code
       }
     }
 
-    // Set business context in PostgreSQL session
+    // Set business context in PostgreSQL session; the database repeats the access check
     const { error } = await supabase.rpc('set_business_context', {
       business_id: businessId
     })
 
     if (error) {
+      if (error.code === INSUFFICIENT_PRIVILEGE) {
+        return {
+          success: false,
+          error: BUSINESS_ACCESS_FORBIDDEN_ERROR,
+          code: 'FORBIDDEN'
+        }
+      }
       return {
         success: false,
-        error: 'Failed to set business context in database'
+        error: 'Failed to set business context in database',
+        code: 'DATABASE_ERROR'
       }
     }
 
-    // Store in localStorage for client-side access
+    // Store in localStorage for client-side access, and in a cookie so API routes follow the switch
     if (typeof window !== 'undefined') {
       localStorage.setItem('current_business_id', businessId)
+      storeBusinessSelection(businessId)
     }
 
     return {
@@ -127,8 +157,9 @@ export function getBusinessContext(): string | null {
 }
 
 /**
- * Validate that the current user owns the specified business
- * Used before setting business context to prevent unauthorized access
+ * Validate that the current user owns or is an active member of the specified business
+ * Used before setting business context to prevent unauthorized access; a business
+ * the user cannot reach fails with code FORBIDDEN
  */
 export async function validateBusinessContext(businessId: string): Promise<BusinessValidationResult> {
   try {
@@ -137,14 +168,15 @@ export async function validateBusinessContext(businessId: string): Promise<Busin
     if (sessionError || !session?.user) {
       return {
         isValid: false,
-        error: 'No authenticated user session'
+        error: 'No authenticated user session',
+        code: 'UNAUTHENTICATED'
       }
     }
 
-    // Query business table to verify ownership
+    // Query business table to verify ownership; RLS hides businesses of other tenants
     const { data: businessData, error } = await supabase
       .from('businesses')
-      .select('id, owner_id, name, status')
+      .select('id, owner_id, name')
       .eq('id', businessId)
       .single()
 
@@ -152,20 +184,37 @@ export async function validateBusinessContext(businessId: string): Promise<Busin
       if (error.code === 'PGRST116') {
         return {
           isValid: false,
-          error: 'Business not found or user does not own this business'
+          error: BUSINESS_ACCESS_FORBIDDEN_ERROR,
+          code: 'FORBIDDEN'
         }
       }
       return {
         isValid: false,
-        error: `Database validation failed: ${error.message}`
+        error: `Database validation failed: ${error.message}`,
+        code: 'DATABASE_ERROR'
       }
     }
 
-    // Verify ownership
+    // Team members are not the owner; the database decides whether they belong to it
     if (businessData.owner_id !== session.user.id) {
-      return {
-        isValid: false,
-        error: 'User does not own this business'
+      const { data: hasAccess, error: accessError } = await supabase.rpc('validate_business_access', {
+        business_uuid: businessId
+      })
+
+      if (accessError) {
+        return {
+          isValid: false,
+          error: `Database validation failed: ${accessError.message}`,
+          code: 'DATABASE_ERROR'
+        }
+      }
+
+      if (hasAccess !== true) {
+        return {
+          isValid: false,
+          error: BUSINESS_ACCESS_FORBIDDEN_ERROR,
+          code: 'FORBIDDEN'
+        }
       }
     }
 
@@ -196,9 +245,10 @@ export async function clearBusinessContext(): Promise<BusinessContextResult> {
     //  }
     //}
 
-    // Clear localStorage
+    // Clear localStorage and the API selection cookie
     if (typeof window !== 'undefined') {
       localStorage.removeItem('current_business_id')
+      clearBusinessSelection()
     }
 
     return {
@@ -344,40 +394,52 @@ export function isBusinessContextSet(): boolean {
 }
 
 /**
- * Discover user's business from database
- * Used when localStorage is empty but user might have a business
+ * Discover every business (location) the user owns or is an active member of, oldest first
  */
-export async function discoverUserBusiness(): Promise<string | null> {
+export async function discoverUserBusinesses(): Promise<BusinessInfo[]> {
   try {
     // Verify user is authenticated
     const { data: { session }, error: sessionError } = await supabase.auth.getSession()
     if (sessionError || !session?.user) {
-      return null
+      return []
     }
 
-    // Query user's businesses using RLS policies
+    // Owners have an owner membership (migration 018), so the membership join covers every
+    // business; RLS already limits the rows, the user filter is an extra safety check
     const { data: businesses, error } = await supabase
       .from('businesses')
-      .select('id, name, owner_id')
-      .limit(1) // For now, just get the first business
-    
-    if (error || !businesses || businesses.length === 0) {
-      return null
-    }
+      .select(BUSINESS_INFO_COLUMNS)
+      .eq('business_members.user_id', session.user.id)
+      .eq('business_members.status', 'active')
+      .order('created_at', { ascending: true })
 
-    const business = businesses[0]
-    
-    // Verify ownership (extra safety check)
-    if (business.owner_id !== session.user.id) {
-      return null
+    if (error || !businesses) {
+      return []
     }
 
-    console.log('🔍 Discovered user business:', business.id, business.name)
-    return business.id
+    return (businesses as unknown as BusinessMembershipRow[]).map(({ business_members, ...business }) => ({
+      ...business,
+      role: business_members[0].role
+    }))
   } catch (error) {
-    console.warn('Error discovering user business:', error)
+    console.warn('Error discovering user businesses:', error)
+    return []
+  }
+}
+
+/**
+ * Discover user's business from database
+ * Used when localStorage is empty but user might have a business;
+ * owners with several locations start on the oldest one
+ */
+export async function discoverUserBusiness(): Promise<string | null> {
+  const businesses = await discoverUserBusinesses()
+  if (businesses.length === 0) {
     return null
   }
+
+  console.log('🔍 Discovered user business:', businesses[0].id, businesses[0].name)
+  return businesses[0].id
 }
 
 /**
@@ -0,0 +1,150 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Server Business Context Tests
+ *
+ * API routes operate on the location chosen with the business switcher,
+ * and never on a business the user cannot see through RLS
+ */
+
+import { cookies, headers } from 'next/headers';
+import { createServerClient } from '@supabase/ssr';
+import { getRequestBusinessContext } from './server-business-context';
+
+jest.mock('next/headers', () => ({
+  cookies: jest.fn(),
+  headers: jest.fn(),
+}));
+
+jest.mock('@supabase/ssr', () => ({
+  createServerClient: jest.fn(),
+}));
+
+jest.mock('./env', () => ({
+  env: { supabase: { url: 'http://localhost:54321', anonKey: 'anon-key' } },
+}));
+
+const OWNER_ID = '987fcdeb-51a2-43d1-9f12-345678901234';
+const CENTRO_ID = '123e4567-e89b-12d3-a456-426614174000';
+const NORTE_ID = '456e7890-e89b-12d3-a456-426614174111';
+const FOREIGN_ID = '789e0123-e89b-12d3-a456-426614174222';
+
+// Rows RLS lets the user see, oldest first
+let visibleBusinesses = [{ id: CENTRO_ID, owner_id: OWNER_ID }, { id: NORTE_ID, owner_id: OWNER_ID }];
+let memberships: Array<{ role: string }> = [];
+
+const businessMembersTable = () => ({
+  select: () => ({
+    eq: () => ({
+      eq: () => ({
+        eq: () => ({
+          limit: () => Promise.resolve({ data: memberships, error: null }),
+        }),
+      }),
+    }),
+  }),
+});
+
+const mockSupabase = {
+  auth: { getUser: jest.fn() },
+  from: jest.fn((table: string) => table === 'business_members' ? businessMembersTable() : ({
+    select: () => ({
+      eq: (_column: string, id: string) => ({
+        limit: () => Promise.resolve({ data: visibleBusinesses.filter(b => b.id === id), error: null }),
+      }),
+      order: () => ({
+        limit: () => Promise.resolve({ data: visibleBusinesses.slice(0, 1), error: null }),
+      }),
+    }),
+  })),
+};
+
+const withMiddlewareBusiness = (businessId?: string) => {
+  (headers as jest.Mock).mockResolvedValue(new Headers(businessId ? { 'x-business-id': businessId } : {}));
+};
+
+const withSelection = (businessId?: string) => {
+  (cookies as jest.Mock).mockResolvedValue({
+    getAll: () => [],
+    set: jest.fn(),
+    get: (name: string) => (name === 'current_business_id' && businessId ? { name, value: businessId } : undefined),
+  });
+};
+
+describe('getRequestBusinessContext', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    visibleBusinesses = [{ id: CENTRO_ID, owner_id: OWNER_ID }, { id: NORTE_ID, owner_id: OWNER_ID }];
+    memberships = [];
+    (createServerClient as jest.Mock).mockReturnValue(mockSupabase);
+    withMiddlewareBusiness();
+    mockSupabase.auth.getUser.mockResolvedValue({ data: { user: { id: OWNER_ID } }, error: null });
+  });
+
+  it('uses the oldest business when no location is selected', async () => {
+    withSelection();
+
+    const result = await getRequestBusinessContext();
+
+    expect(result).toMatchObject({ success: true, context: { userId: OWNER_ID, businessId: CENTRO_ID, role: 'owner' } });
+  });
+
+  it('resolves the membership role in a business owned by someone else', async () => {
+    withSelection();
+    visibleBusinesses = [{ id: FOREIGN_ID, owner_id: 'someone-else' }];
+    memberships = [{ role: 'receptionist' }];
+
+    const result = await getRequestBusinessContext();
+
+    expect(result).toMatchObject({ success: true, context: { businessId: FOREIGN_ID, role: 'receptionist' } });
+    expect(mockSupabase.from).toHaveBeenCalledWith('business_members');
+  });
+
+  it('follows the location the owner switched to', async () => {
+    withSelection(CENTRO_ID);
+    const before = await getRequestBusinessContext();
+
+    withSelection(NORTE_ID);
+    const after = await getRequestBusinessContext();
+
+    expect(before).toMatchObject({ success: true, context: { businessId: CENTRO_ID } });
+    expect(after).toMatchObject({ success: true, context: { businessId: NORTE_ID } });
+  });
+
+  it('prefers the business the middleware attached to the request', async () => {
+    withSelection(CENTRO_ID);
+    withMiddlewareBusiness(NORTE_ID);
+
+    const result = await getRequestBusinessContext();
+
+    expect(result).toMatchObject({ success: true, context: { businessId: NORTE_ID } });
+  });
+
+  it('ignores a selection naming a business the user cannot see', async () => {
+    withSelection(FOREIGN_ID);
+
+    const result = await getRequestBusinessContext();
+
+    expect(result).toMatchObject({ success: true, context: { businessId: CENTRO_ID } });
+  });
+
+  it('ignores malformed selections', async () => {
+    withSelection('not-a-business');
+
+    const result = await getRequestBusinessContext();
+
+    expect(result).toMatchObject({ success: true, context: { businessId: CENTRO_ID } });
+    expect(mockSupabase.from).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns 401 without an authenticated user', async () => {
+    withSelection(NORTE_ID);
+    mockSupabase.auth.getUser.mockResolvedValue({ data: { user: null }, error: null });
+
+    const result = await getRequestBusinessContext();
+
+    expect(result).toEqual({ success: false, status: 401, error: 'Unauthorized' });
+  });
+});
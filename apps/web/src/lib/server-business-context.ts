@@ -0,0 +1,184 @@
+/**
+ * Server Business Context
+ * Resolves the authenticated user and their business for API route handlers
+ */
+
+import { createServerClient } from '@supabase/ssr';
+import { cookies, headers } from 'next/headers';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { env } from './env';
+import { BUSINESS_SELECTION_COOKIE, parseBusinessSelection } from './business-selection';
+import { SESSION_BUSINESS_HEADER } from './session-verification';
+import type { Database } from './database.types';
+import { BusinessRole, type BusinessSettings } from '@appointments-demo/types';
+import { isBusinessRole } from './business-permissions';
+
+// Type definitions
+export interface RequestBusinessContext {
+  supabase: SupabaseClient<Database>;
+  userId: string;
+  businessId: string;
+  role: BusinessRole;
+}
+
+export type RequestBusinessContextResult =
+  | { success: true; context: RequestBusinessContext }
+  | { success: false; status: 401 | 404 | 500; error: string };
+
+type ResolvedBusiness = { id: string; owner_id: string };
+
+/**
+ * Create server client for authenticated requests (reads user session from cookies)
+ */
+export async function createServerClientFromRequest(): Promise<SupabaseClient<Database>> {
+  const cookieStore = await cookies();
+
+  return createServerClient<Database>(
+    env.supabase.url,
+    env.supabase.anonKey,
+    {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll();
+        },
+        setAll(cookiesToSet: Array<{ name: string; value: string; options?: Record<string, unknown> }>) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) =>
+              cookieStore.set(name, value, options)
+            );
+          } catch {
+            // The `setAll` method was called from a Server Component.
+            // This can be ignored if you have middleware refreshing
+            // user sessions.
+          }
+        },
+      },
+    }
+  );
+}
+
+/**
+ * Role of the user in a resolved business: owner via owner_id, otherwise their
+ * active membership (RLS already limited the business to one they belong to)
+ */
+async function resolveBusinessRole(
+  supabase: SupabaseClient<Database>,
+  business: ResolvedBusiness,
+  userId: string
+): Promise<BusinessRole | null> {
+  if (business.owner_id === userId) {
+    return BusinessRole.OWNER;
+  }
+
+  const { data: memberships, error } = await supabase
+    .from('business_members')
+    .select('role')
+    .eq('business_id', business.id)
+    .eq('user_id', userId)
+    .eq('status', 'active')
+    .limit(1);
+
+  if (error) {
+    console.error('Error resolving business role:', error);
+    return null;
+  }
+
+  const role = memberships?.[0]?.role;
+  return isBusinessRole(role) ? role : null;
+}
+
+/**
+ * Resolve the business the authenticated user is operating on: the one the middleware
+ * attached to the request, else the one selected with the business switcher, or the
+ * oldest one when nothing (valid) is selected.
+ * RLS on businesses (owner_id = auth.uid() or an active membership) limits the lookup to
+ * businesses the user belongs to, so a selection naming someone else's business is never honored.
+ */
+export async function getRequestBusinessContext(): Promise<RequestBusinessContextResult> {
+  try {
+    const supabase = await createServerClientFromRequest();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return { success: false, status: 401, error: 'Unauthorized' };
+    }
+
+    const [headerStore, cookieStore] = await Promise.all([headers(), cookies()]);
+    const selectedBusinessId = parseBusinessSelection(headerStore.get(SESSION_BUSINESS_HEADER))
+      ?? parseBusinessSelection(cookieStore.get(BUSINESS_SELECTION_COOKIE)?.value);
+
+    if (selectedBusinessId) {
+      const { data: selected, error: selectedError } = await supabase
+        .from('businesses')
+        .select('id, owner_id')
+        .eq('id', selectedBusinessId)
+        .limit(1);
+
+      if (selectedError) {
+        console.error('Error resolving selected business:', selectedError);
+        return { success: false, status: 500, error: 'Failed to fetch business data' };
+      }
+
+      if (selected && selected.length > 0) {
+        return withRole(supabase, user.id, selected[0]);
+      }
+    }
+
+    const { data: businesses, error: businessError } = await supabase
+      .from('businesses')
+      .select('id, owner_id')
+      .order('created_at', { ascending: true })
+      .limit(1);
+
+    if (businessError) {
+      console.error('Error resolving business context:', businessError);
+      return { success: false, status: 500, error: 'Failed to fetch business data' };
+    }
+
+    if (!businesses || businesses.length === 0) {
+      return { success: false, status: 404, error: 'No business found for user' };
+    }
+
+    return withRole(supabase, user.id, businesses[0]);
+  } catch (error) {
+    console.error('Unexpected error resolving business context:', error);
+    return { success: false, status: 500, error: 'Internal server error' };
+  }
+}
+
+/**
+ * Build the request context for a resolved business, with the user's role in it
+ */
+async function withRole(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  business: ResolvedBusiness
+): Promise<RequestBusinessContextResult> {
+  const role = await resolveBusinessRole(supabase, business, userId);
+  if (!role) {
+    return { success: false, status: 500, error: 'Failed to resolve business role' };
+  }
+
+  return { success: true, context: { supabase, userId, businessId: business.id, role } };
+}
+
+/**
+ * Load the settings (timezone, business hours) of the request's business
+ */
+export async function getRequestBusinessSettings(
+  context: RequestBusinessContext
+): Promise<{ success: true; settings: BusinessSettings } | { success: false; error: string }> {
+  const { data: business, error } = await context.supabase
+    .from('businesses')
+    .select('settings')
+    .eq('id', context.businessId)
+    .single();
+
+  if (error || !business) {
+    console.error('Error fetching business settings:', error);
+    return { success: false, error: 'Failed to fetch business data' };
+  }
+
+  return { success: true, settings: business.settings as BusinessSettings };
+}
@@ -0,0 +1,70 @@
+/**
+ * Service Catalog
+ * Resolves catalog services for booking within the current business
+ */
+
+import {
+  BusinessContextDatabase,
+  type DatabaseOperationResult,
+  type QueryOptions
+} from './database-operations';
+import type { ServiceRecord } from './database.types';
+
+// Longest buffer allowed by the check of migration 010, in minutes
+export const MAX_SERVICE_BUFFER_MINUTES = 240;
+
+// Error messages callers can map to HTTP responses
+export const SERVICE_NOT_FOUND_ERROR = 'Service not found';
+export const SERVICE_INACTIVE_ERROR = 'Service is not active';
+
+/**
+ * Get a service of the current business that can still be booked
+ */
+export async function getBookableService(
+  serviceId: string,
+  options: QueryOptions = {}
+): Promise<DatabaseOperationResult<ServiceRecord>> {
+  const result = await BusinessContextDatabase.select<ServiceRecord>(
+    'services',
+    '*',
+    { id: serviceId },
+    options
+  );
+
+  if (!result.success) {
+    return { success: false, error: result.error, businessId: result.businessId };
+  }
+
+  const service = result.data?.[0];
+  if (!service) {
+    return { success: false, error: SERVICE_NOT_FOUND_ERROR, businessId: result.businessId };
+  }
+
+  if (!service.is_active) {
+    return { success: false, error: SERVICE_INACTIVE_ERROR, businessId: result.businessId };
+  }
+
+  return { success: true, data: service, businessId: result.businessId };
+}
+
+/**
+ * Buffer minutes of every service of the current business, by service id
+ * Used to keep the time after existing appointments free
+ */
+export async function getServiceBuffers(
+  options: QueryOptions = {}
+): Promise<DatabaseOperationResult<Record<string, number>>> {
+  const result = await BusinessContextDatabase.select<Pick<ServiceRecord, 'id' | 'buffer_minutes'>>(
+    'services',
+    'id, buffer_minutes',
+    {},
+    options
+  );
+
+  if (!result.success) {
+    return { success: false, error: result.error, businessId: result.businessId };
+  }
+
+  const buffers = Object.fromEntries((result.data || []).map(service => [service.id, service.buffer_minutes]));
+  return { success: true, data: buffers, businessId: result.businessId };
+}
@@ -0,0 +1,131 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Session Verification Tests
+ *
+ * Only tokens signed with the project's secret or JWKS keys and not yet expired
+ * identify a user; cookie names alone never do
+ */
+
+import { getAccessToken, verifyAccessToken } from './session-verification';
+
+const SECRET = 'super-secret-jwt-token-with-at-least-32-characters';
+const USER_ID = '987fcdeb-51a2-43d1-9f12-345678901234';
+const NOW = new Date('2025-03-10T15:00:00.000Z');
+const IN_ONE_HOUR = Math.floor(NOW.getTime() / 1000) + 3600;
+
+const base64Url = (bytes: Uint8Array) =>
+  Buffer.from(bytes).toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const encodeJson = (value: unknown) => base64Url(new TextEncoder().encode(JSON.stringify(value)));
+
+async function signHs256(payload: Record<string, unknown>, secret = SECRET): Promise<string> {
+  const signingInput = `${encodeJson({ alg: 'HS256', typ: 'JWT' })}.${encodeJson(payload)}`;
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(signingInput));
+  return `${signingInput}.${base64Url(new Uint8Array(signature))}`;
+}
+
+const claims = (overrides: Record<string, unknown> = {}) => ({
+  sub: USER_ID,
+  email: 'duena@salon.co',
+  role: 'authenticated',
+  exp: IN_ONE_HOUR,
+  ...overrides,
+});
+
+describe('verifyAccessToken', () => {
+  it('accepts a token signed with the JWT secret', async () => {
+    const token = await signHs256(claims());
+
+    const session = await verifyAccessToken(token, { secret: SECRET }, NOW);
+
+    expect(session).toEqual({
+      userId: USER_ID,
+      email: 'duena@salon.co',
+      expiresAt: new Date(IN_ONE_HOUR * 1000),
+    });
+  });
+
+  it('rejects a token signed with another secret', async () => {
+    const token = await signHs256(claims(), 'someone-elses-secret-with-enough-characters');
+
+    expect(await verifyAccessToken(token, { secret: SECRET }, NOW)).toBeNull();
+  });
+
+  it('rejects a token whose payload was changed after signing', async () => {
+    const [header, , signature] = (await signHs256(claims())).split('.');
+    const forged = `${header}.${encodeJson(claims({ sub: 'another-user' }))}.${signature}`;
+
+    expect(await verifyAccessToken(forged, { secret: SECRET }, NOW)).toBeNull();
+  });
+
+  it('rejects expired tokens', async () => {
+    const token = await signHs256(claims({ exp: Math.floor(NOW.getTime() / 1000) - 1 }));
+
+    expect(await verifyAccessToken(token, { secret: SECRET }, NOW)).toBeNull();
+  });
+
+  it('rejects unsigned tokens and malformed input', async () => {
+    const unsigned = `${encodeJson({ alg: 'none' })}.${encodeJson(claims())}.`;
+
+    expect(await verifyAccessToken(unsigned, { secret: SECRET }, NOW)).toBeNull();
+    expect(await verifyAccessToken('not-a-jwt', { secret: SECRET }, NOW)).toBeNull();
+  });
+
+  it('verifies ES256 tokens with the matching key from the JWKS', async () => {
+    const { privateKey, publicKey } = await crypto.subtle.generateKey(
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      true,
+      ['sign', 'verify']
+    );
+    const jwk = await crypto.subtle.exportKey('jwk', publicKey);
+    const jwks = JSON.stringify({ keys: [{ ...jwk, kid: 'key-2025', alg: 'ES256' }] });
+
+    const signingInput = `${encodeJson({ alg: 'ES256', typ: 'JWT', kid: 'key-2025' })}.${encodeJson(claims())}`;
+    const signature = await crypto.subtle.sign(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      privateKey,
+      new TextEncoder().encode(signingInput)
+    );
+    const token = `${signingInput}.${base64Url(new Uint8Array(signature))}`;
+
+    expect(await verifyAccessToken(token, { jwks }, NOW)).toMatchObject({ userId: USER_ID });
+    const rotatedJwks = JSON.stringify({ keys: [{ ...jwk, kid: 'key-2026', alg: 'ES256' }] });
+    expect(await verifyAccessToken(token, { jwks: rotatedJwks }, NOW)).toBeNull();
+  });
+});
+
+describe('getAccessToken', () => {
+  const session = { access_token: 'header.payload.signature', refresh_token: 'refresh' };
+
+  it('reads the base64 session cookie written by @supabase/ssr, joining its chunks', () => {
+    const encoded = `base64-${encodeJson(session)}`;
+
+    const token = getAccessToken([
+      { name: 'sb-abcd-auth-token.1', value: encoded.slice(20) },
+      { name: 'sb-abcd-auth-token.0', value: encoded.slice(0, 20) },
+    ]);
+
+    expect(token).toBe('header.payload.signature');
+  });
+
+  it('reads plain JSON session cookies and the legacy access token cookie', () => {
+    expect(getAccessToken([
+      { name: 'sb-abcd-auth-token', value: encodeURIComponent(JSON.stringify(session)) },
+    ])).toBe('header.payload.signature');
+    expect(getAccessToken([{ name: 'sb-access-token', value: 'legacy.jwt.token' }])).toBe('legacy.jwt.token');
+  });
+
+  it('ignores unrelated cookies', () => {
+    expect(getAccessToken([{ name: 'sb-anything-auth', value: 'yes' }])).toBeNull();
+  });
+});
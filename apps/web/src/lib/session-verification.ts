@@ -0,0 +1,206 @@
+/**
+ * Session Verification
+ * Verifies Supabase access tokens (signature and expiry) locally, with the project's
+ * JWT secret or its JWKS signing keys, so the middleware never trusts a cookie just
+ * because of its name. Edge runtime safe: Web Crypto only, no Node APIs
+ */
+
+// Request headers the middleware sets for route handlers; values sent by clients are dropped
+export const SESSION_USER_HEADER = 'x-user-id';
+export const SESSION_BUSINESS_HEADER = 'x-business-id';
+
+// @supabase/ssr stores the session as sb-<project-ref>-auth-token, split into
+// .0, .1, ... chunks when it does not fit in one cookie
+const AUTH_COOKIE_PATTERN = /^(sb-.+-auth-token)(?:\.(\d+))?$/;
+const BASE64_COOKIE_PREFIX = 'base64-';
+const LEGACY_ACCESS_TOKEN_COOKIE = 'sb-access-token';
+
+type SigningKey = JsonWebKey & { kid?: string };
+
+type VerifyAlgorithm = {
+  import: RsaHashedImportParams | EcKeyImportParams;
+  verify: AlgorithmIdentifier | EcdsaParams;
+};
+
+// Asymmetric algorithms Supabase signs with; HS256 uses the shared secret instead
+const JWKS_ALGORITHMS: Record<string, VerifyAlgorithm> = {
+  RS256: {
+    import: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+    verify: 'RSASSA-PKCS1-v1_5',
+  },
+  ES256: {
+    import: { name: 'ECDSA', namedCurve: 'P-256' },
+    verify: { name: 'ECDSA', hash: 'SHA-256' },
+  },
+};
+
+export interface SessionVerificationKeys {
+  secret?: string;
+  jwks?: string;
+}
+
+export interface VerifiedSession {
+  userId: string;
+  email?: string;
+  expiresAt: Date;
+}
+
+type CookieEntry = { name: string; value: string };
+
+function base64UrlDecode(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function decodeJson(value: string): Record<string, unknown> | null {
+  try {
+    const parsed = JSON.parse(new TextDecoder().decode(base64UrlDecode(value)));
+    return parsed && typeof parsed === 'object' ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Extract the access token from the session cookie written by @supabase/ssr
+ * (base64 or plain JSON, possibly chunked) or from the legacy sb-access-token cookie
+ */
+export function getAccessToken(cookies: CookieEntry[]): string | null {
+  const chunks = new Map<string, Array<{ index: number; value: string }>>();
+
+  for (const cookie of cookies) {
+    const match = AUTH_COOKIE_PATTERN.exec(cookie.name);
+    if (match && cookie.value) {
+      const parts = chunks.get(match[1]) ?? [];
+      parts.push({ index: match[2] === undefined ? -1 : Number(match[2]), value: cookie.value });
+      chunks.set(match[1], parts);
+    }
+  }
+
+  for (const parts of chunks.values()) {
+    const value = parts.sort((a, b) => a.index - b.index).map(part => part.value).join('');
+    const token = parseSessionCookie(value);
+    if (token) {
+      return token;
+    }
+  }
+
+  return cookies.find(cookie => cookie.name === LEGACY_ACCESS_TOKEN_COOKIE)?.value || null;
+}
+
+function parseSessionCookie(value: string): string | null {
+  try {
+    const json = value.startsWith(BASE64_COOKIE_PREFIX)
+      ? new TextDecoder().decode(base64UrlDecode(value.slice(BASE64_COOKIE_PREFIX.length)))
+      : decodeURIComponent(value);
+    const session = JSON.parse(json);
+
+    // Older clients stored [access_token, refresh_token, ...]
+    const token = Array.isArray(session) ? session[0] : session?.access_token;
+    return typeof token === 'string' ? token : null;
+  } catch {
+    return null;
+  }
+}
+
+async function importVerificationKey(
+  alg: unknown,
+  kid: unknown,
+  keys: SessionVerificationKeys
+): Promise<{ key: CryptoKey; algorithm: AlgorithmIdentifier | EcdsaParams } | null> {
+  if (alg === 'HS256') {
+    if (!keys.secret) {
+      return null;
+    }
+    const key = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(keys.secret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['verify']
+    );
+    return { key, algorithm: 'HMAC' };
+  }
+
+  const algorithm = typeof alg === 'string' ? JWKS_ALGORITHMS[alg] : undefined;
+  if (!algorithm || !keys.jwks) {
+    return null;
+  }
+
+  let signingKeys: SigningKey[];
+  try {
+    signingKeys = (JSON.parse(keys.jwks) as { keys?: SigningKey[] }).keys ?? [];
+  } catch {
+    console.error('SUPABASE_JWKS is not a valid JWKS document');
+    return null;
+  }
+
+  const jwk = signingKeys.find(candidate => candidate.kid === kid && (!candidate.alg || candidate.alg === alg));
+  if (!jwk) {
+    return null;
+  }
+
+  const key = await crypto.subtle.importKey('jwk', jwk, algorithm.import, false, ['verify']);
+  return { key, algorithm: algorithm.verify };
+}
+
+/**
+ * Verify the signature and expiry of a Supabase access token.
+ * Returns null for malformed, forged, expired or unverifiable tokens
+ */
+export async function verifyAccessToken(
+  token: string,
+  keys: SessionVerificationKeys,
+  now: Date = new Date()
+): Promise<VerifiedSession | null> {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    return null;
+  }
+
+  const [encodedHeader, encodedPayload, encodedSignature] = parts;
+  const header = decodeJson(encodedHeader);
+  const payload = decodeJson(encodedPayload);
+  if (!header || !payload) {
+    return null;
+  }
+
+  try {
+    const verification = await importVerificationKey(header.alg, header.kid, keys);
+    if (!verification) {
+      return null;
+    }
+
+    const isValid = await crypto.subtle.verify(
+      verification.algorithm,
+      verification.key,
+      base64UrlDecode(encodedSignature),
+      new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`)
+    );
+    if (!isValid) {
+      return null;
+    }
+  } catch {
+    return null;
+  }
+
+  if (typeof payload.sub !== 'string' || !payload.sub || typeof payload.exp !== 'number') {
+    return null;
+  }
+
+  const expiresAt = new Date(payload.exp * 1000);
+  if (expiresAt <= now) {
+    return null;
+  }
+
+  return {
+    userId: payload.sub,
+    email: typeof payload.email === 'string' ? payload.email : undefined,
+    expiresAt,
+  };
+}
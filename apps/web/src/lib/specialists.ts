@@ -0,0 +1,120 @@
+/**
+ * Specialists
+ * Reads specialists with their service links and keeps those links in sync
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  BusinessContextDatabase,
+  type DatabaseOperationResult,
+  type QueryOptions
+} from './database-operations';
+import type { SpecialistWithServicesRecord } from './database.types';
+import type { ScheduleValidationError } from '@appointments-demo/utils';
+
+// Columns that embed the specialist's service links
+export const SPECIALIST_COLUMNS = '*, specialist_services(service_id)';
+
+// Error messages callers can map to HTTP responses
+export const SPECIALIST_NOT_FOUND_ERROR = 'Specialist not found';
+export const SPECIALIST_INACTIVE_ERROR = 'Specialist is not active';
+export const SERVICE_BUSINESS_MISMATCH_ERROR = 'Services must belong to the business';
+
+/**
+ * Get a specialist of the current business with its service ids
+ */
+export async function getSpecialist(
+  specialistId: string,
+  options: QueryOptions = {}
+): Promise<DatabaseOperationResult<SpecialistWithServicesRecord>> {
+  const result = await BusinessContextDatabase.select<SpecialistWithServicesRecord>(
+    'specialists',
+    SPECIALIST_COLUMNS,
+    { id: specialistId },
+    options
+  );
+
+  if (!result.success) {
+    return { success: false, error: result.error, businessId: result.businessId };
+  }
+
+  const specialist = result.data?.[0];
+  if (!specialist) {
+    return { success: false, error: SPECIALIST_NOT_FOUND_ERROR, businessId: result.businessId };
+  }
+
+  return { success: true, data: specialist, businessId: result.businessId };
+}
+
+/**
+ * Get a specialist of the current business that can take new appointments
+ */
+export async function getBookableSpecialist(
+  specialistId: string,
+  options: QueryOptions = {}
+): Promise<DatabaseOperationResult<SpecialistWithServicesRecord>> {
+  const result = await getSpecialist(specialistId, options);
+
+  if (result.success && result.data && !result.data.is_active) {
+    return { success: false, error: SPECIALIST_INACTIVE_ERROR, businessId: result.businessId };
+  }
+
+  return result;
+}
+
+/**
+ * Replace the services a specialist can perform
+ */
+export async function replaceSpecialistServices(
+  specialistId: string,
+  serviceIds: string[],
+  options: { businessId: string; client: SupabaseClient }
+): Promise<DatabaseOperationResult<string[]>> {
+  const { businessId, client } = options;
+
+  const { error: deleteError } = await client
+    .from('specialist_services')
+    .delete()
+    .eq('specialist_id', specialistId)
+    .eq('business_id', businessId);
+
+  if (deleteError) {
+    return { success: false, error: `Database delete error: ${deleteError.message}`, businessId };
+  }
+
+  const uniqueServiceIds = Array.from(new Set(serviceIds));
+  if (uniqueServiceIds.length === 0) {
+    return { success: true, data: [], businessId };
+  }
+
+  const { error: insertError } = await client
+    .from('specialist_services')
+    .insert(uniqueServiceIds.map(serviceId => ({
+      specialist_id: specialistId,
+      service_id: serviceId,
+      business_id: businessId
+    })));
+
+  if (insertError) {
+    // Raised by the check_specialist_services_business trigger or the services foreign key
+    if (insertError.message.includes('must belong to business') || insertError.code === '23503') {
+      return { success: false, error: SERVICE_BUSINESS_MISMATCH_ERROR, businessId };
+    }
+    return { success: false, error: `Database insert error: ${insertError.message}`, businessId };
+  }
+
+  return { success: true, data: uniqueServiceIds, businessId };
+}
+
+/**
+ * Turn schedule validation errors into API error details, keyed by day of week
+ */
+export function toScheduleErrorDetails(errors: ScheduleValidationError[]): Record<string, string> {
+  const details: Record<string, string> = {};
+
+  errors.forEach(error => {
+    details[`schedule.${error.dayOfWeek}`] = error.message;
+  });
+
+  return details;
+}
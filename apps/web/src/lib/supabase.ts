@@ -80,3 +80,13 @@ export const createServerSupabaseClient = () => {
   });
 };
 
+// Create Supabase client with the anon key for unauthenticated server-side requests
+// (public booking page): RLS and the public functions decide what it can see
+export const createPublicSupabaseClient = () => {
+  return createClient<Database>(env.supabase.url, env.supabase.anonKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  });
+};
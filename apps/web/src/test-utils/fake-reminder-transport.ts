@@ -0,0 +1,21 @@
+import type { ReminderDeliveryResult, ReminderMessage, ReminderTransport } from '@/lib/reminder-channels';
+
+// Reminder transport that keeps messages in memory instead of sending them
+export class FakeReminderTransport implements ReminderTransport {
+  readonly sent: ReminderMessage[] = [];
+  private failure: string | null = null;
+
+  // Make the following sends fail with this error (null to deliver again)
+  failWith(error: string | null): void {
+    this.failure = error;
+  }
+
+  async send(message: ReminderMessage): Promise<ReminderDeliveryResult> {
+    if (this.failure) {
+      return { success: false, error: this.failure };
+    }
+
+    this.sent.push(message);
+    return { success: true };
+  }
+}
@@ -1,15 +1,20 @@
 import { BaseEntity, ColombianPhoneNumber } from './common';
+import { PriceSnapshot } from './currency';
 
 export interface Appointment extends BaseEntity {
   businessId: string;
   customerName: string;
   customerPhone: ColombianPhoneNumber;
   customerEmail?: string;
-  serviceType: string;
+  clientId?: string; // Client directory entry matched by phone
+  serviceId?: string; // Service from the business catalog
+  serviceType: string; // Service name at booking time
+  specialistId?: string; // Specialist assigned to the appointment
   scheduledAt: Date;
   duration: number; // minutes
   status: AppointmentStatus;
   notes?: string;
+  price?: PriceSnapshot; // Service price when booked
 }
 
 export enum AppointmentStatus {
@@ -18,4 +23,15 @@ export enum AppointmentStatus {
   CANCELLED = 'cancelled',
   COMPLETED = 'completed',
   NO_SHOW = 'no_show'
-}
\ No newline at end of file
+}
+
+export interface AppointmentStatusChange {
+  id: string;
+  appointmentId: string;
+  businessId: string;
+  fromStatus: AppointmentStatus | null; // null for the initial status at creation
+  toStatus: AppointmentStatus;
+  changedBy?: string; // auth user id
+  reason?: string;
+  changedAt: Date;
+}
@@ -0,0 +1,21 @@
+import { ColombianPhoneNumber } from './common';
+import { BusinessHours } from './business';
+import { Service } from './service';
+import { Specialist } from './specialist';
+
+// What the public booking page (/b/<slug>) may see of a business; no owner,
+// contact email or other internal data
+export interface PublicBusinessProfile {
+  slug: string;
+  name: string;
+  description?: string;
+  city: string;
+  department: string;
+  phone: ColombianPhoneNumber;
+  timezone: string;
+  businessHours: BusinessHours[];
+}
+
+export type PublicService = Pick<Service, 'id' | 'name' | 'description' | 'duration' | 'price' | 'currency'>;
+
+export type PublicSpecialist = Pick<Specialist, 'id' | 'name' | 'serviceIds'>;
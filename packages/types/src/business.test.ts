@@ -32,13 +32,15 @@ describe('Business Types', () => {
   it('should define proper BusinessHours structure', () => {
     const businessHours: BusinessHours = {
       dayOfWeek: 1, // Monday
-      openTime: '09:00',
-      closeTime: '17:00',
+      intervals: [
+        { openTime: '09:00', closeTime: '12:00' },
+        { openTime: '14:00', closeTime: '17:00' }
+      ],
       isOpen: true
     };
 
     expect(businessHours.dayOfWeek).toBe(1);
-    expect(businessHours.openTime).toBe('09:00');
+    expect(businessHours.intervals.map(interval => interval.openTime)).toEqual(['09:00', '14:00']);
     expect(businessHours.isOpen).toBe(true);
   });
 });
\ No newline at end of file
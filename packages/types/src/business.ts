@@ -1,7 +1,10 @@
 import { BaseEntity, ColombianAddress, ColombianPhoneNumber } from './common';
+import { CurrencyCode } from './currency';
+import { ReminderSettings } from './reminder';
 
 export interface Business extends BaseEntity {
   name: string;
+  slug?: string; // Public booking page handle (/b/<slug>)
   description?: string;
   address: ColombianAddress;
   phone: ColombianPhoneNumber;
@@ -12,14 +15,45 @@ export interface Business extends BaseEntity {
 
 export interface BusinessSettings {
   timezone: string; // 'America/Bogota'
-  currency: string; // 'COP'
+  currency: CurrencyCode; // Default currency for prices and revenue
   businessHours: BusinessHours[];
+  dateOverrides?: DateOverride[]; // Exceptions to the weekly hours on specific dates
+  reminders?: ReminderSettings; // Appointment reminders, off when missing
   [key: string]: unknown; // Allow additional settings
 }
 
+// Opening hours of one day; several intervals model split shifts (e.g. closed 12:00-14:00 for lunch)
 export interface BusinessHours {
   dayOfWeek: number; // 0-6 (Sunday-Saturday)
+  intervals: TimeRange[]; // Non-overlapping, kept while the day is closed so reopening restores them
+  isOpen: boolean;
+}
+
+export interface TimeRange {
   openTime: string; // HH:MM format
   closeTime: string; // HH:MM format
-  isOpen: boolean;
-}
\ No newline at end of file
+}
+
+// Exception to the weekly hours on one date (e.g. closed Dec 24, open on a holiday 09:00-13:00).
+// Colombian holidays are closed unless a date has an override
+export interface DateOverride {
+  date: string; // YYYY-MM-DD in the business time zone
+  type: DateOverrideType;
+  intervals?: TimeRange[]; // Hours of the date, required for 'custom_hours'
+  note?: string; // Shown in the calendar, e.g. "Nochebuena"
+}
+
+// 'holiday_open' opens a holiday with the regular hours of its day of the week
+export type DateOverrideType = 'closed' | 'custom_hours' | 'holiday_open';
+
+// Snapshot of the settings after a change; the newest version is the current settings
+export interface BusinessSettingsVersion {
+  id: string;
+  businessId: string;
+  version: number; // 1, 2, ... per business
+  settings: BusinessSettings;
+  changedBy?: string; // auth user id
+  changedByEmail?: string;
+  restoredFromVersion?: number; // set when the change was a rollback
+  createdAt: Date;
+}
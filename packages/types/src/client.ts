@@ -0,0 +1,16 @@
+import { BaseEntity, ColombianPhoneNumber } from './common';
+
+export interface Client extends BaseEntity {
+  businessId: string;
+  name: string;
+  phone: ColombianPhoneNumber; // Normalized +57 XXX XXX XXXX, unique per business
+  email?: string;
+  notes?: string;
+}
+
+// Appointment history totals shown in the clients directory
+export interface ClientStats {
+  appointmentCount: number;
+  noShowCount: number;
+  lastAppointmentAt?: Date;
+}
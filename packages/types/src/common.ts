@@ -10,6 +10,7 @@ export interface ColombianAddress {
   city: string;
   department: string;
   postalCode?: string;
+  municipalityCode?: string; // DANE DIVIPOLA code of the city, e.g. '05001' for Medellín
 }
 
 export type ColombianPhoneNumber = string; // +57 XXX XXX XXXX format
\ No newline at end of file
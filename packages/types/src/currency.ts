@@ -0,0 +1,20 @@
+import { BaseEntity } from './common';
+
+export type CurrencyCode = 'COP' | 'USD' | 'EUR';
+
+// Admin-maintained rate: 1 fromCurrency = rate toCurrency
+export interface ExchangeRate extends BaseEntity {
+  businessId: string;
+  fromCurrency: CurrencyCode;
+  toCurrency: CurrencyCode;
+  rate: number;
+}
+
+// Price of an appointment frozen at booking time, so later price or rate changes
+// do not rewrite historic revenue
+export interface PriceSnapshot {
+  amount: number; // in `currency`
+  currency: CurrencyCode;
+  baseCurrency: CurrencyCode; // business currency when booked
+  exchangeRate: number | null; // 1 currency = exchangeRate baseCurrency; null if no rate was configured
+}
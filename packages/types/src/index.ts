@@ -1,4 +1,11 @@
 // Shared TypeScript types for appointments-demo
 export * from './business';
 export * from './appointment';
+export * from './service';
+export * from './specialist';
+export * from './client';
+export * from './booking';
+export * from './currency';
+export * from './member';
+export * from './reminder';
 export * from './common';
\ No newline at end of file
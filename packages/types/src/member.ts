@@ -0,0 +1,21 @@
+import { BaseEntity } from './common';
+
+// Team member of a business; an invited member has no user until they accept
+export interface BusinessMember extends BaseEntity {
+  businessId: string;
+  userId?: string; // auth user id, set when the invitation is accepted
+  email: string;
+  role: BusinessRole;
+  status: BusinessMemberStatus;
+  invitedBy?: string; // auth user id
+  acceptedAt?: Date;
+}
+
+export enum BusinessRole {
+  OWNER = 'owner',
+  ADMIN = 'admin',
+  RECEPTIONIST = 'receptionist',
+  SPECIALIST = 'specialist'
+}
+
+export type BusinessMemberStatus = 'invited' | 'active';
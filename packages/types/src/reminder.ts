@@ -0,0 +1,35 @@
+import { BaseEntity } from './common';
+
+// Channels a reminder can be delivered through
+export type ReminderChannel = 'whatsapp' | 'sms' | 'email';
+
+// Reminder configuration of a business, stored with its settings
+export interface ReminderSettings {
+  enabled: boolean;
+  offsetsMinutes: number[]; // Minutes before the appointment, e.g. [1440, 120] for 24h and 2h
+  channels: ReminderChannel[];
+  quietHours?: QuietHours; // No messages are sent inside this window
+}
+
+// Daily window in the business time zone; start after end spans midnight (e.g. 21:00-07:00)
+export interface QuietHours {
+  start: string; // HH:MM format
+  end: string; // HH:MM format
+}
+
+// 'skipped' jobs were not sent on purpose (cancelled appointment, missing recipient)
+export type ReminderJobStatus = 'pending' | 'sent' | 'skipped' | 'failed';
+
+// One reminder message queued for an appointment
+export interface ReminderJob extends BaseEntity {
+  businessId: string;
+  appointmentId: string;
+  channel: ReminderChannel;
+  offsetMinutes: number;
+  sendAt: Date; // Already moved out of the quiet hours
+  status: ReminderJobStatus;
+  attempts: number;
+  lastError?: string;
+  sentAt?: Date;
+}
+
@@ -0,0 +1,13 @@
+import { BaseEntity } from './common';
+import { CurrencyCode } from './currency';
+
+export interface Service extends BaseEntity {
+  businessId: string;
+  name: string;
+  description?: string;
+  duration: number; // minutes
+  price: number; // in `currency`
+  currency: CurrencyCode;
+  bufferMinutes: number; // cleanup time blocked after each appointment
+  isActive: boolean;
+}
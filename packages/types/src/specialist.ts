@@ -0,0 +1,12 @@
+import { BaseEntity, ColombianPhoneNumber } from './common';
+import { BusinessHours } from './business';
+
+export interface Specialist extends BaseEntity {
+  businessId: string;
+  name: string;
+  email?: string;
+  phone?: ColombianPhoneNumber;
+  schedule: BusinessHours[]; // Weekly working hours, within the business hours
+  serviceIds: string[]; // Services this specialist can perform
+  isActive: boolean;
+}
@@ -4,12 +4,14 @@
 import React from 'react';
 import { render, screen } from '@testing-library/react';
 import '@testing-library/jest-dom';
-import { PesoDisplay, PhoneDisplay, BusinessHours } from './ColombianDisplay';
+import { PesoDisplay, MoneyDisplay, PhoneDisplay, BusinessHours } from './ColombianDisplay';
 
 // Mock the Colombian utilities
 jest.mock('@appointments-demo/utils', () => ({
   formatPesoCOP: (amount: number) => `$${amount.toLocaleString('es-CO')}`,
+  formatMoney: (amount: number, currency: string) => `${currency} ${amount.toFixed(2)}`,
   formatColombianPhone: (phone: string) => `+57 ${phone.slice(0, 3)} ${phone.slice(3, 6)} ${phone.slice(6)}`,
+  formatTimeRanges: jest.requireActual('@appointments-demo/utils').formatTimeRanges,
 }));
 
 describe('ColombianDisplay Components', () => {
@@ -33,6 +35,21 @@ describe('ColombianDisplay Components', () => {
     });
   });
 
+  describe('MoneyDisplay', () => {
+    it('renders the amount in the given currency', () => {
+      render(<MoneyDisplay amount={45.5} currency="USD" />);
+      expect(screen.getByText('USD 45.50')).toBeInTheDocument();
+    });
+
+    it('shares the peso amount styling', () => {
+      render(<MoneyDisplay amount={30} currency="EUR" large className="custom-money" />);
+      const display = screen.getByText('EUR 30.00');
+
+      expect(display).toHaveClass('peso-amount-large');
+      expect(display).toHaveClass('custom-money');
+    });
+  });
+
   describe('PhoneDisplay', () => {
     it('renders Colombian phone number with proper formatting', () => {
       render(<PhoneDisplay phone="3001234567" />);
@@ -70,6 +87,21 @@ describe('ColombianDisplay Components', () => {
       expect(hours).toHaveClass('business-hours-closed');
     });
 
+    it('displays every time range of a split shift in opening order', () => {
+      const intervals = [
+        { openTime: '14:00', closeTime: '18:00' },
+        { openTime: '08:00', closeTime: '12:00' }
+      ];
+
+      render(<BusinessHours isOpen={true} intervals={intervals} />);
+      expect(screen.getByText('08:00 - 12:00, 14:00 - 18:00')).toHaveClass('business-hours-open');
+    });
+
+    it('displays "Cerrado" for a closed day even with time ranges', () => {
+      render(<BusinessHours isOpen={false} intervals={[{ openTime: '08:00', closeTime: '12:00' }]} />);
+      expect(screen.getByText('Cerrado')).toBeInTheDocument();
+    });
+
     it('displays custom children when provided', () => {
       render(<BusinessHours isOpen={true}>Abierto hasta las 6 PM</BusinessHours>);
       expect(screen.getByText('Abierto hasta las 6 PM')).toBeInTheDocument();
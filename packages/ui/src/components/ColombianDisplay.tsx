@@ -1,5 +1,6 @@
 import React from 'react';
-import { formatPesoCOP, formatColombianPhone } from '@appointments-demo/utils';
+import type { CurrencyCode, TimeRange } from '@appointments-demo/types';
+import { formatMoney, formatPesoCOP, formatColombianPhone, formatTimeRanges } from '@appointments-demo/utils';
 
 export interface PesoDisplayProps extends React.HTMLAttributes<HTMLSpanElement> {
   amount: number;
@@ -22,6 +23,29 @@ export const PesoDisplay: React.FC<PesoDisplayProps> = ({
   );
 };
 
+export interface MoneyDisplayProps extends React.HTMLAttributes<HTMLSpanElement> {
+  amount: number;
+  currency: CurrencyCode;
+  large?: boolean;
+}
+
+export const MoneyDisplay: React.FC<MoneyDisplayProps> = ({ 
+  amount, 
+  currency,
+  large = false, 
+  className = '',
+  ...props 
+}) => {
+  const baseClasses = large ? 'peso-amount-large text-peso' : 'peso-amount text-peso';
+  const combinedClassName = `${baseClasses} ${className}`.trim();
+
+  return (
+    <span className={combinedClassName} {...props}>
+      {formatMoney(amount, currency)}
+    </span>
+  );
+};
+
 export interface PhoneDisplayProps extends React.HTMLAttributes<HTMLSpanElement> {
   phone: string;
 }
@@ -43,21 +67,24 @@ export const PhoneDisplay: React.FC<PhoneDisplayProps> = ({
 
 export interface BusinessHoursProps extends React.HTMLAttributes<HTMLSpanElement> {
   isOpen: boolean;
+  intervals?: TimeRange[]; // Shown while open, e.g. "08:00 - 12:00, 14:00 - 18:00"
   children?: React.ReactNode;
 }
 
 export const BusinessHours: React.FC<BusinessHoursProps> = ({ 
   isOpen, 
+  intervals,
   children,
   className = '',
   ...props 
 }) => {
   const statusClasses = isOpen ? 'business-hours-open' : 'business-hours-closed';
   const combinedClassName = `${statusClasses} ${className}`.trim();
+  const openLabel = intervals && intervals.length > 0 ? formatTimeRanges(intervals) : 'Abierto';
 
   return (
     <span className={combinedClassName} {...props}>
-      {children || (isOpen ? 'Abierto' : 'Cerrado')}
+      {children || (isOpen ? openLabel : 'Cerrado')}
     </span>
   );
 };
\ No newline at end of file
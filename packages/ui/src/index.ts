@@ -4,9 +4,11 @@ export { Card, type CardProps } from './components/Card';
 export { Badge, type BadgeProps } from './components/Badge';
 export { 
   PesoDisplay, 
+  MoneyDisplay,
   PhoneDisplay, 
   BusinessHours,
   type PesoDisplayProps,
+  type MoneyDisplayProps,
   type PhoneDisplayProps,
   type BusinessHoursProps 
 } from './components/ColombianDisplay';
\ No newline at end of file
@@ -0,0 +1,121 @@
+/**
+ * Tests for Colombian street address parsing
+ */
+
+import {
+  parseColombianAddress,
+  formatColombianAddress,
+  normalizeColombianAddress
+} from './address';
+
+describe('Colombian Address Utilities', () => {
+  describe('parseColombianAddress', () => {
+    test('should parse a full address into its parts', () => {
+      expect(parseColombianAddress('Carrera 15 # 93-47')).toEqual({
+        viaType: 'Carrera',
+        viaNumber: '15',
+        crossNumber: '93',
+        plateNumber: '47',
+        complements: []
+      });
+    });
+
+    test('should recognize via type abbreviations', () => {
+      const cases: Array<[string, string]> = [
+        ['Cl 45 # 12-30', 'Calle'],
+        ['CLL 45 # 12-30', 'Calle'],
+        ['Cra. 7 # 32-16', 'Carrera'],
+        ['KR 7 # 32-16', 'Carrera'],
+        ['Av 68 # 22-10', 'Avenida'],
+        ['Dg 40A # 15-20', 'Diagonal'],
+        ['Tv 93 # 51-98', 'Transversal'],
+        ['Transv 93 # 51-98', 'Transversal'],
+        ['AK 45 # 100-20', 'Avenida Carrera'],
+        ['Av. Calle 26 # 59-51', 'Avenida Calle']
+      ];
+
+      cases.forEach(([address, viaType]) => {
+        expect(parseColombianAddress(address)?.viaType).toBe(viaType);
+      });
+    });
+
+    test('should accept the common plate separators', () => {
+      ['Cra 15 #93-47', 'KR 15 N 93 47', 'Carrera 15 No. 93-47', 'Cra 15 N° 93 - 47', 'Cra15#93-47'].forEach(address => {
+        const parsed = parseColombianAddress(address);
+        expect(parsed).toMatchObject({ viaType: 'Carrera', viaNumber: '15', crossNumber: '93', plateNumber: '47' });
+      });
+    });
+
+    test('should keep letters and Bis in via numbers', () => {
+      expect(parseColombianAddress('Calle 10 a bis # 5b-20')).toMatchObject({
+        viaNumber: '10A Bis',
+        crossNumber: '5B'
+      });
+      expect(parseColombianAddress('Cra 7 Bis C # 12-4')?.viaNumber).toBe('7 Bis C');
+    });
+
+    test('should read the quadrant before or after the plate', () => {
+      expect(parseColombianAddress('Calle 48 Sur # 24-10')?.quadrant).toBe('Sur');
+      expect(parseColombianAddress('Cra 10 # 15-20 este')?.quadrant).toBe('Este');
+    });
+
+    test('should parse complements and keep unrecognized text', () => {
+      expect(parseColombianAddress('Cra 15 # 93-47 Torre 2 Apto 301, Edificio Andino')).toMatchObject({
+        complements: [
+          { type: 'Torre', value: '2' },
+          { type: 'Apto', value: '301' }
+        ],
+        additionalInfo: 'Edificio Andino'
+      });
+      expect(parseColombianAddress('Cl 80 # 10-25 Lc 5B')?.complements).toEqual([{ type: 'Local', value: '5B' }]);
+      expect(parseColombianAddress('Cl 80 # 10-25 Torre A')?.complements).toEqual([{ type: 'Torre', value: 'A' }]);
+    });
+
+    test('should parse named avenues', () => {
+      expect(parseColombianAddress('Av. El Dorado # 68-51')).toMatchObject({
+        viaType: 'Avenida',
+        viaNumber: 'El Dorado',
+        crossNumber: '68',
+        plateNumber: '51'
+      });
+    });
+
+    test('should return null for addresses outside the urban nomenclature', () => {
+      expect(parseColombianAddress('')).toBeNull();
+      expect(parseColombianAddress('Vereda El Rosal, Finca La Esperanza')).toBeNull();
+      expect(parseColombianAddress('Calle 123')).toBeNull();
+      expect(parseColombianAddress('Carrera 15 # 93')).toBeNull();
+    });
+  });
+
+  describe('formatColombianAddress', () => {
+    test('should build the canonical string', () => {
+      expect(formatColombianAddress({
+        viaType: 'Calle',
+        viaNumber: '48',
+        crossNumber: '24',
+        plateNumber: '10',
+        quadrant: 'Sur',
+        complements: [{ type: 'Apto', value: '502' }],
+        additionalInfo: 'Conjunto Los Pinos'
+      })).toBe('Calle 48 # 24-10 Sur, Apto 502, Conjunto Los Pinos');
+    });
+  });
+
+  describe('normalizeColombianAddress', () => {
+    test('should give the same canonical form to equivalent addresses', () => {
+      ['Cra 15 #93-47', 'KR 15 N 93 47', 'Carrera 15 # 93-47', 'carrera 15 no 93-47'].forEach(address => {
+        expect(normalizeColombianAddress(address)).toBe('Carrera 15 # 93-47');
+      });
+    });
+
+    test('should normalize complement abbreviations', () => {
+      expect(normalizeColombianAddress('cll 100 # 19-61 to 3 apartamento 1204'))
+        .toBe('Calle 100 # 19-61, Torre 3, Apto 1204');
+    });
+
+    test('should return null when the address cannot be parsed', () => {
+      expect(normalizeColombianAddress('Km 5 vía La Calera')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Colombian street address utilities
+ * Parses "Carrera 15 # 93-47" style addresses (and their abbreviations) into a
+ * structured object and a canonical string
+ */
+
+/**
+ * Via types of the urban nomenclature
+ */
+export type ColombianViaType =
+  | 'Calle'
+  | 'Carrera'
+  | 'Avenida'
+  | 'Avenida Calle'
+  | 'Avenida Carrera'
+  | 'Diagonal'
+  | 'Transversal';
+
+export type AddressQuadrant = 'Sur' | 'Norte' | 'Este' | 'Oeste';
+
+export type AddressComplementType = 'Torre' | 'Bloque' | 'Interior' | 'Casa' | 'Apto' | 'Local' | 'Oficina' | 'Piso';
+
+export interface AddressComplement {
+  type: AddressComplementType;
+  value: string;
+}
+
+/**
+ * Structured urban address: "{viaType} {viaNumber} # {crossNumber}-{plateNumber}"
+ */
+export interface ParsedColombianAddress {
+  viaType: ColombianViaType;
+  viaNumber: string; // '15', '15A', '15 Bis', or the name of an avenue ('El Dorado')
+  crossNumber: string; // number of the crossing via, e.g. '93' or '93B'
+  plateNumber: string; // distance from the corner, e.g. '47'
+  quadrant?: AddressQuadrant;
+  complements: AddressComplement[];
+  additionalInfo?: string; // Unrecognized trailing text such as a building or neighborhood name
+}
+
+// Abbreviations seen in practice, including the DIAN nomenclature (CL, KR, DG, TV, AC, AK)
+const VIA_TYPE_ALIASES: Record<string, ColombianViaType> = {
+  CALLE: 'Calle', CL: 'Calle', CLL: 'Calle', CLLE: 'Calle',
+  CARRERA: 'Carrera', KR: 'Carrera', CR: 'Carrera', CRA: 'Carrera', KRA: 'Carrera', CRR: 'Carrera', K: 'Carrera',
+  AVENIDA: 'Avenida', AV: 'Avenida', AVE: 'Avenida', AVDA: 'Avenida',
+  DIAGONAL: 'Diagonal', DG: 'Diagonal', DIAG: 'Diagonal',
+  TRANSVERSAL: 'Transversal', TV: 'Transversal', TR: 'Transversal', TRV: 'Transversal', TRANSV: 'Transversal',
+  AC: 'Avenida Calle', AK: 'Avenida Carrera'
+};
+
+const QUADRANT_ALIASES: Record<string, AddressQuadrant> = {
+  SUR: 'Sur', NORTE: 'Norte', ESTE: 'Este', OESTE: 'Oeste'
+};
+
+const COMPLEMENT_ALIASES: Record<string, AddressComplementType> = {
+  TORRE: 'Torre', TO: 'Torre', T: 'Torre',
+  BLOQUE: 'Bloque', BL: 'Bloque', BLQ: 'Bloque',
+  INTERIOR: 'Interior', INT: 'Interior', IN: 'Interior',
+  CASA: 'Casa', CS: 'Casa',
+  APARTAMENTO: 'Apto', APTO: 'Apto', APT: 'Apto', AP: 'Apto',
+  LOCAL: 'Local', LC: 'Local', LOC: 'Local',
+  OFICINA: 'Oficina', OF: 'Oficina', OFC: 'Oficina',
+  PISO: 'Piso', P: 'Piso'
+};
+
+const PLATE_SEPARATOR = '#';
+
+/**
+ * Parses a Colombian urban address
+ * @param address - Free-text address (e.g. "Cra 15 #93-47 Apto 301", "KR 15 N 93 47")
+ * @returns Structured address or null when the text is not a via-plate address
+ * (rural addresses like "Vereda El Rosal, Finca La Esperanza" return null)
+ */
+export function parseColombianAddress(address: string): ParsedColombianAddress | null {
+  if (!address || !address.trim()) return null;
+
+  const tokens = tokenize(address);
+  let position = 0;
+  const peek = () => tokens[position];
+  const peekKey = () => (position < tokens.length ? toKey(tokens[position]) : '');
+
+  // Via type, where "Avenida Carrera 15" and "AK 15" are the same thing
+  let viaType = VIA_TYPE_ALIASES[peekKey()];
+  if (!viaType) return null;
+  position++;
+  if (viaType === 'Avenida') {
+    const next = VIA_TYPE_ALIASES[peekKey()];
+    if (next === 'Calle' || next === 'Carrera') {
+      viaType = next === 'Calle' ? 'Avenida Calle' : 'Avenida Carrera';
+      position++;
+    }
+  }
+
+  // Via designator: a number ("15A Bis") or, for avenues, a name ("El Dorado")
+  let quadrant: AddressQuadrant | undefined;
+  let viaNumber = readViaNumber();
+  if (!viaNumber && viaType === 'Avenida') {
+    const nameTokens: string[] = [];
+    while (position < tokens.length && peek() !== PLATE_SEPARATOR && !/^\d/.test(peek())) {
+      nameTokens.push(tokens[position++]);
+    }
+    viaNumber = nameTokens.join(' ');
+  }
+  if (!viaNumber) return null;
+  readQuadrant();
+
+  if (peek() === PLATE_SEPARATOR) position++;
+
+  const crossNumber = readViaNumber();
+  if (!crossNumber) return null;
+
+  if (peek() === '-') position++;
+  if (!/^\d+$/.test(peek() || '')) return null;
+  const plateNumber = tokens[position++];
+  readQuadrant();
+
+  // Complements ("Torre 2 Apto 301") and whatever else follows
+  const complements: AddressComplement[] = [];
+  const extra: string[] = [];
+  while (position < tokens.length) {
+    const token = tokens[position++];
+    if (token === ',' || token === '-') continue;
+
+    const complementType = COMPLEMENT_ALIASES[toKey(token)];
+    const value = tokens[position];
+    if (complementType && value && /^(?:\w*\d\w*|[A-Z])$/i.test(value)) {
+      complements.push({ type: complementType, value: value.toUpperCase() });
+      position++;
+    } else {
+      extra.push(token);
+    }
+  }
+
+  return {
+    viaType,
+    viaNumber,
+    crossNumber,
+    plateNumber,
+    ...(quadrant && { quadrant }),
+    complements,
+    ...(extra.length > 0 && { additionalInfo: extra.join(' ') })
+  };
+
+  // "15", "15A", "15 A", "15 Bis", "15A Bis B"
+  function readViaNumber(): string | null {
+    const match = /^(\d+)([A-Z])?$/i.exec(peek() || '');
+    if (!match) return null;
+    position++;
+
+    let designator = match[1] + (match[2] || '').toUpperCase();
+    if (!match[2] && /^[A-Z]$/i.test(peek() || '') && !isKeyword(peek())) {
+      designator += tokens[position++].toUpperCase();
+    }
+    if (peekKey() === 'BIS') {
+      position++;
+      designator += ' Bis';
+      if (/^[A-Z]$/i.test(peek() || '') && !isKeyword(peek())) {
+        designator += ` ${tokens[position++].toUpperCase()}`;
+      }
+    }
+    return designator;
+  }
+
+  function readQuadrant(): void {
+    const found = QUADRANT_ALIASES[peekKey()];
+    if (found) {
+      quadrant = found;
+      position++;
+    }
+  }
+}
+
+/**
+ * Formats a parsed address as "Carrera 15 # 93-47 Sur, Torre 2, Apto 301"
+ * @param address - Parsed address
+ * @returns Canonical address string
+ */
+export function formatColombianAddress(address: ParsedColombianAddress): string {
+  const parts = [
+    `${address.viaType} ${address.viaNumber} ${PLATE_SEPARATOR} ${address.crossNumber}-${address.plateNumber}` +
+      (address.quadrant ? ` ${address.quadrant}` : ''),
+    ...address.complements.map(complement => `${complement.type} ${complement.value}`)
+  ];
+  if (address.additionalInfo) {
+    parts.push(address.additionalInfo);
+  }
+  return parts.join(', ');
+}
+
+/**
+ * Normalizes a Colombian address to its canonical form
+ * @param address - Free-text address
+ * @returns Canonical address or null if it cannot be parsed
+ */
+export function normalizeColombianAddress(address: string): string | null {
+  const parsed = parseColombianAddress(address);
+  return parsed ? formatColombianAddress(parsed) : null;
+}
+
+/**
+ * Splits an address into words, numbers and the '#', '-' and ',' separators;
+ * "No.", "N°" and a lone "N" before a number all become '#'
+ */
+function tokenize(address: string): string[] {
+  return address
+    .replace(/\bN(?:o|ro|um|umero|úmero)?\s*[.°º]?\s*(?=\d)/gi, ` ${PLATE_SEPARATOR} `)
+    .replace(/([#,-])/g, ' $1 ')
+    .replace(/\./g, ' ')
+    .replace(/([a-záéíóúñ]{2,})(\d)/gi, '$1 $2')
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+// Uppercase without accents, for comparing against the alias tables
+function toKey(token: string): string {
+  return token.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toUpperCase();
+}
+
+// Single letters that start a quadrant or complement rather than extend a number
+function isKeyword(token: string): boolean {
+  const key = toKey(token);
+  return key in COMPLEMENT_ALIASES || key in QUADRANT_ALIASES;
+}
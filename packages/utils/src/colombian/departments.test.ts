@@ -4,7 +4,6 @@
 
 import {
   COLOMBIAN_DEPARTMENTS,
-  MAJOR_CITIES_BY_DEPARTMENT,
   DEPARTMENTS_BY_REGION,
   isValidColombianDepartment,
   getCitiesByDepartment,
@@ -42,30 +41,6 @@ describe('Colombian Departments Utilities', () => {
     });
   });
 
-  describe('MAJOR_CITIES_BY_DEPARTMENT', () => {
-    test('should have cities for each department', () => {
-      COLOMBIAN_DEPARTMENTS.forEach(department => {
-        expect(MAJOR_CITIES_BY_DEPARTMENT[department]).toBeDefined();
-        expect(Array.isArray(MAJOR_CITIES_BY_DEPARTMENT[department])).toBe(true);
-        expect(MAJOR_CITIES_BY_DEPARTMENT[department].length).toBeGreaterThan(0);
-      });
-    });
-
-    test('should include major cities', () => {
-      expect(MAJOR_CITIES_BY_DEPARTMENT['Antioquia']).toContain('Medellín');
-      expect(MAJOR_CITIES_BY_DEPARTMENT['Valle del Cauca']).toContain('Cali');
-      expect(MAJOR_CITIES_BY_DEPARTMENT['Atlántico']).toContain('Barranquilla');
-      expect(MAJOR_CITIES_BY_DEPARTMENT['Bogotá D.C.']).toContain('Bogotá');
-      expect(MAJOR_CITIES_BY_DEPARTMENT['Santander']).toContain('Bucaramanga');
-    });
-
-    test('should not have empty city arrays', () => {
-      Object.values(MAJOR_CITIES_BY_DEPARTMENT).forEach(cities => {
-        expect(cities.length).toBeGreaterThan(0);
-      });
-    });
-  });
-
   describe('DEPARTMENTS_BY_REGION', () => {
     test('should contain all expected regions', () => {
       expect(DEPARTMENTS_BY_REGION.ANDINA).toBeDefined();
@@ -139,6 +114,12 @@ describe('Colombian Departments Utilities', () => {
         expect(cities.length).toBeGreaterThan(0);
       });
     });
+
+    test('should return every municipality of the department, not just major cities', () => {
+      expect(getCitiesByDepartment('Antioquia')).toHaveLength(125);
+      expect(getCitiesByDepartment('Antioquia')).toContain('Jardín');
+      expect(getCitiesByDepartment('Boyacá')).toContain('Villa de Leyva');
+    });
   });
 
   describe('findDepartmentByCity', () => {
@@ -156,9 +137,15 @@ describe('Colombian Departments Utilities', () => {
       expect(findDepartmentByCity('')).toBeNull();
     });
 
-    test('should be case sensitive', () => {
-      expect(findDepartmentByCity('medellín')).toBeNull(); // lowercase
-      expect(findDepartmentByCity('MEDELLÍN')).toBeNull(); // uppercase
+    test('should ignore case and accents', () => {
+      expect(findDepartmentByCity('medellin')).toBe('Antioquia');
+      expect(findDepartmentByCity('MEDELLÍN')).toBe('Antioquia');
+      expect(findDepartmentByCity('Cucuta')).toBe('Norte de Santander');
+    });
+
+    test('should prefer department capitals for repeated names', () => {
+      expect(findDepartmentByCity('Armenia')).toBe('Quindío');
+      expect(findDepartmentByCity('Florencia')).toBe('Caquetá');
     });
   });
 
@@ -175,6 +162,12 @@ describe('Colombian Departments Utilities', () => {
       expect(validateColombianAddress('', 'Cali')).toBe(false);
     });
 
+    test('should accept towns outside the major cities', () => {
+      expect(validateColombianAddress('Antioquia', 'Jardín')).toBe(true);
+      expect(validateColombianAddress('Cundinamarca', 'Girardot')).toBe(true);
+      expect(validateColombianAddress('Santander', 'barichara')).toBe(true);
+    });
+
     test('should reject cities not in the specified department', () => {
       expect(validateColombianAddress('Antioquia', 'Cali')).toBe(false); // Cali is in Valle del Cauca
       expect(validateColombianAddress('Valle del Cauca', 'Medellín')).toBe(false); // Medellín is in Antioquia
@@ -210,39 +203,6 @@ describe('Colombian Departments Utilities', () => {
   });
 
   describe('data integrity and consistency', () => {
-    test('should have consistent data between constants', () => {
-      // Every department in COLOMBIAN_DEPARTMENTS should have cities
-      COLOMBIAN_DEPARTMENTS.forEach(department => {
-        expect(MAJOR_CITIES_BY_DEPARTMENT[department]).toBeDefined();
-      });
-
-      // Every department with cities should be in COLOMBIAN_DEPARTMENTS
-      Object.keys(MAJOR_CITIES_BY_DEPARTMENT).forEach(department => {
-        expect(COLOMBIAN_DEPARTMENTS).toContain(department as ColombianDepartment);
-      });
-    });
-
-    test('should not have duplicate cities across different departments', () => {
-      const allCities: string[] = [];
-      const duplicates: string[] = [];
-
-      Object.entries(MAJOR_CITIES_BY_DEPARTMENT).forEach(([department, cities]) => {
-        cities.forEach(city => {
-          if (allCities.includes(city)) {
-            duplicates.push(city);
-          } else {
-            allCities.push(city);
-          }
-        });
-      });
-
-      // Allow some known duplicates (like Girardot which exists in multiple departments)
-      const allowedDuplicates = ['Girardot']; // Girardot exists in both Cundinamarca and Tolima
-      const unexpectedDuplicates = duplicates.filter(city => !allowedDuplicates.includes(city));
-      
-      expect(unexpectedDuplicates).toEqual([]);
-    });
-
     test('should have proper Spanish accents and capitalization', () => {
       // Check for common accent patterns
       expect(COLOMBIAN_DEPARTMENTS).toContain('Atlántico'); // With accent
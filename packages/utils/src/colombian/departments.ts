@@ -3,6 +3,8 @@
  * Complete list of all Colombian departments for address validation
  */
 
+import { findMunicipality, getMunicipalitiesByDepartment } from './municipalities';
+
 /**
  * All 32 departments plus Bogotá D.C. (Capital District)
  * Ordered alphabetically for easy reference
@@ -48,45 +50,6 @@ export const COLOMBIAN_DEPARTMENTS = [
  */
 export type ColombianDepartment = typeof COLOMBIAN_DEPARTMENTS[number];
 
-/**
- * Major cities by department for enhanced address validation
- */
-export const MAJOR_CITIES_BY_DEPARTMENT: Record<ColombianDepartment, string[]> = {
-  'Amazonas': ['Leticia', 'Puerto Nariño'],
-  'Antioquia': ['Medellín', 'Bello', 'Itagüí', 'Envigado', 'Apartadó', 'Turbo', 'Rionegro'],
-  'Arauca': ['Arauca', 'Saravena', 'Tame'],
-  'Atlántico': ['Barranquilla', 'Soledad', 'Malambo', 'Sabanagrande'],
-  'Bogotá D.C.': ['Bogotá'],
-  'Bolívar': ['Cartagena', 'Magangué', 'Turbaco', 'Arjona'],
-  'Boyacá': ['Tunja', 'Duitama', 'Sogamoso', 'Chiquinquirá'],
-  'Caldas': ['Manizales', 'Chinchiná', 'La Dorada', 'Riosucio'],
-  'Caquetá': ['Florencia', 'San Vicente del Caguán', 'Puerto Rico'],
-  'Casanare': ['Yopal', 'Aguazul', 'Villanueva', 'Monterrey'],
-  'Cauca': ['Popayán', 'Santander de Quilichao', 'Puerto Tejada', 'Guapi'],
-  'Cesar': ['Valledupar', 'Aguachica', 'Bosconia', 'Codazzi'],
-  'Chocó': ['Quibdó', 'Istmina', 'Condoto', 'Tadó'],
-  'Córdoba': ['Montería', 'Cereté', 'Lorica', 'Sahagún'],
-  'Cundinamarca': ['Soacha', 'Girardot', 'Zipaquirá', 'Chía', 'Facatativá', 'Fusagasugá'],
-  'Guainía': ['Inírida'],
-  'Guaviare': ['San José del Guaviare', 'Calamar'],
-  'Huila': ['Neiva', 'Pitalito', 'Garzón', 'La Plata'],
-  'La Guajira': ['Riohacha', 'Maicao', 'San Juan del Cesar', 'Fonseca'],
-  'Magdalena': ['Santa Marta', 'Ciénaga', 'Fundación', 'El Banco'],
-  'Meta': ['Villavicencio', 'Acacías', 'Granada', 'Puerto López'],
-  'Nariño': ['Pasto', 'Tumaco', 'Ipiales', 'Túquerres'],
-  'Norte de Santander': ['Cúcuta', 'Ocaña', 'Pamplona', 'Villa del Rosario'],
-  'Putumayo': ['Mocoa', 'Puerto Asís', 'Orito', 'Sibundoy'],
-  'Quindío': ['Armenia', 'Calarcá', 'La Tebaida', 'Montenegro'],
-  'Risaralda': ['Pereira', 'Dosquebradas', 'Santa Rosa de Cabal', 'La Virginia'],
-  'San Andrés y Providencia': ['San Andrés', 'Providencia'],
-  'Santander': ['Bucaramanga', 'Floridablanca', 'Girón', 'Piedecuesta', 'Barrancabermeja'],
-  'Sucre': ['Sincelejo', 'Corozal', 'Sampués', 'San Marcos'],
-  'Tolima': ['Ibagué', 'Espinal', 'Girardot', 'Melgar'],
-  'Valle del Cauca': ['Cali', 'Palmira', 'Buenaventura', 'Tuluá', 'Cartago', 'Buga'],
-  'Vaupés': ['Mitú'],
-  'Vichada': ['Puerto Carreño', 'La Primavera']
-};
-
 /**
  * Validates if a department name is a valid Colombian department
  * @param department - Department name to validate
@@ -97,32 +60,28 @@ export function isValidColombianDepartment(department: string): department is Co
 }
 
 /**
- * Gets all cities for a given department
+ * Gets all municipalities for a given department
  * @param department - Colombian department
- * @returns Array of cities or empty array if department not found
+ * @returns Municipality names from the DANE catalog or empty array if department not found
  */
 export function getCitiesByDepartment(department: ColombianDepartment): string[] {
-  return MAJOR_CITIES_BY_DEPARTMENT[department] || [];
+  return getMunicipalitiesByDepartment(department).map(municipality => municipality.name);
 }
 
 /**
- * Finds the department for a given city (first match)
+ * Finds the department for a given city (first match), ignoring case and accents
  * @param city - City name
  * @returns Department name or null if city not found
  */
 export function findDepartmentByCity(city: string): ColombianDepartment | null {
-  for (const [department, cities] of Object.entries(MAJOR_CITIES_BY_DEPARTMENT)) {
-    if (cities.includes(city)) {
-      return department as ColombianDepartment;
-    }
-  }
-  return null;
+  const municipality = findMunicipality(city);
+  return municipality ? municipality.department : null;
 }
 
 /**
  * Validates a Colombian address by checking department and city combination
  * @param department - Department name
- * @param city - City name
+ * @param city - City name, matched against the DANE catalog ignoring case and accents
  * @returns true if valid combination
  */
 export function validateColombianAddress(department: string, city: string): boolean {
@@ -130,8 +89,7 @@ export function validateColombianAddress(department: string, city: string): bool
     return false;
   }
 
-  const validCities = getCitiesByDepartment(department);
-  return validCities.includes(city);
+  return findMunicipality(city, department) !== null;
 }
 
 /**
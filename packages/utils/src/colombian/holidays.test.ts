@@ -9,20 +9,30 @@ import {
   isWorkingDay,
   getNextWorkingDay,
   getWorkingDaysBetween,
+  getEasterSunday,
   COLOMBIAN_BUSINESS_CONFIG,
   type ColombianHoliday,
   type HolidayType
 } from './holidays';
+import { comparePlainDates, formatPlainDate, getDayOfWeek, toPlainDate, type PlainDate } from '../scheduling/zoned-date';
+
+const date = (year: number, month: number, day: number): PlainDate => ({ year, month, day });
+
+// Calendar date of an instant in Colombia, where holidays are observed
+const inColombia = (instant: Date): PlainDate => toPlainDate(instant, 'America/Bogota');
+
+// Host time zones the calendar must not depend on, from UTC-10 to UTC+14
+const HOST_TIME_ZONES = ['UTC', 'America/Bogota', 'Pacific/Honolulu', 'Asia/Tokyo', 'Pacific/Kiritimati'];
 
 describe('Colombian Holiday Utilities', () => {
   describe('getColombianHolidays', () => {
     test('should return holidays for current year when no year specified', () => {
       const holidays = getColombianHolidays();
-      const currentYear = new Date().getFullYear();
+      const currentYear = inColombia(new Date()).year;
       
       expect(holidays.length).toBeGreaterThan(10);
       holidays.forEach(holiday => {
-        expect(holiday.date.getFullYear()).toBe(currentYear);
+        expect(inColombia(holiday.date).year).toBe(currentYear);
       });
     });
 
@@ -34,11 +44,11 @@ describe('Colombian Holiday Utilities', () => {
       expect(holidays2024.length).toBeGreaterThan(10);
       
       holidays2025.forEach(holiday => {
-        expect(holiday.date.getFullYear()).toBe(2025);
+        expect(inColombia(holiday.date).year).toBe(2025);
       });
       
       holidays2024.forEach(holiday => {
-        expect(holiday.date.getFullYear()).toBe(2024);
+        expect(inColombia(holiday.date).year).toBe(2024);
       });
     });
 
@@ -90,7 +100,7 @@ describe('Colombian Holiday Utilities', () => {
       mondayHolidays.forEach(holiday => {
         if (holiday.name.includes('Ascensión') || holiday.name.includes('Corpus') || holiday.name.includes('Sagrado Corazón')) {
           // These are always moved to Monday
-          expect(holiday.date.getDay()).toBe(1); // Monday = 1
+          expect(getDayOfWeek(inColombia(holiday.date))).toBe(1); // Monday = 1
         }
       });
     });
@@ -113,35 +123,90 @@ describe('Colombian Holiday Utilities', () => {
     });
   });
 
+  describe('Easter-based holidays', () => {
+    // Official Colombian dates: [year, Easter Sunday, Jueves Santo, Viernes Santo,
+    // Ascensión del Señor, Corpus Christi, Sagrado Corazón de Jesús]
+    const OFFICIAL_EASTER_HOLIDAYS: Array<[number, string, string, string, string, string, string]> = [
+      [2020, '2020-04-12', '2020-04-09', '2020-04-10', '2020-05-25', '2020-06-15', '2020-06-22'],
+      [2021, '2021-04-04', '2021-04-01', '2021-04-02', '2021-05-17', '2021-06-07', '2021-06-14'],
+      [2022, '2022-04-17', '2022-04-14', '2022-04-15', '2022-05-30', '2022-06-20', '2022-06-27'],
+      [2023, '2023-04-09', '2023-04-06', '2023-04-07', '2023-05-22', '2023-06-12', '2023-06-19'],
+      [2024, '2024-03-31', '2024-03-28', '2024-03-29', '2024-05-13', '2024-06-03', '2024-06-10'],
+      [2025, '2025-04-20', '2025-04-17', '2025-04-18', '2025-06-02', '2025-06-23', '2025-06-30'],
+      [2026, '2026-04-05', '2026-04-02', '2026-04-03', '2026-05-18', '2026-06-08', '2026-06-15'],
+      [2027, '2027-03-28', '2027-03-25', '2027-03-26', '2027-05-10', '2027-05-31', '2027-06-07'],
+      [2028, '2028-04-16', '2028-04-13', '2028-04-14', '2028-05-29', '2028-06-19', '2028-06-26'],
+      [2029, '2029-04-01', '2029-03-29', '2029-03-30', '2029-05-14', '2029-06-04', '2029-06-11'],
+      [2030, '2030-04-21', '2030-04-18', '2030-04-19', '2030-06-03', '2030-06-24', '2030-07-01'],
+      [2031, '2031-04-13', '2031-04-10', '2031-04-11', '2031-05-26', '2031-06-16', '2031-06-23'],
+      [2032, '2032-03-28', '2032-03-25', '2032-03-26', '2032-05-10', '2032-05-31', '2032-06-07'],
+      [2033, '2033-04-17', '2033-04-14', '2033-04-15', '2033-05-30', '2033-06-20', '2033-06-27'],
+      [2034, '2034-04-09', '2034-04-06', '2034-04-07', '2034-05-22', '2034-06-12', '2034-06-19'],
+      [2035, '2035-03-25', '2035-03-22', '2035-03-23', '2035-05-07', '2035-05-28', '2035-06-04']
+    ];
+
+    const findHoliday = (holidays: ColombianHoliday[], name: string) => {
+      const holiday = holidays.find(h => h.name === name);
+      expect(holiday).toBeDefined();
+      return formatPlainDate(inColombia(holiday!.date));
+    };
+
+    test.each(OFFICIAL_EASTER_HOLIDAYS)(
+      'should compute Easter Sunday for %i',
+      (year, easter) => {
+        expect(formatPlainDate(inColombia(getEasterSunday(year)))).toBe(easter);
+      }
+    );
+
+    test.each(OFFICIAL_EASTER_HOLIDAYS)(
+      'should match official Easter-based holidays for %i',
+      (year, _easter, holyThursday, goodFriday, ascension, corpusChristi, sacredHeart) => {
+        const holidays = getColombianHolidays(year);
+
+        expect(findHoliday(holidays, 'Jueves Santo')).toBe(holyThursday);
+        expect(findHoliday(holidays, 'Viernes Santo')).toBe(goodFriday);
+        expect(findHoliday(holidays, 'Ascensión del Señor')).toBe(ascension);
+        expect(findHoliday(holidays, 'Corpus Christi')).toBe(corpusChristi);
+        expect(findHoliday(holidays, 'Sagrado Corazón de Jesús')).toBe(sacredHeart);
+      }
+    );
+
+    test('should block Holy Week days in the booking calendar', () => {
+      expect(isColombianHoliday(date(2025, 4, 17))).toBe(true); // Jueves Santo
+      expect(isColombianHoliday(date(2025, 4, 18))).toBe(true); // Viernes Santo
+      expect(isColombianHoliday(date(2025, 4, 15))).toBe(false); // Old placeholder date
+    });
+  });
+
   describe('isColombianHoliday', () => {
     test('should correctly identify fixed holidays', () => {
       // New Year's Day 2025
-      expect(isColombianHoliday(new Date(2025, 0, 1))).toBe(true); // January 1
+      expect(isColombianHoliday(date(2025, 1, 1))).toBe(true); // January 1
       
       // Labor Day 2025
-      expect(isColombianHoliday(new Date(2025, 4, 1))).toBe(true); // May 1
+      expect(isColombianHoliday(date(2025, 5, 1))).toBe(true); // May 1
       
       // Independence Day 2025
-      expect(isColombianHoliday(new Date(2025, 6, 20))).toBe(true); // July 20
+      expect(isColombianHoliday(date(2025, 7, 20))).toBe(true); // July 20
       
       // Christmas 2025
-      expect(isColombianHoliday(new Date(2025, 11, 25))).toBe(true); // December 25
+      expect(isColombianHoliday(date(2025, 12, 25))).toBe(true); // December 25
     });
 
     test('should correctly identify non-holidays', () => {
       // Random dates that are not holidays
-      expect(isColombianHoliday(new Date(2025, 0, 15))).toBe(false); // January 15
-      expect(isColombianHoliday(new Date(2025, 5, 15))).toBe(false); // June 15
-      expect(isColombianHoliday(new Date(2025, 8, 15))).toBe(false); // September 15
+      expect(isColombianHoliday(date(2025, 1, 15))).toBe(false); // January 15
+      expect(isColombianHoliday(date(2025, 6, 15))).toBe(false); // June 15
+      expect(isColombianHoliday(date(2025, 9, 15))).toBe(false); // September 15
     });
 
     test('should handle year boundary correctly', () => {
-      expect(isColombianHoliday(new Date(2024, 11, 25))).toBe(true); // Christmas 2024
-      expect(isColombianHoliday(new Date(2025, 11, 25))).toBe(true); // Christmas 2025
+      expect(isColombianHoliday(date(2024, 12, 25))).toBe(true); // Christmas 2024
+      expect(isColombianHoliday(date(2025, 12, 25))).toBe(true); // Christmas 2025
     });
 
     test('should use holiday year context when provided', () => {
-      const testDate = new Date(2025, 0, 1); // January 1, 2025
+      const testDate = date(2025, 1, 1); // January 1, 2025
       expect(isColombianHoliday(testDate, 2025)).toBe(true);
       expect(isColombianHoliday(testDate, 2024)).toBe(false); // Using 2024 holiday context
     });
@@ -150,21 +215,22 @@ describe('Colombian Holiday Utilities', () => {
   describe('getNextHoliday', () => {
     test('should return next holiday from current date', () => {
       // Test with a date early in the year
-      const earlyDate = new Date(2025, 0, 2); // January 2, 2025
+      const earlyDate = date(2025, 1, 2); // January 2, 2025
       const nextHoliday = getNextHoliday(earlyDate);
       
       expect(nextHoliday).not.toBeNull();
       expect(nextHoliday!.date).toBeInstanceOf(Date);
-      expect(nextHoliday!.date > earlyDate).toBe(true);
+      expect(comparePlainDates(nextHoliday!.plainDate, earlyDate)).toBeGreaterThan(0);
+      expect(nextHoliday!.name).toBe('Día de los Reyes Magos');
     });
 
     test('should return next year holiday if no more holidays in current year', () => {
       // Test with a date late in the year after Christmas
-      const lateDate = new Date(2025, 11, 26); // December 26, 2025
+      const lateDate = date(2025, 12, 26); // December 26, 2025
       const nextHoliday = getNextHoliday(lateDate);
       
       expect(nextHoliday).not.toBeNull();
-      expect(nextHoliday!.date.getFullYear()).toBe(2026);
+      expect(nextHoliday!.plainDate).toEqual(date(2026, 1, 1));
     });
 
     test('should use current date when no date provided', () => {
@@ -177,11 +243,11 @@ describe('Colombian Holiday Utilities', () => {
   describe('isWorkingDay', () => {
     test('should identify weekdays as working days if not holidays', () => {
       // Monday through Friday that are not holidays
-      const monday = new Date(2025, 0, 6); // January 6, 2025 (but this is Epiphany, moved to Monday)
-      const tuesday = new Date(2025, 0, 7); // January 7, 2025
-      const wednesday = new Date(2025, 0, 8); // January 8, 2025
-      const thursday = new Date(2025, 0, 9); // January 9, 2025
-      const friday = new Date(2025, 0, 10); // January 10, 2025
+      const monday = date(2025, 1, 6); // January 6, 2025 (but this is Epiphany, moved to Monday)
+      const tuesday = date(2025, 1, 7); // January 7, 2025
+      const wednesday = date(2025, 1, 8); // January 8, 2025
+      const thursday = date(2025, 1, 9); // January 9, 2025
+      const friday = date(2025, 1, 10); // January 10, 2025
       
       expect(isWorkingDay(tuesday)).toBe(true);
       expect(isWorkingDay(wednesday)).toBe(true);
@@ -190,16 +256,16 @@ describe('Colombian Holiday Utilities', () => {
     });
 
     test('should identify weekends as non-working days', () => {
-      const saturday = new Date(2025, 0, 4); // January 4, 2025
-      const sunday = new Date(2025, 0, 5); // January 5, 2025
+      const saturday = date(2025, 1, 4); // January 4, 2025
+      const sunday = date(2025, 1, 5); // January 5, 2025
       
       expect(isWorkingDay(saturday)).toBe(false);
       expect(isWorkingDay(sunday)).toBe(false);
     });
 
     test('should identify holidays as non-working days even if weekdays', () => {
-      const newYearsDay = new Date(2025, 0, 1); // January 1, 2025 (Wednesday)
-      const laborDay = new Date(2025, 4, 1); // May 1, 2025 (Thursday)
+      const newYearsDay = date(2025, 1, 1); // January 1, 2025 (Wednesday)
+      const laborDay = date(2025, 5, 1); // May 1, 2025 (Thursday)
       
       expect(isWorkingDay(newYearsDay)).toBe(false);
       expect(isWorkingDay(laborDay)).toBe(false);
@@ -208,73 +274,115 @@ describe('Colombian Holiday Utilities', () => {
 
   describe('getNextWorkingDay', () => {
     test('should return next working day when current day is working day', () => {
-      const workingDay = new Date(2025, 0, 7); // January 7, 2025 (Tuesday, not a holiday)
+      const workingDay = date(2025, 1, 7); // January 7, 2025 (Tuesday, not a holiday)
       const nextWorking = getNextWorkingDay(workingDay, false);
       
       expect(isWorkingDay(nextWorking)).toBe(true);
-      expect(nextWorking > workingDay).toBe(true);
+      expect(nextWorking).toEqual(date(2025, 1, 8));
     });
 
     test('should skip weekends', () => {
-      const friday = new Date(2025, 0, 10); // January 10, 2025 (Friday)
+      const friday = date(2025, 1, 10); // January 10, 2025 (Friday)
       const nextWorking = getNextWorkingDay(friday, false);
       
       // Should skip weekend and go to Monday
-      expect(nextWorking.getDay()).toBe(1); // Monday
+      expect(getDayOfWeek(nextWorking)).toBe(1); // Monday
+      expect(nextWorking).toEqual(date(2025, 1, 13));
       expect(isWorkingDay(nextWorking)).toBe(true);
     });
 
     test('should skip holidays', () => {
-      const dayBeforeNewYear = new Date(2024, 11, 31); // December 31, 2024 (Tuesday)
+      const dayBeforeNewYear = date(2024, 12, 31); // December 31, 2024 (Tuesday)
       const nextWorking = getNextWorkingDay(dayBeforeNewYear, false);
       
       // Should skip New Year's Day
-      expect(nextWorking > new Date(2025, 0, 1)).toBe(true);
+      expect(nextWorking).toEqual(date(2025, 1, 2));
       expect(isWorkingDay(nextWorking)).toBe(true);
     });
 
     test('should include from date when includeFromDate is true', () => {
-      const workingDay = new Date(2025, 0, 7); // January 7, 2025 (Tuesday, working day)
+      const workingDay = date(2025, 1, 7); // January 7, 2025 (Tuesday, working day)
       const nextWorking = getNextWorkingDay(workingDay, true);
       
-      if (isWorkingDay(workingDay)) {
-        expect(nextWorking.toDateString()).toBe(workingDay.toDateString());
-      } else {
-        expect(nextWorking > workingDay).toBe(true);
-      }
+      expect(nextWorking).toEqual(workingDay);
     });
   });
 
   describe('getWorkingDaysBetween', () => {
     test('should count working days correctly between two dates', () => {
-      const startDate = new Date(2025, 0, 6); // January 6, 2025 (Monday)
-      const endDate = new Date(2025, 0, 13); // January 13, 2025 (Monday)
+      const startDate = date(2025, 1, 6); // January 6, 2025 (Monday)
+      const endDate = date(2025, 1, 13); // January 13, 2025 (Monday)
       
       const workingDays = getWorkingDaysBetween(startDate, endDate);
       
-      // Should count weekdays and exclude weekends and holidays
-      expect(workingDays).toBeGreaterThanOrEqual(0);
-      expect(workingDays).toBeLessThanOrEqual(7); // Maximum possible in a week
+      // Monday the 6th is Reyes Magos, leaving Tuesday to Friday
+      expect(workingDays).toBe(4);
     });
 
     test('should return 0 for same date', () => {
-      const date = new Date(2025, 0, 7);
-      const workingDays = getWorkingDaysBetween(date, date);
+      const tuesday = date(2025, 1, 7);
+      const workingDays = getWorkingDaysBetween(tuesday, tuesday);
       
       expect(workingDays).toBe(0);
     });
 
     test('should handle periods with holidays correctly', () => {
-      const beforeNewYear = new Date(2024, 11, 30); // December 30, 2024 (Monday)
-      const afterNewYear = new Date(2025, 0, 3); // January 3, 2025 (Friday)
+      const beforeNewYear = date(2024, 12, 30); // December 30, 2024 (Monday)
+      const afterNewYear = date(2025, 1, 3); // January 3, 2025 (Friday)
       
       const workingDays = getWorkingDaysBetween(beforeNewYear, afterNewYear);
       
       // Dec 30 (Mon), Dec 31 (Tue) are working days
       // Jan 1 (Wed) is holiday, Jan 2 (Thu) is working day
       // So should be 3 working days total
-      expect(workingDays).toBeGreaterThanOrEqual(2);
-      expect(workingDays).toBeLessThanOrEqual(4);
+      expect(workingDays).toBe(3);
+    });
+  });
+
+  describe.each(HOST_TIME_ZONES)('with the host time zone set to %s', hostTimeZone => {
+    const originalTimeZone = process.env.TZ;
+
+    beforeAll(() => {
+      process.env.TZ = hostTimeZone;
+    });
+
+    afterAll(() => {
+      process.env.TZ = originalTimeZone;
+    });
+
+    test('should compute the same holiday calendar dates', () => {
+      const holidays = getColombianHolidays(2025);
+
+      expect(holidays.map(holiday => formatPlainDate(holiday.plainDate))).toEqual([
+        '2025-01-01', '2025-01-06', '2025-03-24', '2025-04-17', '2025-04-18', '2025-05-01',
+        '2025-06-02', '2025-06-23', '2025-06-30', '2025-06-30', '2025-07-20', '2025-08-07',
+        '2025-08-18', '2025-10-13', '2025-11-03', '2025-11-17', '2025-12-08', '2025-12-25'
+      ]);
+    });
+
+    test('should find every holiday again from its date', () => {
+      [2024, 2025, 2026].forEach(year => {
+        getColombianHolidays(year).forEach(holiday => {
+          expect(inColombia(holiday.date)).toEqual(holiday.plainDate);
+          expect(isColombianHoliday(holiday.date)).toBe(true);
+          expect(isColombianHoliday(holiday.plainDate)).toBe(true);
+        });
+      });
+    });
+
+    test('should read instants on the Colombian calendar date', () => {
+      // 21:00 on Christmas Eve and 23:30 on Christmas in Bogotá, already the next day in UTC
+      expect(isColombianHoliday(new Date('2025-12-25T02:00:00Z'))).toBe(false);
+      expect(isColombianHoliday(new Date('2025-12-26T04:30:00Z'))).toBe(true);
+      expect(isWorkingDay(new Date('2025-12-26T04:30:00Z'))).toBe(false);
+    });
+
+    test('should count working days between instants in Colombian time', () => {
+      // Sunday 2024-12-29 23:00 to Friday 2025-01-03 00:30 in Bogotá
+      const workingDays = getWorkingDaysBetween(new Date('2024-12-30T04:00:00Z'), new Date('2025-01-03T05:30:00Z'));
+
+      expect(workingDays).toBe(3);
+      expect(getNextWorkingDay(new Date('2024-12-31T23:00:00Z'))).toEqual(date(2025, 1, 2));
     });
   });
 
@@ -1,9 +1,26 @@
 /**
  * Colombian holiday calendar utilities
- * Placeholder implementation for Epic 3 integration
- * Handles Colombian national holidays and working day calculations
+ * Handles Colombian national holidays and working day calculations.
+ * Holidays are calendar dates (PlainDate); Date arguments are read as instants
+ * in Colombian time, so results are the same on any host time zone.
+ * Pass createPlainDate(2025, 1, 1) for a calendar date: new Date(2025, 0, 1) is
+ * midnight on the host, which is still December 31 in Colombia on hosts east of it
  */
 
+import {
+  addDays,
+  comparePlainDates,
+  createPlainDate,
+  formatPlainDate,
+  getDayOfWeek,
+  getStartOfDay,
+  toPlainDate,
+  type PlainDate
+} from '../scheduling/zoned-date';
+
+// Holidays are observed on the Colombian calendar date
+const COLOMBIA_TIME_ZONE = 'America/Bogota';
+
 /**
  * Types of Colombian holidays
  */
@@ -14,12 +31,20 @@ export type HolidayType = 'national' | 'religious' | 'civic';
  */
 export interface ColombianHoliday {
   name: string;
+  // Instant the holiday starts in Colombia (midnight in America/Bogota), so passing it
+  // back to isColombianHoliday finds the holiday on any host. Format it in Colombian time
   date: Date;
+  plainDate: PlainDate; // The observed date, for comparisons and lookups
   type: HolidayType;
   isFixed: boolean; // Whether the date is fixed each year
   description?: string;
 }
 
+/**
+ * A calendar date, or an instant read in Colombian time
+ */
+export type HolidayDateInput = Date | PlainDate;
+
 /**
  * Fixed Colombian holidays (same date every year)
  * These dates never change and are always observed
@@ -47,20 +72,30 @@ const MONDAY_HOLIDAYS = [
   { month: 11, day: 11, name: 'Independencia de Cartagena', type: 'national' as const }
 ];
 
+// Calendar date of an argument: plain dates as given, instants in Colombian time
+const resolveDate = (date: HolidayDateInput): PlainDate =>
+  date instanceof Date ? toPlainDate(date, COLOMBIA_TIME_ZONE) : date;
+
+// Instant a calendar date starts in Colombia, kept in ColombianHoliday.date
+const toColombianMidnight = (date: PlainDate): Date => getStartOfDay(date, COLOMBIA_TIME_ZONE);
+
 /**
  * Gets all Colombian holidays for a given year
- * @param year - Year to get holidays for (defaults to current year)
+ * @param year - Year to get holidays for (defaults to the current year in Colombia)
  * @returns Array of Colombian holidays for the year
  */
 export function getColombianHolidays(year?: number): ColombianHoliday[] {
-  const targetYear = year || new Date().getFullYear();
+  const targetYear = year || toPlainDate(new Date(), COLOMBIA_TIME_ZONE).year;
   const holidays: ColombianHoliday[] = [];
 
   // Add fixed holidays
   FIXED_HOLIDAYS.forEach(holiday => {
+    const calendarDate = createPlainDate(targetYear, holiday.month, holiday.day);
+
     holidays.push({
       name: holiday.name,
-      date: new Date(targetYear, holiday.month - 1, holiday.day),
+      date: toColombianMidnight(calendarDate),
+      plainDate: calendarDate,
       type: holiday.type,
       isFixed: true
     });
@@ -68,32 +103,80 @@ export function getColombianHolidays(year?: number): ColombianHoliday[] {
 
   // Add Monday holidays (moved to following Monday if not on Monday)
   MONDAY_HOLIDAYS.forEach(holiday => {
-    const originalDate = new Date(targetYear, holiday.month - 1, holiday.day);
-    const dayOfWeek = originalDate.getDay();
-    
-    // If not Monday (1), move to the following Monday
-    let adjustedDate = originalDate;
-    if (dayOfWeek !== 1) {
-      const daysToAdd = dayOfWeek === 0 ? 1 : (8 - dayOfWeek); // Sunday = 0, Monday = 1
-      adjustedDate = new Date(originalDate);
-      adjustedDate.setDate(originalDate.getDate() + daysToAdd);
-    }
+    const originalDate = createPlainDate(targetYear, holiday.month, holiday.day);
+    const calendarDate = moveToNextMonday(originalDate);
 
     holidays.push({
       name: holiday.name,
-      date: adjustedDate,
+      date: toColombianMidnight(calendarDate),
+      plainDate: calendarDate,
       type: holiday.type,
       isFixed: false,
-      description: dayOfWeek !== 1 ? `Moved from ${originalDate.toDateString()}` : undefined
+      description: getDayOfWeek(originalDate) !== 1 ? `Moved from ${formatPlainDate(originalDate)}` : undefined
     });
   });
 
-  // Add Easter-based holidays (placeholder - would need proper Easter calculation)
+  // Add Easter-based holidays (Holy Week and Ley Emiliani Monday holidays)
   const easterHolidays = getEasterBasedHolidays(targetYear);
   holidays.push(...easterHolidays);
 
   // Sort by date
-  return holidays.sort((a, b) => a.date.getTime() - b.date.getTime());
+  return holidays.sort((a, b) => comparePlainDates(a.plainDate, b.plainDate));
+}
+
+/**
+ * Easter-based holidays as offsets (in days) from Easter Sunday
+ * Holidays flagged with moveToMonday are observed on the following Monday (Ley Emiliani)
+ */
+const EASTER_HOLIDAYS = [
+  { offset: -3, name: 'Jueves Santo', moveToMonday: false },
+  { offset: -2, name: 'Viernes Santo', moveToMonday: false },
+  { offset: 39, name: 'Ascensión del Señor', moveToMonday: true },
+  { offset: 60, name: 'Corpus Christi', moveToMonday: true },
+  { offset: 68, name: 'Sagrado Corazón de Jesús', moveToMonday: true }
+];
+
+// Easter Sunday in the Gregorian calendar (Anonymous Gregorian algorithm, Meeus/Jones/Butcher)
+function getEasterDate(year: number): PlainDate {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+
+  return { year, month, day };
+}
+
+/**
+ * Calculates Easter Sunday for a year in the Gregorian calendar
+ * Uses the Anonymous Gregorian algorithm (Meeus/Jones/Butcher)
+ * @param year - Year to calculate for
+ * @returns Instant Easter Sunday starts in Colombia
+ */
+export function getEasterSunday(year: number): Date {
+  return toColombianMidnight(getEasterDate(year));
+}
+
+/**
+ * Moves a date to the following Monday unless it already is one (Ley Emiliani)
+ * @param date - Original holiday date
+ * @returns Observed holiday date
+ */
+function moveToNextMonday(date: PlainDate): PlainDate {
+  const dayOfWeek = getDayOfWeek(date);
+  if (dayOfWeek === 1) return date;
+
+  const daysToAdd = dayOfWeek === 0 ? 1 : (8 - dayOfWeek); // Sunday = 0, Monday = 1
+  return addDays(date, daysToAdd);
 }
 
 /**
@@ -102,162 +185,93 @@ export function getColombianHolidays(year?: number): ColombianHoliday[] {
  * @returns Array of Easter-based holidays
  */
 function getEasterBasedHolidays(year: number): ColombianHoliday[] {
-  // Placeholder implementation - in a real system, this would calculate Easter
-  // and then derive other holidays like Holy Week, Ascension Day, etc.
-  // For now, we'll use approximate dates
-  
-  // This is a simplified placeholder - real implementation would use Easter algorithm
-  const approximateEaster = new Date(year, 3, 15); // April 15 as placeholder
-  
-  const holidays: ColombianHoliday[] = [];
-  
-  // Holy Thursday (Jueves Santo) - day before Good Friday
-  const holyThursday = new Date(approximateEaster);
-  holyThursday.setDate(approximateEaster.getDate() - 3);
-  holidays.push({
-    name: 'Jueves Santo',
-    date: holyThursday,
-    type: 'religious',
-    isFixed: false,
-    description: 'Easter-based holiday'
-  });
-
-  // Good Friday (Viernes Santo) - Friday before Easter
-  const goodFriday = new Date(approximateEaster);
-  goodFriday.setDate(approximateEaster.getDate() - 2);
-  holidays.push({
-    name: 'Viernes Santo',
-    date: goodFriday,
-    type: 'religious',
-    isFixed: false,
-    description: 'Easter-based holiday'
-  });
-
-  // Ascension Day (moved to Monday)
-  const ascensionDay = new Date(approximateEaster);
-  ascensionDay.setDate(approximateEaster.getDate() + 39);
-  // Move to following Monday
-  const ascensionDayOfWeek = ascensionDay.getDay();
-  if (ascensionDayOfWeek !== 1) {
-    const daysToAdd = ascensionDayOfWeek === 0 ? 1 : (8 - ascensionDayOfWeek);
-    ascensionDay.setDate(ascensionDay.getDate() + daysToAdd);
-  }
-  holidays.push({
-    name: 'Ascensión del Señor',
-    date: ascensionDay,
-    type: 'religious',
-    isFixed: false,
-    description: 'Easter-based holiday (moved to Monday)'
-  });
+  const easter = getEasterDate(year);
 
-  // Corpus Christi (moved to Monday)
-  const corpusChristi = new Date(approximateEaster);
-  corpusChristi.setDate(approximateEaster.getDate() + 60);
-  // Move to following Monday
-  const corpusChristiDayOfWeek = corpusChristi.getDay();
-  if (corpusChristiDayOfWeek !== 1) {
-    const daysToAdd = corpusChristiDayOfWeek === 0 ? 1 : (8 - corpusChristiDayOfWeek);
-    corpusChristi.setDate(corpusChristi.getDate() + daysToAdd);
-  }
-  holidays.push({
-    name: 'Corpus Christi',
-    date: corpusChristi,
-    type: 'religious',
-    isFixed: false,
-    description: 'Easter-based holiday (moved to Monday)'
-  });
+  return EASTER_HOLIDAYS.map(holiday => {
+    const originalDate = addDays(easter, holiday.offset);
+    const calendarDate = holiday.moveToMonday ? moveToNextMonday(originalDate) : originalDate;
 
-  // Sacred Heart (moved to Monday)
-  const sacredHeart = new Date(approximateEaster);
-  sacredHeart.setDate(approximateEaster.getDate() + 68);
-  // Move to following Monday
-  const sacredHeartDayOfWeek = sacredHeart.getDay();
-  if (sacredHeartDayOfWeek !== 1) {
-    const daysToAdd = sacredHeartDayOfWeek === 0 ? 1 : (8 - sacredHeartDayOfWeek);
-    sacredHeart.setDate(sacredHeart.getDate() + daysToAdd);
-  }
-  holidays.push({
-    name: 'Sagrado Corazón de Jesús',
-    date: sacredHeart,
-    type: 'religious',
-    isFixed: false,
-    description: 'Easter-based holiday (moved to Monday)'
+    return {
+      name: holiday.name,
+      date: toColombianMidnight(calendarDate),
+      plainDate: calendarDate,
+      type: 'religious' as const,
+      isFixed: false,
+      description: holiday.moveToMonday ? 'Easter-based holiday (moved to Monday)' : 'Easter-based holiday'
+    };
   });
+}
 
-  return holidays;
+/**
+ * Finds the Colombian holiday on a date
+ * @param date - Calendar date, or an instant read in Colombian time
+ * @param year - Year context (defaults to the year of the date)
+ * @returns The holiday, or undefined if the date is not a holiday
+ */
+export function findColombianHoliday(date: HolidayDateInput, year?: number): ColombianHoliday | undefined {
+  const calendarDate = resolveDate(date);
+  return getColombianHolidays(year || calendarDate.year)
+    .find(holiday => comparePlainDates(holiday.plainDate, calendarDate) === 0);
 }
 
 /**
  * Checks if a given date is a Colombian holiday
- * @param date - Date to check
+ * @param date - Calendar date, or an instant read in Colombian time
  * @param year - Year context (defaults to the year of the provided date)
  * @returns true if the date is a Colombian holiday
  */
-export function isColombianHoliday(date: Date, year?: number): boolean {
-  const targetYear = year || date.getFullYear();
-  const holidays = getColombianHolidays(targetYear);
-  
-  const dateString = date.toDateString();
-  return holidays.some(holiday => holiday.date.toDateString() === dateString);
+export function isColombianHoliday(date: HolidayDateInput, year?: number): boolean {
+  return findColombianHoliday(date, year) !== undefined;
 }
 
 /**
- * Gets the next Colombian holiday from a given date
- * @param fromDate - Starting date (defaults to today)
- * @returns Next holiday or null if no upcoming holiday in the year
+ * Gets the next Colombian holiday after a given date
+ * @param fromDate - Starting date (defaults to today in Colombia)
+ * @returns Next holiday, looking into the following year when needed
  */
-export function getNextHoliday(fromDate?: Date): ColombianHoliday | null {
-  const startDate = fromDate || new Date();
-  const year = startDate.getFullYear();
-  const holidays = getColombianHolidays(year);
-
-  // Find the next holiday
-  const nextHoliday = holidays.find(holiday => holiday.date > startDate);
-  
-  // If no holiday found in current year, check next year
-  if (!nextHoliday) {
-    const nextYearHolidays = getColombianHolidays(year + 1);
-    return nextYearHolidays.length > 0 ? nextYearHolidays[0] : null;
-  }
+export function getNextHoliday(fromDate?: HolidayDateInput): ColombianHoliday | null {
+  const startDate = resolveDate(fromDate || new Date());
+  const holidays = [...getColombianHolidays(startDate.year), ...getColombianHolidays(startDate.year + 1)];
 
-  return nextHoliday;
+  return holidays.find(holiday => comparePlainDates(holiday.plainDate, startDate) > 0) || null;
 }
 
 /**
  * Checks if a date is a working day (Monday-Friday and not a holiday)
- * @param date - Date to check
+ * @param date - Calendar date, or an instant read in Colombian time
  * @returns true if it's a working day
  */
-export function isWorkingDay(date: Date): boolean {
-  const dayOfWeek = date.getDay();
-  
+export function isWorkingDay(date: HolidayDateInput): boolean {
+  const calendarDate = resolveDate(date);
+  const dayOfWeek = getDayOfWeek(calendarDate);
+
   // Check if it's a weekend (Sunday = 0, Saturday = 6)
   if (dayOfWeek === 0 || dayOfWeek === 6) {
     return false;
   }
 
   // Check if it's a holiday
-  return !isColombianHoliday(date);
+  return !isColombianHoliday(calendarDate);
 }
 
 /**
  * Gets the next working day from a given date
- * @param fromDate - Starting date (defaults to today)
+ * @param fromDate - Starting date (defaults to today in Colombia)
  * @param includeFromDate - Whether to include the from date in consideration
- * @returns Next working day
+ * @returns Next working day as a calendar date (a Date before the zoned date layer)
  */
-export function getNextWorkingDay(fromDate?: Date, includeFromDate: boolean = false): Date {
-  const startDate = fromDate ? new Date(fromDate) : new Date();
-  
+export function getNextWorkingDay(fromDate?: HolidayDateInput, includeFromDate: boolean = false): PlainDate {
+  let date = resolveDate(fromDate || new Date());
+
   if (!includeFromDate) {
-    startDate.setDate(startDate.getDate() + 1);
+    date = addDays(date, 1);
   }
 
-  while (!isWorkingDay(startDate)) {
-    startDate.setDate(startDate.getDate() + 1);
+  while (!isWorkingDay(date)) {
+    date = addDays(date, 1);
   }
 
-  return startDate;
+  return date;
 }
 
 /**
@@ -266,15 +280,14 @@ export function getNextWorkingDay(fromDate?: Date, includeFromDate: boolean = fa
  * @param endDate - End date
  * @returns Number of working days between the dates
  */
-export function getWorkingDaysBetween(startDate: Date, endDate: Date): number {
+export function getWorkingDaysBetween(startDate: HolidayDateInput, endDate: HolidayDateInput): number {
+  const end = resolveDate(endDate);
   let count = 0;
-  const currentDate = new Date(startDate);
-  
-  while (currentDate < endDate) {
-    if (isWorkingDay(currentDate)) {
+
+  for (let date = resolveDate(startDate); comparePlainDates(date, end) < 0; date = addDays(date, 1)) {
+    if (isWorkingDay(date)) {
       count++;
     }
-    currentDate.setDate(currentDate.getDate() + 1);
   }
 
   return count;
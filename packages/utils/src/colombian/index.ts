@@ -8,7 +8,11 @@ export {
   formatColombianPhone,
   validateColombianPhone,
   getColombianMobileNumber,
-  formatPhoneForDisplay
+  formatPhoneForDisplay,
+  classifyColombianPhone,
+  type ColombianPhoneType,
+  type ColombianPhoneInfo,
+  type LandlineArea
 } from './phone';
 
 // Currency utilities  
@@ -26,7 +30,6 @@ export {
 // Departments and geographical utilities
 export {
   COLOMBIAN_DEPARTMENTS,
-  MAJOR_CITIES_BY_DEPARTMENT,
   DEPARTMENTS_BY_REGION,
   isValidColombianDepartment,
   getCitiesByDepartment,
@@ -37,12 +40,41 @@ export {
   type ColombianRegion
 } from './departments';
 
+// DANE DIVIPOLA municipality catalog
+export {
+  COLOMBIAN_MUNICIPALITIES,
+  normalizePlaceName,
+  getMunicipalityByCode,
+  getMunicipalitiesByDepartment,
+  findMunicipality,
+  searchMunicipalities,
+  type ColombianMunicipality,
+  type MunicipalitySearchOptions
+} from './municipalities';
+
+// Street address parsing and normalization
+export {
+  parseColombianAddress,
+  formatColombianAddress,
+  normalizeColombianAddress,
+  type ColombianViaType,
+  type AddressQuadrant,
+  type AddressComplementType,
+  type AddressComplement,
+  type ParsedColombianAddress
+} from './address';
+
 // Holiday calendar utilities
 export {
   type ColombianHoliday,
   type HolidayType,
+  type HolidayDateInput,
   getColombianHolidays,
+  findColombianHoliday,
   isColombianHoliday,
+  getEasterSunday,
   getNextHoliday,
-  isWorkingDay
+  isWorkingDay,
+  getNextWorkingDay,
+  getWorkingDaysBetween
 } from './holidays';
\ No newline at end of file
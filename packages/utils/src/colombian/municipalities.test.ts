@@ -0,0 +1,124 @@
+/**
+ * Tests for the DANE DIVIPOLA municipality catalog
+ */
+
+import { COLOMBIAN_DEPARTMENTS } from './departments';
+import {
+  COLOMBIAN_MUNICIPALITIES,
+  normalizePlaceName,
+  getMunicipalityByCode,
+  getMunicipalitiesByDepartment,
+  findMunicipality,
+  searchMunicipalities
+} from './municipalities';
+
+describe('Colombian Municipality Utilities', () => {
+  describe('COLOMBIAN_MUNICIPALITIES', () => {
+    test('should cover every department with DANE-coded municipalities', () => {
+      COLOMBIAN_DEPARTMENTS.forEach(department => {
+        const municipalities = getMunicipalitiesByDepartment(department);
+        expect(municipalities.length).toBeGreaterThan(0);
+        municipalities.forEach(municipality => {
+          expect(municipality.code).toMatch(/^\d{5}$/);
+          expect(municipality.code.startsWith(municipality.departmentCode)).toBe(true);
+        });
+      });
+    });
+
+    test('should not repeat DANE codes', () => {
+      const codes = COLOMBIAN_MUNICIPALITIES.map(municipality => municipality.code);
+      expect(new Set(codes).size).toBe(codes.length);
+      expect(codes.length).toBeGreaterThan(1100);
+    });
+
+    test('should give each department capital the 001 code', () => {
+      expect(getMunicipalityByCode('05001')?.name).toBe('Medellín');
+      expect(getMunicipalityByCode('11001')?.name).toBe('Bogotá');
+      expect(getMunicipalityByCode('76001')?.name).toBe('Cali');
+      expect(getMunicipalityByCode('91001')?.name).toBe('Leticia');
+    });
+  });
+
+  describe('normalizePlaceName', () => {
+    test('should drop case, accents and punctuation', () => {
+      expect(normalizePlaceName('Bogotá, D.C.')).toBe('bogota d c');
+      expect(normalizePlaceName('  Itagüí ')).toBe('itagui');
+      expect(normalizePlaceName('Piendamó - Tunía')).toBe('piendamo tunia');
+    });
+  });
+
+  describe('getMunicipalityByCode', () => {
+    test('should return the municipality with its department', () => {
+      expect(getMunicipalityByCode('15407')).toEqual({
+        code: '15407',
+        name: 'Villa de Leyva',
+        department: 'Boyacá',
+        departmentCode: '15'
+      });
+    });
+
+    test('should return null for unknown codes', () => {
+      expect(getMunicipalityByCode('99999')).toBeNull();
+      expect(getMunicipalityByCode('')).toBeNull();
+    });
+  });
+
+  describe('findMunicipality', () => {
+    test('should match names ignoring case and accents', () => {
+      expect(findMunicipality('medellin')?.code).toBe('05001');
+      expect(findMunicipality('ZIPAQUIRA')?.code).toBe('25899');
+    });
+
+    test('should accept common names of municipalities', () => {
+      expect(findMunicipality('Cúcuta')?.name).toBe('San José de Cúcuta');
+      expect(findMunicipality('Cartagena')?.name).toBe('Cartagena de Indias');
+      expect(findMunicipality('Bogotá D.C.')?.code).toBe('11001');
+    });
+
+    test('should restrict repeated names to the given department', () => {
+      expect(findMunicipality('Buenavista', 'Sucre')?.code).toBe('70110');
+      expect(findMunicipality('Buenavista', 'Quindío')?.code).toBe('63111');
+      expect(findMunicipality('Medellín', 'Cundinamarca')).toBeNull();
+    });
+
+    test('should not match partial names', () => {
+      expect(findMunicipality('Medel')).toBeNull();
+      expect(findMunicipality('')).toBeNull();
+    });
+  });
+
+  describe('searchMunicipalities', () => {
+    test('should rank exact and prefix matches first', () => {
+      const results = searchMunicipalities('san gil');
+      expect(results[0].code).toBe('68679');
+
+      expect(searchMunicipalities('pere')[0].name).toBe('Pereira');
+    });
+
+    test('should match words inside longer names', () => {
+      const names = searchMunicipalities('leyva').map(municipality => municipality.name);
+      expect(names).toContain('Villa de Leyva');
+    });
+
+    test('should ignore accents in the query', () => {
+      expect(searchMunicipalities('Bogota')[0].code).toBe('11001');
+      expect(searchMunicipalities('itagui')[0].name).toBe('Itagüí');
+    });
+
+    test('should tolerate a typo', () => {
+      expect(searchMunicipalities('Barranqilla')[0].name).toBe('Barranquilla');
+      expect(searchMunicipalities('Bucaramnga')[0].name).toBe('Bucaramanga');
+    });
+
+    test('should filter by department and respect the limit', () => {
+      const results = searchMunicipalities('san', { department: 'Antioquia', limit: 3 });
+      expect(results).toHaveLength(3);
+      results.forEach(municipality => expect(municipality.department).toBe('Antioquia'));
+    });
+
+    test('should return nothing for empty or unknown queries', () => {
+      expect(searchMunicipalities('')).toEqual([]);
+      expect(searchMunicipalities('New York')).toEqual([]);
+    });
+  });
+});
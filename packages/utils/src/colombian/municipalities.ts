@@ -0,0 +1,165 @@
+/**
+ * Colombian municipality utilities
+ * Lookup and search over the DANE DIVIPOLA catalog
+ */
+
+import type { ColombianDepartment } from './departments';
+import { DIVIPOLA, MUNICIPALITY_ALIASES } from './divipola';
+
+/**
+ * Municipality from the DIVIPOLA catalog
+ */
+export interface ColombianMunicipality {
+  code: string; // 5-digit DANE code
+  name: string;
+  department: ColombianDepartment;
+  departmentCode: string; // 2-digit DANE code
+}
+
+/**
+ * Options for municipality search
+ */
+export interface MunicipalitySearchOptions {
+  department?: ColombianDepartment;
+  limit?: number;
+}
+
+/**
+ * All municipalities, ordered by department and DANE code
+ */
+export const COLOMBIAN_MUNICIPALITIES: readonly ColombianMunicipality[] = Object.entries(DIVIPOLA).flatMap(
+  ([department, { code: departmentCode, municipalities }]) =>
+    municipalities.map(([code, name]) => ({
+      code,
+      name,
+      department: department as ColombianDepartment,
+      departmentCode
+    }))
+);
+
+// Rank returned by matchRank when a name does not match the query
+const NO_MATCH = 5;
+
+const MUNICIPALITIES_BY_CODE = new Map(COLOMBIAN_MUNICIPALITIES.map(municipality => [municipality.code, municipality]));
+
+// Normalized official name plus aliases, computed once for lookups. Department capitals
+// (code XX001) go first so a bare "Armenia" means the Quindío capital, not the Antioquia town
+const SEARCH_INDEX = [...COLOMBIAN_MUNICIPALITIES]
+  .sort((a, b) => Number(!isDepartmentCapital(a)) - Number(!isDepartmentCapital(b)))
+  .map(municipality => ({
+    municipality,
+    names: [municipality.name, ...(MUNICIPALITY_ALIASES[municipality.code] || [])].map(normalizePlaceName)
+  }));
+
+/**
+ * Normalizes a place name for comparison: lowercase, no accents or punctuation,
+ * single spaces ("Bogotá, D.C." -> "bogota d c")
+ * @param value - Place name
+ * @returns Normalized name
+ */
+export function normalizePlaceName(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Gets a municipality by its DANE code
+ * @param code - 5-digit DANE code
+ * @returns Municipality or null if the code is unknown
+ */
+export function getMunicipalityByCode(code: string): ColombianMunicipality | null {
+  return MUNICIPALITIES_BY_CODE.get(code) || null;
+}
+
+/**
+ * Gets all municipalities of a department
+ * @param department - Colombian department
+ * @returns Municipalities ordered by DANE code, or empty array if department not found
+ */
+export function getMunicipalitiesByDepartment(department: ColombianDepartment): ColombianMunicipality[] {
+  return COLOMBIAN_MUNICIPALITIES.filter(municipality => municipality.department === department);
+}
+
+/**
+ * Finds a municipality by name, ignoring case and accents and accepting common aliases
+ * @param name - Municipality name (e.g. "medellin", "Cúcuta")
+ * @param department - Restricts the match to one department; names like "Buenavista" repeat across departments
+ * @returns First matching municipality (department capitals first) or null
+ */
+export function findMunicipality(name: string, department?: ColombianDepartment): ColombianMunicipality | null {
+  const normalized = normalizePlaceName(name || '');
+  if (!normalized) return null;
+
+  const entry = SEARCH_INDEX.find(({ municipality, names }) =>
+    (!department || municipality.department === department) && names.includes(normalized)
+  );
+  return entry ? entry.municipality : null;
+}
+
+/**
+ * Searches municipalities for autocomplete, ignoring case and accents
+ * Ranks exact names first, then prefixes, word prefixes, substrings and finally
+ * names within one typo of the query; ties list department capitals first
+ * @param query - Text typed by the user
+ * @param options - Optional department filter and result limit (default 10)
+ * @returns Matching municipalities, best first
+ */
+export function searchMunicipalities(query: string, options: MunicipalitySearchOptions = {}): ColombianMunicipality[] {
+  const { department, limit = 10 } = options;
+  const normalized = normalizePlaceName(query || '');
+  if (!normalized) return [];
+
+  const ranked: Array<{ municipality: ColombianMunicipality; rank: number }> = [];
+
+  for (const { municipality, names } of SEARCH_INDEX) {
+    if (department && municipality.department !== department) continue;
+
+    const rank = Math.min(...names.map(name => matchRank(name, normalized)));
+    if (rank < NO_MATCH) {
+      ranked.push({ municipality, rank });
+    }
+  }
+
+  return ranked
+    .sort((a, b) => a.rank - b.rank)
+    .slice(0, limit)
+    .map(({ municipality }) => municipality);
+}
+
+function isDepartmentCapital(municipality: ColombianMunicipality): boolean {
+  return municipality.code.endsWith('001');
+}
+
+/**
+ * Match quality of a normalized name against a normalized query (lower is better)
+ */
+function matchRank(name: string, query: string): number {
+  if (name === query) return 0;
+  if (name.startsWith(query)) return 1;
+  if (name.split(' ').some(word => word.startsWith(query))) return 2;
+  if (name.includes(query)) return 3;
+  // Typo tolerance only for queries long enough to be meaningful
+  if (query.length >= 4 && isWithinOneEdit(name.substring(0, query.length + 1), query)) return 4;
+  return NO_MATCH;
+}
+
+/**
+ * Whether a string equals the query or its prefix after one insertion, deletion or substitution
+ */
+function isWithinOneEdit(candidate: string, query: string): boolean {
+  for (let i = 0; i < query.length; i++) {
+    if (candidate[i] !== query[i]) {
+      const rest = query.substring(i + 1);
+      return (
+        candidate.substring(i + 1).startsWith(rest) || // wrong letter
+        candidate.substring(i).startsWith(rest) || // extra letter in the query
+        candidate.substring(i + 1).startsWith(query.substring(i)) // missing letter in the query
+      );
+    }
+  }
+  return true;
+}
@@ -6,7 +6,8 @@ import {
   formatColombianPhone,
   validateColombianPhone,
   getColombianMobileNumber,
-  formatPhoneForDisplay
+  formatPhoneForDisplay,
+  classifyColombianPhone
 } from './phone';
 
 describe('Colombian Phone Utilities', () => {
@@ -56,6 +57,22 @@ describe('Colombian Phone Utilities', () => {
       // 350-353 range (Avantel)
       expect(formatColombianPhone('3502345678')).toBe('+57 350 234 5678');
       expect(formatColombianPhone('3532345678')).toBe('+57 353 234 5678');
+
+      // Newer mobile blocks
+      expect(formatColombianPhone('3242345678')).toBe('+57 324 234 5678');
+      expect(formatColombianPhone('3332345678')).toBe('+57 333 234 5678');
+    });
+
+    test('should format unified-dialing landlines', () => {
+      expect(formatColombianPhone('6012345678')).toBe('+57 601 234 5678');
+      expect(formatColombianPhone('(604) 444 5566')).toBe('+57 604 444 5566');
+      expect(formatColombianPhone('576082345678')).toBe('+57 608 234 5678');
+    });
+
+    test('should reject 60X indicatives that are not assigned', () => {
+      expect(formatColombianPhone('6002345678')).toBeNull();
+      expect(formatColombianPhone('6032345678')).toBeNull();
+      expect(formatColombianPhone('6092345678')).toBeNull();
     });
   });
 
@@ -76,8 +93,15 @@ describe('Colombian Phone Utilities', () => {
     test('should reject invalid prefixes even with correct format', () => {
       expect(validateColombianPhone('+57 200 234 5678')).toBe(false);
       expect(validateColombianPhone('+57 400 234 5678')).toBe(false);
-      expect(validateColombianPhone('+57 309 234 5678')).toBe(false); // 309 not in valid range
-      expect(validateColombianPhone('+57 322 234 5678')).toBe(false); // 322 not in valid range
+      expect(validateColombianPhone('+57 603 234 5678')).toBe(false); // 603 is not an area indicative
+      expect(validateColombianPhone('+57 700 234 5678')).toBe(false);
+    });
+
+    test('should validate mobiles across the 3XX block and landlines', () => {
+      expect(validateColombianPhone('+57 309 234 5678')).toBe(true);
+      expect(validateColombianPhone('+57 322 234 5678')).toBe(true);
+      expect(validateColombianPhone('+57 601 234 5678')).toBe(true);
+      expect(validateColombianPhone('+57 607 634 5678')).toBe(true);
     });
 
     test('should handle empty or null input', () => {
@@ -99,6 +123,43 @@ describe('Colombian Phone Utilities', () => {
     });
   });
 
+  describe('classifyColombianPhone', () => {
+    test('should classify mobiles with their original carrier', () => {
+      expect(classifyColombianPhone('300 123 4567')).toEqual({
+        type: 'mobile',
+        formatted: '+57 300 123 4567',
+        e164: '+573001234567',
+        nationalNumber: '3001234567',
+        carrier: 'Tigo',
+        area: null
+      });
+      expect(classifyColombianPhone('3151234567')?.carrier).toBe('Movistar');
+      expect(classifyColombianPhone('3241234567')?.carrier).toBe('Claro');
+    });
+
+    test('should leave the carrier empty for blocks without a known assignment', () => {
+      expect(classifyColombianPhone('3331234567')).toMatchObject({ type: 'mobile', carrier: null });
+    });
+
+    test('should classify landlines with their area', () => {
+      expect(classifyColombianPhone('+57 601 234 5678')).toEqual({
+        type: 'landline',
+        formatted: '+57 601 234 5678',
+        e164: '+576012345678',
+        nationalNumber: '6012345678',
+        carrier: null,
+        area: { code: '601', departments: ['Bogotá D.C.', 'Cundinamarca'] }
+      });
+      expect(classifyColombianPhone('6044445566')?.area?.departments).toContain('Antioquia');
+    });
+
+    test('should return null for invalid numbers', () => {
+      expect(classifyColombianPhone('')).toBeNull();
+      expect(classifyColombianPhone('6032345678')).toBeNull();
+      expect(classifyColombianPhone('12345')).toBeNull();
+    });
+  });
+
   describe('formatPhoneForDisplay', () => {
     test('should format with country code by default', () => {
       expect(formatPhoneForDisplay('3012345678')).toBe('+57 301 234 5678');
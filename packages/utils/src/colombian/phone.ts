@@ -1,12 +1,61 @@
 /**
  * Colombian phone number utilities
- * Handles formatting and validation of Colombian phone numbers
+ * Handles formatting, validation and classification of Colombian phone numbers
  */
 
+import type { ColombianDepartment } from './departments';
+
 // Colombian phone number regex pattern: +57 XXX XXX XXXX
 const COLOMBIAN_PHONE_REGEX = /^\+57 [0-9]{3} [0-9]{3} [0-9]{4}$/;
 const DIGITS_ONLY_REGEX = /^\d{10}$/;
 
+export type ColombianPhoneType = 'mobile' | 'landline';
+
+export interface LandlineArea {
+  // Unified-dialing indicative (601, 602, 604-608)
+  code: string;
+  departments: ColombianDepartment[];
+}
+
+export interface ColombianPhoneInfo {
+  type: ColombianPhoneType;
+  // Display/storage format: +57 XXX XXX XXXX
+  formatted: string;
+  // E.164: +57XXXXXXXXXX
+  e164: string;
+  // 10-digit national number
+  nationalNumber: string;
+  // Operator the mobile block was originally assigned to; numbers can be ported, so this
+  // is a hint only. Null for landlines and for blocks without a known assignment
+  carrier: string | null;
+  // Geographic area of a landline, null for mobiles
+  area: LandlineArea | null;
+}
+
+// Original assignment of the mobile blocks (NDC 3XX)
+const MOBILE_CARRIERS: Record<string, string> = {
+  '300': 'Tigo', '301': 'Tigo', '302': 'Tigo', '304': 'Tigo', '305': 'Tigo',
+  '310': 'Claro', '311': 'Claro', '312': 'Claro', '313': 'Claro', '314': 'Claro',
+  '315': 'Movistar', '316': 'Movistar', '317': 'Movistar', '318': 'Movistar',
+  '319': 'Virgin Mobile',
+  '320': 'Claro', '321': 'Claro', '322': 'Claro', '323': 'Claro', '324': 'Claro',
+  '350': 'Avantel', '351': 'Avantel'
+};
+
+// Landline indicatives since unified dialing (2021): 60 + one area digit
+const LANDLINE_AREAS: Record<string, ColombianDepartment[]> = {
+  '601': ['Bogotá D.C.', 'Cundinamarca'],
+  '602': ['Valle del Cauca', 'Cauca', 'Nariño'],
+  '604': ['Antioquia', 'Córdoba', 'Chocó'],
+  '605': ['Atlántico', 'Bolívar', 'Cesar', 'La Guajira', 'Magdalena', 'Sucre', 'San Andrés y Providencia'],
+  '606': ['Caldas', 'Quindío', 'Risaralda'],
+  '607': ['Santander', 'Norte de Santander', 'Arauca'],
+  '608': [
+    'Boyacá', 'Tolima', 'Huila', 'Meta', 'Caquetá', 'Casanare', 'Putumayo',
+    'Amazonas', 'Guainía', 'Guaviare', 'Vaupés', 'Vichada'
+  ]
+};
+
 /**
  * Formats a Colombian phone number to the standard format: +57 XXX XXX XXXX
  * @param phone - Phone number string (can be various formats)
@@ -40,7 +89,7 @@ export function formatColombianPhone(phone: string): string | null {
     return null;
   }
 
-  // Validate Colombian mobile prefixes (301-305, 310-321, 350-353)
+  // Validate Colombian mobile (3XX) and landline (60X) prefixes
   const prefix = cleanDigits.substring(0, 3);
   if (!isValidColombianPrefix(prefix)) {
     return null;
@@ -69,27 +118,54 @@ export function validateColombianPhone(phone: string): boolean {
 }
 
 /**
- * Validates Colombian mobile phone prefixes
+ * Validates Colombian phone prefixes
  * @param prefix - 3-digit prefix
- * @returns true if valid Colombian mobile prefix
+ * @returns true if valid Colombian mobile or landline prefix
  */
 function isValidColombianPrefix(prefix: string): boolean {
-  const prefixNum = parseInt(prefix, 10);
-  
-  return (
-    // 301-305 (Comcel/Tigo)
-    (prefixNum >= 301 && prefixNum <= 305) ||
-    // 310-321 (Movistar/Claro)
-    (prefixNum >= 310 && prefixNum <= 321) ||
-    // 350-353 (Avantel)
-    (prefixNum >= 350 && prefixNum <= 353)
-  );
+  return getPhoneTypeByPrefix(prefix) !== null;
+}
+
+/**
+ * Tells mobiles from landlines by their 3-digit prefix
+ * @param prefix - 3-digit prefix
+ * @returns Phone type or null if the prefix is not a Colombian one
+ */
+function getPhoneTypeByPrefix(prefix: string): ColombianPhoneType | null {
+  // The whole 3XX block is reserved for mobile networks
+  if (/^3\d{2}$/.test(prefix)) return 'mobile';
+  if (prefix in LANDLINE_AREAS) return 'landline';
+  return null;
+}
+
+/**
+ * Classifies a Colombian phone number as mobile or landline
+ * @param phone - Phone number string (same inputs as formatColombianPhone)
+ * @returns Type, normalized forms and carrier/area metadata, or null if invalid
+ */
+export function classifyColombianPhone(phone: string): ColombianPhoneInfo | null {
+  const formatted = formatColombianPhone(phone);
+  if (!formatted) return null;
+
+  const nationalNumber = formatted.replace(/\D/g, '').substring(2);
+  const prefix = nationalNumber.substring(0, 3);
+  const type = getPhoneTypeByPrefix(prefix);
+  if (!type) return null;
+
+  return {
+    type,
+    formatted,
+    e164: `+57${nationalNumber}`,
+    nationalNumber,
+    carrier: type === 'mobile' ? MOBILE_CARRIERS[prefix] ?? null : null,
+    area: type === 'landline' ? { code: prefix, departments: LANDLINE_AREAS[prefix] } : null
+  };
 }
 
 /**
- * Extracts just the mobile number without country code
+ * Extracts just the national number without country code
  * @param phone - Formatted Colombian phone number
- * @returns 10-digit mobile number or null
+ * @returns 10-digit mobile or landline number or null
  */
 export function getColombianMobileNumber(phone: string): string | null {
   if (!validateColombianPhone(phone)) {
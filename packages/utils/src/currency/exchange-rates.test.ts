@@ -0,0 +1,43 @@
+/**
+ * Tests for exchange rate utilities
+ */
+
+import { findExchangeRate, convertAmount, type ExchangeRateQuote } from './exchange-rates';
+
+describe('Exchange Rate Utilities', () => {
+  const rates: ExchangeRateQuote[] = [
+    { fromCurrency: 'USD', toCurrency: 'COP', rate: 4000 },
+    { fromCurrency: 'EUR', toCurrency: 'COP', rate: 4400 }
+  ];
+
+  describe('findExchangeRate', () => {
+    test('should return 1 for the same currency', () => {
+      expect(findExchangeRate([], 'COP', 'COP')).toBe(1);
+    });
+
+    test('should use the stored pair', () => {
+      expect(findExchangeRate(rates, 'USD', 'COP')).toBe(4000);
+    });
+
+    test('should invert the opposite pair', () => {
+      expect(findExchangeRate(rates, 'COP', 'USD')).toBe(1 / 4000);
+    });
+
+    test('should return null when no rate is configured', () => {
+      expect(findExchangeRate(rates, 'USD', 'EUR')).toBeNull();
+      expect(findExchangeRate([{ fromCurrency: 'USD', toCurrency: 'COP', rate: 0 }], 'USD', 'COP')).toBeNull();
+    });
+  });
+
+  describe('convertAmount', () => {
+    test('should convert and round to the target currency', () => {
+      expect(convertAmount(45.5, 'USD', 'COP', rates)).toBe(182000);
+      expect(convertAmount(50000, 'COP', 'USD', rates)).toBe(12.5);
+      expect(convertAmount(45000, 'COP', 'EUR', rates)).toBe(10.23);
+    });
+
+    test('should return null when no rate is configured', () => {
+      expect(convertAmount(10, 'EUR', 'USD', rates)).toBeNull();
+    });
+  });
+});
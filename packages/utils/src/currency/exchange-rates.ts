@@ -0,0 +1,58 @@
+/**
+ * Exchange rate utilities
+ * Converts between currencies with the rate table each business maintains
+ */
+
+import type { CurrencyCode } from '@appointments-demo/types';
+import { roundToCurrency } from './money';
+
+/**
+ * A rate from the business table: 1 fromCurrency = rate toCurrency
+ */
+export interface ExchangeRateQuote {
+  fromCurrency: CurrencyCode;
+  toCurrency: CurrencyCode;
+  rate: number;
+}
+
+/**
+ * Finds the rate to convert between two currencies
+ * Uses the stored pair or, failing that, the inverse of the opposite pair
+ * @param rates - Rates configured by the business
+ * @param from - Source currency
+ * @param to - Target currency
+ * @returns Units of `to` per unit of `from`, or null when no rate is configured
+ */
+export function findExchangeRate(
+  rates: readonly ExchangeRateQuote[],
+  from: CurrencyCode,
+  to: CurrencyCode
+): number | null {
+  if (from === to) return 1;
+
+  const direct = rates.find(quote => quote.fromCurrency === from && quote.toCurrency === to);
+  if (direct && direct.rate > 0) return direct.rate;
+
+  const inverse = rates.find(quote => quote.fromCurrency === to && quote.toCurrency === from);
+  if (inverse && inverse.rate > 0) return 1 / inverse.rate;
+
+  return null;
+}
+
+/**
+ * Converts an amount between currencies, rounded to the target currency
+ * @param amount - Amount in `from`
+ * @param from - Source currency
+ * @param to - Target currency
+ * @param rates - Rates configured by the business
+ * @returns Converted amount or null when no rate is configured
+ */
+export function convertAmount(
+  amount: number,
+  from: CurrencyCode,
+  to: CurrencyCode,
+  rates: readonly ExchangeRateQuote[]
+): number | null {
+  const rate = findExchangeRate(rates, from, to);
+  return rate === null ? null : roundToCurrency(amount * rate, to);
+}
@@ -0,0 +1,24 @@
+/**
+ * Currency utilities for appointments system
+ * Exports multi-currency formatting and exchange rate conversion
+ */
+
+// Money formatting utilities
+export {
+  SUPPORTED_CURRENCIES,
+  DEFAULT_CURRENCY,
+  CURRENCY_INFO,
+  isSupportedCurrency,
+  formatMoney,
+  roundToCurrency,
+  hasValidPrecision,
+  type CurrencyInfo,
+  type MoneyFormatOptions
+} from './money';
+
+// Exchange rate utilities
+export {
+  findExchangeRate,
+  convertAmount,
+  type ExchangeRateQuote
+} from './exchange-rates';
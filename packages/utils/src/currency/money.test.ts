@@ -0,0 +1,74 @@
+/**
+ * Tests for multi-currency formatting utilities
+ */
+
+import {
+  SUPPORTED_CURRENCIES,
+  CURRENCY_INFO,
+  isSupportedCurrency,
+  formatMoney,
+  roundToCurrency,
+  hasValidPrecision
+} from './money';
+
+describe('Money Utilities', () => {
+  describe('SUPPORTED_CURRENCIES', () => {
+    test('should describe every supported currency', () => {
+      expect(SUPPORTED_CURRENCIES).toEqual(['COP', 'USD', 'EUR']);
+      SUPPORTED_CURRENCIES.forEach(currency => {
+        expect(CURRENCY_INFO[currency].code).toBe(currency);
+      });
+    });
+  });
+
+  describe('isSupportedCurrency', () => {
+    test('should accept only COP, USD and EUR', () => {
+      expect(isSupportedCurrency('COP')).toBe(true);
+      expect(isSupportedCurrency('USD')).toBe(true);
+      expect(isSupportedCurrency('EUR')).toBe(true);
+      expect(isSupportedCurrency('usd')).toBe(false);
+      expect(isSupportedCurrency('MXN')).toBe(false);
+      expect(isSupportedCurrency(undefined)).toBe(false);
+    });
+  });
+
+  describe('formatMoney', () => {
+    test('should format pesos without decimals by default', () => {
+      expect(formatMoney(45000)).toMatch(/^\$\s?45\.000$/);
+      expect(formatMoney(45000, 'COP')).toMatch(/^\$\s?45\.000$/);
+    });
+
+    test('should mark foreign currencies and keep cents', () => {
+      expect(formatMoney(45.5, 'USD')).toMatch(/^US\$\s?45,50$/);
+      expect(formatMoney(1200, 'EUR')).toMatch(/1\.200,00/);
+      expect(formatMoney(1200, 'EUR')).toMatch(/EUR|€/);
+    });
+
+    test('should follow the requested locale', () => {
+      expect(formatMoney(1234.5, 'USD', { locale: 'en-US' })).toBe('$1,234.50');
+    });
+
+    test('should omit the symbol when asked', () => {
+      expect(formatMoney(45000, 'COP', { showSymbol: false })).toBe('45.000');
+      expect(formatMoney(45.5, 'USD', { showSymbol: false })).toBe('45,50');
+    });
+  });
+
+  describe('roundToCurrency', () => {
+    test('should round to the minor units of each currency', () => {
+      expect(roundToCurrency(45000.6, 'COP')).toBe(45001);
+      expect(roundToCurrency(10.456, 'USD')).toBe(10.46);
+      expect(roundToCurrency(10.454, 'EUR')).toBe(10.45);
+    });
+  });
+
+  describe('hasValidPrecision', () => {
+    test('should reject decimals the currency does not use', () => {
+      expect(hasValidPrecision(45000, 'COP')).toBe(true);
+      expect(hasValidPrecision(45000.5, 'COP')).toBe(false);
+      expect(hasValidPrecision(45.5, 'USD')).toBe(true);
+      expect(hasValidPrecision(45.555, 'USD')).toBe(false);
+      expect(hasValidPrecision(Number.NaN, 'USD')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Multi-currency formatting utilities
+ * Formats and rounds amounts in the currencies businesses can quote (COP, USD, EUR)
+ */
+
+import type { CurrencyCode } from '@appointments-demo/types';
+
+/**
+ * Display data for a supported currency
+ */
+export interface CurrencyInfo {
+  code: CurrencyCode;
+  name: string; // Spanish name shown in selectors
+  fractionDigits: number; // Minor units actually used in prices
+}
+
+/**
+ * Options for money formatting
+ */
+export interface MoneyFormatOptions {
+  showSymbol?: boolean;
+  locale?: string;
+}
+
+export const SUPPORTED_CURRENCIES: readonly CurrencyCode[] = ['COP', 'USD', 'EUR'];
+
+export const DEFAULT_CURRENCY: CurrencyCode = 'COP';
+
+// Pesos are quoted without centavos; dollars and euros keep cents
+export const CURRENCY_INFO: Record<CurrencyCode, CurrencyInfo> = {
+  COP: { code: 'COP', name: 'Peso colombiano', fractionDigits: 0 },
+  USD: { code: 'USD', name: 'Dólar estadounidense', fractionDigits: 2 },
+  EUR: { code: 'EUR', name: 'Euro', fractionDigits: 2 }
+};
+
+/**
+ * Checks whether a value is a supported currency code
+ * @param value - Value to check
+ * @returns true for 'COP', 'USD' or 'EUR'
+ */
+export function isSupportedCurrency(value: unknown): value is CurrencyCode {
+  return typeof value === 'string' && (SUPPORTED_CURRENCIES as readonly string[]).includes(value);
+}
+
+/**
+ * Formats an amount in the given currency
+ * The default es-CO locale keeps the Colombian separators and marks foreign
+ * currencies unambiguously ("US$ 45,50", "EUR 30,00")
+ * @param amount - Amount in major units (pesos, dollars, euros)
+ * @param currency - Currency code
+ * @param options - Formatting options
+ * @returns Formatted currency string
+ */
+export function formatMoney(
+  amount: number,
+  currency: CurrencyCode = DEFAULT_CURRENCY,
+  options: MoneyFormatOptions = {}
+): string {
+  const { showSymbol = true, locale = 'es-CO' } = options;
+  const { fractionDigits } = CURRENCY_INFO[currency];
+
+  const formatter = new Intl.NumberFormat(locale, {
+    style: showSymbol ? 'currency' : 'decimal',
+    currency,
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits
+  });
+
+  return formatter.format(amount);
+}
+
+/**
+ * Rounds an amount to the minor units used by the currency
+ * @param amount - Amount in major units
+ * @param currency - Currency code
+ * @returns Rounded amount (whole pesos, cents for USD and EUR)
+ */
+export function roundToCurrency(amount: number, currency: CurrencyCode): number {
+  const factor = 10 ** CURRENCY_INFO[currency].fractionDigits;
+  return Math.round(amount * factor) / factor;
+}
+
+/**
+ * Checks that an amount has no more decimals than the currency allows
+ * @param amount - Amount in major units
+ * @param currency - Currency code
+ * @returns true if the amount is representable in the currency
+ */
+export function hasValidPrecision(amount: number, currency: CurrencyCode): boolean {
+  return Number.isFinite(amount) && roundToCurrency(amount, currency) === amount;
+}
@@ -1,2 +1,4 @@
 // Utility functions for appointments-demo
-export * from './colombian';
\ No newline at end of file
+export * from './colombian';
+export * from './currency';
+export * from './scheduling';
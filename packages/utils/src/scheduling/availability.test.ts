@@ -0,0 +1,281 @@
+/**
+ * Tests for the availability engine
+ */
+
+import type { BusinessHours, BusinessSettings } from '@appointments-demo/types';
+import { AppointmentStatus } from '@appointments-demo/types';
+import {
+  computeAvailableSlots,
+  intervalsOverlap,
+  isBlockingAppointment,
+  type BookedInterval
+} from './availability';
+import { getZonedDateParts, parseTimeOfDay, zonedTimeToUtc } from './timezone';
+
+const weekdayHours = (openTime: string, closeTime: string): BusinessHours[] =>
+  [0, 1, 2, 3, 4, 5, 6].map(dayOfWeek => ({
+    dayOfWeek,
+    intervals: [{ openTime, closeTime }],
+    isOpen: dayOfWeek >= 1 && dayOfWeek <= 5
+  }));
+
+const makeBusiness = (overrides: Partial<BusinessSettings> = {}) => ({
+  settings: {
+    timezone: 'America/Bogota',
+    currency: 'COP',
+    businessHours: weekdayHours('09:00', '11:00'),
+    ...overrides
+  }
+});
+
+// Bogotá is UTC-5 all year round
+const bogota = (isoLocal: string) => new Date(`${isoLocal}-05:00`);
+
+describe('Availability Engine', () => {
+  describe('timezone helpers', () => {
+    test('should convert Bogotá wall-clock time to UTC', () => {
+      expect(zonedTimeToUtc(2025, 3, 10, 9, 0, 'America/Bogota').toISOString())
+        .toBe('2025-03-10T14:00:00.000Z');
+    });
+
+    test('should handle DST zones on both sides of a transition', () => {
+      // New York switched to EDT on 2025-03-09
+      expect(zonedTimeToUtc(2025, 3, 8, 9, 0, 'America/New_York').toISOString())
+        .toBe('2025-03-08T14:00:00.000Z');
+      expect(zonedTimeToUtc(2025, 3, 10, 9, 0, 'America/New_York').toISOString())
+        .toBe('2025-03-10T13:00:00.000Z');
+    });
+
+    test('should read wall-clock parts in the given zone', () => {
+      const parts = getZonedDateParts(new Date('2025-03-11T03:30:00.000Z'), 'America/Bogota');
+
+      expect(parts).toMatchObject({ year: 2025, month: 3, day: 10, hour: 22, minute: 30, dayOfWeek: 1 });
+    });
+
+    test('should parse HH:MM times', () => {
+      expect(parseTimeOfDay('09:30')).toBe(570);
+      expect(parseTimeOfDay('23:59')).toBe(1439);
+      expect(parseTimeOfDay('24:00')).toBeNull();
+      expect(parseTimeOfDay('9h')).toBeNull();
+    });
+  });
+
+  describe('interval helpers', () => {
+    test('should treat touching intervals as not overlapping', () => {
+      const a = new Date('2025-03-10T14:00:00Z');
+      const b = new Date('2025-03-10T15:00:00Z');
+      const c = new Date('2025-03-10T16:00:00Z');
+
+      expect(intervalsOverlap(a, b, b, c)).toBe(false);
+      expect(intervalsOverlap(a, c, b, c)).toBe(true);
+    });
+
+    test('should ignore cancelled appointments', () => {
+      expect(isBlockingAppointment({ status: AppointmentStatus.CANCELLED })).toBe(false);
+      expect(isBlockingAppointment({ status: AppointmentStatus.PENDING })).toBe(true);
+      expect(isBlockingAppointment({ status: AppointmentStatus.NO_SHOW })).toBe(true);
+    });
+  });
+
+  describe('computeAvailableSlots', () => {
+    test('should split open hours into slots evaluated in the business time zone', () => {
+      // Monday 2025-03-10
+      const slots = computeAvailableSlots({
+        business: makeBusiness(),
+        serviceDuration: 60,
+        slotInterval: 30,
+        from: bogota('2025-03-10T00:00:00'),
+        to: bogota('2025-03-11T00:00:00')
+      });
+
+      expect(slots.map(slot => slot.start.toISOString())).toEqual([
+        '2025-03-10T14:00:00.000Z',
+        '2025-03-10T14:30:00.000Z',
+        '2025-03-10T15:00:00.000Z'
+      ]);
+      expect(slots[2].end.toISOString()).toBe('2025-03-10T16:00:00.000Z');
+    });
+
+    test('should only offer slots where the whole service fits before closing', () => {
+      const slots = computeAvailableSlots({
+        business: makeBusiness(),
+        serviceDuration: 150,
+        from: bogota('2025-03-10T00:00:00'),
+        to: bogota('2025-03-11T00:00:00')
+      });
+
+      expect(slots).toHaveLength(0);
+    });
+
+    test('should keep the buffer time free after each slot', () => {
+      const slots = computeAvailableSlots({
+        business: makeBusiness(),
+        serviceDuration: 45,
+        bufferMinutes: 15,
+        slotInterval: 30,
+        from: bogota('2025-03-10T00:00:00'),
+        to: bogota('2025-03-11T00:00:00'),
+        appointments: [
+          { scheduledAt: bogota('2025-03-10T10:00:00'), duration: 30, status: AppointmentStatus.CONFIRMED }
+        ]
+      });
+
+      expect(slots.map(slot => slot.start.toISOString())).toEqual(['2025-03-10T14:00:00.000Z']);
+      expect(slots[0].end.toISOString()).toBe('2025-03-10T14:45:00.000Z');
+    });
+
+    test('should keep the buffer of existing appointments free', () => {
+      const slots = computeAvailableSlots({
+        business: makeBusiness(),
+        serviceDuration: 30,
+        slotInterval: 30,
+        from: bogota('2025-03-10T00:00:00'),
+        to: bogota('2025-03-11T00:00:00'),
+        appointments: [
+          { scheduledAt: bogota('2025-03-10T09:00:00'), duration: 30, bufferMinutes: 30, status: AppointmentStatus.CONFIRMED }
+        ]
+      });
+
+      expect(slots.map(slot => slot.start.toISOString())).toEqual([
+        '2025-03-10T15:00:00.000Z',
+        '2025-03-10T15:30:00.000Z'
+      ]);
+    });
+
+    test('should skip days marked as closed', () => {
+      // Saturday 2025-03-15 and Sunday 2025-03-16
+      const slots = computeAvailableSlots({
+        business: makeBusiness(),
+        serviceDuration: 30,
+        from: bogota('2025-03-15T00:00:00'),
+        to: bogota('2025-03-17T00:00:00')
+      });
+
+      expect(slots).toHaveLength(0);
+    });
+
+    test('should fill each interval of a split shift without crossing the break', () => {
+      const businessHours = weekdayHours('09:00', '11:00').map(day => ({
+        ...day,
+        intervals: [{ openTime: '14:00', closeTime: '15:00' }, { openTime: '09:00', closeTime: '10:30' }]
+      }));
+
+      const slots = computeAvailableSlots({
+        business: makeBusiness({ businessHours }),
+        serviceDuration: 60,
+        slotInterval: 30,
+        from: bogota('2025-03-10T00:00:00'),
+        to: bogota('2025-03-11T00:00:00')
+      });
+
+      expect(slots.map(slot => slot.start.toISOString())).toEqual([
+        '2025-03-10T14:00:00.000Z',
+        '2025-03-10T14:30:00.000Z',
+        '2025-03-10T19:00:00.000Z'
+      ]);
+    });
+
+    test('should skip Colombian holidays unless told otherwise', () => {
+      // Wednesday 2025-01-01 (Año Nuevo)
+      const options = {
+        business: makeBusiness(),
+        serviceDuration: 60,
+        slotInterval: 60,
+        from: bogota('2025-01-01T00:00:00'),
+        to: bogota('2025-01-02T00:00:00')
+      };
+
+      expect(computeAvailableSlots(options)).toHaveLength(0);
+      expect(computeAvailableSlots({ ...options, excludeHolidays: false })).toHaveLength(2);
+    });
+
+    test('should apply date overrides before the weekly hours and holidays', () => {
+      const business = makeBusiness({
+        dateOverrides: [
+          { date: '2025-01-01', type: 'custom_hours', intervals: [{ openTime: '10:00', closeTime: '11:00' }] },
+          { date: '2025-01-02', type: 'closed', note: 'Inventario' }
+        ]
+      });
+
+      const slots = computeAvailableSlots({
+        business,
+        serviceDuration: 60,
+        slotInterval: 60,
+        from: bogota('2025-01-01T00:00:00'),
+        to: bogota('2025-01-04T00:00:00')
+      });
+
+      // Año Nuevo opens 10:00-11:00, Thursday is closed, Friday keeps its weekly hours
+      expect(slots.map(slot => slot.start.toISOString())).toEqual([
+        '2025-01-01T15:00:00.000Z',
+        '2025-01-03T14:00:00.000Z',
+        '2025-01-03T15:00:00.000Z'
+      ]);
+    });
+
+    test('should exclude intervals taken by existing appointments', () => {
+      const appointments: BookedInterval[] = [
+        { scheduledAt: bogota('2025-03-10T09:30:00'), duration: 30, status: AppointmentStatus.CONFIRMED },
+        { scheduledAt: bogota('2025-03-10T10:00:00'), duration: 60, status: AppointmentStatus.CANCELLED }
+      ];
+
+      const slots = computeAvailableSlots({
+        business: makeBusiness(),
+        serviceDuration: 30,
+        slotInterval: 30,
+        from: bogota('2025-03-10T00:00:00'),
+        to: bogota('2025-03-11T00:00:00'),
+        appointments
+      });
+
+      expect(slots.map(slot => slot.start.toISOString())).toEqual([
+        '2025-03-10T14:00:00.000Z',
+        '2025-03-10T15:00:00.000Z',
+        '2025-03-10T15:30:00.000Z'
+      ]);
+    });
+
+    test('should not offer slots in the past or outside the requested range', () => {
+      const slots = computeAvailableSlots({
+        business: makeBusiness(),
+        serviceDuration: 30,
+        slotInterval: 30,
+        from: bogota('2025-03-10T00:00:00'),
+        to: bogota('2025-03-10T10:30:00'),
+        now: bogota('2025-03-10T09:15:00')
+      });
+
+      expect(slots.map(slot => slot.start.toISOString())).toEqual([
+        '2025-03-10T14:30:00.000Z',
+        '2025-03-10T15:00:00.000Z'
+      ]);
+    });
+
+    test('should use the business time zone to decide weekdays and hours', () => {
+      // 2025-03-10 09:00 in Madrid is 08:00 UTC (CET, UTC+1)
+      const slots = computeAvailableSlots({
+        business: makeBusiness({ timezone: 'Europe/Madrid' }),
+        serviceDuration: 60,
+        slotInterval: 60,
+        from: new Date('2025-03-10T00:00:00Z'),
+        to: new Date('2025-03-11T00:00:00Z')
+      });
+
+      expect(slots.map(slot => slot.start.toISOString())).toEqual([
+        '2025-03-10T08:00:00.000Z',
+        '2025-03-10T09:00:00.000Z'
+      ]);
+    });
+
+    test('should return no slots for invalid input', () => {
+      const base = {
+        business: makeBusiness(),
+        from: bogota('2025-03-10T00:00:00'),
+        to: bogota('2025-03-11T00:00:00')
+      };
+
+      expect(computeAvailableSlots({ ...base, serviceDuration: 0 })).toEqual([]);
+      expect(computeAvailableSlots({ ...base, serviceDuration: 30, to: base.from })).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Availability engine
+ * Turns a business's weekly hours into concrete bookable time slots,
+ * excluding closed days, Colombian holidays, date overrides and already-booked appointments
+ */
+
+import type { Appointment, Business } from '@appointments-demo/types';
+import { DEFAULT_TIMEZONE, zonedTimeToUtc } from './timezone';
+import { getHoursForDate } from './date-overrides';
+import { getOpenMinuteRanges } from './working-hours';
+import { addDays, comparePlainDates, toPlainDate } from './zoned-date';
+
+/**
+ * A bookable time slot
+ */
+export interface AvailableSlot {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Appointment fields needed to block out booked time, with the buffer of its service
+ * (time kept free after the appointment, defaults to 0)
+ */
+export type BookedInterval = Pick<Appointment, 'scheduledAt' | 'duration' | 'status'> & {
+  bufferMinutes?: number;
+};
+
+/**
+ * Options for computing available slots
+ */
+export interface AvailabilityOptions {
+  business: Pick<Business, 'settings'>;
+  serviceDuration: number; // minutes
+  bufferMinutes?: number; // time kept free after each slot (defaults to 0)
+  from: Date; // inclusive
+  to: Date; // exclusive
+  appointments?: BookedInterval[];
+  slotInterval?: number; // minutes between slot starts (defaults to 15)
+  excludeHolidays?: boolean; // close holidays without a date override (defaults to true)
+  now?: Date; // slots starting before this instant are not offered
+}
+
+/**
+ * Default granularity between slot start times, in minutes
+ */
+export const DEFAULT_SLOT_INTERVAL = 15;
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Checks whether an appointment still blocks its time interval
+ * Cancelled appointments free their slot
+ */
+export function isBlockingAppointment(appointment: Pick<Appointment, 'status'>): boolean {
+  return appointment.status !== 'cancelled';
+}
+
+/**
+ * Checks whether two half-open intervals [startA, endA) and [startB, endB) overlap
+ */
+export function intervalsOverlap(startA: Date, endA: Date, startB: Date, endB: Date): boolean {
+  return startA.getTime() < endB.getTime() && startB.getTime() < endA.getTime();
+}
+
+/**
+ * Computes the free slots of a business for a service duration in a date range.
+ * Days and hours are evaluated in `business.settings.timezone`.
+ * @param options - Availability options
+ * @returns Available slots sorted by start time
+ */
+export function computeAvailableSlots(options: AvailabilityOptions): AvailableSlot[] {
+  const {
+    business,
+    serviceDuration,
+    bufferMinutes = 0,
+    from,
+    to,
+    appointments = [],
+    slotInterval = DEFAULT_SLOT_INTERVAL,
+    excludeHolidays = true,
+    now
+  } = options;
+
+  if (serviceDuration <= 0 || bufferMinutes < 0 || slotInterval <= 0 || from.getTime() >= to.getTime()) {
+    return [];
+  }
+
+  const timeZone = business.settings.timezone || DEFAULT_TIMEZONE;
+
+  const booked = appointments
+    .filter(isBlockingAppointment)
+    .map(appointment => {
+      const start = new Date(appointment.scheduledAt);
+      const blockedMinutes = appointment.duration + (appointment.bufferMinutes ?? 0);
+      return { start, end: new Date(start.getTime() + blockedMinutes * MINUTE_MS) };
+    });
+
+  const slots: AvailableSlot[] = [];
+  const earliest = now && now.getTime() > from.getTime() ? now : from;
+
+  // Walk calendar days in the business time zone
+  const lastDay = toPlainDate(new Date(to.getTime() - 1), timeZone);
+
+  for (let date = toPlainDate(from, timeZone); comparePlainDates(date, lastDay) <= 0; date = addDays(date, 1)) {
+    const { year, month, day: dayOfMonth } = date;
+
+    // Date overrides (closures, custom hours, holiday openings) take precedence over the weekly hours
+    const ranges = getOpenMinuteRanges(getHoursForDate(business.settings, year, month, dayOfMonth, { excludeHolidays }));
+    if (ranges.length === 0) continue;
+
+    const occupiedMinutes = serviceDuration + bufferMinutes;
+
+    // Each interval of a split shift is filled on its own: a service never spans the break
+    for (const { start: openMinutes, end: closeMinutes } of ranges) {
+      const close = zonedTimeToUtc(year, month, dayOfMonth, Math.floor(closeMinutes / 60), closeMinutes % 60, timeZone);
+
+      for (let minutes = openMinutes; minutes + occupiedMinutes <= closeMinutes; minutes += slotInterval) {
+        const start = zonedTimeToUtc(year, month, dayOfMonth, Math.floor(minutes / 60), minutes % 60, timeZone);
+        const end = new Date(start.getTime() + serviceDuration * MINUTE_MS);
+        const occupiedEnd = new Date(start.getTime() + occupiedMinutes * MINUTE_MS);
+
+        if (occupiedEnd.getTime() > close.getTime()) break;
+        if (start.getTime() < earliest.getTime() || end.getTime() > to.getTime()) continue;
+        if (booked.some(interval => intervalsOverlap(start, occupiedEnd, interval.start, interval.end))) continue;
+
+        slots.push({ start, end });
+      }
+    }
+  }
+
+  return slots;
+}
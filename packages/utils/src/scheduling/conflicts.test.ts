@@ -0,0 +1,88 @@
+/**
+ * Tests for appointment conflict detection
+ */
+
+import { AppointmentStatus } from '@appointments-demo/types';
+import { findConflictingAppointment, type SchedulableAppointment } from './conflicts';
+
+const booked = (
+  id: string,
+  scheduledAt: string,
+  duration: number,
+  overrides: Partial<SchedulableAppointment> = {}
+): SchedulableAppointment => ({
+  id,
+  scheduledAt: new Date(scheduledAt),
+  duration,
+  status: AppointmentStatus.CONFIRMED,
+  ...overrides
+});
+
+describe('Appointment Conflicts', () => {
+  const appointments = [
+    booked('morning', '2025-03-10T14:00:00.000Z', 60, { specialistId: 'ana' }),
+    booked('noon', '2025-03-10T17:00:00.000Z', 30, { specialistId: 'ana' }),
+    booked('unassigned', '2025-03-10T14:00:00.000Z', 60)
+  ];
+
+  test('should find an overlapping appointment of the same specialist', () => {
+    const conflict = findConflictingAppointment(
+      { scheduledAt: new Date('2025-03-10T14:30:00.000Z'), duration: 60, specialistId: 'ana' },
+      appointments
+    );
+
+    expect(conflict?.id).toBe('morning');
+  });
+
+  test('should allow back-to-back appointments', () => {
+    const conflict = findConflictingAppointment(
+      { scheduledAt: new Date('2025-03-10T15:00:00.000Z'), duration: 120, specialistId: 'ana' },
+      appointments
+    );
+
+    expect(conflict).toBeUndefined();
+  });
+
+  test('should not compare different specialists', () => {
+    const conflict = findConflictingAppointment(
+      { scheduledAt: new Date('2025-03-10T14:00:00.000Z'), duration: 60, specialistId: 'luis' },
+      appointments
+    );
+
+    expect(conflict).toBeUndefined();
+  });
+
+  test('should treat unassigned appointments as one shared resource', () => {
+    const conflict = findConflictingAppointment(
+      { scheduledAt: new Date('2025-03-10T14:45:00.000Z'), duration: 30 },
+      appointments
+    );
+
+    expect(conflict?.id).toBe('unassigned');
+  });
+
+  test('should ignore cancelled appointments and the appointment being moved', () => {
+    const cancelled = [
+      ...appointments,
+      booked('cancelled', '2025-03-10T19:00:00.000Z', 60, { specialistId: 'ana', status: AppointmentStatus.CANCELLED })
+    ];
+
+    expect(findConflictingAppointment(
+      { scheduledAt: new Date('2025-03-10T19:00:00.000Z'), duration: 60, specialistId: 'ana' },
+      cancelled
+    )).toBeUndefined();
+    expect(findConflictingAppointment(
+      { id: 'morning', scheduledAt: new Date('2025-03-10T14:15:00.000Z'), duration: 60, specialistId: 'ana' },
+      appointments
+    )).toBeUndefined();
+  });
+
+  test('should return the earliest conflict when several overlap', () => {
+    const conflict = findConflictingAppointment(
+      { scheduledAt: new Date('2025-03-10T13:00:00.000Z'), duration: 300, specialistId: 'ana' },
+      [appointments[1], appointments[0]]
+    );
+
+    expect(conflict?.id).toBe('morning');
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Appointment conflict detection
+ * Finds bookings that overlap in time for the same specialist
+ */
+
+import type { Appointment } from '@appointments-demo/types';
+import { intervalsOverlap, isBlockingAppointment } from './availability';
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Appointment fields needed to detect conflicts
+ */
+export type SchedulableAppointment = Pick<Appointment, 'id' | 'scheduledAt' | 'duration' | 'status' | 'specialistId'>;
+
+/**
+ * A booking being created or moved; `id` is set when moving an existing appointment
+ */
+export type AppointmentCandidate = Pick<Appointment, 'scheduledAt' | 'duration' | 'specialistId'> & { id?: string };
+
+/**
+ * Finds the first existing appointment that overlaps the candidate.
+ * Appointments only conflict within the same specialist; unassigned appointments
+ * share the business as a single resource. Cancelled appointments never conflict.
+ * @param candidate - Appointment being booked or rescheduled
+ * @param appointments - Existing appointments of the business
+ * @returns The earliest conflicting appointment, or undefined when the time is free
+ */
+export function findConflictingAppointment<T extends SchedulableAppointment>(
+  candidate: AppointmentCandidate,
+  appointments: T[]
+): T | undefined {
+  const start = new Date(candidate.scheduledAt);
+  const end = new Date(start.getTime() + candidate.duration * MINUTE_MS);
+  const specialistId = candidate.specialistId ?? null;
+
+  return appointments
+    .filter(appointment =>
+      appointment.id !== candidate.id &&
+      (appointment.specialistId ?? null) === specialistId &&
+      isBlockingAppointment(appointment)
+    )
+    .sort((a, b) => new Date(a.scheduledAt).getTime() - new Date(b.scheduledAt).getTime())
+    .find(appointment => {
+      const existingStart = new Date(appointment.scheduledAt);
+      const existingEnd = new Date(existingStart.getTime() + appointment.duration * MINUTE_MS);
+      return intervalsOverlap(start, end, existingStart, existingEnd);
+    });
+}
@@ -0,0 +1,111 @@
+/**
+ * Tests for date overrides
+ */
+
+import type { BusinessHours, BusinessSettings } from '@appointments-demo/types';
+import { getHoursForDate, validateDateOverrides } from './date-overrides';
+
+const weekdays: BusinessHours[] = [0, 1, 2, 3, 4, 5, 6].map(dayOfWeek => ({
+  dayOfWeek,
+  intervals: [{ openTime: '08:00', closeTime: '18:00' }],
+  isOpen: dayOfWeek >= 1 && dayOfWeek <= 5
+}));
+
+const settings = (dateOverrides: BusinessSettings['dateOverrides'] = []) => ({
+  businessHours: weekdays,
+  dateOverrides
+});
+
+describe('Date Overrides', () => {
+  describe('getHoursForDate', () => {
+    test('should use the weekly hours of a regular date', () => {
+      // Wednesday 2025-12-24
+      expect(getHoursForDate(settings(), 2025, 12, 24)).toEqual({
+        date: '2025-12-24',
+        dayOfWeek: 3,
+        isOpen: true,
+        intervals: [{ openTime: '08:00', closeTime: '18:00' }],
+        source: 'weekly'
+      });
+    });
+
+    test('should close Colombian holidays by default', () => {
+      // San José 2025 is observed on Monday, March 24
+      const hours = getHoursForDate(settings(), 2025, 3, 24);
+
+      expect(hours.isOpen).toBe(false);
+      expect(hours.source).toBe('holiday');
+      expect(hours.holiday?.name).toBe('Día de San José');
+      expect(getHoursForDate(settings(), 2025, 3, 24, { excludeHolidays: false }).isOpen).toBe(true);
+    });
+
+    test('should close a date with a closed override', () => {
+      const override = { date: '2025-12-24', type: 'closed' as const, note: 'Nochebuena' };
+      const hours = getHoursForDate(settings([override]), 2025, 12, 24);
+
+      expect(hours).toMatchObject({ isOpen: false, source: 'override', override });
+    });
+
+    test('should replace the hours of a date with custom hours, even on a holiday', () => {
+      const intervals = [{ openTime: '09:00', closeTime: '13:00' }];
+      const hours = getHoursForDate(settings([{ date: '2025-03-24', type: 'custom_hours', intervals }]), 2025, 3, 24);
+
+      expect(hours).toMatchObject({ isOpen: true, intervals, source: 'override' });
+      expect(hours.holiday?.name).toBe('Día de San José');
+    });
+
+    test('should open a holiday with the weekly hours of its day', () => {
+      const hours = getHoursForDate(settings([{ date: '2025-03-24', type: 'holiday_open' }]), 2025, 3, 24);
+
+      expect(hours).toMatchObject({
+        isOpen: true,
+        intervals: [{ openTime: '08:00', closeTime: '18:00' }],
+        source: 'override'
+      });
+    });
+
+    test('should keep a closed weekday closed when a holiday on it is opened', () => {
+      // Navidad 2022 fell on a Sunday
+      const hours = getHoursForDate(settings([{ date: '2022-12-25', type: 'holiday_open' }]), 2022, 12, 25);
+
+      expect(hours.isOpen).toBe(false);
+    });
+  });
+
+  describe('validateDateOverrides', () => {
+    test('should accept closures, custom hours and holiday openings', () => {
+      expect(validateDateOverrides([
+        { date: '2025-12-24', type: 'closed' },
+        { date: '2025-12-31', type: 'custom_hours', intervals: [{ openTime: '08:00', closeTime: '12:00' }] },
+        { date: '2025-03-24', type: 'holiday_open' }
+      ])).toEqual([]);
+    });
+
+    test('should reject invalid dates, repeats and unknown types', () => {
+      expect(validateDateOverrides([
+        { date: '24/12/2025', type: 'closed' },
+        { date: '2025-02-30', type: 'closed' },
+        { date: '2025-12-24', type: 'closed' },
+        { date: '2025-12-24', type: 'closed' },
+        { date: '2025-12-26', type: 'vacation' as never }
+      ])).toEqual([
+        { date: '24/12/2025', message: 'Fecha inválida (AAAA-MM-DD)' },
+        { date: '2025-02-30', message: 'Fecha inválida (AAAA-MM-DD)' },
+        { date: '2025-12-24', message: 'La fecha está repetida' },
+        { date: '2025-12-26', message: 'Tipo de excepción inválido' }
+      ]);
+    });
+
+    test('should reject invalid custom hours and holiday openings on regular dates', () => {
+      expect(validateDateOverrides([
+        { date: '2025-12-31', type: 'custom_hours', intervals: [] },
+        { date: '2026-01-02', type: 'custom_hours', intervals: [{ openTime: '13:00', closeTime: '09:00' }] },
+        { date: '2025-12-24', type: 'holiday_open' }
+      ])).toEqual([
+        { date: '2025-12-31', message: 'Agrega al menos un horario para este día' },
+        { date: '2026-01-02', message: 'La hora de cierre debe ser posterior a la de apertura' },
+        { date: '2025-12-24', message: 'Esta fecha no es festivo' }
+      ]);
+    });
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Date overrides
+ * Resolves the hours of a business on a calendar date: an override for the date
+ * wins, then Colombian holidays (closed by default), then the weekly hours
+ */
+
+import type { BusinessHours, BusinessSettings, DateOverride, DateOverrideType } from '@appointments-demo/types';
+import { findColombianHoliday, type ColombianHoliday } from '../colombian/holidays';
+import { findTimeRangeError } from './working-hours';
+import { createPlainDate, formatPlainDate, getDayOfWeek, parsePlainDate } from './zoned-date';
+
+/**
+ * What decided the hours of a date
+ */
+export type DayHoursSource = 'weekly' | 'holiday' | 'override';
+
+/**
+ * Hours of a business on one calendar date
+ */
+export interface DayHours extends BusinessHours {
+  date: string; // YYYY-MM-DD
+  source: DayHoursSource;
+  holiday?: ColombianHoliday; // set when the date is a holiday, even if an override opens it
+  override?: DateOverride;
+}
+
+/**
+ * Options for resolving the hours of a date
+ */
+export interface DayHoursOptions {
+  excludeHolidays?: boolean; // close holidays without an override (defaults to true)
+}
+
+/**
+ * A problem found in the date overrides of a business
+ */
+export interface DateOverrideValidationError {
+  date: string;
+  message: string;
+}
+
+const DATE_OVERRIDE_TYPES: DateOverrideType[] = ['closed', 'custom_hours', 'holiday_open'];
+
+/**
+ * Gets the hours of a business on a calendar date of its time zone.
+ * 'closed' overrides close the date, 'custom_hours' replace its intervals and
+ * 'holiday_open' keeps the weekly hours of a holiday.
+ * @param settings - Weekly hours and date overrides of the business
+ * @param year - Full year
+ * @param month - Month (1-12)
+ * @param day - Day of the month
+ * @param options - Resolution options
+ * @returns Hours of the date and what decided them
+ */
+export function getHoursForDate(
+  settings: Pick<BusinessSettings, 'businessHours' | 'dateOverrides'>,
+  year: number,
+  month: number,
+  day: number,
+  { excludeHolidays = true }: DayHoursOptions = {}
+): DayHours {
+  const calendarDate = createPlainDate(year, month, day);
+  const date = formatPlainDate(calendarDate);
+  const dayOfWeek = getDayOfWeek(calendarDate);
+  const weekly = (settings.businessHours || []).find(h => h.dayOfWeek === dayOfWeek);
+  const weeklyHours = { date, dayOfWeek, isOpen: weekly?.isOpen ?? false, intervals: weekly?.intervals ?? [] };
+
+  const holiday = excludeHolidays ? findColombianHoliday(calendarDate) : undefined;
+  const override = (settings.dateOverrides || []).find(o => o.date === date);
+
+  if (override?.type === 'closed') {
+    return { ...weeklyHours, isOpen: false, source: 'override', holiday, override };
+  }
+  if (override?.type === 'custom_hours') {
+    return { ...weeklyHours, isOpen: true, intervals: override.intervals || [], source: 'override', holiday, override };
+  }
+  if (override?.type === 'holiday_open') {
+    return { ...weeklyHours, source: 'override', holiday, override };
+  }
+
+  if (holiday) {
+    return { ...weeklyHours, isOpen: false, source: 'holiday', holiday };
+  }
+
+  return { ...weeklyHours, source: 'weekly' };
+}
+
+/**
+ * Checks the date overrides of a business: valid dates without repeats, known
+ * types, well formed custom hours and holiday openings only on holidays
+ * @param overrides - Date overrides of the business
+ * @returns List of errors, empty when the overrides are valid
+ */
+export function validateDateOverrides(overrides: DateOverride[]): DateOverrideValidationError[] {
+  const errors: DateOverrideValidationError[] = [];
+  const seenDates = new Set<string>();
+
+  overrides.forEach(override => {
+    const calendarDate = parsePlainDate(override.date);
+    if (!calendarDate) {
+      errors.push({ date: override.date, message: 'Fecha inválida (AAAA-MM-DD)' });
+      return;
+    }
+
+    if (seenDates.has(override.date)) {
+      errors.push({ date: override.date, message: 'La fecha está repetida' });
+      return;
+    }
+    seenDates.add(override.date);
+
+    if (!DATE_OVERRIDE_TYPES.includes(override.type)) {
+      errors.push({ date: override.date, message: 'Tipo de excepción inválido' });
+      return;
+    }
+
+    if (override.type === 'custom_hours') {
+      const message = findTimeRangeError(override.intervals);
+      if (message) {
+        errors.push({ date: override.date, message });
+      }
+    }
+
+    if (override.type === 'holiday_open' && !findColombianHoliday(calendarDate)) {
+      errors.push({ date: override.date, message: 'Esta fecha no es festivo' });
+    }
+  });
+
+  return errors;
+}
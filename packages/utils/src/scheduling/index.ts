@@ -0,0 +1,102 @@
+/**
+ * Scheduling utilities for appointments system
+ * Exports availability computation and time zone helpers
+ */
+
+// Time zone utilities
+export {
+  getZonedDateParts,
+  getTimeZoneOffset,
+  zonedTimeToUtc,
+  parseTimeOfDay,
+  DEFAULT_TIMEZONE,
+  type ZonedDateParts
+} from './timezone';
+
+// Zoned date utilities
+export {
+  createPlainDate,
+  parsePlainDate,
+  formatPlainDate,
+  addDays,
+  getDayOfWeek,
+  comparePlainDates,
+  toPlainDate,
+  getStartOfDay,
+  getZonedDateTime,
+  type PlainDate,
+  type ZonedDateTime
+} from './zoned-date';
+
+// Availability utilities
+export {
+  computeAvailableSlots,
+  isBlockingAppointment,
+  intervalsOverlap,
+  DEFAULT_SLOT_INTERVAL,
+  type AvailableSlot,
+  type BookedInterval,
+  type AvailabilityOptions
+} from './availability';
+
+// Date override utilities
+export {
+  getHoursForDate,
+  validateDateOverrides,
+  type DayHours,
+  type DayHoursSource,
+  type DayHoursOptions,
+  type DateOverrideValidationError
+} from './date-overrides';
+
+// Open state utilities
+export {
+  getBusinessOpenState,
+  type BusinessOpenState,
+  type OpenInterval,
+  type OpenStateOptions,
+  type OpenStateReason
+} from './open-state';
+
+// Reminder utilities
+export {
+  planReminders,
+  isRemindableStatus,
+  getQuietHoursWindow,
+  isWithinQuietHours,
+  validateReminderSettings,
+  REMINDER_CHANNELS,
+  DEFAULT_REMINDER_SETTINGS,
+  MAX_REMINDER_OFFSET_MINUTES,
+  type PlannedReminder,
+  type ReminderSettingsValidationError
+} from './reminders';
+
+// Conflict detection utilities
+export {
+  findConflictingAppointment,
+  type SchedulableAppointment,
+  type AppointmentCandidate
+} from './conflicts';
+
+// Working hours utilities
+export {
+  getOpenMinuteRanges,
+  formatTimeRanges,
+  findTimeRangeError,
+  validateBusinessHours,
+  validateScheduleWithinBusinessHours,
+  type MinuteRange,
+  type ScheduleValidationError
+} from './working-hours';
+
+// Appointment status utilities
+export {
+  APPOINTMENT_STATUS_TRANSITIONS,
+  getAllowedStatusTransitions,
+  isTerminalStatus,
+  canTransitionStatus,
+  validateStatusTransition,
+  type StatusTransitionError,
+  type StatusTransitionResult
+} from './status-transitions';
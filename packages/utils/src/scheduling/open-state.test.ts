@@ -0,0 +1,103 @@
+/**
+ * Tests for the business open state
+ */
+
+import type { BusinessHours, BusinessSettings } from '@appointments-demo/types';
+import { getBusinessOpenState } from './open-state';
+
+const weekdays: BusinessHours[] = [0, 1, 2, 3, 4, 5, 6].map(dayOfWeek => ({
+  dayOfWeek,
+  intervals: [{ openTime: '08:00', closeTime: '12:00' }, { openTime: '14:00', closeTime: '18:00' }],
+  isOpen: dayOfWeek >= 1 && dayOfWeek <= 5
+}));
+
+const makeBusiness = (overrides: Partial<BusinessSettings> = {}) => ({
+  settings: {
+    timezone: 'America/Bogota',
+    currency: 'COP' as const,
+    businessHours: weekdays,
+    ...overrides
+  }
+});
+
+// Bogotá is UTC-5 all year round
+const bogota = (isoLocal: string) => new Date(`${isoLocal}-05:00`);
+
+describe('Business Open State', () => {
+  test('should be open inside an interval of the day', () => {
+    // Tuesday 2025-08-12
+    const state = getBusinessOpenState(makeBusiness(), bogota('2025-08-12T10:00:00'));
+
+    expect(state.isOpen).toBe(true);
+    expect(state.reason).toBe('open');
+    expect(state.currentInterval).toEqual({
+      start: bogota('2025-08-12T08:00:00'),
+      end: bogota('2025-08-12T12:00:00')
+    });
+    expect(state.nextOpening).toBeUndefined();
+  });
+
+  test('should use the Colombian time zone when the settings have none', () => {
+    const state = getBusinessOpenState(makeBusiness({ timezone: '' }), bogota('2025-08-12T07:30:00'));
+
+    expect(state).toMatchObject({ isOpen: false, reason: 'outside_hours' });
+    expect(state.nextOpening).toEqual(bogota('2025-08-12T08:00:00'));
+  });
+
+  test('should reopen after the lunch break of a split shift', () => {
+    const state = getBusinessOpenState(makeBusiness(), bogota('2025-08-12T12:00:00'));
+
+    expect(state).toMatchObject({ isOpen: false, reason: 'outside_hours' });
+    expect(state.nextOpening).toEqual(bogota('2025-08-12T14:00:00'));
+  });
+
+  test('should open next on Monday when closed for the weekend', () => {
+    // Saturday 2025-08-23
+    const state = getBusinessOpenState(makeBusiness(), bogota('2025-08-23T10:00:00'));
+
+    expect(state).toMatchObject({ isOpen: false, reason: 'closed_day' });
+    expect(state.nextOpening).toEqual(bogota('2025-08-25T08:00:00'));
+  });
+
+  test('should close on holidays and skip them when looking for the next opening', () => {
+    // Friday 2025-08-15 is a regular day, Monday 2025-08-18 is Asunción de la Virgen
+    const afterHours = getBusinessOpenState(makeBusiness(), bogota('2025-08-15T19:00:00'));
+    const holiday = getBusinessOpenState(makeBusiness(), bogota('2025-08-18T10:00:00'));
+
+    expect(afterHours.nextOpening).toEqual(bogota('2025-08-19T08:00:00'));
+    expect(holiday).toMatchObject({ isOpen: false, reason: 'holiday' });
+    expect(holiday.day.holiday?.name).toBe('Asunción de la Virgen');
+  });
+
+  test('should follow date overrides', () => {
+    const business = makeBusiness({
+      dateOverrides: [
+        { date: '2025-08-12', type: 'closed', note: 'Inventario' },
+        { date: '2025-08-18', type: 'custom_hours', intervals: [{ openTime: '09:00', closeTime: '13:00' }] }
+      ]
+    });
+
+    const closed = getBusinessOpenState(business, bogota('2025-08-12T10:00:00'));
+    const holidayOpen = getBusinessOpenState(business, bogota('2025-08-18T09:30:00'));
+
+    expect(closed).toMatchObject({ isOpen: false, reason: 'override' });
+    expect(closed.nextOpening).toEqual(bogota('2025-08-13T08:00:00'));
+    expect(holidayOpen).toMatchObject({ isOpen: true, reason: 'open' });
+  });
+
+  test('should evaluate the instant in the business time zone', () => {
+    // 2025-08-12 08:30 in Madrid (CEST, UTC+2) is 01:30 in Bogotá
+    const at = new Date('2025-08-12T06:30:00Z');
+
+    expect(getBusinessOpenState(makeBusiness({ timezone: 'Europe/Madrid' }), at).isOpen).toBe(true);
+    expect(getBusinessOpenState(makeBusiness(), at).isOpen).toBe(false);
+  });
+
+  test('should leave the next opening unset when nothing opens within the look-ahead window', () => {
+    const closedWeek = weekdays.map(day => ({ ...day, isOpen: false }));
+    const state = getBusinessOpenState(makeBusiness({ businessHours: closedWeek }), bogota('2025-08-12T10:00:00'));
+
+    expect(state).toMatchObject({ isOpen: false, reason: 'closed_day' });
+    expect(state.nextOpening).toBeUndefined();
+  });
+});
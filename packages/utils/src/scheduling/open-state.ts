@@ -0,0 +1,115 @@
+/**
+ * Business open state
+ * Tells whether a business is open at an instant, using its own weekly hours,
+ * date overrides and time zone, and when it opens next
+ */
+
+import type { Business } from '@appointments-demo/types';
+import { getHoursForDate, type DayHours, type DayHoursOptions } from './date-overrides';
+import { DEFAULT_TIMEZONE, zonedTimeToUtc } from './timezone';
+import { getOpenMinuteRanges, type MinuteRange } from './working-hours';
+import { addDays, getZonedDateTime, type PlainDate } from './zoned-date';
+
+/**
+ * Why a business is open or closed at an instant
+ * - open: inside one of the intervals of the day
+ * - outside_hours: the day has hours, but not at this time
+ * - closed_day: the weekly hours close this day of the week
+ * - holiday: Colombian holiday without an override
+ * - override: a date override closes the day
+ */
+export type OpenStateReason = 'open' | 'outside_hours' | 'closed_day' | 'holiday' | 'override';
+
+/**
+ * An open interval as UTC instants
+ */
+export interface OpenInterval {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Open state of a business at an instant
+ */
+export interface BusinessOpenState {
+  isOpen: boolean;
+  reason: OpenStateReason;
+  currentInterval?: OpenInterval; // set while open
+  nextOpening?: Date; // set while closed, unless nothing opens within the look-ahead window
+  day: DayHours; // hours of the business date of the instant
+}
+
+/**
+ * Options for computing the open state
+ */
+export interface OpenStateOptions extends DayHoursOptions {
+  lookAheadDays?: number; // days searched for the next opening (defaults to 14)
+}
+
+const DEFAULT_LOOK_AHEAD_DAYS = 14;
+
+// Instant of a minute of a calendar date in the business time zone
+const minuteToUtc = (date: PlainDate, minute: number, timeZone: string): Date =>
+  zonedTimeToUtc(date.year, date.month, date.day, Math.floor(minute / 60), minute % 60, timeZone);
+
+// Why a day without a current interval is closed
+function getClosedReason(day: DayHours, ranges: MinuteRange[]): OpenStateReason {
+  if (day.source === 'override' && ranges.length === 0) return 'override';
+  if (day.source === 'holiday') return 'holiday';
+  return ranges.length === 0 ? 'closed_day' : 'outside_hours';
+}
+
+/**
+ * Gets whether a business is open at an instant, the interval it is in and,
+ * when closed, the next time it opens.
+ * Dates and hours are evaluated in the business time zone.
+ * @param business - Business whose settings hold the hours, overrides and time zone
+ * @param at - Instant to evaluate (defaults to now)
+ * @param options - Holiday handling and how far to search for the next opening
+ * @returns Open state with the reason and the hours of the day
+ */
+export function getBusinessOpenState(
+  business: Pick<Business, 'settings'>,
+  at: Date = new Date(),
+  { lookAheadDays = DEFAULT_LOOK_AHEAD_DAYS, ...dayOptions }: OpenStateOptions = {}
+): BusinessOpenState {
+  const { settings } = business;
+  const timeZone = settings.timezone || DEFAULT_TIMEZONE;
+  const now = getZonedDateTime(timeZone, at);
+  const minuteOfDay = now.hour * 60 + now.minute;
+
+  const day = getHoursForDate(settings, now.year, now.month, now.day, dayOptions);
+  const ranges = getOpenMinuteRanges(day);
+
+  const current = ranges.find(range => minuteOfDay >= range.start && minuteOfDay < range.end);
+  if (current) {
+    return {
+      isOpen: true,
+      reason: 'open',
+      currentInterval: {
+        start: minuteToUtc(now, current.start, timeZone),
+        end: minuteToUtc(now, current.end, timeZone)
+      },
+      day
+    };
+  }
+
+  const state: BusinessOpenState = { isOpen: false, reason: getClosedReason(day, ranges), day };
+
+  const laterToday = ranges.find(range => range.start > minuteOfDay);
+  if (laterToday) {
+    return { ...state, nextOpening: minuteToUtc(now, laterToday.start, timeZone) };
+  }
+
+  // Walk the following calendar dates of the business time zone
+  for (let offset = 1; offset <= lookAheadDays; offset++) {
+    const date = addDays(now, offset);
+    const nextDay = getHoursForDate(settings, date.year, date.month, date.day, dayOptions);
+    const [first] = getOpenMinuteRanges(nextDay);
+    if (first) {
+      return { ...state, nextOpening: minuteToUtc(date, first.start, timeZone) };
+    }
+  }
+
+  return state;
+}
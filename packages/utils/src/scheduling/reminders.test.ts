@@ -0,0 +1,168 @@
+/**
+ * Tests for appointment reminder planning
+ */
+
+import { AppointmentStatus, type ReminderSettings } from '@appointments-demo/types';
+import {
+  DEFAULT_REMINDER_SETTINGS,
+  getQuietHoursWindow,
+  isWithinQuietHours,
+  planReminders,
+  validateReminderSettings
+} from './reminders';
+
+const TIME_ZONE = 'America/Bogota';
+
+// Bogotá is UTC-5 all year round
+const bogota = (isoLocal: string) => new Date(`${isoLocal}-05:00`);
+
+const appointment = (isoLocal: string, status = AppointmentStatus.CONFIRMED) => ({
+  scheduledAt: bogota(isoLocal),
+  status
+});
+
+const settings = (overrides: Partial<ReminderSettings> = {}): ReminderSettings => ({
+  ...DEFAULT_REMINDER_SETTINGS,
+  ...overrides
+});
+
+const NOW = bogota('2025-08-01T12:00:00');
+
+describe('Appointment Reminders', () => {
+  describe('planReminders', () => {
+    test('should plan one reminder per offset and channel, earliest first', () => {
+      const reminders = planReminders(
+        appointment('2025-08-12T15:00:00'),
+        settings({ channels: ['whatsapp', 'email'] }),
+        TIME_ZONE,
+        NOW
+      );
+
+      expect(reminders).toEqual([
+        { channel: 'whatsapp', offsetMinutes: 1440, sendAt: bogota('2025-08-11T15:00:00') },
+        { channel: 'email', offsetMinutes: 1440, sendAt: bogota('2025-08-11T15:00:00') },
+        { channel: 'whatsapp', offsetMinutes: 120, sendAt: bogota('2025-08-12T13:00:00') },
+        { channel: 'email', offsetMinutes: 120, sendAt: bogota('2025-08-12T13:00:00') }
+      ]);
+    });
+
+    test('should not remind cancelled or finished appointments', () => {
+      [AppointmentStatus.CANCELLED, AppointmentStatus.COMPLETED, AppointmentStatus.NO_SHOW].forEach(status => {
+        expect(planReminders(appointment('2025-08-12T15:00:00', status), settings(), TIME_ZONE, NOW)).toEqual([]);
+      });
+      expect(planReminders(appointment('2025-08-12T15:00:00', AppointmentStatus.PENDING), settings(), TIME_ZONE, NOW))
+        .toHaveLength(2);
+    });
+
+    test('should plan nothing when reminders are disabled', () => {
+      expect(planReminders(appointment('2025-08-12T15:00:00'), settings({ enabled: false }), TIME_ZONE, NOW))
+        .toEqual([]);
+    });
+
+    test('should leave out reminders whose time has passed', () => {
+      // Booked 10 hours ahead: only the 2h reminder is still to come
+      const reminders = planReminders(appointment('2025-08-01T22:00:00'), settings({ quietHours: undefined }), TIME_ZONE, NOW);
+
+      expect(reminders).toEqual([
+        { channel: 'whatsapp', offsetMinutes: 120, sendAt: bogota('2025-08-01T20:00:00') }
+      ]);
+    });
+
+    test('should move a reminder in the quiet hours to their end', () => {
+      // 2h before 08:00 is 06:00, still quiet until 07:00
+      const reminders = planReminders(appointment('2025-08-12T08:00:00'), settings(), TIME_ZONE, NOW);
+
+      expect(reminders.map(reminder => reminder.sendAt)).toEqual([
+        bogota('2025-08-11T08:00:00'),
+        bogota('2025-08-12T07:00:00')
+      ]);
+    });
+
+    test('should send before the quiet hours when they end after the appointment', () => {
+      // 2h before 06:30 is 04:30; quiet hours end at 07:00, after the appointment
+      const reminders = planReminders(
+        appointment('2025-08-12T06:30:00'),
+        settings({ offsetsMinutes: [120] }),
+        TIME_ZONE,
+        NOW
+      );
+
+      expect(reminders[0].sendAt).toEqual(bogota('2025-08-11T20:59:00'));
+    });
+
+    test('should send a single message when the quiet hours merge two reminders', () => {
+      const reminders = planReminders(
+        appointment('2025-08-12T08:00:00'),
+        settings({ offsetsMinutes: [180, 120] }),
+        TIME_ZONE,
+        NOW
+      );
+
+      expect(reminders).toEqual([
+        { channel: 'whatsapp', offsetMinutes: 180, sendAt: bogota('2025-08-12T07:00:00') }
+      ]);
+    });
+  });
+
+  describe('quiet hours', () => {
+    const overnight = { start: '21:00', end: '07:00' };
+
+    test('should find the window of a quiet period that spans midnight', () => {
+      expect(getQuietHoursWindow(bogota('2025-08-11T23:30:00'), overnight, TIME_ZONE)).toEqual({
+        start: bogota('2025-08-11T21:00:00'),
+        end: bogota('2025-08-12T07:00:00')
+      });
+      expect(getQuietHoursWindow(bogota('2025-08-12T05:00:00'), overnight, TIME_ZONE)).toEqual({
+        start: bogota('2025-08-11T21:00:00'),
+        end: bogota('2025-08-12T07:00:00')
+      });
+    });
+
+    test('should tell whether an instant is inside the quiet hours', () => {
+      expect(isWithinQuietHours(bogota('2025-08-12T07:00:00'), overnight, TIME_ZONE)).toBe(false);
+      expect(isWithinQuietHours(bogota('2025-08-12T20:59:00'), overnight, TIME_ZONE)).toBe(false);
+      expect(isWithinQuietHours(bogota('2025-08-12T21:00:00'), overnight, TIME_ZONE)).toBe(true);
+
+      const siesta = { start: '13:00', end: '14:00' };
+      expect(isWithinQuietHours(bogota('2025-08-12T13:30:00'), siesta, TIME_ZONE)).toBe(true);
+      expect(isWithinQuietHours(bogota('2025-08-12T14:00:00'), siesta, TIME_ZONE)).toBe(false);
+    });
+
+    test('should read the quiet hours in the business time zone', () => {
+      // 02:00 UTC is 21:00 in Bogotá but 22:00 in New York (EDT)
+      const instant = new Date('2025-08-12T02:00:00Z');
+
+      expect(isWithinQuietHours(instant, { start: '21:00', end: '22:00' }, TIME_ZONE)).toBe(true);
+      expect(isWithinQuietHours(instant, { start: '21:00', end: '22:00' }, 'America/New_York')).toBe(false);
+    });
+  });
+
+  describe('validateReminderSettings', () => {
+    test('should accept the default settings', () => {
+      expect(validateReminderSettings(DEFAULT_REMINDER_SETTINGS)).toEqual([]);
+    });
+
+    test('should reject invalid or repeated offsets', () => {
+      expect(validateReminderSettings(settings({ offsetsMinutes: [0] }))[0].field).toBe('offsetsMinutes');
+      expect(validateReminderSettings(settings({ offsetsMinutes: [20000] }))[0].field).toBe('offsetsMinutes');
+      expect(validateReminderSettings(settings({ offsetsMinutes: [120, 120] }))).toEqual([
+        { field: 'offsetsMinutes', message: 'Hay recordatorios repetidos' }
+      ]);
+    });
+
+    test('should require offsets and channels only while enabled', () => {
+      expect(validateReminderSettings(settings({ offsetsMinutes: [], channels: [] })).map(e => e.field))
+        .toEqual(['offsetsMinutes', 'channels']);
+      expect(validateReminderSettings(settings({ enabled: false, offsetsMinutes: [], channels: [] }))).toEqual([]);
+    });
+
+    test('should reject unknown channels and malformed quiet hours', () => {
+      const errors = validateReminderSettings(settings({
+        channels: ['telegram' as never],
+        quietHours: { start: '21:00', end: '21:00' }
+      }));
+
+      expect(errors.map(e => e.field)).toEqual(['channels', 'quietHours']);
+    });
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Appointment reminders
+ * Plans when each reminder of an appointment is sent, keeping messages out of the
+ * business quiet hours, and validates the reminder settings
+ */
+
+import {
+  AppointmentStatus,
+  type Appointment,
+  type QuietHours,
+  type ReminderChannel,
+  type ReminderSettings
+} from '@appointments-demo/types';
+import type { OpenInterval } from './open-state';
+import { parseTimeOfDay, zonedTimeToUtc } from './timezone';
+import { addDays, getZonedDateTime, type PlainDate } from './zoned-date';
+
+/**
+ * A reminder to queue for an appointment
+ */
+export interface PlannedReminder {
+  channel: ReminderChannel;
+  offsetMinutes: number;
+  sendAt: Date;
+}
+
+/**
+ * Validation error for a reminder setting
+ */
+export interface ReminderSettingsValidationError {
+  field: 'offsetsMinutes' | 'channels' | 'quietHours';
+  message: string;
+}
+
+export const REMINDER_CHANNELS: ReminderChannel[] = ['whatsapp', 'sms', 'email'];
+
+// 24h and 2h before, by WhatsApp, never between 21:00 and 07:00
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  enabled: true,
+  offsetsMinutes: [1440, 120],
+  channels: ['whatsapp'],
+  quietHours: { start: '21:00', end: '07:00' }
+};
+
+// Reminders are sent at most a week ahead
+export const MAX_REMINDER_OFFSET_MINUTES = 7 * 24 * 60;
+
+const MINUTE_MS = 60 * 1000;
+
+// Instant of a minute of a calendar date in the business time zone
+const minuteToUtc = (date: PlainDate, minute: number, timeZone: string): Date =>
+  zonedTimeToUtc(date.year, date.month, date.day, Math.floor(minute / 60), minute % 60, timeZone);
+
+/**
+ * Whether an appointment in this status still gets reminders
+ * Cancelled and finished appointments do not
+ * @param status - Appointment status
+ * @returns True for pending and confirmed appointments
+ */
+export function isRemindableStatus(status: AppointmentStatus): boolean {
+  return status === AppointmentStatus.PENDING || status === AppointmentStatus.CONFIRMED;
+}
+
+/**
+ * Gets the quiet hours window an instant falls in
+ * @param instant - Instant to check
+ * @param quietHours - Daily window in the business time zone
+ * @param timeZone - IANA time zone of the business
+ * @returns Start and end of the window, or null when the instant is outside it
+ */
+export function getQuietHoursWindow(
+  instant: Date,
+  quietHours: QuietHours,
+  timeZone: string
+): OpenInterval | null {
+  const start = parseTimeOfDay(quietHours.start);
+  const end = parseTimeOfDay(quietHours.end);
+  if (start === null || end === null || start === end) return null;
+
+  const now = getZonedDateTime(timeZone, instant);
+  const minuteOfDay = now.hour * 60 + now.minute;
+
+  // A window that spans midnight started the day before when we are in its morning part
+  let startDate: PlainDate;
+  if (start < end) {
+    if (minuteOfDay < start || minuteOfDay >= end) return null;
+    startDate = now;
+  } else if (minuteOfDay >= start) {
+    startDate = now;
+  } else if (minuteOfDay < end) {
+    startDate = addDays(now, -1);
+  } else {
+    return null;
+  }
+
+  const endDate = start < end ? startDate : addDays(startDate, 1);
+  return {
+    start: minuteToUtc(startDate, start, timeZone),
+    end: minuteToUtc(endDate, end, timeZone)
+  };
+}
+
+/**
+ * Whether an instant is inside the quiet hours
+ * @param instant - Instant to check
+ * @param quietHours - Daily window in the business time zone
+ * @param timeZone - IANA time zone of the business
+ * @returns True when no messages should be sent at that instant
+ */
+export function isWithinQuietHours(instant: Date, quietHours: QuietHours, timeZone: string): boolean {
+  return getQuietHoursWindow(instant, quietHours, timeZone) !== null;
+}
+
+// Moves a send time out of the quiet hours: to their end when that is still before the
+// appointment, otherwise to the last minute before they start
+function avoidQuietHours(
+  sendAt: Date,
+  scheduledAt: Date,
+  quietHours: QuietHours | undefined,
+  timeZone: string
+): Date {
+  const window = quietHours && getQuietHoursWindow(sendAt, quietHours, timeZone);
+  if (!window) return sendAt;
+
+  return window.end < scheduledAt ? window.end : new Date(window.start.getTime() - MINUTE_MS);
+}
+
+/**
+ * Plans the reminders of an appointment, one per offset and channel.
+ * Reminders whose time has already passed are left out, and so are all reminders of
+ * cancelled or finished appointments.
+ * @param appointment - Appointment to remind
+ * @param settings - Reminder settings of the business
+ * @param timeZone - IANA time zone of the business, used for the quiet hours
+ * @param now - Current instant (defaults to now)
+ * @returns Reminders to queue, earliest first
+ */
+export function planReminders(
+  appointment: Pick<Appointment, 'scheduledAt' | 'status'>,
+  settings: ReminderSettings,
+  timeZone: string,
+  now: Date = new Date()
+): PlannedReminder[] {
+  if (!settings.enabled || !isRemindableStatus(appointment.status)) return [];
+
+  const offsets = Array.from(new Set(settings.offsetsMinutes)).sort((a, b) => b - a);
+  const plannedTimes = new Set<number>();
+  const reminders: PlannedReminder[] = [];
+
+  offsets.forEach(offsetMinutes => {
+    const sendAt = avoidQuietHours(
+      new Date(appointment.scheduledAt.getTime() - offsetMinutes * MINUTE_MS),
+      appointment.scheduledAt,
+      settings.quietHours,
+      timeZone
+    );
+
+    // Two offsets moved to the same time by the quiet hours send a single message
+    if (sendAt <= now || plannedTimes.has(sendAt.getTime())) return;
+    plannedTimes.add(sendAt.getTime());
+
+    settings.channels.forEach(channel => {
+      reminders.push({ channel, offsetMinutes, sendAt });
+    });
+  });
+
+  return reminders.sort((a, b) => a.sendAt.getTime() - b.sendAt.getTime());
+}
+
+/**
+ * Validates reminder settings before they are saved
+ * @param settings - Reminder settings
+ * @returns Validation errors, empty when the settings are valid
+ */
+export function validateReminderSettings(settings: ReminderSettings): ReminderSettingsValidationError[] {
+  const errors: ReminderSettingsValidationError[] = [];
+
+  const offsets = settings.offsetsMinutes || [];
+  if (offsets.some(offset => !Number.isInteger(offset) || offset <= 0 || offset > MAX_REMINDER_OFFSET_MINUTES)) {
+    errors.push({ field: 'offsetsMinutes', message: 'Cada recordatorio debe enviarse entre 1 minuto y 7 días antes' });
+  } else if (new Set(offsets).size !== offsets.length) {
+    errors.push({ field: 'offsetsMinutes', message: 'Hay recordatorios repetidos' });
+  } else if (settings.enabled && offsets.length === 0) {
+    errors.push({ field: 'offsetsMinutes', message: 'Agrega al menos un recordatorio' });
+  }
+
+  const channels = settings.channels || [];
+  if (channels.some(channel => !REMINDER_CHANNELS.includes(channel))) {
+    errors.push({ field: 'channels', message: 'Canal de envío inválido' });
+  } else if (settings.enabled && channels.length === 0) {
+    errors.push({ field: 'channels', message: 'Selecciona al menos un canal' });
+  }
+
+  if (settings.quietHours) {
+    const start = parseTimeOfDay(settings.quietHours.start);
+    const end = parseTimeOfDay(settings.quietHours.end);
+    if (start === null || end === null) {
+      errors.push({ field: 'quietHours', message: 'Formato de hora inválido (HH:MM)' });
+    } else if (start === end) {
+      errors.push({ field: 'quietHours', message: 'El horario de silencio debe tener inicio y fin distintos' });
+    }
+  }
+
+  return errors;
+}
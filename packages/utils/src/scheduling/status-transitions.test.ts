@@ -0,0 +1,82 @@
+/**
+ * Tests for the appointment status state machine
+ */
+
+import { AppointmentStatus } from '@appointments-demo/types';
+import {
+  canTransitionStatus,
+  getAllowedStatusTransitions,
+  isTerminalStatus,
+  validateStatusTransition
+} from './status-transitions';
+
+describe('Appointment Status Transitions', () => {
+  describe('canTransitionStatus', () => {
+    test.each([
+      [AppointmentStatus.PENDING, AppointmentStatus.CONFIRMED],
+      [AppointmentStatus.PENDING, AppointmentStatus.CANCELLED],
+      [AppointmentStatus.CONFIRMED, AppointmentStatus.COMPLETED],
+      [AppointmentStatus.CONFIRMED, AppointmentStatus.CANCELLED],
+      [AppointmentStatus.CONFIRMED, AppointmentStatus.NO_SHOW]
+    ])('should allow %s → %s', (from, to) => {
+      expect(canTransitionStatus(from, to)).toBe(true);
+    });
+
+    test.each([
+      [AppointmentStatus.COMPLETED, AppointmentStatus.PENDING],
+      [AppointmentStatus.CANCELLED, AppointmentStatus.CONFIRMED],
+      [AppointmentStatus.NO_SHOW, AppointmentStatus.COMPLETED],
+      [AppointmentStatus.PENDING, AppointmentStatus.COMPLETED],
+      [AppointmentStatus.PENDING, AppointmentStatus.NO_SHOW],
+      [AppointmentStatus.CONFIRMED, AppointmentStatus.PENDING]
+    ])('should reject %s → %s', (from, to) => {
+      expect(canTransitionStatus(from, to)).toBe(false);
+    });
+
+    test('should treat keeping the same status as allowed', () => {
+      expect(canTransitionStatus(AppointmentStatus.COMPLETED, AppointmentStatus.COMPLETED)).toBe(true);
+    });
+  });
+
+  describe('isTerminalStatus', () => {
+    test('should mark cancelled, completed and no-show as terminal', () => {
+      expect(isTerminalStatus(AppointmentStatus.CANCELLED)).toBe(true);
+      expect(isTerminalStatus(AppointmentStatus.COMPLETED)).toBe(true);
+      expect(isTerminalStatus(AppointmentStatus.NO_SHOW)).toBe(true);
+      expect(isTerminalStatus(AppointmentStatus.PENDING)).toBe(false);
+      expect(isTerminalStatus(AppointmentStatus.CONFIRMED)).toBe(false);
+    });
+  });
+
+  describe('validateStatusTransition', () => {
+    test('should return a structured error for illegal transitions', () => {
+      const result = validateStatusTransition(AppointmentStatus.PENDING, AppointmentStatus.COMPLETED);
+
+      expect(result.valid).toBe(false);
+      if (!result.valid) {
+        expect(result.error).toMatchObject({
+          code: 'INVALID_STATUS_TRANSITION',
+          from: AppointmentStatus.PENDING,
+          to: AppointmentStatus.COMPLETED,
+          allowed: [AppointmentStatus.CONFIRMED, AppointmentStatus.CANCELLED]
+        });
+      }
+    });
+
+    test('should explain that terminal statuses are final', () => {
+      const result = validateStatusTransition(AppointmentStatus.COMPLETED, AppointmentStatus.PENDING);
+
+      expect(result.valid).toBe(false);
+      if (!result.valid) {
+        expect(result.error.allowed).toEqual([]);
+        expect(result.error.message).toContain('final');
+      }
+    });
+
+    test('should not expose the transition table for mutation', () => {
+      getAllowedStatusTransitions(AppointmentStatus.PENDING).push(AppointmentStatus.COMPLETED);
+
+      expect(canTransitionStatus(AppointmentStatus.PENDING, AppointmentStatus.COMPLETED)).toBe(false);
+    });
+  });
+});
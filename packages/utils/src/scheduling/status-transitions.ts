@@ -0,0 +1,92 @@
+/**
+ * Appointment status state machine
+ * Defines which status changes are legal so cancellation and no-show reports stay trustworthy
+ */
+
+import { AppointmentStatus } from '@appointments-demo/types';
+
+/**
+ * Legal transitions from each appointment status
+ * CANCELLED, COMPLETED and NO_SHOW are terminal
+ */
+export const APPOINTMENT_STATUS_TRANSITIONS: Readonly<Record<AppointmentStatus, readonly AppointmentStatus[]>> = {
+  [AppointmentStatus.PENDING]: [AppointmentStatus.CONFIRMED, AppointmentStatus.CANCELLED],
+  [AppointmentStatus.CONFIRMED]: [AppointmentStatus.COMPLETED, AppointmentStatus.CANCELLED, AppointmentStatus.NO_SHOW],
+  [AppointmentStatus.CANCELLED]: [],
+  [AppointmentStatus.COMPLETED]: [],
+  [AppointmentStatus.NO_SHOW]: []
+};
+
+/**
+ * Structured description of a rejected status transition
+ */
+export interface StatusTransitionError {
+  code: 'INVALID_STATUS_TRANSITION';
+  from: AppointmentStatus;
+  to: AppointmentStatus;
+  allowed: AppointmentStatus[];
+  message: string;
+}
+
+/**
+ * Result of validating a status transition
+ */
+export type StatusTransitionResult =
+  | { valid: true }
+  | { valid: false; error: StatusTransitionError };
+
+/**
+ * Gets the statuses an appointment can move to from its current status
+ * @param from - Current status
+ * @returns Allowed target statuses
+ */
+export function getAllowedStatusTransitions(from: AppointmentStatus): AppointmentStatus[] {
+  return [...(APPOINTMENT_STATUS_TRANSITIONS[from] ?? [])];
+}
+
+/**
+ * Checks whether a status accepts no further transitions
+ * @param status - Status to check
+ * @returns true for CANCELLED, COMPLETED and NO_SHOW
+ */
+export function isTerminalStatus(status: AppointmentStatus): boolean {
+  return getAllowedStatusTransitions(status).length === 0;
+}
+
+/**
+ * Checks whether an appointment may move from one status to another
+ * Keeping the same status is not a transition and is always allowed
+ * @param from - Current status
+ * @param to - Requested status
+ * @returns true if the transition is legal
+ */
+export function canTransitionStatus(from: AppointmentStatus, to: AppointmentStatus): boolean {
+  return from === to || getAllowedStatusTransitions(from).includes(to);
+}
+
+/**
+ * Validates a status transition and describes why it was rejected
+ * @param from - Current status
+ * @param to - Requested status
+ * @returns Validation result with a structured error for illegal transitions
+ */
+export function validateStatusTransition(from: AppointmentStatus, to: AppointmentStatus): StatusTransitionResult {
+  if (canTransitionStatus(from, to)) {
+    return { valid: true };
+  }
+
+  const allowed = getAllowedStatusTransitions(from);
+
+  return {
+    valid: false,
+    error: {
+      code: 'INVALID_STATUS_TRANSITION',
+      from,
+      to,
+      allowed,
+      message: allowed.length === 0
+        ? `Appointment status '${from}' is final and cannot change to '${to}'`
+        : `Cannot change appointment status from '${from}' to '${to}'`
+    }
+  };
+}
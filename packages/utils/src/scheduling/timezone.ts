@@ -0,0 +1,119 @@
+/**
+ * Time zone helpers for scheduling
+ * Converts between UTC instants and wall-clock times in a business time zone
+ * using Intl only, so results never depend on the host machine's time zone
+ */
+
+// Time zone of businesses whose settings do not name one
+export const DEFAULT_TIMEZONE = 'America/Bogota';
+
+/**
+ * Wall-clock components of an instant in a given time zone
+ */
+export interface ZonedDateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  dayOfWeek: number; // 0-6 (Sunday-Saturday)
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Gets the wall-clock date and time of an instant in a time zone
+ * @param date - Instant to convert
+ * @param timeZone - IANA time zone (e.g. 'America/Bogota')
+ * @returns Zoned date parts
+ */
+export function getZonedDateParts(date: Date, timeZone: string): ZonedDateParts {
+  const parts: Record<string, number> = {};
+  getFormatter(timeZone).formatToParts(date).forEach(part => {
+    if (part.type !== 'literal') {
+      parts[part.type] = parseInt(part.value, 10);
+    }
+  });
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+    dayOfWeek: new Date(Date.UTC(parts.year, parts.month - 1, parts.day)).getUTCDay()
+  };
+}
+
+/**
+ * Gets the offset of a time zone from UTC at a given instant
+ * @param date - Instant to evaluate
+ * @param timeZone - IANA time zone
+ * @returns Offset in milliseconds (negative west of UTC, e.g. -5h for Bogotá)
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = getZonedDateParts(date, timeZone);
+  const asUTC = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  const truncated = date.getTime() - date.getUTCMilliseconds();
+  return asUTC - truncated;
+}
+
+/**
+ * Converts a wall-clock time in a time zone to a UTC instant
+ * @param year - Full year
+ * @param month - Month (1-12)
+ * @param day - Day of month
+ * @param hour - Hour (0-23)
+ * @param minute - Minute (0-59)
+ * @param timeZone - IANA time zone
+ * @returns Date representing that wall-clock time
+ */
+export function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string
+): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+  // First guess using the offset at the wall-clock time, then correct for DST transitions
+  const firstOffset = getTimeZoneOffset(new Date(wallClock), timeZone);
+  const guess = wallClock - firstOffset;
+  const secondOffset = getTimeZoneOffset(new Date(guess), timeZone);
+
+  return new Date(secondOffset === firstOffset ? guess : wallClock - secondOffset);
+}
+
+/**
+ * Parses an HH:MM string into minutes since midnight
+ * @param time - Time string in 24h HH:MM format
+ * @returns Minutes since midnight or null if invalid
+ */
+export function parseTimeOfDay(time: string): number | null {
+  const match = /^([01]?[0-9]|2[0-3]):([0-5][0-9])$/.exec(time);
+  if (!match) return null;
+
+  return parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+}
@@ -0,0 +1,146 @@
+/**
+ * Tests for working hours validation
+ */
+
+import type { BusinessHours } from '@appointments-demo/types';
+import {
+  formatTimeRanges,
+  getOpenMinuteRanges,
+  validateBusinessHours,
+  validateScheduleWithinBusinessHours
+} from './working-hours';
+
+const businessHours: BusinessHours[] = [
+  { dayOfWeek: 0, intervals: [{ openTime: '10:00', closeTime: '14:00' }], isOpen: false },
+  { dayOfWeek: 1, intervals: [{ openTime: '08:00', closeTime: '18:00' }], isOpen: true },
+  { dayOfWeek: 2, intervals: [{ openTime: '08:00', closeTime: '18:00' }], isOpen: true },
+  { dayOfWeek: 5, intervals: [{ openTime: '14:00', closeTime: '19:00' }, { openTime: '08:00', closeTime: '12:00' }], isOpen: true },
+  { dayOfWeek: 6, intervals: [{ openTime: '09:00', closeTime: '14:00' }], isOpen: true }
+];
+
+describe('Working Hours Validation', () => {
+  test('should accept schedules inside business hours', () => {
+    const schedule: BusinessHours[] = [
+      { dayOfWeek: 1, intervals: [{ openTime: '08:00', closeTime: '18:00' }], isOpen: true },
+      { dayOfWeek: 2, intervals: [{ openTime: '12:00', closeTime: '16:30' }], isOpen: true },
+      { dayOfWeek: 6, intervals: [{ openTime: '09:00', closeTime: '14:00' }], isOpen: false }
+    ];
+
+    expect(validateScheduleWithinBusinessHours(schedule, businessHours)).toEqual([]);
+  });
+
+  test('should reject hours outside the business opening hours', () => {
+    const schedule: BusinessHours[] = [
+      { dayOfWeek: 1, intervals: [{ openTime: '07:30', closeTime: '12:00' }], isOpen: true },
+      { dayOfWeek: 6, intervals: [{ openTime: '10:00', closeTime: '15:00' }], isOpen: true }
+    ];
+
+    expect(validateScheduleWithinBusinessHours(schedule, businessHours)).toEqual([
+      { dayOfWeek: 1, message: 'El horario debe estar entre 08:00 y 18:00' },
+      { dayOfWeek: 6, message: 'El horario debe estar entre 09:00 y 14:00' }
+    ]);
+  });
+
+  test('should reject working days when the business is closed', () => {
+    const schedule: BusinessHours[] = [
+      { dayOfWeek: 0, intervals: [{ openTime: '10:00', closeTime: '12:00' }], isOpen: true },
+      { dayOfWeek: 3, intervals: [{ openTime: '10:00', closeTime: '12:00' }], isOpen: true }
+    ];
+
+    const errors = validateScheduleWithinBusinessHours(schedule, businessHours);
+
+    expect(errors.map(e => e.dayOfWeek)).toEqual([0, 3]);
+    errors.forEach(error => expect(error.message).toBe('El negocio está cerrado este día'));
+  });
+
+  test('should reject invalid and inverted times', () => {
+    const schedule: BusinessHours[] = [
+      { dayOfWeek: 1, intervals: [{ openTime: '9am', closeTime: '12:00' }], isOpen: true },
+      { dayOfWeek: 2, intervals: [{ openTime: '15:00', closeTime: '10:00' }], isOpen: true }
+    ];
+
+    expect(validateScheduleWithinBusinessHours(schedule, businessHours)).toEqual([
+      { dayOfWeek: 1, message: 'Formato de hora inválido (HH:MM)' },
+      { dayOfWeek: 2, message: 'La hora de salida debe ser posterior a la de entrada' }
+    ]);
+  });
+
+  test('should reject repeated days', () => {
+    const schedule: BusinessHours[] = [
+      { dayOfWeek: 1, intervals: [{ openTime: '08:00', closeTime: '12:00' }], isOpen: true },
+      { dayOfWeek: 1, intervals: [{ openTime: '14:00', closeTime: '18:00' }], isOpen: true }
+    ];
+
+    expect(validateScheduleWithinBusinessHours(schedule, businessHours)).toEqual([
+      { dayOfWeek: 1, message: 'El día está repetido en el horario' }
+    ]);
+  });
+
+  test('should fit each interval of a split shift inside a business interval', () => {
+    const schedule: BusinessHours[] = [
+      { dayOfWeek: 5, intervals: [{ openTime: '09:00', closeTime: '12:00' }, { openTime: '14:00', closeTime: '17:00' }], isOpen: true }
+    ];
+    const overLunch: BusinessHours[] = [
+      { dayOfWeek: 5, intervals: [{ openTime: '11:00', closeTime: '15:00' }], isOpen: true }
+    ];
+
+    expect(validateScheduleWithinBusinessHours(schedule, businessHours)).toEqual([]);
+    expect(validateScheduleWithinBusinessHours(overLunch, businessHours)).toEqual([
+      { dayOfWeek: 5, message: 'El horario debe estar entre 08:00 y 12:00 o entre 14:00 y 19:00' }
+    ]);
+  });
+
+  test('should reject overlapping intervals in a schedule', () => {
+    const schedule: BusinessHours[] = [
+      { dayOfWeek: 1, intervals: [{ openTime: '08:00', closeTime: '12:00' }, { openTime: '11:30', closeTime: '15:00' }], isOpen: true }
+    ];
+
+    expect(validateScheduleWithinBusinessHours(schedule, businessHours)).toEqual([
+      { dayOfWeek: 1, message: 'Los horarios del día se cruzan' }
+    ]);
+  });
+});
+
+describe('Business Hours Validation', () => {
+  test('should accept split shifts and closed days without intervals', () => {
+    expect(validateBusinessHours([
+      ...businessHours,
+      { dayOfWeek: 3, intervals: [], isOpen: false }
+    ])).toEqual([]);
+  });
+
+  test('should reject overlapping, inverted and missing intervals of open days', () => {
+    expect(validateBusinessHours([
+      { dayOfWeek: 1, intervals: [{ openTime: '08:00', closeTime: '13:00' }, { openTime: '12:00', closeTime: '18:00' }], isOpen: true },
+      { dayOfWeek: 2, intervals: [{ openTime: '18:00', closeTime: '08:00' }], isOpen: true },
+      { dayOfWeek: 3, intervals: [], isOpen: true },
+      { dayOfWeek: 7, intervals: [{ openTime: '08:00', closeTime: '18:00' }], isOpen: true }
+    ])).toEqual([
+      { dayOfWeek: 1, message: 'Los horarios del día se cruzan' },
+      { dayOfWeek: 2, message: 'La hora de cierre debe ser posterior a la de apertura' },
+      { dayOfWeek: 3, message: 'Agrega al menos un horario para este día' },
+      { dayOfWeek: 7, message: 'Día de la semana inválido' }
+    ]);
+  });
+
+  test('should allow an interval to start when the previous one ends', () => {
+    expect(validateBusinessHours([
+      { dayOfWeek: 1, intervals: [{ openTime: '08:00', closeTime: '12:00' }, { openTime: '12:00', closeTime: '18:00' }], isOpen: true }
+    ])).toEqual([]);
+  });
+});
+
+describe('Time range helpers', () => {
+  test('should list the open minutes of a day sorted by start', () => {
+    expect(getOpenMinuteRanges(businessHours[3])).toEqual([
+      { start: 480, end: 720 },
+      { start: 840, end: 1140 }
+    ]);
+    expect(getOpenMinuteRanges(businessHours[0])).toEqual([]);
+    expect(getOpenMinuteRanges(undefined)).toEqual([]);
+  });
+
+  test('should format the intervals of a day in opening order', () => {
+    expect(formatTimeRanges(businessHours[3].intervals)).toBe('08:00 - 12:00, 14:00 - 19:00');
+  });
+});
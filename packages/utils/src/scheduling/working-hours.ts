@@ -0,0 +1,166 @@
+/**
+ * Working hours helpers
+ * Validates weekly hours (one or more intervals per day, e.g. split shifts around
+ * lunch) and staff schedules against the business's weekly hours
+ */
+
+import type { BusinessHours, TimeRange } from '@appointments-demo/types';
+import { parseTimeOfDay } from './timezone';
+
+/**
+ * A problem found in a weekly schedule
+ */
+export interface ScheduleValidationError {
+  dayOfWeek: number;
+  message: string;
+}
+
+/**
+ * An interval of a day in minutes since midnight
+ */
+export interface MinuteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Gets the open intervals of a day in minutes since midnight, sorted by start.
+ * Closed days, malformed and inverted intervals have no open minutes.
+ * @param hours - Hours of the day, undefined when the day is not configured
+ * @returns Sorted open intervals
+ */
+export function getOpenMinuteRanges(hours: BusinessHours | undefined): MinuteRange[] {
+  if (!hours || !hours.isOpen) return [];
+
+  return (hours.intervals || [])
+    .map(interval => ({ start: parseTimeOfDay(interval.openTime), end: parseTimeOfDay(interval.closeTime) }))
+    .filter((range): range is MinuteRange => range.start !== null && range.end !== null && range.start < range.end)
+    .sort((a, b) => a.start - b.start);
+}
+
+// "9:00" sorts after "10:00" as text, so compare parsed minutes
+const byOpeningTime = (a: TimeRange, b: TimeRange): number =>
+  (parseTimeOfDay(a.openTime) ?? Infinity) - (parseTimeOfDay(b.openTime) ?? Infinity);
+
+/**
+ * Formats intervals for display, e.g. "08:00 - 12:00, 14:00 - 18:00"
+ * @param intervals - Intervals of a day
+ * @returns Intervals sorted by opening time and joined with commas
+ */
+export function formatTimeRanges(intervals: TimeRange[]): string {
+  return [...intervals]
+    .sort(byOpeningTime)
+    .map(interval => `${interval.openTime} - ${interval.closeTime}`)
+    .join(', ');
+}
+
+/**
+ * Finds the first problem with the intervals of an open day
+ * @param intervals - Intervals of the day
+ * @param invertedMessage - Message for an interval that closes before it opens
+ * @returns Error message, null when the intervals are valid
+ */
+export function findTimeRangeError(
+  intervals: TimeRange[] = [],
+  invertedMessage = 'La hora de cierre debe ser posterior a la de apertura'
+): string | null {
+  if (intervals.length === 0) {
+    return 'Agrega al menos un horario para este día';
+  }
+
+  const ranges: MinuteRange[] = [];
+  for (const interval of intervals) {
+    const start = parseTimeOfDay(interval.openTime);
+    const end = parseTimeOfDay(interval.closeTime);
+    if (start === null || end === null) {
+      return 'Formato de hora inválido (HH:MM)';
+    }
+    if (start >= end) {
+      return invertedMessage;
+    }
+    ranges.push({ start, end });
+  }
+
+  ranges.sort((a, b) => a.start - b.start);
+  if (ranges.some((range, index) => index > 0 && range.start < ranges[index - 1].end)) {
+    return 'Los horarios del día se cruzan';
+  }
+
+  return null;
+}
+
+// Validates days and the intervals of open days, reporting the first problem of each day
+function validateWeeklyHours(
+  hours: BusinessHours[],
+  invertedMessage: string,
+  validateOpenDay: (day: BusinessHours) => string | null = () => null
+): ScheduleValidationError[] {
+  const errors: ScheduleValidationError[] = [];
+  const seenDays = new Set<number>();
+
+  hours.forEach(day => {
+    if (!Number.isInteger(day.dayOfWeek) || day.dayOfWeek < 0 || day.dayOfWeek > 6) {
+      errors.push({ dayOfWeek: day.dayOfWeek, message: 'Día de la semana inválido' });
+      return;
+    }
+
+    if (seenDays.has(day.dayOfWeek)) {
+      errors.push({ dayOfWeek: day.dayOfWeek, message: 'El día está repetido en el horario' });
+      return;
+    }
+    seenDays.add(day.dayOfWeek);
+
+    if (!day.isOpen) return;
+
+    const message = findTimeRangeError(day.intervals, invertedMessage) ?? validateOpenDay(day);
+    if (message) {
+      errors.push({ dayOfWeek: day.dayOfWeek, message });
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Checks the weekly hours of a business: valid days without repeats and, for
+ * open days, well formed intervals that do not overlap.
+ * Days marked as closed are always valid.
+ * @param hours - Weekly hours of the business
+ * @returns List of errors, empty when the hours are valid
+ */
+export function validateBusinessHours(hours: BusinessHours[]): ScheduleValidationError[] {
+  return validateWeeklyHours(hours, 'La hora de cierre debe ser posterior a la de apertura');
+}
+
+/**
+ * Checks that a weekly schedule only works while the business is open: every
+ * interval must fit inside one of the business's intervals for that day.
+ * Days marked as closed in the schedule are always valid.
+ * @param schedule - Weekly schedule to check (e.g. a specialist's hours)
+ * @param businessHours - Weekly hours of the business
+ * @returns List of errors, empty when the schedule is valid
+ */
+export function validateScheduleWithinBusinessHours(
+  schedule: BusinessHours[],
+  businessHours: BusinessHours[]
+): ScheduleValidationError[] {
+  return validateWeeklyHours(schedule, 'La hora de salida debe ser posterior a la de entrada', day => {
+    const businessDay = businessHours.find(h => h.dayOfWeek === day.dayOfWeek);
+    const businessRanges = getOpenMinuteRanges(businessDay);
+    if (!businessDay || businessRanges.length === 0) {
+      return 'El negocio está cerrado este día';
+    }
+
+    const fits = getOpenMinuteRanges(day).every(range =>
+      businessRanges.some(business => range.start >= business.start && range.end <= business.end)
+    );
+    if (fits) return null;
+
+    const allowed = [...businessDay.intervals]
+      .filter(interval => parseTimeOfDay(interval.openTime) !== null && parseTimeOfDay(interval.closeTime) !== null)
+      .sort(byOpeningTime)
+      .map(interval => `entre ${interval.openTime} y ${interval.closeTime}`)
+      .join(' o ');
+    return `El horario debe estar ${allowed}`;
+  });
+}
@@ -0,0 +1,78 @@
+/**
+ * Tests for the zoned date layer
+ */
+
+import {
+  addDays,
+  comparePlainDates,
+  createPlainDate,
+  formatPlainDate,
+  getDayOfWeek,
+  getStartOfDay,
+  getZonedDateTime,
+  parsePlainDate,
+  toPlainDate
+} from './zoned-date';
+
+// Host time zones the results must not depend on, from UTC-10 to UTC+14
+const HOST_TIME_ZONES = ['UTC', 'America/Bogota', 'Pacific/Honolulu', 'Asia/Tokyo', 'Pacific/Kiritimati'];
+
+describe.each(HOST_TIME_ZONES)('Zoned Date Layer with the host time zone set to %s', hostTimeZone => {
+  const originalTimeZone = process.env.TZ;
+
+  beforeAll(() => {
+    process.env.TZ = hostTimeZone;
+  });
+
+  afterAll(() => {
+    process.env.TZ = originalTimeZone;
+  });
+
+  describe('plain dates', () => {
+    test('should roll over days, months and years', () => {
+      expect(createPlainDate(2025, 1, 32)).toEqual({ year: 2025, month: 2, day: 1 });
+      expect(addDays({ year: 2024, month: 12, day: 31 }, 1)).toEqual({ year: 2025, month: 1, day: 1 });
+      expect(addDays({ year: 2024, month: 3, day: 1 }, -1)).toEqual({ year: 2024, month: 2, day: 29 });
+    });
+
+    test('should parse and format YYYY-MM-DD', () => {
+      expect(parsePlainDate('2025-03-09')).toEqual({ year: 2025, month: 3, day: 9 });
+      expect(formatPlainDate({ year: 2025, month: 3, day: 9 })).toBe('2025-03-09');
+      expect(parsePlainDate('2025-02-30')).toBeNull();
+      expect(parsePlainDate('2025-3-9')).toBeNull();
+    });
+
+    test('should get the day of the week and order dates', () => {
+      expect(getDayOfWeek({ year: 2025, month: 3, day: 9 })).toBe(0); // Sunday
+      expect(comparePlainDates({ year: 2025, month: 3, day: 9 }, { year: 2025, month: 3, day: 10 })).toBeLessThan(0);
+      expect(comparePlainDates({ year: 2025, month: 3, day: 9 }, { year: 2025, month: 3, day: 9 })).toBe(0);
+    });
+  });
+
+  describe('zoned instants', () => {
+    test('should read the calendar date of an instant in the given zone', () => {
+      // 23:30 on March 9 in Bogotá is already March 10 in UTC and Tokyo
+      const instant = new Date('2025-03-10T04:30:00Z');
+
+      expect(toPlainDate(instant, 'America/Bogota')).toEqual({ year: 2025, month: 3, day: 9 });
+      expect(toPlainDate(instant, 'Asia/Tokyo')).toEqual({ year: 2025, month: 3, day: 10 });
+    });
+
+    test('should find the instant a date starts in a zone', () => {
+      expect(getStartOfDay({ year: 2025, month: 3, day: 9 }, 'America/Bogota').toISOString())
+        .toBe('2025-03-09T05:00:00.000Z');
+      // New York switches to EDT at 02:00 that day, after midnight
+      expect(getStartOfDay({ year: 2025, month: 3, day: 9 }, 'America/New_York').toISOString())
+        .toBe('2025-03-09T05:00:00.000Z');
+    });
+
+    test('should keep the instant next to its wall-clock parts', () => {
+      const instant = new Date('2025-03-10T04:30:00Z');
+      const zoned = getZonedDateTime('America/Bogota', instant);
+
+      expect(zoned).toMatchObject({ year: 2025, month: 3, day: 9, hour: 23, minute: 30, dayOfWeek: 0 });
+      expect(zoned.timeZone).toBe('America/Bogota');
+      expect(zoned.instant).toEqual(instant);
+    });
+  });
+});
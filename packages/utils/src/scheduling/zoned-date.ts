@@ -0,0 +1,128 @@
+/**
+ * Zoned date layer
+ * Calendar dates without a time zone (PlainDate) and instants read in a named
+ * time zone (ZonedDateTime). Date arithmetic runs on UTC components, so results
+ * never depend on the host machine's time zone
+ */
+
+import { getZonedDateParts, zonedTimeToUtc, type ZonedDateParts } from './timezone';
+
+/**
+ * A calendar date with no time of day or time zone (e.g. a holiday)
+ */
+export interface PlainDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+/**
+ * An instant together with its wall-clock date and time in a time zone
+ */
+export interface ZonedDateTime extends ZonedDateParts {
+  timeZone: string;
+  instant: Date;
+}
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+// Calendar date of a UTC timestamp, used to normalize day and month overflow
+const fromUtcTimestamp = (timestamp: number): PlainDate => {
+  const date = new Date(timestamp);
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+};
+
+/**
+ * Creates a calendar date, rolling over out-of-range days and months
+ * (e.g. January 32 becomes February 1)
+ * @param year - Full year
+ * @param month - Month (1-12)
+ * @param day - Day of the month
+ * @returns Normalized calendar date
+ */
+export function createPlainDate(year: number, month: number, day: number): PlainDate {
+  return fromUtcTimestamp(Date.UTC(year, month - 1, day));
+}
+
+/**
+ * Parses a YYYY-MM-DD string
+ * @param text - Date in YYYY-MM-DD format
+ * @returns Calendar date, or null for malformed or impossible dates (e.g. 2025-02-30)
+ */
+export function parsePlainDate(text: string): PlainDate | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text);
+  if (!match) return null;
+
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = createPlainDate(year, month, day);
+  return date.year === year && date.month === month && date.day === day ? date : null;
+}
+
+/**
+ * Formats a calendar date as YYYY-MM-DD
+ * @param date - Calendar date
+ * @returns Date string
+ */
+export function formatPlainDate(date: PlainDate): string {
+  return `${date.year}-${pad(date.month)}-${pad(date.day)}`;
+}
+
+/**
+ * Adds days to a calendar date
+ * @param date - Calendar date
+ * @param days - Days to add, negative to go back
+ * @returns Resulting calendar date
+ */
+export function addDays(date: PlainDate, days: number): PlainDate {
+  return createPlainDate(date.year, date.month, date.day + days);
+}
+
+/**
+ * Gets the day of the week of a calendar date
+ * @param date - Calendar date
+ * @returns 0-6 (Sunday-Saturday)
+ */
+export function getDayOfWeek(date: PlainDate): number {
+  return new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+}
+
+/**
+ * Compares two calendar dates
+ * @param a - First date
+ * @param b - Second date
+ * @returns Negative when a is earlier, 0 when equal, positive when later
+ */
+export function comparePlainDates(a: PlainDate, b: PlainDate): number {
+  return a.year - b.year || a.month - b.month || a.day - b.day;
+}
+
+/**
+ * Gets the calendar date of an instant in a time zone
+ * @param instant - Instant to read
+ * @param timeZone - IANA time zone (e.g. 'America/Bogota')
+ * @returns Calendar date in that zone
+ */
+export function toPlainDate(instant: Date, timeZone: string): PlainDate {
+  const { year, month, day } = getZonedDateParts(instant, timeZone);
+  return { year, month, day };
+}
+
+/**
+ * Gets the instant a calendar date starts in a time zone
+ * @param date - Calendar date
+ * @param timeZone - IANA time zone
+ * @returns Instant of local midnight in that zone
+ */
+export function getStartOfDay(date: PlainDate, timeZone: string): Date {
+  return zonedTimeToUtc(date.year, date.month, date.day, 0, 0, timeZone);
+}
+
+/**
+ * Reads an instant in a time zone
+ * @param timeZone - IANA time zone
+ * @param instant - Instant to read (defaults to now)
+ * @returns The instant with its wall-clock parts in that zone
+ */
+export function getZonedDateTime(timeZone: string, instant: Date = new Date()): ZonedDateTime {
+  return { ...getZonedDateParts(instant, timeZone), timeZone, instant: new Date(instant) };
+}
@@ -0,0 +1,85 @@
+-- Migration: Create appointments table with multi-tenant isolation
+-- Description: Persists the Appointment type from @appointments-demo/types, scoped to a business via RLS
+
+-- Create appointments table
+CREATE TABLE appointments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+
+    -- Customer contact (Colombian phone format)
+    customer_name VARCHAR(255) NOT NULL,
+    customer_phone VARCHAR(20) NOT NULL,
+    customer_email VARCHAR(255),
+
+    -- Scheduling
+    service_type VARCHAR(255) NOT NULL,
+    scheduled_at TIMESTAMPTZ NOT NULL,
+    duration_minutes INTEGER NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',
+    notes TEXT,
+
+    -- Timestamps
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Colombian phone format: +57 XXX XXX XXXX (same rule as businesses.phone)
+ALTER TABLE appointments ADD CONSTRAINT check_customer_phone_format
+    CHECK (customer_phone ~ '^\+57 [0-9]{3} [0-9]{3} [0-9]{4}$');
+
+ALTER TABLE appointments ADD CONSTRAINT check_customer_email_format
+    CHECK (customer_email IS NULL OR customer_email ~* '^[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}$');
+
+-- Durations between 5 minutes and 12 hours
+ALTER TABLE appointments ADD CONSTRAINT check_duration_range
+    CHECK (duration_minutes BETWEEN 5 AND 720);
+
+-- Status values mirror the AppointmentStatus enum
+ALTER TABLE appointments ADD CONSTRAINT check_status_valid
+    CHECK (status IN ('pending', 'confirmed', 'cancelled', 'completed', 'no_show'));
+
+-- Create indexes for calendar and listing queries
+CREATE INDEX idx_appointments_business_id ON appointments(business_id);
+CREATE INDEX idx_appointments_business_scheduled_at ON appointments(business_id, scheduled_at);
+CREATE INDEX idx_appointments_status ON appointments(business_id, status);
+
+-- Reuse the updated_at trigger function from migration 001
+CREATE TRIGGER update_appointments_updated_at
+    BEFORE UPDATE ON appointments
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security on appointments table
+ALTER TABLE appointments ENABLE ROW LEVEL SECURITY;
+
+-- Mirrors businesses_isolation_policy: rows are visible only within the current business context
+CREATE POLICY appointments_isolation_policy ON appointments
+    FOR ALL
+    USING (business_id = current_setting('app.current_business_id', true)::UUID)
+    WITH CHECK (business_id = current_setting('app.current_business_id', true)::UUID);
+
+-- Business owners can always reach their own appointments (matches businesses_owner_access_policy)
+CREATE POLICY appointments_owner_access_policy ON appointments
+    FOR ALL
+    USING (
+        EXISTS (
+            SELECT 1 FROM businesses b
+            WHERE b.id = appointments.business_id
+            AND b.owner_id = auth.uid()
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM businesses b
+            WHERE b.id = appointments.business_id
+            AND b.owner_id = auth.uid()
+        )
+    );
+
+-- Add comments for documentation
+COMMENT ON TABLE appointments IS 'Customer appointments with multi-tenant isolation via business_id';
+COMMENT ON COLUMN appointments.customer_phone IS 'Colombian phone number in format +57 XXX XXX XXXX';
+COMMENT ON COLUMN appointments.duration_minutes IS 'Appointment length in minutes';
+COMMENT ON COLUMN appointments.status IS 'One of pending, confirmed, cancelled, completed, no_show';
+COMMENT ON POLICY appointments_isolation_policy ON appointments IS 'Ensures appointments are only visible within the current business context';
+COMMENT ON POLICY appointments_owner_access_policy ON appointments IS 'Business owners can manage appointments of businesses they own via owner_id';
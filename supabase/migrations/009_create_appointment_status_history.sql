@@ -0,0 +1,67 @@
+-- Migration: Create appointment status history table
+-- Description: Audit trail of appointment status transitions (who, when, why) for cancellation and no-show reports
+
+-- Create appointment_status_history table
+CREATE TABLE appointment_status_history (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    appointment_id UUID NOT NULL REFERENCES appointments(id) ON DELETE CASCADE,
+    business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+
+    -- Transition (from_status is NULL for the initial status at creation)
+    from_status VARCHAR(20),
+    to_status VARCHAR(20) NOT NULL,
+
+    -- Audit
+    changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    reason TEXT,
+    changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Status values mirror the AppointmentStatus enum (same rule as appointments.status)
+ALTER TABLE appointment_status_history ADD CONSTRAINT check_from_status_valid
+    CHECK (from_status IS NULL OR from_status IN ('pending', 'confirmed', 'cancelled', 'completed', 'no_show'));
+
+ALTER TABLE appointment_status_history ADD CONSTRAINT check_to_status_valid
+    CHECK (to_status IN ('pending', 'confirmed', 'cancelled', 'completed', 'no_show'));
+
+-- Create indexes for timeline and reporting queries
+CREATE INDEX idx_appointment_status_history_appointment ON appointment_status_history(appointment_id, changed_at);
+CREATE INDEX idx_appointment_status_history_business_status ON appointment_status_history(business_id, to_status, changed_at);
+
+-- Enable Row Level Security on appointment_status_history table
+ALTER TABLE appointment_status_history ENABLE ROW LEVEL SECURITY;
+
+-- History rows are append-only: policies cover SELECT and INSERT, never UPDATE or DELETE
+CREATE POLICY appointment_status_history_isolation_select_policy ON appointment_status_history
+    FOR SELECT
+    USING (business_id = current_setting('app.current_business_id', true)::UUID);
+
+CREATE POLICY appointment_status_history_isolation_insert_policy ON appointment_status_history
+    FOR INSERT
+    WITH CHECK (business_id = current_setting('app.current_business_id', true)::UUID);
+
+CREATE POLICY appointment_status_history_owner_select_policy ON appointment_status_history
+    FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM businesses b
+            WHERE b.id = appointment_status_history.business_id
+            AND b.owner_id = auth.uid()
+        )
+    );
+
+CREATE POLICY appointment_status_history_owner_insert_policy ON appointment_status_history
+    FOR INSERT
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM businesses b
+            WHERE b.id = appointment_status_history.business_id
+            AND b.owner_id = auth.uid()
+        )
+    );
+
+-- Add comments for documentation
+COMMENT ON TABLE appointment_status_history IS 'Append-only audit trail of appointment status transitions';
+COMMENT ON COLUMN appointment_status_history.from_status IS 'Previous status, NULL when the appointment was created';
+COMMENT ON COLUMN appointment_status_history.changed_by IS 'Auth user who changed the status, NULL for public or system changes';
+COMMENT ON COLUMN appointment_status_history.reason IS 'Optional explanation (e.g. cancellation reason)';
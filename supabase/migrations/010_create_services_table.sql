@@ -0,0 +1,86 @@
+-- Migration: Create services catalog table
+-- Description: Per-business services with duration, COP price, buffer time and active flag,
+-- replacing the loose settings.services strings; appointments reference the booked service
+
+-- Create services table
+CREATE TABLE services (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+
+    name VARCHAR(255) NOT NULL,
+    description TEXT,
+
+    -- Booking rules
+    duration_minutes INTEGER NOT NULL,
+    price INTEGER NOT NULL DEFAULT 0,
+    buffer_minutes INTEGER NOT NULL DEFAULT 0,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+
+    -- Timestamps
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Durations between 5 minutes and 12 hours (same rule as appointments.duration_minutes)
+ALTER TABLE services ADD CONSTRAINT check_service_duration_range
+    CHECK (duration_minutes BETWEEN 5 AND 720);
+
+-- Prices are whole Colombian pesos
+ALTER TABLE services ADD CONSTRAINT check_service_price_non_negative
+    CHECK (price >= 0);
+
+ALTER TABLE services ADD CONSTRAINT check_service_buffer_range
+    CHECK (buffer_minutes BETWEEN 0 AND 240);
+
+-- Service names are unique per business (case-insensitive)
+CREATE UNIQUE INDEX idx_services_business_name ON services(business_id, LOWER(name));
+CREATE INDEX idx_services_business_active ON services(business_id, is_active);
+
+-- Reuse the updated_at trigger function from migration 001
+CREATE TRIGGER update_services_updated_at
+    BEFORE UPDATE ON services
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security on services table
+ALTER TABLE services ENABLE ROW LEVEL SECURITY;
+
+-- Mirrors businesses_isolation_policy: rows are visible only within the current business context
+CREATE POLICY services_isolation_policy ON services
+    FOR ALL
+    USING (business_id = current_setting('app.current_business_id', true)::UUID)
+    WITH CHECK (business_id = current_setting('app.current_business_id', true)::UUID);
+
+-- Business owners can always reach their own services (matches businesses_owner_access_policy)
+CREATE POLICY services_owner_access_policy ON services
+    FOR ALL
+    USING (
+        EXISTS (
+            SELECT 1 FROM businesses b
+            WHERE b.id = services.business_id
+            AND b.owner_id = auth.uid()
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM businesses b
+            WHERE b.id = services.business_id
+            AND b.owner_id = auth.uid()
+        )
+    );
+
+-- Appointments reference the booked service; service_type keeps the name at booking time
+ALTER TABLE appointments
+    ADD COLUMN service_id UUID REFERENCES services(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_appointments_service_id ON appointments(service_id);
+
+-- Add comments for documentation
+COMMENT ON TABLE services IS 'Services catalog per business with multi-tenant isolation via business_id';
+COMMENT ON COLUMN services.duration_minutes IS 'Service length in minutes';
+COMMENT ON COLUMN services.price IS 'Price in whole Colombian pesos (COP)';
+COMMENT ON COLUMN services.buffer_minutes IS 'Time blocked after each appointment for cleanup or preparation';
+COMMENT ON COLUMN services.is_active IS 'Inactive services stay on past appointments but cannot be booked';
+COMMENT ON COLUMN appointments.service_id IS 'Booked service from the catalog, NULL if the service was deleted';
+COMMENT ON POLICY services_isolation_policy ON services IS 'Ensures services are only visible within the current business context';
+COMMENT ON POLICY services_owner_access_policy ON services IS 'Business owners can manage services of businesses they own via owner_id';
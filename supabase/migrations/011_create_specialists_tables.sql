@@ -0,0 +1,132 @@
+-- Migration: Create specialists tables
+-- Description: Business staff with their own weekly schedule and the services they can perform;
+-- appointments can be booked with a specific specialist
+
+-- Create specialists table
+CREATE TABLE specialists (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+
+    name VARCHAR(255) NOT NULL,
+    email VARCHAR(255),
+    phone VARCHAR(20),
+
+    -- Weekly schedule, same shape as settings.businessHours
+    schedule JSONB NOT NULL DEFAULT '[]'::jsonb,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+
+    -- Timestamps
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Colombian phone format: +57 XXX XXX XXXX (same rule as businesses.phone)
+ALTER TABLE specialists ADD CONSTRAINT check_specialist_phone_format
+    CHECK (phone IS NULL OR phone ~ '^\+57 [0-9]{3} [0-9]{3} [0-9]{4}$');
+
+ALTER TABLE specialists ADD CONSTRAINT check_specialist_email_format
+    CHECK (email IS NULL OR email ~* '^[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}$');
+
+ALTER TABLE specialists ADD CONSTRAINT check_specialist_schedule_is_array
+    CHECK (jsonb_typeof(schedule) = 'array');
+
+CREATE INDEX idx_specialists_business_active ON specialists(business_id, is_active);
+
+-- Reuse the updated_at trigger function from migration 001
+CREATE TRIGGER update_specialists_updated_at
+    BEFORE UPDATE ON specialists
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Services each specialist can perform
+CREATE TABLE specialist_services (
+    specialist_id UUID NOT NULL REFERENCES specialists(id) ON DELETE CASCADE,
+    service_id UUID NOT NULL REFERENCES services(id) ON DELETE CASCADE,
+    business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (specialist_id, service_id)
+);
+
+CREATE INDEX idx_specialist_services_service ON specialist_services(service_id);
+CREATE INDEX idx_specialist_services_business ON specialist_services(business_id);
+
+-- Specialist and service must belong to the same business as the link
+CREATE OR REPLACE FUNCTION check_specialist_service_business()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM specialists WHERE id = NEW.specialist_id AND business_id = NEW.business_id)
+       OR NOT EXISTS (SELECT 1 FROM services WHERE id = NEW.service_id AND business_id = NEW.business_id) THEN
+        RAISE EXCEPTION 'Specialist and service must belong to business %', NEW.business_id;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER check_specialist_services_business
+    BEFORE INSERT OR UPDATE ON specialist_services
+    FOR EACH ROW
+    EXECUTE FUNCTION check_specialist_service_business();
+
+-- Appointments can be assigned to a specialist
+ALTER TABLE appointments
+    ADD COLUMN specialist_id UUID REFERENCES specialists(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_appointments_specialist_scheduled_at ON appointments(specialist_id, scheduled_at);
+
+-- Enable Row Level Security on specialist tables
+ALTER TABLE specialists ENABLE ROW LEVEL SECURITY;
+ALTER TABLE specialist_services ENABLE ROW LEVEL SECURITY;
+
+-- Mirrors businesses_isolation_policy: rows are visible only within the current business context
+CREATE POLICY specialists_isolation_policy ON specialists
+    FOR ALL
+    USING (business_id = current_setting('app.current_business_id', true)::UUID)
+    WITH CHECK (business_id = current_setting('app.current_business_id', true)::UUID);
+
+CREATE POLICY specialist_services_isolation_policy ON specialist_services
+    FOR ALL
+    USING (business_id = current_setting('app.current_business_id', true)::UUID)
+    WITH CHECK (business_id = current_setting('app.current_business_id', true)::UUID);
+
+-- Business owners can always reach their own specialists (matches businesses_owner_access_policy)
+CREATE POLICY specialists_owner_access_policy ON specialists
+    FOR ALL
+    USING (
+        EXISTS (
+            SELECT 1 FROM businesses b
+            WHERE b.id = specialists.business_id
+            AND b.owner_id = auth.uid()
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM businesses b
+            WHERE b.id = specialists.business_id
+            AND b.owner_id = auth.uid()
+        )
+    );
+
+CREATE POLICY specialist_services_owner_access_policy ON specialist_services
+    FOR ALL
+    USING (
+        EXISTS (
+            SELECT 1 FROM businesses b
+            WHERE b.id = specialist_services.business_id
+            AND b.owner_id = auth.uid()
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM businesses b
+            WHERE b.id = specialist_services.business_id
+            AND b.owner_id = auth.uid()
+        )
+    );
+
+-- Add comments for documentation
+COMMENT ON TABLE specialists IS 'Business staff who attend appointments, with multi-tenant isolation via business_id';
+COMMENT ON COLUMN specialists.schedule IS 'Weekly working hours as [{dayOfWeek, openTime, closeTime, isOpen}], within the business hours';
+COMMENT ON TABLE specialist_services IS 'Services each specialist can perform';
+COMMENT ON COLUMN appointments.specialist_id IS 'Specialist attending the appointment, NULL if unassigned';
+COMMENT ON POLICY specialists_isolation_policy ON specialists IS 'Ensures specialists are only visible within the current business context';
+COMMENT ON POLICY specialists_owner_access_policy ON specialists IS 'Business owners can manage specialists of businesses they own via owner_id';
@@ -0,0 +1,88 @@
+-- Migration: Create clients table
+-- Description: Per-business customer directory keyed by normalized Colombian phone;
+-- appointments are matched to a client by phone when they are booked
+
+-- Create clients table
+CREATE TABLE clients (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+
+    name VARCHAR(255) NOT NULL,
+    phone VARCHAR(20) NOT NULL,
+    email VARCHAR(255),
+    notes TEXT,
+
+    -- Timestamps
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Colombian phone format: +57 XXX XXX XXXX (same rule as appointments.customer_phone)
+ALTER TABLE clients ADD CONSTRAINT check_client_phone_format
+    CHECK (phone ~ '^\+57 [0-9]{3} [0-9]{3} [0-9]{4}$');
+
+ALTER TABLE clients ADD CONSTRAINT check_client_email_format
+    CHECK (email IS NULL OR email ~* '^[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}$');
+
+-- One client per phone number within a business
+CREATE UNIQUE INDEX idx_clients_business_phone ON clients(business_id, phone);
+CREATE INDEX idx_clients_business_name ON clients(business_id, lower(name));
+
+-- Reuse the updated_at trigger function from migration 001
+CREATE TRIGGER update_clients_updated_at
+    BEFORE UPDATE ON clients
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Appointments are linked to the client they were matched to
+ALTER TABLE appointments
+    ADD COLUMN client_id UUID REFERENCES clients(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_appointments_client ON appointments(client_id);
+
+-- Backfill: one client per business and phone, named after their latest appointment
+INSERT INTO clients (business_id, name, phone, email)
+SELECT DISTINCT ON (business_id, customer_phone)
+    business_id, customer_name, customer_phone, customer_email
+FROM appointments
+ORDER BY business_id, customer_phone, scheduled_at DESC;
+
+UPDATE appointments a
+SET client_id = c.id
+FROM clients c
+WHERE c.business_id = a.business_id
+AND c.phone = a.customer_phone;
+
+-- Enable Row Level Security on clients table
+ALTER TABLE clients ENABLE ROW LEVEL SECURITY;
+
+-- Mirrors businesses_isolation_policy: rows are visible only within the current business context
+CREATE POLICY clients_isolation_policy ON clients
+    FOR ALL
+    USING (business_id = current_setting('app.current_business_id', true)::UUID)
+    WITH CHECK (business_id = current_setting('app.current_business_id', true)::UUID);
+
+-- Business owners can always reach their own clients (matches businesses_owner_access_policy)
+CREATE POLICY clients_owner_access_policy ON clients
+    FOR ALL
+    USING (
+        EXISTS (
+            SELECT 1 FROM businesses b
+            WHERE b.id = clients.business_id
+            AND b.owner_id = auth.uid()
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM businesses b
+            WHERE b.id = clients.business_id
+            AND b.owner_id = auth.uid()
+        )
+    );
+
+-- Add comments for documentation
+COMMENT ON TABLE clients IS 'Customer directory with multi-tenant isolation via business_id';
+COMMENT ON COLUMN clients.phone IS 'Normalized Colombian phone number (+57 XXX XXX XXXX), unique per business';
+COMMENT ON COLUMN appointments.client_id IS 'Client matched by phone when the appointment was booked, NULL if unmatched';
+COMMENT ON POLICY clients_isolation_policy ON clients IS 'Ensures clients are only visible within the current business context';
+COMMENT ON POLICY clients_owner_access_policy ON clients IS 'Business owners can manage clients of businesses they own via owner_id';
@@ -0,0 +1,76 @@
+-- Migration: Add public slugs to businesses
+-- Description: URL handle for the public booking page (/b/<slug>); generated from the
+-- business name when not provided and unique across all businesses
+
+-- Lowercase ASCII slug from a business name ("Peluquería Ñoño" -> "peluqueria-nono")
+CREATE OR REPLACE FUNCTION slugify_business_name(value TEXT)
+RETURNS TEXT AS $$
+BEGIN
+    RETURN trim(BOTH '-' FROM regexp_replace(
+        translate(lower(value), 'áéíóúüñàèìòù', 'aeiouunaeiou'),
+        '[^a-z0-9]+', '-', 'g'
+    ));
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+ALTER TABLE businesses ADD COLUMN slug VARCHAR(63);
+
+-- Backfill: duplicated names get a numeric suffix in creation order
+UPDATE businesses b
+SET slug = numbered.slug
+FROM (
+    SELECT
+        id,
+        CASE WHEN row_number() OVER w = 1 THEN base
+             ELSE base || '-' || row_number() OVER w
+        END AS slug
+    FROM (
+        SELECT id, created_at, COALESCE(NULLIF(left(slugify_business_name(name), 50), ''), 'negocio') AS base
+        FROM businesses
+    ) named
+    WINDOW w AS (PARTITION BY base ORDER BY created_at, id)
+) numbered
+WHERE numbered.id = b.id;
+
+ALTER TABLE businesses ALTER COLUMN slug SET NOT NULL;
+
+ALTER TABLE businesses ADD CONSTRAINT check_slug_format
+    CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$');
+
+CREATE UNIQUE INDEX idx_businesses_slug ON businesses(slug);
+
+-- Generate a unique slug for new businesses registered without one
+-- (SECURITY DEFINER so the uniqueness check sees every business, not only those visible through RLS)
+CREATE OR REPLACE FUNCTION set_business_slug()
+RETURNS TRIGGER AS $$
+DECLARE
+    base TEXT;
+    candidate TEXT;
+    suffix INTEGER := 1;
+BEGIN
+    IF NEW.slug IS NOT NULL THEN
+        RETURN NEW;
+    END IF;
+
+    base := COALESCE(NULLIF(left(slugify_business_name(NEW.name), 50), ''), 'negocio');
+    candidate := base;
+
+    WHILE EXISTS (SELECT 1 FROM businesses WHERE slug = candidate) LOOP
+        suffix := suffix + 1;
+        candidate := base || '-' || suffix;
+    END LOOP;
+
+    NEW.slug := candidate;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER set_businesses_slug
+    BEFORE INSERT ON businesses
+    FOR EACH ROW
+    EXECUTE FUNCTION set_business_slug();
+
+-- Add comments for documentation
+COMMENT ON COLUMN businesses.slug IS 'Public URL handle for the booking page, unique across businesses';
+COMMENT ON FUNCTION slugify_business_name(TEXT) IS 'Turns a business name into a lowercase ASCII slug';
+COMMENT ON FUNCTION set_business_slug() IS 'Fills businesses.slug from the name on insert when it is not provided';
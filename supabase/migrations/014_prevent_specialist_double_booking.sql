@@ -0,0 +1,27 @@
+-- Migration: Prevent overlapping appointments per specialist
+-- Description: Exclusion constraint so two concurrent bookings cannot give the same
+-- specialist overlapping appointments; cancelled appointments do not hold their time.
+-- Existing overlaps must be resolved (cancelled or moved) before applying.
+
+-- Needed to combine equality on specialist_id with range overlap in one GiST index
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+-- Half-open time range an appointment occupies: [scheduled_at, scheduled_at + duration)
+-- timestamptz + interval is only STABLE in general; minute intervals never depend on the
+-- session time zone, so this wrapper is safe to mark IMMUTABLE for use in the index
+CREATE OR REPLACE FUNCTION appointment_time_range(scheduled_at TIMESTAMPTZ, duration_minutes INTEGER)
+RETURNS TSTZRANGE AS $$
+    SELECT tstzrange(scheduled_at, scheduled_at + make_interval(mins => duration_minutes), '[)');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Back-to-back appointments (one ends when the next starts) do not overlap
+ALTER TABLE appointments ADD CONSTRAINT appointments_no_specialist_overlap
+    EXCLUDE USING gist (
+        specialist_id WITH =,
+        appointment_time_range(scheduled_at, duration_minutes) WITH &&
+    )
+    WHERE (specialist_id IS NOT NULL AND status <> 'cancelled');
+
+-- Add comments for documentation
+COMMENT ON FUNCTION appointment_time_range(TIMESTAMPTZ, INTEGER) IS 'Time range occupied by an appointment, used by appointments_no_specialist_overlap';
+COMMENT ON CONSTRAINT appointments_no_specialist_overlap ON appointments IS 'A specialist cannot have overlapping non-cancelled appointments';
@@ -0,0 +1,34 @@
+-- Migration: Accept the full mobile range and landlines in phone columns
+-- Description: Phone constraints used to check only the +57 XXX XXX XXXX shape; they now
+-- also require a Colombian prefix: any mobile block (3XX) or a unified-dialing landline
+-- indicative (601, 602, 604-608). Same rule as ColombianPhoneSchema in the web app.
+-- Rows with other prefixes must be corrected before applying.
+
+-- Single definition of the rule so every phone column stays in sync
+CREATE OR REPLACE FUNCTION is_valid_colombian_phone(phone TEXT)
+RETURNS BOOLEAN AS $$
+    SELECT phone ~ '^\+57 (3[0-9]{2}|60[124-8]) [0-9]{3} [0-9]{4}$';
+$$ LANGUAGE sql IMMUTABLE;
+
+ALTER TABLE businesses DROP CONSTRAINT check_phone_format;
+ALTER TABLE businesses ADD CONSTRAINT check_phone_format
+    CHECK (is_valid_colombian_phone(phone));
+
+ALTER TABLE businesses DROP CONSTRAINT check_whatsapp_format;
+ALTER TABLE businesses ADD CONSTRAINT check_whatsapp_format
+    CHECK (whatsapp_number IS NULL OR is_valid_colombian_phone(whatsapp_number));
+
+ALTER TABLE appointments DROP CONSTRAINT check_customer_phone_format;
+ALTER TABLE appointments ADD CONSTRAINT check_customer_phone_format
+    CHECK (is_valid_colombian_phone(customer_phone));
+
+ALTER TABLE specialists DROP CONSTRAINT check_specialist_phone_format;
+ALTER TABLE specialists ADD CONSTRAINT check_specialist_phone_format
+    CHECK (phone IS NULL OR is_valid_colombian_phone(phone));
+
+ALTER TABLE clients DROP CONSTRAINT check_client_phone_format;
+ALTER TABLE clients ADD CONSTRAINT check_client_phone_format
+    CHECK (is_valid_colombian_phone(phone));
+
+-- Add comments for documentation
+COMMENT ON FUNCTION is_valid_colombian_phone(TEXT) IS 'Colombian mobile (3XX) or landline (60X) in +57 XXX XXX XXXX format';
@@ -0,0 +1,12 @@
+-- Migration: Store the DANE municipality code of each business
+-- Description: city/department stay as display text; municipality_code is the DANE
+-- DIVIPOLA code (2-digit department + 3-digit municipality) picked from the catalog
+-- bundled in @appointments-demo/utils. Nullable: existing rows keep free-text cities.
+
+ALTER TABLE businesses ADD COLUMN municipality_code VARCHAR(5);
+
+ALTER TABLE businesses ADD CONSTRAINT check_municipality_code_format
+    CHECK (municipality_code IS NULL OR municipality_code ~ '^[0-9]{5}$');
+
+-- Add comments for documentation
+COMMENT ON COLUMN businesses.municipality_code IS 'DANE DIVIPOLA municipality code, e.g. 05001 for Medellín';
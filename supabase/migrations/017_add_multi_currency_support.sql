@@ -0,0 +1,117 @@
+-- Migration: Multi-currency prices and exchange-rate snapshots
+-- Description: Services can be priced in COP, USD or EUR; each business keeps its own
+-- exchange rates, and appointments store the price, currency and rate used when they
+-- were booked so historic revenue does not move when prices or rates change
+
+-- Services: dollars and euros need cents, so prices become NUMERIC
+ALTER TABLE services ALTER COLUMN price TYPE NUMERIC(12, 2);
+
+ALTER TABLE services ADD COLUMN currency CHAR(3) NOT NULL DEFAULT 'COP';
+
+ALTER TABLE services ADD CONSTRAINT check_service_currency
+    CHECK (currency IN ('COP', 'USD', 'EUR'));
+
+-- Business default currency lives in settings (JSONB)
+ALTER TABLE businesses ADD CONSTRAINT check_business_settings_currency
+    CHECK (settings->>'currency' IS NULL OR settings->>'currency' IN ('COP', 'USD', 'EUR'));
+
+-- Create exchange_rates table
+CREATE TABLE exchange_rates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+
+    -- 1 from_currency = rate to_currency
+    from_currency CHAR(3) NOT NULL,
+    to_currency CHAR(3) NOT NULL,
+    rate NUMERIC(18, 8) NOT NULL,
+
+    -- Timestamps
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE exchange_rates ADD CONSTRAINT check_exchange_rate_currencies
+    CHECK (
+        from_currency IN ('COP', 'USD', 'EUR')
+        AND to_currency IN ('COP', 'USD', 'EUR')
+        AND from_currency <> to_currency
+    );
+
+ALTER TABLE exchange_rates ADD CONSTRAINT check_exchange_rate_positive
+    CHECK (rate > 0);
+
+-- One rate per currency pair within a business
+CREATE UNIQUE INDEX idx_exchange_rates_business_pair ON exchange_rates(business_id, from_currency, to_currency);
+
+-- Reuse the updated_at trigger function from migration 001
+CREATE TRIGGER update_exchange_rates_updated_at
+    BEFORE UPDATE ON exchange_rates
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security on exchange_rates table
+ALTER TABLE exchange_rates ENABLE ROW LEVEL SECURITY;
+
+-- Mirrors services_isolation_policy: rows are visible only within the current business context
+CREATE POLICY exchange_rates_isolation_policy ON exchange_rates
+    FOR ALL
+    USING (business_id = current_setting('app.current_business_id', true)::UUID)
+    WITH CHECK (business_id = current_setting('app.current_business_id', true)::UUID);
+
+-- Business owners can always reach their own rates (matches services_owner_access_policy)
+CREATE POLICY exchange_rates_owner_access_policy ON exchange_rates
+    FOR ALL
+    USING (
+        EXISTS (
+            SELECT 1 FROM businesses b
+            WHERE b.id = exchange_rates.business_id
+            AND b.owner_id = auth.uid()
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM businesses b
+            WHERE b.id = exchange_rates.business_id
+            AND b.owner_id = auth.uid()
+        )
+    );
+
+-- Appointments: price snapshot taken at booking time
+ALTER TABLE appointments
+    ADD COLUMN price_amount NUMERIC(12, 2),
+    ADD COLUMN price_currency CHAR(3),
+    ADD COLUMN base_currency CHAR(3),
+    ADD COLUMN exchange_rate NUMERIC(18, 8);
+
+-- A snapshot is all or nothing; the rate may be missing if none was configured
+ALTER TABLE appointments ADD CONSTRAINT check_appointment_price_snapshot
+    CHECK (
+        (price_amount IS NULL AND price_currency IS NULL AND base_currency IS NULL AND exchange_rate IS NULL)
+        OR (
+            price_amount >= 0
+            AND price_currency IN ('COP', 'USD', 'EUR')
+            AND base_currency IN ('COP', 'USD', 'EUR')
+            AND (exchange_rate IS NULL OR exchange_rate > 0)
+        )
+    );
+
+-- Existing catalog appointments were all booked in pesos
+UPDATE appointments a
+SET price_amount = s.price,
+    price_currency = 'COP',
+    base_currency = 'COP',
+    exchange_rate = 1
+FROM services s
+WHERE a.service_id = s.id;
+
+-- Add comments for documentation
+COMMENT ON COLUMN services.price IS 'Price in the service currency (whole pesos for COP, cents allowed for USD and EUR)';
+COMMENT ON COLUMN services.currency IS 'ISO 4217 currency of the price: COP, USD or EUR';
+COMMENT ON TABLE exchange_rates IS 'Admin-maintained exchange rates per business with multi-tenant isolation via business_id';
+COMMENT ON COLUMN exchange_rates.rate IS 'Units of to_currency per unit of from_currency';
+COMMENT ON COLUMN appointments.price_amount IS 'Service price when booked, in price_currency';
+COMMENT ON COLUMN appointments.price_currency IS 'Currency of price_amount';
+COMMENT ON COLUMN appointments.base_currency IS 'Business currency when booked; revenue is reported in it';
+COMMENT ON COLUMN appointments.exchange_rate IS 'Units of base_currency per unit of price_currency when booked, NULL if no rate was configured';
+COMMENT ON POLICY exchange_rates_isolation_policy ON exchange_rates IS 'Ensures exchange rates are only visible within the current business context';
+COMMENT ON POLICY exchange_rates_owner_access_policy ON exchange_rates IS 'Business owners can manage exchange rates of businesses they own via owner_id';
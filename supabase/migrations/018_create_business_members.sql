@@ -0,0 +1,206 @@
+-- Migration: Create business_members table
+-- Description: Team members of a business with a role (owner, admin, receptionist, specialist),
+-- invited by email; RLS grants row access according to the member's role instead of
+-- only to the owner_id on businesses
+
+-- Create business_members table
+CREATE TABLE business_members (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+
+    -- Set when the invitation is accepted
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+    email VARCHAR(255) NOT NULL,
+
+    role VARCHAR(20) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'invited',
+
+    -- Invitation link token, cleared once accepted
+    invitation_token UUID UNIQUE DEFAULT uuid_generate_v4(),
+    invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    accepted_at TIMESTAMPTZ,
+
+    -- Timestamps
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE business_members ADD CONSTRAINT check_business_member_role
+    CHECK (role IN ('owner', 'admin', 'receptionist', 'specialist'));
+
+ALTER TABLE business_members ADD CONSTRAINT check_business_member_status
+    CHECK (status IN ('invited', 'active'));
+
+ALTER TABLE business_members ADD CONSTRAINT check_business_member_email_format
+    CHECK (email ~* '^[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}$');
+
+-- An active member is always linked to a user
+ALTER TABLE business_members ADD CONSTRAINT check_business_member_active_user
+    CHECK (status = 'invited' OR (user_id IS NOT NULL AND accepted_at IS NOT NULL));
+
+-- One membership per email and per user within a business
+CREATE UNIQUE INDEX idx_business_members_business_email ON business_members(business_id, LOWER(email));
+CREATE UNIQUE INDEX idx_business_members_business_user ON business_members(business_id, user_id);
+CREATE INDEX idx_business_members_user ON business_members(user_id);
+
+-- Reuse the updated_at trigger function from migration 001
+CREATE TRIGGER update_business_members_updated_at
+    BEFORE UPDATE ON business_members
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Existing owners become active owner members
+INSERT INTO business_members (business_id, user_id, email, role, status, invitation_token, accepted_at)
+SELECT b.id, b.owner_id, u.email, 'owner', 'active', NULL, b.created_at
+FROM businesses b
+JOIN auth.users u ON u.id = b.owner_id;
+
+-- New businesses get their owner membership automatically
+CREATE OR REPLACE FUNCTION add_business_owner_member()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO business_members (business_id, user_id, email, role, status, invitation_token, accepted_at)
+    SELECT NEW.id, NEW.owner_id, u.email, 'owner', 'active', NULL, NOW()
+    FROM auth.users u
+    WHERE u.id = NEW.owner_id;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER add_business_owner_member_trigger
+    AFTER INSERT ON businesses
+    FOR EACH ROW
+    EXECUTE FUNCTION add_business_owner_member();
+
+-- Role of the authenticated user in a business: owner via owner_id, otherwise the
+-- active membership role, NULL without access. SECURITY DEFINER so policies on
+-- business_members can use it without recursing into themselves.
+CREATE OR REPLACE FUNCTION get_business_role(p_business_id UUID)
+RETURNS TEXT AS $$
+    SELECT CASE
+        WHEN EXISTS (SELECT 1 FROM businesses b WHERE b.id = p_business_id AND b.owner_id = auth.uid())
+            THEN 'owner'
+        ELSE (
+            SELECT m.role FROM business_members m
+            WHERE m.business_id = p_business_id
+            AND m.user_id = auth.uid()
+            AND m.status = 'active'
+        )
+    END;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION has_business_role(p_business_id UUID, p_roles TEXT[])
+RETURNS BOOLEAN AS $$
+    SELECT COALESCE(get_business_role(p_business_id) = ANY(p_roles), FALSE);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Enable Row Level Security on business_members table
+ALTER TABLE business_members ENABLE ROW LEVEL SECURITY;
+
+-- Members see their team; owners and admins manage it
+CREATE POLICY business_members_member_select_policy ON business_members
+    FOR SELECT
+    USING (
+        user_id = auth.uid()
+        OR has_business_role(business_id, ARRAY['owner', 'admin', 'receptionist', 'specialist'])
+    );
+
+CREATE POLICY business_members_manage_policy ON business_members
+    FOR ALL
+    USING (has_business_role(business_id, ARRAY['owner', 'admin']))
+    WITH CHECK (has_business_role(business_id, ARRAY['owner', 'admin']));
+
+-- Businesses: every member can read, only owners and admins change settings or profile
+CREATE POLICY businesses_member_select_policy ON businesses
+    FOR SELECT
+    USING (has_business_role(id, ARRAY['owner', 'admin', 'receptionist', 'specialist']));
+
+CREATE POLICY businesses_member_update_policy ON businesses
+    FOR UPDATE
+    USING (has_business_role(id, ARRAY['owner', 'admin']))
+    WITH CHECK (has_business_role(id, ARRAY['owner', 'admin']));
+
+-- Restrictive: no other policy lets receptionists or specialists change a business
+CREATE POLICY businesses_role_update_restriction ON businesses
+    AS RESTRICTIVE
+    FOR UPDATE
+    USING (has_business_role(id, ARRAY['owner', 'admin']));
+
+-- Catalog: every member can read, owners and admins manage it
+CREATE POLICY services_member_select_policy ON services
+    FOR SELECT
+    USING (has_business_role(business_id, ARRAY['owner', 'admin', 'receptionist', 'specialist']));
+
+CREATE POLICY services_member_manage_policy ON services
+    FOR ALL
+    USING (has_business_role(business_id, ARRAY['owner', 'admin']))
+    WITH CHECK (has_business_role(business_id, ARRAY['owner', 'admin']));
+
+CREATE POLICY specialists_member_select_policy ON specialists
+    FOR SELECT
+    USING (has_business_role(business_id, ARRAY['owner', 'admin', 'receptionist', 'specialist']));
+
+CREATE POLICY specialists_member_manage_policy ON specialists
+    FOR ALL
+    USING (has_business_role(business_id, ARRAY['owner', 'admin']))
+    WITH CHECK (has_business_role(business_id, ARRAY['owner', 'admin']));
+
+CREATE POLICY specialist_services_member_select_policy ON specialist_services
+    FOR SELECT
+    USING (has_business_role(business_id, ARRAY['owner', 'admin', 'receptionist', 'specialist']));
+
+CREATE POLICY specialist_services_member_manage_policy ON specialist_services
+    FOR ALL
+    USING (has_business_role(business_id, ARRAY['owner', 'admin']))
+    WITH CHECK (has_business_role(business_id, ARRAY['owner', 'admin']));
+
+CREATE POLICY exchange_rates_member_select_policy ON exchange_rates
+    FOR SELECT
+    USING (has_business_role(business_id, ARRAY['owner', 'admin', 'receptionist', 'specialist']));
+
+CREATE POLICY exchange_rates_member_manage_policy ON exchange_rates
+    FOR ALL
+    USING (has_business_role(business_id, ARRAY['owner', 'admin']))
+    WITH CHECK (has_business_role(business_id, ARRAY['owner', 'admin']));
+
+-- Bookings: owners, admins and receptionists book and manage them, specialists only read
+CREATE POLICY appointments_member_select_policy ON appointments
+    FOR SELECT
+    USING (has_business_role(business_id, ARRAY['owner', 'admin', 'receptionist', 'specialist']));
+
+CREATE POLICY appointments_member_manage_policy ON appointments
+    FOR ALL
+    USING (has_business_role(business_id, ARRAY['owner', 'admin', 'receptionist']))
+    WITH CHECK (has_business_role(business_id, ARRAY['owner', 'admin', 'receptionist']));
+
+CREATE POLICY appointment_status_history_member_select_policy ON appointment_status_history
+    FOR SELECT
+    USING (has_business_role(business_id, ARRAY['owner', 'admin', 'receptionist', 'specialist']));
+
+CREATE POLICY appointment_status_history_member_insert_policy ON appointment_status_history
+    FOR INSERT
+    WITH CHECK (has_business_role(business_id, ARRAY['owner', 'admin', 'receptionist']));
+
+CREATE POLICY clients_member_select_policy ON clients
+    FOR SELECT
+    USING (has_business_role(business_id, ARRAY['owner', 'admin', 'receptionist', 'specialist']));
+
+CREATE POLICY clients_member_manage_policy ON clients
+    FOR ALL
+    USING (has_business_role(business_id, ARRAY['owner', 'admin', 'receptionist']))
+    WITH CHECK (has_business_role(business_id, ARRAY['owner', 'admin', 'receptionist']));
+
+-- Add comments for documentation
+COMMENT ON TABLE business_members IS 'Team members of a business with their role; invited by email and activated on acceptance';
+COMMENT ON COLUMN business_members.role IS 'owner, admin, receptionist or specialist';
+COMMENT ON COLUMN business_members.status IS 'invited until the invitation is accepted, then active';
+COMMENT ON COLUMN business_members.invitation_token IS 'Token of the invitation link, NULL once accepted';
+COMMENT ON FUNCTION add_business_owner_member() IS 'Adds the business owner as an active owner member when a business is created';
+COMMENT ON FUNCTION get_business_role(UUID) IS 'Role of the authenticated user in a business, NULL without access';
+COMMENT ON FUNCTION has_business_role(UUID, TEXT[]) IS 'Whether the authenticated user has one of the given roles in a business';
+COMMENT ON POLICY business_members_manage_policy ON business_members IS 'Owners and admins invite, change and remove members';
+COMMENT ON POLICY businesses_member_select_policy ON businesses IS 'Members can read the businesses they belong to';
+COMMENT ON POLICY businesses_role_update_restriction ON businesses IS 'Only owners and admins can change business settings or profile';
+COMMENT ON POLICY appointments_member_manage_policy ON appointments IS 'Owners, admins and receptionists book and manage appointments';
+COMMENT ON POLICY services_member_manage_policy ON services IS 'Owners and admins manage the services catalog';
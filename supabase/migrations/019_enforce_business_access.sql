@@ -0,0 +1,39 @@
+-- Migration: Enforce business access when setting the RLS business context
+-- Description: validate_business_access checks auth.uid() against ownership or an active
+-- membership instead of accepting any non-NULL UUID, and set_current_business_id refuses
+-- to switch the session into a business the caller has no access to
+
+-- Owner via owner_id or active member, both resolved by get_business_role (migration 018)
+CREATE OR REPLACE FUNCTION validate_business_access(business_uuid UUID)
+RETURNS BOOLEAN AS $$
+    SELECT business_uuid IS NOT NULL AND get_business_role(business_uuid) IS NOT NULL;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- NULL still clears the context; the service role (server-side jobs and API routes)
+-- keeps setting any business because it already bypasses RLS
+CREATE OR REPLACE FUNCTION set_current_business_id(business_uuid UUID)
+RETURNS VOID AS $$
+BEGIN
+    IF business_uuid IS NOT NULL
+        AND auth.role() IS DISTINCT FROM 'service_role'
+        AND NOT validate_business_access(business_uuid) THEN
+        RAISE EXCEPTION 'User does not have access to business %', business_uuid
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    PERFORM set_config('app.current_business_id', business_uuid::TEXT, false);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Entry point used by the browser client (rls-context-management.ts); same checks
+CREATE OR REPLACE FUNCTION set_business_context(business_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    PERFORM set_current_business_id(business_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Add comments for documentation
+COMMENT ON FUNCTION validate_business_access(UUID) IS 'Whether the authenticated user owns or is an active member of the business';
+COMMENT ON FUNCTION set_current_business_id(UUID) IS 'Sets the current business ID in session for RLS filtering; raises insufficient_privilege (42501) without access';
+COMMENT ON FUNCTION set_business_context(UUID) IS 'Client entry point for set_current_business_id';
@@ -0,0 +1,113 @@
+-- Migration: Create business settings versions
+-- Description: Every change to businesses.settings is stored as a numbered snapshot with
+-- its author and time, so accidental edits (e.g. closing Saturdays) can be reviewed and
+-- rolled back. Snapshots are written by a trigger, so no code path can skip them.
+
+-- Create business_settings_versions table
+CREATE TABLE business_settings_versions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+
+    -- Snapshot (version 1 is the settings the business was created with)
+    version INTEGER NOT NULL,
+    settings JSONB NOT NULL,
+
+    -- Audit
+    changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    changed_by_email VARCHAR(255),
+    restored_from_version INTEGER,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT business_settings_versions_business_version_unique UNIQUE (business_id, version)
+);
+
+-- Create index for the newest-first history query
+CREATE INDEX idx_business_settings_versions_business ON business_settings_versions(business_id, version DESC);
+
+-- Snapshot the new settings on insert and whenever they change. SECURITY DEFINER so
+-- members cannot insert or edit versions themselves; updates to businesses are
+-- already serialized per row, so MAX(version) + 1 cannot collide
+CREATE OR REPLACE FUNCTION record_business_settings_version()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO business_settings_versions (
+        business_id, version, settings, changed_by, changed_by_email, restored_from_version
+    )
+    SELECT
+        NEW.id,
+        COALESCE((SELECT MAX(v.version) FROM business_settings_versions v WHERE v.business_id = NEW.id), 0) + 1,
+        NEW.settings,
+        auth.uid(),
+        (SELECT u.email FROM auth.users u WHERE u.id = auth.uid()),
+        NULLIF(current_setting('app.settings_restored_from_version', true), '')::INTEGER;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER record_business_settings_version_on_insert
+    AFTER INSERT ON businesses
+    FOR EACH ROW
+    EXECUTE FUNCTION record_business_settings_version();
+
+CREATE TRIGGER record_business_settings_version_on_update
+    AFTER UPDATE OF settings ON businesses
+    FOR EACH ROW
+    WHEN (OLD.settings IS DISTINCT FROM NEW.settings)
+    EXECUTE FUNCTION record_business_settings_version();
+
+-- Existing businesses start their history with their current settings
+INSERT INTO business_settings_versions (business_id, version, settings, created_at)
+SELECT b.id, 1, b.settings, b.updated_at
+FROM businesses b;
+
+-- Rollback: write an earlier snapshot back as the newest version. Runs as the caller,
+-- so the businesses update policies decide who may roll back (owners and admins)
+CREATE OR REPLACE FUNCTION restore_business_settings_version(p_business_id UUID, p_version INTEGER)
+RETURNS SETOF business_settings_versions AS $$
+DECLARE
+    snapshot JSONB;
+    updated_rows INTEGER;
+BEGIN
+    SELECT v.settings INTO snapshot
+    FROM business_settings_versions v
+    WHERE v.business_id = p_business_id AND v.version = p_version;
+
+    IF snapshot IS NULL THEN
+        RAISE EXCEPTION 'Settings version % not found for business %', p_version, p_business_id
+            USING ERRCODE = 'no_data_found';
+    END IF;
+
+    PERFORM set_config('app.settings_restored_from_version', p_version::TEXT, true);
+    UPDATE businesses SET settings = snapshot WHERE id = p_business_id;
+    GET DIAGNOSTICS updated_rows = ROW_COUNT;
+    PERFORM set_config('app.settings_restored_from_version', '', true);
+
+    IF updated_rows = 0 THEN
+        RAISE EXCEPTION 'User cannot change the settings of business %', p_business_id
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    RETURN QUERY
+    SELECT * FROM business_settings_versions v
+    WHERE v.business_id = p_business_id
+    ORDER BY v.version DESC
+    LIMIT 1;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Enable Row Level Security on business_settings_versions table
+ALTER TABLE business_settings_versions ENABLE ROW LEVEL SECURITY;
+
+-- Versions are append-only and written by the trigger: members only read them
+CREATE POLICY business_settings_versions_member_select_policy ON business_settings_versions
+    FOR SELECT
+    USING (has_business_role(business_id, ARRAY['owner', 'admin', 'receptionist', 'specialist']));
+
+-- Add comments for documentation
+COMMENT ON TABLE business_settings_versions IS 'Append-only snapshots of businesses.settings, one per change';
+COMMENT ON COLUMN business_settings_versions.version IS 'Sequential per business, starting at 1';
+COMMENT ON COLUMN business_settings_versions.changed_by IS 'Auth user who changed the settings, NULL for migrations or system changes';
+COMMENT ON COLUMN business_settings_versions.changed_by_email IS 'Email of the author when the change was made';
+COMMENT ON COLUMN business_settings_versions.restored_from_version IS 'Version rolled back to, NULL for regular edits';
+COMMENT ON FUNCTION restore_business_settings_version(UUID, INTEGER) IS 'Rolls the business settings back to an earlier version, recording it as a new version';
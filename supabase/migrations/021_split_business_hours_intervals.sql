@@ -0,0 +1,67 @@
+-- Migration: Split shifts in business hours
+-- Description: Each day of the weekly hours now holds a list of intervals instead of a
+-- single openTime/closeTime, so a salon can close 12:00-14:00 for lunch. Existing
+-- business settings, their saved versions and specialist schedules are converted:
+-- {dayOfWeek, openTime, closeTime, isOpen} becomes {dayOfWeek, isOpen, intervals: [{openTime, closeTime}]}
+
+-- Converts a weekly hours array; days already in the new format are kept as they are
+CREATE OR REPLACE FUNCTION convert_hours_to_intervals(hours JSONB)
+RETURNS JSONB AS $$
+    SELECT COALESCE(
+        jsonb_agg(
+            CASE
+                WHEN day ? 'intervals' THEN day
+                ELSE jsonb_build_object(
+                    'dayOfWeek', day->'dayOfWeek',
+                    'isOpen', COALESCE(day->'isOpen', 'false'::JSONB),
+                    'intervals', jsonb_build_array(jsonb_build_object(
+                        'openTime', day->'openTime',
+                        'closeTime', day->'closeTime'
+                    ))
+                )
+            END
+            ORDER BY position
+        ),
+        '[]'::JSONB
+    )
+    FROM jsonb_array_elements(hours) WITH ORDINALITY AS days(day, position);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- A format change is not a settings edit: keep it out of the version history
+ALTER TABLE businesses DISABLE TRIGGER record_business_settings_version_on_update;
+
+UPDATE businesses
+SET settings = jsonb_set(settings, '{businessHours}', convert_hours_to_intervals(settings->'businessHours'))
+WHERE jsonb_typeof(settings->'businessHours') = 'array';
+
+ALTER TABLE businesses ENABLE TRIGGER record_business_settings_version_on_update;
+
+-- Saved versions are converted too, so rolling back never restores the old format
+UPDATE business_settings_versions
+SET settings = jsonb_set(settings, '{businessHours}', convert_hours_to_intervals(settings->'businessHours'))
+WHERE jsonb_typeof(settings->'businessHours') = 'array';
+
+UPDATE specialists
+SET schedule = convert_hours_to_intervals(schedule)
+WHERE jsonb_typeof(schedule) = 'array';
+
+DROP FUNCTION convert_hours_to_intervals(JSONB);
+
+-- New businesses start with the same hours as before, in the new format
+ALTER TABLE businesses ALTER COLUMN settings SET DEFAULT '{
+    "timezone": "America/Bogota",
+    "currency": "COP",
+    "businessHours": [
+        {"dayOfWeek": 1, "isOpen": true, "intervals": [{"openTime": "08:00", "closeTime": "18:00"}]},
+        {"dayOfWeek": 2, "isOpen": true, "intervals": [{"openTime": "08:00", "closeTime": "18:00"}]},
+        {"dayOfWeek": 3, "isOpen": true, "intervals": [{"openTime": "08:00", "closeTime": "18:00"}]},
+        {"dayOfWeek": 4, "isOpen": true, "intervals": [{"openTime": "08:00", "closeTime": "18:00"}]},
+        {"dayOfWeek": 5, "isOpen": true, "intervals": [{"openTime": "08:00", "closeTime": "18:00"}]},
+        {"dayOfWeek": 6, "isOpen": true, "intervals": [{"openTime": "08:00", "closeTime": "14:00"}]},
+        {"dayOfWeek": 0, "isOpen": false, "intervals": [{"openTime": "10:00", "closeTime": "14:00"}]}
+    ]
+}'::JSONB;
+
+-- Add comments for documentation
+COMMENT ON COLUMN businesses.settings IS 'Business configuration: timezone, currency and businessHours as [{dayOfWeek, isOpen, intervals: [{openTime, closeTime}]}]';
+COMMENT ON COLUMN specialists.schedule IS 'Weekly working hours as [{dayOfWeek, isOpen, intervals: [{openTime, closeTime}]}], each interval within a business interval';
@@ -0,0 +1,72 @@
+-- Migration: Create reminder jobs queue
+-- Description: Appointment reminders (e.g. 24h and 2h before) are queued as one row per
+-- appointment, channel and offset, with the time they are due already moved out of the
+-- business quiet hours. A scheduled dispatcher running with the service role sends the
+-- due rows through WhatsApp, SMS or email and records the outcome on each row.
+
+-- Create reminder_jobs table
+CREATE TABLE reminder_jobs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+    appointment_id UUID NOT NULL REFERENCES appointments(id) ON DELETE CASCADE,
+
+    -- What to send and when
+    channel VARCHAR(20) NOT NULL,
+    offset_minutes INTEGER NOT NULL,
+    send_at TIMESTAMPTZ NOT NULL,
+
+    -- Delivery outcome
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    sent_at TIMESTAMPTZ,
+
+    -- Timestamps
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+    -- Rescheduling replaces the pending jobs instead of queueing the same reminder twice
+    CONSTRAINT reminder_jobs_appointment_channel_offset_unique UNIQUE (appointment_id, channel, offset_minutes)
+);
+
+ALTER TABLE reminder_jobs ADD CONSTRAINT check_reminder_job_channel
+    CHECK (channel IN ('whatsapp', 'sms', 'email'));
+
+ALTER TABLE reminder_jobs ADD CONSTRAINT check_reminder_job_status
+    CHECK (status IN ('pending', 'sent', 'skipped', 'failed'));
+
+ALTER TABLE reminder_jobs ADD CONSTRAINT check_reminder_job_offset_positive
+    CHECK (offset_minutes > 0);
+
+-- Create indexes for the dispatcher's due-jobs query and per-appointment lookups
+CREATE INDEX idx_reminder_jobs_due ON reminder_jobs(send_at) WHERE status = 'pending';
+CREATE INDEX idx_reminder_jobs_appointment ON reminder_jobs(appointment_id);
+
+-- Reuse the updated_at trigger function from migration 001
+CREATE TRIGGER update_reminder_jobs_updated_at
+    BEFORE UPDATE ON reminder_jobs
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security on reminder_jobs table
+ALTER TABLE reminder_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Members who manage bookings queue and replace reminders; the dispatcher uses the
+-- service role, which bypasses RLS
+CREATE POLICY reminder_jobs_member_select_policy ON reminder_jobs
+    FOR SELECT
+    USING (has_business_role(business_id, ARRAY['owner', 'admin', 'receptionist', 'specialist']));
+
+CREATE POLICY reminder_jobs_member_manage_policy ON reminder_jobs
+    FOR ALL
+    USING (has_business_role(business_id, ARRAY['owner', 'admin', 'receptionist']))
+    WITH CHECK (has_business_role(business_id, ARRAY['owner', 'admin', 'receptionist']));
+
+-- Add comments for documentation
+COMMENT ON TABLE reminder_jobs IS 'Queue of appointment reminders, one row per appointment, channel and offset';
+COMMENT ON COLUMN reminder_jobs.channel IS 'whatsapp, sms or email';
+COMMENT ON COLUMN reminder_jobs.offset_minutes IS 'Minutes before the appointment the reminder was configured for';
+COMMENT ON COLUMN reminder_jobs.send_at IS 'When the reminder is due, outside the business quiet hours';
+COMMENT ON COLUMN reminder_jobs.status IS 'pending until dispatched, then sent, skipped (cancelled appointment, no recipient) or failed';
+COMMENT ON COLUMN reminder_jobs.attempts IS 'Delivery attempts; a job fails for good after the dispatcher''s retry limit';
+COMMENT ON COLUMN reminder_jobs.last_error IS 'Error of the last failed attempt or reason it was skipped';
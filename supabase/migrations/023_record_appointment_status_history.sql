@@ -0,0 +1,49 @@
+-- Migration: Record appointment status history in a trigger
+-- Description: Status transitions were written to appointment_status_history by the API in a
+-- separate request after the appointment write, so a failed insert silently lost a transition.
+-- A trigger now writes the history row in the same transaction as the status change, for
+-- every code path (dashboard, public booking, SQL), and the history no longer accepts direct inserts.
+
+-- Reason given with the latest status change; written together with status and copied
+-- into the history row by the trigger
+ALTER TABLE appointments ADD COLUMN status_reason TEXT;
+
+-- Append the transition to the history. SECURITY DEFINER so members cannot insert history
+-- rows themselves; changed_by is NULL for public bookings and service-role changes
+CREATE OR REPLACE FUNCTION record_appointment_status_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO appointment_status_history (
+        appointment_id, business_id, from_status, to_status, changed_by, reason
+    ) VALUES (
+        NEW.id,
+        NEW.business_id,
+        CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE OLD.status END,
+        NEW.status,
+        auth.uid(),
+        NEW.status_reason
+    );
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER record_appointment_status_on_insert
+    AFTER INSERT ON appointments
+    FOR EACH ROW
+    EXECUTE FUNCTION record_appointment_status_change();
+
+CREATE TRIGGER record_appointment_status_on_update
+    AFTER UPDATE OF status ON appointments
+    FOR EACH ROW
+    WHEN (OLD.status IS DISTINCT FROM NEW.status)
+    EXECUTE FUNCTION record_appointment_status_change();
+
+-- History rows are only written by the trigger: members keep their SELECT policies
+DROP POLICY IF EXISTS appointment_status_history_isolation_insert_policy ON appointment_status_history;
+DROP POLICY IF EXISTS appointment_status_history_owner_insert_policy ON appointment_status_history;
+DROP POLICY IF EXISTS appointment_status_history_member_insert_policy ON appointment_status_history;
+
+-- Add comments for documentation
+COMMENT ON COLUMN appointments.status_reason IS 'Reason for the latest status change, copied into appointment_status_history';
+COMMENT ON FUNCTION record_appointment_status_change() IS 'Writes the appointment status transition to appointment_status_history';
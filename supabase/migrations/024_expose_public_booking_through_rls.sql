@@ -0,0 +1,166 @@
+-- Migration: Expose the public booking page through RLS
+-- Description: The public booking API (/b/<slug>) ran every query with the service role,
+-- bypassing RLS. Visitors now use the anon role: the public columns of businesses, active
+-- services and active specialists are readable through anon policies and column grants,
+-- booked times come from a function that returns no customer data, and bookings are
+-- inserted by a function that derives everything but the visitor's details from the catalog.
+
+-- Businesses: every business has a public page, but owner_id, email and address stay private
+CREATE POLICY businesses_public_select_policy ON businesses
+    FOR SELECT
+    TO anon
+    USING (TRUE);
+
+REVOKE SELECT ON businesses FROM anon;
+GRANT SELECT (id, slug, name, description, city, department, phone, settings) ON businesses TO anon;
+
+-- Services: the whole row is public, but only while the service is offered
+CREATE POLICY services_public_select_policy ON services
+    FOR SELECT
+    TO anon
+    USING (is_active);
+
+-- Specialists: name and schedule of active specialists; email and phone stay private
+CREATE POLICY specialists_public_select_policy ON specialists
+    FOR SELECT
+    TO anon
+    USING (is_active);
+
+REVOKE SELECT ON specialists FROM anon;
+GRANT SELECT (id, business_id, name, schedule, is_active) ON specialists TO anon;
+
+CREATE POLICY specialist_services_public_select_policy ON specialist_services
+    FOR SELECT
+    TO anon
+    USING (
+        EXISTS (
+            SELECT 1 FROM specialists s
+            WHERE s.id = specialist_services.specialist_id
+            AND s.is_active
+        )
+    );
+
+-- Booked times of a business (or one specialist) for the availability computation.
+-- Appointments are not readable by anon; this returns only when they start, how long
+-- they last and their status, for a bounded window so the calendar cannot be scraped
+CREATE OR REPLACE FUNCTION get_public_booked_times(
+    p_business_id UUID,
+    p_from TIMESTAMPTZ,
+    p_to TIMESTAMPTZ,
+    p_specialist_id UUID DEFAULT NULL
+)
+RETURNS TABLE (scheduled_at TIMESTAMPTZ, duration_minutes INTEGER, status VARCHAR) AS $$
+BEGIN
+    IF p_to <= p_from OR p_to - p_from > INTERVAL '31 days' THEN
+        RAISE EXCEPTION 'Booked times window must be positive and at most 31 days'
+            USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    RETURN QUERY
+    SELECT a.scheduled_at, a.duration_minutes, a.status
+    FROM appointments a
+    WHERE a.business_id = p_business_id
+    AND (p_specialist_id IS NULL OR a.specialist_id = p_specialist_id)
+    AND a.status <> 'cancelled'
+    AND a.scheduled_at >= p_from
+    AND a.scheduled_at < p_to;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Book a PENDING appointment from the public page. The service name, duration and price
+-- come from the catalog, never from the caller; the specialist must be active and perform
+-- the service; overlaps are still rejected by appointments_no_specialist_overlap.
+-- Fitting the business hours is checked by the API against the offered slots.
+CREATE OR REPLACE FUNCTION book_public_appointment(
+    p_business_id UUID,
+    p_service_id UUID,
+    p_specialist_id UUID,
+    p_client_id UUID,
+    p_customer_name TEXT,
+    p_customer_phone TEXT,
+    p_customer_email TEXT,
+    p_scheduled_at TIMESTAMPTZ,
+    p_notes TEXT
+)
+RETURNS appointments AS $$
+DECLARE
+    service services%ROWTYPE;
+    base_currency CHAR(3);
+    rate NUMERIC;
+    booked appointments%ROWTYPE;
+BEGIN
+    SELECT s.* INTO service
+    FROM services s
+    WHERE s.id = p_service_id AND s.business_id = p_business_id AND s.is_active;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Service % is not offered by business %', p_service_id, p_business_id
+            USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF p_specialist_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1
+        FROM specialists sp
+        JOIN specialist_services ss ON ss.specialist_id = sp.id
+        WHERE sp.id = p_specialist_id
+        AND sp.business_id = p_business_id
+        AND sp.is_active
+        AND ss.service_id = p_service_id
+    ) THEN
+        RAISE EXCEPTION 'Specialist % does not perform service %', p_specialist_id, p_service_id
+            USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF p_client_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM clients c WHERE c.id = p_client_id AND c.business_id = p_business_id
+    ) THEN
+        RAISE EXCEPTION 'Client % does not belong to business %', p_client_id, p_business_id
+            USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF p_scheduled_at <= NOW() THEN
+        RAISE EXCEPTION 'Appointments cannot be booked in the past'
+            USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    -- Price snapshot, as buildPriceSnapshot does: direct rate, else the inverse, else NULL
+    SELECT COALESCE(b.settings->>'currency', 'COP') INTO base_currency
+    FROM businesses b
+    WHERE b.id = p_business_id;
+
+    IF service.currency = base_currency THEN
+        rate := 1;
+    ELSE
+        SELECT COALESCE(
+            (SELECT r.rate FROM exchange_rates r
+             WHERE r.business_id = p_business_id AND r.from_currency = service.currency
+             AND r.to_currency = base_currency AND r.rate > 0),
+            (SELECT 1 / r.rate FROM exchange_rates r
+             WHERE r.business_id = p_business_id AND r.from_currency = base_currency
+             AND r.to_currency = service.currency AND r.rate > 0)
+        ) INTO rate;
+    END IF;
+
+    INSERT INTO appointments (
+        business_id, customer_name, customer_phone, customer_email, client_id,
+        service_id, specialist_id, service_type, scheduled_at, duration_minutes, status, notes,
+        price_amount, price_currency, base_currency, exchange_rate
+    ) VALUES (
+        p_business_id, p_customer_name, p_customer_phone, NULLIF(p_customer_email, ''), p_client_id,
+        service.id, p_specialist_id, service.name, p_scheduled_at, service.duration_minutes, 'pending', NULLIF(p_notes, ''),
+        service.price, service.currency, base_currency, rate
+    )
+    RETURNING * INTO booked;
+
+    RETURN booked;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION get_public_booked_times(UUID, TIMESTAMPTZ, TIMESTAMPTZ, UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION book_public_appointment(UUID, UUID, UUID, UUID, TEXT, TEXT, TEXT, TIMESTAMPTZ, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_public_booked_times(UUID, TIMESTAMPTZ, TIMESTAMPTZ, UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION book_public_appointment(UUID, UUID, UUID, UUID, TEXT, TEXT, TEXT, TIMESTAMPTZ, TEXT) TO anon, authenticated;
+
+-- Add comments for documentation
+COMMENT ON FUNCTION get_public_booked_times(UUID, TIMESTAMPTZ, TIMESTAMPTZ, UUID) IS 'Start, length and status of the appointments of a public booking window, without customer data';
+COMMENT ON FUNCTION book_public_appointment(UUID, UUID, UUID, UUID, TEXT, TEXT, TEXT, TIMESTAMPTZ, TEXT) IS 'Books a pending appointment from the public page with the catalog service, duration and price';
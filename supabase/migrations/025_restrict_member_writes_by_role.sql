@@ -0,0 +1,48 @@
+-- Migration: Restrict member writes to the roles allowed by migration 018
+-- Description: The *_isolation_policy policies of migrations 008-017 were permissive FOR ALL
+-- policies on app.current_business_id. Since migration 019 every active member can set that
+-- context, so a specialist or receptionist could write any table of their business through
+-- them, bypassing the role checks of the *_member_manage_policy policies. The isolation
+-- policies now only grant reads; writes go through the owner and member policies.
+
+-- Appointments: owners, admins and receptionists write (appointments_member_manage_policy)
+DROP POLICY IF EXISTS appointments_isolation_policy ON appointments;
+CREATE POLICY appointments_isolation_policy ON appointments
+    FOR SELECT
+    USING (business_id = current_setting('app.current_business_id', true)::UUID);
+
+-- Clients: owners, admins and receptionists write (clients_member_manage_policy)
+DROP POLICY IF EXISTS clients_isolation_policy ON clients;
+CREATE POLICY clients_isolation_policy ON clients
+    FOR SELECT
+    USING (business_id = current_setting('app.current_business_id', true)::UUID);
+
+-- Catalog: owners and admins write (services_, specialists_, specialist_services_ and
+-- exchange_rates_member_manage_policy)
+DROP POLICY IF EXISTS services_isolation_policy ON services;
+CREATE POLICY services_isolation_policy ON services
+    FOR SELECT
+    USING (business_id = current_setting('app.current_business_id', true)::UUID);
+
+DROP POLICY IF EXISTS specialists_isolation_policy ON specialists;
+CREATE POLICY specialists_isolation_policy ON specialists
+    FOR SELECT
+    USING (business_id = current_setting('app.current_business_id', true)::UUID);
+
+DROP POLICY IF EXISTS specialist_services_isolation_policy ON specialist_services;
+CREATE POLICY specialist_services_isolation_policy ON specialist_services
+    FOR SELECT
+    USING (business_id = current_setting('app.current_business_id', true)::UUID);
+
+DROP POLICY IF EXISTS exchange_rates_isolation_policy ON exchange_rates;
+CREATE POLICY exchange_rates_isolation_policy ON exchange_rates
+    FOR SELECT
+    USING (business_id = current_setting('app.current_business_id', true)::UUID);
+
+-- Add comments for documentation
+COMMENT ON POLICY appointments_isolation_policy ON appointments IS 'Appointments of the current business context are readable; writes require a member role';
+COMMENT ON POLICY clients_isolation_policy ON clients IS 'Clients of the current business context are readable; writes require a member role';
+COMMENT ON POLICY services_isolation_policy ON services IS 'Services of the current business context are readable; writes require a member role';
+COMMENT ON POLICY specialists_isolation_policy ON specialists IS 'Specialists of the current business context are readable; writes require a member role';
+COMMENT ON POLICY specialist_services_isolation_policy ON specialist_services IS 'Specialist services of the current business context are readable; writes require a member role';
+COMMENT ON POLICY exchange_rates_isolation_policy ON exchange_rates IS 'Exchange rates of the current business context are readable; writes require a member role';
@@ -0,0 +1,19 @@
+-- Migration: Record settings restores that do not change the settings
+-- Description: The update trigger of migration 020 only snapshots settings that changed, so
+-- restoring the version the business already had inserted nothing and
+-- restore_business_settings_version returned the previous latest version as if it were the
+-- rollback. A restore now always records its version, with restored_from_version set.
+
+DROP TRIGGER IF EXISTS record_business_settings_version_on_update ON businesses;
+
+CREATE TRIGGER record_business_settings_version_on_update
+    AFTER UPDATE OF settings ON businesses
+    FOR EACH ROW
+    WHEN (
+        OLD.settings IS DISTINCT FROM NEW.settings
+        OR current_setting('app.settings_restored_from_version', true) <> ''
+    )
+    EXECUTE FUNCTION record_business_settings_version();
+
+-- Add comments for documentation
+COMMENT ON TRIGGER record_business_settings_version_on_update ON businesses IS 'Snapshots changed settings, and every restore even when it changes nothing';
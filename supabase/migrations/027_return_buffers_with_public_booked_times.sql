@@ -0,0 +1,38 @@
+-- Migration: Return service buffers with the public booked times
+-- Description: get_public_booked_times returned when appointments start and how long they
+-- last, but not the buffer of their service, so the public page offered slots inside the
+-- cleanup or preparation time after an existing booking. It now returns the buffer too.
+
+-- The return type changes, so the function is recreated
+DROP FUNCTION IF EXISTS get_public_booked_times(UUID, TIMESTAMPTZ, TIMESTAMPTZ, UUID);
+
+CREATE FUNCTION get_public_booked_times(
+    p_business_id UUID,
+    p_from TIMESTAMPTZ,
+    p_to TIMESTAMPTZ,
+    p_specialist_id UUID DEFAULT NULL
+)
+RETURNS TABLE (scheduled_at TIMESTAMPTZ, duration_minutes INTEGER, status VARCHAR, buffer_minutes INTEGER) AS $$
+BEGIN
+    IF p_to <= p_from OR p_to - p_from > INTERVAL '31 days' THEN
+        RAISE EXCEPTION 'Booked times window must be positive and at most 31 days'
+            USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    RETURN QUERY
+    SELECT a.scheduled_at, a.duration_minutes, a.status, COALESCE(s.buffer_minutes, 0)
+    FROM appointments a
+    LEFT JOIN services s ON s.id = a.service_id
+    WHERE a.business_id = p_business_id
+    AND (p_specialist_id IS NULL OR a.specialist_id = p_specialist_id)
+    AND a.status <> 'cancelled'
+    AND a.scheduled_at >= p_from
+    AND a.scheduled_at < p_to;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION get_public_booked_times(UUID, TIMESTAMPTZ, TIMESTAMPTZ, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_public_booked_times(UUID, TIMESTAMPTZ, TIMESTAMPTZ, UUID) TO anon, authenticated;
+
+-- Add comments for documentation
+COMMENT ON FUNCTION get_public_booked_times(UUID, TIMESTAMPTZ, TIMESTAMPTZ, UUID) IS 'Start, length, status and service buffer of the appointments of a public booking window, without customer data';
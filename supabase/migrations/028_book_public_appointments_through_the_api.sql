@@ -0,0 +1,164 @@
+-- Migration: Book public appointments through the API only
+-- Description: get_public_booked_times and book_public_appointment were executable by anon,
+-- so anyone holding the anon key could book through PostgREST and skip the rate limit and
+-- the business hours and slot checks of the API. Both functions are now reserved to the
+-- service role, which the API uses once its checks pass. book_public_appointment matches
+-- or creates the client itself, so a booking that is rejected leaves the client directory
+-- untouched. Rate limit counters move to a table shared by every server instance.
+
+-- The client is now matched inside the function, so its parameter changes
+DROP FUNCTION IF EXISTS book_public_appointment(UUID, UUID, UUID, UUID, TEXT, TEXT, TEXT, TIMESTAMPTZ, TEXT);
+
+-- Book a PENDING appointment from the public page. The service name, duration and price
+-- come from the catalog, never from the caller; the specialist must be active and perform
+-- the service; overlaps are still rejected by appointments_no_specialist_overlap.
+-- p_client_phone is the normalized phone (+57 XXX XXX XXXX) that links the booking to the
+-- client directory; the client is created in the same transaction as the appointment.
+-- Fitting the business hours is checked by the API against the offered slots.
+CREATE FUNCTION book_public_appointment(
+    p_business_id UUID,
+    p_service_id UUID,
+    p_specialist_id UUID,
+    p_client_phone TEXT,
+    p_customer_name TEXT,
+    p_customer_phone TEXT,
+    p_customer_email TEXT,
+    p_scheduled_at TIMESTAMPTZ,
+    p_notes TEXT
+)
+RETURNS appointments AS $$
+DECLARE
+    service services%ROWTYPE;
+    base_currency CHAR(3);
+    rate NUMERIC;
+    matched_client_id UUID;
+    booked appointments%ROWTYPE;
+BEGIN
+    SELECT s.* INTO service
+    FROM services s
+    WHERE s.id = p_service_id AND s.business_id = p_business_id AND s.is_active;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Service % is not offered by business %', p_service_id, p_business_id
+            USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF p_specialist_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1
+        FROM specialists sp
+        JOIN specialist_services ss ON ss.specialist_id = sp.id
+        WHERE sp.id = p_specialist_id
+        AND sp.business_id = p_business_id
+        AND sp.is_active
+        AND ss.service_id = p_service_id
+    ) THEN
+        RAISE EXCEPTION 'Specialist % does not perform service %', p_specialist_id, p_service_id
+            USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF p_scheduled_at <= NOW() THEN
+        RAISE EXCEPTION 'Appointments cannot be booked in the past'
+            USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    -- Same as matchClient: the existing client with this phone, else a new one.
+    -- Rolled back with the appointment when the insert below fails
+    IF p_client_phone IS NOT NULL THEN
+        INSERT INTO clients (business_id, name, phone, email)
+        VALUES (p_business_id, p_customer_name, p_client_phone, NULLIF(p_customer_email, ''))
+        ON CONFLICT (business_id, phone) DO NOTHING;
+
+        SELECT c.id INTO matched_client_id
+        FROM clients c
+        WHERE c.business_id = p_business_id AND c.phone = p_client_phone;
+    END IF;
+
+    -- Price snapshot, as buildPriceSnapshot does: direct rate, else the inverse, else NULL
+    SELECT COALESCE(b.settings->>'currency', 'COP') INTO base_currency
+    FROM businesses b
+    WHERE b.id = p_business_id;
+
+    IF service.currency = base_currency THEN
+        rate := 1;
+    ELSE
+        SELECT COALESCE(
+            (SELECT r.rate FROM exchange_rates r
+             WHERE r.business_id = p_business_id AND r.from_currency = service.currency
+             AND r.to_currency = base_currency AND r.rate > 0),
+            (SELECT 1 / r.rate FROM exchange_rates r
+             WHERE r.business_id = p_business_id AND r.from_currency = base_currency
+             AND r.to_currency = service.currency AND r.rate > 0)
+        ) INTO rate;
+    END IF;
+
+    INSERT INTO appointments (
+        business_id, customer_name, customer_phone, customer_email, client_id,
+        service_id, specialist_id, service_type, scheduled_at, duration_minutes, status, notes,
+        price_amount, price_currency, base_currency, exchange_rate
+    ) VALUES (
+        p_business_id, p_customer_name, p_customer_phone, NULLIF(p_customer_email, ''), matched_client_id,
+        service.id, p_specialist_id, service.name, p_scheduled_at, service.duration_minutes, 'pending', NULLIF(p_notes, ''),
+        service.price, service.currency, base_currency, rate
+    )
+    RETURNING * INTO booked;
+
+    RETURN booked;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the API (service role) calls the public functions, after its rate limit and slot checks
+REVOKE EXECUTE ON FUNCTION get_public_booked_times(UUID, TIMESTAMPTZ, TIMESTAMPTZ, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION book_public_appointment(UUID, UUID, UUID, TEXT, TEXT, TEXT, TEXT, TIMESTAMPTZ, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_public_booked_times(UUID, TIMESTAMPTZ, TIMESTAMPTZ, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION book_public_appointment(UUID, UUID, UUID, TEXT, TEXT, TEXT, TEXT, TIMESTAMPTZ, TEXT) TO service_role;
+
+-- Fixed-window request counters of the unauthenticated API routes, shared by every
+-- server instance. Keys are '<limiter>:<client address>'
+CREATE TABLE rate_limits (
+    key TEXT PRIMARY KEY,
+    count INTEGER NOT NULL,
+    reset_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX idx_rate_limits_reset_at ON rate_limits(reset_at);
+
+-- No policies: only the service role reaches the counters, through consume_rate_limit
+ALTER TABLE rate_limits ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON rate_limits FROM anon, authenticated;
+
+-- Count one request against a key and report whether it is within the limit. The upsert
+-- takes the row lock, so concurrent requests of the same key are counted one by one
+CREATE OR REPLACE FUNCTION consume_rate_limit(
+    p_key TEXT,
+    p_limit INTEGER,
+    p_window_seconds INTEGER
+)
+RETURNS TABLE (allowed BOOLEAN, remaining INTEGER, retry_after_seconds INTEGER) AS $$
+DECLARE
+    window_count INTEGER;
+    window_reset_at TIMESTAMPTZ;
+BEGIN
+    -- Drop expired windows so the table does not grow with every visitor
+    DELETE FROM rate_limits WHERE reset_at <= NOW() - INTERVAL '1 hour';
+
+    INSERT INTO rate_limits AS r (key, count, reset_at)
+    VALUES (p_key, 1, NOW() + make_interval(secs => p_window_seconds))
+    ON CONFLICT (key) DO UPDATE SET
+        count = CASE WHEN r.reset_at <= NOW() THEN 1 ELSE r.count + 1 END,
+        reset_at = CASE WHEN r.reset_at <= NOW() THEN EXCLUDED.reset_at ELSE r.reset_at END
+    RETURNING r.count, r.reset_at INTO window_count, window_reset_at;
+
+    RETURN QUERY SELECT
+        window_count <= p_limit,
+        GREATEST(p_limit - window_count, 0),
+        CEIL(EXTRACT(EPOCH FROM window_reset_at - NOW()))::INTEGER;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION consume_rate_limit(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION consume_rate_limit(TEXT, INTEGER, INTEGER) TO service_role;
+
+-- Add comments for documentation
+COMMENT ON FUNCTION book_public_appointment(UUID, UUID, UUID, TEXT, TEXT, TEXT, TEXT, TIMESTAMPTZ, TEXT) IS 'Books a pending appointment from the public page with the catalog service, duration and price, matching the client by phone; service role only';
+COMMENT ON TABLE rate_limits IS 'Fixed-window request counters shared by every instance of the API';
+COMMENT ON FUNCTION consume_rate_limit(TEXT, INTEGER, INTEGER) IS 'Counts one request against a rate limit key and returns whether it is allowed';
@@ -0,0 +1,69 @@
+-- Tests: a specialist cannot have overlapping appointments (migration 014)
+-- Run with `supabase test db`; the fixtures are rolled back at the end
+
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(5);
+
+-- Fixtures, created as the migration owner so RLS does not apply
+INSERT INTO auth.users (id, email) VALUES
+    ('11111111-1111-4111-8111-111111111111', 'duena@spacentro.co');
+
+INSERT INTO businesses (id, owner_id, name, slug, street, city, department, phone, email) VALUES (
+    'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa', '11111111-1111-4111-8111-111111111111',
+    'Spa Centro', 'spa-centro', 'Calle 10 # 5-20', 'Bogotá', 'Bogotá D.C.',
+    '+57 601 234 5678', 'hola@spacentro.co'
+);
+
+INSERT INTO specialists (id, business_id, name) VALUES
+    ('cccccccc-cccc-4ccc-8ccc-cccccccccccc', 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa', 'Laura Gómez'),
+    ('dddddddd-dddd-4ddd-8ddd-dddddddddddd', 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa', 'Camila Torres');
+
+-- Laura is booked from 09:00 to 10:00 (Bogotá) on 2030-03-11
+INSERT INTO appointments (business_id, specialist_id, customer_name, customer_phone, service_type, scheduled_at, duration_minutes) VALUES
+    ('aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa', 'cccccccc-cccc-4ccc-8ccc-cccccccccccc',
+     'Ana Pérez', '+57 300 123 4567', 'Masaje relajante', '2030-03-11 09:00:00-05', 60);
+
+SELECT throws_ok(
+    $$ INSERT INTO appointments (business_id, specialist_id, customer_name, customer_phone, service_type, scheduled_at, duration_minutes)
+       VALUES ('aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa', 'cccccccc-cccc-4ccc-8ccc-cccccccccccc',
+               'Carlos Ruiz', '+57 310 555 0000', 'Masaje relajante', '2030-03-11 09:30:00-05', 60) $$,
+    '23P01', NULL,
+    'An overlapping appointment of the same specialist is rejected'
+);
+
+SELECT lives_ok(
+    $$ INSERT INTO appointments (business_id, specialist_id, customer_name, customer_phone, service_type, scheduled_at, duration_minutes)
+       VALUES ('aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa', 'cccccccc-cccc-4ccc-8ccc-cccccccccccc',
+               'Carlos Ruiz', '+57 310 555 0000', 'Masaje relajante', '2030-03-11 10:00:00-05', 60) $$,
+    'An appointment starting when the previous one ends is allowed'
+);
+
+SELECT lives_ok(
+    $$ INSERT INTO appointments (business_id, specialist_id, customer_name, customer_phone, service_type, scheduled_at, duration_minutes)
+       VALUES ('aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa', 'dddddddd-dddd-4ddd-8ddd-dddddddddddd',
+               'Lucía Gómez', '+57 315 222 3333', 'Masaje relajante', '2030-03-11 09:30:00-05', 60) $$,
+    'Another specialist can be booked at the same time'
+);
+
+-- Cancelled appointments do not hold their time, in either direction
+SELECT lives_ok(
+    $$ INSERT INTO appointments (business_id, specialist_id, customer_name, customer_phone, service_type, scheduled_at, duration_minutes, status)
+       VALUES ('aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa', 'cccccccc-cccc-4ccc-8ccc-cccccccccccc',
+               'Pedro Díaz', '+57 320 444 5555', 'Masaje relajante', '2030-03-11 09:15:00-05', 30, 'cancelled') $$,
+    'A cancelled appointment may overlap a booked one'
+);
+
+UPDATE appointments SET status = 'cancelled'
+WHERE specialist_id = 'cccccccc-cccc-4ccc-8ccc-cccccccccccc' AND scheduled_at = '2030-03-11 09:00:00-05';
+
+SELECT lives_ok(
+    $$ INSERT INTO appointments (business_id, specialist_id, customer_name, customer_phone, service_type, scheduled_at, duration_minutes)
+       VALUES ('aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa', 'cccccccc-cccc-4ccc-8ccc-cccccccccccc',
+               'Carlos Ruiz', '+57 310 555 0000', 'Masaje relajante', '2030-03-11 09:30:00-05', 30) $$,
+    'The time of a cancelled appointment can be booked again'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
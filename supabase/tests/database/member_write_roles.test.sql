@@ -0,0 +1,130 @@
+-- Tests: members write only the tables their role allows (migrations 018, 019 and 025)
+-- Run with `supabase test db`; the fixtures are rolled back at the end
+
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(13);
+
+-- Fixtures, created as the migration owner so RLS does not apply
+INSERT INTO auth.users (id, email) VALUES
+    ('11111111-1111-4111-8111-111111111111', 'duena@spacentro.co'),
+    ('22222222-2222-4222-8222-222222222222', 'especialista@spacentro.co'),
+    ('33333333-3333-4333-8333-333333333333', 'recepcion@spacentro.co');
+
+-- The owner membership is added by add_business_owner_member
+INSERT INTO businesses (id, owner_id, name, slug, street, city, department, phone, email) VALUES (
+    'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa', '11111111-1111-4111-8111-111111111111',
+    'Spa Centro', 'spa-centro', 'Calle 10 # 5-20', 'Bogotá', 'Bogotá D.C.',
+    '+57 601 234 5678', 'hola@spacentro.co'
+);
+
+INSERT INTO business_members (business_id, user_id, email, role, status, invitation_token, accepted_at) VALUES
+    ('aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa', '22222222-2222-4222-8222-222222222222',
+     'especialista@spacentro.co', 'specialist', 'active', NULL, NOW()),
+    ('aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa', '33333333-3333-4333-8333-333333333333',
+     'recepcion@spacentro.co', 'receptionist', 'active', NULL, NOW());
+
+INSERT INTO services (id, business_id, name, duration_minutes, price) VALUES
+    ('bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb', 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa', 'Masaje relajante', 60, 80000);
+
+INSERT INTO specialists (id, business_id, name) VALUES
+    ('cccccccc-cccc-4ccc-8ccc-cccccccccccc', 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa', 'Laura Gómez');
+
+INSERT INTO clients (id, business_id, name, phone) VALUES
+    ('dddddddd-dddd-4ddd-8ddd-dddddddddddd', 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa', 'Ana Pérez', '+57 300 123 4567');
+
+INSERT INTO appointments (id, business_id, customer_name, customer_phone, service_type, scheduled_at, duration_minutes) VALUES
+    ('eeeeeeee-eeee-4eee-8eee-eeeeeeeeeeee', 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa',
+     'Ana Pérez', '+57 300 123 4567', 'Masaje relajante', NOW() + INTERVAL '1 day', 60);
+
+-- Act as the specialist, with the business context set as the dashboard does
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "22222222-2222-4222-8222-222222222222", "role": "authenticated"}', true);
+SELECT set_current_business_id('aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa');
+
+SELECT isnt_empty(
+    $$ SELECT id FROM appointments $$,
+    'A specialist reads the appointments of the business'
+);
+
+SELECT throws_ok(
+    $$ INSERT INTO appointments (business_id, customer_name, customer_phone, service_type, scheduled_at, duration_minutes)
+       VALUES ('aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa', 'Carlos Ruiz', '+57 310 555 0000', 'Masaje relajante', NOW() + INTERVAL '2 days', 60) $$,
+    '42501', NULL,
+    'A specialist cannot book appointments'
+);
+
+SELECT is_empty(
+    $$ UPDATE appointments SET status = 'cancelled' WHERE id = 'eeeeeeee-eeee-4eee-8eee-eeeeeeeeeeee' RETURNING id $$,
+    'A specialist cannot change appointments'
+);
+
+SELECT is_empty(
+    $$ DELETE FROM appointments WHERE id = 'eeeeeeee-eeee-4eee-8eee-eeeeeeeeeeee' RETURNING id $$,
+    'A specialist cannot delete appointments'
+);
+
+SELECT throws_ok(
+    $$ INSERT INTO clients (business_id, name, phone)
+       VALUES ('aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa', 'Carlos Ruiz', '+57 310 555 0000') $$,
+    '42501', NULL,
+    'A specialist cannot add clients'
+);
+
+SELECT is_empty(
+    $$ UPDATE clients SET name = 'Ana María Pérez' WHERE id = 'dddddddd-dddd-4ddd-8ddd-dddddddddddd' RETURNING id $$,
+    'A specialist cannot change clients'
+);
+
+SELECT throws_ok(
+    $$ INSERT INTO services (business_id, name, duration_minutes)
+       VALUES ('aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa', 'Limpieza facial', 45) $$,
+    '42501', NULL,
+    'A specialist cannot add services'
+);
+
+SELECT is_empty(
+    $$ UPDATE services SET price = 0 WHERE id = 'bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb' RETURNING id $$,
+    'A specialist cannot change service prices'
+);
+
+SELECT throws_ok(
+    $$ INSERT INTO specialists (business_id, name) VALUES ('aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa', 'Pedro Díaz') $$,
+    '42501', NULL,
+    'A specialist cannot add specialists'
+);
+
+SELECT throws_ok(
+    $$ INSERT INTO specialist_services (specialist_id, service_id, business_id)
+       VALUES ('cccccccc-cccc-4ccc-8ccc-cccccccccccc', 'bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb', 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa') $$,
+    '42501', NULL,
+    'A specialist cannot assign services'
+);
+
+SELECT throws_ok(
+    $$ INSERT INTO exchange_rates (business_id, from_currency, to_currency, rate)
+       VALUES ('aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa', 'USD', 'COP', 4000) $$,
+    '42501', NULL,
+    'A specialist cannot set exchange rates'
+);
+
+-- Receptionists still book, but do not manage the catalog
+SELECT set_config('request.jwt.claims', '{"sub": "33333333-3333-4333-8333-333333333333", "role": "authenticated"}', true);
+SELECT set_current_business_id('aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa');
+
+SELECT lives_ok(
+    $$ INSERT INTO appointments (business_id, customer_name, customer_phone, service_type, scheduled_at, duration_minutes)
+       VALUES ('aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa', 'Carlos Ruiz', '+57 310 555 0000', 'Masaje relajante', NOW() + INTERVAL '2 days', 60) $$,
+    'A receptionist books appointments'
+);
+
+SELECT throws_ok(
+    $$ INSERT INTO services (business_id, name, duration_minutes)
+       VALUES ('aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa', 'Limpieza facial', 45) $$,
+    '42501', NULL,
+    'A receptionist cannot add services'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
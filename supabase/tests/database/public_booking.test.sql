@@ -0,0 +1,90 @@
+-- Tests: public bookings only go through the API (migration 028)
+-- Run with `supabase test db`; the fixtures are rolled back at the end
+
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(7);
+
+-- Fixtures, created as the migration owner so RLS does not apply
+INSERT INTO auth.users (id, email) VALUES
+    ('11111111-1111-4111-8111-111111111111', 'duena@spacentro.co');
+
+INSERT INTO businesses (id, owner_id, name, slug, street, city, department, phone, email) VALUES (
+    'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa', '11111111-1111-4111-8111-111111111111',
+    'Spa Centro', 'spa-centro', 'Calle 10 # 5-20', 'Bogotá', 'Bogotá D.C.',
+    '+57 601 234 5678', 'hola@spacentro.co'
+);
+
+INSERT INTO services (id, business_id, name, duration_minutes, price) VALUES
+    ('bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb', 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa', 'Masaje relajante', 60, 80000);
+
+INSERT INTO specialists (id, business_id, name) VALUES
+    ('cccccccc-cccc-4ccc-8ccc-cccccccccccc', 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa', 'Laura Gómez');
+
+INSERT INTO specialist_services (specialist_id, service_id, business_id) VALUES
+    ('cccccccc-cccc-4ccc-8ccc-cccccccccccc', 'bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb', 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa');
+
+-- A visitor holding the anon key cannot skip the API
+SET LOCAL ROLE anon;
+
+SELECT throws_ok(
+    $$ SELECT book_public_appointment(
+           'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa', 'bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb', NULL,
+           '+57 300 123 4567', 'Ana Pérez', '+57 300 123 4567', NULL, date_trunc('hour', NOW()) + INTERVAL '2 days', NULL) $$,
+    '42501', NULL,
+    'anon cannot book through PostgREST'
+);
+
+SELECT throws_ok(
+    $$ SELECT * FROM get_public_booked_times(
+           'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa', NOW(), NOW() + INTERVAL '1 day') $$,
+    '42501', NULL,
+    'anon cannot read booked times'
+);
+
+-- The API books with the service role once its checks pass
+RESET ROLE;
+SET LOCAL ROLE service_role;
+SELECT set_config('request.jwt.claims', '{"role": "service_role"}', true);
+
+SELECT is(
+    (SELECT c.name FROM clients c
+     WHERE c.id = (book_public_appointment(
+         'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa', 'bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb', 'cccccccc-cccc-4ccc-8ccc-cccccccccccc',
+         '+57 300 123 4567', 'Ana Pérez', '+57 300 123 4567', NULL, date_trunc('hour', NOW()) + INTERVAL '2 days', NULL
+     )).client_id),
+    'Ana Pérez',
+    'A booking is linked to the client it creates'
+);
+
+SELECT throws_ok(
+    $$ SELECT book_public_appointment(
+           'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa', 'bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb', 'cccccccc-cccc-4ccc-8ccc-cccccccccccc',
+           '+57 310 555 0000', 'Carlos Ruiz', '+57 310 555 0000', NULL, date_trunc('hour', NOW()) + INTERVAL '2 days', NULL) $$,
+    '23P01', NULL,
+    'An overlapping booking is rejected'
+);
+
+SELECT is_empty(
+    $$ SELECT id FROM clients WHERE phone = '+57 310 555 0000' $$,
+    'A rejected booking leaves no client behind'
+);
+
+-- Counters are shared by every instance through the table
+SELECT * FROM consume_rate_limit('public-booking:181.49.10.2', 1, 600);
+
+SELECT is(
+    (SELECT allowed FROM consume_rate_limit('public-booking:181.49.10.2', 1, 600)),
+    FALSE,
+    'Requests beyond the limit are refused'
+);
+
+SELECT is(
+    (SELECT allowed FROM consume_rate_limit('public-booking:181.49.10.3', 1, 600)),
+    TRUE,
+    'Each key has its own budget'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,61 @@
+-- Tests: every settings restore is recorded as a new version (migrations 020 and 026)
+-- Run with `supabase test db`; the fixtures are rolled back at the end
+
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(5);
+
+-- Fixtures, created as the migration owner so RLS does not apply
+INSERT INTO auth.users (id, email) VALUES
+    ('11111111-1111-4111-8111-111111111111', 'duena@spacentro.co');
+
+-- Version 1 is written by the insert trigger
+INSERT INTO businesses (id, owner_id, name, slug, street, city, department, phone, email, settings) VALUES (
+    'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa', '11111111-1111-4111-8111-111111111111',
+    'Spa Centro', 'spa-centro', 'Calle 10 # 5-20', 'Bogotá', 'Bogotá D.C.',
+    '+57 601 234 5678', 'hola@spacentro.co', '{"timezone": "America/Bogota", "currency": "COP"}'
+);
+
+-- Act as the owner
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-4111-8111-111111111111", "role": "authenticated"}', true);
+
+-- Restoring the settings the business already has changes nothing but is still recorded
+SELECT results_eq(
+    $$ SELECT version, restored_from_version FROM restore_business_settings_version('aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa', 1) $$,
+    $$ VALUES (2, 1) $$,
+    'A restore that changes nothing returns the version it recorded'
+);
+
+SELECT is(
+    (SELECT count(*)::INTEGER FROM business_settings_versions WHERE business_id = 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa'),
+    2,
+    'The no-op restore is kept in the history'
+);
+
+-- Regular edits that change nothing are still not recorded
+UPDATE businesses SET settings = settings WHERE id = 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa';
+
+SELECT is(
+    (SELECT count(*)::INTEGER FROM business_settings_versions WHERE business_id = 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa'),
+    2,
+    'Saving unchanged settings adds no version'
+);
+
+UPDATE businesses SET settings = settings || '{"currency": "USD"}' WHERE id = 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa';
+
+SELECT results_eq(
+    $$ SELECT version, restored_from_version FROM restore_business_settings_version('aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa', 1) $$,
+    $$ VALUES (4, 1) $$,
+    'A restore that changes the settings returns the new version'
+);
+
+SELECT is(
+    (SELECT settings->>'currency' FROM businesses WHERE id = 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa'),
+    'COP',
+    'The restored settings are written back'
+);
+
+SELECT * FROM finish();
+ROLLBACK;